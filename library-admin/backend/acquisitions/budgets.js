@@ -0,0 +1,124 @@
+import { getSettings, saveSettings } from '../circulation/settings.js';
+import { CirculationError } from '../circulation/errors.js';
+
+/**
+ * Fiscal years and the per-category budgets set for them
+ *
+ * A fiscal year is named after the calendar year it starts in: with the
+ * default April start, fiscal year 2026 runs from 1 April 2026 to 31 March
+ * 2027. Orders are charged to the fiscal year chosen when they're created.
+ */
+
+const FISCAL_YEAR_START_KEY = 'acquisitions.fiscal_year_start_month';
+
+/**
+ * @param {object} db - Pool or transaction connection
+ * @returns {Promise<{ fiscalYearStartMonth: number }>}
+ */
+export async function getAcquisitionSettings(db) {
+  const settings = await getSettings(db, [FISCAL_YEAR_START_KEY]);
+  return { fiscalYearStartMonth: settings[FISCAL_YEAR_START_KEY] };
+}
+
+/**
+ * @param {object} db - Pool or transaction connection
+ * @param {{ fiscalYearStartMonth: number }} values
+ * @throws {CirculationError} When the month isn't 1-12
+ */
+export async function saveAcquisitionSettings(db, { fiscalYearStartMonth }) {
+  const month = Number(fiscalYearStartMonth);
+  if (!Number.isInteger(month) || month < 1 || month > 12) {
+    throw new CirculationError('The fiscal year must start in a month from 1 to 12', 'INVALID_SETTING');
+  }
+  await saveSettings(db, { [FISCAL_YEAR_START_KEY]: month });
+}
+
+/**
+ * The fiscal year a date falls in
+ * @param {Date} date
+ * @param {number} startMonth - 1-12
+ * @returns {number}
+ */
+export function fiscalYearOf(date, startMonth) {
+  return date.getMonth() + 1 >= startMonth ? date.getFullYear() : date.getFullYear() - 1;
+}
+
+/**
+ * First and last day of a fiscal year
+ * @param {number} fiscalYear
+ * @param {number} startMonth - 1-12
+ * @returns {{ startsOn: string, endsOn: string }} YYYY-MM-DD
+ */
+export function fiscalYearRange(fiscalYear, startMonth) {
+  const pad = (n) => String(n).padStart(2, '0');
+  const end = new Date(Date.UTC(fiscalYear + 1, startMonth - 1, 0));
+  return {
+    startsOn: `${fiscalYear}-${pad(startMonth)}-01`,
+    endsOn: `${end.getUTCFullYear()}-${pad(end.getUTCMonth() + 1)}-${pad(end.getUTCDate())}`
+  };
+}
+
+/**
+ * Budget against spending for each category in a fiscal year
+ *
+ * spent is what's been received, at the ordered price; onOrder is what's
+ * been ordered but not received yet; inDraft is on orders not placed yet and
+ * doesn't count against the budget. Lines without a category are totalled
+ * under categoryId null.
+ * @param {object} db - Pool or transaction connection
+ * @param {number} fiscalYear
+ * @returns {Promise<object[]>} One row per category with a budget or spending
+ */
+export async function getBudgetSummary(db, fiscalYear) {
+  const [budgets] = await db.query(
+    `SELECT b.id, b.category_id, c.name AS category_name, b.amount
+     FROM budgets b JOIN categories c ON b.category_id = c.id
+     WHERE b.fiscal_year = ?`,
+    [fiscalYear]
+  );
+  // Cancelled orders keep what was received before they were cancelled
+  const [spending] = await db.query(
+    `SELECT l.category_id, c.name AS category_name,
+            SUM(CASE WHEN o.status <> 'draft' THEN l.unit_price * l.quantity_received ELSE 0 END) AS spent,
+            SUM(CASE WHEN o.status IN ('ordered', 'partially_received')
+                     THEN l.unit_price * (l.quantity - l.quantity_received) ELSE 0 END) AS on_order,
+            SUM(CASE WHEN o.status = 'draft' THEN l.unit_price * l.quantity ELSE 0 END) AS in_draft
+     FROM purchase_order_lines l
+     JOIN purchase_orders o ON l.order_id = o.id
+     LEFT JOIN categories c ON l.category_id = c.id
+     WHERE o.fiscal_year = ?
+     GROUP BY l.category_id, c.name`,
+    [fiscalYear]
+  );
+
+  const rows = new Map();
+  const rowFor = (categoryId, categoryName) => {
+    const key = categoryId === null ? 'none' : String(categoryId);
+    if (!rows.has(key)) {
+      rows.set(key, {
+        budgetId: null, categoryId: categoryId === null ? null : String(categoryId), categoryName,
+        budget: null, spent: 0, onOrder: 0, inDraft: 0
+      });
+    }
+    return rows.get(key);
+  };
+  for (const budget of budgets) {
+    const row = rowFor(budget.category_id, budget.category_name);
+    row.budgetId = String(budget.id);
+    row.budget = Number(budget.amount);
+  }
+  for (const line of spending) {
+    const row = rowFor(line.category_id, line.category_name);
+    row.spent = Number(line.spent);
+    row.onOrder = Number(line.on_order);
+    row.inDraft = Number(line.in_draft);
+  }
+
+  return [...rows.values()]
+    .map(row => ({
+      ...row,
+      remaining: row.budget === null ? null : Math.round((row.budget - row.spent - row.onOrder) * 100) / 100
+    }))
+    // Uncategorised spending goes last
+    .sort((a, b) => (a.categoryId === null) - (b.categoryId === null) || (a.categoryName || '').localeCompare(b.categoryName || ''));
+}
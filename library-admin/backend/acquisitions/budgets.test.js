@@ -0,0 +1,40 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { fakeDb } from '../testing/fakeDb.js';
+import { fiscalYearOf, fiscalYearRange, getBudgetSummary, saveAcquisitionSettings } from './budgets.js';
+
+test('a fiscal year is named after the year it starts in', () => {
+  assert.equal(fiscalYearOf(new Date(2026, 2, 31), 4), 2025);
+  assert.equal(fiscalYearOf(new Date(2026, 3, 1), 4), 2026);
+  assert.equal(fiscalYearOf(new Date(2026, 0, 1), 1), 2026);
+  assert.deepEqual(fiscalYearRange(2026, 4), { startsOn: '2026-04-01', endsOn: '2027-03-31' });
+  assert.deepEqual(fiscalYearRange(2026, 1), { startsOn: '2026-01-01', endsOn: '2026-12-31' });
+  assert.deepEqual(fiscalYearRange(2027, 3), { startsOn: '2027-03-01', endsOn: '2028-02-29' });
+});
+
+test('the fiscal year starts in a month from 1 to 12', async () => {
+  for (const month of [0, 13, 4.5, 'April']) {
+    await assert.rejects(saveAcquisitionSettings(fakeDb(), { fiscalYearStartMonth: month }), { code: 'INVALID_SETTING' });
+  }
+});
+
+test('each category\'s budget has what was received and what is on order taken off it', async () => {
+  const db = fakeDb([
+    [/FROM budgets b/, [
+      { id: 1, category_id: 4, category_name: 'Fiction', amount: '1000.00' },
+      { id: 2, category_id: 6, category_name: 'Art', amount: '300.00' }
+    ]],
+    [/FROM purchase_order_lines l/, [
+      { category_id: 4, category_name: 'Fiction', spent: '250.50', on_order: '100.00', in_draft: '80.00' },
+      { category_id: null, category_name: null, spent: '40.00', on_order: '0', in_draft: '0' },
+      { category_id: 9, category_name: 'Biography', spent: '0', on_order: '60.00', in_draft: '0' }
+    ]]
+  ]);
+  const summary = await getBudgetSummary(db, 2026);
+  assert.deepEqual(summary.map(row => [row.categoryName, row.budget, row.remaining]), [
+    ['Art', 300, 300], ['Biography', null, null], ['Fiction', 1000, 649.5], [null, null, null]
+  ]);
+  assert.deepEqual(summary[2], {
+    budgetId: '1', categoryId: '4', categoryName: 'Fiction', budget: 1000, spent: 250.5, onOrder: 100, inDraft: 80, remaining: 649.5
+  });
+});
@@ -0,0 +1,23 @@
+export {
+  ORDER_STATUSES,
+  OPEN_ORDER_STATUSES,
+  parseOrderInput,
+  parseOrderLineInput,
+  createOrder,
+  updateOrder,
+  addOrderLines,
+  addRequestLines,
+  updateOrderLine,
+  removeOrderLine,
+  placeOrder,
+  cancelOrder,
+  receiveOrder
+} from './orders.js';
+export { parseQuoteSheet } from './quotes.js';
+export {
+  getAcquisitionSettings,
+  saveAcquisitionSettings,
+  fiscalYearOf,
+  fiscalYearRange,
+  getBudgetSummary
+} from './budgets.js';
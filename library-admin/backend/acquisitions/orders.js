@@ -0,0 +1,530 @@
+import { CirculationError } from '../circulation/errors.js';
+import { createCopy } from '../circulation/copies.js';
+import { assignReturnedCopy } from '../circulation/holds.js';
+import { findBranch } from '../circulation/branches.js';
+import { changeRequestStatus } from '../circulation/requests.js';
+import { recordAudit, snapshot } from '../audit/index.js';
+
+/**
+ * Purchase orders: what the library buys from a vendor, line by line
+ *
+ * An order is drafted (lines typed in, taken from book requests or imported
+ * from a vendor's quote), placed with the vendor, then received - in as many
+ * deliveries as it takes. Receiving a line puts new copies on the shelf at
+ * the order's branch, adding the title to the catalog first if it isn't
+ * there yet, and fulfils the book request the line was ordered for.
+ *
+ * status: draft -> ordered -> partially_received -> received. An order can
+ * be cancelled until it's fully received; copies already received stay, and
+ * the rest is no longer expected.
+ */
+
+export const ORDER_STATUSES = ['draft', 'ordered', 'partially_received', 'received', 'cancelled'];
+export const OPEN_ORDER_STATUSES = ['ordered', 'partially_received'];
+
+// A text field from a request body, trimmed; numbers (e.g. an ISBN typed as one) count as text
+const trimmed = (value) =>
+  typeof value === 'string' || typeof value === 'number' ? String(value).trim() || null : null;
+
+/**
+ * Validate an order's details from a request body
+ * @param {object} body
+ * @returns {{ values: object, error: string|null }}
+ */
+export function parseOrderInput(body) {
+  const values = {
+    vendorId: body.vendorId || null,
+    branchId: body.branchId || null,
+    fiscalYear: Number(body.fiscalYear),
+    vendorReference: trimmed(body.vendorReference),
+    notes: trimmed(body.notes)
+  };
+  if (!values.vendorId || !values.branchId) {
+    return { values, error: 'Choose the vendor and the branch the books are for' };
+  }
+  if (!Number.isInteger(values.fiscalYear) || values.fiscalYear < 2000 || values.fiscalYear > 2100) {
+    return { values, error: 'Choose the fiscal year the order is paid from' };
+  }
+  return { values, error: null };
+}
+
+/**
+ * Validate an order line from a request body
+ * @param {object} body
+ * @returns {{ values: object, error: string|null }}
+ */
+export function parseOrderLineInput(body) {
+  const values = {
+    title: trimmed(body.title) || '',
+    isbn: trimmed(body.isbn),
+    authorName: trimmed(body.authorName),
+    categoryId: body.categoryId || null,
+    bookType: trimmed(body.bookType),
+    unitPrice: Number(body.unitPrice ?? 0),
+    quantity: Number(body.quantity ?? 1),
+    bookId: body.bookId || null
+  };
+  if (!values.title) {
+    return { values, error: 'Every line needs a title' };
+  }
+  if (!Number.isFinite(values.unitPrice) || values.unitPrice < 0) {
+    return { values, error: 'Price must be zero or more' };
+  }
+  if (!Number.isInteger(values.quantity) || values.quantity < 1) {
+    return { values, error: 'Quantity must be a whole number of at least 1' };
+  }
+  return { values, error: null };
+}
+
+/**
+ * Lock an order and check it's in a status an action is allowed from
+ * @returns {Promise<object>} The order row
+ */
+const lockOrder = async (connection, orderId, statuses, action) => {
+  const [orders] = await connection.query('SELECT * FROM purchase_orders WHERE id = ? FOR UPDATE', [orderId]);
+  const order = orders[0];
+  if (!order) {
+    throw new CirculationError('Order not found', 'NOT_FOUND', 404);
+  }
+  if (!statuses.includes(order.status)) {
+    throw new CirculationError(`This order can't be ${action} - it is ${order.status.replace('_', ' ')}`, 'INVALID_ORDER_STATUS', 409);
+  }
+  return order;
+};
+
+const assertVendorAndBranch = async (connection, { vendorId, branchId }) => {
+  const [vendors] = await connection.query('SELECT is_active FROM vendors WHERE id = ?', [vendorId]);
+  if (!vendors[0]?.is_active) {
+    throw new CirculationError('Vendor not found or no longer active', 'VENDOR_NOT_FOUND', 404);
+  }
+  const branch = await findBranch(connection, branchId);
+  if (!branch?.is_active) {
+    throw new CirculationError('Branch not found or no longer active', 'BRANCH_NOT_FOUND', 404);
+  }
+};
+
+/**
+ * Start a draft order, inside the caller's transaction
+ * @param {object} connection - Transaction connection
+ * @param {object} req - Express request (for the staff member)
+ * @param {object} values - From parseOrderInput
+ * @returns {Promise<number>} New order id
+ */
+export async function createOrder(connection, req, values) {
+  await assertVendorAndBranch(connection, values);
+  const [result] = await connection.query(
+    `INSERT INTO purchase_orders (vendor_id, branch_id, fiscal_year, vendor_reference, notes, created_by)
+     VALUES (?, ?, ?, ?, ?, ?)`,
+    [values.vendorId, values.branchId, values.fiscalYear, values.vendorReference, values.notes, req.staff?.id || null]
+  );
+  await recordAudit(connection, req, {
+    entity: 'purchase_order', entityId: result.insertId, action: 'create',
+    after: await snapshot(connection, 'purchase_order', result.insertId)
+  });
+  return result.insertId;
+}
+
+/**
+ * Change an order's details. The vendor, branch and fiscal year are fixed
+ * once it's placed; the reference and notes can still change.
+ * @param {object} connection - Transaction connection
+ * @param {object} req - Express request
+ * @param {string|number} orderId
+ * @param {object} values - From parseOrderInput
+ */
+export async function updateOrder(connection, req, orderId, values) {
+  const order = await lockOrder(connection, orderId, ['draft', ...OPEN_ORDER_STATUSES], 'changed');
+  const before = await snapshot(connection, 'purchase_order', orderId);
+  if (order.status === 'draft') {
+    await assertVendorAndBranch(connection, values);
+    await connection.query(
+      'UPDATE purchase_orders SET vendor_id = ?, branch_id = ?, fiscal_year = ? WHERE id = ?',
+      [values.vendorId, values.branchId, values.fiscalYear, orderId]
+    );
+  }
+  await connection.query(
+    'UPDATE purchase_orders SET vendor_reference = ?, notes = ? WHERE id = ?',
+    [values.vendorReference, values.notes, orderId]
+  );
+  await recordAudit(connection, req, {
+    entity: 'purchase_order', entityId: orderId, action: 'update',
+    before, after: await snapshot(connection, 'purchase_order', orderId)
+  });
+}
+
+/**
+ * Add lines to a draft order
+ * Lines can name their category (categoryName, as quotes do) instead of
+ * giving its id, and are linked to the catalog book with the same ISBN if
+ * there is one.
+ * @param {object} connection - Transaction connection
+ * @param {object} req - Express request
+ * @param {string|number} orderId
+ * @param {object[]} lines - Values from parseOrderLineInput or parseQuoteSheet,
+ *   optionally with requestId
+ * @returns {Promise<number>} How many lines were added
+ */
+export async function addOrderLines(connection, req, orderId, lines) {
+  await lockOrder(connection, orderId, ['draft'], 'added to');
+  const before = await snapshot(connection, 'purchase_order', orderId);
+
+  const [categories] = await connection.query('SELECT id, name FROM categories');
+  const categoryIds = new Map(categories.map(category => [category.name.trim().toLowerCase(), category.id]));
+
+  for (const line of lines) {
+    const categoryId = line.categoryId || (line.categoryName ? categoryIds.get(line.categoryName.trim().toLowerCase()) : null) || null;
+    let bookId = line.bookId || null;
+    if (!bookId && line.isbn) {
+      const [books] = await connection.query('SELECT id FROM books WHERE isbn = ? ORDER BY id LIMIT 1', [line.isbn]);
+      bookId = books[0]?.id || null;
+    }
+    await connection.query(
+      `INSERT INTO purchase_order_lines
+         (order_id, title, isbn, author_name, category_id, book_type, unit_price, quantity, book_id, request_id)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        orderId, line.title, line.isbn || null, line.authorName || null, categoryId, line.bookType || null,
+        line.unitPrice, line.quantity, bookId, line.requestId || null
+      ]
+    );
+  }
+
+  await recordAudit(connection, req, {
+    entity: 'purchase_order', entityId: orderId, action: 'update',
+    before, after: await snapshot(connection, 'purchase_order', orderId)
+  });
+  return lines.length;
+}
+
+/**
+ * Add a line to a draft order for each pending book request given
+ * Requests for the same title share one line, since receiving it fulfils
+ * all of them.
+ * @param {object} connection - Transaction connection
+ * @param {object} req - Express request
+ * @param {string|number} orderId
+ * @param {(string|number)[]} requestIds
+ * @returns {Promise<number>} How many lines were added
+ * @throws {CirculationError} When a request isn't pending or its title is
+ *   already on order
+ */
+export async function addRequestLines(connection, req, orderId, requestIds) {
+  if (!Array.isArray(requestIds) || requestIds.length === 0) {
+    throw new CirculationError('Choose the requests to order', 'NO_REQUESTS');
+  }
+  const [requests] = await connection.query(
+    'SELECT * FROM book_requests WHERE id IN (?) ORDER BY id FOR UPDATE',
+    [requestIds]
+  );
+  if (requests.length !== new Set(requestIds.map(String)).size) {
+    throw new CirculationError('Request not found', 'NOT_FOUND', 404);
+  }
+
+  const lines = [];
+  const titleKeys = new Set();
+  for (const request of requests) {
+    if (request.status !== 'pending') {
+      throw new CirculationError(`"${request.book_name}" has already been ${request.status}`, 'INVALID_REQUEST_STATUS', 409);
+    }
+    if (titleKeys.has(request.title_key)) {
+      continue;
+    }
+    titleKeys.add(request.title_key);
+
+    const [onOrder] = await connection.query(
+      `SELECT l.order_id FROM purchase_order_lines l
+       JOIN purchase_orders o ON l.order_id = o.id
+       JOIN book_requests r ON l.request_id = r.id
+       WHERE r.title_key = ? AND o.status IN ('draft', 'ordered', 'partially_received')
+       LIMIT 1`,
+      [request.title_key]
+    );
+    if (onOrder.length > 0) {
+      throw new CirculationError(`"${request.book_name}" is already on order #${onOrder[0].order_id}`, 'ALREADY_ON_ORDER', 409);
+    }
+    lines.push({
+      title: request.book_name,
+      authorName: request.author_name,
+      categoryId: request.category_id,
+      unitPrice: 0,
+      quantity: 1,
+      requestId: request.id
+    });
+  }
+  return addOrderLines(connection, req, orderId, lines);
+}
+
+/**
+ * Lock a line together with its order, which must still be a draft
+ * @returns {Promise<object>} The line row
+ */
+const lockDraftLine = async (connection, orderId, lineId) => {
+  await lockOrder(connection, orderId, ['draft'], 'changed');
+  const [lines] = await connection.query(
+    'SELECT * FROM purchase_order_lines WHERE id = ? AND order_id = ? FOR UPDATE',
+    [lineId, orderId]
+  );
+  if (!lines[0]) {
+    throw new CirculationError('Order line not found', 'NOT_FOUND', 404);
+  }
+  return lines[0];
+};
+
+/**
+ * Change a line on a draft order
+ * @param {object} connection - Transaction connection
+ * @param {object} req - Express request
+ * @param {string|number} orderId
+ * @param {string|number} lineId
+ * @param {object} values - From parseOrderLineInput
+ */
+export async function updateOrderLine(connection, req, orderId, lineId, values) {
+  await lockDraftLine(connection, orderId, lineId);
+  const before = await snapshot(connection, 'purchase_order', orderId);
+  await connection.query(
+    `UPDATE purchase_order_lines
+     SET title = ?, isbn = ?, author_name = ?, category_id = ?, book_type = ?, unit_price = ?, quantity = ?, book_id = ?
+     WHERE id = ?`,
+    [
+      values.title, values.isbn, values.authorName, values.categoryId, values.bookType,
+      values.unitPrice, values.quantity, values.bookId, lineId
+    ]
+  );
+  await recordAudit(connection, req, {
+    entity: 'purchase_order', entityId: orderId, action: 'update',
+    before, after: await snapshot(connection, 'purchase_order', orderId)
+  });
+}
+
+/**
+ * Take a line off a draft order
+ * @param {object} connection - Transaction connection
+ * @param {object} req - Express request
+ * @param {string|number} orderId
+ * @param {string|number} lineId
+ */
+export async function removeOrderLine(connection, req, orderId, lineId) {
+  await lockDraftLine(connection, orderId, lineId);
+  const before = await snapshot(connection, 'purchase_order', orderId);
+  await connection.query('DELETE FROM purchase_order_lines WHERE id = ?', [lineId]);
+  await recordAudit(connection, req, {
+    entity: 'purchase_order', entityId: orderId, action: 'update',
+    before, after: await snapshot(connection, 'purchase_order', orderId)
+  });
+}
+
+/**
+ * Place a draft order with the vendor; from here on it counts against the
+ * fiscal year's budgets
+ * @param {object} connection - Transaction connection
+ * @param {object} req - Express request
+ * @param {string|number} orderId
+ * @throws {CirculationError} When the order isn't a draft or has no lines
+ */
+export async function placeOrder(connection, req, orderId) {
+  await lockOrder(connection, orderId, ['draft'], 'placed');
+  const [[{ lineCount }]] = await connection.query(
+    'SELECT COUNT(*) AS lineCount FROM purchase_order_lines WHERE order_id = ?',
+    [orderId]
+  );
+  if (lineCount === 0) {
+    throw new CirculationError('Add at least one line before placing the order', 'EMPTY_ORDER');
+  }
+  const before = await snapshot(connection, 'purchase_order', orderId);
+  await connection.query(
+    `UPDATE purchase_orders SET status = 'ordered', ordered_at = NOW(), ordered_by = ? WHERE id = ?`,
+    [req.staff?.id || null, orderId]
+  );
+  await recordAudit(connection, req, {
+    entity: 'purchase_order', entityId: orderId, action: 'place',
+    before, after: await snapshot(connection, 'purchase_order', orderId)
+  });
+}
+
+/**
+ * Cancel an order, or whatever hasn't arrived of it yet
+ * @param {object} connection - Transaction connection
+ * @param {object} req - Express request
+ * @param {string|number} orderId
+ * @throws {CirculationError} When the order is already received or cancelled
+ */
+export async function cancelOrder(connection, req, orderId) {
+  await lockOrder(connection, orderId, ['draft', ...OPEN_ORDER_STATUSES], 'cancelled');
+  const before = await snapshot(connection, 'purchase_order', orderId);
+  await connection.query(`UPDATE purchase_orders SET status = 'cancelled' WHERE id = ?`, [orderId]);
+  await recordAudit(connection, req, {
+    entity: 'purchase_order', entityId: orderId, action: 'cancel',
+    before, after: await snapshot(connection, 'purchase_order', orderId)
+  });
+}
+
+/**
+ * Find the writer with a name, adding them if the catalog doesn't have them
+ * @returns {Promise<number>} Writer id
+ */
+const findOrCreateWriter = async (connection, req, name) => {
+  const [writers] = await connection.query('SELECT id FROM writers WHERE name = ? ORDER BY id LIMIT 1', [name]);
+  if (writers[0]) {
+    return writers[0].id;
+  }
+  const [result] = await connection.query('INSERT INTO writers (name) VALUES (?)', [name]);
+  await recordAudit(connection, req, {
+    entity: 'writer', entityId: result.insertId, action: 'create',
+    after: await snapshot(connection, 'writer', result.insertId)
+  });
+  return result.insertId;
+};
+
+/**
+ * The catalog book a line's copies belong to: the book with its ISBN, or a
+ * new one made from the line
+ * @returns {Promise<number>} Book id
+ */
+const catalogLine = async (connection, req, line) => {
+  if (!line.isbn) {
+    throw new CirculationError(`Add the ISBN for "${line.title}" or link it to a book before receiving it`, 'ISBN_REQUIRED');
+  }
+  const [books] = await connection.query('SELECT id FROM books WHERE isbn = ? ORDER BY id LIMIT 1', [line.isbn]);
+  if (books[0]) {
+    return books[0].id;
+  }
+
+  const [result] = await connection.query(
+    'INSERT INTO books (title, isbn, book_type) VALUES (?, ?, ?)',
+    [line.title, line.isbn, line.book_type || 'Paperback']
+  );
+  const bookId = result.insertId;
+  if (line.category_id) {
+    await connection.query('INSERT INTO book_categories (book_id, category_id) VALUES (?, ?)', [bookId, line.category_id]);
+  }
+  if (line.author_name) {
+    const writerId = await findOrCreateWriter(connection, req, line.author_name);
+    await connection.query('INSERT INTO book_writers (book_id, writer_id) VALUES (?, ?)', [bookId, writerId]);
+  }
+  await recordAudit(connection, req, {
+    entity: 'book', entityId: bookId, action: 'create',
+    after: await snapshot(connection, 'book', bookId)
+  });
+  return bookId;
+};
+
+/**
+ * The next "<book id>-<n>" barcode for a new copy of a book, the same
+ * placeholder format the copies migration uses, to relabel later if needed
+ * @returns {Promise<number>} The next n
+ */
+const nextCopyNumber = async (connection, bookId) => {
+  const [copies] = await connection.query(
+    'SELECT barcode FROM book_copies WHERE book_id = ? AND barcode LIKE ?',
+    [bookId, `${bookId}-%`]
+  );
+  const numbers = copies
+    .map(copy => Number(copy.barcode.slice(String(bookId).length + 1)))
+    .filter(Number.isInteger);
+  return Math.max(0, ...numbers) + 1;
+};
+
+/**
+ * Receive a delivery against a placed order
+ * Each line received gets new copies on the shelf at the order's branch (or
+ * on the hold shelf for patrons waiting for the title), and the book request
+ * it was ordered for - with any other pending requests for the title - is
+ * fulfilled.
+ * @param {object} connection - Transaction connection
+ * @param {object} req - Express request (for the staff member receiving)
+ * @param {string|number} orderId
+ * @param {{ lineId: string|number, quantity: number }[]} receipts
+ * @returns {Promise<{ copyIds: number[], readyHoldIds: number[], requestIds: number[] }>}
+ * @throws {CirculationError} When the order isn't open or a line gets more
+ *   than is still to come
+ */
+export async function receiveOrder(connection, req, orderId, receipts) {
+  const order = await lockOrder(connection, orderId, OPEN_ORDER_STATUSES, 'received');
+  const [lines] = await connection.query(
+    'SELECT * FROM purchase_order_lines WHERE order_id = ? ORDER BY id FOR UPDATE',
+    [orderId]
+  );
+  const linesById = new Map(lines.map(line => [String(line.id), line]));
+
+  const deliveries = (Array.isArray(receipts) ? receipts : [])
+    .map(receipt => ({ lineId: receipt.lineId, quantity: Number(receipt.quantity) }))
+    .filter(receipt => receipt.quantity !== 0);
+  if (deliveries.length === 0) {
+    throw new CirculationError('Enter how many copies of each title arrived', 'NOTHING_RECEIVED');
+  }
+  for (const { lineId, quantity } of deliveries) {
+    const line = linesById.get(String(lineId));
+    if (!line) {
+      throw new CirculationError('Order line not found', 'NOT_FOUND', 404);
+    }
+    const outstanding = line.quantity - line.quantity_received;
+    if (!Number.isInteger(quantity) || quantity < 0 || quantity > outstanding) {
+      throw new CirculationError(`Only ${outstanding} more of "${line.title}" can be received on this order`, 'TOO_MANY_RECEIVED');
+    }
+  }
+
+  const before = await snapshot(connection, 'purchase_order', orderId);
+  const result = { copyIds: [], readyHoldIds: [], requestIds: [] };
+
+  for (const { lineId, quantity } of deliveries) {
+    const line = linesById.get(String(lineId));
+    const bookId = line.book_id || await catalogLine(connection, req, line);
+    const bookBefore = await snapshot(connection, 'book', bookId);
+
+    let copyNumber = await nextCopyNumber(connection, bookId);
+    for (let i = 0; i < quantity; i++) {
+      const copyId = await createCopy(connection, bookId, {
+        barcode: `${bookId}-${copyNumber++}`,
+        accessionNumber: null,
+        shelfLocation: null,
+        condition: 'new',
+        status: 'available',
+        homeBranchId: order.branch_id
+      });
+      await recordAudit(connection, req, {
+        entity: 'copy', entityId: copyId, action: 'create',
+        after: await snapshot(connection, 'copy', copyId)
+      });
+      result.copyIds.push(copyId);
+
+      const readyHold = await assignReturnedCopy(connection, { id: copyId, book_id: bookId });
+      if (readyHold) {
+        await recordAudit(connection, req, {
+          entity: 'hold', entityId: readyHold.id, action: 'ready',
+          after: await snapshot(connection, 'hold', readyHold.id)
+        });
+        result.readyHoldIds.push(readyHold.id);
+      }
+    }
+    await recordAudit(connection, req, {
+      entity: 'book', entityId: bookId, action: 'copies',
+      before: bookBefore, after: await snapshot(connection, 'book', bookId)
+    });
+
+    await connection.query(
+      'UPDATE purchase_order_lines SET quantity_received = quantity_received + ?, book_id = ? WHERE id = ?',
+      [quantity, bookId, line.id]
+    );
+    line.quantity_received += quantity;
+
+    if (line.request_id) {
+      const [requests] = await connection.query('SELECT status FROM book_requests WHERE id = ?', [line.request_id]);
+      if (requests[0]?.status === 'pending') {
+        result.requestIds.push(...await changeRequestStatus(connection, req, line.request_id, {
+          status: 'fulfilled', bookId, includeDuplicates: true
+        }));
+      }
+    }
+  }
+
+  const complete = lines.every(line => line.quantity_received >= line.quantity);
+  await connection.query(
+    `UPDATE purchase_orders SET status = ?, received_at = ${complete ? 'NOW()' : 'NULL'} WHERE id = ?`,
+    [complete ? 'received' : 'partially_received', orderId]
+  );
+  await recordAudit(connection, req, {
+    entity: 'purchase_order', entityId: orderId, action: 'receive',
+    before, after: await snapshot(connection, 'purchase_order', orderId)
+  });
+  return result;
+}
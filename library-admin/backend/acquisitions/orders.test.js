@@ -0,0 +1,70 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { fakeDb } from '../testing/fakeDb.js';
+import { parseOrderInput, parseOrderLineInput, placeOrder, receiveOrder } from './orders.js';
+
+const STAFF = { staff: { id: '2', name: 'Desk' } };
+
+test('an order needs a vendor, a branch and a fiscal year', () => {
+  assert.equal(parseOrderInput({ vendorId: 1, branchId: 2, fiscalYear: '2026', notes: ' Rush ' }).error, null);
+  assert.equal(parseOrderInput({ vendorId: 1, branchId: 2, fiscalYear: '2026', notes: ' Rush ' }).values.notes, 'Rush');
+  assert.equal(parseOrderInput({ vendorId: 1, fiscalYear: 2026 }).error, 'Choose the vendor and the branch the books are for');
+  assert.equal(parseOrderInput({ vendorId: 1, branchId: 2 }).error, 'Choose the fiscal year the order is paid from');
+});
+
+test('an order line needs a title, a price of zero or more and a whole quantity', () => {
+  const { values, error } = parseOrderLineInput({ title: ' Dune ', isbn: 9780441172719 });
+  assert.equal(error, null);
+  assert.deepEqual(values, {
+    title: 'Dune', isbn: '9780441172719', authorName: null, categoryId: null, bookType: null, unitPrice: 0, quantity: 1, bookId: null
+  });
+  assert.equal(parseOrderLineInput({ title: ['Dune'] }).error, 'Every line needs a title');
+  assert.equal(parseOrderLineInput({ title: 'Dune', unitPrice: -1 }).error, 'Price must be zero or more');
+  assert.equal(parseOrderLineInput({ title: 'Dune', quantity: 1.5 }).error, 'Quantity must be a whole number of at least 1');
+});
+
+test('an order is placed only once it has lines', async () => {
+  const order = (lineCount) => fakeDb([
+    [/FROM purchase_orders WHERE id = \? FOR UPDATE/, [{ id: 40, status: 'draft' }]],
+    [/AS lineCount/, [{ lineCount }]]
+  ]);
+  await assert.rejects(placeOrder(order(0), STAFF, 40), { code: 'EMPTY_ORDER' });
+  const db = order(2);
+  await placeOrder(db, STAFF, 40);
+  assert.deepEqual(db.queriesMatching(/SET status = 'ordered'/)[0].params, ['2', 40]);
+});
+
+/**
+ * Order 40 for branch 2, placed, with 1 of 3 copies of Dune (book 3)
+ * received and a line for a title not in the catalogue yet
+ */
+function orderDb() {
+  return fakeDb([
+    [/FROM purchase_orders WHERE id = \? FOR UPDATE/, [{ id: 40, status: 'ordered', branch_id: 2 }]],
+    [/FROM purchase_order_lines WHERE order_id = \?/, [
+      { id: 1, title: 'Dune', isbn: '9780441172719', quantity: 3, quantity_received: 1, book_id: 3, request_id: null },
+      { id: 2, title: 'Untitled', isbn: null, quantity: 1, quantity_received: 0, book_id: null, request_id: null }
+    ]],
+    [/FROM branches WHERE id = \? AND is_active = 1/, [{ id: 2 }]],
+    [/SELECT barcode FROM book_copies/, [{ barcode: '3-1' }, { barcode: '3-old' }]],
+    [/INSERT INTO book_copies/, (params) => ({ insertId: Number(params[1].split('-')[1]) + 100 })]
+  ]);
+}
+
+test('received copies go on the shelf at the order\'s branch, numbered after the ones already there', async () => {
+  const db = orderDb();
+  const { copyIds } = await receiveOrder(db, STAFF, 40, [{ lineId: '1', quantity: '2' }]);
+  assert.deepEqual(copyIds, [102, 103]);
+  assert.deepEqual(db.queriesMatching(/INSERT INTO book_copies/).map(({ params }) => [params[1], params.at(-1)]), [['3-2', 2], ['3-3', 2]]);
+  assert.deepEqual(db.queriesMatching(/SET quantity_received = quantity_received \+ \?/)[0].params, [2, 3, 1]);
+  // The untitled line is still to come
+  assert.deepEqual(db.queriesMatching(/UPDATE purchase_orders SET status = \?/)[0].params, ['partially_received', 40]);
+});
+
+test('a delivery can\'t be more than is still to come, and a new title needs an ISBN', async () => {
+  await assert.rejects(receiveOrder(orderDb(), STAFF, 40, [{ lineId: 1, quantity: 3 }]), {
+    code: 'TOO_MANY_RECEIVED', message: 'Only 2 more of "Dune" can be received on this order'
+  });
+  await assert.rejects(receiveOrder(orderDb(), STAFF, 40, [{ lineId: 1, quantity: 0 }]), { code: 'NOTHING_RECEIVED' });
+  await assert.rejects(receiveOrder(orderDb(), STAFF, 40, [{ lineId: 2, quantity: 1 }]), { code: 'ISBN_REQUIRED' });
+});
@@ -0,0 +1,119 @@
+import XLSX from 'xlsx';
+import { CirculationError } from '../circulation/errors.js';
+
+/**
+ * Reading vendor quote spreadsheets into order lines
+ *
+ * Quotes are expected to look like the ones vendors already send (see
+ * xlsxFiles/Nagarro_Final_Quote_Customer_V1.xlsx): a header row near the top
+ * with ISBN13, AUTHOR and Title columns, then one title per row. Price,
+ * quantity, binding and category columns are picked up when present.
+ */
+
+// Vendor binding codes; anything else is filed as a paperback
+const BINDING_TYPES = {
+  PB: 'Paperback',
+  PAPERBACK: 'Paperback',
+  HB: 'Hardcover',
+  HARDCOVER: 'Hardcover',
+};
+
+const HEADER_SEARCH_ROWS = 10;
+
+/**
+ * Find a column by (part of) its header, trying each name in turn
+ * @returns {number} Column index, or -1
+ */
+const findColumn = (headerRow, ...names) => {
+  for (const name of names) {
+    const index = headerRow.findIndex(col => col && String(col).trim().toLowerCase().includes(name.toLowerCase()));
+    if (index !== -1) {
+      return index;
+    }
+  }
+  return -1;
+};
+
+const cellText = (row, index) => {
+  if (index === -1 || row[index] === undefined || row[index] === null) {
+    return null;
+  }
+  const text = String(row[index]).trim();
+  return text === '' || text === '#N/A' ? null : text;
+};
+
+const cellNumber = (row, index) => {
+  const text = cellText(row, index);
+  const number = text === null ? NaN : Number(text.replace(/[^0-9.]/g, ''));
+  return Number.isFinite(number) ? number : null;
+};
+
+/**
+ * Read the titles out of a quote spreadsheet
+ * The net (discounted) price is used where the quote has one, otherwise the
+ * list price; rows without a quantity are for one copy.
+ * @param {Buffer} buffer - The .xlsx (or .xls/.csv) file
+ * @param {object} [options]
+ * @param {boolean} [options.recommendedOnly] - Only rows whose Recommended
+ *   column starts with "Yes"
+ * @returns {{ lines: object[], skipped: number }} Lines ready for addOrderLines
+ *   (categoryName still to be matched), and how many rows were left out
+ * @throws {CirculationError} When the file can't be read or has no header row
+ */
+export function parseQuoteSheet(buffer, { recommendedOnly = false } = {}) {
+  let rows;
+  try {
+    const workbook = XLSX.read(buffer, { type: 'buffer' });
+    const worksheet = workbook.Sheets[workbook.SheetNames[0]];
+    rows = XLSX.utils.sheet_to_json(worksheet, { header: 1 });
+  } catch (error) {
+    throw new CirculationError(`Couldn't read the spreadsheet: ${error.message}`, 'INVALID_QUOTE');
+  }
+
+  const headerIndex = rows.slice(0, HEADER_SEARCH_ROWS).findIndex(row =>
+    row && findColumn(row, 'ISBN') !== -1 && findColumn(row, 'Title') !== -1
+  );
+  if (headerIndex === -1) {
+    throw new CirculationError('No header row with ISBN and Title columns in the first rows of the sheet', 'INVALID_QUOTE');
+  }
+  const header = rows[headerIndex];
+  const columns = {
+    isbn: findColumn(header, 'ISBN13', 'ISBN'),
+    title: findColumn(header, 'Title'),
+    author: findColumn(header, 'AUTHOR'),
+    binding: findColumn(header, 'BINDING'),
+    netPrice: findColumn(header, 'Net Price'),
+    price: findColumn(header, 'PRICE'),
+    quantity: findColumn(header, 'Quantity', 'Qty'),
+    category: findColumn(header, 'Category', 'Subject'),
+    recommended: findColumn(header, 'Recommended'),
+  };
+
+  const lines = [];
+  let skipped = 0;
+  for (const row of rows.slice(headerIndex + 1)) {
+    if (!row || row.length === 0) {
+      continue;
+    }
+    const title = cellText(row, columns.title);
+    if (!title) {
+      skipped++;
+      continue;
+    }
+    if (recommendedOnly && !/^yes/i.test(cellText(row, columns.recommended) || '')) {
+      skipped++;
+      continue;
+    }
+    const binding = cellText(row, columns.binding);
+    lines.push({
+      title,
+      isbn: cellText(row, columns.isbn),
+      authorName: cellText(row, columns.author),
+      categoryName: cellText(row, columns.category),
+      bookType: binding ? BINDING_TYPES[binding.toUpperCase()] || 'Paperback' : null,
+      unitPrice: cellNumber(row, columns.netPrice) ?? cellNumber(row, columns.price) ?? 0,
+      quantity: Math.max(1, Math.round(cellNumber(row, columns.quantity) ?? 1))
+    });
+  }
+  return { lines, skipped };
+}
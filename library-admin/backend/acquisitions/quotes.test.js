@@ -0,0 +1,39 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import XLSX from 'xlsx';
+import { parseQuoteSheet } from './quotes.js';
+
+// An .xlsx file with one sheet of the given rows
+const spreadsheet = (rows) => {
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(rows), 'Quote');
+  return XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' });
+};
+
+const QUOTE = [
+  ['Quotation for City Library'],
+  [],
+  ['S.No', 'ISBN13', 'AUTHOR', 'Title', 'BINDING', 'PRICE', 'Net Price', 'Qty', 'Subject', 'Recommended'],
+  [1, 9780441172719, 'Frank Herbert', 'Dune', 'HB', '₹ 899.00', '#N/A', 2, 'Fiction', 'Yes - core'],
+  [2, 9780547928227, 'J.R.R. Tolkien', 'The Hobbit', 'Spiral', 450, 382.5, '', 'Fiction', 'No'],
+  [3, 9780000000000, 'Nobody', '', 'PB', 100, 90, 1, '', 'Yes']
+];
+
+test('quote rows become order lines below the header row', () => {
+  const { lines, skipped } = parseQuoteSheet(spreadsheet(QUOTE));
+  assert.equal(skipped, 1);
+  assert.deepEqual(lines, [
+    { title: 'Dune', isbn: '9780441172719', authorName: 'Frank Herbert', categoryName: 'Fiction', bookType: 'Hardcover', unitPrice: 899, quantity: 2 },
+    { title: 'The Hobbit', isbn: '9780547928227', authorName: 'J.R.R. Tolkien', categoryName: 'Fiction', bookType: 'Paperback', unitPrice: 382.5, quantity: 1 }
+  ]);
+});
+
+test('only the recommended rows are taken when asked', () => {
+  const { lines, skipped } = parseQuoteSheet(spreadsheet(QUOTE), { recommendedOnly: true });
+  assert.deepEqual(lines.map(line => line.title), ['Dune']);
+  assert.equal(skipped, 2);
+});
+
+test('a sheet without ISBN and Title headers is refused', () => {
+  assert.throws(() => parseQuoteSheet(spreadsheet([['Name', 'Price'], ['Dune', 10]])), { code: 'INVALID_QUOTE' });
+});
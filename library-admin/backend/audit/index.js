@@ -0,0 +1,91 @@
+/**
+ * Append-only audit trail for catalog, circulation and staff changes
+ *
+ * Usage in a route:
+ *   const before = await snapshot(connection, 'book', id);
+ *   ...write...
+ *   await recordAudit(connection, req, { entity: 'book', entityId: id, action: 'update', before,
+ *                                        after: await snapshot(connection, 'book', id) });
+ *
+ * Pass the transaction's connection when there is one, so the entry commits
+ * or rolls back together with the change it describes.
+ */
+
+// Queries used to capture the full state of a record before/after a change
+const SNAPSHOT_QUERIES = {
+  book: `
+    SELECT b.*,
+           (SELECT GROUP_CONCAT(category_id ORDER BY category_id) FROM book_categories WHERE book_id = b.id) AS category_ids,
+           (SELECT GROUP_CONCAT(writer_id ORDER BY writer_id) FROM book_writers WHERE book_id = b.id) AS writer_ids
+    FROM books b WHERE b.id = ?`,
+  copy: 'SELECT * FROM book_copies WHERE id = ?',
+  category: 'SELECT * FROM categories WHERE id = ?',
+  writer: 'SELECT * FROM writers WHERE id = ?',
+  user: 'SELECT * FROM users WHERE id = ?',
+  issue: 'SELECT * FROM books_circulation WHERE id = ?',
+  book_request: 'SELECT * FROM book_requests WHERE id = ?',
+  fine_rule: 'SELECT * FROM fine_rules WHERE id = ?',
+  loan_policy: 'SELECT * FROM loan_policies WHERE id = ?',
+  fine: 'SELECT * FROM fine_ledger WHERE id = ?',
+  hold: 'SELECT * FROM holds WHERE id = ?',
+  reminder_notice: 'SELECT * FROM reminder_notices WHERE id = ?',
+  closure: 'SELECT * FROM library_closures WHERE id = ?',
+  branch: 'SELECT * FROM branches WHERE id = ?',
+  transfer: 'SELECT * FROM branch_transfers WHERE id = ?',
+  reclaim: 'SELECT * FROM copy_reclaims WHERE id = ?',
+  vendor: 'SELECT * FROM vendors WHERE id = ?',
+  purchase_order: `
+    SELECT o.*,
+           (SELECT JSON_ARRAYAGG(JSON_OBJECT('id', l.id, 'title', l.title, 'unit_price', l.unit_price,
+                    'quantity', l.quantity, 'quantity_received', l.quantity_received, 'book_id', l.book_id))
+            FROM purchase_order_lines l WHERE l.order_id = o.id) AS line_items
+    FROM purchase_orders o WHERE o.id = ?`,
+  budget: 'SELECT * FROM budgets WHERE id = ?',
+  staff: 'SELECT id, username, name, role, is_active, created_at, updated_at FROM staff_users WHERE id = ?',
+};
+
+export const AUDIT_ENTITIES = Object.keys(SNAPSHOT_QUERIES);
+
+/**
+ * Load the current state of a record for the audit trail
+ * @param {object} db - Pool or transaction connection
+ * @param {string} entity - One of AUDIT_ENTITIES
+ * @param {string|number} id
+ * @returns {Promise<object|null>}
+ */
+export async function snapshot(db, entity, id) {
+  const query = SNAPSHOT_QUERIES[entity];
+  if (!query) {
+    throw new Error(`No audit snapshot defined for entity "${entity}"`);
+  }
+  const [rows] = await db.query(query, [id]);
+  return rows[0] || null;
+}
+
+/**
+ * Append an entry to the audit log
+ * @param {object} db - Pool or transaction connection
+ * @param {object} req - Express request; req.staff is the actor, or req.patron
+ *   for the patron portal (neither for public routes)
+ * @param {object} entry
+ * @param {string} entry.entity - Entity type, e.g. 'book'
+ * @param {string|number} entry.entityId
+ * @param {string} entry.action - e.g. 'create', 'update', 'delete', 'issue', 'return'
+ * @param {object|null} [entry.before]
+ * @param {object|null} [entry.after]
+ */
+export async function recordAudit(db, req, { entity, entityId, action, before = null, after = null }) {
+  await db.query(
+    `INSERT INTO audit_log (actor_id, actor_name, entity_type, entity_id, action, before_json, after_json)
+     VALUES (?, ?, ?, ?, ?, ?, ?)`,
+    [
+      req.staff?.id || null,
+      req.staff?.name || (req.patron ? `${req.patron.name} (patron)` : null),
+      entity,
+      String(entityId),
+      action,
+      before ? JSON.stringify(before) : null,
+      after ? JSON.stringify(after) : null
+    ]
+  );
+}
@@ -0,0 +1,34 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { fakeDb } from '../testing/fakeDb.js';
+import { recordAudit, snapshot } from './index.js';
+
+test('an entry records the staff member and both snapshots as JSON', async () => {
+  const db = fakeDb();
+  await recordAudit(db, { staff: { id: '4', name: 'Asha' } }, {
+    entity: 'book', entityId: 12, action: 'update',
+    before: { title: 'Dune' }, after: { title: 'Dune Messiah' }
+  });
+  const [{ sql, params }] = db.queries;
+  assert.match(sql, /INSERT INTO audit_log/);
+  assert.deepEqual(params, ['4', 'Asha', 'book', '12', 'update', '{"title":"Dune"}', '{"title":"Dune Messiah"}']);
+});
+
+test('a patron portal change is recorded under the patron, a public one under nobody', async () => {
+  const db = fakeDb();
+  await recordAudit(db, { patron: { id: '9', name: 'Ravi' } }, { entity: 'issue', entityId: 3, action: 'renew' });
+  await recordAudit(db, {}, { entity: 'book_request', entityId: 5, action: 'create', after: { id: 5 } });
+  assert.deepEqual(db.queries[0].params.slice(0, 2), [null, 'Ravi (patron)']);
+  assert.deepEqual(db.queries[0].params.slice(5), [null, null]);
+  assert.deepEqual(db.queries[1].params.slice(0, 2), [null, null]);
+});
+
+test('a snapshot is the row as it stands, or null once it is gone', async () => {
+  const db = fakeDb([[/FROM holds WHERE id = \?/, (params) => params[0] === 1 ? [{ id: 1, status: 'ready' }] : []]]);
+  assert.deepEqual(await snapshot(db, 'hold', 1), { id: 1, status: 'ready' });
+  assert.equal(await snapshot(db, 'hold', 2), null);
+});
+
+test('a snapshot of an entity with no query is a mistake in the caller', async () => {
+  await assert.rejects(snapshot(fakeDb(), 'shelf', 1), /No audit snapshot defined for entity "shelf"/);
+});
@@ -0,0 +1,5 @@
+export { hashPassword, verifyPassword } from './passwords.js';
+export { issueTokens, issuePatronToken, verifyToken } from './tokens.js';
+export { requireAuth, requirePermission, requirePatron } from './middleware.js';
+export { findPatronByContact, requestLoginCode, verifyLoginCode } from './patronCodes.js';
+export { Permissions, ROLES, ROLE_PERMISSIONS, permissionsForRole, hasPermission } from './permissions.js';
@@ -0,0 +1,94 @@
+import pool from '../db.js';
+import { verifyToken } from './tokens.js';
+import { hasPermission } from './permissions.js';
+
+/**
+ * Express middleware that rejects requests without a valid staff access token.
+ * On success the caller is available as req.staff
+ * ({ id, username, name, role, branchId, branchName }); branchId is null for
+ * sessions from before branches, which then aren't scoped to one.
+ *
+ * The account is looked up on every request, so the role is always the
+ * current one, and deactivating the account or bumping its token_version
+ * (role change, password reset, logout) ends the session straight away
+ * rather than when the token runs out.
+ */
+export async function requireAuth(req, res, next) {
+  const header = req.headers.authorization || '';
+  const [scheme, token] = header.split(' ');
+
+  if (scheme !== 'Bearer' || !token) {
+    return res.status(401).json({ error: 'Authentication required' });
+  }
+
+  const payload = verifyToken(token, 'access');
+  if (!payload) {
+    return res.status(401).json({ error: 'Session expired or invalid', code: 'TOKEN_INVALID' });
+  }
+
+  try {
+    const [rows] = await pool.query(
+      'SELECT role, is_active, token_version FROM staff_users WHERE id = ?',
+      [payload.sub]
+    );
+    const staff = rows[0];
+    if (!staff || !staff.is_active || staff.token_version !== payload.ver) {
+      return res.status(401).json({ error: 'Session expired or invalid', code: 'TOKEN_INVALID' });
+    }
+
+    req.staff = {
+      id: payload.sub,
+      username: payload.username,
+      name: payload.name,
+      role: staff.role,
+      branchId: payload.branchId || null,
+      branchName: payload.branchName || null
+    };
+  } catch (error) {
+    return res.status(500).json({ error: error.message });
+  }
+  next();
+}
+
+/**
+ * Express middleware that rejects requests without a valid patron portal token.
+ * On success the patron is available as req.patron ({ id, name }). Staff
+ * tokens are not accepted.
+ */
+export function requirePatron(req, res, next) {
+  const header = req.headers.authorization || '';
+  const [scheme, token] = header.split(' ');
+
+  if (scheme !== 'Bearer' || !token) {
+    return res.status(401).json({ error: 'Please sign in' });
+  }
+
+  const payload = verifyToken(token, 'patron');
+  if (!payload) {
+    return res.status(401).json({ error: 'Session expired, please sign in again', code: 'TOKEN_INVALID' });
+  }
+
+  req.patron = { id: payload.sub, name: payload.name };
+  next();
+}
+
+/**
+ * Build middleware that requires a signed-in staff member whose role grants `permission`
+ * @param {string} permission - One of Permissions
+ * @returns {Function[]} - Middleware chain usable directly in a route definition
+ */
+export function requirePermission(permission) {
+  return [
+    requireAuth,
+    (req, res, next) => {
+      if (!hasPermission(req.staff.role, permission)) {
+        return res.status(403).json({
+          error: 'You do not have permission to perform this action',
+          code: 'FORBIDDEN',
+          permission
+        });
+      }
+      next();
+    }
+  ];
+}
@@ -0,0 +1,66 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import pool from '../db.js';
+import { requireAuth, requirePermission } from './middleware.js';
+import { Permissions } from './permissions.js';
+import { issueTokens } from './tokens.js';
+
+const STAFF = { id: 7, username: 'asha', name: 'Asha', role: 'librarian', token_version: 3 };
+
+// An Express response that keeps what was sent
+const fakeResponse = () => ({
+  status(code) { this.statusCode = code; return this; },
+  json(body) { this.body = body; return this; }
+});
+
+// Run requireAuth with an Authorization header, the staff_users row the
+// lookup finds, and what it sent back or passed on
+async function authenticate(t, authorization, row) {
+  t.mock.method(pool, 'query', async () => [row ? [row] : []]);
+  const req = { headers: authorization ? { authorization } : {} };
+  const res = fakeResponse();
+  let passed = false;
+  await requireAuth(req, res, () => { passed = true; });
+  return { req, res, passed };
+}
+
+test('a request without a bearer token is refused', async (t) => {
+  const { res, passed } = await authenticate(t, null, null);
+  assert.equal(passed, false);
+  assert.equal(res.statusCode, 401);
+});
+
+test('a valid token for an active account passes with the role on record', async (t) => {
+  const { token } = issueTokens(STAFF);
+  const { req, passed } = await authenticate(t, `Bearer ${token}`, { role: 'volunteer', is_active: 1, token_version: 3 });
+  assert.equal(passed, true);
+  assert.equal(req.staff.id, '7');
+  assert.equal(req.staff.role, 'volunteer');
+});
+
+test('a deactivated, deleted or revoked account is refused straight away', async (t) => {
+  const { token } = issueTokens(STAFF);
+  for (const row of [
+    { role: 'librarian', is_active: 0, token_version: 3 },
+    null,
+    { role: 'librarian', is_active: 1, token_version: 4 }
+  ]) {
+    const { res, passed } = await authenticate(t, `Bearer ${token}`, row);
+    assert.equal(passed, false);
+    assert.equal(res.statusCode, 401);
+    assert.equal(res.body.code, 'TOKEN_INVALID');
+  }
+});
+
+test('a role without the permission gets a 403 naming it', async (t) => {
+  const { token } = issueTokens(STAFF);
+  t.mock.method(pool, 'query', async () => [[{ role: 'auditor', is_active: 1, token_version: 3 }]]);
+  const [authenticated, permitted] = requirePermission(Permissions.CATALOG_WRITE);
+  const req = { headers: { authorization: `Bearer ${token}` } };
+  const res = fakeResponse();
+  let passed = false;
+  await authenticated(req, res, () => permitted(req, res, () => { passed = true; }));
+  assert.equal(passed, false);
+  assert.equal(res.statusCode, 403);
+  assert.equal(res.body.permission, Permissions.CATALOG_WRITE);
+});
@@ -0,0 +1,26 @@
+import bcrypt from 'bcryptjs';
+import { authConfig } from '../config.js';
+
+// Hash compared against when the username does not exist, so a failed lookup
+// takes as long as a wrong password and does not reveal which usernames exist
+const DUMMY_HASH = bcrypt.hashSync('not-a-real-password', 4);
+
+/**
+ * Hash a plain-text password for storage in staff_users.password_hash
+ * @param {string} password
+ * @returns {Promise<string>}
+ */
+export async function hashPassword(password) {
+  return bcrypt.hash(password, authConfig.bcryptRounds);
+}
+
+/**
+ * Compare a plain-text password against a stored hash
+ * @param {string} password
+ * @param {string|null} hash - Stored hash, or null when the account was not found
+ * @returns {Promise<boolean>}
+ */
+export async function verifyPassword(password, hash) {
+  const matches = await bcrypt.compare(password || '', hash || DUMMY_HASH);
+  return Boolean(hash) && matches;
+}
@@ -0,0 +1,15 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { hashPassword, verifyPassword } from './passwords.js';
+
+test('a stored hash matches only its own password', async () => {
+  const hash = await hashPassword('correct horse battery');
+  assert.notEqual(hash, 'correct horse battery');
+  assert.equal(await verifyPassword('correct horse battery', hash), true);
+  assert.equal(await verifyPassword('wrong password', hash), false);
+});
+
+test('an unknown account never matches', async () => {
+  assert.equal(await verifyPassword('not-a-real-password', null), false);
+  assert.equal(await verifyPassword(undefined, null), false);
+});
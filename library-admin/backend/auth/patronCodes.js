@@ -0,0 +1,109 @@
+import crypto from 'crypto';
+import { authConfig, patronAuthConfig } from '../config.js';
+import { getCodeChannel } from '../notifications/index.js';
+
+/**
+ * One-time sign-in codes for patrons
+ *
+ * A patron asks for a code with the email or phone on their record; it goes
+ * out on the configured code channel and only its hash is stored. A code
+ * works once, until it expires or has had patronAuthConfig.maxAttempts wrong
+ * guesses, and asking again replaces any code still open. Neither step says
+ * whether the contact belongs to a patron.
+ */
+
+const hashCode = (code) =>
+  crypto.createHmac('sha256', authConfig.tokenSecret).update(code).digest('hex');
+
+const generateCode = () =>
+  String(crypto.randomInt(0, 10 ** patronAuthConfig.codeLength)).padStart(patronAuthConfig.codeLength, '0');
+
+/**
+ * Find the patron an email address or phone number belongs to
+ * @param {object} db - Pool or transaction connection
+ * @param {string} contact
+ * @returns {Promise<object|null>} The users row (id, name, email, phone)
+ */
+export async function findPatronByContact(db, contact) {
+  const value = String(contact || '').trim();
+  if (!value) {
+    return null;
+  }
+  const [users] = await db.query(
+    'SELECT id, name, email, phone FROM users WHERE email = ? OR phone = ? LIMIT 1',
+    [value, value]
+  );
+  return users[0] || null;
+}
+
+/**
+ * Send a patron a new sign-in code
+ * Does nothing when the contact isn't on record or a code went out less than
+ * patronAuthConfig.resendAfterSeconds ago.
+ * @param {object} db - Pool
+ * @param {string} contact - Email or phone
+ * @returns {Promise<boolean>} Whether a code was sent (not to be shown to the caller)
+ */
+export async function requestLoginCode(db, contact) {
+  const patron = await findPatronByContact(db, contact);
+  if (!patron) {
+    return false;
+  }
+
+  const [[{ recent }]] = await db.query(
+    `SELECT COUNT(*) AS recent FROM patron_login_codes
+     WHERE user_id = ? AND created_at > NOW() - INTERVAL ? SECOND`,
+    [patron.id, patronAuthConfig.resendAfterSeconds]
+  );
+  if (recent > 0) {
+    return false;
+  }
+
+  const code = generateCode();
+  await db.query('DELETE FROM patron_login_codes WHERE user_id = ? AND used_at IS NULL', [patron.id]);
+  await db.query(
+    `INSERT INTO patron_login_codes (user_id, code_hash, channel, expires_at)
+     VALUES (?, ?, ?, NOW() + INTERVAL ? MINUTE)`,
+    [patron.id, hashCode(code), patronAuthConfig.codeChannel, patronAuthConfig.codeTTLMinutes]
+  );
+  await getCodeChannel().sendCode(patron, code, { expiresInMinutes: patronAuthConfig.codeTTLMinutes });
+  return true;
+}
+
+/**
+ * Check a sign-in code and use it up
+ * @param {object} db - Pool
+ * @param {string} contact - The email or phone the code was asked for with
+ * @param {string} code
+ * @returns {Promise<object|null>} The patron, or null when the contact or code is wrong
+ */
+export async function verifyLoginCode(db, contact, code) {
+  const patron = await findPatronByContact(db, contact);
+  if (!patron) {
+    return null;
+  }
+
+  const [codes] = await db.query(
+    `SELECT id, code_hash FROM patron_login_codes
+     WHERE user_id = ? AND used_at IS NULL AND expires_at > NOW() AND attempts < ?
+     ORDER BY id DESC LIMIT 1`,
+    [patron.id, patronAuthConfig.maxAttempts]
+  );
+  const stored = codes[0];
+  if (!stored) {
+    return null;
+  }
+
+  const given = Buffer.from(hashCode(String(code || '').trim()));
+  if (!crypto.timingSafeEqual(given, Buffer.from(stored.code_hash))) {
+    await db.query('UPDATE patron_login_codes SET attempts = attempts + 1 WHERE id = ?', [stored.id]);
+    return null;
+  }
+
+  // Only one of two requests racing with the same code gets to use it
+  const [result] = await db.query(
+    'UPDATE patron_login_codes SET used_at = NOW() WHERE id = ? AND used_at IS NULL',
+    [stored.id]
+  );
+  return result.affectedRows === 1 ? patron : null;
+}
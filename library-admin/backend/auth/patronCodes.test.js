@@ -0,0 +1,73 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { fakeDb } from '../testing/fakeDb.js';
+import { ConsoleCodeChannel } from '../notifications/index.js';
+import { findPatronByContact, requestLoginCode, verifyLoginCode } from './patronCodes.js';
+
+const PATRON = { id: 5, name: 'Ada', email: 'ada@example.com', phone: '555-0100' };
+
+/**
+ * Patron 5's sign-in codes: the code sent (caught on the console channel),
+ * and the stored row it's checked against
+ */
+function codesDb(t, { recent = 0 } = {}) {
+  t.mock.method(console, 'log', () => {});
+  const sent = [];
+  t.mock.method(ConsoleCodeChannel.prototype, 'sendCode', async (patron, code) => {
+    sent.push({ patron, code });
+  });
+  let stored = null;
+  const db = fakeDb([
+    [/FROM users WHERE email = \? OR phone = \?/, (params) => (params[0] === PATRON.email || params[0] === PATRON.phone ? [PATRON] : [])],
+    [/AS recent FROM patron_login_codes/, [{ recent }]],
+    [/INSERT INTO patron_login_codes/, (params) => {
+      stored = { id: 60, code_hash: params[1] };
+      return { insertId: 60 };
+    }],
+    [/SELECT id, code_hash FROM patron_login_codes/, () => (stored ? [stored] : [])],
+    [/SET used_at = NOW\(\)/, () => {
+      const used = stored ? 1 : 0;
+      stored = null;
+      return { affectedRows: used };
+    }]
+  ]);
+  return { db, sent };
+}
+
+test('a patron is found by the email or phone on their record', async () => {
+  const db = fakeDb([[/FROM users/, (params) => (params[0] === '555-0100' ? [PATRON] : [])]]);
+  assert.deepEqual(await findPatronByContact(db, ' 555-0100 '), PATRON);
+  assert.equal(await findPatronByContact(db, '   '), null);
+  assert.equal(db.queries.length, 1);
+});
+
+test('a code sent to a patron signs them in once', async (t) => {
+  const { db, sent } = codesDb(t);
+  assert.equal(await requestLoginCode(db, 'ada@example.com'), true);
+  const [{ patron, code }] = sent;
+  assert.equal(patron.id, 5);
+  assert.match(code, /^\d{6}$/);
+  assert.notEqual(db.queriesMatching(/INSERT INTO patron_login_codes/)[0].params[1], code);
+
+  assert.equal(await verifyLoginCode(db, '555-0100', `${code} `), PATRON);
+  assert.equal(await verifyLoginCode(db, '555-0100', code), null);
+});
+
+test('a wrong code counts as a failed attempt', async (t) => {
+  const { db, sent } = codesDb(t);
+  await requestLoginCode(db, 'ada@example.com');
+  const wrong = sent[0].code === '000000' ? '000001' : '000000';
+  assert.equal(await verifyLoginCode(db, 'ada@example.com', wrong), null);
+  assert.deepEqual(db.queriesMatching(/SET attempts = attempts \+ 1/)[0].params, [60]);
+});
+
+test('no code goes out for an unknown contact, or again too soon', async (t) => {
+  const { db, sent } = codesDb(t);
+  assert.equal(await requestLoginCode(db, 'nobody@example.com'), false);
+  assert.equal(await verifyLoginCode(db, 'nobody@example.com', '123456'), null);
+
+  const soon = codesDb(t, { recent: 1 });
+  assert.equal(await requestLoginCode(soon.db, 'ada@example.com'), false);
+  assert.equal(soon.db.queriesMatching(/INSERT INTO patron_login_codes/).length, 0);
+  assert.deepEqual([...sent, ...soon.sent], []);
+});
@@ -0,0 +1,72 @@
+/**
+ * Staff roles and the permission matrix behind them
+ *
+ * Routes check permissions, never role names, so changing what a role can do
+ * only means editing ROLE_PERMISSIONS below.
+ */
+export const Permissions = {
+  CATALOG_WRITE: 'catalog:write',           // create/edit books, writers, categories
+  CATALOG_DELETE: 'catalog:delete',         // delete books, writers, categories
+  USERS_WRITE: 'users:write',               // register and edit patrons
+  USERS_DELETE: 'users:delete',
+  CIRCULATION_ISSUE: 'circulation:issue',
+  CIRCULATION_RECEIVE: 'circulation:receive',
+  CIRCULATION_CONFIGURE: 'circulation:configure', // fine rules and borrowing settings
+  FINES_COLLECT: 'fines:collect',           // record fine payments
+  FINES_WAIVE: 'fines:waive',
+  REQUESTS_MANAGE: 'requests:manage',       // review book requests
+  CACHE_CLEAR: 'cache:clear',
+  STAFF_MANAGE: 'staff:manage',             // create staff accounts and assign roles
+  AUDIT_READ: 'audit:read',                 // browse the audit trail
+  CALENDAR_MANAGE: 'calendar:manage',       // opening hours and closed days
+  BRANCHES_MANAGE: 'branches:manage',       // add, rename and close branches
+  ACQUISITIONS_MANAGE: 'acquisitions:manage', // vendors, purchase orders and budgets
+};
+
+const ALL_PERMISSIONS = Object.values(Permissions);
+
+export const ROLE_PERMISSIONS = {
+  admin: ALL_PERMISSIONS,
+  librarian: [
+    Permissions.CATALOG_WRITE,
+    Permissions.CATALOG_DELETE,
+    Permissions.USERS_WRITE,
+    Permissions.CIRCULATION_ISSUE,
+    Permissions.CIRCULATION_RECEIVE,
+    Permissions.CIRCULATION_CONFIGURE,
+    Permissions.FINES_COLLECT,
+    Permissions.FINES_WAIVE,
+    Permissions.REQUESTS_MANAGE,
+    Permissions.ACQUISITIONS_MANAGE,
+    Permissions.AUDIT_READ,
+  ],
+  volunteer: [
+    Permissions.USERS_WRITE,
+    Permissions.CIRCULATION_ISSUE,
+    Permissions.CIRCULATION_RECEIVE,
+    Permissions.FINES_COLLECT,
+  ],
+  // Read-only: can sign in and browse everything, change nothing
+  auditor: [Permissions.AUDIT_READ],
+};
+
+export const ROLES = Object.keys(ROLE_PERMISSIONS);
+
+/**
+ * Get the permissions granted to a role
+ * @param {string} role
+ * @returns {string[]}
+ */
+export function permissionsForRole(role) {
+  return Object.hasOwn(ROLE_PERMISSIONS, role) ? ROLE_PERMISSIONS[role] : [];
+}
+
+/**
+ * Check whether a role grants a permission
+ * @param {string} role
+ * @param {string} permission
+ * @returns {boolean}
+ */
+export function hasPermission(role, permission) {
+  return permissionsForRole(role).includes(permission);
+}
@@ -0,0 +1,34 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Permissions, ROLES, permissionsForRole, hasPermission } from './permissions.js';
+
+test('admins can do everything', () => {
+  for (const permission of Object.values(Permissions)) {
+    assert.equal(hasPermission('admin', permission), true, permission);
+  }
+});
+
+test('volunteers run the desk but cannot change the catalog or settings', () => {
+  assert.equal(hasPermission('volunteer', Permissions.CIRCULATION_ISSUE), true);
+  assert.equal(hasPermission('volunteer', Permissions.FINES_COLLECT), true);
+  assert.equal(hasPermission('volunteer', Permissions.CATALOG_WRITE), false);
+  assert.equal(hasPermission('volunteer', Permissions.FINES_WAIVE), false);
+  assert.equal(hasPermission('volunteer', Permissions.CIRCULATION_CONFIGURE), false);
+});
+
+test('auditors only read', () => {
+  assert.deepEqual(permissionsForRole('auditor'), [Permissions.AUDIT_READ]);
+});
+
+test('only librarians and admins manage staff-facing settings, and only admins manage staff', () => {
+  assert.equal(hasPermission('librarian', Permissions.CIRCULATION_CONFIGURE), true);
+  assert.equal(hasPermission('librarian', Permissions.STAFF_MANAGE), false);
+});
+
+test('an unknown role, including an inherited key, grants nothing', () => {
+  assert.deepEqual(ROLES, ['admin', 'librarian', 'volunteer', 'auditor']);
+  for (const role of ['guest', 'constructor', 'toString', undefined]) {
+    assert.deepEqual(permissionsForRole(role), []);
+    assert.equal(hasPermission(role, Permissions.AUDIT_READ), false);
+  }
+});
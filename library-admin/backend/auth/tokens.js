@@ -0,0 +1,73 @@
+import jwt from 'jsonwebtoken';
+import { authConfig, patronAuthConfig } from '../config.js';
+
+/**
+ * Signed, expiring tokens for staff sessions
+ *
+ * - access token: short lived, sent as `Authorization: Bearer <token>` on every call.
+ *   It carries the account's token_version, checked on every call (see
+ *   requireAuth), and the branch they're working at.
+ * - refresh token: longer lived, only accepted by POST /api/auth/refresh.
+ *   It carries the account's token_version, so bumping that column (logout,
+ *   password reset) revokes every outstanding refresh token for the account,
+ *   and the branch, so refreshing keeps staff where they signed in.
+ *
+ * Patrons signed in to the portal get a single patron token instead (no
+ * refresh - they sign in with a new code when it runs out).
+ */
+
+function sign(payload, expiresIn) {
+  return jwt.sign(payload, authConfig.tokenSecret, { expiresIn });
+}
+
+/**
+ * Issue a new access/refresh token pair for a staff account
+ * @param {object} staff - Row from staff_users
+ * @param {object|null} [branch] - Row from branches: where they're working
+ * @returns {{ token: string, refreshToken: string, expiresIn: number }}
+ */
+export function issueTokens(staff, branch = null) {
+  const subject = String(staff.id);
+  const branchId = branch ? String(branch.id) : null;
+  const token = sign(
+    {
+      sub: subject, type: 'access', ver: staff.token_version, username: staff.username, name: staff.name,
+      role: staff.role, branchId, branchName: branch?.name || null
+    },
+    authConfig.accessTokenTTL
+  );
+  const refreshToken = sign(
+    { sub: subject, type: 'refresh', ver: staff.token_version, branchId },
+    authConfig.refreshTokenTTL
+  );
+  const { exp, iat } = jwt.decode(token);
+
+  return { token, refreshToken, expiresIn: exp - iat };
+}
+
+/**
+ * Issue a patron portal token
+ * @param {object} patron - Row from users
+ * @returns {{ token: string, expiresIn: number }}
+ */
+export function issuePatronToken(patron) {
+  const token = sign({ sub: String(patron.id), type: 'patron', name: patron.name }, patronAuthConfig.sessionTTL);
+  const { exp, iat } = jwt.decode(token);
+
+  return { token, expiresIn: exp - iat };
+}
+
+/**
+ * Verify a token and check its type
+ * @param {string} token
+ * @param {'access'|'refresh'|'patron'} type
+ * @returns {object|null} - Decoded payload, or null if invalid/expired
+ */
+export function verifyToken(token, type) {
+  try {
+    const payload = jwt.verify(token, authConfig.tokenSecret);
+    return payload.type === type ? payload : null;
+  } catch (error) {
+    return null;
+  }
+}
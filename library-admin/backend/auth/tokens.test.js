@@ -0,0 +1,39 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { issueTokens, issuePatronToken, verifyToken } from './tokens.js';
+
+const STAFF = { id: 7, username: 'asha', name: 'Asha', role: 'librarian', token_version: 3 };
+
+test('an access token carries the account, its token version and branch', () => {
+  const { token, refreshToken, expiresIn } = issueTokens(STAFF, { id: 2, name: 'North' });
+  const access = verifyToken(token, 'access');
+  assert.equal(access.sub, '7');
+  assert.equal(access.ver, 3);
+  assert.equal(access.role, 'librarian');
+  assert.equal(access.branchId, '2');
+  assert.equal(access.branchName, 'North');
+  assert.equal(expiresIn, 15 * 60);
+
+  const refresh = verifyToken(refreshToken, 'refresh');
+  assert.equal(refresh.sub, '7');
+  assert.equal(refresh.ver, 3);
+  assert.equal(refresh.branchId, '2');
+});
+
+test('a token is only accepted as its own type', () => {
+  const { token, refreshToken } = issueTokens(STAFF);
+  const { token: patronToken } = issuePatronToken({ id: 12, name: 'Ravi' });
+  assert.equal(verifyToken(token, 'refresh'), null);
+  assert.equal(verifyToken(refreshToken, 'access'), null);
+  assert.equal(verifyToken(patronToken, 'access'), null);
+  assert.equal(verifyToken(patronToken, 'patron').sub, '12');
+});
+
+test('a tampered or malformed token is refused', () => {
+  const { token } = issueTokens(STAFF);
+  const [header, payload, signature] = token.split('.');
+  const forged = Buffer.from(JSON.stringify({ ...JSON.parse(Buffer.from(payload, 'base64url')), role: 'admin' }))
+    .toString('base64url');
+  assert.equal(verifyToken(`${header}.${forged}.${signature}`, 'access'), null);
+  assert.equal(verifyToken('not-a-token', 'access'), null);
+});
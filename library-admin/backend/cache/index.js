@@ -26,14 +26,16 @@ export function getCache() {
  */
 export const CacheKeys = {
   // Books
-  allBooks: () => 'books:all',
+  bookList: (query) => `books:list:${query}`,
   book: (id) => `books:${id}`,
   bookSearch: (query) => `books:search:${query}`,
+  bookVocabulary: () => 'books:vocabulary',
   
   // Users
-  allUsers: () => 'users:all',
+  userList: (query) => `users:list:${query}`,
   user: (id) => `users:${id}`,
   userSearch: (query) => `users:search:${query}`,
+  userVocabulary: () => 'users:vocabulary',
   
   // Categories
   allCategories: () => 'categories:all',
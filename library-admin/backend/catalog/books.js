@@ -0,0 +1,218 @@
+import { getBranchAvailability, OWNERSHIP_TYPES } from '../circulation/index.js';
+import { toPage, contains, equals, oneOf, anyOf, linkedTo, bound, range, flag, fieldedQuery } from '../lists/index.js';
+
+/**
+ * Reading books as the catalog screens show them
+ *
+ * A page of books takes the same few queries however many books are on it:
+ * the page, its count, then the writers, categories and branch availability
+ * of every book on the page at once. Each book comes with its writers' and
+ * categories' names next to their ids, in the same order, so screens don't
+ * have to load every writer and category to label a page.
+ */
+
+// Where a book came from: the library's own, or lent or given by a patron
+export const BOOK_SOURCES = {
+  library: 'b.owner_id IS NULL',
+  lent: "b.owner_id IS NOT NULL AND b.ownership = 'lent'",
+  donated: "b.owner_id IS NOT NULL AND b.ownership = 'donated'"
+};
+
+const WRITER_NAMES = '(SELECT GROUP_CONCAT(w.name) FROM book_writers bw JOIN writers w ON bw.writer_id = w.id WHERE bw.book_id = b.id)';
+const CATEGORY_NAMES = '(SELECT GROUP_CONCAT(cat.name) FROM book_categories bcat JOIN categories cat ON bcat.category_id = cat.id WHERE bcat.book_id = b.id)';
+// How many times the book has been lent
+export const BORROW_COUNT = '(SELECT COUNT(*) FROM books_circulation bc WHERE bc.book_id = b.id)';
+const ON_LOAN = "EXISTS (SELECT 1 FROM books_circulation bc WHERE bc.book_id = b.id AND bc.status = 'issued')";
+const OVERDUE = `EXISTS (
+  SELECT 1 FROM books_circulation bc
+  WHERE bc.book_id = b.id AND bc.status = 'issued' AND bc.due_date < CURDATE()
+)`;
+
+// Title, ISBN, label, or a writer's or category's name
+export const BOOK_TEXT = contains('b.title', 'b.isbn', 'b.label_number', WRITER_NAMES, CATEGORY_NAMES);
+
+// What a fielded query on books can ask about, as field:value (see lists/query.js)
+export const BOOK_QUERY_FIELDS = {
+  title: contains('b.title'),
+  author: contains(WRITER_NAMES),
+  writer: contains(WRITER_NAMES),
+  category: contains(CATEGORY_NAMES),
+  description: contains('b.description'),
+  isbn: contains('b.isbn'),
+  label: contains('b.label_number'),
+  type: oneOf('b.book_type'),
+  language: oneOf('b.language'),
+  year: range('b.publication_year'),
+  copies: range('b.total_copies'),
+  available: flag('b.available_copies > 0', 'b.available_copies = 0'),
+  source: anyOf(BOOK_SOURCES),
+  added: range('DATE(b.created_at)', 'date'),
+  // Circulation
+  borrowed: range(BORROW_COUNT),
+  onloan: flag(ON_LOAN, `NOT ${ON_LOAN}`),
+  overdue: flag(OVERDUE, `NOT ${OVERDUE}`),
+  holds: range("(SELECT COUNT(*) FROM holds h WHERE h.book_id = b.id AND h.status = 'waiting')")
+};
+
+// What the book list can be sorted and filtered by (see lists/index.js)
+export const BOOK_LIST = {
+  sorts: {
+    title: 'b.title',
+    isbn: 'b.isbn',
+    labelNumber: 'b.label_number',
+    publicationYear: 'b.publication_year',
+    totalCopies: 'b.total_copies',
+    availableCopies: 'b.available_copies',
+    createdAt: 'b.created_at'
+  },
+  defaultSort: ['title'],
+  tiebreaker: 'b.id',
+  filters: {
+    // Words as BOOK_TEXT, or a fielded query over BOOK_QUERY_FIELDS
+    q: fieldedQuery(BOOK_QUERY_FIELDS, BOOK_TEXT),
+    id: oneOf('b.id'),
+    title: equals('b.title'),
+    isbn: equals('b.isbn'),
+    categoryId: linkedTo('book_categories bcat WHERE bcat.book_id = b.id', 'bcat.category_id'),
+    writerId: linkedTo('book_writers bw WHERE bw.book_id = b.id', 'bw.writer_id'),
+    ownerId: oneOf('b.owner_id'),
+    ownership: oneOf('b.ownership', OWNERSHIP_TYPES),
+    source: anyOf(BOOK_SOURCES),
+    bookType: oneOf('b.book_type'),
+    language: oneOf('b.language'),
+    available: flag('b.available_copies > 0', 'b.available_copies = 0'),
+    publishedFrom: bound('b.publication_year', 'from'),
+    publishedTo: bound('b.publication_year', 'to')
+  }
+};
+
+// Columns of a book row (b) and its owner (u), for toBookResponses
+export const BOOK_COLUMNS = `
+  b.id, b.title, b.isbn, b.label_number as labelNumber,
+  b.publication_year as publicationYear, b.total_copies as totalCopies,
+  b.available_copies as availableCopies, b.image_url as imageUrl,
+  b.description, b.owner_id as ownerId, b.book_type as bookType, b.language,
+  b.ownership, b.donated_at as donatedAt,
+  u.name as ownerName, u.phone as ownerPhone, u.email as ownerEmail
+`;
+
+const BOOK_SELECT = `SELECT ${BOOK_COLUMNS} FROM books b LEFT JOIN users u ON b.owner_id = u.id`;
+
+/**
+ * Rows linking books to one kind of relation, grouped by book id
+ * @param {object} db
+ * @param {string} sql - Selecting book_id, id and name, with ? for the book ids
+ * @param {Array<string|number>} bookIds
+ * @returns {Promise<Map<string, { ids: string[], names: string[] }>>}
+ */
+async function groupByBook(db, sql, bookIds) {
+  const [rows] = await db.query(sql, [bookIds]);
+  const grouped = new Map();
+  for (const row of rows) {
+    const bookId = String(row.book_id);
+    if (!grouped.has(bookId)) {
+      grouped.set(bookId, { ids: [], names: [] });
+    }
+    grouped.get(bookId).ids.push(String(row.id));
+    grouped.get(bookId).names.push(row.name);
+  }
+  return grouped;
+}
+
+/**
+ * Turn book rows into the API's shape, with their relations loaded in bulk
+ * @param {object} db - Pool or transaction connection
+ * @param {object[]} rows - Selecting BOOK_COLUMNS
+ */
+export async function toBookResponses(db, rows) {
+  if (rows.length === 0) {
+    return [];
+  }
+  const bookIds = rows.map(row => row.id);
+  const [writers, categories, branchAvailability] = await Promise.all([
+    groupByBook(db, `
+      SELECT bw.book_id, w.id, w.name
+      FROM book_writers bw
+      JOIN writers w ON bw.writer_id = w.id
+      WHERE bw.book_id IN (?)
+      ORDER BY bw.book_id, bw.writer_id
+    `, bookIds),
+    groupByBook(db, `
+      SELECT bcat.book_id, cat.id, cat.name
+      FROM book_categories bcat
+      JOIN categories cat ON bcat.category_id = cat.id
+      WHERE bcat.book_id IN (?)
+      ORDER BY bcat.book_id, bcat.category_id
+    `, bookIds),
+    getBranchAvailability(db, bookIds)
+  ]);
+
+  return rows.map(row => {
+    const id = String(row.id);
+    const bookWriters = writers.get(id) || { ids: [], names: [] };
+    const bookCategories = categories.get(id) || { ids: [], names: [] };
+    return {
+      ...row,
+      id,
+      ownerId: row.ownerId ? String(row.ownerId) : null,
+      donatedAt: row.donatedAt?.toISOString().split('T')[0] || null,
+      writerIds: bookWriters.ids,
+      writerNames: bookWriters.names,
+      categoryIds: bookCategories.ids,
+      categoryNames: bookCategories.names,
+      branchAvailability: branchAvailability.get(id) || []
+    };
+  });
+}
+
+/**
+ * One page of the book list
+ * @param {object} db
+ * @param {object} list - From parseListQuery with the book list's spec
+ * @returns {Promise<{ items: object[], total: number, limit: number, offset: number }>}
+ */
+export async function loadBookPage(db, list) {
+  const [[[{ total }]], [rows]] = await Promise.all([
+    db.query(`SELECT COUNT(*) AS total FROM books b ${list.where}`, list.params),
+    db.query(
+      `${BOOK_SELECT} ${list.where} ORDER BY ${list.orderBy} LIMIT ? OFFSET ?`,
+      [...list.params, list.limit, list.offset]
+    )
+  ]);
+  return toPage(await toBookResponses(db, rows), total, list);
+}
+
+/**
+ * A single book, or null if there's no such book
+ * @param {object} db
+ * @param {string|number} id
+ */
+export async function loadBook(db, id) {
+  const [rows] = await db.query(`${BOOK_SELECT} WHERE b.id = ?`, [id]);
+  const [book] = await toBookResponses(db, rows);
+  return book || null;
+}
+
+/**
+ * Another book with the same title (ignoring case and surrounding spaces)
+ * and exactly the same writers, found in one query. Books without writers
+ * are never duplicates, as a title alone doesn't make two books the same
+ * @param {object} db
+ * @param {string} title
+ * @param {Array<string|number>} writerIds
+ * @param {string|number|null} [exceptId] - The book being edited
+ * @returns {Promise<boolean>}
+ */
+export async function duplicateBookExists(db, title, writerIds, exceptId = null) {
+  if (!Array.isArray(writerIds) || writerIds.length === 0) {
+    return false;
+  }
+  const writerKey = writerIds.map(id => parseInt(id)).sort((a, b) => a - b).join(',');
+  const [rows] = await db.query(`
+    SELECT b.id FROM books b
+    WHERE LOWER(TRIM(b.title)) = LOWER(TRIM(?)) AND (? IS NULL OR b.id <> ?)
+      AND (SELECT GROUP_CONCAT(bw.writer_id ORDER BY bw.writer_id) FROM book_writers bw WHERE bw.book_id = b.id) = ?
+    LIMIT 1
+  `, [title, exceptId, exceptId, writerKey]);
+  return rows.length > 0;
+}
@@ -0,0 +1,48 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { fakeDb } from '../testing/fakeDb.js';
+import { toBookResponses, loadBook, loadBookPage, duplicateBookExists } from './books.js';
+
+// Books 3 and 4: 3 has two writers, a category and copies at one branch, 4 has none of these
+const catalogDb = () => fakeDb([
+  [/FROM book_writers bw/, [{ book_id: 3, id: 10, name: 'Larry Niven' }, { book_id: 3, id: 11, name: 'Jerry Pournelle' }]],
+  [/FROM book_categories bcat/, [{ book_id: 3, id: 4, name: 'Fiction' }]],
+  [/FROM book_copies c/, [{ book_id: 3, branch_id: 1, branch_name: 'Central', total: 2, available: 1 }]],
+  [/SELECT COUNT\(\*\) AS total FROM books b/, [{ total: 2 }]],
+  [/FROM books b LEFT JOIN users u/, (params) => [{ id: 3, title: 'The Mote in God\'s Eye', ownerId: null, donatedAt: null }, { id: 4, title: 'Ringworld', ownerId: 5, donatedAt: null }]
+    .filter(row => params.length !== 1 || row.id === params[0])]
+]);
+
+test('a page of books counts every match, and loads its writers, categories and availability in bulk', async () => {
+  const db = catalogDb();
+  const page = await loadBookPage(db, { where: '', params: [], orderBy: 'b.title, b.id', limit: 50, offset: 0 });
+  assert.equal(page.total, 2);
+  const [mote, ringworld] = page.items;
+  assert.deepEqual(mote.writerIds, ['10', '11']);
+  assert.deepEqual(mote.writerNames, ['Larry Niven', 'Jerry Pournelle']);
+  assert.deepEqual(mote.categoryNames, ['Fiction']);
+  assert.deepEqual(mote.branchAvailability, [{ branchId: '1', branchName: 'Central', total: 2, available: 1 }]);
+  assert.deepEqual([ringworld.id, ringworld.ownerId, ringworld.writerIds, ringworld.branchAvailability], ['4', '5', [], []]);
+  assert.equal(db.queries.length, 5);
+});
+
+test('a book that doesn\'t exist loads as null, without looking up relations', async () => {
+  const db = catalogDb();
+  assert.equal((await loadBook(db, 4)).title, 'Ringworld');
+  assert.equal(await loadBook(fakeDb(), 99), null);
+  assert.deepEqual(await toBookResponses(db, []), []);
+});
+
+test('a duplicate has the same title and exactly the same writers', async () => {
+  const db = fakeDb([[/SELECT b.id FROM books b/, (params) => (params[3] === '10,11' ? [{ id: 3 }] : [])]]);
+  assert.equal(await duplicateBookExists(db, ' the mote in god\'s eye ', ['11', '10']), true);
+  assert.deepEqual(db.queries[0].params, [' the mote in god\'s eye ', null, null, '10,11']);
+  assert.equal(await duplicateBookExists(db, 'The Mote in God\'s Eye', ['10']), false);
+});
+
+test('a book without writers is never a duplicate', async () => {
+  const db = fakeDb([[/SELECT b.id FROM books b/, [{ id: 3 }]]]);
+  assert.equal(await duplicateBookExists(db, 'Untitled', []), false);
+  assert.equal(await duplicateBookExists(db, 'Untitled', undefined), false);
+  assert.equal(db.queries.length, 0);
+});
@@ -0,0 +1,7 @@
+export {
+  BOOK_LIST,
+  loadBookPage,
+  loadBook,
+  duplicateBookExists
+} from './books.js';
+export { SEARCH_FIELD_NAMES, searchTerms, parseSearchQuery, searchBooks } from './search.js';
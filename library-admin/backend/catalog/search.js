@@ -0,0 +1,461 @@
+import { parseListQuery, toPage, toWhere, parseQuery, compileQuery, isPlainQuery, splitQuery } from '../lists/index.js';
+import { BOOK_LIST, BOOK_COLUMNS, BOOK_QUERY_FIELDS, BOOK_TEXT, BORROW_COUNT, toBookResponses } from './books.js';
+import { wordsOf, wordsLike, suggest } from '../matching/index.js';
+
+/**
+ * Full-text search over the catalog
+ *
+ * Each field below has a FULLTEXT index (see schema.sql). A search looks for
+ * the words of the query, as words or the starts of words, in each field it
+ * covers, and a book matches if any field has any of them. Its relevance is
+ * MySQL's score for each field that matched (higher the more of the words
+ * it has, and the rarer they are) times that field's weight, summed. Results
+ * come back best first with the book, its relevance and highlighted snippets
+ * of the fields that matched.
+ *
+ * Titles and writers' names are also searched for the words of the catalog
+ * a term could mean (see matching/): those it starts once accents and
+ * scripts are set aside, which is how short terms are found, and those a
+ * typo or two away, which count for less. A search that finds nothing
+ * suggests the closest words the catalog has.
+ *
+ * q can also be a fielded query (see lists/query.js), e.g.
+ * author:"Agatha Christie" year:1930..1940 garden. Its words are searched
+ * for and ranked as above; its fields, phrases, negations and alternatives
+ * narrow the results as the book list's filters do.
+ *
+ * Without q, a search lists the books its filters allow, by title. Either
+ * way it can also count what the results hold (facets: categories, writers,
+ * types, languages, decades, availability and where books came from) to
+ * narrow them further with the book list's filters.
+ */
+
+// Where a search looks, and how much a match there counts towards a book's relevance
+// and whether the catalog's vocabulary (titles and writers' names) covers it
+const SEARCH_FIELDS = {
+  title: { weight: 8, column: 'b.title', from: 'books b', bookId: 'b.id', vocabulary: true },
+  writers: {
+    weight: 5,
+    column: 'w.name',
+    from: 'writers w JOIN book_writers bw ON bw.writer_id = w.id',
+    bookId: 'bw.book_id',
+    vocabulary: true
+  },
+  categories: {
+    weight: 3,
+    column: 'cat.name',
+    from: 'categories cat JOIN book_categories bcat ON bcat.category_id = cat.id',
+    bookId: 'bcat.book_id'
+  },
+  description: { weight: 2, column: 'b.description', from: 'books b', bookId: 'b.id' },
+  bio: {
+    weight: 1,
+    column: 'w.bio',
+    from: 'writers w JOIN book_writers bw ON bw.writer_id = w.id',
+    bookId: 'bw.book_id'
+  }
+};
+export const SEARCH_FIELD_NAMES = Object.keys(SEARCH_FIELDS);
+
+// Shorter words aren't in the index (innodb_ft_min_token_size defaults to 3),
+// so shorter terms are only found through the vocabulary
+const MIN_TERM_LENGTH = 3;
+const MAX_TERMS = 10;
+const SNIPPET_LENGTH = 160;
+
+// Search results can be narrowed with the book list's filters, other than its q
+const SEARCH_LIST = {
+  sorts: {
+    relevance: 'hits.score',
+    title: 'b.title',
+    publicationYear: 'b.publication_year',
+    availableCopies: 'b.available_copies',
+    createdAt: 'b.created_at',
+    borrowCount: BORROW_COUNT
+  },
+  defaultSort: ['-relevance'],
+  tiebreaker: 'b.id',
+  filters: Object.fromEntries(Object.entries(BOOK_LIST.filters).filter(([name]) => name !== 'q'))
+};
+
+// Without words to rank by, relevance falls back to title
+const BROWSE_LIST = {
+  ...SEARCH_LIST,
+  sorts: { ...SEARCH_LIST.sorts, relevance: 'b.title' },
+  defaultSort: ['title']
+};
+
+// Filters that can be asked to match all their values (see linkedTo)
+const MATCH_ALL_FILTERS = ['categoryId', 'writerId'];
+
+// What a search's facets count, each as value, label and count. A facet
+// ignores its own filters, so its other values still show with their counts -
+// unless they must all match, when it counts within them.
+const FACETS = {
+  categories: {
+    filters: ['categoryId'],
+    join: 'JOIN book_categories fbc ON fbc.book_id = b.id JOIN categories fc ON fc.id = fbc.category_id',
+    value: 'fc.id',
+    label: 'fc.name',
+    order: 'count DESC, label',
+    limit: 20
+  },
+  writers: {
+    filters: ['writerId'],
+    join: 'JOIN book_writers fbw ON fbw.book_id = b.id JOIN writers fw ON fw.id = fbw.writer_id',
+    value: 'fw.id',
+    label: 'fw.name',
+    order: 'count DESC, label',
+    limit: 20
+  },
+  bookTypes: {
+    filters: ['bookType'],
+    value: 'b.book_type',
+    label: 'b.book_type',
+    where: 'b.book_type IS NOT NULL',
+    order: 'count DESC, label'
+  },
+  languages: {
+    filters: ['language'],
+    value: 'b.language',
+    label: 'b.language',
+    where: 'b.language IS NOT NULL',
+    order: 'count DESC, label'
+  },
+  decades: {
+    filters: ['publishedFrom', 'publishedTo'],
+    value: 'FLOOR(b.publication_year / 10) * 10',
+    label: "CONCAT(FLOOR(b.publication_year / 10) * 10, 's')",
+    where: 'b.publication_year IS NOT NULL',
+    order: 'value DESC'
+  },
+  availability: {
+    filters: ['available'],
+    value: "IF(b.available_copies > 0, 'true', 'false')",
+    label: "IF(b.available_copies > 0, 'Available now', 'All copies out')",
+    order: 'value DESC'
+  },
+  sources: {
+    filters: ['source', 'ownership', 'ownerId'],
+    value: "CASE WHEN b.owner_id IS NULL THEN 'library' WHEN b.ownership = 'donated' THEN 'donated' ELSE 'lent' END",
+    label: "CASE WHEN b.owner_id IS NULL THEN 'Library''s own' WHEN b.ownership = 'donated' THEN 'Donated' ELSE 'On loan from an owner' END",
+    order: 'value'
+  }
+};
+
+/**
+ * The words of a search query, lower-cased and without repeats
+ * @param {string} query
+ * @returns {string[]}
+ */
+export function searchTerms(query) {
+  return [...new Set(wordsOf(query))].slice(0, MAX_TERMS);
+}
+
+// Terms long enough for the index, as it searches for words starting with them
+const indexTerms = (terms) =>
+  terms.filter(term => [...term].length >= MIN_TERM_LENGTH).map(term => `${term}*`);
+
+/**
+ * Words of the vocabulary the terms could mean, other than the terms
+ * themselves, for the fields it covers
+ * @returns {Array<{ word: string, similar: boolean }>}
+ */
+function alternativesFor(vocabulary, terms) {
+  const seen = new Set(terms);
+  const alternatives = [];
+  for (const term of terms) {
+    for (const match of wordsLike(vocabulary, term)) {
+      if (!seen.has(match.word) && [...match.word].length >= MIN_TERM_LENGTH) {
+        seen.add(match.word);
+        alternatives.push(match);
+      }
+    }
+  }
+  return alternatives;
+}
+
+/**
+ * Read a search from GET /api/search's query string: q (optional; words or
+ * a fielded query), optionally fields (comma-separated, all by default),
+ * facets=true to count them, and the book list's paging, sorting and
+ * filters. The values' q is the words to search for.
+ * @param {object} query - req.query
+ * @param {object|null} [vocabulary] - The catalog's, from loadVocabulary;
+ *   without it only the terms as typed are searched for
+ * @returns {{ values: { q: string, terms: string[], alternatives: Array<{ word: string, similar: boolean }>,
+ *                       suggestion: string|null, fields: string[], list: object,
+ *                       facets: boolean, matchAll: string[] }|null, error: string|null }}
+ */
+export function parseSearchQuery(query, vocabulary = null) {
+  const typed = typeof query.q === 'string' ? query.q.trim() : '';
+  const { values: parsed, error: queryError } = parseQuery(typed, Object.keys(BOOK_QUERY_FIELDS));
+  if (queryError) {
+    return { values: null, error: queryError };
+  }
+  // Words are searched for; anything more is a condition on the results
+  const fielded = parsed && !isPlainQuery(parsed) ? splitQuery(parsed) : null;
+  const q = fielded ? fielded.text : typed;
+  const condition = fielded?.condition ? compileQuery(fielded.condition, BOOK_QUERY_FIELDS, BOOK_TEXT) : null;
+  if (condition?.error) {
+    return { values: null, error: condition.error };
+  }
+
+  const fields = typeof query.fields === 'string' && query.fields.trim()
+    ? query.fields.split(',').map(field => field.trim()).filter(Boolean)
+    : SEARCH_FIELD_NAMES;
+  const unknown = fields.find(field => !Object.hasOwn(SEARCH_FIELDS, field));
+  if (unknown) {
+    return { values: null, error: `Can't search ${unknown} - use one of: ${SEARCH_FIELD_NAMES.join(', ')}` };
+  }
+
+  const { values: parsedList, error } = parseListQuery(query, q ? SEARCH_LIST : BROWSE_LIST);
+  if (error) {
+    return { values: null, error };
+  }
+  const filters = condition ? [...parsedList.filters, { name: 'q', ...condition }] : parsedList.filters;
+  const list = { ...parsedList, ...toWhere(filters), filters };
+  const terms = searchTerms(q);
+  return {
+    values: {
+      q,
+      terms,
+      alternatives: vocabulary ? alternativesFor(vocabulary, terms) : [],
+      // Only for plain words - there's nowhere to put a fielded query's back
+      suggestion: vocabulary && terms.length > 0 && !fielded ? suggest(vocabulary, terms) : null,
+      fields,
+      list,
+      facets: query.facets === 'true',
+      matchAll: MATCH_ALL_FILTERS.filter(name => query[`${name}Match`] === 'all')
+    },
+    error: null
+  };
+}
+
+/**
+ * Books matching the terms in any of the fields, as book_id, score (the
+ * weighted relevance) and fields (comma-separated names of those that
+ * matched), or null if no field has anything to search for. Misspellings
+ * the vocabulary suggested (<) count for less than the terms and the words
+ * they start.
+ */
+function hitsQuery({ terms, alternatives, fields }) {
+  const searched = fields
+    .map(name => {
+      const words = [
+        ...indexTerms(terms),
+        ...(SEARCH_FIELDS[name].vocabulary
+          ? alternatives.map(({ word, similar }) => (similar ? `<${word}` : word))
+          : [])
+      ];
+      return { name, against: words.join(' ') };
+    })
+    .filter(field => field.against);
+  if (searched.length === 0) {
+    return null;
+  }
+
+  const sql = searched.map(({ name }) => {
+    const { weight, column, from, bookId } = SEARCH_FIELDS[name];
+    return `
+      SELECT ${bookId} AS book_id, '${name}' AS field,
+             MAX(MATCH(${column}) AGAINST (? IN BOOLEAN MODE)) * ${weight} AS score
+      FROM ${from}
+      WHERE MATCH(${column}) AGAINST (? IN BOOLEAN MODE)
+      GROUP BY ${bookId}
+    `;
+  }).join(' UNION ALL ');
+  return {
+    sql: `SELECT book_id, SUM(score) AS score, GROUP_CONCAT(field) AS fields FROM (${sql}) matches GROUP BY book_id`,
+    params: searched.flatMap(({ against }) => [against, against])
+  };
+}
+
+const escapeRegExp = (value) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Markdown a snippet shouldn't show: emphasis and heading marks, and link targets
+const toPlainText = (text) => text
+  .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+  .replace(/[*_#>`~]/g, '')
+  .replace(/\s+/g, ' ')
+  .trim();
+
+/**
+ * Split text into the parts that match the terms (whole words starting with
+ * one) and the parts around them. Long text is cut down to SNIPPET_LENGTH
+ * around its first match.
+ * @param {string} text
+ * @param {RegExp} pattern - From the terms, with the g flag
+ * @returns {Array<{ text: string, match: boolean }>}
+ */
+function highlight(text, pattern) {
+  let snippet = toPlainText(text);
+  if (snippet.length > SNIPPET_LENGTH) {
+    const first = Math.max(snippet.search(pattern), 0);
+    let start = Math.max(0, first - SNIPPET_LENGTH / 4);
+    if (start > 0) {
+      start = snippet.indexOf(' ', start) + 1 || start;
+    }
+    let end = Math.min(snippet.length, start + SNIPPET_LENGTH);
+    if (end < snippet.length) {
+      end = snippet.lastIndexOf(' ', end) > start ? snippet.lastIndexOf(' ', end) : end;
+    }
+    snippet = `${start > 0 ? '…' : ''}${snippet.slice(start, end)}${end < snippet.length ? '…' : ''}`;
+  }
+
+  const segments = [];
+  let last = 0;
+  for (const match of snippet.matchAll(pattern)) {
+    if (match.index > last) {
+      segments.push({ text: snippet.slice(last, match.index), match: false });
+    }
+    segments.push({ text: match[0], match: true });
+    last = match.index + match[0].length;
+  }
+  if (last < snippet.length) {
+    segments.push({ text: snippet.slice(last), match: false });
+  }
+  return segments;
+}
+
+/**
+ * The bios of a page's writers that matched, by book id
+ */
+async function matchingBios(db, terms, bookIds) {
+  const [rows] = await db.query(`
+    SELECT bw.book_id, w.bio
+    FROM book_writers bw
+    JOIN writers w ON bw.writer_id = w.id
+    WHERE bw.book_id IN (?) AND MATCH(w.bio) AGAINST (? IN BOOLEAN MODE)
+    ORDER BY bw.book_id, bw.writer_id
+  `, [bookIds, indexTerms(terms).join(' ')]);
+  const bios = new Map();
+  for (const row of rows) {
+    if (!bios.has(String(row.book_id))) {
+      bios.set(String(row.book_id), row.bio);
+    }
+  }
+  return bios;
+}
+
+/**
+ * Where a search's books come from: the matches when there are words to
+ * search for, every book otherwise. Selects b, and hits for the score and
+ * fields that matched. Null if there are words but none that can be found.
+ */
+function searchSource(search) {
+  if (!search.q) {
+    return { from: 'books b', columns: "0 AS score, '' AS fields", params: [] };
+  }
+  const hits = hitsQuery(search);
+  if (!hits) {
+    return null;
+  }
+  return {
+    from: `(${hits.sql}) hits JOIN books b ON b.id = hits.book_id`,
+    columns: 'hits.score, hits.fields',
+    params: hits.params
+  };
+}
+
+/**
+ * Count each facet's values among the search's books
+ * @returns {Promise<Object<string, Array<{ value: string, label: string, count: number }>>>}
+ */
+async function countFacets(db, source, { list, matchAll }) {
+  const counts = await Promise.all(Object.values(FACETS).map(async (facet) => {
+    const { where, params } = toWhere([
+      ...list.filters.filter(filter => !facet.filters.includes(filter.name) || matchAll.includes(filter.name)),
+      ...(facet.where ? [{ sql: facet.where, params: [] }] : [])
+    ]);
+    const [rows] = await db.query(`
+      SELECT ${facet.value} AS value, ${facet.label} AS label, COUNT(*) AS count
+      FROM ${source.from} ${facet.join || ''}
+      ${where}
+      GROUP BY value, label
+      ORDER BY ${facet.order}
+      ${facet.limit ? `LIMIT ${facet.limit}` : ''}
+    `, [...source.params, ...params]);
+    return rows.map(row => ({ value: String(row.value), label: String(row.label), count: Number(row.count) }));
+  }));
+  return Object.fromEntries(Object.keys(FACETS).map((name, index) => [name, counts[index]]));
+}
+
+/**
+ * One page of books matching a search, best first unless sorted otherwise
+ * @param {object} db
+ * @param {object} search - From parseSearchQuery
+ * @returns {Promise<{ items: Array<{ book: object, relevance: number,
+ *   highlights: Array<{ field: string, segments: Array<{ text: string, match: boolean }> }> }>,
+ *   total: number, limit: number, offset: number,
+ *   facets?: Object<string, Array<{ value: string, label: string, count: number }>>,
+ *   suggestion?: string }>} - suggestion when nothing was found
+ */
+export async function searchBooks(db, search) {
+  const { terms, alternatives, list } = search;
+  const source = searchSource(search);
+  // Words but nothing the index could find, e.g. only short words the catalog doesn't start
+  if (!source) {
+    return {
+      ...toPage([], 0, list),
+      ...(search.facets && { facets: Object.fromEntries(Object.keys(FACETS).map(name => [name, []])) }),
+      ...(search.suggestion && { suggestion: search.suggestion })
+    };
+  }
+
+  const [[[{ total }]], [rows], facets] = await Promise.all([
+    db.query(`SELECT COUNT(*) AS total FROM ${source.from} ${list.where}`, [...source.params, ...list.params]),
+    db.query(`
+      SELECT ${BOOK_COLUMNS}, ${source.columns}
+      FROM ${source.from}
+      LEFT JOIN users u ON b.owner_id = u.id
+      ${list.where}
+      ORDER BY ${list.orderBy}
+      LIMIT ? OFFSET ?
+    `, [...source.params, ...list.params, list.limit, list.offset]),
+    search.facets ? countFacets(db, source, search) : null
+  ]);
+  const page = (items) => ({
+    ...toPage(items, total, list),
+    ...(facets && { facets }),
+    ...(total === 0 && search.suggestion && { suggestion: search.suggestion })
+  });
+  if (rows.length === 0) {
+    return page([]);
+  }
+
+  const relevance = rows.map(row => Math.round(Number(row.score) * 1000) / 1000);
+  const matched = rows.map(row => new Set(row.fields.split(',')));
+  for (const row of rows) {
+    delete row.score;
+    delete row.fields;
+  }
+  const [books, bios] = await Promise.all([
+    toBookResponses(db, rows),
+    matched.some(names => names.has('bio'))
+      ? matchingBios(db, terms, rows.map(row => row.id))
+      : new Map()
+  ]);
+
+  const words = [...terms, ...alternatives.map(({ word }) => word)];
+  const pattern = words.length > 0 && new RegExp(
+    `(?<![\\p{L}\\p{N}\\p{M}])(?:${words.map(escapeRegExp).join('|')})[\\p{L}\\p{N}\\p{M}]*`,
+    'giu'
+  );
+  return page(books.map((book, index) => {
+    const texts = {
+      title: book.title,
+      writers: book.writerNames.join(', '),
+      categories: book.categoryNames.join(', '),
+      description: book.description || '',
+      bio: bios.get(book.id) || ''
+    };
+    return {
+      book,
+      relevance: relevance[index],
+      highlights: SEARCH_FIELD_NAMES
+        .filter(name => matched[index].has(name) && texts[name])
+        .map(name => ({ field: name, segments: highlight(texts[name], pattern) }))
+    };
+  }));
+}
@@ -0,0 +1,95 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { fakeDb } from '../testing/fakeDb.js';
+import { searchTerms, parseSearchQuery, searchBooks } from './search.js';
+
+test('a query\'s words are lower-cased, without repeats', () => {
+  assert.deepEqual(searchTerms('The Mote in the mote-eye!'), ['the', 'mote', 'in', 'eye']);
+  assert.deepEqual(searchTerms(''), []);
+});
+
+test('a search covers every field unless told which, and only fields it knows', () => {
+  assert.deepEqual(parseSearchQuery({ q: 'garden' }).values.fields, ['title', 'writers', 'categories', 'description', 'bio']);
+  assert.deepEqual(parseSearchQuery({ q: 'garden', fields: 'title, bio' }).values.fields, ['title', 'bio']);
+  assert.equal(
+    parseSearchQuery({ q: 'garden', fields: 'title,isbn' }).error,
+    'Can\'t search isbn - use one of: title, writers, categories, description, bio'
+  );
+  assert.match(parseSearchQuery({ q: 'garden', fields: 'constructor' }).error, /^Can't search constructor/);
+});
+
+test('results are best first with words to rank by, and by title without', () => {
+  assert.equal(parseSearchQuery({ q: 'garden' }).values.list.orderBy, 'hits.score DESC, b.id');
+  assert.equal(parseSearchQuery({}).values.list.orderBy, 'b.title, b.id');
+  assert.equal(parseSearchQuery({ q: ['garden', 'roses'] }).values.q, '');
+});
+
+/**
+ * A search for "garden" that finds book 3 by its title and its writer's bio
+ */
+const searchDb = () => fakeDb([
+  [/SELECT COUNT\(\*\) AS total FROM/, [{ total: 1 }]],
+  [/hits.score, hits.fields/, [{ id: 3, title: 'The Secret Garden', description: null, score: '12.34567', fields: 'title,bio' }]],
+  [/SELECT bw.book_id, w.bio/, [{ book_id: 3, bio: 'Frances Hodgson Burnett kept a **rose garden** at Great Maytham Hall.' }]],
+  [/FROM book_writers bw/, [{ book_id: 3, id: 10, name: 'Frances Hodgson Burnett' }]]
+]);
+
+test('each result has its relevance and the matching words marked in the fields that matched', async () => {
+  const db = searchDb();
+  const { values: search } = parseSearchQuery({ q: 'garden' });
+  const { items, total } = await searchBooks(db, search);
+  assert.equal(total, 1);
+  const [{ book, relevance, highlights }] = items;
+  assert.equal(book.title, 'The Secret Garden');
+  assert.equal(relevance, 12.346);
+  assert.deepEqual(highlights, [
+    { field: 'title', segments: [{ text: 'The Secret ', match: false }, { text: 'Garden', match: true }] },
+    { field: 'bio', segments: [
+      { text: 'Frances Hodgson Burnett kept a rose ', match: false },
+      { text: 'garden', match: true },
+      { text: ' at Great Maytham Hall.', match: false }
+    ] }
+  ]);
+  // The words are searched for as the starts of words in each field
+  const [count] = db.queriesMatching(/SELECT COUNT\(\*\) AS total FROM/);
+  assert.equal(count.params[0], 'garden*');
+});
+
+test('words too short for the index and unknown to the catalog find nothing, without querying', async () => {
+  const db = fakeDb();
+  const { values: search } = parseSearchQuery({ q: 'xq' });
+  assert.deepEqual(await searchBooks(db, search), { items: [], total: 0, limit: 50, offset: 0 });
+  assert.equal(db.queries.length, 0);
+});
+
+test('each facet is counted among the results, leaving out its own filters', async () => {
+  const db = fakeDb([
+    [/SELECT COUNT\(\*\) AS total FROM/, [{ total: 0 }]],
+    [/GROUP BY value, label/, (params, sql) => (sql.includes('fc.name') ? [{ value: 4, label: 'Fiction', count: '7' }] : [])]
+  ]);
+  const { values: search } = parseSearchQuery({ facets: 'true', categoryId: '4', bookType: 'Paperback' });
+  const { facets } = await searchBooks(db, search);
+  assert.deepEqual(Object.keys(facets), ['categories', 'writers', 'bookTypes', 'languages', 'decades', 'availability', 'sources']);
+  assert.deepEqual(facets.categories, [{ value: '4', label: 'Fiction', count: 7 }]);
+
+  const [categories, , bookTypes] = db.queriesMatching(/GROUP BY value, label/);
+  assert.doesNotMatch(categories.sql, /bcat.category_id IN/);
+  assert.match(categories.sql, /b.book_type IN/);
+  assert.match(bookTypes.sql, /bcat.category_id IN/);
+  assert.doesNotMatch(bookTypes.sql, /b.book_type IN/);
+});
+
+test('a facet whose values must all match is counted within them', async () => {
+  const db = fakeDb([[/SELECT COUNT\(\*\) AS total FROM/, [{ total: 0 }]]]);
+  const { values: search } = parseSearchQuery({ facets: 'true', categoryId: '4,6', categoryIdMatch: 'all' });
+  assert.deepEqual(search.matchAll, ['categoryId']);
+  await searchBooks(db, search);
+  const [categories] = db.queriesMatching(/GROUP BY value, label/);
+  assert.match(categories.sql, /SELECT COUNT\(\*\) FROM book_categories bcat/);
+});
+
+test('facet values are only the ones listed', () => {
+  assert.equal(parseSearchQuery({ source: 'lent,donated' }).error, null);
+  assert.equal(parseSearchQuery({ source: 'constructor' }).error, 'source must be one of: library, lent, donated');
+  assert.equal(parseSearchQuery({ available: 'sometimes' }).error, 'available must be true or false (or yes or no)');
+});
@@ -0,0 +1,252 @@
+import { CirculationError } from './errors.js';
+import { syncCopyCounts } from './copies.js';
+import { assignReturnedCopy } from './holds.js';
+import { recordAudit, snapshot } from '../audit/index.js';
+
+/**
+ * Branches and moving copies between them
+ *
+ * A transfer goes requested -> in_transit -> received, or is cancelled while
+ * still requested. Sending it takes the copy off the shelf (status
+ * in_transit, current branch already the destination, so the branch waiting
+ * for it can see it coming); receiving it puts it on the shelf there, or on
+ * the hold shelf for the next patron in line.
+ *
+ * A copy returned away from its home branch gets a transfer home requested
+ * for it, unless a hold took it.
+ */
+
+export const TRANSFER_STATUSES = ['requested', 'in_transit', 'received', 'cancelled'];
+export const OPEN_TRANSFER_STATUSES = ['requested', 'in_transit'];
+
+/**
+ * @param {object} db - Pool or transaction connection
+ * @param {string|number} branchId
+ * @returns {Promise<object|null>} The branch row
+ */
+export async function findBranch(db, branchId) {
+  const [branches] = await db.query('SELECT * FROM branches WHERE id = ?', [branchId]);
+  return branches[0] || null;
+}
+
+/**
+ * The branch staff work at when they don't pick one: the first active branch
+ * @param {object} db - Pool or transaction connection
+ * @returns {Promise<object|null>}
+ */
+export async function getDefaultBranch(db) {
+  const [branches] = await db.query('SELECT * FROM branches WHERE is_active = 1 ORDER BY id LIMIT 1');
+  return branches[0] || null;
+}
+
+/**
+ * Ask for a copy to be moved to another branch, inside the caller's transaction
+ * @param {object} connection - Transaction connection
+ * @param {object} req - Express request (for the staff member asking)
+ * @param {{ copyId: string|number, toBranchId: string|number, reason?: string|null }} transfer
+ * @returns {Promise<number>} New transfer id
+ * @throws {CirculationError} When the copy can't be moved there
+ */
+export async function requestTransfer(connection, req, { copyId, toBranchId, reason = null }) {
+  const [copies] = await connection.query(
+    `SELECT c.*, EXISTS (SELECT 1 FROM holds h WHERE h.copy_id = c.id AND h.status = 'ready') AS reserved
+     FROM book_copies c WHERE c.id = ? FOR UPDATE`,
+    [copyId]
+  );
+  const copy = copies[0];
+  if (!copy) {
+    throw new CirculationError('Copy not found', 'NOT_FOUND', 404);
+  }
+
+  const toBranch = await findBranch(connection, toBranchId);
+  if (!toBranch || !toBranch.is_active) {
+    throw new CirculationError('Branch not found or no longer active', 'BRANCH_NOT_FOUND', 404);
+  }
+  if (String(copy.current_branch_id) === String(toBranch.id)) {
+    throw new CirculationError(`Copy ${copy.barcode} is already at ${toBranch.name}`, 'SAME_BRANCH');
+  }
+  if (copy.status !== 'available') {
+    throw new CirculationError(`Only copies on the shelf can be transferred - copy ${copy.barcode} is ${copy.status.replace('_', ' ')}`, 'COPY_NOT_AVAILABLE', 409);
+  }
+  if (copy.reserved) {
+    throw new CirculationError(`Copy ${copy.barcode} is on the hold shelf for a patron`, 'COPY_RESERVED', 409);
+  }
+
+  const [open] = await connection.query(
+    'SELECT id FROM branch_transfers WHERE copy_id = ? AND status IN (?)',
+    [copyId, OPEN_TRANSFER_STATUSES]
+  );
+  if (open.length > 0) {
+    throw new CirculationError(`Copy ${copy.barcode} already has a transfer under way`, 'TRANSFER_EXISTS', 409);
+  }
+
+  const [result] = await connection.query(
+    `INSERT INTO branch_transfers (copy_id, from_branch_id, to_branch_id, reason, requested_by)
+     VALUES (?, ?, ?, ?, ?)`,
+    [copyId, copy.current_branch_id, toBranch.id, reason?.trim() || null, req.staff?.id || null]
+  );
+  await recordAudit(connection, req, {
+    entity: 'transfer', entityId: result.insertId, action: 'request',
+    after: await snapshot(connection, 'transfer', result.insertId)
+  });
+  return result.insertId;
+}
+
+/**
+ * Lock a transfer and check it's in the status an action needs
+ * @returns {Promise<object>} The transfer row
+ */
+const lockTransfer = async (connection, transferId, status, action) => {
+  const [transfers] = await connection.query('SELECT * FROM branch_transfers WHERE id = ? FOR UPDATE', [transferId]);
+  const transfer = transfers[0];
+  if (!transfer) {
+    throw new CirculationError('Transfer not found', 'NOT_FOUND', 404);
+  }
+  if (transfer.status !== status) {
+    throw new CirculationError(`Only ${status.replace('_', ' ')} transfers can be ${action} - this one is ${transfer.status.replace('_', ' ')}`, 'INVALID_TRANSFER_STATUS', 409);
+  }
+  return transfer;
+};
+
+/**
+ * Send a requested transfer: the copy leaves the shelf and goes in transit
+ * @param {object} connection - Transaction connection
+ * @param {object} req - Express request; staff working at a branch can only
+ *   send copies from it
+ * @param {string|number} transferId
+ * @throws {CirculationError} When the transfer isn't requested or the copy
+ *   has left the shelf since
+ */
+export async function sendTransfer(connection, req, transferId) {
+  const transfer = await lockTransfer(connection, transferId, 'requested', 'sent');
+  if (req.staff?.branchId && String(req.staff.branchId) !== String(transfer.from_branch_id)) {
+    throw new CirculationError('Transfers are sent by the branch the copy is at', 'WRONG_BRANCH', 403);
+  }
+
+  // Same lock order as issuing (title, then copy)
+  const [[{ book_id: bookId }]] = await connection.query('SELECT book_id FROM book_copies WHERE id = ?', [transfer.copy_id]);
+  await connection.query('SELECT id FROM books WHERE id = ? FOR UPDATE', [bookId]);
+  const [copies] = await connection.query(
+    `SELECT c.*, EXISTS (SELECT 1 FROM holds h WHERE h.copy_id = c.id AND h.status = 'ready') AS reserved
+     FROM book_copies c WHERE c.id = ? FOR UPDATE`,
+    [transfer.copy_id]
+  );
+  const copy = copies[0];
+  if (copy.status !== 'available' || copy.reserved || String(copy.current_branch_id) !== String(transfer.from_branch_id)) {
+    throw new CirculationError(`Copy ${copy.barcode} is no longer on the shelf here - cancel the transfer`, 'COPY_NOT_AVAILABLE', 409);
+  }
+
+  const before = await snapshot(connection, 'transfer', transferId);
+  const copyBefore = await snapshot(connection, 'copy', copy.id);
+  await connection.query(
+    `UPDATE book_copies SET status = 'in_transit', current_branch_id = ? WHERE id = ?`,
+    [transfer.to_branch_id, copy.id]
+  );
+  await connection.query(
+    `UPDATE branch_transfers SET status = 'in_transit', sent_by = ?, sent_at = NOW() WHERE id = ?`,
+    [req.staff?.id || null, transferId]
+  );
+  await syncCopyCounts(connection, bookId);
+
+  await recordAudit(connection, req, {
+    entity: 'copy', entityId: copy.id, action: 'send',
+    before: copyBefore, after: await snapshot(connection, 'copy', copy.id)
+  });
+  await recordAudit(connection, req, {
+    entity: 'transfer', entityId: transferId, action: 'send',
+    before, after: await snapshot(connection, 'transfer', transferId)
+  });
+}
+
+/**
+ * Receive a transfer at its destination: the copy goes on the shelf there,
+ * or on the hold shelf for the next patron in line
+ * @param {object} connection - Transaction connection
+ * @param {object} req - Express request; staff working at a branch can only
+ *   receive copies sent to it
+ * @param {string|number} transferId
+ * @returns {Promise<object|null>} The ready hold the copy went to, if any (see assignReturnedCopy)
+ * @throws {CirculationError} When the transfer isn't in transit
+ */
+export async function receiveTransfer(connection, req, transferId) {
+  const transfer = await lockTransfer(connection, transferId, 'in_transit', 'received');
+  if (req.staff?.branchId && String(req.staff.branchId) !== String(transfer.to_branch_id)) {
+    throw new CirculationError('Transfers are received by the branch they were sent to', 'WRONG_BRANCH', 403);
+  }
+
+  const [[{ book_id: bookId }]] = await connection.query('SELECT book_id FROM book_copies WHERE id = ?', [transfer.copy_id]);
+  await connection.query('SELECT id FROM books WHERE id = ? FOR UPDATE', [bookId]);
+
+  const before = await snapshot(connection, 'transfer', transferId);
+  const copyBefore = await snapshot(connection, 'copy', transfer.copy_id);
+  await connection.query(
+    `UPDATE book_copies SET status = 'available', current_branch_id = ? WHERE id = ? AND status = 'in_transit'`,
+    [transfer.to_branch_id, transfer.copy_id]
+  );
+  await connection.query(
+    `UPDATE branch_transfers SET status = 'received', received_by = ?, received_at = NOW() WHERE id = ?`,
+    [req.staff?.id || null, transferId]
+  );
+  const hold = await assignReturnedCopy(connection, { id: transfer.copy_id, book_id: bookId });
+
+  await recordAudit(connection, req, {
+    entity: 'copy', entityId: transfer.copy_id, action: 'receive',
+    before: copyBefore, after: await snapshot(connection, 'copy', transfer.copy_id)
+  });
+  await recordAudit(connection, req, {
+    entity: 'transfer', entityId: transferId, action: 'receive',
+    before, after: await snapshot(connection, 'transfer', transferId)
+  });
+  if (hold) {
+    await recordAudit(connection, req, {
+      entity: 'hold', entityId: hold.id, action: 'ready',
+      after: await snapshot(connection, 'hold', hold.id)
+    });
+  }
+  return hold;
+}
+
+/**
+ * Cancel a transfer that hasn't been sent yet
+ * @param {object} connection - Transaction connection
+ * @param {object} req - Express request
+ * @param {string|number} transferId
+ * @throws {CirculationError} When the transfer has already been sent
+ */
+export async function cancelTransfer(connection, req, transferId) {
+  await lockTransfer(connection, transferId, 'requested', 'cancelled');
+  const before = await snapshot(connection, 'transfer', transferId);
+  await connection.query(`UPDATE branch_transfers SET status = 'cancelled' WHERE id = ?`, [transferId]);
+  await recordAudit(connection, req, {
+    entity: 'transfer', entityId: transferId, action: 'cancel',
+    before, after: await snapshot(connection, 'transfer', transferId)
+  });
+}
+
+/**
+ * Request a transfer home for a copy just returned away from its home branch
+ * Nothing to do when the copy is at home, went to a hold, or its home
+ * branch has closed.
+ * @param {object} connection - Transaction connection
+ * @param {object} req - Express request
+ * @param {string|number} copyId
+ * @returns {Promise<number|null>} The new transfer id, if one was requested
+ */
+export async function sendHomeIfAway(connection, req, copyId) {
+  const [copies] = await connection.query(
+    `SELECT c.id, c.status, c.current_branch_id, c.home_branch_id
+     FROM book_copies c
+     JOIN branches home ON home.id = c.home_branch_id AND home.is_active = 1
+     WHERE c.id = ?
+       AND c.home_branch_id <> c.current_branch_id
+       AND NOT EXISTS (SELECT 1 FROM holds h WHERE h.copy_id = c.id AND h.status = 'ready')`,
+    [copyId]
+  );
+  const copy = copies[0];
+  if (!copy || copy.status !== 'available') {
+    return null;
+  }
+  return requestTransfer(connection, req, {
+    copyId, toBranchId: copy.home_branch_id, reason: 'Going back to its home branch'
+  });
+}
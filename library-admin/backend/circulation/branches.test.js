@@ -0,0 +1,91 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { fakeDb } from '../testing/fakeDb.js';
+import { requestTransfer, sendTransfer, receiveTransfer, cancelTransfer, sendHomeIfAway } from './branches.js';
+
+const STAFF = { staff: { id: '2', name: 'Desk' } };
+const AT_BRANCH = (branchId) => ({ staff: { id: '2', name: 'Desk', branchId } });
+
+/**
+ * Copy 12 at branch 1, the branches it could go to and any transfer of it
+ * already under way
+ */
+function copyDb(copy = {}, { open = [] } = {}) {
+  return fakeDb([
+    [/FROM book_copies c WHERE c.id = \? FOR UPDATE/, [{ id: 12, barcode: 'B-012', status: 'available', current_branch_id: 1, home_branch_id: 1, reserved: 0, ...copy }]],
+    [/FROM branches WHERE id = \?/, (params) => [{ id: params[0], name: `Branch ${params[0]}`, is_active: params[0] !== 9 }]],
+    [/FROM branch_transfers WHERE copy_id = \?/, open],
+    [/INSERT INTO branch_transfers/, { insertId: 30 }]
+  ]);
+}
+
+test('a copy on the shelf can be asked for at another branch', async () => {
+  const db = copyDb();
+  assert.equal(await requestTransfer(db, STAFF, { copyId: 12, toBranchId: 2, reason: '  For a display ' }), 30);
+  assert.deepEqual(db.queriesMatching(/INSERT INTO branch_transfers/)[0].params, [12, 1, 2, 'For a display', '2']);
+});
+
+test('a copy can\'t be sent where it already is, or while it\'s off the shelf or already moving', async () => {
+  const request = (db, toBranchId = 2) => requestTransfer(db, STAFF, { copyId: 12, toBranchId });
+  await assert.rejects(request(copyDb(), 1), { code: 'SAME_BRANCH', message: 'Copy B-012 is already at Branch 1' });
+  await assert.rejects(request(copyDb(), 9), { code: 'BRANCH_NOT_FOUND', status: 404 });
+  await assert.rejects(request(copyDb({ status: 'on_loan' })), {
+    code: 'COPY_NOT_AVAILABLE', message: 'Only copies on the shelf can be transferred - copy B-012 is on loan'
+  });
+  await assert.rejects(request(copyDb({ reserved: 1 })), { code: 'COPY_RESERVED' });
+  await assert.rejects(request(copyDb({}, { open: [{ id: 29 }] })), { code: 'TRANSFER_EXISTS' });
+});
+
+/**
+ * Transfer 30 of copy 12 from branch 1 to branch 2, in the given status
+ */
+function transferDb(status, copy = {}) {
+  return fakeDb([
+    [/FROM branch_transfers WHERE id = \? FOR UPDATE/, [{ id: 30, copy_id: 12, from_branch_id: 1, to_branch_id: 2, status }]],
+    [/SELECT book_id FROM book_copies/, [{ book_id: 3 }]],
+    [/FROM book_copies c WHERE c.id = \? FOR UPDATE/, [{ id: 12, barcode: 'B-012', status: 'available', current_branch_id: 1, reserved: 0, ...copy }]]
+  ]);
+}
+
+test('sending a transfer puts the copy in transit towards its destination', async () => {
+  const db = transferDb('requested');
+  await sendTransfer(db, AT_BRANCH(1), 30);
+  assert.deepEqual(db.queriesMatching(/UPDATE book_copies SET status = 'in_transit'/)[0].params, [2, 12]);
+  assert.equal(db.queriesMatching(/UPDATE books b SET/).length, 1);
+});
+
+test('only the branch holding the copy sends it, and only while it\'s still on the shelf', async () => {
+  await assert.rejects(sendTransfer(transferDb('requested'), AT_BRANCH(2), 30), { code: 'WRONG_BRANCH', status: 403 });
+  await assert.rejects(sendTransfer(transferDb('requested', { status: 'on_loan' }), STAFF, 30), {
+    code: 'COPY_NOT_AVAILABLE', message: 'Copy B-012 is no longer on the shelf here - cancel the transfer'
+  });
+  await assert.rejects(sendTransfer(transferDb('in_transit'), STAFF, 30), {
+    code: 'INVALID_TRANSFER_STATUS', message: 'Only requested transfers can be sent - this one is in transit'
+  });
+});
+
+test('a received copy goes on the shelf at its destination, received by that branch', async () => {
+  const db = transferDb('in_transit');
+  assert.equal(await receiveTransfer(db, AT_BRANCH(2), 30), null);
+  assert.deepEqual(db.queriesMatching(/UPDATE book_copies SET status = 'available'/)[0].params, [2, 12]);
+  await assert.rejects(receiveTransfer(transferDb('in_transit'), AT_BRANCH(1), 30), { code: 'WRONG_BRANCH' });
+});
+
+test('only a transfer not yet sent can be cancelled', async () => {
+  const db = transferDb('requested');
+  await cancelTransfer(db, STAFF, 30);
+  assert.equal(db.queriesMatching(/SET status = 'cancelled'/).length, 1);
+  await assert.rejects(cancelTransfer(transferDb('received'), STAFF, 30), { code: 'INVALID_TRANSFER_STATUS' });
+});
+
+test('a copy returned away from home gets a transfer home requested', async () => {
+  const away = fakeDb([
+    [/JOIN branches home/, [{ id: 12, status: 'available', current_branch_id: 2, home_branch_id: 1 }]],
+    [/FROM book_copies c WHERE c.id = \? FOR UPDATE/, [{ id: 12, barcode: 'B-012', status: 'available', current_branch_id: 2, reserved: 0 }]],
+    [/FROM branches WHERE id = \?/, [{ id: 1, name: 'Central', is_active: 1 }]],
+    [/INSERT INTO branch_transfers/, { insertId: 31 }]
+  ]);
+  assert.equal(await sendHomeIfAway(away, STAFF, 12), 31);
+  assert.equal(away.queriesMatching(/INSERT INTO branch_transfers/)[0].params[3], 'Going back to its home branch');
+  assert.equal(await sendHomeIfAway(fakeDb(), STAFF, 12), null);
+});
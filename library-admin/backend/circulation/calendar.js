@@ -0,0 +1,169 @@
+import { getSettings, saveSettings } from './settings.js';
+
+/**
+ * Library calendar: weekly opening hours and one-off closed days
+ *
+ * opening_hours has a row per weekday (0 = Sunday); a weekday marked closed
+ * is closed every week, and a weekday with no row counts as open. Holidays
+ * and other one-off closures are single dates in library_closures.
+ *
+ * Due dates always roll forward to the next open day. With
+ * calendar.skip_closed_days set, closed days also don't count towards how
+ * late a loan is, for fines and the renewal overdue cutoff.
+ *
+ * Dates are passed around as YYYY-MM-DD strings and worked on in UTC, so the
+ * server's time zone can't shift them by a day.
+ */
+
+export const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const SKIP_CLOSED_DAYS_KEY = 'calendar.skip_closed_days';
+
+// How far ahead to look for an open day before giving up (e.g. every weekday closed)
+const MAX_LOOKAHEAD_DAYS = 366;
+
+/**
+ * Add days to a YYYY-MM-DD date
+ * @param {string} date
+ * @param {number} days
+ * @returns {string}
+ */
+export function addDays(date, days) {
+  const day = new Date(`${date}T00:00:00Z`);
+  day.setUTCDate(day.getUTCDate() + days);
+  return day.toISOString().slice(0, 10);
+}
+
+/**
+ * Turn a DATE column (a Date from mysql2) or a YYYY-MM-DD string into YYYY-MM-DD
+ * @param {Date|string} value
+ * @returns {string}
+ */
+export function toDateString(value) {
+  if (value instanceof Date) {
+    // mysql2 reads DATE columns as local midnight
+    const month = String(value.getMonth() + 1).padStart(2, '0');
+    const day = String(value.getDate()).padStart(2, '0');
+    return `${value.getFullYear()}-${month}-${day}`;
+  }
+  return String(value).slice(0, 10);
+}
+
+const weekdayOf = (date) => new Date(`${date}T00:00:00Z`).getUTCDay();
+
+/**
+ * @param {object} db - Pool or transaction connection
+ * @returns {Promise<{ weekday: number, name: string, isOpen: boolean, opensAt: string|null, closesAt: string|null }[]>}
+ *   One entry per weekday, Sunday first
+ */
+export async function getOpeningHours(db) {
+  const [rows] = await db.query(
+    `SELECT weekday, is_open, TIME_FORMAT(opens_at, '%H:%i') AS opens_at, TIME_FORMAT(closes_at, '%H:%i') AS closes_at
+     FROM opening_hours`
+  );
+  return WEEKDAYS.map((name, weekday) => {
+    const row = rows.find(hours => hours.weekday === weekday);
+    return {
+      weekday,
+      name,
+      isOpen: row ? Boolean(row.is_open) : true,
+      opensAt: row?.opens_at || null,
+      closesAt: row?.closes_at || null
+    };
+  });
+}
+
+/**
+ * @param {object} db - Pool or transaction connection
+ * @param {{ weekday: number, isOpen: boolean, opensAt: string|null, closesAt: string|null }[]} hours
+ */
+export async function saveOpeningHours(db, hours) {
+  for (const { weekday, isOpen, opensAt, closesAt } of hours) {
+    await db.query(
+      `INSERT INTO opening_hours (weekday, is_open, opens_at, closes_at) VALUES (?, ?, ?, ?)
+       ON DUPLICATE KEY UPDATE is_open = VALUES(is_open), opens_at = VALUES(opens_at), closes_at = VALUES(closes_at)`,
+      [weekday, isOpen, isOpen ? opensAt : null, isOpen ? closesAt : null]
+    );
+  }
+}
+
+/**
+ * @param {object} db - Pool or transaction connection
+ * @returns {Promise<{ skipClosedDays: boolean }>}
+ */
+export async function getCalendarSettings(db) {
+  const settings = await getSettings(db, [SKIP_CLOSED_DAYS_KEY]);
+  return { skipClosedDays: Boolean(settings[SKIP_CLOSED_DAYS_KEY]) };
+}
+
+/**
+ * @param {object} db - Pool or transaction connection
+ * @param {{ skipClosedDays: boolean }} values
+ */
+export async function saveCalendarSettings(db, { skipClosedDays }) {
+  await saveSettings(db, { [SKIP_CLOSED_DAYS_KEY]: skipClosedDays ? 1 : 0 });
+}
+
+/**
+ * Load what's needed to tell whether days between two dates are closed
+ * @param {object} db - Pool or transaction connection
+ * @param {string} from - YYYY-MM-DD
+ * @param {string} to - YYYY-MM-DD
+ * @returns {Promise<(date: string) => boolean>} Whether the library is closed on a date in the range
+ */
+async function loadClosedDays(db, from, to) {
+  const hours = await getOpeningHours(db);
+  const [closures] = await db.query(
+    `SELECT DATE_FORMAT(closed_on, '%Y-%m-%d') AS closed_on FROM library_closures
+     WHERE closed_on BETWEEN ? AND ?`,
+    [from, to]
+  );
+  const closedWeekdays = new Set(hours.filter(day => !day.isOpen).map(day => day.weekday));
+  const closedDates = new Set(closures.map(closure => closure.closed_on));
+  return (date) => closedWeekdays.has(weekdayOf(date)) || closedDates.has(date);
+}
+
+/**
+ * Roll a date forward to the next day the library is open
+ * @param {object} db - Pool or transaction connection
+ * @param {Date|string} date
+ * @returns {Promise<string>} YYYY-MM-DD; the date itself if it's open, or if
+ *   no open day comes within a year
+ */
+export async function nextOpenDay(db, date) {
+  const start = toDateString(date);
+  const isClosed = await loadClosedDays(db, start, addDays(start, MAX_LOOKAHEAD_DAYS));
+  for (let offset = 0; offset <= MAX_LOOKAHEAD_DAYS; offset++) {
+    const day = addDays(start, offset);
+    if (!isClosed(day)) {
+      return day;
+    }
+  }
+  return start;
+}
+
+/**
+ * How many days late a loan is on a date: calendar days after the due date,
+ * or only the open ones when calendar.skip_closed_days is set
+ * @param {object} db - Pool or transaction connection
+ * @param {Date|string} dueDate
+ * @param {Date|string} onDate - The return date, or today
+ * @returns {Promise<number>} 0 or less when the loan isn't late
+ */
+export async function countDaysLate(db, dueDate, onDate) {
+  const due = toDateString(dueDate);
+  const on = toDateString(onDate);
+  const calendarDays = Math.round((Date.parse(on) - Date.parse(due)) / 86400000);
+  if (calendarDays <= 0 || !(await getCalendarSettings(db)).skipClosedDays) {
+    return calendarDays;
+  }
+
+  const isClosed = await loadClosedDays(db, addDays(due, 1), on);
+  let openDays = 0;
+  for (let offset = 1; offset <= calendarDays; offset++) {
+    if (!isClosed(addDays(due, offset))) {
+      openDays++;
+    }
+  }
+  return openDays;
+}
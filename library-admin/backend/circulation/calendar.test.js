@@ -0,0 +1,54 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { fakeDb } from '../testing/fakeDb.js';
+import { addDays, toDateString, getOpeningHours, nextOpenDay, countDaysLate } from './calendar.js';
+
+test('days are added across month and year ends', () => {
+  assert.equal(addDays('2026-02-27', 2), '2026-03-01');
+  assert.equal(addDays('2026-12-31', 1), '2027-01-01');
+  assert.equal(addDays('2026-03-01', -1), '2026-02-28');
+});
+
+test('a DATE column read as local midnight keeps its day', () => {
+  assert.equal(toDateString(new Date(2026, 2, 8)), '2026-03-08');
+  assert.equal(toDateString('2026-03-08T00:00:00.000Z'), '2026-03-08');
+});
+
+/**
+ * A library closed on Sundays (weekday 0) and on the given dates, with
+ * calendar.skip_closed_days as given
+ */
+function calendarDb({ closedDays = [], skipClosedDays = false } = {}) {
+  return fakeDb([
+    [/FROM opening_hours/, [{ weekday: 0, is_open: 0, opens_at: null, closes_at: null }]],
+    [/FROM library_closures/, closedDays.map(day => ({ closed_on: day }))],
+    [/FROM library_settings/, skipClosedDays ? [{ setting_key: 'calendar.skip_closed_days', setting_value: '1' }] : []]
+  ]);
+}
+
+test('a weekday without opening hours counts as open', async () => {
+  const hours = await getOpeningHours(calendarDb());
+  assert.equal(hours.length, 7);
+  assert.deepEqual(hours[0], { weekday: 0, name: 'Sunday', isOpen: false, opensAt: null, closesAt: null });
+  assert.equal(hours[1].isOpen, true);
+});
+
+test('a date rolls forward past closed weekdays and closures to the next open day', async () => {
+  // 2026-03-08 is a Sunday
+  assert.equal(await nextOpenDay(calendarDb(), '2026-03-07'), '2026-03-07');
+  assert.equal(await nextOpenDay(calendarDb(), '2026-03-08'), '2026-03-09');
+  assert.equal(await nextOpenDay(calendarDb({ closedDays: ['2026-03-09'] }), '2026-03-08'), '2026-03-10');
+});
+
+test('a library that is never open leaves the date as it is', async () => {
+  const db = fakeDb([[/FROM opening_hours/, [0, 1, 2, 3, 4, 5, 6].map(weekday => ({ weekday, is_open: 0 }))]]);
+  assert.equal(await nextOpenDay(db, '2026-03-08'), '2026-03-08');
+});
+
+test('closed days count towards lateness unless they are set to be skipped', async () => {
+  // Due Friday 6th, returned Tuesday 10th: Sunday closed, Monday a holiday
+  const closedDays = ['2026-03-09'];
+  assert.equal(await countDaysLate(calendarDb({ closedDays }), '2026-03-06', '2026-03-10'), 4);
+  assert.equal(await countDaysLate(calendarDb({ closedDays, skipClosedDays: true }), '2026-03-06', '2026-03-10'), 2);
+  assert.equal(await countDaysLate(calendarDb({ skipClosedDays: true }), '2026-03-10', '2026-03-06'), -4);
+});
@@ -0,0 +1,389 @@
+import { CirculationError } from './errors.js';
+
+/**
+ * Book copies: one row per physical item of a title
+ *
+ * Loans reference the copy that went out. books.total_copies and
+ * books.available_copies are derived from copy status by syncCopyCounts and
+ * are never edited directly: total counts copies the library still holds
+ * (available, on loan, in repair or in transit between branches), available
+ * counts copies on the shelf that aren't waiting on the hold shelf for a
+ * patron.
+ *
+ * Each copy belongs to a home branch and sits at a current branch; a copy is
+ * only lent from the branch it's at (see branches.js for moving it).
+ *
+ * A copy its owner is taking back (an open reclaim, see owners.js) stays in
+ * the total until it's handed over, but is never available or lent.
+ */
+
+export const COPY_STATUSES = ['available', 'on_loan', 'lost', 'in_repair', 'withdrawn', 'in_transit'];
+export const COPY_CONDITIONS = ['new', 'good', 'fair', 'poor', 'damaged'];
+
+// Copies set aside for a ready hold don't count as available
+const NOT_RESERVED = `
+  NOT EXISTS (SELECT 1 FROM holds h WHERE h.copy_id = c.id AND h.status = 'ready' AND h.id <> ?)
+`;
+
+// Copies being handed back to their owner don't count as available either
+const NOT_RECLAIMED = `
+  NOT EXISTS (SELECT 1 FROM copy_reclaims r WHERE r.copy_id = c.id AND r.status = 'open')
+`;
+
+/**
+ * Recompute a title's total_copies and available_copies from its copies
+ * @param {object} db - Pool or transaction connection
+ * @param {string|number} bookId
+ */
+export async function syncCopyCounts(db, bookId) {
+  await db.query(`
+    UPDATE books b SET
+      total_copies = (
+        SELECT COUNT(*) FROM book_copies c
+        WHERE c.book_id = b.id AND c.status IN ('available', 'on_loan', 'in_repair', 'in_transit')
+      ),
+      available_copies = (
+        SELECT COUNT(*) FROM book_copies c
+        WHERE c.book_id = b.id AND c.status = 'available' AND ${NOT_RESERVED} AND ${NOT_RECLAIMED}
+      )
+    WHERE b.id = ?
+  `, [0, bookId]);
+}
+
+/**
+ * Copies held and on the shelf at each branch, per title
+ * total counts the copies a branch's collection holds (by home branch);
+ * available counts those on its shelves right now (by current branch).
+ * @param {object} db - Pool or transaction connection
+ * @param {(string|number)[]|null} [bookIds] - Titles to count, or null for all
+ * @returns {Promise<Map<string, { branchId: string, branchName: string, total: number, available: number }[]>>}
+ *   Keyed by book id; branches with no copies of a title are left out
+ */
+export async function getBranchAvailability(db, bookIds = null) {
+  if (bookIds && bookIds.length === 0) {
+    return new Map();
+  }
+  const [rows] = await db.query(`
+    SELECT c.book_id, br.id AS branch_id, br.name AS branch_name,
+           SUM(c.home_branch_id = br.id AND c.status IN ('available', 'on_loan', 'in_repair', 'in_transit')) AS total,
+           SUM(c.current_branch_id = br.id AND c.status = 'available' AND ${NOT_RESERVED} AND ${NOT_RECLAIMED}) AS available
+    FROM book_copies c
+    JOIN branches br ON br.id IN (c.home_branch_id, c.current_branch_id)
+    ${bookIds ? 'WHERE c.book_id IN (?)' : ''}
+    GROUP BY c.book_id, br.id, br.name
+    HAVING total > 0 OR available > 0
+    ORDER BY br.name
+  `, bookIds ? [0, bookIds] : [0]);
+
+  const availability = new Map();
+  for (const row of rows) {
+    const bookId = String(row.book_id);
+    if (!availability.has(bookId)) {
+      availability.set(bookId, []);
+    }
+    availability.get(bookId).push({
+      branchId: String(row.branch_id),
+      branchName: row.branch_name,
+      total: Number(row.total),
+      available: Number(row.available)
+    });
+  }
+  return availability;
+}
+
+/**
+ * Find a copy by its barcode (as read by a scanner: surrounding spaces ignored)
+ * @param {object} db - Pool or transaction connection
+ * @param {string} barcode
+ * @returns {Promise<object|null>} The copy row with its book's title, or null
+ */
+export async function findCopyByBarcode(db, barcode) {
+  const [copies] = await db.query(
+    `SELECT c.*, b.title AS book_title FROM book_copies c
+     JOIN books b ON c.book_id = b.id
+     WHERE c.barcode = ?`,
+    [String(barcode).trim()]
+  );
+  return copies[0] || null;
+}
+
+/**
+ * Take a copy off the shelf for a new loan and lock it
+ * Uses the requested copy when one is given (e.g. the one staff scanned),
+ * otherwise the first copy on the shelf. The title's row is locked first, so
+ * two desks issuing the last copy at once queue up and the second one finds
+ * nothing left instead of lending the same copy twice.
+ * @param {object} connection - Transaction connection
+ * @param {{ bookId: string|number, copyId?: string|number|null, holdId?: string|number|null, branchId?: string|number|null }} options
+ *   holdId - the borrower's ready hold, whose set-aside copy they may take
+ *   branchId - the branch lending it; only copies on its shelves are lent
+ * @returns {Promise<object>} The copy row, now on_loan
+ * @throws {CirculationError} When no suitable copy is on the shelf (409)
+ */
+export async function checkoutCopy(connection, { bookId, copyId = null, holdId = null, branchId = null }) {
+  const [books] = await connection.query('SELECT id FROM books WHERE id = ? FOR UPDATE', [bookId]);
+  if (books.length === 0) {
+    throw new CirculationError('Book not found', 'NOT_FOUND', 404);
+  }
+
+  let copy;
+  if (copyId) {
+    const [copies] = await connection.query(
+      `SELECT c.*, ${NOT_RESERVED} AS unreserved, ${NOT_RECLAIMED} AS unreclaimed
+       FROM book_copies c WHERE c.id = ? AND c.book_id = ? FOR UPDATE`,
+      [holdId || 0, copyId, bookId]
+    );
+    copy = copies[0];
+    if (!copy) {
+      throw new CirculationError('That copy does not belong to this book', 'NOT_FOUND', 404);
+    }
+    if (copy.status !== 'available') {
+      throw new CirculationError(`Copy ${copy.barcode || copy.id} is ${copy.status.replace('_', ' ')}`, 'COPY_NOT_AVAILABLE', 409);
+    }
+    if (!copy.unreserved) {
+      throw new CirculationError(`Copy ${copy.barcode || copy.id} is on the hold shelf for another patron`, 'COPY_RESERVED', 409);
+    }
+    if (!copy.unreclaimed) {
+      throw new CirculationError(`Copy ${copy.barcode || copy.id} is being handed back to its owner`, 'COPY_RECLAIMED', 409);
+    }
+    if (branchId && String(copy.current_branch_id) !== String(branchId)) {
+      const [[branch]] = await connection.query('SELECT name FROM branches WHERE id = ?', [copy.current_branch_id]);
+      throw new CirculationError(
+        `Copy ${copy.barcode || copy.id} is at ${branch.name}, not this branch`,
+        'COPY_AT_OTHER_BRANCH',
+        409
+      );
+    }
+  } else {
+    const [copies] = await connection.query(
+      `SELECT c.* FROM book_copies c
+       WHERE c.book_id = ? AND c.status = 'available' AND ${NOT_RESERVED} AND ${NOT_RECLAIMED}
+         AND (? IS NULL OR c.current_branch_id = ?)
+       ORDER BY c.id LIMIT 1 FOR UPDATE`,
+      [bookId, holdId || 0, branchId, branchId]
+    );
+    copy = copies[0];
+    if (!copy) {
+      throw new CirculationError(
+        branchId ? 'No copies of this book are available at this branch' : 'No copies of this book are available',
+        'NO_COPIES_AVAILABLE',
+        409
+      );
+    }
+  }
+
+  await connection.query(`UPDATE book_copies SET status = 'on_loan' WHERE id = ?`, [copy.id]);
+  return { ...copy, status: 'on_loan' };
+}
+
+/**
+ * Put a returned copy back on the shelf
+ * Also takes back a copy its loan had marked lost or withdrawn, when the book
+ * turns up after all. The caller then hands it on with assignReturnedCopy.
+ * @param {object} connection - Transaction connection
+ * @param {string|number} copyId
+ * @param {string|number|null} [branchId] - The branch it was returned to, which it's now at
+ */
+export async function checkinCopy(connection, copyId, branchId = null) {
+  await connection.query(
+    `UPDATE book_copies SET status = 'available', current_branch_id = COALESCE(?, current_branch_id)
+     WHERE id = ? AND status IN ('on_loan', 'lost', 'withdrawn')`,
+    [branchId, copyId]
+  );
+}
+
+/**
+ * Take a copy off a loan that ended without a normal return
+ * @param {object} connection - Transaction connection
+ * @param {string|number} copyId
+ * @param {'lost'|'in_repair'|'withdrawn'} status
+ * @param {string|null} condition - New condition, or null to keep it
+ */
+export async function settleLoanedCopy(connection, copyId, status, condition = null) {
+  await connection.query(
+    `UPDATE book_copies SET status = ?, \`condition\` = COALESCE(?, \`condition\`)
+     WHERE id = ? AND status IN ('on_loan', 'lost')`,
+    [status, condition, copyId]
+  );
+}
+
+// A text field from a request body, trimmed; numbers (e.g. a scanned barcode) count as text
+const trimmed = (value) =>
+  typeof value === 'string' || typeof value === 'number' ? String(value).trim() || null : null;
+
+/**
+ * Validate copy fields from a request body
+ * @param {object} body
+ * @returns {{ values: object, error: string|null }}
+ */
+export function parseCopyInput(body) {
+  const values = {
+    barcode: trimmed(body.barcode),
+    accessionNumber: trimmed(body.accessionNumber),
+    shelfLocation: trimmed(body.shelfLocation),
+    condition: body.condition || 'good',
+    status: body.status || 'available',
+    homeBranchId: body.homeBranchId || null
+  };
+  if (!values.barcode) {
+    return { values, error: 'Every copy needs a barcode' };
+  }
+  if (!values.homeBranchId) {
+    return { values, error: 'Choose the branch the copy belongs to' };
+  }
+  if (!COPY_CONDITIONS.includes(values.condition)) {
+    return { values, error: `Condition must be one of: ${COPY_CONDITIONS.join(', ')}` };
+  }
+  if (!COPY_STATUSES.includes(values.status)) {
+    return { values, error: `Status must be one of: ${COPY_STATUSES.join(', ')}` };
+  }
+  return { values, error: null };
+}
+
+/**
+ * Add a copy to a title, on the shelf at its home branch
+ * @param {object} connection - Transaction connection
+ * @param {string|number} bookId
+ * @param {object} values - From parseCopyInput
+ * @returns {Promise<number>} New copy id
+ * @throws {CirculationError} When the barcode or accession number is taken
+ */
+export async function createCopy(connection, bookId, values) {
+  if (values.status === 'on_loan') {
+    throw new CirculationError('Copies go on loan by being issued', 'COPY_ON_LOAN');
+  }
+  if (values.status === 'in_transit') {
+    throw new CirculationError('Copies go in transit by being sent to another branch', 'COPY_IN_TRANSIT');
+  }
+  await assertActiveBranch(connection, values.homeBranchId);
+  try {
+    const [result] = await connection.query(
+      `INSERT INTO book_copies
+         (book_id, barcode, accession_number, shelf_location, \`condition\`, status, home_branch_id, current_branch_id)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        bookId, values.barcode, values.accessionNumber, values.shelfLocation, values.condition, values.status,
+        values.homeBranchId, values.homeBranchId
+      ]
+    );
+    return result.insertId;
+  } catch (error) {
+    throw toDuplicateError(error);
+  }
+}
+
+/**
+ * Edit a copy's details or change its status by hand
+ * A copy on loan can't change status until it's returned, and a copy on the
+ * hold shelf can't leave the shelf until its hold is collected or cancelled.
+ * @param {object} connection - Transaction connection
+ * @param {string|number} copyId
+ * @param {object} values - From parseCopyInput
+ * @returns {Promise<object>} The copy as it was before the change
+ * @throws {CirculationError}
+ */
+export async function updateCopy(connection, copyId, values) {
+  const [copies] = await connection.query(
+    `SELECT c.*, ${NOT_RESERVED} AS unreserved FROM book_copies c WHERE c.id = ? FOR UPDATE`,
+    [0, copyId]
+  );
+  const copy = copies[0];
+  if (!copy) {
+    throw new CirculationError('Copy not found', 'NOT_FOUND', 404);
+  }
+
+  // on_loan is only ever set by issuing and cleared by returning
+  if ((copy.status === 'on_loan') !== (values.status === 'on_loan')) {
+    throw new CirculationError(
+      copy.status === 'on_loan'
+        ? 'This copy is on loan - return it before changing its status'
+        : 'Copies go on loan by being issued',
+      'COPY_ON_LOAN'
+    );
+  }
+  // in_transit likewise belongs to branch transfers
+  if ((copy.status === 'in_transit') !== (values.status === 'in_transit')) {
+    throw new CirculationError(
+      copy.status === 'in_transit'
+        ? 'This copy is on its way to another branch - receive it there before changing its status'
+        : 'Copies go in transit by being sent to another branch',
+      'COPY_IN_TRANSIT'
+    );
+  }
+  if (!copy.unreserved && values.status !== 'available') {
+    throw new CirculationError('This copy is on the hold shelf - cancel the hold before changing its status', 'COPY_RESERVED');
+  }
+  if (String(values.homeBranchId) !== String(copy.home_branch_id)) {
+    await assertActiveBranch(connection, values.homeBranchId);
+  }
+
+  try {
+    await connection.query(
+      `UPDATE book_copies
+       SET barcode = ?, accession_number = ?, shelf_location = ?, \`condition\` = ?, status = ?, home_branch_id = ?
+       WHERE id = ?`,
+      [
+        values.barcode, values.accessionNumber, values.shelfLocation, values.condition, values.status,
+        values.homeBranchId, copyId
+      ]
+    );
+  } catch (error) {
+    throw toDuplicateError(error);
+  }
+  return copy;
+}
+
+/**
+ * Delete a copy entered by mistake
+ * Copies that have ever been lent out are withdrawn instead, so their loan
+ * history keeps pointing at them.
+ * @param {object} connection - Transaction connection
+ * @param {string|number} copyId
+ * @returns {Promise<object>} The deleted copy
+ * @throws {CirculationError}
+ */
+export async function deleteCopy(connection, copyId) {
+  const [copies] = await connection.query('SELECT * FROM book_copies WHERE id = ? FOR UPDATE', [copyId]);
+  const copy = copies[0];
+  if (!copy) {
+    throw new CirculationError('Copy not found', 'NOT_FOUND', 404);
+  }
+
+  if (copy.status === 'in_transit') {
+    throw new CirculationError('This copy is on its way to another branch - receive it there first', 'COPY_IN_TRANSIT');
+  }
+
+  const [[{ loans }]] = await connection.query(
+    'SELECT COUNT(*) AS loans FROM books_circulation WHERE copy_id = ?',
+    [copyId]
+  );
+  if (loans > 0) {
+    throw new CirculationError('This copy has been lent out before - mark it withdrawn instead', 'COPY_HAS_LOANS');
+  }
+
+  const [[{ held }]] = await connection.query(
+    `SELECT COUNT(*) AS held FROM holds WHERE copy_id = ? AND status = 'ready'`,
+    [copyId]
+  );
+  if (held > 0) {
+    throw new CirculationError('This copy is on the hold shelf - cancel the hold before deleting it', 'COPY_RESERVED');
+  }
+
+  await connection.query('DELETE FROM book_copies WHERE id = ?', [copyId]);
+  return copy;
+}
+
+const assertActiveBranch = async (connection, branchId) => {
+  const [branches] = await connection.query('SELECT id FROM branches WHERE id = ? AND is_active = 1', [branchId]);
+  if (branches.length === 0) {
+    throw new CirculationError('Branch not found or no longer active', 'BRANCH_NOT_FOUND', 404);
+  }
+};
+
+const toDuplicateError = (error) => {
+  if (error.code === 'ER_DUP_ENTRY') {
+    const field = error.message.includes('accession') ? 'accession number' : 'barcode';
+    return new CirculationError(`Another copy already has this ${field}`, 'DUPLICATE_COPY');
+  }
+  return error;
+};
@@ -0,0 +1,87 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { fakeDb } from '../testing/fakeDb.js';
+import { parseCopyInput, createCopy, updateCopy, deleteCopy, syncCopyCounts, findCopyByBarcode } from './copies.js';
+
+test('copy fields are trimmed and default to a good copy on the shelf', () => {
+  const { values, error } = parseCopyInput({ barcode: ' B-001 ', shelfLocation: '  ', homeBranchId: '1' });
+  assert.equal(error, null);
+  assert.deepEqual(values, {
+    barcode: 'B-001', accessionNumber: null, shelfLocation: null, condition: 'good', status: 'available', homeBranchId: '1'
+  });
+  assert.equal(parseCopyInput({ barcode: 40012, homeBranchId: '1' }).values.barcode, '40012');
+});
+
+test('a copy needs a barcode, a home branch and a known condition and status', () => {
+  assert.equal(parseCopyInput({ homeBranchId: '1' }).error, 'Every copy needs a barcode');
+  assert.equal(parseCopyInput({ barcode: { a: 1 }, homeBranchId: '1' }).error, 'Every copy needs a barcode');
+  assert.equal(parseCopyInput({ barcode: 'B' }).error, 'Choose the branch the copy belongs to');
+  assert.match(parseCopyInput({ barcode: 'B', homeBranchId: '1', condition: 'mint' }).error, /^Condition must be one of/);
+  assert.match(parseCopyInput({ barcode: 'B', homeBranchId: '1', status: 'sold' }).error, /^Status must be one of/);
+});
+
+const ACTIVE_BRANCH = [/FROM branches WHERE id = \? AND is_active = 1/, [{ id: 1 }]];
+const COPY = { barcode: 'B-001', accessionNumber: null, shelfLocation: null, condition: 'good', status: 'available', homeBranchId: 1 };
+
+test('a new copy sits at its home branch', async () => {
+  const db = fakeDb([ACTIVE_BRANCH, [/INSERT INTO book_copies/, { insertId: 12 }]]);
+  assert.equal(await createCopy(db, 3, COPY), 12);
+  assert.deepEqual(db.queriesMatching(/INSERT INTO book_copies/)[0].params.slice(-2), [1, 1]);
+});
+
+test('a copy cannot be added on loan or in transit, or with a barcode already taken', async () => {
+  await assert.rejects(createCopy(fakeDb([ACTIVE_BRANCH]), 3, { ...COPY, status: 'on_loan' }), { code: 'COPY_ON_LOAN' });
+  await assert.rejects(createCopy(fakeDb([ACTIVE_BRANCH]), 3, { ...COPY, status: 'in_transit' }), { code: 'COPY_IN_TRANSIT' });
+  const taken = fakeDb([ACTIVE_BRANCH, [/INSERT INTO book_copies/, () => {
+    throw Object.assign(new Error("Duplicate entry 'B-001' for key 'barcode'"), { code: 'ER_DUP_ENTRY' });
+  }]]);
+  await assert.rejects(createCopy(taken, 3, COPY), { code: 'DUPLICATE_COPY', message: 'Another copy already has this barcode' });
+  await assert.rejects(createCopy(fakeDb(), 3, COPY), { code: 'BRANCH_NOT_FOUND' });
+});
+
+test('only issuing and returning move a copy on and off loan, and a held copy stays on the shelf', async () => {
+  const copy = (row) => fakeDb([[/FROM book_copies c WHERE c.id = \? FOR UPDATE/, [{ home_branch_id: 1, unreserved: 1, ...row }]]]);
+  await assert.rejects(updateCopy(copy({ status: 'on_loan' }), 12, { ...COPY, status: 'in_repair' }), { code: 'COPY_ON_LOAN' });
+  await assert.rejects(updateCopy(copy({ status: 'available' }), 12, { ...COPY, status: 'on_loan' }), { code: 'COPY_ON_LOAN' });
+  await assert.rejects(updateCopy(copy({ status: 'in_transit' }), 12, COPY), { code: 'COPY_IN_TRANSIT' });
+  await assert.rejects(
+    updateCopy(copy({ status: 'available', unreserved: 0 }), 12, { ...COPY, status: 'in_repair' }),
+    { code: 'COPY_RESERVED' }
+  );
+  const repaired = copy({ status: 'in_repair' });
+  assert.equal((await updateCopy(repaired, 12, COPY)).status, 'in_repair');
+  assert.equal(repaired.queriesMatching(/UPDATE book_copies/).length, 1);
+});
+
+test('a copy that has been lent is withdrawn, not deleted', async () => {
+  const db = fakeDb([
+    [/FROM book_copies WHERE id = \? FOR UPDATE/, [{ id: 12, status: 'available' }]],
+    [/COUNT\(\*\) AS loans/, [{ loans: 1 }]]
+  ]);
+  await assert.rejects(deleteCopy(db, 12), { code: 'COPY_HAS_LOANS' });
+  assert.equal(db.queriesMatching(/DELETE FROM book_copies/).length, 0);
+
+  const unused = fakeDb([
+    [/FROM book_copies WHERE id = \? FOR UPDATE/, [{ id: 12, status: 'available' }]],
+    [/COUNT\(\*\) AS loans/, [{ loans: 0 }]],
+    [/COUNT\(\*\) AS held/, [{ held: 0 }]]
+  ]);
+  assert.equal((await deleteCopy(unused, 12)).id, 12);
+  assert.equal(unused.queriesMatching(/DELETE FROM book_copies/).length, 1);
+});
+
+test('a title\'s counts are worked out from its copies', async () => {
+  const db = fakeDb();
+  await syncCopyCounts(db, 3);
+  const [{ sql, params }] = db.queries;
+  assert.match(sql, /UPDATE books b SET\s+total_copies = \(/);
+  assert.match(sql, /available_copies = \(/);
+  assert.deepEqual(params, [0, 3]);
+});
+
+test('a scanned barcode is looked up without the spaces around it', async () => {
+  const db = fakeDb([[/WHERE c.barcode = \?/, (params) => (params[0] === '40012' ? [{ id: 12, book_title: 'Dune' }] : [])]]);
+  assert.deepEqual(await findCopyByBarcode(db, ' 40012\n'), { id: 12, book_title: 'Dune' });
+  assert.equal((await findCopyByBarcode(db, 40012)).id, 12);
+  assert.equal(await findCopyByBarcode(db, 'B-404'), null);
+});
@@ -0,0 +1,15 @@
+/**
+ * Error for a circulation action the library's rules don't allow
+ * (e.g. renewing past the limit, placing a duplicate hold).
+ * Routes turn it into `{ error, code }` with the given HTTP status, plus any
+ * details (e.g. the balance behind a fines block).
+ */
+export class CirculationError extends Error {
+  constructor(message, code, status = 400, details = {}) {
+    super(message);
+    this.name = 'CirculationError';
+    this.code = code;
+    this.status = status;
+    this.details = details;
+  }
+}
@@ -0,0 +1,199 @@
+import { getSettings, saveSettings } from './settings.js';
+import { countDaysLate } from './calendar.js';
+
+/**
+ * Overdue fines: rule lookup, fine calculation and the per-user ledger
+ *
+ * Rules live in fine_rules. A rule with neither book_type nor category_id is
+ * the library default; a book_type rule beats a category rule, which beats the
+ * default. With no matching rule, late returns are not fined.
+ *
+ * The ledger (fine_ledger) only ever grows: fines add to a user's balance,
+ * payments and waivers subtract from it. charge_type says what a fine was
+ * for (late return, replacing a lost book, damage), and on a waiver which
+ * kind of charge it reverses.
+ */
+
+const BLOCK_THRESHOLD_KEY = 'fines.block_threshold';
+
+/**
+ * Calculate the fine for a loan returned `daysLate` days after its due date
+ * Days inside the grace period are never charged; after it, only the days
+ * beyond the grace period are. The result is capped at max_amount if set.
+ * @param {object} rule - Row from fine_rules
+ * @param {number} daysLate
+ * @returns {number}
+ */
+export function calculateFine(rule, daysLate) {
+  if (!rule || daysLate <= rule.grace_days) {
+    return 0;
+  }
+  const amount = (daysLate - rule.grace_days) * Number(rule.daily_rate);
+  const capped = rule.max_amount !== null ? Math.min(amount, Number(rule.max_amount)) : amount;
+  return Math.round(capped * 100) / 100;
+}
+
+/**
+ * Find the most specific fine rule for a book
+ * @param {object} db - Pool or transaction connection
+ * @param {string|number} bookId
+ * @returns {Promise<object|null>}
+ */
+export async function findFineRule(db, bookId) {
+  const [rules] = await db.query(`
+    SELECT fr.* FROM fine_rules fr
+    WHERE (fr.book_type IS NULL AND fr.category_id IS NULL)
+       OR fr.book_type = (SELECT book_type FROM books WHERE id = ?)
+       OR fr.category_id IN (SELECT category_id FROM book_categories WHERE book_id = ?)
+    ORDER BY fr.book_type IS NOT NULL DESC, fr.category_id IS NOT NULL DESC, fr.id
+    LIMIT 1
+  `, [bookId, bookId]);
+  return rules[0] || null;
+}
+
+/**
+ * Charge a late-return fine for a loan that has just been marked returned
+ * @param {object} connection - Transaction connection
+ * @param {object} req - Express request (for the staff member recording it)
+ * @param {string|number} issueId
+ * @returns {Promise<{ id: string, amount: number, chargeType: 'late', daysLate: number }|null>} The ledger entry, or null if nothing is owed
+ */
+export async function assessLateFine(connection, req, issueId) {
+  const [issues] = await connection.query(`
+    SELECT id, book_id, user_id,
+           DATE_FORMAT(due_date, '%Y-%m-%d') AS due_date, DATE_FORMAT(return_date, '%Y-%m-%d') AS return_date
+    FROM books_circulation WHERE id = ? AND return_date IS NOT NULL
+  `, [issueId]);
+  const issue = issues[0];
+  if (!issue) {
+    return null;
+  }
+  // Closed days may not count (see calendar.js)
+  const daysLate = await countDaysLate(connection, issue.due_date, issue.return_date);
+  return chargeLateFine(connection, req, issue, daysLate, `Returned ${daysLate} day(s) late`);
+}
+
+/**
+ * Charge the late fine for a loan `daysLate` days past its due date, by the
+ * book's fine rule
+ * @param {object} connection - Transaction connection
+ * @param {object} req - Express request (for the staff member recording it)
+ * @param {{ id: string|number, book_id: string|number, user_id: string|number }} issue - books_circulation row
+ * @param {number} daysLate
+ * @param {string} note
+ * @returns {Promise<{ id: string, amount: number, chargeType: 'late', daysLate: number }|null>} The ledger entry, or null if nothing is owed
+ */
+export async function chargeLateFine(connection, req, issue, daysLate, note) {
+  if (daysLate <= 0) {
+    return null;
+  }
+  const rule = await findFineRule(connection, issue.book_id);
+  const amount = calculateFine(rule, daysLate);
+  if (amount <= 0) {
+    return null;
+  }
+
+  const charge = await chargeFine(connection, req, {
+    userId: issue.user_id, issueId: issue.id, chargeType: 'late', amount, note
+  });
+  return { ...charge, daysLate };
+}
+
+/**
+ * Add a charge for a loan to a user's ledger
+ * @param {object} connection - Transaction connection
+ * @param {object} req - Express request (for the staff member recording it)
+ * @param {{ userId: string|number, issueId: string|number, chargeType: 'late'|'replacement'|'damage', amount: number, note: string }} charge
+ * @returns {Promise<{ id: string, amount: number, chargeType: string, note: string }|null>} The ledger entry, or null for a zero amount
+ */
+export async function chargeFine(connection, req, { userId, issueId, chargeType, amount, note }) {
+  const rounded = Math.round(Number(amount) * 100) / 100;
+  if (!(rounded > 0)) {
+    return null;
+  }
+  const [result] = await connection.query(
+    `INSERT INTO fine_ledger (user_id, issue_id, entry_type, charge_type, amount, note, created_by)
+     VALUES (?, ?, 'fine', ?, ?, ?, ?)`,
+    [userId, issueId, chargeType, rounded, note, req.staff?.id || null]
+  );
+  return { id: String(result.insertId), amount: rounded, chargeType, note };
+}
+
+/**
+ * Waive whatever is still charged on a loan for one kind of charge, e.g. the
+ * replacement charge once a lost book turns up. Payments already made stay
+ * on the ledger, so the user may end up in credit.
+ * @param {object} connection - Transaction connection
+ * @param {object} req - Express request (for the staff member recording it)
+ * @param {string|number} issueId
+ * @param {'late'|'replacement'|'damage'} chargeType
+ * @param {string} note
+ * @returns {Promise<{ id: string, amount: number, chargeType: string, note: string }|null>} The waiver, or null if nothing was charged
+ */
+export async function reverseCharges(connection, req, issueId, chargeType, note) {
+  const [[row]] = await connection.query(`
+    SELECT MIN(user_id) AS user_id,
+           COALESCE(SUM(CASE WHEN entry_type = 'fine' THEN amount ELSE -amount END), 0) AS outstanding
+    FROM fine_ledger
+    WHERE issue_id = ? AND charge_type = ? AND entry_type IN ('fine', 'waiver')
+  `, [issueId, chargeType]);
+  const amount = Math.round(Number(row.outstanding) * 100) / 100;
+  if (!(amount > 0)) {
+    return null;
+  }
+  const [result] = await connection.query(
+    `INSERT INTO fine_ledger (user_id, issue_id, entry_type, charge_type, amount, note, created_by)
+     VALUES (?, ?, 'waiver', ?, ?, ?, ?)`,
+    [row.user_id, issueId, chargeType, amount, note, req.staff?.id || null]
+  );
+  return { id: String(result.insertId), amount, chargeType, note };
+}
+
+/**
+ * Outstanding balance for a user (fines minus payments and waivers)
+ * @param {object} db - Pool or transaction connection
+ * @param {string|number} userId
+ * @returns {Promise<number>}
+ */
+export async function getBalance(db, userId) {
+  const [[row]] = await db.query(`
+    SELECT COALESCE(SUM(CASE WHEN entry_type = 'fine' THEN amount ELSE -amount END), 0) AS balance
+    FROM fine_ledger WHERE user_id = ?
+  `, [userId]);
+  return Number(row.balance);
+}
+
+/**
+ * Library-wide fine settings
+ * blockThreshold: users owing more than this cannot borrow; null disables the block
+ * @param {object} db - Pool or transaction connection
+ * @returns {Promise<{ blockThreshold: number|null }>}
+ */
+export async function getFineSettings(db) {
+  const settings = await getSettings(db, [BLOCK_THRESHOLD_KEY]);
+  return { blockThreshold: settings[BLOCK_THRESHOLD_KEY] };
+}
+
+/**
+ * Save library-wide fine settings
+ * @param {object} db - Pool or transaction connection
+ * @param {{ blockThreshold: number|null }} settings
+ */
+export async function saveFineSettings(db, { blockThreshold }) {
+  await saveSettings(db, { [BLOCK_THRESHOLD_KEY]: blockThreshold });
+}
+
+/**
+ * Check whether a user's unpaid fines block them from borrowing
+ * @param {object} db - Pool or transaction connection
+ * @param {string|number} userId
+ * @returns {Promise<{ blocked: boolean, balance: number, threshold: number|null }>}
+ */
+export async function checkFineBlock(db, userId) {
+  const [{ blockThreshold }, balance] = await Promise.all([getFineSettings(db), getBalance(db, userId)]);
+  return {
+    blocked: blockThreshold !== null && balance > blockThreshold,
+    balance,
+    threshold: blockThreshold
+  };
+}
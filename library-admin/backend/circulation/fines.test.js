@@ -0,0 +1,74 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { fakeDb } from '../testing/fakeDb.js';
+import { calculateFine, assessLateFine, reverseCharges, checkFineBlock } from './fines.js';
+
+const RULE = { grace_days: 2, daily_rate: '0.50', max_amount: '5.00' };
+
+test('days inside the grace period are never charged', () => {
+  assert.equal(calculateFine(RULE, 0), 0);
+  assert.equal(calculateFine(RULE, 2), 0);
+  assert.equal(calculateFine(RULE, 3), 0.5);
+  assert.equal(calculateFine(RULE, 6), 2);
+});
+
+test('a fine stops at the rule\'s cap, or grows without one', () => {
+  assert.equal(calculateFine(RULE, 40), 5);
+  assert.equal(calculateFine({ ...RULE, max_amount: null }, 40), 19);
+});
+
+test('without a rule, late returns are not fined', () => {
+  assert.equal(calculateFine(null, 30), 0);
+});
+
+test('fines are rounded to cents', () => {
+  assert.equal(calculateFine({ grace_days: 0, daily_rate: '0.333', max_amount: null }, 3), 1);
+});
+
+// A returned loan, its fine rule and library settings
+const returnedLoan = (dueDate, returnDate, rule = RULE) => fakeDb([
+  [/FROM books_circulation WHERE id = \? AND return_date IS NOT NULL/, [
+    { id: 8, book_id: 3, user_id: 5, due_date: dueDate, return_date: returnDate }
+  ]],
+  [/FROM fine_rules/, rule ? [rule] : []],
+  [/FROM library_settings/, []]
+]);
+
+test('a late return is charged to the borrower\'s ledger', async () => {
+  const db = returnedLoan('2026-03-01', '2026-03-07');
+  const fine = await assessLateFine(db, { staff: { id: '2' } }, 8);
+  assert.equal(fine.amount, 2);
+  assert.equal(fine.daysLate, 6);
+  assert.equal(fine.chargeType, 'late');
+  const [insert] = db.queriesMatching(/INSERT INTO fine_ledger/);
+  assert.deepEqual(insert.params, [5, 8, 'late', 2, 'Returned 6 day(s) late', '2']);
+});
+
+test('an on-time return or one inside the grace period adds nothing', async () => {
+  for (const returnDate of ['2026-03-01', '2026-03-03']) {
+    const db = returnedLoan('2026-03-01', returnDate);
+    assert.equal(await assessLateFine(db, {}, 8), null);
+    assert.equal(db.queriesMatching(/INSERT INTO fine_ledger/).length, 0);
+  }
+});
+
+test('reversing a charge waives only what is still outstanding on it', async () => {
+  const db = fakeDb([[/FROM fine_ledger/, [{ user_id: 5, outstanding: '7.50' }]]]);
+  const waiver = await reverseCharges(db, {}, 8, 'replacement', 'Found');
+  assert.equal(waiver.amount, 7.5);
+  const [insert] = db.queriesMatching(/INSERT INTO fine_ledger/);
+  assert.deepEqual(insert.params, [5, 8, 'replacement', 7.5, 'Found', null]);
+
+  const settled = fakeDb([[/FROM fine_ledger/, [{ user_id: 5, outstanding: '0' }]]]);
+  assert.equal(await reverseCharges(settled, {}, 8, 'replacement', 'Found'), null);
+});
+
+test('borrowing is blocked only above the threshold, and never without one', async () => {
+  const owing = (balance, threshold) => fakeDb([
+    [/FROM library_settings/, threshold === null ? [] : [{ setting_key: 'fines.block_threshold', setting_value: threshold }]],
+    [/FROM fine_ledger WHERE user_id/, [{ balance }]]
+  ]);
+  assert.deepEqual(await checkFineBlock(owing('10.00', '10'), 5), { blocked: false, balance: 10, threshold: 10 });
+  assert.deepEqual(await checkFineBlock(owing('10.01', '10'), 5), { blocked: true, balance: 10.01, threshold: 10 });
+  assert.equal((await checkFineBlock(owing('500', null), 5)).blocked, false);
+});
@@ -0,0 +1,240 @@
+import { getSettings, saveSettings } from './settings.js';
+import { CirculationError } from './errors.js';
+import { syncCopyCounts } from './copies.js';
+import { recordAudit, snapshot } from '../audit/index.js';
+
+/**
+ * Holds: a FIFO waitlist per title for books with no copies on the shelf
+ *
+ * Hold lifecycle: waiting -> ready -> fulfilled, or cancelled/expired.
+ * When a copy is returned and someone is waiting, the copy is not counted in
+ * available_copies; instead the oldest waiting hold becomes "ready", holding
+ * that copy on the hold shelf for holds.pickup_days. Issuing the book to that
+ * patron fulfils the hold. If the hold expires or is cancelled, the copy
+ * moves on to the next patron in line, or back to the shelf.
+ */
+
+const PICKUP_DAYS_KEY = 'holds.pickup_days';
+
+// Holds still in the queue or waiting on the hold shelf
+export const ACTIVE_HOLD_STATUSES = ['waiting', 'ready'];
+
+/**
+ * @param {object} db - Pool or transaction connection
+ * @returns {Promise<{ pickupDays: number }>}
+ */
+export async function getHoldSettings(db) {
+  const settings = await getSettings(db, [PICKUP_DAYS_KEY]);
+  return { pickupDays: settings[PICKUP_DAYS_KEY] };
+}
+
+/**
+ * @param {object} db - Pool or transaction connection
+ * @param {{ pickupDays: number }} values
+ */
+export async function saveHoldSettings(db, { pickupDays }) {
+  await saveSettings(db, { [PICKUP_DAYS_KEY]: pickupDays });
+}
+
+/**
+ * Place a hold for a user on a title with no available copies
+ * @param {object} connection - Transaction connection
+ * @param {object} req - Express request (staff member placing it, if any)
+ * @param {{ bookId: string|number, userId: string|number }} hold
+ * @returns {Promise<{ id: number, position: number }>}
+ * @throws {CirculationError} When the hold isn't allowed
+ */
+export async function placeHold(connection, req, { bookId, userId }) {
+  const [books] = await connection.query(
+    'SELECT id, available_copies FROM books WHERE id = ? FOR UPDATE',
+    [bookId]
+  );
+  if (books.length === 0) {
+    throw new CirculationError('Book not found', 'NOT_FOUND', 404);
+  }
+  if (books[0].available_copies > 0) {
+    throw new CirculationError('Copies of this book are available - it can be issued right away', 'COPIES_AVAILABLE');
+  }
+
+  const [existing] = await connection.query(
+    'SELECT id FROM holds WHERE book_id = ? AND user_id = ? AND status IN (?)',
+    [bookId, userId, ACTIVE_HOLD_STATUSES]
+  );
+  if (existing.length > 0) {
+    throw new CirculationError('This user already has a hold on this book', 'ALREADY_HELD');
+  }
+
+  const [loans] = await connection.query(
+    `SELECT id FROM books_circulation WHERE book_id = ? AND user_id = ? AND status = 'issued'`,
+    [bookId, userId]
+  );
+  if (loans.length > 0) {
+    throw new CirculationError('This user already has this book on loan', 'ALREADY_ON_LOAN');
+  }
+
+  const [result] = await connection.query(
+    `INSERT INTO holds (book_id, user_id, status, created_by) VALUES (?, ?, 'waiting', ?)`,
+    [bookId, userId, req.staff?.id || null]
+  );
+  return { id: result.insertId, position: await getQueuePosition(connection, result.insertId) };
+}
+
+/**
+ * Position of a waiting hold in its title's queue (1 = next in line)
+ * Ready holds are already at the front, so they report position 0.
+ * @param {object} db - Pool or transaction connection
+ * @param {string|number} holdId
+ * @returns {Promise<number|null>} null when the hold is no longer active
+ */
+export async function getQueuePosition(db, holdId) {
+  const [rows] = await db.query(`
+    SELECT h.status,
+           (SELECT COUNT(*) FROM holds q
+            WHERE q.book_id = h.book_id AND q.status = 'waiting'
+              AND (q.created_at < h.created_at OR (q.created_at = h.created_at AND q.id <= h.id))) AS position
+    FROM holds h WHERE h.id = ?
+  `, [holdId]);
+  const hold = rows[0];
+  if (!hold || !ACTIVE_HOLD_STATUSES.includes(hold.status)) {
+    return null;
+  }
+  return hold.status === 'ready' ? 0 : hold.position;
+}
+
+/**
+ * Hand a copy that just came back on the shelf to the next patron in line
+ * Marks the oldest waiting hold ready for pickup with that copy set aside;
+ * if nobody is waiting, the copy stays available. A copy its owner is
+ * reclaiming is never set aside (see owners.js).
+ * @param {object} connection - Transaction connection
+ * @param {{ id: string|number, book_id: string|number }} copy - An available copy
+ * @returns {Promise<object|null>} The hold now ready for pickup, or null if the copy went back on the shelf
+ */
+export async function assignReturnedCopy(connection, copy) {
+  const [reclaims] = await connection.query(
+    `SELECT id FROM copy_reclaims WHERE copy_id = ? AND status = 'open'`,
+    [copy.id]
+  );
+  if (reclaims.length > 0) {
+    await syncCopyCounts(connection, copy.book_id);
+    return null;
+  }
+
+  const [waiting] = await connection.query(`
+    SELECT id FROM holds WHERE book_id = ? AND status = 'waiting'
+    ORDER BY created_at, id LIMIT 1 FOR UPDATE
+  `, [copy.book_id]);
+
+  if (waiting.length === 0) {
+    await syncCopyCounts(connection, copy.book_id);
+    return null;
+  }
+
+  const { pickupDays } = await getHoldSettings(connection);
+  await connection.query(`
+    UPDATE holds SET status = 'ready', copy_id = ?, ready_at = NOW(), expires_at = DATE_ADD(NOW(), INTERVAL ? DAY)
+    WHERE id = ?
+  `, [copy.id, pickupDays, waiting[0].id]);
+  await syncCopyCounts(connection, copy.book_id);
+
+  const [holds] = await connection.query(`
+    SELECT h.id, h.user_id, h.expires_at, u.name as user_name, c.barcode as copy_barcode
+    FROM holds h
+    JOIN users u ON h.user_id = u.id
+    LEFT JOIN book_copies c ON h.copy_id = c.id
+    WHERE h.id = ?
+  `, [waiting[0].id]);
+  return holds[0];
+}
+
+/**
+ * Find the ready hold a user is collecting, if any, and lock it
+ * @param {object} connection - Transaction connection
+ * @returns {Promise<object|null>}
+ */
+export async function findReadyHold(connection, bookId, userId) {
+  const [holds] = await connection.query(
+    `SELECT id, copy_id FROM holds WHERE book_id = ? AND user_id = ? AND status = 'ready' FOR UPDATE`,
+    [bookId, userId]
+  );
+  return holds[0] || null;
+}
+
+/**
+ * Mark a ready hold collected by the loan that was just issued
+ * @param {object} connection - Transaction connection
+ */
+export async function fulfilHold(connection, holdId, issueId) {
+  await connection.query(
+    `UPDATE holds SET status = 'fulfilled', issue_id = ? WHERE id = ?`,
+    [issueId, holdId]
+  );
+}
+
+/**
+ * End an active hold (cancelled by staff, or expired on the hold shelf)
+ * A ready hold's copy passes to the next patron in line.
+ * @param {object} connection - Transaction connection
+ * @param {string|number} holdId
+ * @param {'cancelled'|'expired'} status
+ * @throws {CirculationError} When the hold isn't active
+ */
+export async function endHold(connection, holdId, status) {
+  const [holds] = await connection.query(
+    'SELECT id, book_id, copy_id, status FROM holds WHERE id = ? FOR UPDATE',
+    [holdId]
+  );
+  const hold = holds[0];
+  if (!hold) {
+    throw new CirculationError('Hold not found', 'NOT_FOUND', 404);
+  }
+  if (!ACTIVE_HOLD_STATUSES.includes(hold.status)) {
+    throw new CirculationError(`This hold is already ${hold.status}`, 'HOLD_NOT_ACTIVE');
+  }
+
+  await connection.query('UPDATE holds SET status = ? WHERE id = ?', [status, holdId]);
+  if (hold.status === 'ready') {
+    await assignReturnedCopy(connection, { id: hold.copy_id, book_id: hold.book_id });
+  }
+}
+
+/**
+ * Expire ready holds whose pickup window has passed
+ * Each hold is expired in its own transaction and recorded in the audit log.
+ * A hold that fails is logged and left for the next run, and the rest still
+ * expire.
+ * @param {object} pool
+ * @returns {Promise<number>} How many holds expired
+ */
+export async function expireHolds(pool) {
+  const [due] = await pool.query(
+    `SELECT id FROM holds WHERE status = 'ready' AND expires_at < NOW()`
+  );
+
+  let expired = 0;
+  for (const { id } of due) {
+    let connection;
+    try {
+      connection = await pool.getConnection();
+      await connection.beginTransaction();
+      const before = await snapshot(connection, 'hold', id);
+      await endHold(connection, id, 'expired');
+      await recordAudit(connection, {}, {
+        entity: 'hold', entityId: id, action: 'expire',
+        before, after: await snapshot(connection, 'hold', id)
+      });
+      await connection.commit();
+      expired++;
+    } catch (error) {
+      // A broken connection can't roll back, but its transaction is gone anyway
+      await connection?.rollback().catch(() => {});
+      // Someone collected or cancelled it in the meantime
+      if (!(error instanceof CirculationError)) {
+        console.error(`Could not expire hold ${id}:`, error.message);
+      }
+    } finally {
+      connection?.release();
+    }
+  }
+  return expired;
+}
@@ -0,0 +1,90 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { fakeDb } from '../testing/fakeDb.js';
+import { placeHold, assignReturnedCopy, endHold, expireHolds } from './holds.js';
+
+test('a hold joins the back of the queue', async () => {
+  const db = fakeDb([
+    [/FROM books WHERE id = \? FOR UPDATE/, [{ id: 3, available_copies: 0 }]],
+    [/INSERT INTO holds/, { insertId: 40 }],
+    [/FROM holds h WHERE h.id = \?/, [{ status: 'waiting', position: 3 }]]
+  ]);
+  assert.deepEqual(await placeHold(db, { staff: { id: '2' } }, { bookId: 3, userId: 5 }), { id: 40, position: 3 });
+  assert.deepEqual(db.queriesMatching(/INSERT INTO holds/)[0].params, [3, 5, '2']);
+});
+
+test('a hold is refused while copies are on the shelf, or twice, or for a book already borrowed', async () => {
+  const book = (availableCopies) => [/FROM books WHERE id = \? FOR UPDATE/, [{ id: 3, available_copies: availableCopies }]];
+  await assert.rejects(placeHold(fakeDb([book(1)]), {}, { bookId: 3, userId: 5 }), { code: 'COPIES_AVAILABLE' });
+  await assert.rejects(
+    placeHold(fakeDb([book(0), [/FROM holds WHERE book_id = \? AND user_id = \?/, [{ id: 9 }]]]), {}, { bookId: 3, userId: 5 }),
+    { code: 'ALREADY_HELD' }
+  );
+  await assert.rejects(
+    placeHold(fakeDb([book(0), [/FROM books_circulation/, [{ id: 7 }]]]), {}, { bookId: 3, userId: 5 }),
+    { code: 'ALREADY_ON_LOAN' }
+  );
+  await assert.rejects(placeHold(fakeDb(), {}, { bookId: 3, userId: 5 }), { code: 'NOT_FOUND', status: 404 });
+});
+
+test('a returned copy is set aside for the first patron waiting, for the pickup window', async () => {
+  const db = fakeDb([
+    [/FROM holds WHERE book_id = \? AND status = 'waiting'/, [{ id: 41 }]],
+    [/FROM library_settings/, [{ setting_key: 'holds.pickup_days', setting_value: '5' }]],
+    [/FROM holds h\s+JOIN users/, [{ id: 41, user_id: 5, user_name: 'Ravi' }]]
+  ]);
+  const hold = await assignReturnedCopy(db, { id: 12, book_id: 3 });
+  assert.equal(hold.id, 41);
+  const [ready] = db.queriesMatching(/UPDATE holds SET status = 'ready'/);
+  assert.deepEqual(ready.params, [12, 5, 41]);
+});
+
+test('a returned copy goes back on the shelf when nobody waits or its owner wants it back', async () => {
+  const nobody = fakeDb();
+  assert.equal(await assignReturnedCopy(nobody, { id: 12, book_id: 3 }), null);
+  assert.equal(nobody.queriesMatching(/UPDATE holds/).length, 0);
+  assert.equal(nobody.queriesMatching(/UPDATE books b SET/).length, 1);
+
+  const reclaimed = fakeDb([
+    [/FROM copy_reclaims/, [{ id: 2 }]],
+    [/FROM holds WHERE book_id = \? AND status = 'waiting'/, [{ id: 41 }]]
+  ]);
+  assert.equal(await assignReturnedCopy(reclaimed, { id: 12, book_id: 3 }), null);
+  assert.equal(reclaimed.queriesMatching(/UPDATE holds/).length, 0);
+});
+
+test('ending a ready hold passes its copy to the next in line', async () => {
+  const db = fakeDb([
+    [/FROM holds WHERE id = \? FOR UPDATE/, [{ id: 41, book_id: 3, copy_id: 12, status: 'ready' }]],
+    [/FROM holds WHERE book_id = \? AND status = 'waiting'/, [{ id: 42 }]]
+  ]);
+  await endHold(db, 41, 'cancelled');
+  assert.deepEqual(db.queriesMatching(/UPDATE holds SET status = \? WHERE id = \?/)[0].params, ['cancelled', 41]);
+  assert.deepEqual(db.queriesMatching(/UPDATE holds SET status = 'ready'/)[0].params, [12, 3, 42]);
+});
+
+test('a hold that has already ended cannot end again', async () => {
+  const db = fakeDb([[/FROM holds WHERE id = \? FOR UPDATE/, [{ id: 41, book_id: 3, copy_id: null, status: 'fulfilled' }]]]);
+  await assert.rejects(endHold(db, 41, 'expired'), { code: 'HOLD_NOT_ACTIVE' });
+});
+
+test('expiry counts only the holds it expired and carries on past one that fails', async (t) => {
+  const logged = t.mock.method(console, 'error', () => {});
+  const statuses = { 1: 'ready', 2: 'fulfilled', 3: 'ready', 4: 'ready' };
+  const pool = fakeDb([
+    [/WHERE status = 'ready' AND expires_at < NOW\(\)/, [{ id: 1 }, { id: 2 }, { id: 3 }, { id: 4 }]],
+    [/FROM holds WHERE id = \? FOR UPDATE/, ([id]) => {
+      if (id === 3) {
+        throw new Error('Lock wait timeout exceeded');
+      }
+      return [{ id, book_id: 3, copy_id: 12, status: statuses[id] }];
+    }]
+  ]);
+  assert.equal(await expireHolds(pool), 2);
+  assert.equal(logged.mock.callCount(), 1);
+  assert.match(logged.mock.calls[0].arguments[0], /hold 3/);
+  assert.deepEqual(
+    pool.queriesMatching(/UPDATE holds SET status = \? WHERE id = \?/).map(({ params }) => params[1]),
+    [1, 4]
+  );
+});
@@ -0,0 +1,88 @@
+export {
+  calculateFine,
+  findFineRule,
+  assessLateFine,
+  chargeFine,
+  reverseCharges,
+  getBalance,
+  getFineSettings,
+  saveFineSettings,
+  checkFineBlock
+} from './fines.js';
+export { checkRenewal, renewLoan, getRenewalSettings, saveRenewalSettings } from './renewals.js';
+export { issueLoan } from './issues.js';
+export { returnLoan, returnCopy } from './returns.js';
+export {
+  LOAN_STATUSES,
+  LOAN_TRANSITIONS,
+  getLossSettings,
+  saveLossSettings,
+  assertLoanTransition,
+  changeLoanStatus
+} from './losses.js';
+export { PATRON_TYPES, POLICY_DEFAULTS, resolveLoanPolicy, checkLoanPolicy } from './policies.js';
+export {
+  ACTIVE_HOLD_STATUSES,
+  getHoldSettings,
+  saveHoldSettings,
+  placeHold,
+  getQueuePosition,
+  assignReturnedCopy,
+  findReadyHold,
+  fulfilHold,
+  endHold,
+  expireHolds
+} from './holds.js';
+export {
+  COPY_STATUSES,
+  COPY_CONDITIONS,
+  syncCopyCounts,
+  findCopyByBarcode,
+  checkoutCopy,
+  checkinCopy,
+  settleLoanedCopy,
+  parseCopyInput,
+  createCopy,
+  updateCopy,
+  deleteCopy,
+  getBranchAvailability
+} from './copies.js';
+export {
+  TRANSFER_STATUSES,
+  OPEN_TRANSFER_STATUSES,
+  findBranch,
+  getDefaultBranch,
+  requestTransfer,
+  sendTransfer,
+  receiveTransfer,
+  cancelTransfer,
+  sendHomeIfAway
+} from './branches.js';
+export {
+  WEEKDAYS,
+  addDays,
+  toDateString,
+  getOpeningHours,
+  saveOpeningHours,
+  getCalendarSettings,
+  saveCalendarSettings,
+  nextOpenDay,
+  countDaysLate
+} from './calendar.js';
+export { REQUEST_STATUSES, requestTitleKey, changeRequestStatus } from './requests.js';
+export {
+  OWNERSHIP_TYPES,
+  RECLAIM_STATUSES,
+  BORROWER_VISIBILITY,
+  getOwnerSettings,
+  saveOwnerSettings,
+  getOwnerSummaries,
+  getOwnedBooks,
+  getDonations,
+  openReclaim,
+  reclaimBook,
+  completeReclaim,
+  cancelReclaim
+} from './owners.js';
+export { CirculationError } from './errors.js';
+export { SETTING_DEFAULTS, getSettings, saveSettings } from './settings.js';
@@ -0,0 +1,83 @@
+import { CirculationError } from './errors.js';
+import { checkLoanPolicy } from './policies.js';
+import { checkoutCopy, syncCopyCounts } from './copies.js';
+import { findReadyHold, fulfilHold, assignReturnedCopy } from './holds.js';
+import { recordAudit, snapshot } from '../audit/index.js';
+
+/**
+ * Issuing: the one place a loan is created
+ *
+ * The borrowing policy check, taking a copy off the shelf (or the hold
+ * shelf), the loan row and the recount of the title all happen in the
+ * caller's transaction. The caller locks the borrower's users row first, so
+ * their loan count and fines can't change underneath the policy check - and
+ * several loans issued in one transaction (a scanned stack of books) are
+ * each checked against the ones before them.
+ *
+ * Staff working at a branch lend only copies on its shelves, and the loan
+ * records the branch that issued it.
+ */
+
+/**
+ * Issue a book to a user inside the caller's transaction
+ * @param {object} connection - Transaction connection
+ * @param {object} req - Express request (for the staff member issuing it, and their branch)
+ * @param {object} loan
+ * @param {string|number} loan.userId
+ * @param {string|number} loan.bookId
+ * @param {string|number|null} [loan.copyId] - The copy staff scanned, if any
+ * @param {string|null} [loan.idempotencyKey]
+ * @returns {Promise<{ id: number, holdId: number|null }>} The new loan, and the hold it fulfilled
+ * @throws {CirculationError} When a borrowing policy refuses the loan (with the
+ *   policy's details and every error in `errors`) or no copy can be lent
+ */
+export async function issueLoan(connection, req, { userId, bookId, copyId = null, idempotencyKey = null }) {
+  // Borrowing policy decides whether the loan is allowed and when it's due
+  const { issueDate, dueDate, errors } = await checkLoanPolicy(connection, { userId, bookId });
+  if (errors.length > 0) {
+    const { message, code, ...details } = errors[0];
+    throw new CirculationError(message, code, code === 'NOT_FOUND' ? 404 : 400, { ...details, errors });
+  }
+
+  // Lend the scanned copy if there is one, else the copy waiting on the
+  // hold shelf for this user, else the first copy on the shelf
+  const bookBefore = await snapshot(connection, 'book', bookId);
+  const readyHold = await findReadyHold(connection, bookId, userId);
+  const branchId = req.staff?.branchId || null;
+  const copy = await checkoutCopy(connection, {
+    bookId, copyId: copyId || readyHold?.copy_id, holdId: readyHold?.id, branchId
+  });
+
+  const [result] = await connection.query(
+    `INSERT INTO books_circulation (book_id, copy_id, user_id, issue_date, due_date, status, idempotency_key, branch_id)
+     VALUES (?, ?, ?, ?, ?, 'issued', ?, ?)`,
+    [bookId, copy.id, userId, issueDate, dueDate, idempotencyKey, branchId]
+  );
+  const id = result.insertId;
+
+  if (readyHold) {
+    const holdBefore = await snapshot(connection, 'hold', readyHold.id);
+    await fulfilHold(connection, readyHold.id, id);
+    await recordAudit(connection, req, {
+      entity: 'hold', entityId: readyHold.id, action: 'fulfil',
+      before: holdBefore, after: await snapshot(connection, 'hold', readyHold.id)
+    });
+    // Staff scanned another copy of the title: the one set aside passes to
+    // the next patron in line, as when a hold is cancelled
+    if (readyHold.copy_id && String(readyHold.copy_id) !== String(copy.id)) {
+      await assignReturnedCopy(connection, { id: readyHold.copy_id, book_id: bookId });
+    }
+  }
+  await syncCopyCounts(connection, bookId);
+
+  await recordAudit(connection, req, {
+    entity: 'issue', entityId: id, action: 'issue',
+    after: await snapshot(connection, 'issue', id)
+  });
+  await recordAudit(connection, req, {
+    entity: 'book', entityId: bookId, action: 'issue',
+    before: bookBefore, after: await snapshot(connection, 'book', bookId)
+  });
+
+  return { id, holdId: readyHold?.id || null };
+}
@@ -0,0 +1,95 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { fakeDb } from '../testing/fakeDb.js';
+import { issueLoan } from './issues.js';
+
+const STAFF = { staff: { id: '2', name: 'Desk', branchId: 1 } };
+
+/**
+ * A loan of book 3 to user 5 that the policies allow, with what's on the
+ * shelves and the borrower's ready hold, if any
+ */
+function issueDb({ policies = [], readyHold = null, copies = [{ id: 12, barcode: 'B-012', status: 'available', current_branch_id: 1, unreserved: 1, unreclaimed: 1 }], waiting = [] } = {}) {
+  return fakeDb([
+    // Before the users and books lookups, which its subqueries would match
+    [/FROM loan_policies/, policies],
+    [/FROM users WHERE id = \?/, [{ id: 5, name: 'Ada' }]],
+    [/FROM books b WHERE b.id = \?/, [{ id: 3, available_copies: 1 }]],
+    [/FROM books WHERE id = \?/, [{ id: 3 }]],
+    [/FROM fine_ledger/, [{ balance: '0' }]],
+    [/AS issueDate/, [{ issueDate: '2026-03-10', loanEnds: '2026-03-24' }]],
+    [/FROM holds WHERE book_id = \? AND user_id = \? AND status = 'ready'/, readyHold ? [readyHold] : []],
+    [/FROM holds WHERE book_id = \? AND status = 'waiting'/, waiting],
+    [/FROM book_copies c/, copies],
+    [/INSERT INTO books_circulation/, { insertId: 70 }]
+  ]);
+}
+
+test('a loan takes the first copy on the desk\'s shelves and is due when the policy says', async () => {
+  const db = issueDb();
+  assert.deepEqual(await issueLoan(db, STAFF, { userId: 5, bookId: 3 }), { id: 70, holdId: null });
+  const [copyQuery] = db.queriesMatching(/FROM book_copies c/);
+  assert.deepEqual(copyQuery.params, [3, 0, 1, 1]);
+  assert.deepEqual(db.queriesMatching(/UPDATE book_copies SET status = 'on_loan'/)[0].params, [12]);
+  assert.deepEqual(db.queriesMatching(/INSERT INTO books_circulation/)[0].params, [3, 12, 5, '2026-03-10', '2026-03-24', null, 1]);
+  assert.deepEqual(db.queriesMatching(/INSERT INTO audit_log/).map(({ params }) => params[2]), ['issue', 'book']);
+});
+
+test('a loan the policies refuse carries every reason, and nothing is lent', async () => {
+  const db = issueDb({ policies: [{ circulates: 0, loan_days: null, max_loans: null, max_renewals: null }] });
+  await assert.rejects(issueLoan(db, STAFF, { userId: 5, bookId: 3 }), (error) => {
+    assert.equal(error.code, 'NOT_CIRCULATING');
+    assert.equal(error.status, 400);
+    assert.deepEqual(error.details.errors.map(({ code }) => code), ['NOT_CIRCULATING']);
+    return true;
+  });
+  assert.equal(db.queriesMatching(/book_copies/).length, 0);
+  assert.equal(db.queriesMatching(/INSERT INTO books_circulation/).length, 0);
+});
+
+test('when the shelves are empty the loan is refused as a conflict', async () => {
+  await assert.rejects(issueLoan(issueDb({ copies: [] }), STAFF, { userId: 5, bookId: 3 }), {
+    code: 'NO_COPIES_AVAILABLE', status: 409, message: 'No copies of this book are available at this branch'
+  });
+});
+
+test('a borrower collecting a hold takes the copy set aside for them and fulfils the hold', async () => {
+  const db = issueDb({ readyHold: { id: 41, copy_id: 12 } });
+  assert.deepEqual(await issueLoan(db, STAFF, { userId: 5, bookId: 3 }), { id: 70, holdId: 41 });
+  assert.deepEqual(db.queriesMatching(/FROM book_copies c/)[0].params, [41, 12, 3]);
+  assert.deepEqual(db.queriesMatching(/UPDATE holds SET status = 'fulfilled'/)[0].params, [70, 41]);
+  assert.equal(db.queriesMatching(/UPDATE holds SET status = 'ready'/).length, 0);
+});
+
+test('when staff scan another copy, the one set aside passes to the next patron waiting', async () => {
+  const db = issueDb({
+    readyHold: { id: 41, copy_id: 12 },
+    copies: [{ id: 15, barcode: 'B-015', status: 'available', current_branch_id: 1, unreserved: 1, unreclaimed: 1 }],
+    waiting: [{ id: 42 }]
+  });
+  await issueLoan(db, STAFF, { userId: 5, bookId: 3, copyId: 15 });
+  assert.deepEqual(db.queriesMatching(/UPDATE book_copies SET status = 'on_loan'/)[0].params, [15]);
+  const [ready] = db.queriesMatching(/UPDATE holds SET status = 'ready'/);
+  assert.equal(ready.params[0], 12);
+  assert.equal(ready.params.at(-1), 42);
+});
+
+test('loans issued in one transaction are each checked against the ones before them', async () => {
+  // A scanned stack of three books, for a borrower allowed two at a time
+  let onLoan = 0;
+  const db = fakeDb([
+    [/FROM loan_policies/, [{ max_loans: 2, loan_days: null, max_renewals: null, circulates: null }]],
+    [/FROM users WHERE id = \?/, [{ id: 5, name: 'Ada' }]],
+    [/FROM books WHERE id = \?/, [{ id: 3 }]],
+    [/COUNT\(\*\) AS onLoan/, () => [{ onLoan }]],
+    [/FROM fine_ledger/, [{ balance: '0' }]],
+    [/AS issueDate/, [{ issueDate: '2026-03-10', loanEnds: '2026-03-24' }]],
+    [/FROM book_copies c/, [{ id: 12, status: 'available', current_branch_id: 1, unreserved: 1, unreclaimed: 1 }]],
+    [/INSERT INTO books_circulation/, () => ({ insertId: 70 + onLoan++ })]
+  ]);
+  assert.equal((await issueLoan(db, STAFF, { userId: 5, bookId: 3, copyId: 12 })).id, 70);
+  assert.equal((await issueLoan(db, STAFF, { userId: 5, bookId: 3, copyId: 12 })).id, 71);
+  await assert.rejects(issueLoan(db, STAFF, { userId: 5, bookId: 3, copyId: 12 }), {
+    code: 'LOAN_LIMIT', message: 'Ada already has 2 book(s) on loan, the most allowed for this book'
+  });
+});
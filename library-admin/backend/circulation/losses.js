@@ -0,0 +1,184 @@
+import { getSettings, saveSettings } from './settings.js';
+import { CirculationError } from './errors.js';
+import { assessLateFine, chargeFine, reverseCharges } from './fines.js';
+import { settleLoanedCopy, syncCopyCounts } from './copies.js';
+import { recordAudit, snapshot } from '../audit/index.js';
+
+/**
+ * Loans that don't end in a normal return
+ *
+ *   lost             - the patron lost the book: the copy is marked lost (so
+ *                      the title's total drops) and a replacement charge is
+ *                      added. Reversed if the book turns up (see returnLoan).
+ *   damaged          - returned damaged: the copy goes in for repair, and a
+ *                      damage charge and any late fine are added. Final.
+ *   claimed_returned - the patron says they returned it but it isn't on the
+ *                      shelf: no more fines while staff look for it.
+ *   written_off      - the library gives up on the book: the copy is
+ *                      withdrawn and any replacement charge is reversed.
+ *
+ * LOAN_TRANSITIONS lists where each status can go next; 'returned' is only
+ * ever reached through returnLoan.
+ */
+
+export const LOAN_STATUSES = ['issued', 'returned', 'lost', 'damaged', 'claimed_returned', 'written_off'];
+
+export const LOAN_TRANSITIONS = {
+  issued: ['returned', 'lost', 'damaged', 'claimed_returned', 'written_off'],
+  claimed_returned: ['returned', 'lost', 'written_off'],
+  lost: ['returned', 'written_off'],
+  written_off: ['returned'],
+  damaged: [],
+  returned: [],
+};
+
+const LOSS_SETTING_KEYS = {
+  replacementCharge: 'losses.replacement_charge',
+  damageCharge: 'losses.damage_charge',
+};
+
+const STATUS_LABELS = {
+  issued: 'on loan',
+  returned: 'returned',
+  lost: 'lost',
+  damaged: 'returned damaged',
+  claimed_returned: 'claimed returned',
+  written_off: 'written off',
+};
+
+/**
+ * @param {object} db - Pool or transaction connection
+ * @returns {Promise<{ replacementCharge: number, damageCharge: number }>}
+ */
+export async function getLossSettings(db) {
+  const settings = await getSettings(db, Object.values(LOSS_SETTING_KEYS));
+  return Object.fromEntries(
+    Object.entries(LOSS_SETTING_KEYS).map(([name, key]) => [name, settings[key]])
+  );
+}
+
+/**
+ * @param {object} db - Pool or transaction connection
+ * @param {{ replacementCharge: number, damageCharge: number }} values
+ */
+export async function saveLossSettings(db, values) {
+  await saveSettings(db, Object.fromEntries(
+    Object.entries(LOSS_SETTING_KEYS).map(([name, key]) => [key, values[name]])
+  ));
+}
+
+/**
+ * Check a loan may move from one status to another
+ * @param {string} from
+ * @param {string} to
+ * @throws {CirculationError} 409 when the transition isn't allowed
+ */
+export function assertLoanTransition(from, to) {
+  if (!LOAN_TRANSITIONS[from]?.includes(to)) {
+    throw new CirculationError(
+      `A loan that is ${STATUS_LABELS[from] || from} can't be marked ${STATUS_LABELS[to] || to}`,
+      from === 'returned' ? 'ALREADY_RETURNED' : 'INVALID_TRANSITION',
+      409
+    );
+  }
+}
+
+/**
+ * Mark a loan lost, damaged, claimed returned or written off, inside the
+ * caller's transaction
+ * @param {object} connection - Transaction connection
+ * @param {object} req - Express request (for the staff member recording it)
+ * @param {string|number} issueId
+ * @param {{ status: string, amount?: number|null, note?: string|null }} change
+ *   amount - replacement or damage charge; defaults to the loss settings
+ * @returns {Promise<{ charges: object[], reversal: object|null }>} Ledger entries added
+ * @throws {CirculationError}
+ */
+export async function changeLoanStatus(connection, req, issueId, { status, amount = null, note = null }) {
+  // A loan is only issued by issueLoan and returned by returnLoan
+  const settable = LOAN_STATUSES.filter(s => s !== 'returned' && s !== 'issued');
+  if (!settable.includes(status)) {
+    throw new CirculationError(
+      `Status must be one of: ${settable.join(', ')}`,
+      'INVALID_STATUS'
+    );
+  }
+
+  const [issues] = await connection.query(
+    'SELECT id, book_id, copy_id, user_id, status FROM books_circulation WHERE id = ? FOR UPDATE',
+    [issueId]
+  );
+  const issue = issues[0];
+  if (!issue) {
+    throw new CirculationError('Issue not found', 'NOT_FOUND', 404);
+  }
+  assertLoanTransition(issue.status, status);
+
+  // Same lock order as issuing and returning: title, then copy
+  await connection.query('SELECT id FROM books WHERE id = ? FOR UPDATE', [issue.book_id]);
+
+  const issueBefore = await snapshot(connection, 'issue', issueId);
+  await connection.query(
+    `UPDATE books_circulation
+     SET status = ?, status_note = ?, status_changed_at = NOW(),
+         return_date = IF(? = 'damaged', CURDATE(), return_date)
+     WHERE id = ?`,
+    [status, note, status, issueId]
+  );
+  await recordAudit(connection, req, {
+    entity: 'issue', entityId: issueId, action: status,
+    before: issueBefore, after: await snapshot(connection, 'issue', issueId)
+  });
+
+  const charges = [];
+  const settings = await getLossSettings(connection);
+  const chargeFor = async (chargeType, defaultAmount, chargeNote) => {
+    const charge = await chargeFine(connection, req, {
+      userId: issue.user_id, issueId, chargeType,
+      amount: amount ?? defaultAmount,
+      note: note ? `${chargeNote}: ${note}` : chargeNote
+    });
+    if (charge) {
+      charges.push(charge);
+    }
+  };
+
+  let reversal = null;
+  if (status === 'lost') {
+    await chargeFor('replacement', settings.replacementCharge, 'Replacement charge for a lost book');
+  } else if (status === 'damaged') {
+    const fine = await assessLateFine(connection, req, issueId);
+    if (fine) {
+      charges.push(fine);
+    }
+    await chargeFor('damage', settings.damageCharge, 'Damage charge');
+  } else if (status === 'written_off') {
+    reversal = await reverseCharges(connection, req, issueId, 'replacement', 'Replacement charge reversed - book written off');
+  }
+
+  for (const entry of [...charges, reversal].filter(Boolean)) {
+    await recordAudit(connection, req, {
+      entity: 'fine', entityId: entry.id, action: entry === reversal ? 'waiver' : 'charge',
+      after: await snapshot(connection, 'fine', entry.id)
+    });
+  }
+
+  // A claimed return leaves the copy out on the loan until it's found
+  const copyStatus = { lost: 'lost', damaged: 'in_repair', written_off: 'withdrawn' }[status];
+  if (issue.copy_id && copyStatus) {
+    const bookBefore = await snapshot(connection, 'book', issue.book_id);
+    const copyBefore = await snapshot(connection, 'copy', issue.copy_id);
+    await settleLoanedCopy(connection, issue.copy_id, copyStatus, status === 'damaged' ? 'damaged' : null);
+    await syncCopyCounts(connection, issue.book_id);
+    await recordAudit(connection, req, {
+      entity: 'copy', entityId: issue.copy_id, action: status,
+      before: copyBefore, after: await snapshot(connection, 'copy', issue.copy_id)
+    });
+    await recordAudit(connection, req, {
+      entity: 'book', entityId: issue.book_id, action: status,
+      before: bookBefore, after: await snapshot(connection, 'book', issue.book_id)
+    });
+  }
+
+  return { charges, reversal };
+}
@@ -0,0 +1,77 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { fakeDb } from '../testing/fakeDb.js';
+import { assertLoanTransition, changeLoanStatus } from './losses.js';
+
+const STAFF = { staff: { id: '2', name: 'Desk' } };
+
+test('a loan only moves to the statuses that can follow its own', () => {
+  assert.doesNotThrow(() => assertLoanTransition('issued', 'lost'));
+  assert.doesNotThrow(() => assertLoanTransition('written_off', 'returned'));
+  assert.throws(() => assertLoanTransition('damaged', 'lost'), {
+    code: 'INVALID_TRANSITION', status: 409, message: 'A loan that is returned damaged can\'t be marked lost'
+  });
+  assert.throws(() => assertLoanTransition('returned', 'lost'), { code: 'ALREADY_RETURNED' });
+});
+
+/**
+ * Loan 8 of copy 12 to user 5, due 2026-03-12, with the loss settings and
+ * the replacement still charged on it
+ */
+function loanDb(status, { settings = [], replacementOwed = '0' } = {}) {
+  return fakeDb([
+    [/FROM books_circulation WHERE id = \? FOR UPDATE/, [{ id: 8, book_id: 3, copy_id: 12, user_id: 5, status }]],
+    [/FROM library_settings/, settings],
+    [/AND return_date IS NOT NULL/, [{ id: 8, book_id: 3, user_id: 5, due_date: '2026-03-12', return_date: '2026-03-14' }]],
+    [/FROM fine_rules/, [{ grace_days: 0, daily_rate: '0.50', max_amount: null }]],
+    [/SELECT MIN\(user_id\)/, [{ user_id: 5, outstanding: replacementOwed }]]
+  ]);
+}
+
+const charged = (db) => db.queriesMatching(/INSERT INTO fine_ledger/).map(({ params }) => params.slice(2, 5));
+const copyUpdate = (db) => db.queriesMatching(/UPDATE book_copies SET status = \?/)[0]?.params;
+
+test('a lost book is charged the replacement charge and its copy is marked lost', async () => {
+  const db = loanDb('issued', { settings: [{ setting_key: 'losses.replacement_charge', setting_value: '25' }] });
+  const { charges, reversal } = await changeLoanStatus(db, STAFF, 8, { status: 'lost' });
+  assert.deepEqual(charges.map(charge => charge.amount), [25]);
+  assert.equal(reversal, null);
+  assert.deepEqual(charged(db), [['replacement', 25, 'Replacement charge for a lost book']]);
+  assert.deepEqual(copyUpdate(db), ['lost', null, 12]);
+});
+
+test('staff can charge their own amount, and the note is kept with it', async () => {
+  const db = loanDb('claimed_returned');
+  await changeLoanStatus(db, STAFF, 8, { status: 'lost', amount: 12.5, note: 'Left on a bus' });
+  assert.deepEqual(charged(db), [['replacement', 12.5, 'Replacement charge for a lost book: Left on a bus']]);
+  assert.deepEqual(db.queriesMatching(/UPDATE books_circulation/)[0].params, ['lost', 'Left on a bus', 'lost', 8]);
+});
+
+test('a damaged book is fined for lateness and charged for the damage, and goes in for repair', async () => {
+  const db = loanDb('issued', { settings: [{ setting_key: 'losses.damage_charge', setting_value: '8' }] });
+  const { charges } = await changeLoanStatus(db, STAFF, 8, { status: 'damaged' });
+  assert.deepEqual(charges.map(({ chargeType, amount }) => [chargeType, amount]), [['late', 1], ['damage', 8]]);
+  assert.deepEqual(copyUpdate(db), ['in_repair', 'damaged', 12]);
+});
+
+test('a claimed return leaves the copy out on the loan and charges nothing', async () => {
+  const db = loanDb('issued');
+  assert.deepEqual(await changeLoanStatus(db, STAFF, 8, { status: 'claimed_returned' }), { charges: [], reversal: null });
+  assert.equal(copyUpdate(db), undefined);
+  assert.deepEqual(charged(db), []);
+});
+
+test('writing off a lost book reverses its replacement charge and withdraws the copy', async () => {
+  const db = loanDb('lost', { replacementOwed: '25.00' });
+  const { reversal } = await changeLoanStatus(db, STAFF, 8, { status: 'written_off' });
+  assert.equal(reversal.amount, 25);
+  assert.deepEqual(copyUpdate(db), ['withdrawn', null, 12]);
+});
+
+test('a loan can\'t be marked returned or issued this way', async () => {
+  for (const status of ['returned', 'issued', 'missing']) {
+    await assert.rejects(changeLoanStatus(loanDb('issued'), STAFF, 8, { status }), {
+      code: 'INVALID_STATUS', message: 'Status must be one of: lost, damaged, claimed_returned, written_off'
+    });
+  }
+});
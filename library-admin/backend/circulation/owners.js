@@ -0,0 +1,416 @@
+import { getSettings, saveSettings } from './settings.js';
+import { CirculationError } from './errors.js';
+import { syncCopyCounts } from './copies.js';
+import { assignReturnedCopy } from './holds.js';
+import { recordAudit, snapshot } from '../audit/index.js';
+
+/**
+ * Books patrons lent or gave the library (books.owner_id)
+ *
+ * A lent book still belongs to its owner, who can follow its copies from the
+ * patron portal and take them back. A donated book belongs to the library;
+ * the donor is kept for their receipts.
+ *
+ * Reclaim lifecycle (copy_reclaims): open -> completed, or cancelled. While a
+ * reclaim is open the copy is neither lent nor set aside for a hold, and its
+ * borrower, if it's out, is asked to bring it back (see
+ * notifications/reclaims.js). Once the copy is in the library, staff hand it
+ * to the owner and the copy is withdrawn, keeping its loan history.
+ */
+
+export const OWNERSHIP_TYPES = ['lent', 'donated'];
+export const RECLAIM_STATUSES = ['open', 'completed', 'cancelled'];
+
+// What owners see of whoever has their book: nothing, the borrower's name,
+// or their name, email and phone. Stored as the index in this list.
+export const BORROWER_VISIBILITY = ['none', 'name', 'contact'];
+
+const VISIBILITY_KEY = 'owners.borrower_visibility';
+
+// Copies the library still holds, and so can be reclaimed
+const HELD_STATUSES = ['available', 'on_loan', 'in_repair', 'in_transit'];
+
+/**
+ * @param {object} db - Pool or transaction connection
+ * @returns {Promise<{ borrowerVisibility: 'none'|'name'|'contact' }>}
+ */
+export async function getOwnerSettings(db) {
+  const settings = await getSettings(db, [VISIBILITY_KEY]);
+  return { borrowerVisibility: BORROWER_VISIBILITY[settings[VISIBILITY_KEY]] || 'none' };
+}
+
+/**
+ * @param {object} db - Pool or transaction connection
+ * @param {{ borrowerVisibility: 'none'|'name'|'contact' }} values
+ */
+export async function saveOwnerSettings(db, { borrowerVisibility }) {
+  await saveSettings(db, { [VISIBILITY_KEY]: BORROWER_VISIBILITY.indexOf(borrowerVisibility) });
+}
+
+/**
+ * Every patron who has lent or given books, with how much their books are used
+ * @param {object} db - Pool or transaction connection
+ * @returns {Promise<object[]>} By name
+ */
+export async function getOwnerSummaries(db) {
+  const [rows] = await db.query(`
+    SELECT u.id, u.name, u.email, u.phone,
+           SUM(b.ownership = 'lent') AS lentBooks,
+           SUM(b.ownership = 'donated') AS donatedBooks,
+           COALESCE(SUM(l.loans), 0) AS loans,
+           COALESCE(SUM(o.copies_out), 0) AS copiesOut,
+           (SELECT COUNT(*) FROM copy_reclaims r WHERE r.owner_id = u.id AND r.status = 'open') AS openReclaims
+    FROM books b
+    JOIN users u ON b.owner_id = u.id
+    LEFT JOIN (SELECT book_id, COUNT(*) AS loans FROM books_circulation GROUP BY book_id) l ON l.book_id = b.id
+    LEFT JOIN (
+      SELECT book_id, COUNT(*) AS copies_out FROM book_copies WHERE status = 'on_loan' GROUP BY book_id
+    ) o ON o.book_id = b.id
+    GROUP BY u.id, u.name, u.email, u.phone
+    ORDER BY u.name
+  `);
+  return rows.map(row => ({
+    id: String(row.id),
+    name: row.name,
+    email: row.email,
+    phone: row.phone,
+    lentBooks: Number(row.lentBooks),
+    donatedBooks: Number(row.donatedBooks),
+    loans: Number(row.loans),
+    copiesOut: Number(row.copiesOut),
+    openReclaims: Number(row.openReclaims)
+  }));
+}
+
+/**
+ * An owner's books, each with its loan counts and where every copy is
+ * Who has a copy out is shown as far as borrowerVisibility allows; staff get
+ * everything.
+ * @param {object} db - Pool or transaction connection
+ * @param {string|number} ownerId
+ * @param {{ borrowerVisibility?: 'none'|'name'|'contact' }} [options]
+ * @returns {Promise<object[]>} By title
+ */
+export async function getOwnedBooks(db, ownerId, { borrowerVisibility = 'contact' } = {}) {
+  const [books] = await db.query(`
+    SELECT b.id, b.title, b.isbn, b.ownership, b.donated_at,
+           COUNT(bc.id) AS loans,
+           SUM(bc.issue_date >= DATE_SUB(CURDATE(), INTERVAL 1 YEAR)) AS recent_loans,
+           MAX(bc.issue_date) AS last_issued
+    FROM books b
+    LEFT JOIN books_circulation bc ON bc.book_id = b.id
+    WHERE b.owner_id = ?
+    GROUP BY b.id, b.title, b.isbn, b.ownership, b.donated_at
+    ORDER BY b.title
+  `, [ownerId]);
+  if (books.length === 0) {
+    return [];
+  }
+
+  // Withdrawn copies are only listed when they went back to this owner
+  const [copies] = await db.query(`
+    SELECT c.id, c.book_id, c.barcode, c.status, br.name AS branch_name,
+           r.id AS reclaim_id, r.status AS reclaim_status, r.created_at AS reclaimed_at,
+           r.borrower_notified_at, r.closed_at AS handed_back_at,
+           bc.due_date, u.name AS borrower_name, u.email AS borrower_email, u.phone AS borrower_phone,
+           bc.due_date < CURDATE() AS overdue
+    FROM book_copies c
+    JOIN branches br ON c.current_branch_id = br.id
+    LEFT JOIN copy_reclaims r ON r.id = (
+      SELECT MAX(id) FROM copy_reclaims WHERE copy_id = c.id AND status IN ('open', 'completed')
+    )
+    LEFT JOIN books_circulation bc ON bc.copy_id = c.id AND bc.status = 'issued'
+    LEFT JOIN users u ON bc.user_id = u.id
+    WHERE c.book_id IN (?) AND (c.status <> 'withdrawn' OR r.status = 'completed')
+    ORDER BY c.id
+  `, [books.map(book => book.id)]);
+
+  const toBorrower = (copy) => {
+    if (!copy.borrower_name || borrowerVisibility === 'none') {
+      return null;
+    }
+    return borrowerVisibility === 'contact'
+      ? { name: copy.borrower_name, email: copy.borrower_email, phone: copy.borrower_phone }
+      : { name: copy.borrower_name, email: null, phone: null };
+  };
+
+  return books.map(book => ({
+    id: String(book.id),
+    title: book.title,
+    isbn: book.isbn,
+    ownership: book.ownership,
+    donatedAt: book.donated_at?.toISOString().split('T')[0] || null,
+    loans: Number(book.loans),
+    loansLastYear: Number(book.recent_loans || 0),
+    lastIssuedAt: book.last_issued?.toISOString().split('T')[0] || null,
+    copies: copies.filter(copy => String(copy.book_id) === String(book.id)).map(copy => ({
+      id: String(copy.id),
+      barcode: copy.barcode,
+      status: copy.status,
+      branchName: copy.branch_name,
+      dueDate: copy.due_date?.toISOString().split('T')[0] || null,
+      overdue: Boolean(copy.overdue),
+      borrower: toBorrower(copy),
+      reclaim: copy.reclaim_id ? {
+        id: String(copy.reclaim_id),
+        status: copy.reclaim_status,
+        requestedAt: copy.reclaimed_at?.toISOString(),
+        borrowerNotifiedAt: copy.borrower_notified_at?.toISOString() || null,
+        handedBackAt: copy.handed_back_at?.toISOString() || null
+      } : null
+    }))
+  }));
+}
+
+/**
+ * The books a donor gave, for their donation receipt
+ * @param {object} db - Pool or transaction connection
+ * @param {string|number} ownerId
+ * @param {{ from?: string|null, to?: string|null }} [period] - Inclusive YYYY-MM-DD dates
+ * @returns {Promise<object[]>} By date donated
+ */
+export async function getDonations(db, ownerId, { from = null, to = null } = {}) {
+  const [rows] = await db.query(`
+    SELECT b.id, b.title, b.isbn, b.donated_at,
+           (SELECT GROUP_CONCAT(w.name ORDER BY w.name SEPARATOR ', ')
+            FROM book_writers bw JOIN writers w ON bw.writer_id = w.id
+            WHERE bw.book_id = b.id) AS authors,
+           (SELECT COUNT(*) FROM book_copies c WHERE c.book_id = b.id) AS copies
+    FROM books b
+    WHERE b.owner_id = ? AND b.ownership = 'donated'
+      AND (? IS NULL OR b.donated_at >= ?) AND (? IS NULL OR b.donated_at <= ?)
+    ORDER BY b.donated_at, b.title
+  `, [ownerId, from, from, to, to]);
+  return rows.map(row => ({
+    bookId: String(row.id),
+    title: row.title,
+    isbn: row.isbn,
+    authors: row.authors,
+    copies: Number(row.copies),
+    donatedAt: row.donated_at?.toISOString().split('T')[0] || null
+  }));
+}
+
+/**
+ * Start taking a lent copy back for its owner
+ * A copy on the hold shelf goes back to the line's front, and on to another
+ * copy if one is on the shelf.
+ * @param {object} connection - Transaction connection
+ * @param {object} req - Express request (staff member, or the owner in the portal)
+ * @param {string|number} copyId
+ * @param {{ reason?: string|null }} [options]
+ * @returns {Promise<number>} The reclaim id
+ * @throws {CirculationError} When the copy isn't a lent one the library still holds, or is already being reclaimed
+ */
+export async function openReclaim(connection, req, copyId, { reason = null } = {}) {
+  const [found] = await connection.query('SELECT book_id FROM book_copies WHERE id = ?', [copyId]);
+  if (found.length === 0) {
+    throw new CirculationError('Copy not found', 'NOT_FOUND', 404);
+  }
+  // Same lock order as issuing (title, then copy)
+  const [[book]] = await connection.query(
+    'SELECT id, owner_id, ownership FROM books WHERE id = ? FOR UPDATE',
+    [found[0].book_id]
+  );
+  const [[copy]] = await connection.query('SELECT * FROM book_copies WHERE id = ? FOR UPDATE', [copyId]);
+  if (!book.owner_id) {
+    throw new CirculationError('This book has no owner to hand it back to', 'NOT_LENT');
+  }
+  if (book.ownership !== 'lent') {
+    throw new CirculationError('This book was donated - it belongs to the library now', 'DONATED');
+  }
+  if (!HELD_STATUSES.includes(copy.status)) {
+    throw new CirculationError(`Copy ${copy.barcode} is ${copy.status.replace('_', ' ')}`, 'COPY_NOT_HELD');
+  }
+  const [open] = await connection.query(
+    `SELECT id FROM copy_reclaims WHERE copy_id = ? AND status = 'open'`,
+    [copyId]
+  );
+  if (open.length > 0) {
+    throw new CirculationError(`Copy ${copy.barcode} is already being handed back`, 'ALREADY_RECLAIMED', 409);
+  }
+
+  const bookBefore = await snapshot(connection, 'book', book.id);
+  const [result] = await connection.query(
+    `INSERT INTO copy_reclaims (copy_id, owner_id, reason, requested_by, requested_by_owner)
+     VALUES (?, ?, ?, ?, ?)`,
+    [copyId, book.owner_id, reason, req.staff?.id || null, req.patron ? 1 : 0]
+  );
+  await recordAudit(connection, req, {
+    entity: 'reclaim', entityId: result.insertId, action: 'create',
+    after: await snapshot(connection, 'reclaim', result.insertId)
+  });
+
+  const [ready] = await connection.query(
+    `SELECT id FROM holds WHERE copy_id = ? AND status = 'ready' FOR UPDATE`,
+    [copyId]
+  );
+  if (ready.length > 0) {
+    const holdBefore = await snapshot(connection, 'hold', ready[0].id);
+    await connection.query(
+      `UPDATE holds SET status = 'waiting', copy_id = NULL, ready_at = NULL, expires_at = NULL WHERE id = ?`,
+      [ready[0].id]
+    );
+    await recordAudit(connection, req, {
+      entity: 'hold', entityId: ready[0].id, action: 'update',
+      before: holdBefore, after: await snapshot(connection, 'hold', ready[0].id)
+    });
+    const [[spare]] = await connection.query(
+      `SELECT c.id, c.book_id FROM book_copies c
+       WHERE c.book_id = ? AND c.status = 'available'
+         AND NOT EXISTS (SELECT 1 FROM holds h WHERE h.copy_id = c.id AND h.status = 'ready')
+         AND NOT EXISTS (SELECT 1 FROM copy_reclaims r WHERE r.copy_id = c.id AND r.status = 'open')
+       ORDER BY c.id LIMIT 1 FOR UPDATE`,
+      [book.id]
+    );
+    const hold = spare ? await assignReturnedCopy(connection, spare) : null;
+    if (hold) {
+      await recordAudit(connection, req, {
+        entity: 'hold', entityId: hold.id, action: 'ready',
+        after: await snapshot(connection, 'hold', hold.id)
+      });
+    }
+  }
+
+  await syncCopyCounts(connection, book.id);
+  await recordAudit(connection, req, {
+    entity: 'book', entityId: book.id, action: 'reclaim',
+    before: bookBefore, after: await snapshot(connection, 'book', book.id)
+  });
+  return result.insertId;
+}
+
+/**
+ * Take back every copy of a lent book the library still holds (the owner's
+ * request from the portal)
+ * @param {object} connection - Transaction connection
+ * @param {object} req - Express request
+ * @param {string|number} bookId
+ * @param {string|number} ownerId - Only their own books can be reclaimed
+ * @param {{ reason?: string|null }} [options]
+ * @returns {Promise<number[]>} The new reclaim ids
+ * @throws {CirculationError} When it isn't their book, or nothing is left to reclaim
+ */
+export async function reclaimBook(connection, req, bookId, ownerId, { reason = null } = {}) {
+  const [books] = await connection.query('SELECT id FROM books WHERE id = ? AND owner_id = ?', [bookId, ownerId]);
+  if (books.length === 0) {
+    throw new CirculationError('Book not found', 'NOT_FOUND', 404);
+  }
+  const [copies] = await connection.query(
+    `SELECT c.id FROM book_copies c
+     WHERE c.book_id = ? AND c.status IN (?)
+       AND NOT EXISTS (SELECT 1 FROM copy_reclaims r WHERE r.copy_id = c.id AND r.status = 'open')
+     ORDER BY c.id`,
+    [bookId, HELD_STATUSES]
+  );
+  if (copies.length === 0) {
+    throw new CirculationError('There are no copies of this book left to hand back', 'NOTHING_TO_RECLAIM');
+  }
+  const ids = [];
+  for (const copy of copies) {
+    ids.push(await openReclaim(connection, req, copy.id, { reason }));
+  }
+  return ids;
+}
+
+/**
+ * Lock an open reclaim with its copy
+ * @returns {Promise<object>} The reclaim row, with book_id and copy_status
+ */
+const lockOpenReclaim = async (connection, reclaimId, ownerId = null) => {
+  const [found] = await connection.query(
+    `SELECT r.id, c.book_id FROM copy_reclaims r JOIN book_copies c ON r.copy_id = c.id
+     WHERE r.id = ? AND (? IS NULL OR r.owner_id = ?)`,
+    [reclaimId, ownerId, ownerId]
+  );
+  if (found.length === 0) {
+    throw new CirculationError('Reclaim not found', 'NOT_FOUND', 404);
+  }
+  await connection.query('SELECT id FROM books WHERE id = ? FOR UPDATE', [found[0].book_id]);
+  const [[reclaim]] = await connection.query(
+    `SELECT r.*, c.book_id, c.barcode, c.status AS copy_status
+     FROM copy_reclaims r JOIN book_copies c ON r.copy_id = c.id
+     WHERE r.id = ? FOR UPDATE`,
+    [reclaimId]
+  );
+  if (reclaim.status !== 'open') {
+    throw new CirculationError(`This reclaim is already ${reclaim.status}`, 'RECLAIM_CLOSED', 409);
+  }
+  return reclaim;
+};
+
+/**
+ * Hand a reclaimed copy to its owner; the copy is withdrawn
+ * @param {object} connection - Transaction connection
+ * @param {object} req - Express request (staff member handing it over)
+ * @param {string|number} reclaimId
+ * @throws {CirculationError} When the reclaim isn't open or the copy isn't back in the library
+ */
+export async function completeReclaim(connection, req, reclaimId) {
+  const reclaim = await lockOpenReclaim(connection, reclaimId);
+  if (reclaim.copy_status === 'on_loan') {
+    throw new CirculationError(`Copy ${reclaim.barcode} is still on loan - it can be handed back once it's returned`, 'COPY_ON_LOAN');
+  }
+  if (reclaim.copy_status === 'in_transit') {
+    throw new CirculationError(`Copy ${reclaim.barcode} is on its way to another branch - receive it there first`, 'COPY_IN_TRANSIT');
+  }
+
+  const before = await snapshot(connection, 'reclaim', reclaimId);
+  const copyBefore = await snapshot(connection, 'copy', reclaim.copy_id);
+  const bookBefore = await snapshot(connection, 'book', reclaim.book_id);
+  await connection.query(`UPDATE book_copies SET status = 'withdrawn' WHERE id = ?`, [reclaim.copy_id]);
+  await connection.query(
+    `UPDATE copy_reclaims SET status = 'completed', closed_by = ?, closed_at = NOW() WHERE id = ?`,
+    [req.staff?.id || null, reclaimId]
+  );
+  await syncCopyCounts(connection, reclaim.book_id);
+
+  await recordAudit(connection, req, {
+    entity: 'copy', entityId: reclaim.copy_id, action: 'reclaim',
+    before: copyBefore, after: await snapshot(connection, 'copy', reclaim.copy_id)
+  });
+  await recordAudit(connection, req, {
+    entity: 'book', entityId: reclaim.book_id, action: 'reclaim',
+    before: bookBefore, after: await snapshot(connection, 'book', reclaim.book_id)
+  });
+  await recordAudit(connection, req, {
+    entity: 'reclaim', entityId: reclaimId, action: 'complete',
+    before, after: await snapshot(connection, 'reclaim', reclaimId)
+  });
+}
+
+/**
+ * Call off a reclaim; the copy goes back into circulation, to the next hold
+ * in line if it's on the shelf
+ * @param {object} connection - Transaction connection
+ * @param {object} req - Express request (staff member, or the owner in the portal)
+ * @param {string|number} reclaimId
+ * @param {string|number|null} [ownerId] - When given, only that owner's reclaims
+ * @returns {Promise<object|null>} The ready hold the copy went to, if any
+ * @throws {CirculationError} When the reclaim isn't open
+ */
+export async function cancelReclaim(connection, req, reclaimId, ownerId = null) {
+  const reclaim = await lockOpenReclaim(connection, reclaimId, ownerId);
+  const before = await snapshot(connection, 'reclaim', reclaimId);
+  await connection.query(
+    `UPDATE copy_reclaims SET status = 'cancelled', closed_by = ?, closed_at = NOW() WHERE id = ?`,
+    [req.staff?.id || null, reclaimId]
+  );
+  await recordAudit(connection, req, {
+    entity: 'reclaim', entityId: reclaimId, action: 'cancel',
+    before, after: await snapshot(connection, 'reclaim', reclaimId)
+  });
+
+  if (reclaim.copy_status !== 'available') {
+    await syncCopyCounts(connection, reclaim.book_id);
+    return null;
+  }
+  const hold = await assignReturnedCopy(connection, { id: reclaim.copy_id, book_id: reclaim.book_id });
+  if (hold) {
+    await recordAudit(connection, req, {
+      entity: 'hold', entityId: hold.id, action: 'ready',
+      after: await snapshot(connection, 'hold', hold.id)
+    });
+  }
+  return hold;
+}
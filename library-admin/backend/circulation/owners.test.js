@@ -0,0 +1,89 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { fakeDb } from '../testing/fakeDb.js';
+import { getOwnerSettings, getOwnedBooks, openReclaim, completeReclaim } from './owners.js';
+
+const OWNER = { patron: { id: '5', name: 'Ada' } };
+const STAFF = { staff: { id: '2', name: 'Desk' } };
+
+test('borrower visibility is stored by its place in the list, and defaults to the name', async () => {
+  const stored = (value) => fakeDb([[/FROM library_settings/, value === null ? [] : [{ setting_key: 'owners.borrower_visibility', setting_value: value }]]]);
+  assert.deepEqual(await getOwnerSettings(stored('2')), { borrowerVisibility: 'contact' });
+  assert.deepEqual(await getOwnerSettings(stored(null)), { borrowerVisibility: 'name' });
+  assert.deepEqual(await getOwnerSettings(stored('0')), { borrowerVisibility: 'none' });
+});
+
+test('an owner sees as much of a borrower as the library allows', async () => {
+  const db = () => fakeDb([
+    [/FROM books b\s+LEFT JOIN books_circulation/, [{ id: 3, title: 'Dune', ownership: 'lent', loans: 4, recent_loans: 1 }]],
+    [/FROM book_copies c/, [{
+      id: 12, book_id: 3, barcode: 'B-012', status: 'on_loan', branch_name: 'Central', due_date: new Date('2026-03-12T00:00:00Z'),
+      overdue: 0, borrower_name: 'Ravi', borrower_email: 'ravi@example.com', borrower_phone: '555-0101'
+    }]]
+  ]);
+  const borrower = async (borrowerVisibility) => (await getOwnedBooks(db(), 5, { borrowerVisibility }))[0].copies[0].borrower;
+  assert.equal(await borrower('none'), null);
+  assert.deepEqual(await borrower('name'), { name: 'Ravi', email: null, phone: null });
+  assert.deepEqual(await borrower('contact'), { name: 'Ravi', email: 'ravi@example.com', phone: '555-0101' });
+  assert.deepEqual(await getOwnedBooks(fakeDb(), 5), []);
+});
+
+/**
+ * Copy 12 of book 3, lent by patron 5, with whatever holds and reclaims it has
+ */
+function copyDb({ book = {}, copy = {}, open = [], ready = [], spare = null } = {}) {
+  return fakeDb([
+    [/SELECT book_id FROM book_copies WHERE id = \?/, [{ book_id: 3 }]],
+    [/FROM books WHERE id = \? FOR UPDATE/, [{ id: 3, owner_id: 5, ownership: 'lent', ...book }]],
+    [/FROM book_copies WHERE id = \? FOR UPDATE/, [{ id: 12, barcode: 'B-012', status: 'available', ...copy }]],
+    [/FROM copy_reclaims WHERE copy_id = \? AND status = 'open'/, open],
+    [/INSERT INTO copy_reclaims/, { insertId: 50 }],
+    [/FROM holds WHERE copy_id = \? AND status = 'ready'/, ready],
+    [/SELECT c.id, c.book_id FROM book_copies c/, spare ? [spare] : []]
+  ]);
+}
+
+test('a lent copy the library holds can be taken back by its owner', async () => {
+  const db = copyDb();
+  assert.equal(await openReclaim(db, OWNER, 12, { reason: 'Moving away' }), 50);
+  assert.deepEqual(db.queriesMatching(/INSERT INTO copy_reclaims/)[0].params, [12, 5, 'Moving away', null, 1]);
+});
+
+test('only a lent copy still in the library, not already on its way back, can be reclaimed', async () => {
+  await assert.rejects(openReclaim(copyDb({ book: { ownership: 'donated' } }), OWNER, 12), { code: 'DONATED' });
+  await assert.rejects(openReclaim(copyDb({ book: { owner_id: null } }), OWNER, 12), { code: 'NOT_LENT' });
+  await assert.rejects(openReclaim(copyDb({ copy: { status: 'lost' } }), OWNER, 12), {
+    code: 'COPY_NOT_HELD', message: 'Copy B-012 is lost'
+  });
+  await assert.rejects(openReclaim(copyDb({ open: [{ id: 49 }] }), OWNER, 12), { code: 'ALREADY_RECLAIMED', status: 409 });
+  await assert.rejects(openReclaim(fakeDb(), OWNER, 12), { code: 'NOT_FOUND', status: 404 });
+});
+
+test('a reclaimed copy on the hold shelf sends its hold back to the front of the line', async () => {
+  const db = copyDb({ ready: [{ id: 41 }] });
+  await openReclaim(db, STAFF, 12);
+  assert.deepEqual(db.queriesMatching(/UPDATE holds SET status = 'waiting'/)[0].params, [41]);
+  // No other copy on the shelf, so the hold waits
+  assert.equal(db.queriesMatching(/UPDATE holds SET status = 'ready'/).length, 0);
+});
+
+/**
+ * Reclaim 50 of copy 12, open, with the copy in the given status
+ */
+const reclaimDb = (copyStatus, status = 'open') => fakeDb([
+  [/SELECT r.id, c.book_id FROM copy_reclaims r/, [{ id: 50, book_id: 3 }]],
+  [/SELECT r.\*, c.book_id/, [{ id: 50, copy_id: 12, book_id: 3, barcode: 'B-012', status, copy_status: copyStatus }]]
+]);
+
+test('a reclaimed copy is handed over once it\'s back, and withdrawn', async () => {
+  const db = reclaimDb('available');
+  await completeReclaim(db, STAFF, 50);
+  assert.deepEqual(db.queriesMatching(/UPDATE book_copies SET status = 'withdrawn'/)[0].params, [12]);
+  assert.deepEqual(db.queriesMatching(/UPDATE copy_reclaims SET status = 'completed'/)[0].params, ['2', 50]);
+
+  await assert.rejects(completeReclaim(reclaimDb('on_loan'), STAFF, 50), { code: 'COPY_ON_LOAN' });
+  await assert.rejects(completeReclaim(reclaimDb('in_transit'), STAFF, 50), { code: 'COPY_IN_TRANSIT' });
+  await assert.rejects(completeReclaim(reclaimDb('available', 'cancelled'), STAFF, 50), {
+    code: 'RECLAIM_CLOSED', message: 'This reclaim is already cancelled'
+  });
+});
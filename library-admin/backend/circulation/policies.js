@@ -0,0 +1,118 @@
+import { checkFineBlock } from './fines.js';
+import { nextOpenDay } from './calendar.js';
+
+/**
+ * Borrowing policies: who may borrow what, for how long
+ *
+ * Policies live in loan_policies, each scoped by any mix of patron type,
+ * category and book type (NULL = any). Every field of a policy is optional:
+ * for each one, the most specific matching policy that sets it wins, with a
+ * book_type match beating a category match beating a patron type match, and
+ * POLICY_DEFAULTS filling anything no policy sets. So a "Reference: doesn't
+ * circulate" policy and a "junior: 3 loans at a time" policy combine.
+ */
+
+export const PATRON_TYPES = ['adult', 'student', 'junior', 'senior'];
+
+// maxLoans null = no limit; maxRenewals null = the library-wide renewal setting
+export const POLICY_DEFAULTS = {
+  loanDays: 14,
+  maxLoans: null,
+  maxRenewals: null,
+  circulates: true,
+};
+
+const POLICY_COLUMNS = {
+  loanDays: 'loan_days',
+  maxLoans: 'max_loans',
+  maxRenewals: 'max_renewals',
+  circulates: 'circulates',
+};
+
+/**
+ * Work out the policy that applies to a user borrowing a book
+ * @param {object} db - Pool or transaction connection
+ * @param {{ userId: string|number, bookId: string|number }} loan
+ * @returns {Promise<{ loanDays: number, maxLoans: number|null, maxRenewals: number|null, circulates: boolean }>}
+ */
+export async function resolveLoanPolicy(db, { userId, bookId }) {
+  const [policies] = await db.query(`
+    SELECT lp.* FROM loan_policies lp
+    WHERE (lp.patron_type IS NULL OR lp.patron_type = (SELECT patron_type FROM users WHERE id = ?))
+      AND (lp.book_type IS NULL OR lp.book_type = (SELECT book_type FROM books WHERE id = ?))
+      AND (lp.category_id IS NULL OR lp.category_id IN (SELECT category_id FROM book_categories WHERE book_id = ?))
+    ORDER BY lp.book_type IS NOT NULL DESC, lp.category_id IS NOT NULL DESC, lp.patron_type IS NOT NULL DESC, lp.id
+  `, [userId, bookId, bookId]);
+
+  return Object.fromEntries(Object.entries(POLICY_COLUMNS).map(([name, column]) => {
+    const policy = policies.find(row => row[column] !== null);
+    if (!policy) {
+      return [name, POLICY_DEFAULTS[name]];
+    }
+    return [name, name === 'circulates' ? Boolean(policy[column]) : policy[column]];
+  }));
+}
+
+/**
+ * Check whether a user may borrow a book under the borrowing policies
+ * Copy availability is checked separately when a copy is taken off the shelf.
+ * @param {object} db - Pool or transaction connection
+ * @param {{ userId: string|number, bookId: string|number }} loan
+ * @returns {Promise<{ policy: object, issueDate: string|null, dueDate: string|null, errors: { code: string, message: string }[] }>}
+ *   Dates are YYYY-MM-DD for a loan starting today; the due date is rolled
+ *   forward to the next open day
+ */
+export async function checkLoanPolicy(db, { userId, bookId }) {
+  const [[user]] = await db.query('SELECT id, name FROM users WHERE id = ?', [userId]);
+  const [[book]] = await db.query('SELECT id FROM books WHERE id = ?', [bookId]);
+  if (!user || !book) {
+    return {
+      policy: null,
+      issueDate: null,
+      dueDate: null,
+      errors: [{ code: 'NOT_FOUND', message: user ? 'Book not found' : 'User not found' }]
+    };
+  }
+
+  const policy = await resolveLoanPolicy(db, { userId, bookId });
+  const errors = [];
+
+  if (!policy.circulates) {
+    errors.push({ code: 'NOT_CIRCULATING', message: 'This book is for use in the library only and cannot be borrowed' });
+  }
+
+  if (policy.maxLoans !== null) {
+    const [[{ onLoan }]] = await db.query(
+      `SELECT COUNT(*) AS onLoan FROM books_circulation WHERE user_id = ? AND status = 'issued'`,
+      [userId]
+    );
+    if (onLoan >= policy.maxLoans) {
+      errors.push({
+        code: 'LOAN_LIMIT',
+        message: `${user.name} already has ${onLoan} book(s) on loan, the most allowed for this book`,
+        onLoan,
+        maxLoans: policy.maxLoans
+      });
+    }
+  }
+
+  // Users owing more than the configured threshold can't borrow
+  const fineBlock = await checkFineBlock(db, userId);
+  if (fineBlock.blocked) {
+    errors.push({
+      code: 'FINES_BLOCK',
+      message: `User owes ${fineBlock.balance.toFixed(2)} in fines (limit ${fineBlock.threshold.toFixed(2)})`,
+      balance: fineBlock.balance,
+      threshold: fineBlock.threshold
+    });
+  }
+
+  // A loan never falls due on a day the library is closed
+  const [[{ issueDate, loanEnds }]] = await db.query(
+    `SELECT DATE_FORMAT(CURDATE(), '%Y-%m-%d') AS issueDate,
+            DATE_FORMAT(DATE_ADD(CURDATE(), INTERVAL ? DAY), '%Y-%m-%d') AS loanEnds`,
+    [policy.loanDays]
+  );
+  const dueDate = await nextOpenDay(db, loanEnds);
+  return { policy, issueDate, dueDate, errors };
+}
@@ -0,0 +1,67 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { fakeDb } from '../testing/fakeDb.js';
+import { POLICY_DEFAULTS, resolveLoanPolicy, checkLoanPolicy } from './policies.js';
+
+const policy = (fields) => ({ loan_days: null, max_loans: null, max_renewals: null, circulates: null, ...fields });
+
+test('each field comes from the most specific policy that sets it', async () => {
+  // Already in the order the query sorts them: book type, then category, then patron type
+  const db = fakeDb([[/FROM loan_policies/, [
+    policy({ book_type: 'reference', circulates: 0 }),
+    policy({ category_id: 4, loan_days: 7 }),
+    policy({ patron_type: 'junior', loan_days: 21, max_loans: 3 })
+  ]]]);
+  assert.deepEqual(await resolveLoanPolicy(db, { userId: 5, bookId: 3 }), {
+    loanDays: 7, maxLoans: 3, maxRenewals: null, circulates: false
+  });
+  assert.deepEqual(db.queries[0].params, [5, 3, 3]);
+});
+
+test('without a matching policy the defaults apply', async () => {
+  assert.deepEqual(await resolveLoanPolicy(fakeDb(), { userId: 5, bookId: 3 }), POLICY_DEFAULTS);
+});
+
+/**
+ * A user borrowing a book, with the policies that match, the loans they
+ * already have and what they owe
+ */
+function borrowerDb({ policies = [], onLoan = 0, balance = '0', threshold = null, closedDays = [] } = {}) {
+  return fakeDb([
+    // Before the users and books lookups, which its subqueries would match
+    [/FROM loan_policies/, policies],
+    [/FROM users WHERE id = \?/, [{ id: 5, name: 'Ada' }]],
+    [/FROM books WHERE id = \?/, [{ id: 3 }]],
+    [/COUNT\(\*\) AS onLoan/, [{ onLoan }]],
+    [/FROM library_settings/, threshold === null ? [] : [{ setting_key: 'fines.block_threshold', setting_value: threshold }]],
+    [/FROM fine_ledger/, [{ balance }]],
+    [/AS issueDate/, (params) => [{ issueDate: '2026-03-10', loanEnds: params[0] === 14 ? '2026-03-24' : '2026-03-17' }]],
+    [/FROM library_closures/, closedDays.map(day => ({ closed_on: day }))]
+  ]);
+}
+
+test('a loan is due after the policy\'s loan period, on the next open day', async () => {
+  const { errors, issueDate, dueDate } = await checkLoanPolicy(borrowerDb({ closedDays: ['2026-03-24'] }), { userId: 5, bookId: 3 });
+  assert.deepEqual(errors, []);
+  assert.equal(issueDate, '2026-03-10');
+  assert.equal(dueDate, '2026-03-25');
+});
+
+test('every reason a user can\'t borrow is reported together', async () => {
+  const db = borrowerDb({
+    policies: [policy({ circulates: 0, max_loans: 2 })],
+    onLoan: 2,
+    balance: '12.50',
+    threshold: '10'
+  });
+  const { errors } = await checkLoanPolicy(db, { userId: 5, bookId: 3 });
+  assert.deepEqual(errors.map(error => error.code), ['NOT_CIRCULATING', 'LOAN_LIMIT', 'FINES_BLOCK']);
+  assert.equal(errors[1].message, 'Ada already has 2 book(s) on loan, the most allowed for this book');
+  assert.equal(errors[2].message, 'User owes 12.50 in fines (limit 10.00)');
+});
+
+test('a user or book that doesn\'t exist is reported as not found', async () => {
+  const { policy: resolved, errors } = await checkLoanPolicy(fakeDb([[/FROM users WHERE id = \?/, [{ id: 5, name: 'Ada' }]]]), { userId: 5, bookId: 99 });
+  assert.equal(resolved, null);
+  assert.deepEqual(errors, [{ code: 'NOT_FOUND', message: 'Book not found' }]);
+});
@@ -0,0 +1,168 @@
+import { getSettings, saveSettings } from './settings.js';
+import { CirculationError } from './errors.js';
+import { resolveLoanPolicy } from './policies.js';
+import { chargeLateFine } from './fines.js';
+import { addDays, toDateString, countDaysLate, nextOpenDay } from './calendar.js';
+import { recordAudit, snapshot } from '../audit/index.js';
+
+/**
+ * Loan renewals: extend an active loan's due date without returning it
+ *
+ * A renewal is refused when the loan has used all the renewals its borrowing
+ * policy allows (or renewals.max_renewals if the policy doesn't say), is more
+ * than renewals.max_overdue_days overdue, or another patron is waiting for
+ * the title. A renewal adds the policy's loan period to the due date, which
+ * then rolls forward past closed days like a new loan's. Each renewal is
+ * kept in loan_renewals so the loan's full history survives.
+ *
+ * A loan renewed while overdue (but within the limit) is fined for the days
+ * it's late, as a return would be, and its new loan period starts today.
+ * Renewing doesn't forgive lateness: a return after the new due date is
+ * fined again, for the days past that one.
+ */
+
+const RENEWAL_SETTING_KEYS = {
+  maxRenewals: 'renewals.max_renewals',
+  maxOverdueDays: 'renewals.max_overdue_days',
+};
+
+/**
+ * @param {object} db - Pool or transaction connection
+ * @returns {Promise<{ maxRenewals: number, maxOverdueDays: number }>}
+ */
+export async function getRenewalSettings(db) {
+  const settings = await getSettings(db, Object.values(RENEWAL_SETTING_KEYS));
+  return Object.fromEntries(
+    Object.entries(RENEWAL_SETTING_KEYS).map(([name, key]) => [name, settings[key]])
+  );
+}
+
+/**
+ * @param {object} db - Pool or transaction connection
+ * @param {{ maxRenewals: number, maxOverdueDays: number }} values
+ */
+export async function saveRenewalSettings(db, values) {
+  await saveSettings(db, Object.fromEntries(
+    Object.entries(RENEWAL_SETTING_KEYS).map(([name, key]) => [key, values[name]])
+  ));
+}
+
+/**
+ * Why a loan can't be renewed right now, if anything stops it
+ * @param {object} db - Pool or transaction connection
+ * @param {object} issue - books_circulation row with a `today` column (YYYY-MM-DD)
+ * @returns {Promise<CirculationError|null>} The reason, or null when it can be renewed
+ */
+export async function checkRenewal(db, issue) {
+  if (issue.status !== 'issued') {
+    return new CirculationError('Only books currently on loan can be renewed', 'NOT_ON_LOAN');
+  }
+
+  const settings = await getRenewalSettings(db);
+  const { maxOverdueDays } = settings;
+  const policy = await resolveLoanPolicy(db, { userId: issue.user_id, bookId: issue.book_id });
+  const maxRenewals = policy.maxRenewals ?? settings.maxRenewals;
+  if (issue.renewal_count >= maxRenewals) {
+    return new CirculationError(
+      `This loan has already been renewed ${issue.renewal_count} time(s), the maximum allowed`,
+      'RENEWAL_LIMIT'
+    );
+  }
+  const daysOverdue = await countDaysLate(db, issue.due_date, issue.today);
+  if (daysOverdue > maxOverdueDays) {
+    return new CirculationError(
+      `This loan is ${daysOverdue} days overdue - it must be returned, not renewed`,
+      'TOO_OVERDUE'
+    );
+  }
+
+  const [[{ reclaimed }]] = await db.query(
+    `SELECT COUNT(*) AS reclaimed FROM copy_reclaims r
+     JOIN books_circulation bc ON bc.copy_id = r.copy_id
+     WHERE bc.id = ? AND r.status = 'open'`,
+    [issue.id]
+  );
+  if (reclaimed > 0) {
+    return new CirculationError(
+      'The owner of this book has asked for it back - it must be returned, not renewed',
+      'RECLAIMED'
+    );
+  }
+
+  const [[{ waiting }]] = await db.query(
+    `SELECT COUNT(*) AS waiting FROM holds WHERE book_id = ? AND user_id <> ? AND status = 'waiting'`,
+    [issue.book_id, issue.user_id]
+  );
+  if (waiting > 0) {
+    return new CirculationError(
+      `${waiting} other patron(s) are waiting for this title - it must be returned, not renewed`,
+      'ON_HOLD'
+    );
+  }
+  return null;
+}
+
+/**
+ * Renew a loan inside the caller's transaction
+ * @param {object} connection - Transaction connection
+ * @param {object} req - Express request (for the staff member renewing)
+ * @param {string|number} issueId
+ * @returns {Promise<{ previousDueDate: Date, newDueDate: Date, renewalCount: number, fine: object|null }>}
+ *   fine - the late fine charged for an overdue loan, if any (see chargeLateFine)
+ * @throws {CirculationError} When the loan can't be renewed (see checkRenewal)
+ */
+export async function renewLoan(connection, req, issueId) {
+  // Lock the loan so two renewals can't both pass the limit check
+  const [issues] = await connection.query(`
+    SELECT id, book_id, user_id, status, due_date, renewal_count,
+           DATE_FORMAT(CURDATE(), '%Y-%m-%d') AS today
+    FROM books_circulation WHERE id = ? FOR UPDATE
+  `, [issueId]);
+  const issue = issues[0];
+
+  if (!issue) {
+    throw new CirculationError('Issue not found', 'NOT_FOUND', 404);
+  }
+  const blocked = await checkRenewal(connection, issue);
+  if (blocked) {
+    throw blocked;
+  }
+
+  const dueDate = toDateString(issue.due_date);
+  const daysLate = await countDaysLate(connection, dueDate, issue.today);
+  const fine = await chargeLateFine(connection, req, issue, daysLate, `Renewed ${daysLate} day(s) late`);
+  if (fine) {
+    await recordAudit(connection, req, {
+      entity: 'fine', entityId: fine.id, action: 'charge',
+      after: await snapshot(connection, 'fine', fine.id)
+    });
+  }
+
+  // Extended by its borrowing policy's loan period (from today if it was
+  // overdue) and, like a new loan, never falling due on a closed day
+  const { loanDays } = await resolveLoanPolicy(connection, { userId: issue.user_id, bookId: issue.book_id });
+  const renewedFrom = dueDate < issue.today ? issue.today : dueDate;
+  const newDueDate = await nextOpenDay(connection, addDays(renewedFrom, loanDays));
+  await connection.query(`
+    UPDATE books_circulation
+    SET due_date = ?, renewal_count = renewal_count + 1, last_renewed_at = NOW()
+    WHERE id = ?
+  `, [newDueDate, issueId]);
+
+  const [[updated]] = await connection.query(
+    'SELECT due_date, renewal_count FROM books_circulation WHERE id = ?',
+    [issueId]
+  );
+  await connection.query(
+    `INSERT INTO loan_renewals (issue_id, previous_due_date, new_due_date, renewed_by)
+     VALUES (?, ?, ?, ?)`,
+    [issueId, issue.due_date, updated.due_date, req.staff?.id || null]
+  );
+
+  return {
+    previousDueDate: issue.due_date,
+    newDueDate: updated.due_date,
+    renewalCount: updated.renewal_count,
+    fine
+  };
+}
@@ -0,0 +1,94 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { fakeDb } from '../testing/fakeDb.js';
+import { checkRenewal, renewLoan } from './renewals.js';
+
+const RULE = { grace_days: 0, daily_rate: '0.50', max_amount: null };
+
+/**
+ * A loan as renewLoan and checkRenewal find it, with its borrowing policies,
+ * anyone waiting for the title, the library settings and closed days
+ */
+function loanDb(loan, { policies = [], waiting = 0, reclaimed = 0, settings = [], closedDays = [] } = {}) {
+  const issue = {
+    id: 8, book_id: 3, user_id: 5, status: 'issued', renewal_count: 0, today: '2026-03-10', ...loan
+  };
+  let dueDate = issue.due_date;
+  return fakeDb([
+    [/FROM books_circulation WHERE id = \? FOR UPDATE/, [issue]],
+    [/UPDATE books_circulation/, (params) => {
+      [dueDate] = params;
+      return { affectedRows: 1 };
+    }],
+    [/SELECT due_date, renewal_count FROM books_circulation/, () => [{ due_date: dueDate, renewal_count: issue.renewal_count + 1 }]],
+    [/FROM library_settings/, settings],
+    [/FROM loan_policies/, policies],
+    [/FROM copy_reclaims/, [{ reclaimed }]],
+    [/FROM holds WHERE book_id/, [{ waiting }]],
+    [/FROM fine_rules/, [RULE]],
+    [/FROM library_closures/, closedDays.map(day => ({ closed_on: day }))]
+  ]);
+}
+
+test('a loan on time is renewed by its policy\'s loan period from the due date', async () => {
+  const db = loanDb({ due_date: '2026-03-12' }, { policies: [{ loan_days: 21, max_loans: null, max_renewals: null, circulates: null }] });
+  const renewed = await renewLoan(db, { staff: { id: '2' } }, 8);
+  assert.equal(renewed.newDueDate, '2026-04-02');
+  assert.equal(renewed.renewalCount, 1);
+  assert.equal(renewed.fine, null);
+  assert.equal(db.queriesMatching(/INSERT INTO fine_ledger/).length, 0);
+  const [history] = db.queriesMatching(/INSERT INTO loan_renewals/);
+  assert.deepEqual(history.params, [8, '2026-03-12', '2026-04-02', '2']);
+});
+
+test('an overdue loan is fined for its late days and renewed from today', async () => {
+  const db = loanDb({ due_date: '2026-03-06' });
+  const renewed = await renewLoan(db, {}, 8);
+  assert.equal(renewed.fine.amount, 2);
+  assert.equal(renewed.fine.daysLate, 4);
+  const [charge] = db.queriesMatching(/INSERT INTO fine_ledger/);
+  assert.deepEqual(charge.params, [5, 8, 'late', 2, 'Renewed 4 day(s) late', null]);
+  assert.equal(db.queriesMatching(/INSERT INTO audit_log/).length, 1);
+  assert.equal(renewed.newDueDate, '2026-03-24');
+});
+
+test('the new due date rolls past closed days', async () => {
+  const db = loanDb({ due_date: '2026-03-12' }, { closedDays: ['2026-03-26'] });
+  const renewed = await renewLoan(db, {}, 8);
+  assert.equal(renewed.newDueDate, '2026-03-27');
+});
+
+test('a renewal is refused past the policy\'s limit, or the library\'s without one', async () => {
+  const byPolicy = loanDb({ due_date: '2026-03-12', renewal_count: 1 }, {
+    policies: [{ loan_days: null, max_loans: null, max_renewals: 1, circulates: null }]
+  });
+  assert.equal((await checkRenewal(byPolicy, await issueOf(byPolicy))).code, 'RENEWAL_LIMIT');
+
+  const byDefault = loanDb({ due_date: '2026-03-12', renewal_count: 2 });
+  assert.equal((await checkRenewal(byDefault, await issueOf(byDefault))).code, 'RENEWAL_LIMIT');
+  const underDefault = loanDb({ due_date: '2026-03-12', renewal_count: 1 });
+  assert.equal(await checkRenewal(underDefault, await issueOf(underDefault)), null);
+});
+
+test('a loan too far overdue, reclaimed by its owner or wanted by someone else is refused', async () => {
+  const cases = [
+    [loanDb({ due_date: '2026-03-02' }), 'TOO_OVERDUE'],
+    [loanDb({ due_date: '2026-03-12' }, { reclaimed: 1 }), 'RECLAIMED'],
+    [loanDb({ due_date: '2026-03-12' }, { waiting: 2 }), 'ON_HOLD'],
+    [loanDb({ due_date: '2026-03-12', status: 'returned' }), 'NOT_ON_LOAN']
+  ];
+  for (const [db, code] of cases) {
+    assert.equal((await checkRenewal(db, await issueOf(db))).code, code);
+  }
+  await assert.rejects(renewLoan(cases[2][0], {}, 8), { code: 'ON_HOLD' });
+});
+
+test('a missing loan is a 404', async () => {
+  await assert.rejects(renewLoan(fakeDb(), {}, 99), { code: 'NOT_FOUND', status: 404 });
+});
+
+// The locked loan row, as renewLoan reads it
+async function issueOf(db) {
+  const [[issue]] = await db.query('SELECT * FROM books_circulation WHERE id = ? FOR UPDATE', [8]);
+  return issue;
+}
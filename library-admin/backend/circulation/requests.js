@@ -0,0 +1,114 @@
+import { CirculationError } from './errors.js';
+import { recordAudit, snapshot } from '../audit/index.js';
+
+/**
+ * Book requests: titles patrons ask the library to get
+ *
+ * A request is pending until staff fulfil it (linking the book that was
+ * added for it) or reject it with a reason; either can be reopened. Requests
+ * for the same title share a title_key, so the queue can group them and one
+ * decision can settle every pending request for the title at once.
+ */
+
+export const REQUEST_STATUSES = ['pending', 'fulfilled', 'rejected'];
+
+const LEADING_ARTICLE = /^(the|a|an) /;
+
+/**
+ * The key requests for the same title are grouped by: lower case, without
+ * punctuation, extra spaces or a leading article, so "The Hobbit" and
+ * "hobbit!" match
+ * @param {string} title
+ * @returns {string}
+ */
+export function requestTitleKey(title) {
+  return String(title || '')
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim()
+    .replace(LEADING_ARTICLE, '')
+    .slice(0, 500);
+}
+
+/**
+ * Lock a request and the pending requests for the same title
+ * @returns {Promise<object[]>} The request first, then its duplicates
+ */
+const lockRequests = async (connection, requestId, includeDuplicates) => {
+  const [requests] = await connection.query('SELECT * FROM book_requests WHERE id = ? FOR UPDATE', [requestId]);
+  const request = requests[0];
+  if (!request) {
+    throw new CirculationError('Request not found', 'NOT_FOUND', 404);
+  }
+  if (!includeDuplicates) {
+    return [request];
+  }
+  const [duplicates] = await connection.query(
+    `SELECT * FROM book_requests WHERE title_key = ? AND status = 'pending' AND id <> ? ORDER BY id FOR UPDATE`,
+    [request.title_key, request.id]
+  );
+  return [request, ...duplicates];
+};
+
+/**
+ * Settle a request, and optionally every other pending request for the same
+ * title, inside the caller's transaction
+ * @param {object} connection - Transaction connection
+ * @param {object} req - Express request (for the staff member deciding)
+ * @param {string|number} requestId
+ * @param {object} change
+ * @param {'fulfilled'|'rejected'|'pending'} change.status - 'pending' reopens it
+ * @param {string|number} [change.bookId] - The book added for it (fulfilled)
+ * @param {string} [change.reason] - Why it was turned down (rejected)
+ * @param {boolean} [change.includeDuplicates]
+ * @returns {Promise<number[]>} Ids of the requests that changed
+ * @throws {CirculationError} When the change isn't allowed
+ */
+export async function changeRequestStatus(connection, req, requestId, { status, bookId = null, reason = '', includeDuplicates = false }) {
+  if (!REQUEST_STATUSES.includes(status)) {
+    throw new CirculationError(`Unknown request status: ${status}`, 'INVALID_STATUS');
+  }
+  const [request, ...duplicates] = await lockRequests(connection, requestId, includeDuplicates && status !== 'pending');
+
+  if (status === 'pending' && request.status === 'pending') {
+    throw new CirculationError('This request is already open', 'INVALID_REQUEST_STATUS', 409);
+  }
+  if (status !== 'pending' && request.status !== 'pending') {
+    throw new CirculationError(`This request has already been ${request.status} - reopen it first`, 'INVALID_REQUEST_STATUS', 409);
+  }
+  if (status === 'fulfilled') {
+    const [books] = await connection.query('SELECT id FROM books WHERE id = ?', [bookId]);
+    if (books.length === 0) {
+      throw new CirculationError('Choose the book that was added for this request', 'BOOK_NOT_FOUND', 404);
+    }
+  }
+  if (status === 'rejected' && !reason?.trim()) {
+    throw new CirculationError('Give a reason for turning the request down', 'REASON_REQUIRED');
+  }
+
+  const action = { fulfilled: 'fulfil', rejected: 'reject', pending: 'reopen' }[status];
+  const changed = [];
+  for (const row of [request, ...duplicates]) {
+    const before = await snapshot(connection, 'book_request', row.id);
+    await connection.query(
+      `UPDATE book_requests
+       SET status = ?, book_id = ?, rejection_reason = ?, status_changed_at = NOW(), status_changed_by = ?, notified_at = NULL
+       WHERE id = ?`,
+      [
+        status,
+        status === 'fulfilled' ? bookId : null,
+        status === 'rejected' ? reason.trim() : null,
+        req.staff?.id || null,
+        row.id
+      ]
+    );
+    await recordAudit(connection, req, {
+      entity: 'book_request', entityId: row.id, action,
+      before, after: await snapshot(connection, 'book_request', row.id)
+    });
+    changed.push(row.id);
+  }
+  return changed;
+}
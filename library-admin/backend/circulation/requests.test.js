@@ -0,0 +1,70 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { fakeDb } from '../testing/fakeDb.js';
+import { requestTitleKey, changeRequestStatus } from './requests.js';
+
+const STAFF = { staff: { id: '2', name: 'Desk' } };
+
+test('requests for the same title share a key, whatever the case, accents and punctuation', () => {
+  assert.equal(requestTitleKey('The Hobbit'), 'hobbit');
+  assert.equal(requestTitleKey('  hobbit!! '), 'hobbit');
+  assert.equal(requestTitleKey('Les Misérables'), requestTitleKey('les miserables'));
+  assert.equal(requestTitleKey('A Theory of Justice'), 'theory of justice');
+  assert.equal(requestTitleKey('Anathem'), 'anathem');
+  assert.equal(requestTitleKey(null), '');
+});
+
+/**
+ * Request 20 for "The Hobbit" in the given status, with two more pending
+ * requests for the same title and book 3 in the catalogue
+ */
+function requestsDb(status) {
+  return fakeDb([
+    [/FROM book_requests WHERE id = \? FOR UPDATE/, [{ id: 20, title_key: 'hobbit', status }]],
+    [/FROM book_requests WHERE title_key = \?/, [{ id: 21, title_key: 'hobbit', status: 'pending' }, { id: 24, title_key: 'hobbit', status: 'pending' }]],
+    [/SELECT id FROM books WHERE id = \?/, (params) => (params[0] === 3 ? [{ id: 3 }] : [])]
+  ]);
+}
+
+const updates = (db) => db.queriesMatching(/UPDATE book_requests/).map(({ params }) => params);
+
+test('fulfilling a request can settle every pending request for the title', async () => {
+  const db = requestsDb('pending');
+  assert.deepEqual(await changeRequestStatus(db, STAFF, 20, { status: 'fulfilled', bookId: 3, includeDuplicates: true }), [20, 21, 24]);
+  assert.deepEqual(updates(db)[1], ['fulfilled', 3, null, '2', 21]);
+  assert.equal(db.queriesMatching(/INSERT INTO audit_log/).length, 3);
+
+  const alone = requestsDb('pending');
+  assert.deepEqual(await changeRequestStatus(alone, STAFF, 20, { status: 'fulfilled', bookId: 3 }), [20]);
+});
+
+test('a request is fulfilled with a book in the catalogue, and rejected with a reason', async () => {
+  await assert.rejects(changeRequestStatus(requestsDb('pending'), STAFF, 20, { status: 'fulfilled', bookId: 99 }), {
+    code: 'BOOK_NOT_FOUND', status: 404
+  });
+  await assert.rejects(changeRequestStatus(requestsDb('pending'), STAFF, 20, { status: 'rejected', reason: '  ' }), {
+    code: 'REASON_REQUIRED'
+  });
+  await assert.rejects(changeRequestStatus(requestsDb('pending'), STAFF, 20, { status: 'rejected', reason: null }), {
+    code: 'REASON_REQUIRED'
+  });
+
+  const db = requestsDb('pending');
+  await changeRequestStatus(db, STAFF, 20, { status: 'rejected', reason: ' Out of print ' });
+  assert.deepEqual(updates(db), [['rejected', null, 'Out of print', '2', 20]]);
+});
+
+test('a settled request has to be reopened before it can be decided again', async () => {
+  await assert.rejects(changeRequestStatus(requestsDb('rejected'), STAFF, 20, { status: 'fulfilled', bookId: 3 }), {
+    code: 'INVALID_REQUEST_STATUS', status: 409, message: 'This request has already been rejected - reopen it first'
+  });
+  await assert.rejects(changeRequestStatus(requestsDb('pending'), STAFF, 20, { status: 'pending' }), {
+    code: 'INVALID_REQUEST_STATUS', message: 'This request is already open'
+  });
+
+  // Reopening never takes the title's other requests with it
+  const db = requestsDb('fulfilled');
+  assert.deepEqual(await changeRequestStatus(db, STAFF, 20, { status: 'pending', includeDuplicates: true }), [20]);
+  assert.deepEqual(updates(db), [['pending', null, null, '2', 20]]);
+  await assert.rejects(changeRequestStatus(db, STAFF, 20, { status: 'withdrawn' }), { code: 'INVALID_STATUS' });
+});
@@ -0,0 +1,149 @@
+import { CirculationError } from './errors.js';
+import { assessLateFine, reverseCharges } from './fines.js';
+import { checkinCopy, findCopyByBarcode } from './copies.js';
+import { assignReturnedCopy } from './holds.js';
+import { sendHomeIfAway } from './branches.js';
+import { assertLoanTransition } from './losses.js';
+import { recordAudit, snapshot } from '../audit/index.js';
+
+/**
+ * Returns: the one place a loan becomes returned
+ *
+ * Marking the loan returned, charging any late fine, putting the copy back
+ * on the shelf (or on the hold shelf for the next patron) and recounting the
+ * title all happen in the caller's transaction, with the loan row locked so
+ * a double-clicked or retried return can't count the copy back twice.
+ *
+ * Loans marked lost, claimed returned or written off can still be returned
+ * when the book turns up: a lost book's replacement charge is reversed, and
+ * only loans that were on loan or lost are fined for lateness.
+ *
+ * The copy is checked in at the returning staff member's branch; if that
+ * isn't its home and no hold takes it, a transfer home is requested. A copy
+ * its owner is reclaiming does neither: it waits at the desk to be handed back.
+ */
+
+/**
+ * Return a loan inside the caller's transaction
+ * @param {object} connection - Transaction connection
+ * @param {object} req - Express request (for the staff member receiving it)
+ * @param {string|number} issueId
+ * @returns {Promise<{ fine: object|null, reversal: object|null, hold: object|null, transferId: number|null, reclaimId: number|null }>}
+ *   fine - the late fine charged, if any (see assessLateFine)
+ *   reversal - the waived replacement charge for a lost book, if any
+ *   hold - the ready hold the copy went to, if any (see assignReturnedCopy)
+ *   transferId - the transfer home requested for the copy, if any
+ *   reclaimId - the owner's open reclaim of the copy, if any (see owners.js)
+ * @throws {CirculationError} When the loan doesn't exist or is already returned
+ */
+export async function returnLoan(connection, req, issueId) {
+  const [issues] = await connection.query(
+    'SELECT id, book_id, copy_id, status FROM books_circulation WHERE id = ? FOR UPDATE',
+    [issueId]
+  );
+  const issue = issues[0];
+  if (!issue) {
+    throw new CirculationError('Issue not found', 'NOT_FOUND', 404);
+  }
+  if (issue.status === 'returned') {
+    throw new CirculationError('This book has already been returned', 'ALREADY_RETURNED', 409);
+  }
+  assertLoanTransition(issue.status, 'returned');
+
+  // Same lock order as issuing (title, then copy) so the two can't deadlock
+  const bookId = issue.book_id;
+  await connection.query('SELECT id FROM books WHERE id = ? FOR UPDATE', [bookId]);
+
+  const issueBefore = await snapshot(connection, 'issue', issueId);
+  await connection.query(
+    `UPDATE books_circulation SET return_date = CURDATE(), status = 'returned' WHERE id = ?`,
+    [issueId]
+  );
+  await recordAudit(connection, req, {
+    entity: 'issue', entityId: issueId, action: 'return',
+    before: issueBefore, after: await snapshot(connection, 'issue', issueId)
+  });
+
+  const fine = ['issued', 'lost'].includes(issue.status)
+    ? await assessLateFine(connection, req, issueId)
+    : null;
+  if (fine) {
+    await recordAudit(connection, req, {
+      entity: 'fine', entityId: fine.id, action: 'charge',
+      after: await snapshot(connection, 'fine', fine.id)
+    });
+  }
+
+  const reversal = issue.status === 'lost'
+    ? await reverseCharges(connection, req, issueId, 'replacement', 'Replacement charge reversed - lost book returned')
+    : null;
+  if (reversal) {
+    await recordAudit(connection, req, {
+      entity: 'fine', entityId: reversal.id, action: 'waiver',
+      after: await snapshot(connection, 'fine', reversal.id)
+    });
+  }
+
+  // Loans from before copies were tracked have no copy to put back
+  if (!issue.copy_id) {
+    return { fine, reversal, hold: null, transferId: null, reclaimId: null };
+  }
+
+  // The copy goes to the next hold in line, or back on the shelf
+  const bookBefore = await snapshot(connection, 'book', bookId);
+  const copyBefore = await snapshot(connection, 'copy', issue.copy_id);
+  await checkinCopy(connection, issue.copy_id, req.staff?.branchId || null);
+  await recordAudit(connection, req, {
+    entity: 'copy', entityId: issue.copy_id, action: 'return',
+    before: copyBefore, after: await snapshot(connection, 'copy', issue.copy_id)
+  });
+  const hold = await assignReturnedCopy(connection, { id: issue.copy_id, book_id: bookId });
+  await recordAudit(connection, req, {
+    entity: 'book', entityId: bookId, action: 'return',
+    before: bookBefore, after: await snapshot(connection, 'book', bookId)
+  });
+  if (hold) {
+    await recordAudit(connection, req, {
+      entity: 'hold', entityId: hold.id, action: 'ready',
+      after: await snapshot(connection, 'hold', hold.id)
+    });
+  }
+
+  const [reclaims] = await connection.query(
+    `SELECT id FROM copy_reclaims WHERE copy_id = ? AND status = 'open'`,
+    [issue.copy_id]
+  );
+  const reclaimId = reclaims[0]?.id || null;
+  const transferId = hold || reclaimId ? null : await sendHomeIfAway(connection, req, issue.copy_id);
+
+  return { fine, reversal, hold, transferId, reclaimId };
+}
+
+/**
+ * Return whichever loan a scanned copy is out on, inside the caller's transaction
+ * @param {object} connection - Transaction connection
+ * @param {object} req - Express request (for the staff member receiving it)
+ * @param {string} barcode
+ * @returns {Promise<{ issueId: number, fine: object|null, reversal: object|null, hold: object|null, transferId: number|null, reclaimId: number|null }>}
+ * @throws {CirculationError} When no copy has the barcode or it isn't out on a loan
+ */
+export async function returnCopy(connection, req, barcode) {
+  const copy = await findCopyByBarcode(connection, barcode);
+  if (!copy) {
+    throw new CirculationError(`No copy has the barcode ${String(barcode).trim()}`, 'COPY_NOT_FOUND', 404);
+  }
+
+  // Lost and written-off loans are still open until the book turns up
+  const [loans] = await connection.query(
+    `SELECT id FROM books_circulation
+     WHERE copy_id = ? AND status IN ('issued', 'claimed_returned', 'lost', 'written_off')
+     ORDER BY id DESC LIMIT 1`,
+    [copy.id]
+  );
+  if (loans.length === 0) {
+    throw new CirculationError(`Copy ${copy.barcode} of "${copy.book_title}" isn't out on loan`, 'NOT_ON_LOAN', 409);
+  }
+
+  const issueId = loans[0].id;
+  return { issueId, ...(await returnLoan(connection, req, issueId)) };
+}
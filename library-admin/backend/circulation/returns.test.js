@@ -0,0 +1,77 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { fakeDb } from '../testing/fakeDb.js';
+import { returnLoan, returnCopy } from './returns.js';
+
+const STAFF = { staff: { id: '2', name: 'Desk', branchId: 4 } };
+const RULE = { grace_days: 0, daily_rate: '0.50', max_amount: null };
+
+/**
+ * Loan 8 of copy 12, returned on 2026-03-15 against a due date of 2026-03-12,
+ * with the replacement still charged on it and the copy's open reclaims
+ */
+function loanDb(status, { replacementOwed = '0', reclaims = [], copy = null, loans = [{ id: 8 }] } = {}) {
+  return fakeDb([
+    [/FROM books_circulation WHERE id = \? FOR UPDATE/, [{ id: 8, book_id: 3, copy_id: 12, status }]],
+    [/AND return_date IS NOT NULL/, [{ id: 8, book_id: 3, user_id: 5, due_date: '2026-03-12', return_date: '2026-03-15' }]],
+    [/FROM fine_rules/, [RULE]],
+    [/SELECT MIN\(user_id\)/, [{ user_id: 5, outstanding: replacementOwed }]],
+    [/FROM copy_reclaims/, reclaims],
+    [/JOIN books b ON c.book_id = b.id/, copy ? [copy] : []],
+    [/SELECT id FROM books_circulation\s+WHERE copy_id = \?/, loans]
+  ]);
+}
+
+test('a late return is fined and the copy goes back on the shelf at the returning branch', async () => {
+  const db = loanDb('issued');
+  const returned = await returnLoan(db, STAFF, 8);
+  assert.deepEqual(returned.fine, { id: returned.fine.id, amount: 1.5, chargeType: 'late', note: 'Returned 3 day(s) late', daysLate: 3 });
+  assert.equal(returned.reversal, null);
+  assert.equal(returned.hold, null);
+  assert.deepEqual(db.queriesMatching(/UPDATE book_copies SET status = 'available'/)[0].params, [4, 12]);
+  assert.deepEqual(db.queriesMatching(/INSERT INTO audit_log/).map(({ params }) => [params[2], params[4]]), [
+    ['issue', 'return'], ['fine', 'charge'], ['copy', 'return'], ['book', 'return']
+  ]);
+});
+
+test('a loan already returned can\'t be returned again', async () => {
+  const db = loanDb('returned');
+  await assert.rejects(returnLoan(db, STAFF, 8), { code: 'ALREADY_RETURNED', status: 409 });
+  assert.equal(db.queriesMatching(/^\s*UPDATE/).length, 0);
+  await assert.rejects(returnLoan(fakeDb(), STAFF, 8), { code: 'NOT_FOUND', status: 404 });
+});
+
+test('a lost book that turns up has its replacement charge waived, and is still fined for lateness', async () => {
+  const returned = await returnLoan(loanDb('lost', { replacementOwed: '20.00' }), STAFF, 8);
+  assert.equal(returned.fine.amount, 1.5);
+  assert.equal(returned.reversal.amount, 20);
+  assert.equal(returned.reversal.note, 'Replacement charge reversed - lost book returned');
+});
+
+test('a book claimed returned that turns up isn\'t fined', async () => {
+  const db = loanDb('claimed_returned');
+  assert.equal((await returnLoan(db, STAFF, 8)).fine, null);
+  assert.equal(db.queriesMatching(/INSERT INTO fine_ledger/).length, 0);
+});
+
+test('a copy its owner is reclaiming waits at the desk instead of going home', async () => {
+  const db = loanDb('issued', { reclaims: [{ id: 9 }] });
+  const returned = await returnLoan(db, STAFF, 8);
+  assert.equal(returned.reclaimId, 9);
+  assert.equal(returned.transferId, null);
+  assert.equal(db.queriesMatching(/JOIN branches home/).length, 0);
+  assert.equal(db.queriesMatching(/FROM holds WHERE book_id = \? AND status = 'waiting'/).length, 0);
+});
+
+test('a scanned copy returns the loan it is out on', async () => {
+  const copy = { id: 12, barcode: 'B-012', book_title: 'Dune' };
+  const returned = await returnCopy(loanDb('issued', { copy }), STAFF, ' B-012 ');
+  assert.equal(returned.issueId, 8);
+
+  await assert.rejects(returnCopy(loanDb('issued'), STAFF, 'B-404'), {
+    code: 'COPY_NOT_FOUND', status: 404, message: 'No copy has the barcode B-404'
+  });
+  await assert.rejects(returnCopy(loanDb('issued', { copy, loans: [] }), STAFF, 'B-012'), {
+    code: 'NOT_ON_LOAN', status: 409, message: 'Copy B-012 of "Dune" isn\'t out on loan'
+  });
+});
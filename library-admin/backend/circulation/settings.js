@@ -0,0 +1,52 @@
+/**
+ * Library-wide circulation settings stored in the library_settings table
+ *
+ * Every setting has a default here, so a fresh database behaves sensibly
+ * before anyone opens the Circulation settings page.
+ */
+export const SETTING_DEFAULTS = {
+  'fines.block_threshold': null,      // users owing more than this can't borrow; null = never block
+  'renewals.max_renewals': 2,         // renewals allowed per loan
+  'renewals.max_overdue_days': 7,     // loans overdue by more than this can't be renewed
+  'holds.pickup_days': 3,             // how long a ready hold waits on the hold shelf
+  'losses.replacement_charge': 25,    // charged when a loan is declared lost
+  'losses.damage_charge': 5,          // charged when a book comes back damaged
+  'calendar.skip_closed_days': 0,     // 1 = closed days don't count towards days late
+  'acquisitions.fiscal_year_start_month': 4, // 1-12; fiscal year 2026 starts in this month of 2026
+  'owners.borrower_visibility': 1,    // what book owners see of borrowers: 0 nothing, 1 name, 2 name and contact
+};
+
+/**
+ * Load settings, falling back to SETTING_DEFAULTS for anything not saved yet
+ * @param {object} db - Pool or transaction connection
+ * @param {string[]} keys
+ * @returns {Promise<Object<string, number|null>>}
+ */
+export async function getSettings(db, keys) {
+  const [rows] = await db.query(
+    'SELECT setting_key, setting_value FROM library_settings WHERE setting_key IN (?)',
+    [keys]
+  );
+  const saved = Object.fromEntries(rows.map(row => [row.setting_key, row.setting_value]));
+  return Object.fromEntries(keys.map(key => {
+    if (!(key in saved)) {
+      return [key, SETTING_DEFAULTS[key] ?? null];
+    }
+    return [key, saved[key] === null ? null : Number(saved[key])];
+  }));
+}
+
+/**
+ * Save settings (null clears a value)
+ * @param {object} db - Pool or transaction connection
+ * @param {Object<string, number|null>} values
+ */
+export async function saveSettings(db, values) {
+  for (const [key, value] of Object.entries(values)) {
+    await db.query(
+      `INSERT INTO library_settings (setting_key, setting_value) VALUES (?, ?)
+       ON DUPLICATE KEY UPDATE setting_value = VALUES(setting_value)`,
+      [key, value === null ? null : String(value)]
+    );
+  }
+}
@@ -1,3 +1,5 @@
+import 'dotenv/config';
+
 // Database configuration
 export const dbConfig = {
   host: 'localhost',
@@ -9,10 +11,31 @@ export const dbConfig = {
   queueLimit: 0
 };
 
-// Admin credentials (hardcoded for now)
-export const adminCredentials = {
-  username: 'admin',
-  password: 'admin123'
+// Auth configuration
+// Staff accounts live in the staff_users table (see scripts/create-staff-user.js).
+// Set AUTH_TOKEN_SECRET in backend/.env. Without it the server only starts with
+// NODE_ENV=development, signing tokens with a fallback anyone can read here.
+export const authConfig = {
+  tokenSecret: process.env.AUTH_TOKEN_SECRET || 'local-dev-secret-change-me',
+  usingDevelopmentSecret: !process.env.AUTH_TOKEN_SECRET,
+  accessTokenTTL: '15m',
+  refreshTokenTTL: '7d',
+  bcryptRounds: 12
+};
+
+// Patron sign-in configuration
+// Patrons sign in with the email or phone on their record and a one-time code.
+// 'console' only logs the code, so the server only starts with it (or with
+// 'email' over the console mail transport) when NODE_ENV=development; 'email'
+// mails it to the patron through the mail transport below. Register other
+// channels (e.g. an SMS gateway) with CodeChannelFactory.register.
+export const patronAuthConfig = {
+  codeChannel: process.env.PATRON_CODE_CHANNEL || 'console', // 'console' | 'email'
+  codeLength: 6,
+  codeTTLMinutes: 10,      // how long a code can be used
+  maxAttempts: 5,          // wrong guesses before a code is thrown away
+  resendAfterSeconds: 60,  // least time between two codes for the same patron
+  sessionTTL: '8h'
 };
 
 // Server configuration
@@ -20,6 +43,31 @@ export const serverConfig = {
   port: 3001
 };
 
+// Mail configuration
+// 'console' only logs messages. To really send, set MAIL_TRANSPORT=smtp and the
+// SMTP_* values in backend/.env - for testing, point SMTP_HOST/SMTP_PORT at a
+// local catch-all server such as MailHog (localhost:1025).
+export const mailConfig = {
+  type: process.env.MAIL_TRANSPORT || 'console', // 'console' | 'smtp'
+  from: process.env.MAIL_FROM || 'Library <library@localhost>',
+  options: {
+    host: process.env.SMTP_HOST || 'localhost',
+    port: Number(process.env.SMTP_PORT || 1025),
+    secure: process.env.SMTP_SECURE === 'true',
+    user: process.env.SMTP_USER || '',
+    password: process.env.SMTP_PASSWORD || '',
+    rejectUnauthorized: process.env.SMTP_REJECT_UNAUTHORIZED !== 'false',
+  }
+};
+
+// Loan reminder configuration (the notices themselves are edited in the dashboard)
+export const reminderConfig = {
+  libraryName: process.env.LIBRARY_NAME || 'The Library',
+  intervalMinutes: 60,  // how often the scheduler looks for reminders to send
+  batchSize: 200,       // most emails sent per run
+  maxAttempts: 3        // failed sends are retried until this many attempts
+};
+
 // Cache configuration
 // To switch to Redis, change type to 'redis' and provide connection options
 export const cacheConfig = {
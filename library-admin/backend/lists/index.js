@@ -0,0 +1,224 @@
+/**
+ * Paging, filtering and sorting for the routes that list whole tables
+ *
+ * Each route describes what its rows can be sorted and filtered by, and
+ * clients ask for a page with the same query string everywhere:
+ *   ?limit=50&offset=100          up to MAX_PAGE_SIZE rows, from the 101st match
+ *   ?sort=title,-publicationYear  fields in order, - for descending
+ *   ?categoryId=3,7&q=garden      the route's filters, all of which must match
+ *   ?categoryId=3,7&categoryIdMatch=all   linked to every one of the ids, not just one
+ *   ?q=author:Christie year:1930..  a fielded query, where the route allows one (see query.js)
+ * The route answers with toPage: { items, total, limit, offset }, where total
+ * counts every match, not just this page.
+ *
+ * Usage in a route:
+ *   const { values: list, error } = parseListQuery(req.query, BOOK_LIST);
+ *   if (error) return res.status(400).json({ error });
+ *   ...SELECT COUNT(*) ... ${list.where}, list.params
+ *   ...SELECT ... ${list.where} ORDER BY ${list.orderBy} LIMIT ? OFFSET ?, [...list.params, list.limit, list.offset]
+ *   res.json(toPage(items, total, list));
+ */
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 500;
+
+const escapeLike = (value) => value.replace(/[\\%_]/g, '\\$&');
+
+const splitValues = (value) => String(value).split(',').map(item => item.trim()).filter(Boolean);
+
+// Filters: each turns the value from the query string into a condition, or
+// an error to send back. They're given the filter's name and the whole query
+// string too, for messages and for options of their own.
+
+/**
+ * Text found anywhere in any of the columns (or other SQL expressions)
+ * @param {...string} columns
+ */
+export const contains = (...columns) => (value) => {
+  const pattern = `%${escapeLike(value)}%`;
+  return {
+    sql: `(${columns.map(column => `${column} LIKE ?`).join(' OR ')})`,
+    params: columns.map(() => pattern)
+  };
+};
+
+/**
+ * Column equal to the whole value, commas and all (e.g. a title)
+ * @param {string} column
+ */
+export const equals = (column) => (value) => ({ sql: `${column} = ?`, params: [value] });
+
+/**
+ * Column equal to the value, or to one of several comma-separated values
+ * @param {string} column
+ * @param {string[]|null} [allowed] - Values it can take, checked before querying
+ */
+export const oneOf = (column, allowed = null) => (value, name) => {
+  const values = splitValues(value);
+  const unknown = allowed ? values.filter(item => !allowed.includes(item)) : [];
+  if (unknown.length > 0) {
+    return { error: `${name} must be one of: ${allowed.join(', ')}` };
+  }
+  return { sql: `${column} IN (?)`, params: [values] };
+};
+
+export const MATCH_MODES = ['any', 'all'];
+
+/**
+ * Rows with a link (e.g. book_categories) to one of the comma-separated ids,
+ * or with ?<name>Match=all, to every one of them
+ * @param {string} links - The link table and how it meets the row,
+ *   e.g. 'book_categories bcat WHERE bcat.book_id = b.id'
+ * @param {string} column - The linked id, e.g. 'bcat.category_id'
+ */
+export const linkedTo = (links, column) => (value, name, query) => {
+  const ids = [...new Set(splitValues(value))];
+  const match = query[`${name}Match`] || 'any';
+  if (!MATCH_MODES.includes(match)) {
+    return { error: `${name}Match must be one of: ${MATCH_MODES.join(', ')}` };
+  }
+  if (match === 'all') {
+    // A row links to each id at most once, so every id means as many links as ids
+    return { sql: `(SELECT COUNT(*) FROM ${links} AND ${column} IN (?)) = ?`, params: [ids, ids.length] };
+  }
+  return { sql: `EXISTS (SELECT 1 FROM ${links} AND ${column} IN (?))`, params: [ids] };
+};
+
+/**
+ * Column at least (from) or at most (to) the value, e.g. a YYYY-MM-DD date
+ * @param {string} column
+ * @param {'from'|'to'} end
+ */
+export const bound = (column, end) => (value) => ({
+  sql: `${column} ${end === 'from' ? '>=' : '<='} ?`,
+  params: [value]
+});
+
+const RANGE_FORMATS = {
+  number: { pattern: /^-?\d+(\.\d+)?$/, example: 'a number or a range like 1930..1940, 1930.. or ..1940' },
+  date: { pattern: /^\d{4}-\d{2}-\d{2}$/, example: 'a date (YYYY-MM-DD) or a range like 2024-01-01..2024-06-30' }
+};
+
+/**
+ * Column equal to the value, or within low..high, at least low.. or at
+ * most ..high, ends included
+ * @param {string} column
+ * @param {'number'|'date'} [format]
+ */
+export const range = (column, format = 'number') => (value, name) => {
+  const { pattern, example } = RANGE_FORMATS[format];
+  const ends = value.includes('..') ? value.split('..') : [value, value];
+  const [low, high] = ends;
+  if (ends.length !== 2 || (!low && !high) || ends.some(end => end && !pattern.test(end))) {
+    return { error: `${name} must be ${example}` };
+  }
+  if (low === high) {
+    return { sql: `${column} = ?`, params: [low] };
+  }
+  const conditions = [
+    ...(low ? [{ sql: `${column} >= ?`, value: low }] : []),
+    ...(high ? [{ sql: `${column} <= ?`, value: high }] : [])
+  ];
+  return {
+    sql: `(${conditions.map(condition => condition.sql).join(' AND ')})`,
+    params: conditions.map(condition => condition.value)
+  };
+};
+
+/**
+ * One or more of a fixed set of comma-separated values, each with its own
+ * condition (e.g. where a book came from)
+ * @param {Object<string, string>} cases - The condition for each value
+ */
+export const anyOf = (cases) => (value, name) => {
+  const values = splitValues(value);
+  const unknown = values.filter(item => !Object.hasOwn(cases, item));
+  if (unknown.length > 0) {
+    return { error: `${name} must be one of: ${Object.keys(cases).join(', ')}` };
+  }
+  return { sql: `(${values.map(item => `(${cases[item]})`).join(' OR ')})`, params: [] };
+};
+
+/**
+ * ?name=true or ?name=false (or yes or no), each with its own condition
+ * @param {string} whenTrue
+ * @param {string} whenFalse
+ */
+export const flag = (whenTrue, whenFalse) => (value, name) => {
+  const answer = value.toLowerCase();
+  if (!['true', 'yes', 'false', 'no'].includes(answer)) {
+    return { error: `${name} must be true or false (or yes or no)` };
+  }
+  return { sql: answer === 'true' || answer === 'yes' ? whenTrue : whenFalse, params: [] };
+};
+
+/**
+ * The WHERE clause for some of a list's filters
+ * @param {Array<{ sql: string, params: any[] }>} filters - From parseListQuery
+ * @returns {{ where: string, params: any[] }}
+ */
+export const toWhere = (filters) => ({
+  where: filters.length > 0 ? `WHERE ${filters.map(filter => filter.sql).join(' AND ')}` : '',
+  params: filters.flatMap(filter => filter.params)
+});
+
+/**
+ * Read a page request from a list route's query string
+ * @param {object} query - req.query
+ * @param {{ sorts: Object<string, string>, defaultSort: string[], tiebreaker: string,
+ *           filters: Object<string, Function> }} spec - Sort fields and filters by
+ *   the name clients use; the tiebreaker (a unique column) keeps pages stable
+ * @returns {{ values: { where: string, params: any[], orderBy: string, sort: string[],
+ *                       limit: number, offset: number,
+ *                       filters: Array<{ name: string, sql: string, params: any[] }> },
+ *             error: string|null }} - filters are the ones asked for, which where combines
+ */
+export function parseListQuery(query, spec) {
+  const limit = Math.min(Math.max(parseInt(query.limit) || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+  const offset = Math.max(parseInt(query.offset) || 0, 0);
+
+  const filters = [];
+  for (const [name, filter] of Object.entries(spec.filters)) {
+    const value = typeof query[name] === 'string' ? query[name].trim() : '';
+    if (!value) {
+      continue;
+    }
+    const condition = filter(value, name, query);
+    if (condition.error) {
+      return { values: null, error: condition.error };
+    }
+    filters.push({ name, sql: condition.sql, params: condition.params });
+  }
+
+  const sort = query.sort ? splitValues(query.sort) : spec.defaultSort;
+  const unknown = sort.find(field => !Object.hasOwn(spec.sorts, field.replace(/^-/, '')));
+  if (unknown) {
+    return { values: null, error: `Can't sort by ${unknown.replace(/^-/, '')} - use one of: ${Object.keys(spec.sorts).join(', ')}` };
+  }
+  const orderBy = [
+    ...sort.map(field => (field.startsWith('-') ? `${spec.sorts[field.slice(1)]} DESC` : spec.sorts[field])),
+    spec.tiebreaker
+  ].join(', ');
+
+  return {
+    values: {
+      ...toWhere(filters),
+      orderBy,
+      sort,
+      limit,
+      offset,
+      filters
+    },
+    error: null
+  };
+}
+
+/**
+ * The response for one page of a list
+ * @param {object[]} items
+ * @param {number|string} total - Every match, across all pages
+ * @param {{ limit: number, offset: number }} list - From parseListQuery
+ */
+export const toPage = (items, total, { limit, offset }) => ({ items, total: Number(total), limit, offset });
+
+export { parseQuery, compileQuery, fieldedQuery, isPlainQuery, splitQuery } from './query.js';
@@ -0,0 +1,64 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseListQuery, toPage, contains, oneOf, linkedTo, range, flag, MAX_PAGE_SIZE } from './index.js';
+
+const BOOK_LIST = {
+  sorts: { title: 'b.title', publicationYear: 'b.publication_year' },
+  defaultSort: ['title'],
+  tiebreaker: 'b.id',
+  filters: {
+    q: contains('b.title', 'b.isbn'),
+    bookType: oneOf('b.book_type', ['Paperback', 'Hardcover']),
+    categoryId: linkedTo('book_categories bcat WHERE bcat.book_id = b.id', 'bcat.category_id'),
+    year: range('b.publication_year'),
+    available: flag('b.available_copies > 0', 'b.available_copies = 0')
+  }
+};
+
+test('a page defaults to the first rows in the list\'s own order', () => {
+  const { values, error } = parseListQuery({}, BOOK_LIST);
+  assert.equal(error, null);
+  assert.deepEqual(values, { where: '', params: [], orderBy: 'b.title, b.id', sort: ['title'], limit: 50, offset: 0, filters: [] });
+});
+
+test('page sizes are kept within bounds', () => {
+  assert.equal(parseListQuery({ limit: '100000' }, BOOK_LIST).values.limit, MAX_PAGE_SIZE);
+  assert.equal(parseListQuery({ limit: '0', offset: '-5' }, BOOK_LIST).values.limit, 50);
+  assert.equal(parseListQuery({ limit: '0', offset: '-5' }, BOOK_LIST).values.offset, 0);
+});
+
+test('rows are sorted by the fields asked for, descending with a minus', () => {
+  assert.equal(parseListQuery({ sort: '-publicationYear, title' }, BOOK_LIST).values.orderBy, 'b.publication_year DESC, b.title, b.id');
+  assert.equal(
+    parseListQuery({ sort: 'price' }, BOOK_LIST).error,
+    'Can\'t sort by price - use one of: title, publicationYear'
+  );
+  assert.match(parseListQuery({ sort: '-constructor' }, BOOK_LIST).error, /^Can't sort by constructor/);
+});
+
+test('every filter given must match', () => {
+  const { values } = parseListQuery({ q: ' 50%_off ', bookType: 'Paperback,Hardcover', year: '1930..', available: 'no' }, BOOK_LIST);
+  assert.equal(values.where, 'WHERE (b.title LIKE ? OR b.isbn LIKE ?) AND b.book_type IN (?) AND (b.publication_year >= ?) AND b.available_copies = 0');
+  assert.deepEqual(values.params, ['%50\\%\\_off%', '%50\\%\\_off%', ['Paperback', 'Hardcover'], '1930']);
+  assert.deepEqual(values.filters.map(filter => filter.name), ['q', 'bookType', 'year', 'available']);
+});
+
+test('linked ids match any one of them, or every one with Match=all', () => {
+  assert.deepEqual(parseListQuery({ categoryId: '3,7,3' }, BOOK_LIST).values.params, [['3', '7']]);
+  const { values } = parseListQuery({ categoryId: '3,7', categoryIdMatch: 'all' }, BOOK_LIST);
+  assert.match(values.where, /^WHERE \(SELECT COUNT\(\*\) FROM book_categories bcat/);
+  assert.deepEqual(values.params, [['3', '7'], 2]);
+  assert.equal(parseListQuery({ categoryId: '3', categoryIdMatch: 'most' }, BOOK_LIST).error, 'categoryIdMatch must be one of: any, all');
+});
+
+test('a filter value it can\'t use is refused with what it takes', () => {
+  assert.equal(parseListQuery({ bookType: 'Scroll' }, BOOK_LIST).error, 'bookType must be one of: Paperback, Hardcover');
+  assert.match(parseListQuery({ year: '1930..abc' }, BOOK_LIST).error, /^year must be a number or a range/);
+  assert.equal(parseListQuery({ available: 'maybe' }, BOOK_LIST).error, 'available must be true or false (or yes or no)');
+  // Repeated parameters arrive as arrays and are ignored rather than guessed at
+  assert.equal(parseListQuery({ bookType: ['Scroll', 'Paperback'] }, BOOK_LIST).values.where, '');
+});
+
+test('a page reports the total across all pages', () => {
+  assert.deepEqual(toPage([{ id: 1 }], '120', { limit: 50, offset: 50 }), { items: [{ id: 1 }], total: 120, limit: 50, offset: 50 });
+});
@@ -0,0 +1,257 @@
+/**
+ * Fielded queries: what staff type into a search box to say exactly what
+ * they want, e.g.
+ *   author:"Agatha Christie" year:1930..1940 type:Hardcover available:yes
+ *
+ *   garden                  a word, found however the route finds text
+ *   "murder on the"         a phrase, found as it's written
+ *   field:value             a field a route offers (see BOOK_QUERY_FIELDS),
+ *   field:"two words"       checked with a list filter, so field:a,b is
+ *   field:1930..1940        either and ranges and yes/no work as they do
+ *                           in list query strings; any other word with a
+ *                           colon (Re:Zero) is a word
+ *   -term   NOT term        anything but, also before brackets: -(a OR b)
+ *   a b   a AND b           both (AND binds tighter than OR)
+ *   a OR b                  either
+ *   ( ... )                 grouping
+ *
+ * AND, OR and NOT are only operators in capitals; "war and peace" is three
+ * words. A query that can't be read gets an error saying where, for the
+ * route to send back as a 400.
+ */
+
+const OPERATORS = { AND: 'and', OR: 'or', NOT: 'not' };
+
+// Thrown while reading a query, and turned into its error
+class QuerySyntaxError extends Error {}
+
+/**
+ * The query as tokens: (, ), and, or, not, word, phrase and field, each
+ * with the character it starts at (from 1). A word with a colon is only a
+ * field if there's such a field, so titles like Re:Zero and "Dune: Messiah"
+ * are words.
+ */
+function tokenize(text, fieldNames) {
+  const tokens = [];
+  // A quoted run starting at the quote at index, and the index after it
+  const quoted = (index) => {
+    const end = text.indexOf('"', index + 1);
+    if (end < 0) {
+      throw new QuerySyntaxError(`The quote at character ${index + 1} is never closed`);
+    }
+    return { value: text.slice(index + 1, end), next: end + 1 };
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    const char = text[i];
+    const position = i + 1;
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '(' || char === ')') {
+      tokens.push({ type: char, position });
+      i++;
+    } else if (char === '-' && i + 1 < text.length && !/[\s)]/.test(text[i + 1])) {
+      tokens.push({ type: 'not', word: '-', position });
+      i++;
+    } else if (char === '"') {
+      const { value, next } = quoted(i);
+      tokens.push({ type: 'phrase', value, position });
+      i = next;
+    } else {
+      let end = i;
+      while (end < text.length && !/[\s()"]/.test(text[end])) {
+        end++;
+      }
+      const word = text.slice(i, end);
+      const colon = word.indexOf(':');
+      const field = word.slice(0, colon);
+      if (colon > 0 && fieldNames.includes(field)) {
+        let value = word.slice(colon + 1);
+        if (!value && text[end] === '"') {
+          ({ value, next: end } = quoted(end));
+        }
+        if (!value.trim()) {
+          throw new QuerySyntaxError(`${field}: at character ${position} needs a value right after the colon, e.g. ${field}:"..."`);
+        }
+        tokens.push({ type: 'field', field, value: value.trim(), position });
+      } else if (Object.hasOwn(OPERATORS, word)) {
+        tokens.push({ type: OPERATORS[word], word, position });
+      } else {
+        tokens.push({ type: 'word', value: word, position });
+      }
+      i = end;
+    }
+  }
+  return tokens;
+}
+
+/**
+ * Read a fielded query into a tree of and, or and not nodes over text
+ * (words and phrases) and field nodes
+ * @param {string} text
+ * @param {string[]} fieldNames - The fields the route offers
+ * @returns {{ values: object|null, error: string|null }} - values is null for an empty query
+ */
+export function parseQuery(text, fieldNames) {
+  try {
+    const tokens = tokenize(String(text), fieldNames);
+    let index = 0;
+    const peek = () => tokens[index];
+    const endsGroup = (token) => !token || token.type === ')' || token.type === 'or';
+
+    // Something must follow an operator, e.g. not "garden OR" or "NOT )"
+    const expectTerm = (operator) => {
+      if (endsGroup(peek()) || peek().type === 'and') {
+        throw new QuerySyntaxError(`${operator.word} at character ${operator.position} needs something after it`);
+      }
+    };
+
+    const readOr = () => {
+      const nodes = [readAnd()];
+      while (peek()?.type === 'or') {
+        const operator = tokens[index++];
+        expectTerm(operator);
+        nodes.push(readAnd());
+      }
+      return nodes.length > 1 ? { type: 'or', nodes } : nodes[0];
+    };
+
+    const readAnd = () => {
+      const nodes = [readNot()];
+      while (!endsGroup(peek())) {
+        if (peek().type === 'and') {
+          const operator = tokens[index++];
+          expectTerm(operator);
+        }
+        nodes.push(readNot());
+      }
+      return nodes.length > 1 ? { type: 'and', nodes } : nodes[0];
+    };
+
+    const readNot = () => {
+      if (peek()?.type === 'not') {
+        const operator = tokens[index++];
+        expectTerm(operator);
+        return { type: 'not', node: readNot() };
+      }
+      return readTerm();
+    };
+
+    const readTerm = () => {
+      const token = tokens[index++];
+      switch (token.type) {
+        case '(': {
+          if (peek()?.type === ')') {
+            throw new QuerySyntaxError(`The brackets at character ${token.position} are empty`);
+          }
+          const node = readOr();
+          if (peek()?.type !== ')') {
+            throw new QuerySyntaxError(`The bracket at character ${token.position} is never closed`);
+          }
+          index++;
+          return node;
+        }
+        case ')':
+          throw new QuerySyntaxError(`The bracket at character ${token.position} closes nothing`);
+        case 'and':
+        case 'or':
+          throw new QuerySyntaxError(`${token.word} at character ${token.position} needs something before it`);
+        case 'field':
+          return { type: 'field', field: token.field, value: token.value };
+        default:
+          return { type: 'text', value: token.value, phrase: token.type === 'phrase' };
+      }
+    };
+
+    if (tokens.length === 0) {
+      return { values: null, error: null };
+    }
+    if (endsGroup(tokens[0]) || tokens[0].type === 'and') {
+      readTerm(); // says what's wrong with it
+    }
+    const query = readOr();
+    if (index < tokens.length) {
+      readTerm(); // an unmatched ), the only token readOr stops at
+    }
+    return { values: query, error: null };
+  } catch (error) {
+    if (error instanceof QuerySyntaxError) {
+      return { values: null, error: error.message };
+    }
+    throw error;
+  }
+}
+
+/**
+ * A parsed query as a condition, with each field checked by its list filter
+ * and text by the route's own
+ * @param {object} node - From parseQuery
+ * @param {Object<string, Function>} fields - List filters by field name
+ * @param {Function} text - List filter for words and phrases, e.g. contains(...)
+ * @returns {{ sql: string, params: any[] }|{ error: string }}
+ */
+export function compileQuery(node, fields, text) {
+  switch (node.type) {
+    case 'text':
+      return text(node.value, 'q', {});
+    case 'field':
+      return fields[node.field](node.value, node.field, {});
+    case 'not': {
+      const condition = compileQuery(node.node, fields, text);
+      // A NULL (e.g. no language) is as good as false, so it isn't left out
+      return condition.error ? condition : { sql: `NOT COALESCE(${condition.sql}, FALSE)`, params: condition.params };
+    }
+    default: {
+      const conditions = node.nodes.map(child => compileQuery(child, fields, text));
+      const failed = conditions.find(condition => condition.error);
+      if (failed) {
+        return failed;
+      }
+      return {
+        sql: `(${conditions.map(condition => condition.sql).join(node.type === 'and' ? ' AND ' : ' OR ')})`,
+        params: conditions.flatMap(condition => condition.params)
+      };
+    }
+  }
+}
+
+/**
+ * Whether a parsed query is only words, as every query was before fields
+ */
+export const isPlainQuery = (node) =>
+  (node.type === 'and' ? node.nodes : [node]).every(child => child.type === 'text' && !child.phrase);
+
+/**
+ * A parsed query as the words and phrases it asks for outright (for a
+ * route to rank by) and the rest, which must hold too: fields, negations,
+ * alternatives, and the phrases again, to be found as written
+ * @param {object} node - From parseQuery
+ * @returns {{ text: string, condition: object|null }} - condition is a node for compileQuery
+ */
+export function splitQuery(node) {
+  const nodes = node.type === 'and' ? node.nodes : [node];
+  const text = nodes.filter(child => child.type === 'text');
+  const rest = nodes.filter(child => child.type !== 'text' || child.phrase);
+  return {
+    text: text.map(child => child.value).join(' '),
+    condition: rest.length > 1 ? { type: 'and', nodes: rest } : rest[0] || null
+  };
+}
+
+/**
+ * A list filter for q that takes a fielded query, and a plain one as text
+ * does, so q=garden works as before
+ * @param {Object<string, Function>} fields - List filters by field name
+ * @param {Function} text - List filter for words and phrases
+ */
+export const fieldedQuery = (fields, text) => (value, name, query) => {
+  const { values: node, error } = parseQuery(value, Object.keys(fields));
+  if (error) {
+    return { error };
+  }
+  if (!node || isPlainQuery(node)) {
+    return text(value, name, query);
+  }
+  return compileQuery(node, fields, text);
+};
@@ -0,0 +1,48 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseQuery } from './query.js';
+
+const FIELDS = ['title', 'author', 'year'];
+
+test('- before brackets negates the group', () => {
+  assert.deepEqual(parseQuery('garden -(title:river OR author:Christie)', FIELDS), {
+    values: {
+      type: 'and',
+      nodes: [
+        { type: 'text', value: 'garden', phrase: false },
+        {
+          type: 'not',
+          node: {
+            type: 'or',
+            nodes: [
+              { type: 'field', field: 'title', value: 'river' },
+              { type: 'field', field: 'author', value: 'Christie' }
+            ]
+          }
+        }
+      ]
+    },
+    error: null
+  });
+});
+
+test('a word with a colon before an unknown field is a word', () => {
+  assert.deepEqual(parseQuery('Re:Zero', FIELDS), {
+    values: { type: 'text', value: 'Re:Zero', phrase: false },
+    error: null
+  });
+  assert.deepEqual(parseQuery('Re:Zero year:2014', FIELDS), {
+    values: {
+      type: 'and',
+      nodes: [
+        { type: 'text', value: 'Re:Zero', phrase: false },
+        { type: 'field', field: 'year', value: '2014' }
+      ]
+    },
+    error: null
+  });
+});
+
+test('a known field still needs a value', () => {
+  assert.match(parseQuery('title: garden', FIELDS).error, /title: at character 1 needs a value/);
+});
@@ -0,0 +1,29 @@
+import { contains } from '../lists/index.js';
+import { wordsOf } from './text.js';
+import { wordsLike } from './vocabulary.js';
+
+/**
+ * A list filter (see lists/index.js) like contains, that also finds rows
+ * whose column has, for every word of the text, a word it could mean - so
+ * "Jon Smiht" finds John Smith and "Jose" finds José
+ * @param {object} vocabulary - Of the column's words, from loadVocabulary
+ * @param {string} column - e.g. 'u.name'
+ * @param {...string} columns - Searched for the text as it is, as contains does
+ */
+export const containsOrSpelledLike = (vocabulary, column, ...columns) => {
+  const containsText = contains(...columns);
+  return (value, name, query) => {
+    const text = containsText(value, name, query);
+    const alternatives = [...new Set(wordsOf(value))]
+      .map(term => [...new Set(wordsLike(vocabulary, term).map(match => match.word))]);
+    if (alternatives.length === 0 || alternatives.some(words => words.length === 0)) {
+      return text;
+    }
+    // Words are only letters, digits and marks, so there's nothing to escape for LIKE
+    const eachWord = alternatives.map(words => `(${words.map(() => `${column} LIKE ?`).join(' OR ')})`);
+    return {
+      sql: `(${text.sql} OR (${eachWord.join(' AND ')}))`,
+      params: [...text.params, ...alternatives.flat().map(word => `%${word}%`)]
+    };
+  };
+};
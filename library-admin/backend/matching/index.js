@@ -0,0 +1,3 @@
+export { normalize, wordsOf, editDistance } from './text.js';
+export { createVocabulary, wordsLike, suggest, buildVocabulary, loadVocabulary } from './vocabulary.js';
+export { containsOrSpelledLike } from './filters.js';
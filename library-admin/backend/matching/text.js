@@ -0,0 +1,173 @@
+// A word as written: letters and digits, with any accents and vowel signs
+// (Unicode marks) that go with them
+const WORD = /[\p{L}\p{N}][\p{L}\p{N}\p{M}]*/gu;
+
+// Letters that don't come apart into a base letter and a mark
+const FOLDS = { ß: 'ss', æ: 'ae', œ: 'oe', ø: 'o', ł: 'l', đ: 'd', ð: 'd', þ: 'th', ı: 'i' };
+
+// Devanagari, spelled the way Latin-script catalogs usually spell Hindi,
+// Marathi and Nepali titles: without long-vowel marks, so आ and अ are both a
+const DEVANAGARI_VOWELS = {
+  'अ': 'a', 'आ': 'a', 'इ': 'i', 'ई': 'i', 'उ': 'u', 'ऊ': 'u', 'ऋ': 'ri',
+  'ए': 'e', 'ऐ': 'ai', 'ओ': 'o', 'औ': 'au', 'ऑ': 'o'
+};
+const DEVANAGARI_VOWEL_SIGNS = {
+  'ा': 'a', 'ि': 'i', 'ी': 'i', 'ु': 'u', 'ू': 'u', 'ृ': 'ri',
+  'े': 'e', 'ै': 'ai', 'ो': 'o', 'ौ': 'au', 'ॉ': 'o'
+};
+const DEVANAGARI_CONSONANTS = {
+  'क': 'k', 'ख': 'kh', 'ग': 'g', 'घ': 'gh', 'ङ': 'n',
+  'च': 'ch', 'छ': 'chh', 'ज': 'j', 'झ': 'jh', 'ञ': 'n',
+  'ट': 't', 'ठ': 'th', 'ड': 'd', 'ढ': 'dh', 'ण': 'n',
+  'त': 't', 'थ': 'th', 'द': 'd', 'ध': 'dh', 'न': 'n',
+  'प': 'p', 'फ': 'ph', 'ब': 'b', 'भ': 'bh', 'म': 'm',
+  'य': 'y', 'र': 'r', 'ल': 'l', 'ळ': 'l', 'व': 'v',
+  'श': 'sh', 'ष': 'sh', 'स': 's', 'ह': 'h'
+};
+// With a nukta (dot below), as in Urdu loanwords
+const DEVANAGARI_NUKTA_CONSONANTS = {
+  'क': 'q', 'ख': 'kh', 'ग': 'gh', 'ज': 'z', 'ड': 'r', 'ढ': 'rh', 'फ': 'f', 'य': 'y'
+};
+const DEVANAGARI_SIGNS = { 'ं': 'n', 'ँ': 'n', 'ः': 'h' };
+const NUKTA = '़';
+const VIRAMA = '्';
+const DEVANAGARI = /[ऀ-ॿ]/;
+
+// Continues the word it's in, rather than ending it
+const inWord = (char) => Boolean(char) && DEVANAGARI.test(char) && char !== '।' && char !== '॥';
+
+/**
+ * Whether the consonant at index is sounded with a vowel: its own sign, or
+ * the "a" it carries when neither a sign nor a virama follows, unless it
+ * ends the word
+ */
+function hasVowel(chars, index) {
+  const next = chars[chars[index + 1] === NUKTA ? index + 2 : index + 1];
+  return Boolean(DEVANAGARI_VOWEL_SIGNS[next]) || (next !== VIRAMA && inWord(next));
+}
+
+/**
+ * Devanagari text in Latin letters. A consonant carries an "a" unless a
+ * vowel sign or virama replaces it, or it ends the word (गोदान is godan),
+ * or it comes between a vowel and a consonant with a vowel of its own, where
+ * Hindi drops it (प्रेमचंद is premchand, not premachand).
+ * @param {string} text - Decomposed (NFD), so nuktas are separate
+ * @returns {string}
+ */
+function transliterate(text) {
+  const chars = [...text];
+  let latin = '';
+  for (let i = 0; i < chars.length; i++) {
+    const char = chars[i];
+    if (DEVANAGARI_CONSONANTS[char]) {
+      const afterVowel = /[aeiou]$/.test(latin);
+      if (chars[i + 1] === NUKTA) {
+        latin += DEVANAGARI_NUKTA_CONSONANTS[char] || DEVANAGARI_CONSONANTS[char];
+        i++;
+      } else {
+        latin += DEVANAGARI_CONSONANTS[char];
+      }
+      const next = chars[i + 1];
+      if (DEVANAGARI_VOWEL_SIGNS[next]) {
+        latin += DEVANAGARI_VOWEL_SIGNS[next];
+        i++;
+      } else if (next === VIRAMA) {
+        i++;
+      } else if (inWord(next) && !(afterVowel && DEVANAGARI_CONSONANTS[next] && hasVowel(chars, i + 1))) {
+        latin += 'a';
+      }
+    } else if (DEVANAGARI_VOWELS[char]) {
+      latin += DEVANAGARI_VOWELS[char];
+    } else if (DEVANAGARI_SIGNS[char]) {
+      latin += DEVANAGARI_SIGNS[char];
+    } else if (char >= '०' && char <= '९') {
+      latin += String(char.charCodeAt(0) - '०'.charCodeAt(0));
+    } else if (char === '।' || char === '॥') {
+      latin += ' ';
+    } else if (!DEVANAGARI.test(char)) {
+      latin += char;
+    }
+  }
+  return latin;
+}
+
+/**
+ * Text the way spellings are compared: lower-case, without accents, and
+ * Devanagari in Latin letters, so García, garcia and GARCIA are all garcia
+ * and गोदान is godan
+ * @param {string} text
+ * @returns {string}
+ */
+export function normalize(text) {
+  let folded = String(text).toLowerCase().normalize('NFD');
+  if (DEVANAGARI.test(folded)) {
+    folded = transliterate(folded);
+  }
+  return folded
+    .normalize('NFKD')
+    .replace(/\p{M}/gu, '')
+    .replace(/[ßæœøłđðþı]/g, letter => FOLDS[letter]);
+}
+
+/**
+ * The words of some text as written, lower-cased
+ * @param {string} text
+ * @returns {string[]}
+ */
+export function wordsOf(text) {
+  return String(text).toLowerCase().match(WORD) || [];
+}
+
+/**
+ * How many letters must be added, removed, changed or swapped with the next
+ * to turn one word into the other, or max + 1 if it's more than max
+ * @param {string} a
+ * @param {string} b
+ * @param {number} max
+ * @returns {number}
+ */
+export function editDistance(a, b, max) {
+  const left = [...a];
+  const right = [...b];
+  if (Math.abs(left.length - right.length) > max) {
+    return max + 1;
+  }
+
+  // Rows of the usual table, keeping the two before this one for swaps
+  let before = null;
+  let previous = Array.from({ length: right.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= left.length; i++) {
+    const current = [i];
+    let best = i;
+    for (let j = 1; j <= right.length; j++) {
+      const cost = left[i - 1] === right[j - 1] ? 0 : 1;
+      let distance = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (before && i > 1 && j > 1 && left[i - 1] === right[j - 2] && left[i - 2] === right[j - 1]) {
+        distance = Math.min(distance, before[j - 2] + 1);
+      }
+      current.push(distance);
+      best = Math.min(best, distance);
+    }
+    if (best > max) {
+      return max + 1;
+    }
+    before = previous;
+    previous = current;
+  }
+  return Math.min(previous[right.length], max + 1);
+}
+
+/**
+ * The three-letter runs of a normalized word, padded so its start counts
+ * for more (tolstoy: "  t", " to", "tol", ... "oy ")
+ * @param {string} key
+ * @returns {string[]}
+ */
+export function trigrams(key) {
+  const letters = [' ', ' ', ...key, ' '];
+  const runs = new Set();
+  for (let i = 0; i + 3 <= letters.length; i++) {
+    runs.add(letters.slice(i, i + 3).join(''));
+  }
+  return [...runs];
+}
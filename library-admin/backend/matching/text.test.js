@@ -0,0 +1,35 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { normalize, wordsOf, editDistance, trigrams } from './text.js';
+
+test('names are compared without case, accents or special letters', () => {
+  assert.equal(normalize('García'), 'garcia');
+  assert.equal(normalize('GARCIA'), 'garcia');
+  assert.equal(normalize('Straße'), 'strasse');
+});
+
+test('Devanagari is spelled out in Latin letters, as it usually is in the catalog', () => {
+  assert.equal(normalize('गोदान'), 'godan');
+  assert.equal(normalize('प्रेमचंद'), 'premchand');
+  assert.equal(normalize('कमला'), 'kamla');
+  assert.equal(normalize('ग़ालिब'), 'ghalib');
+});
+
+test('a text\'s words are lower-cased, leaving out punctuation', () => {
+  assert.deepEqual(wordsOf('Leo  Tolstoy, War & Peace'), ['leo', 'tolstoy', 'war', 'peace']);
+});
+
+test('letters changed, added, dropped or swapped each count as one edit', () => {
+  assert.equal(editDistance('tolstoy', 'tolstoi', 2), 1);
+  assert.equal(editDistance('ab', 'ba', 2), 1);
+  assert.equal(editDistance('tolstoy', 'tolstoy', 2), 0);
+});
+
+test('words further apart than allowed are one past the limit, however far', () => {
+  assert.equal(editDistance('kitten', 'sitting', 2), 3);
+  assert.equal(editDistance('a', 'abcdef', 2), 3);
+});
+
+test('a word\'s runs of three letters are padded at the start', () => {
+  assert.deepEqual(trigrams('leo'), ['  l', ' le', 'leo', 'eo ']);
+});
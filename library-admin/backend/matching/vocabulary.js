@@ -0,0 +1,207 @@
+import { CacheKeys } from '../cache/index.js';
+import { normalize, wordsOf, editDistance, trigrams } from './text.js';
+
+// Where each vocabulary's words come from, and the cache entry that says
+// which build is current (cleared with the books or users it's built from)
+const VOCABULARY_SOURCES = {
+  // Words of titles and writers' names, for the catalog search and book picker
+  catalog: {
+    cacheKey: CacheKeys.bookVocabulary(),
+    sql: 'SELECT title AS text FROM books UNION ALL SELECT name FROM writers'
+  },
+  // Words of patrons' names, for the user list and user picker
+  users: {
+    cacheKey: CacheKeys.userVocabulary(),
+    sql: 'SELECT name AS text FROM users'
+  }
+};
+// Rebuilt at least this often, for changes that don't clear the cache (e.g. a new writer)
+const VOCABULARY_TTL = 600;
+
+// Words starting with a short term can be many - only the commonest are searched for
+const PREFIX_LIMIT = 20;
+const FUZZY_LIMIT = 10;
+
+// The vocabularies this process has built, by name, with the build they are
+const built = new Map();
+
+/**
+ * How many typos a term of this length can have and still find a word:
+ * none up to 3 letters, one up to 5, two beyond
+ * @param {string} key - Normalized
+ */
+const allowedEdits = (key) => {
+  const length = [...key].length;
+  return length <= 3 ? 0 : length <= 5 ? 1 : 2;
+};
+
+/**
+ * A vocabulary of the words in some texts, for finding the words a search
+ * term could mean: those that start with it, spelled with or without
+ * accents or in Devanagari, and those a typo or two away
+ * @param {string[]} texts
+ * @returns {{ forms: Map<string, Map<string, number>>, keys: string[],
+ *             counts: Map<string, number>, trigramIndex: Map<string, string[]> }}
+ */
+export function createVocabulary(texts) {
+  // Each normalized word, with its spellings and how often each is used
+  const forms = new Map();
+  const counts = new Map();
+  for (const text of texts) {
+    for (const word of wordsOf(text || '')) {
+      const key = normalize(word);
+      if (!key) continue;
+      if (!forms.has(key)) {
+        forms.set(key, new Map());
+      }
+      forms.get(key).set(word, (forms.get(key).get(word) || 0) + 1);
+      counts.set(key, (counts.get(key) || 0) + 1);
+    }
+  }
+
+  const trigramIndex = new Map();
+  for (const key of forms.keys()) {
+    for (const trigram of trigrams(key)) {
+      if (!trigramIndex.has(trigram)) {
+        trigramIndex.set(trigram, []);
+      }
+      trigramIndex.get(trigram).push(key);
+    }
+  }
+  return { forms, keys: [...forms.keys()].sort(), counts, trigramIndex };
+}
+
+/**
+ * Words of the vocabulary starting with the key, commonest first
+ */
+function keysStartingWith(vocabulary, key, limit) {
+  const { keys, counts } = vocabulary;
+  let low = 0;
+  let high = keys.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (keys[middle] < key) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+  const matches = [];
+  for (let i = low; i < keys.length && keys[i].startsWith(key); i++) {
+    matches.push(keys[i]);
+  }
+  return matches.sort((a, b) => counts.get(b) - counts.get(a)).slice(0, limit);
+}
+
+/**
+ * Words of the vocabulary at most maxEdits typos from the key, closest and
+ * then commonest first. Only words sharing a trigram with it are compared.
+ */
+function keysNear(vocabulary, key, maxEdits, limit) {
+  const { trigramIndex, counts } = vocabulary;
+  const candidates = new Set();
+  for (const trigram of trigrams(key)) {
+    for (const candidate of trigramIndex.get(trigram) || []) {
+      candidates.add(candidate);
+    }
+  }
+  const near = [];
+  for (const candidate of candidates) {
+    const distance = editDistance(key, candidate, maxEdits);
+    if (distance <= maxEdits && candidate !== key) {
+      near.push({ key: candidate, distance });
+    }
+  }
+  return near
+    .sort((a, b) => a.distance - b.distance || counts.get(b.key) - counts.get(a.key))
+    .slice(0, limit)
+    .map(match => match.key);
+}
+
+// Every spelling of a vocabulary word, commonest first
+const formsOf = (vocabulary, key) =>
+  [...vocabulary.forms.get(key).entries()].sort((a, b) => b[1] - a[1]).map(([word]) => word);
+
+/**
+ * The words a search term could mean, as written in the texts: those
+ * starting with it once accents and scripts are set aside (similar: false),
+ * and those a typo or two away (similar: true)
+ * @param {object} vocabulary - From createVocabulary
+ * @param {string} term
+ * @returns {Array<{ word: string, similar: boolean }>}
+ */
+export function wordsLike(vocabulary, term) {
+  const key = normalize(term);
+  if (!key) {
+    return [];
+  }
+  const starting = keysStartingWith(vocabulary, key, PREFIX_LIMIT);
+  const edits = allowedEdits(key);
+  const near = edits > 0
+    ? keysNear(vocabulary, key, edits, FUZZY_LIMIT).filter(match => !starting.includes(match))
+    : [];
+  return [
+    ...starting.flatMap(match => formsOf(vocabulary, match).map(word => ({ word, similar: false }))),
+    ...near.flatMap(match => formsOf(vocabulary, match).map(word => ({ word, similar: true })))
+  ];
+}
+
+/**
+ * A search the user may have meant, with each term that starts no word of
+ * the vocabulary swapped for the closest word, or null if there's none
+ * @param {object} vocabulary - From createVocabulary
+ * @param {string[]} terms
+ * @returns {string|null}
+ */
+export function suggest(vocabulary, terms) {
+  let changed = false;
+  const suggestion = terms.map(term => {
+    const key = normalize(term);
+    if (!key || keysStartingWith(vocabulary, key, 1).length > 0) {
+      return term;
+    }
+    // Looser than the search itself: it already tried the words allowedEdits allows
+    const [closest] = keysNear(vocabulary, key, allowedEdits(key) + 1, 1);
+    if (!closest) {
+      return term;
+    }
+    changed = true;
+    return formsOf(vocabulary, closest)[0];
+  });
+  return changed ? suggestion.join(' ') : null;
+}
+
+/**
+ * Build a vocabulary from the database
+ * @param {object} db
+ * @param {string} name - catalog or users
+ */
+export async function buildVocabulary(db, name) {
+  const [rows] = await db.query(VOCABULARY_SOURCES[name].sql);
+  return createVocabulary(rows.map(row => row.text));
+}
+
+/**
+ * A vocabulary, built once and kept until the books or users it's built
+ * from change (which clears its cache entry) or VOCABULARY_TTL passes
+ * @param {object} db
+ * @param {object} cache - CacheInterface
+ * @param {string} name - catalog or users
+ */
+export async function loadVocabulary(db, cache, name) {
+  const { cacheKey } = VOCABULARY_SOURCES[name];
+  const current = await cache.get(cacheKey);
+  const kept = built.get(name);
+  if (current && kept?.build === current) {
+    return kept.vocabulary;
+  }
+
+  const vocabulary = await buildVocabulary(db, name);
+  // Another server process may have built it already; otherwise this is the new build
+  const build = current || `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+  if (!current) {
+    await cache.set(cacheKey, build, VOCABULARY_TTL);
+  }
+  built.set(name, { build, vocabulary });
+  return vocabulary;
+}
@@ -0,0 +1,33 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createVocabulary, wordsLike, suggest } from './vocabulary.js';
+import { containsOrSpelledLike } from './filters.js';
+
+const vocabulary = createVocabulary(['Anna Karenina', 'War and Peace', 'Leo Tolstoy', 'José Saramago', 'गोदान', 'Godan']);
+
+test('a term finds the words it starts, however they are written', () => {
+  assert.deepEqual(wordsLike(vocabulary, 'jose'), [{ word: 'josé', similar: false }]);
+  assert.deepEqual(wordsLike(vocabulary, 'kar'), [{ word: 'karenina', similar: false }]);
+  assert.deepEqual(wordsLike(vocabulary, 'godan'), [{ word: 'गोदान', similar: false }, { word: 'godan', similar: false }]);
+});
+
+test('a misspelled term finds the words it was probably meant to be', () => {
+  assert.deepEqual(wordsLike(vocabulary, 'tolstio'), [{ word: 'tolstoy', similar: true }]);
+  assert.deepEqual(wordsLike(vocabulary, 'xyzzy'), []);
+});
+
+test('a suggestion replaces only the misspelled terms, and there is none when nothing is', () => {
+  assert.equal(suggest(vocabulary, ['tolstio', 'peace']), 'tolstoy peace');
+  assert.equal(suggest(vocabulary, ['war']), null);
+  assert.equal(suggest(vocabulary, ['xyzzy']), null);
+});
+
+test('a name filter also finds the words a misspelled name could mean', () => {
+  const filter = containsOrSpelledLike(createVocabulary(['Leo Tolstoy']), 'u.name', 'u.name');
+  assert.deepEqual(filter('tolstio', 'name', {}), {
+    sql: '((u.name LIKE ?) OR ((u.name LIKE ?)))',
+    params: ['%tolstio%', '%tolstoy%']
+  });
+  // A word with nothing like it can't match, so the text is searched for as it is
+  assert.deepEqual(filter('zzzzz', 'name', {}), { sql: '(u.name LIKE ?)', params: ['%zzzzz%'] });
+});
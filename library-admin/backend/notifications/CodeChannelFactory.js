@@ -0,0 +1,51 @@
+import { ConsoleCodeChannel } from './ConsoleCodeChannel.js';
+import { EmailCodeChannel } from './EmailCodeChannel.js';
+
+/**
+ * Code Channel Factory - Creates the channel patron sign-in codes go out on
+ *
+ * Supported types:
+ * - 'console': Log codes only (default)
+ * - 'email': Mail codes through the mail transport
+ */
+export class CodeChannelFactory {
+  static channelTypes = {
+    'console': ConsoleCodeChannel,
+    'email': EmailCodeChannel,
+  };
+
+  /**
+   * Create a code channel
+   * @param {string} type - Channel type ('console' | 'email')
+   * @param {object} options - Channel-specific options (e.g. transport, libraryName)
+   * @returns {CodeChannelInterface} - Channel instance
+   */
+  static create(type = 'console', options = {}) {
+    const ChannelClass = this.channelTypes[type];
+
+    if (!ChannelClass) {
+      throw new Error(`Unknown code channel: ${type}. Supported types: ${Object.keys(this.channelTypes).join(', ')}`);
+    }
+
+    console.log(`[CodeChannelFactory] Creating ${type} code channel`);
+    return new ChannelClass(options);
+  }
+
+  /**
+   * Register a custom code channel, e.g. an SMS gateway
+   * @param {string} name - Channel type name
+   * @param {class} ChannelClass - Class that extends CodeChannelInterface
+   */
+  static register(name, ChannelClass) {
+    this.channelTypes[name] = ChannelClass;
+    console.log(`[CodeChannelFactory] Registered custom code channel: ${name}`);
+  }
+
+  /**
+   * Get list of available channel types
+   * @returns {string[]}
+   */
+  static getAvailableTypes() {
+    return Object.keys(this.channelTypes);
+  }
+}
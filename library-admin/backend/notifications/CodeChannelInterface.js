@@ -0,0 +1,17 @@
+/**
+ * Code Channel Interface - Contract for delivering patron sign-in codes
+ * All code channels must implement these methods
+ */
+export class CodeChannelInterface {
+  /**
+   * Deliver a one-time sign-in code to a patron
+   * @param {object} patron - Row from users (name, email, phone)
+   * @param {string} code - The code in plain text
+   * @param {object} details
+   * @param {number} details.expiresInMinutes - How long the code can be used
+   * @returns {Promise<void>}
+   */
+  async sendCode(patron, code, details) {
+    throw new Error('Method sendCode() must be implemented');
+  }
+}
@@ -0,0 +1,13 @@
+import { CodeChannelInterface } from './CodeChannelInterface.js';
+
+/**
+ * Console Code Channel
+ * Logs sign-in codes instead of sending them - the default, so the patron
+ * portal can be tried locally without mail or SMS set up. The server only
+ * starts with it when NODE_ENV=development.
+ */
+export class ConsoleCodeChannel extends CodeChannelInterface {
+  async sendCode(patron, code, { expiresInMinutes }) {
+    console.log(`[ConsoleCodeChannel] Sign-in code for ${patron.name} (user ${patron.id}): ${code} - valid for ${expiresInMinutes} minutes`);
+  }
+}
@@ -0,0 +1,24 @@
+import { MailTransportInterface } from './MailTransportInterface.js';
+
+/**
+ * Console Mail Transport
+ * Logs messages instead of sending them - the default, so a development
+ * server never emails real patrons by accident.
+ */
+export class ConsoleTransport extends MailTransportInterface {
+  constructor(options = {}) {
+    super();
+    this.from = options.from;
+    this.sentCount = 0;
+  }
+
+  async send({ to, subject, text }) {
+    this.sentCount++;
+    console.log(`[ConsoleTransport] From: ${this.from}\nTo: ${to}\nSubject: ${subject}\n\n${text}\n`);
+    return { messageId: `console-${Date.now()}-${this.sentCount}` };
+  }
+
+  async verify() {
+    return true;
+  }
+}
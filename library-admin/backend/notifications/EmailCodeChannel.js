@@ -0,0 +1,29 @@
+import { CodeChannelInterface } from './CodeChannelInterface.js';
+
+/**
+ * Email Code Channel
+ * Mails the code to the patron's address on file through the configured mail
+ * transport (see mailConfig).
+ */
+export class EmailCodeChannel extends CodeChannelInterface {
+  /**
+   * @param {object} options
+   * @param {MailTransportInterface} options.transport
+   * @param {string} options.libraryName - Shown in the subject and signature
+   */
+  constructor({ transport, libraryName }) {
+    super();
+    this.transport = transport;
+    this.libraryName = libraryName;
+  }
+
+  async sendCode(patron, code, { expiresInMinutes }) {
+    await this.transport.send({
+      to: patron.email,
+      subject: `Your ${this.libraryName} sign-in code`,
+      text: `Dear ${patron.name},\n\n`
+        + `Your sign-in code is ${code}. It can be used once in the next ${expiresInMinutes} minutes.\n\n`
+        + `If you didn't ask to sign in, you can ignore this email.\n\n${this.libraryName}`
+    });
+  }
+}
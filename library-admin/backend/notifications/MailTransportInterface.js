@@ -0,0 +1,25 @@
+/**
+ * Mail Transport Interface - Contract for all mail transport implementations
+ * All mail transports must implement these methods
+ */
+export class MailTransportInterface {
+  /**
+   * Send a plain-text email
+   * @param {object} message
+   * @param {string} message.to - Recipient address
+   * @param {string} message.subject
+   * @param {string} message.text - Plain-text body
+   * @returns {Promise<{ messageId: string|null }>}
+   */
+  async send(message) {
+    throw new Error('Method send() must be implemented');
+  }
+
+  /**
+   * Check the transport can deliver (e.g. the SMTP server accepts connections)
+   * @returns {Promise<boolean>}
+   */
+  async verify() {
+    throw new Error('Method verify() must be implemented');
+  }
+}
@@ -0,0 +1,32 @@
+import nodemailer from 'nodemailer';
+import { MailTransportInterface } from './MailTransportInterface.js';
+
+/**
+ * SMTP Mail Transport
+ * Sends through any SMTP server. For testing, point it at a local catch-all
+ * server (e.g. MailHog or smtp4dev on localhost:1025) and nothing leaves the machine.
+ */
+export class SmtpTransport extends MailTransportInterface {
+  constructor(options = {}) {
+    super();
+    this.from = options.from;
+    this.transporter = nodemailer.createTransport({
+      host: options.host || 'localhost',
+      port: options.port || 25,
+      secure: options.secure || false,
+      // Leave SMTP_USER empty for catch-all servers, which don't ask for a login
+      auth: options.user ? { user: options.user, pass: options.password } : undefined,
+      // Catch-all servers rarely have a trusted certificate
+      tls: { rejectUnauthorized: options.rejectUnauthorized ?? true },
+    });
+  }
+
+  async send({ to, subject, text }) {
+    const info = await this.transporter.sendMail({ from: this.from, to, subject, text });
+    return { messageId: info.messageId || null };
+  }
+
+  async verify() {
+    return this.transporter.verify();
+  }
+}
@@ -0,0 +1,54 @@
+import { ConsoleTransport } from './ConsoleTransport.js';
+import { SmtpTransport } from './SmtpTransport.js';
+
+/**
+ * Mail Transport Factory - Creates mail transports based on configuration
+ *
+ * Supported types:
+ * - 'console': Log messages only (default)
+ * - 'smtp': Send through an SMTP server
+ */
+export class TransportFactory {
+  static transportTypes = {
+    'console': ConsoleTransport,
+    'smtp': SmtpTransport,
+  };
+
+  /**
+   * Create a mail transport based on configuration
+   * @param {object} config - Mail configuration
+   * @param {string} config.type - Transport type ('console' | 'smtp')
+   * @param {string} config.from - Sender address
+   * @param {object} config.options - Transport-specific options
+   * @returns {MailTransportInterface} - Transport instance
+   */
+  static create(config = {}) {
+    const type = config.type || 'console';
+    const TransportClass = this.transportTypes[type];
+
+    if (!TransportClass) {
+      throw new Error(`Unknown mail transport: ${type}. Supported types: ${Object.keys(this.transportTypes).join(', ')}`);
+    }
+
+    console.log(`[TransportFactory] Creating ${type} mail transport`);
+    return new TransportClass({ ...config.options, from: config.from });
+  }
+
+  /**
+   * Register a custom mail transport
+   * @param {string} name - Transport type name
+   * @param {class} TransportClass - Class that extends MailTransportInterface
+   */
+  static register(name, TransportClass) {
+    this.transportTypes[name] = TransportClass;
+    console.log(`[TransportFactory] Registered custom mail transport: ${name}`);
+  }
+
+  /**
+   * Get list of available transport types
+   * @returns {string[]}
+   */
+  static getAvailableTypes() {
+    return Object.keys(this.transportTypes);
+  }
+}
@@ -0,0 +1,46 @@
+import { TransportFactory } from './TransportFactory.js';
+import { CodeChannelFactory } from './CodeChannelFactory.js';
+import { mailConfig, patronAuthConfig, reminderConfig } from '../config.js';
+
+// Export interfaces and classes for custom transports
+export { MailTransportInterface } from './MailTransportInterface.js';
+export { ConsoleTransport } from './ConsoleTransport.js';
+export { SmtpTransport } from './SmtpTransport.js';
+export { TransportFactory } from './TransportFactory.js';
+export { CodeChannelInterface } from './CodeChannelInterface.js';
+export { ConsoleCodeChannel } from './ConsoleCodeChannel.js';
+export { EmailCodeChannel } from './EmailCodeChannel.js';
+export { CodeChannelFactory } from './CodeChannelFactory.js';
+export { TEMPLATE_FIELDS, unknownFields, renderTemplate } from './templates.js';
+export { renderNotice, findDueReminders, previewReminders, sendDueReminders, sendTestNotice } from './reminders.js';
+export { renderRequestNotice, sendRequestNotices } from './requests.js';
+export { renderReclaimNotice, sendReclaimNotices } from './reclaims.js';
+
+// Create singleton transport instance based on config
+let transportInstance = null;
+let codeChannelInstance = null;
+
+/**
+ * Get the mail transport singleton instance
+ * @returns {MailTransportInterface}
+ */
+export function getMailTransport() {
+  if (!transportInstance) {
+    transportInstance = TransportFactory.create(mailConfig);
+  }
+  return transportInstance;
+}
+
+/**
+ * Get the channel patron sign-in codes are sent on (singleton)
+ * @returns {CodeChannelInterface}
+ */
+export function getCodeChannel() {
+  if (!codeChannelInstance) {
+    codeChannelInstance = CodeChannelFactory.create(patronAuthConfig.codeChannel, {
+      transport: getMailTransport(),
+      libraryName: reminderConfig.libraryName
+    });
+  }
+  return codeChannelInstance;
+}
@@ -0,0 +1,68 @@
+import { reminderConfig } from '../config.js';
+import { formatNoticeDate } from './templates.js';
+
+/**
+ * Ask a borrower to bring back a copy its owner is reclaiming
+ *
+ * Only open reclaims of copies out on loan to a patron with an email address
+ * are sent; borrower_notified_at is set once the email goes out, and staff
+ * can send it again from the owner's page.
+ */
+
+const RECLAIM_LOAN_COLUMNS = `
+  r.id, u.name AS patronName, u.email, b.title AS bookTitle, c.barcode AS copyBarcode,
+  DATE_FORMAT(bc.due_date, '%Y-%m-%d') AS dueDate
+`;
+
+/**
+ * Write the return request for a reclaimed copy
+ * @param {object} loan - Row with patronName, bookTitle, copyBarcode, dueDate
+ * @returns {{ subject: string, body: string }}
+ */
+export function renderReclaimNotice(loan) {
+  const { libraryName } = reminderConfig;
+  return {
+    subject: `Please return "${loan.bookTitle}"`,
+    body: `Dear ${loan.patronName},\n\n`
+      + `"${loan.bookTitle}" (copy ${loan.copyBarcode}), which you have on loan, was lent to the library by its owner, `
+      + `who has asked for it back. Please return it as soon as you can, and no later than its due date of `
+      + `${formatNoticeDate(loan.dueDate)}. It can't be renewed.\n\nThank you,\n${libraryName}`,
+  };
+}
+
+/**
+ * Email the borrower of each reclaimed copy that's out on loan
+ * @param {object} pool - Connection pool
+ * @param {MailTransportInterface} transport
+ * @param {Array<string|number>} reclaimIds
+ * @returns {Promise<{ sent: number, failed: number }>} Copies on the shelf count as neither
+ */
+export async function sendReclaimNotices(pool, transport, reclaimIds) {
+  if (reclaimIds.length === 0) {
+    return { sent: 0, failed: 0 };
+  }
+  const [loans] = await pool.query(`
+    SELECT ${RECLAIM_LOAN_COLUMNS}
+    FROM copy_reclaims r
+    JOIN book_copies c ON r.copy_id = c.id
+    JOIN books b ON c.book_id = b.id
+    JOIN books_circulation bc ON bc.copy_id = c.id AND bc.status = 'issued'
+    JOIN users u ON bc.user_id = u.id
+    WHERE r.id IN (?) AND r.status = 'open' AND u.email <> ''
+  `, [reclaimIds]);
+
+  let sent = 0;
+  let failed = 0;
+  for (const loan of loans) {
+    const notice = renderReclaimNotice(loan);
+    try {
+      await transport.send({ to: loan.email, subject: notice.subject, text: notice.body });
+      await pool.query('UPDATE copy_reclaims SET borrower_notified_at = NOW() WHERE id = ?', [loan.id]);
+      sent++;
+    } catch (error) {
+      console.error(`Error asking the borrower to return reclaimed copy (reclaim ${loan.id}):`, error.message);
+      failed++;
+    }
+  }
+  return { sent, failed };
+}
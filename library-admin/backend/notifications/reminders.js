@@ -0,0 +1,224 @@
+import { reminderConfig } from '../config.js';
+import { renderTemplate, formatNoticeDate } from './templates.js';
+
+/**
+ * Loan reminders: courtesy notices before the due date, overdue notices after
+ *
+ * Each row of reminder_notices is one step of the schedule: offset_days is
+ * relative to the due date (-3 = three days before, 7 = a week overdue). A
+ * loan gets the latest step it has reached, once per due date, so renewing a
+ * loan starts its reminders over, and a loan that is already well overdue
+ * when the notices are set up gets only the most recent one rather than the
+ * whole series at once.
+ *
+ * reminder_log records every send. A send is claimed (status 'sending') before
+ * the email goes out, so two servers or an overlapping manual run can't both
+ * send it; failed sends are retried up to reminderConfig.maxAttempts times.
+ * A claim left at 'sending' by a crash is never retried - better a missed
+ * reminder than a duplicate.
+ *
+ * Only loans still on loan are reminded - not lost, claimed returned or
+ * written off - and only patrons with an email address.
+ */
+
+const LOAN_COLUMNS = `
+  bc.id AS issueId, bc.user_id AS userId, u.name AS patronName, u.email,
+  b.title AS bookTitle, c.barcode AS copyBarcode,
+  DATE_FORMAT(bc.issue_date, '%Y-%m-%d') AS issueDate,
+  DATE_FORMAT(bc.due_date, '%Y-%m-%d') AS dueDate
+`;
+
+const LOAN_JOINS = `
+  FROM books_circulation bc
+  JOIN users u ON bc.user_id = u.id
+  JOIN books b ON bc.book_id = b.id
+  LEFT JOIN book_copies c ON bc.copy_id = c.id
+`;
+
+const REMINDABLE = `bc.status = 'issued' AND u.email <> ''`;
+
+// Stand-in loan for test sends from the notices screen
+const SAMPLE_LOAN = {
+  patronName: 'Sample Patron',
+  bookTitle: 'Sample Book Title',
+  copyBarcode: 'C-000001',
+};
+
+/**
+ * Render a notice for a loan
+ * @param {{ subject: string, body: string }} notice
+ * @param {object} loan - Row with patronName, bookTitle, copyBarcode, issueDate, dueDate
+ * @param {number} daysFromDue - Days past the due date on the day it's sent (negative = before)
+ * @returns {{ subject: string, body: string }}
+ */
+export function renderNotice(notice, loan, daysFromDue) {
+  const values = {
+    patronName: loan.patronName,
+    bookTitle: loan.bookTitle,
+    copyBarcode: loan.copyBarcode || '',
+    issueDate: formatNoticeDate(loan.issueDate),
+    dueDate: formatNoticeDate(loan.dueDate),
+    daysUntilDue: Math.max(0, -daysFromDue),
+    daysOverdue: Math.max(0, daysFromDue),
+    libraryName: reminderConfig.libraryName,
+  };
+  return {
+    subject: renderTemplate(notice.subject, values),
+    body: renderTemplate(notice.body, values),
+  };
+}
+
+const toReminder = (row, daysFromDue, sendDate) => ({
+  issueId: String(row.issueId),
+  userId: String(row.userId),
+  patronName: row.patronName,
+  email: row.email,
+  bookTitle: row.bookTitle,
+  copyBarcode: row.copyBarcode,
+  dueDate: row.dueDate,
+  noticeId: String(row.noticeId),
+  noticeName: row.noticeName,
+  offsetDays: row.offsetDays,
+  sendDate,
+  ...renderNotice(row, row, daysFromDue),
+});
+
+/**
+ * Find reminders that should go out now and haven't been sent
+ * @param {object} db - Pool or transaction connection
+ * @param {number} [limit]
+ * @returns {Promise<object[]>}
+ */
+export async function findDueReminders(db, limit = reminderConfig.batchSize) {
+  const [rows] = await db.query(`
+    SELECT due.*, n.name AS noticeName, n.offset_days AS offsetDays, n.subject, n.body,
+           DATE_FORMAT(CURDATE(), '%Y-%m-%d') AS sendDate
+    FROM (
+      SELECT ${LOAN_COLUMNS},
+             DATEDIFF(CURDATE(), bc.due_date) AS daysFromDue,
+             (SELECT n.id FROM reminder_notices n
+              WHERE n.active AND n.offset_days <= DATEDIFF(CURDATE(), bc.due_date)
+              ORDER BY n.offset_days DESC LIMIT 1) AS noticeId
+      ${LOAN_JOINS}
+      WHERE ${REMINDABLE}
+    ) due
+    JOIN reminder_notices n ON n.id = due.noticeId
+    WHERE NOT EXISTS (
+      SELECT 1 FROM reminder_log l
+      WHERE l.issue_id = due.issueId AND l.notice_id = due.noticeId AND l.due_date = due.dueDate
+        AND (l.status <> 'failed' OR l.attempts >= ?)
+    )
+    ORDER BY due.dueDate, due.issueId
+    LIMIT ?
+  `, [reminderConfig.maxAttempts, limit]);
+  return rows.map(row => toReminder(row, row.daysFromDue, row.sendDate));
+}
+
+/**
+ * Preview the reminders going out today and over the coming days
+ * Later days assume nothing is returned or renewed in the meantime.
+ * @param {object} db - Pool or transaction connection
+ * @param {number} days - How many days ahead to look
+ * @returns {Promise<object[]>} Sorted by send date
+ */
+export async function previewReminders(db, days) {
+  const dueNow = await findDueReminders(db, 500);
+  const [rows] = await db.query(`
+    SELECT ${LOAN_COLUMNS},
+           n.id AS noticeId, n.name AS noticeName, n.offset_days AS offsetDays, n.subject, n.body,
+           DATE_FORMAT(DATE_ADD(bc.due_date, INTERVAL n.offset_days DAY), '%Y-%m-%d') AS sendDate
+    ${LOAN_JOINS}
+    JOIN reminder_notices n ON n.active
+    WHERE ${REMINDABLE}
+      AND DATE_ADD(bc.due_date, INTERVAL n.offset_days DAY) > CURDATE()
+      AND DATE_ADD(bc.due_date, INTERVAL n.offset_days DAY) <= DATE_ADD(CURDATE(), INTERVAL ? DAY)
+    ORDER BY sendDate, bc.due_date, bc.id
+    LIMIT 500
+  `, [days]);
+  return [...dueNow, ...rows.map(row => toReminder(row, row.offsetDays, row.sendDate))];
+}
+
+/**
+ * Claim a reminder in the send log; false if it's already sent or being sent
+ */
+const claimReminder = async (pool, reminder) => {
+  const key = [reminder.issueId, reminder.noticeId, reminder.dueDate];
+  try {
+    await pool.query(
+      `INSERT INTO reminder_log (issue_id, notice_id, due_date, user_id, email, subject, body)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [...key, reminder.userId, reminder.email, reminder.subject, reminder.body]
+    );
+    return true;
+  } catch (error) {
+    if (error.code !== 'ER_DUP_ENTRY') {
+      throw error;
+    }
+  }
+  // Already logged - only a failed send may be tried again
+  const [result] = await pool.query(
+    `UPDATE reminder_log
+     SET status = 'sending', attempts = attempts + 1, email = ?, subject = ?, body = ?, error = NULL
+     WHERE issue_id = ? AND notice_id = ? AND due_date = ? AND status = 'failed' AND attempts < ?`,
+    [reminder.email, reminder.subject, reminder.body, ...key, reminderConfig.maxAttempts]
+  );
+  return result.affectedRows === 1;
+};
+
+/**
+ * Send every reminder that is due, recording each in the send log
+ * @param {object} pool - Connection pool
+ * @param {MailTransportInterface} transport
+ * @returns {Promise<{ sent: number, failed: number }>}
+ */
+export async function sendDueReminders(pool, transport) {
+  const reminders = await findDueReminders(pool);
+  let sent = 0;
+  let failed = 0;
+
+  for (const reminder of reminders) {
+    if (!(await claimReminder(pool, reminder))) {
+      continue;
+    }
+    const key = [reminder.issueId, reminder.noticeId, reminder.dueDate];
+    try {
+      const { messageId } = await transport.send({
+        to: reminder.email,
+        subject: reminder.subject,
+        text: reminder.body,
+      });
+      await pool.query(
+        `UPDATE reminder_log SET status = 'sent', message_id = ?, sent_at = NOW()
+         WHERE issue_id = ? AND notice_id = ? AND due_date = ?`,
+        [messageId, ...key]
+      );
+      sent++;
+    } catch (error) {
+      await pool.query(
+        `UPDATE reminder_log SET status = 'failed', error = ?
+         WHERE issue_id = ? AND notice_id = ? AND due_date = ?`,
+        [String(error.message).slice(0, 500), ...key]
+      );
+      failed++;
+    }
+  }
+  return { sent, failed };
+}
+
+/**
+ * Send a notice filled in with a sample loan, to check a template or the transport
+ * @param {MailTransportInterface} transport
+ * @param {{ subject: string, body: string, offset_days: number }} notice
+ * @param {string} to
+ * @returns {Promise<{ messageId: string|null }>}
+ */
+export async function sendTestNotice(transport, notice, to) {
+  const today = new Date();
+  const dateOffset = (days) => {
+    const date = new Date(today.getFullYear(), today.getMonth(), today.getDate() + days);
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+  };
+  const loan = { ...SAMPLE_LOAN, issueDate: dateOffset(-notice.offset_days - 14), dueDate: dateOffset(-notice.offset_days) };
+  const { subject, body } = renderNotice(notice, loan, notice.offset_days);
+  return transport.send({ to, subject: `[Test] ${subject}`, text: body });
+}
@@ -0,0 +1,59 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { fakeDb } from '../testing/fakeDb.js';
+import { renderNotice, sendDueReminders } from './reminders.js';
+
+const LOAN = { patronName: 'Ada', bookTitle: 'Dune', copyBarcode: null, issueDate: '2026-02-26', dueDate: '2026-03-12' };
+
+test('a notice counts the days to or past the due date', () => {
+  const notice = { subject: '{{bookTitle}} is due {{dueDate}}', body: '{{daysUntilDue}}/{{daysOverdue}} [{{copyBarcode}}]' };
+  assert.deepEqual(renderNotice(notice, LOAN, -3), { subject: 'Dune is due March 12, 2026', body: '3/0 []' });
+  assert.equal(renderNotice(notice, LOAN, 7).body, '0/7 []');
+});
+
+const due = (issueId) => ({
+  ...LOAN, issueId, userId: 5, email: 'ada@example.com', noticeId: 2, noticeName: 'Overdue',
+  offsetDays: 1, subject: 'Overdue: {{bookTitle}}', body: 'Please return it', daysFromDue: 1, sendDate: '2026-03-13'
+});
+
+/**
+ * Reminders for loans 8 and 9, the second of which a failed send already
+ * logged (retried only when `retry` is true)
+ */
+function remindersDb({ retry }) {
+  return fakeDb([
+    [/FROM \(\s+SELECT/, [due(8), due(9)]],
+    [/INSERT INTO reminder_log/, (params) => {
+      if (params[0] === '9') {
+        throw Object.assign(new Error('Duplicate entry'), { code: 'ER_DUP_ENTRY' });
+      }
+      return { affectedRows: 1 };
+    }],
+    [/SET status = 'sending'/, { affectedRows: retry ? 1 : 0 }]
+  ]);
+}
+
+test('each reminder is claimed in the send log before it goes out, and marked sent', async (t) => {
+  const db = remindersDb({ retry: false });
+  const transport = { send: t.mock.fn(async () => ({ messageId: 'm-1' })) };
+  assert.deepEqual(await sendDueReminders(db, transport), { sent: 1, failed: 0 });
+  assert.equal(transport.send.mock.callCount(), 1);
+  assert.deepEqual(transport.send.mock.calls[0].arguments[0], { to: 'ada@example.com', subject: 'Overdue: Dune', text: 'Please return it' });
+  assert.deepEqual(db.queriesMatching(/SET status = 'sent'/)[0].params, ['m-1', '8', '2', '2026-03-12']);
+});
+
+test('a failed send is logged for a retry, and the rest still go out', async (t) => {
+  const db = remindersDb({ retry: true });
+  let calls = 0;
+  const transport = {
+    send: t.mock.fn(async () => {
+      calls++;
+      if (calls === 1) {
+        throw new Error('Mailbox unavailable');
+      }
+      return { messageId: 'm-2' };
+    })
+  };
+  assert.deepEqual(await sendDueReminders(db, transport), { sent: 1, failed: 1 });
+  assert.deepEqual(db.queriesMatching(/SET status = 'failed'/)[0].params, ['Mailbox unavailable', '8', '2', '2026-03-12']);
+});
@@ -0,0 +1,78 @@
+import { reminderConfig } from '../config.js';
+
+/**
+ * Tell a patron their book request was fulfilled or turned down
+ *
+ * Only requests made by a patron on record (with an email address) can be
+ * answered; anonymous requests are skipped. notified_at is set once the
+ * email goes out and cleared whenever the status changes again.
+ */
+
+const REQUEST_NOTICE_COLUMNS = `
+  r.id, r.book_name AS bookName, r.status, r.rejection_reason AS rejectionReason,
+  u.name AS patronName, u.email, b.title AS bookTitle
+`;
+
+/**
+ * Write the notice for a request's current status
+ * @param {object} request - Row with bookName, status, rejectionReason, patronName, bookTitle
+ * @returns {{ subject: string, body: string }|null} Nothing to say while it's pending
+ */
+export function renderRequestNotice(request) {
+  const { libraryName } = reminderConfig;
+  if (request.status === 'fulfilled') {
+    return {
+      subject: `"${request.bookName}" is now at ${libraryName}`,
+      body: `Dear ${request.patronName},\n\n`
+        + `Good news: the book you asked us for has been added to the library as "${request.bookTitle || request.bookName}". `
+        + `Look it up in the catalogue to see when a copy is on the shelf, or place a hold to be next in line.\n\n${libraryName}`,
+    };
+  }
+  if (request.status === 'rejected') {
+    return {
+      subject: `Your request for "${request.bookName}"`,
+      body: `Dear ${request.patronName},\n\n`
+        + `Thank you for suggesting "${request.bookName}". We're sorry, but we won't be adding it to the library.\n\n`
+        + `Reason: ${request.rejectionReason}\n\n${libraryName}`,
+    };
+  }
+  return null;
+}
+
+/**
+ * Email the patron behind each request about its current status
+ * @param {object} pool - Connection pool
+ * @param {MailTransportInterface} transport
+ * @param {Array<string|number>} requestIds
+ * @returns {Promise<{ sent: number, failed: number }>} Requests without a patron count as neither
+ */
+export async function sendRequestNotices(pool, transport, requestIds) {
+  if (requestIds.length === 0) {
+    return { sent: 0, failed: 0 };
+  }
+  const [requests] = await pool.query(`
+    SELECT ${REQUEST_NOTICE_COLUMNS}
+    FROM book_requests r
+    JOIN users u ON r.user_id = u.id
+    LEFT JOIN books b ON r.book_id = b.id
+    WHERE r.id IN (?) AND u.email <> ''
+  `, [requestIds]);
+
+  let sent = 0;
+  let failed = 0;
+  for (const request of requests) {
+    const notice = renderRequestNotice(request);
+    if (!notice) {
+      continue;
+    }
+    try {
+      await transport.send({ to: request.email, subject: notice.subject, text: notice.body });
+      await pool.query('UPDATE book_requests SET notified_at = NOW() WHERE id = ?', [request.id]);
+      sent++;
+    } catch (error) {
+      console.error(`Error notifying requester of book request ${request.id}:`, error.message);
+      failed++;
+    }
+  }
+  return { sent, failed };
+}
@@ -0,0 +1,57 @@
+/**
+ * Reminder templates
+ *
+ * Notice subjects and bodies are plain text with {{placeholders}}, e.g.
+ *   "Dear {{patronName}}, {{bookTitle}} is due back on {{dueDate}}."
+ * Only the names in TEMPLATE_FIELDS are allowed, so a typo is caught when the
+ * notice is saved rather than emailed to a patron.
+ */
+
+export const TEMPLATE_FIELDS = {
+  patronName: "The patron's name",
+  bookTitle: 'Title of the book on loan',
+  copyBarcode: "Barcode of the patron's copy",
+  issueDate: 'Date the book was issued',
+  dueDate: 'Date the book is due back',
+  daysUntilDue: 'Days left until the due date (0 once due)',
+  daysOverdue: 'Days past the due date (0 until overdue)',
+  libraryName: 'Name of the library',
+};
+
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+
+/**
+ * List placeholders in a template that aren't in TEMPLATE_FIELDS
+ * @param {string} template
+ * @returns {string[]}
+ */
+export function unknownFields(template) {
+  const names = [...template.matchAll(PLACEHOLDER)].map(match => match[1]);
+  return [...new Set(names.filter(name => !(name in TEMPLATE_FIELDS)))];
+}
+
+/**
+ * Fill in a template's placeholders
+ * @param {string} template
+ * @param {Object<string, string|number>} values
+ * @returns {string}
+ */
+export function renderTemplate(template, values) {
+  return template.replace(PLACEHOLDER, (placeholder, name) => (
+    values[name] === undefined || values[name] === null ? placeholder : String(values[name])
+  ));
+}
+
+/**
+ * Format a YYYY-MM-DD date for an email, e.g. "March 4, 2025"
+ * @param {string} date
+ * @returns {string}
+ */
+export function formatNoticeDate(date) {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+  });
+}
@@ -0,0 +1,19 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { unknownFields, renderTemplate, formatNoticeDate } from './templates.js';
+
+test('a placeholder that isn\'t a template field is reported once', () => {
+  assert.deepEqual(unknownFields('Dear {{ patronName }}, {{bookTitel}} is due {{dueDate}}. {{bookTitel}}'), ['bookTitel']);
+  assert.deepEqual(unknownFields('No placeholders here'), []);
+});
+
+test('placeholders are filled in, and ones without a value are left as written', () => {
+  assert.equal(
+    renderTemplate('{{patronName}}: {{ daysOverdue }} day(s) late, {{libraryName}}', { patronName: 'Ada', daysOverdue: 0 }),
+    'Ada: 0 day(s) late, {{libraryName}}'
+  );
+});
+
+test('notice dates are written out in full', () => {
+  assert.equal(formatNoticeDate('2025-03-04'), 'March 4, 2025');
+});
@@ -0,0 +1,261 @@
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { performance } from 'perf_hooks';
+import mysql from 'mysql2/promise';
+import { dbConfig } from '../config.js';
+import { parseListQuery } from '../lists/index.js';
+import { BOOK_LIST, loadBookPage, loadBook, parseSearchQuery, searchBooks } from '../catalog/index.js';
+import { buildVocabulary } from '../matching/index.js';
+
+/**
+ * Script to time the book list and detail reads against a synthetic catalog
+ * Usage: node scripts/benchmark-books.js [--books 50000] [--runs 20] [--database n_lib_bench]
+ *                                         [--keep] [--reuse] [--json]
+ *
+ * Builds a separate database from schema.sql (dropping it first if it's
+ * there), fills it with books, writers, categories and copies across two
+ * branches, then times each scenario below, full-text, misspelled and faceted
+ * searches, building the search vocabulary and single-book reads through the same code the API uses, without the cache. Prints the median, 95th percentile and slowest
+ * time and the queries each read took; --json prints the same as one JSON
+ * object, for comparing runs over time. The data comes from a fixed seed, so
+ * runs with the same --books are comparable. --keep leaves the database in
+ * place to seed once and re-run with --reuse.
+ */
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+const args = process.argv.slice(2);
+const option = (name, fallback) => {
+  const index = args.indexOf(`--${name}`);
+  return index >= 0 && args[index + 1] ? args[index + 1] : fallback;
+};
+
+const bookCount = parseInt(option('books', '50000'));
+const runs = parseInt(option('runs', '20'));
+const database = option('database', 'n_lib_bench');
+const keep = args.includes('--keep');
+const reuse = args.includes('--reuse');
+const asJson = args.includes('--json');
+
+if (!(bookCount > 0) || !(runs > 0)) {
+  console.error('Usage: node scripts/benchmark-books.js [--books 50000] [--runs 20] [--database n_lib_bench] [--keep] [--reuse] [--json]');
+  process.exit(1);
+}
+
+if (database === dbConfig.database || !/^\w+$/.test(database)) {
+  console.error(`❌ Won't benchmark in "${database}" - name a separate database made of letters, digits and _`);
+  process.exit(1);
+}
+
+const WRITER_COUNT = 5000;
+const CATEGORY_COUNT = 120;
+const BATCH_SIZE = 2000;
+
+const WORDS = [
+  'garden', 'river', 'night', 'silver', 'winter', 'stone', 'house', 'letters', 'city', 'light',
+  'shadow', 'island', 'summer', 'forest', 'journey', 'voice', 'empire', 'secret', 'north', 'glass',
+  'memory', 'ocean', 'fire', 'road', 'king', 'daughter', 'war', 'song', 'dream', 'harbour'
+];
+const NAMES = ['Anna', 'Rahim', 'Maria', 'Kenji', 'Olu', 'Sofia', 'Imran', 'Lena', 'Tomas', 'Nadia'];
+const SURNAMES = ['Ahmed', 'Novak', 'Okafor', 'Silva', 'Tanaka', 'Berg', 'Haque', 'Rossi', 'Kowalski', 'Dubois'];
+const BOOK_TYPES = ['Paperback', 'Hardcover', 'Reference'];
+
+// Same numbers every run (mulberry32)
+let randomState = 20260119;
+function random() {
+  randomState = (randomState + 0x6d2b79f5) | 0;
+  let t = Math.imul(randomState ^ (randomState >>> 15), 1 | randomState);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+}
+const pick = (items) => items[Math.floor(random() * items.length)];
+const between = (low, high) => low + Math.floor(random() * (high - low + 1));
+
+// A few distinct ids from 1..count
+function someIds(count, howMany) {
+  const ids = new Set();
+  while (ids.size < howMany) {
+    ids.add(between(1, count));
+  }
+  return [...ids];
+}
+
+async function insertInBatches(connection, sql, rows) {
+  for (let start = 0; start < rows.length; start += BATCH_SIZE) {
+    await connection.query(sql, [rows.slice(start, start + BATCH_SIZE)]);
+  }
+}
+
+async function createDatabase() {
+  const connection = await mysql.createConnection({
+    host: dbConfig.host,
+    user: dbConfig.user,
+    password: dbConfig.password,
+    multipleStatements: true
+  });
+  try {
+    const schema = fs.readFileSync(path.join(__dirname, '../../schema.sql'), 'utf8')
+      .replaceAll('`n_lib`', `\`${database}\``);
+    await connection.query(`DROP DATABASE IF EXISTS \`${database}\``);
+    await connection.query(schema);
+  } finally {
+    await connection.end();
+  }
+}
+
+async function seedCatalog(pool) {
+  const connection = await pool.getConnection();
+  try {
+    await connection.query(`INSERT INTO branches (name, code) VALUES ('East Branch', 'EAST')`);
+    const [branches] = await connection.query('SELECT id FROM branches ORDER BY id');
+    const branchIds = branches.map(branch => branch.id);
+
+    await insertInBatches(connection, 'INSERT INTO categories (id, name) VALUES ?',
+      Array.from({ length: CATEGORY_COUNT }, (_, i) => [i + 1, `${pick(WORDS)} ${pick(WORDS)} ${i + 1}`]));
+    await insertInBatches(connection, 'INSERT INTO writers (id, name, nationality) VALUES ?',
+      Array.from({ length: WRITER_COUNT }, (_, i) => [i + 1, `${pick(NAMES)} ${pick(SURNAMES)} ${i + 1}`, null]));
+
+    const books = [];
+    const bookWriters = [];
+    const bookCategories = [];
+    const copies = [];
+    for (let id = 1; id <= bookCount; id++) {
+      const title = Array.from({ length: between(2, 5) }, () => pick(WORDS)).join(' ');
+      let available = 0;
+      const copyCount = between(1, 4);
+      for (let n = 1; n <= copyCount; n++) {
+        const status = random() < 0.3 ? 'on_loan' : 'available';
+        const branchId = pick(branchIds);
+        if (status === 'available') available++;
+        copies.push([id, `BENCH-${id}-${n}`, status, branchId, branchId]);
+      }
+      books.push([
+        id, title.charAt(0).toUpperCase() + title.slice(1), String(9780000000000 + id), `R-${id}`,
+        between(1950, 2026), copyCount, available, pick(BOOK_TYPES)
+      ]);
+      for (const writerId of someIds(WRITER_COUNT, between(1, 3))) {
+        bookWriters.push([id, writerId]);
+      }
+      for (const categoryId of someIds(CATEGORY_COUNT, between(1, 3))) {
+        bookCategories.push([id, categoryId]);
+      }
+    }
+
+    await insertInBatches(connection,
+      'INSERT INTO books (id, title, isbn, label_number, publication_year, total_copies, available_copies, book_type) VALUES ?',
+      books);
+    await insertInBatches(connection, 'INSERT INTO book_writers (book_id, writer_id) VALUES ?', bookWriters);
+    await insertInBatches(connection, 'INSERT INTO book_categories (book_id, category_id) VALUES ?', bookCategories);
+    await insertInBatches(connection,
+      'INSERT INTO book_copies (book_id, barcode, status, home_branch_id, current_branch_id) VALUES ?',
+      copies);
+    await connection.query('ANALYZE TABLE books, book_writers, book_categories, book_copies, writers, categories');
+  } finally {
+    connection.release();
+  }
+}
+
+// What a screen asks for, as the query string it would send
+const SCENARIOS = [
+  { name: 'first page', query: {} },
+  { name: 'deep page', query: { offset: String(Math.max(bookCount - 100, 0)) } },
+  { name: 'search', query: { q: 'garden' } },
+  { name: 'category', query: { categoryId: '7' } },
+  { name: 'writer', query: { writerId: '42' } },
+  { name: 'available, newest first', query: { available: 'true', sort: '-publicationYear' } },
+  { name: 'large page', query: { limit: '500' } }
+];
+
+const percentile = (sorted, p) => sorted[Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1)];
+
+// Time read(db) over the runs, counting the queries it makes
+async function measure(pool, read) {
+  let queries = 0;
+  const db = {
+    query: (...queryArgs) => {
+      queries++;
+      return pool.query(...queryArgs);
+    }
+  };
+  await read(db); // warm up
+  const times = [];
+  queries = 0;
+  for (let run = 0; run < runs; run++) {
+    const started = performance.now();
+    await read(db);
+    times.push(performance.now() - started);
+  }
+  times.sort((a, b) => a - b);
+  const round = (ms) => Math.round(ms * 10) / 10;
+  return {
+    p50: round(percentile(times, 50)),
+    p95: round(percentile(times, 95)),
+    max: round(times[times.length - 1]),
+    queries: queries / runs
+  };
+}
+
+async function benchmark() {
+  const started = performance.now();
+  if (!reuse) {
+    await createDatabase();
+  }
+  const pool = mysql.createPool({ ...dbConfig, database });
+  const results = [];
+  try {
+    if (!reuse) {
+      await seedCatalog(pool);
+      if (!asJson) {
+        console.log(`Seeded ${bookCount} books in ${Math.round((performance.now() - started) / 1000)}s`);
+      }
+    }
+
+    for (const scenario of SCENARIOS) {
+      const { values: list, error } = parseListQuery(scenario.query, BOOK_LIST);
+      if (error) {
+        throw new Error(`${scenario.name}: ${error}`);
+      }
+      results.push({ name: `list: ${scenario.name}`, ...(await measure(pool, db => loadBookPage(db, list))) });
+    }
+    results.push({ name: 'search vocabulary', ...(await measure(pool, db => buildVocabulary(db, 'catalog'))) });
+    const vocabulary = await buildVocabulary(pool, 'catalog');
+    for (const q of ['garden', 'silver river night', 'gardn silvr', 'ga']) {
+      const { values: search } = parseSearchQuery({ q }, vocabulary);
+      results.push({ name: `search: ${q}`, ...(await measure(pool, db => searchBooks(db, search))) });
+    }
+    for (const query of [{ q: 'garden', facets: 'true' }, { available: 'true', facets: 'true' }]) {
+      const { values: search } = parseSearchQuery(query, vocabulary);
+      const name = `facets: ${query.q || 'available'}`;
+      results.push({ name, ...(await measure(pool, db => searchBooks(db, search))) });
+    }
+    const bookIds = someIds(bookCount, Math.min(runs, bookCount));
+    let next = 0;
+    results.push({
+      name: 'detail',
+      ...(await measure(pool, db => loadBook(db, bookIds[next++ % bookIds.length])))
+    });
+
+    if (asJson) {
+      console.log(JSON.stringify({ books: bookCount, runs, results }, null, 2));
+    } else {
+      console.table(Object.fromEntries(results.map(({ name, ...timing }) => [name, {
+        'p50 ms': timing.p50, 'p95 ms': timing.p95, 'max ms': timing.max, queries: timing.queries
+      }])));
+    }
+  } catch (error) {
+    console.error('❌ Benchmark failed:', error.message);
+    process.exitCode = 1;
+  } finally {
+    await pool.end();
+    if (!keep && !reuse) {
+      const connection = await mysql.createConnection({
+        host: dbConfig.host, user: dbConfig.user, password: dbConfig.password
+      });
+      await connection.query(`DROP DATABASE IF EXISTS \`${database}\``);
+      await connection.end();
+    }
+  }
+}
+
+benchmark();
@@ -0,0 +1,66 @@
+import mysql from 'mysql2/promise';
+import { dbConfig } from '../config.js';
+import { hashPassword, ROLES } from '../auth/index.js';
+
+/**
+ * Script to create a staff account, or reset the password of an existing one
+ * Usage: node scripts/create-staff-user.js <username> <password> [display name] [role]
+ * New accounts default to admin so the first one can manage everyone else from the Staff screen;
+ * resetting an existing account keeps its role unless one is given.
+ */
+
+const [username, password, name, requestedRole] = process.argv.slice(2);
+const role = requestedRole || 'admin';
+
+if (!username || !password) {
+  console.error('Usage: node scripts/create-staff-user.js <username> <password> [display name] [role]');
+  process.exit(1);
+}
+
+if (!ROLES.includes(role)) {
+  console.error(`❌ Unknown role "${role}". Use one of: ${ROLES.join(', ')}`);
+  process.exit(1);
+}
+
+if (password.length < 8) {
+  console.error('❌ Password must be at least 8 characters');
+  process.exit(1);
+}
+
+const pool = mysql.createPool(dbConfig);
+
+async function createStaffUser() {
+  try {
+    const passwordHash = await hashPassword(password);
+
+    const [existing] = await pool.query('SELECT id FROM staff_users WHERE username = ?', [username]);
+
+    if (existing.length > 0) {
+      // Reset password and revoke existing sessions
+      await pool.query(
+        `UPDATE staff_users SET password_hash = ?, name = COALESCE(?, name), role = COALESCE(?, role), is_active = 1,
+         token_version = token_version + 1 WHERE id = ?`,
+        [passwordHash, name || null, requestedRole || null, existing[0].id]
+      );
+      console.log(`Updated password for staff user "${username}" (ID: ${existing[0].id})`);
+    } else {
+      const [result] = await pool.query(
+        'INSERT INTO staff_users (username, password_hash, name, role) VALUES (?, ?, ?, ?)',
+        [username, passwordHash, name || username, role]
+      );
+      console.log(`Created ${role} "${username}" (ID: ${result.insertId})`);
+    }
+  } finally {
+    await pool.end();
+  }
+}
+
+createStaffUser()
+  .then(() => {
+    console.log('\n✅ Done!');
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('❌ Failed to create staff user:', error);
+    process.exit(1);
+  });
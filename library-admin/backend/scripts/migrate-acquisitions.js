@@ -0,0 +1,111 @@
+import mysql from 'mysql2/promise';
+import { dbConfig } from '../config.js';
+
+/**
+ * Script to add the acquisitions tables to an existing database
+ * Usage: node scripts/migrate-acquisitions.js
+ * (run after migrate-book-requests.js)
+ *
+ * Creates the vendors, purchase_orders, purchase_order_lines and budgets
+ * tables. Books already imported with process-excel-books.js have no order
+ * behind them and stay as they are. Safe to re-run.
+ */
+
+const pool = mysql.createPool(dbConfig);
+
+async function migrate() {
+  const connection = await pool.getConnection();
+  try {
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS vendors (
+        id BIGINT UNSIGNED NOT NULL AUTO_INCREMENT,
+        name VARCHAR(255) NOT NULL,
+        contact_name VARCHAR(255),
+        email VARCHAR(255),
+        phone VARCHAR(50),
+        address VARCHAR(500),
+        notes TEXT,
+        is_active BOOLEAN NOT NULL DEFAULT TRUE,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+        PRIMARY KEY (id),
+        UNIQUE INDEX idx_vendors_name (name)
+      )
+    `);
+
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS purchase_orders (
+        id BIGINT UNSIGNED NOT NULL AUTO_INCREMENT,
+        vendor_id BIGINT UNSIGNED NOT NULL,
+        branch_id BIGINT UNSIGNED NOT NULL,
+        fiscal_year SMALLINT UNSIGNED NOT NULL,
+        status ENUM('draft', 'ordered', 'partially_received', 'received', 'cancelled') NOT NULL DEFAULT 'draft',
+        vendor_reference VARCHAR(100),
+        notes TEXT,
+        created_by BIGINT UNSIGNED,
+        ordered_by BIGINT UNSIGNED,
+        ordered_at TIMESTAMP NULL,
+        received_at TIMESTAMP NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+        PRIMARY KEY (id),
+        INDEX idx_purchase_orders_status (status),
+        INDEX idx_purchase_orders_fiscal_year (fiscal_year, status),
+        FOREIGN KEY (vendor_id) REFERENCES vendors(id),
+        FOREIGN KEY (branch_id) REFERENCES branches(id),
+        FOREIGN KEY (created_by) REFERENCES staff_users(id) ON DELETE SET NULL,
+        FOREIGN KEY (ordered_by) REFERENCES staff_users(id) ON DELETE SET NULL
+      )
+    `);
+
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS purchase_order_lines (
+        id BIGINT UNSIGNED NOT NULL AUTO_INCREMENT,
+        order_id BIGINT UNSIGNED NOT NULL,
+        title VARCHAR(500) NOT NULL,
+        isbn VARCHAR(20),
+        author_name VARCHAR(255),
+        category_id BIGINT UNSIGNED,
+        book_type VARCHAR(45),
+        unit_price DECIMAL(10, 2) NOT NULL DEFAULT 0.00,
+        quantity INT UNSIGNED NOT NULL DEFAULT 1,
+        quantity_received INT UNSIGNED NOT NULL DEFAULT 0,
+        book_id BIGINT UNSIGNED,
+        request_id BIGINT UNSIGNED,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+        PRIMARY KEY (id),
+        INDEX idx_purchase_order_lines_order_id (order_id),
+        INDEX idx_purchase_order_lines_request_id (request_id),
+        FOREIGN KEY (order_id) REFERENCES purchase_orders(id) ON DELETE CASCADE,
+        FOREIGN KEY (category_id) REFERENCES categories(id) ON DELETE SET NULL,
+        FOREIGN KEY (book_id) REFERENCES books(id) ON DELETE SET NULL,
+        FOREIGN KEY (request_id) REFERENCES book_requests(id) ON DELETE SET NULL
+      )
+    `);
+
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS budgets (
+        id BIGINT UNSIGNED NOT NULL AUTO_INCREMENT,
+        fiscal_year SMALLINT UNSIGNED NOT NULL,
+        category_id BIGINT UNSIGNED NOT NULL,
+        amount DECIMAL(12, 2) NOT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+        PRIMARY KEY (id),
+        UNIQUE INDEX idx_budgets_year_category (fiscal_year, category_id),
+        FOREIGN KEY (category_id) REFERENCES categories(id) ON DELETE CASCADE
+      )
+    `);
+
+    console.log('✅ Migration complete');
+  } catch (error) {
+    console.error('❌ Migration failed:', error.message);
+    process.exitCode = 1;
+  } finally {
+    connection.release();
+    await pool.end();
+  }
+}
+
+migrate();
@@ -0,0 +1,158 @@
+import mysql from 'mysql2/promise';
+import { dbConfig } from '../config.js';
+import { syncCopyCounts } from '../circulation/index.js';
+
+/**
+ * Script to move an existing database to item-level copy tracking
+ * Usage: node scripts/migrate-book-copies.js
+ *
+ * Creates the book_copies table and the copy_id columns, then gives every
+ * book as many copies as its old total_copies. The first copy takes the
+ * book's old barcode (the others get "<book id>-<n>" placeholders to relabel
+ * from the book's page), current loans and ready holds are matched to copies,
+ * and the old books.barcode column is dropped. Safe to re-run: books that
+ * already have copies are skipped.
+ */
+
+const pool = mysql.createPool(dbConfig);
+
+async function columnExists(connection, table, column) {
+  const [rows] = await connection.query(
+    `SELECT 1 FROM information_schema.columns
+     WHERE table_schema = DATABASE() AND table_name = ? AND column_name = ?`,
+    [table, column]
+  );
+  return rows.length > 0;
+}
+
+async function migrateSchema(connection) {
+  await connection.query(`
+    CREATE TABLE IF NOT EXISTS book_copies (
+      id BIGINT UNSIGNED NOT NULL AUTO_INCREMENT,
+      book_id BIGINT UNSIGNED NOT NULL,
+      barcode VARCHAR(100) NOT NULL,
+      accession_number VARCHAR(50),
+      shelf_location VARCHAR(100),
+      \`condition\` ENUM('new', 'good', 'fair', 'poor', 'damaged') NOT NULL DEFAULT 'good',
+      status ENUM('available', 'on_loan', 'lost', 'in_repair', 'withdrawn') NOT NULL DEFAULT 'available',
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+      PRIMARY KEY (id),
+      UNIQUE INDEX idx_book_copies_barcode (barcode),
+      UNIQUE INDEX idx_book_copies_accession_number (accession_number),
+      INDEX idx_book_copies_book_status (book_id, status),
+      FOREIGN KEY (book_id) REFERENCES books(id) ON DELETE CASCADE
+    )
+  `);
+
+  for (const table of ['books_circulation', 'holds']) {
+    if (!(await columnExists(connection, table, 'copy_id'))) {
+      await connection.query(`
+        ALTER TABLE ${table}
+          ADD COLUMN copy_id BIGINT UNSIGNED AFTER ${table === 'holds' ? 'status' : 'book_id'},
+          ADD INDEX idx_${table}_copy_id (copy_id),
+          ADD FOREIGN KEY (copy_id) REFERENCES book_copies(id) ON DELETE SET NULL
+      `);
+      console.log(`Added ${table}.copy_id`);
+    }
+  }
+}
+
+async function migrateBook(connection, book) {
+  // Old barcodes weren't unique; a repeat falls back to a placeholder
+  let oldBarcode = book.barcode?.trim() || null;
+  if (oldBarcode) {
+    const [taken] = await connection.query('SELECT id FROM book_copies WHERE barcode = ?', [oldBarcode]);
+    oldBarcode = taken.length > 0 ? null : oldBarcode;
+  }
+
+  const copyIds = [];
+  for (let n = 1; n <= book.total_copies; n++) {
+    const barcode = n === 1 && oldBarcode ? oldBarcode : `${book.id}-${n}`;
+    const [result] = await connection.query(
+      'INSERT INTO book_copies (book_id, barcode) VALUES (?, ?)',
+      [book.id, barcode]
+    );
+    copyIds.push(result.insertId);
+  }
+
+  // Each current loan takes a copy off the shelf
+  const [loans] = await connection.query(
+    `SELECT id FROM books_circulation WHERE book_id = ? AND status = 'issued' ORDER BY issue_date, id`,
+    [book.id]
+  );
+  for (const loan of loans) {
+    let copyId = copyIds.shift();
+    if (!copyId) {
+      // More loans than recorded copies - the count was wrong, so add the copy that's out
+      const [result] = await connection.query(
+        'INSERT INTO book_copies (book_id, barcode) VALUES (?, ?)',
+        [book.id, `${book.id}-loan-${loan.id}`]
+      );
+      copyId = result.insertId;
+    }
+    await connection.query(`UPDATE book_copies SET status = 'on_loan' WHERE id = ?`, [copyId]);
+    await connection.query('UPDATE books_circulation SET copy_id = ? WHERE id = ?', [copyId, loan.id]);
+  }
+
+  // Copies already on the hold shelf
+  const [holds] = await connection.query(
+    `SELECT id FROM holds WHERE book_id = ? AND status = 'ready' ORDER BY ready_at, id`,
+    [book.id]
+  );
+  for (const hold of holds) {
+    const copyId = copyIds.shift();
+    if (copyId) {
+      await connection.query('UPDATE holds SET copy_id = ? WHERE id = ?', [copyId, hold.id]);
+    }
+  }
+
+  await syncCopyCounts(connection, book.id);
+}
+
+async function migrate() {
+  const connection = await pool.getConnection();
+  try {
+    await migrateSchema(connection);
+
+    const hasBarcode = await columnExists(connection, 'books', 'barcode');
+    const [books] = await connection.query(`
+      SELECT b.id, b.total_copies${hasBarcode ? ', b.barcode' : ', NULL AS barcode'}
+      FROM books b
+      WHERE NOT EXISTS (SELECT 1 FROM book_copies c WHERE c.book_id = b.id)
+      ORDER BY b.id
+    `);
+    console.log(`Creating copies for ${books.length} books...`);
+
+    for (const book of books) {
+      await connection.beginTransaction();
+      try {
+        await migrateBook(connection, book);
+        await connection.commit();
+      } catch (error) {
+        await connection.rollback();
+        throw new Error(`Book ${book.id}: ${error.message}`);
+      }
+    }
+
+    if (hasBarcode) {
+      await connection.query('ALTER TABLE books DROP INDEX idx_books_barcode, DROP COLUMN barcode');
+      console.log('Moved book barcodes to their first copy and dropped books.barcode');
+    }
+    await connection.query(`
+      ALTER TABLE books
+        ALTER total_copies SET DEFAULT 0,
+        ALTER available_copies SET DEFAULT 0
+    `);
+
+    console.log('✅ Migration complete');
+  } catch (error) {
+    console.error('❌ Migration failed:', error.message);
+    process.exitCode = 1;
+  } finally {
+    connection.release();
+    await pool.end();
+  }
+}
+
+migrate();
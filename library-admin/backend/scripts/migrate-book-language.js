@@ -0,0 +1,42 @@
+import mysql from 'mysql2/promise';
+import { dbConfig } from '../config.js';
+
+/**
+ * Script to add the book language to an existing database
+ * Usage: node scripts/migrate-book-language.js
+ *
+ * Adds books.language (empty until staff fill it in) and its index, for the
+ * search page's language filter. Safe to re-run.
+ */
+
+const pool = mysql.createPool(dbConfig);
+
+async function columnExists(connection, table, column) {
+  const [rows] = await connection.query(
+    `SELECT 1 FROM information_schema.columns
+     WHERE table_schema = DATABASE() AND table_name = ? AND column_name = ?`,
+    [table, column]
+  );
+  return rows.length > 0;
+}
+
+async function migrate() {
+  const connection = await pool.getConnection();
+  try {
+    if (!(await columnExists(connection, 'books', 'language'))) {
+      await connection.query('ALTER TABLE books ADD COLUMN language VARCHAR(50) AFTER book_type');
+      await connection.query('CREATE INDEX idx_books_language ON books(language)');
+      console.log('Added books.language');
+    }
+
+    console.log('✅ Migration complete');
+  } catch (error) {
+    console.error('❌ Migration failed:', error.message);
+    process.exitCode = 1;
+  } finally {
+    connection.release();
+    await pool.end();
+  }
+}
+
+migrate();
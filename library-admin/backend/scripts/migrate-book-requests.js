@@ -0,0 +1,71 @@
+import mysql from 'mysql2/promise';
+import { dbConfig } from '../config.js';
+import { requestTitleKey } from '../circulation/requests.js';
+
+/**
+ * Script to add the request review columns to an existing book_requests table
+ * Usage: node scripts/migrate-book-requests.js
+ * (run after migrate-patron-portal.js)
+ *
+ * Adds title_key (filled in from each request's title, so existing requests
+ * group with new ones), book_id, rejection_reason and the status-change and
+ * notification columns. Safe to re-run.
+ */
+
+const pool = mysql.createPool(dbConfig);
+
+async function columnExists(connection, table, column) {
+  const [rows] = await connection.query(
+    `SELECT 1 FROM information_schema.columns
+     WHERE table_schema = DATABASE() AND table_name = ? AND column_name = ?`,
+    [table, column]
+  );
+  return rows.length > 0;
+}
+
+async function migrate() {
+  const connection = await pool.getConnection();
+  try {
+    if (!(await columnExists(connection, 'book_requests', 'title_key'))) {
+      // Added nullable, filled in, then made required
+      await connection.query('ALTER TABLE book_requests ADD COLUMN title_key VARCHAR(500) AFTER book_name');
+      const [requests] = await connection.query('SELECT id, book_name FROM book_requests');
+      for (const request of requests) {
+        await connection.query(
+          'UPDATE book_requests SET title_key = ? WHERE id = ?',
+          [requestTitleKey(request.book_name), request.id]
+        );
+      }
+      await connection.query(`
+        ALTER TABLE book_requests
+          MODIFY title_key VARCHAR(500) NOT NULL,
+          ADD INDEX idx_book_requests_title_key (title_key, status)
+      `);
+      console.log(`Grouped ${requests.length} existing request(s) by title`);
+    }
+
+    if (!(await columnExists(connection, 'book_requests', 'book_id'))) {
+      await connection.query(`
+        ALTER TABLE book_requests
+          ADD COLUMN book_id BIGINT UNSIGNED AFTER user_id,
+          ADD COLUMN rejection_reason VARCHAR(500) AFTER book_id,
+          ADD COLUMN status_changed_at TIMESTAMP NULL AFTER rejection_reason,
+          ADD COLUMN status_changed_by BIGINT UNSIGNED AFTER status_changed_at,
+          ADD COLUMN notified_at TIMESTAMP NULL AFTER status_changed_by,
+          ADD FOREIGN KEY (book_id) REFERENCES books(id) ON DELETE SET NULL,
+          ADD FOREIGN KEY (status_changed_by) REFERENCES staff_users(id) ON DELETE SET NULL
+      `);
+      console.log('Added the request review columns');
+    }
+
+    console.log('✅ Migration complete');
+  } catch (error) {
+    console.error('❌ Migration failed:', error.message);
+    process.exitCode = 1;
+  } finally {
+    connection.release();
+    await pool.end();
+  }
+}
+
+migrate();
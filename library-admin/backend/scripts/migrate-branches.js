@@ -0,0 +1,131 @@
+import mysql from 'mysql2/promise';
+import { dbConfig } from '../config.js';
+
+/**
+ * Script to move an existing database to multi-branch holdings
+ * Usage: node scripts/migrate-branches.js [branch name] [branch code]
+ * (run after migrate-book-copies.js)
+ *
+ * Creates the branches and branch_transfers tables and a first branch
+ * (default "Main Library", MAIN), then adds the branch columns to
+ * book_copies and books_circulation. Every existing copy belongs to and
+ * sits at the first branch, and existing loans are recorded as issued
+ * there. Safe to re-run: tables and columns that exist are left alone.
+ */
+
+const pool = mysql.createPool(dbConfig);
+
+async function columnExists(connection, table, column) {
+  const [rows] = await connection.query(
+    `SELECT 1 FROM information_schema.columns
+     WHERE table_schema = DATABASE() AND table_name = ? AND column_name = ?`,
+    [table, column]
+  );
+  return rows.length > 0;
+}
+
+async function createBranches(connection, name, code) {
+  await connection.query(`
+    CREATE TABLE IF NOT EXISTS branches (
+      id BIGINT UNSIGNED NOT NULL AUTO_INCREMENT,
+      name VARCHAR(100) NOT NULL,
+      code VARCHAR(20) NOT NULL,
+      address VARCHAR(255),
+      is_active TINYINT(1) NOT NULL DEFAULT 1,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+      PRIMARY KEY (id),
+      UNIQUE INDEX idx_branches_code (code),
+      UNIQUE INDEX idx_branches_name (name)
+    )
+  `);
+
+  const [branches] = await connection.query('SELECT id, name FROM branches ORDER BY id LIMIT 1');
+  if (branches.length > 0) {
+    return branches[0];
+  }
+  const [result] = await connection.query('INSERT INTO branches (name, code) VALUES (?, ?)', [name, code]);
+  console.log(`Created branch ${name} (${code})`);
+  return { id: result.insertId, name };
+}
+
+async function migrate() {
+  const [name = 'Main Library', code = 'MAIN'] = process.argv.slice(2);
+  const connection = await pool.getConnection();
+  try {
+    const branch = await createBranches(connection, name, code.toUpperCase());
+
+    if (!(await columnExists(connection, 'book_copies', 'home_branch_id'))) {
+      // Added nullable, filled in, then made required
+      await connection.query(`
+        ALTER TABLE book_copies
+          MODIFY status ENUM('available', 'on_loan', 'lost', 'in_repair', 'withdrawn', 'in_transit') NOT NULL DEFAULT 'available',
+          ADD COLUMN home_branch_id BIGINT UNSIGNED AFTER status,
+          ADD COLUMN current_branch_id BIGINT UNSIGNED AFTER home_branch_id
+      `);
+      await connection.query(
+        'UPDATE book_copies SET home_branch_id = ?, current_branch_id = ?',
+        [branch.id, branch.id]
+      );
+      await connection.query(`
+        ALTER TABLE book_copies
+          MODIFY home_branch_id BIGINT UNSIGNED NOT NULL,
+          MODIFY current_branch_id BIGINT UNSIGNED NOT NULL,
+          ADD INDEX idx_book_copies_home_branch_id (home_branch_id),
+          ADD INDEX idx_book_copies_current_branch_id (current_branch_id),
+          ADD FOREIGN KEY (home_branch_id) REFERENCES branches(id),
+          ADD FOREIGN KEY (current_branch_id) REFERENCES branches(id)
+      `);
+      console.log(`Placed every copy at ${branch.name}`);
+    }
+
+    if (!(await columnExists(connection, 'books_circulation', 'branch_id'))) {
+      await connection.query(`
+        ALTER TABLE books_circulation
+          ADD COLUMN branch_id BIGINT UNSIGNED AFTER idempotency_key,
+          ADD INDEX idx_books_circulation_branch_id (branch_id),
+          ADD FOREIGN KEY (branch_id) REFERENCES branches(id)
+      `);
+      await connection.query('UPDATE books_circulation SET branch_id = ?', [branch.id]);
+      console.log(`Recorded existing loans as issued at ${branch.name}`);
+    }
+
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS branch_transfers (
+        id BIGINT UNSIGNED NOT NULL AUTO_INCREMENT,
+        copy_id BIGINT UNSIGNED NOT NULL,
+        from_branch_id BIGINT UNSIGNED NOT NULL,
+        to_branch_id BIGINT UNSIGNED NOT NULL,
+        status ENUM('requested', 'in_transit', 'received', 'cancelled') NOT NULL DEFAULT 'requested',
+        reason VARCHAR(255),
+        requested_by BIGINT UNSIGNED,
+        sent_by BIGINT UNSIGNED,
+        received_by BIGINT UNSIGNED,
+        requested_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        sent_at TIMESTAMP NULL,
+        received_at TIMESTAMP NULL,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+        PRIMARY KEY (id),
+        INDEX idx_branch_transfers_copy_status (copy_id, status),
+        INDEX idx_branch_transfers_from_status (from_branch_id, status),
+        INDEX idx_branch_transfers_to_status (to_branch_id, status),
+        FOREIGN KEY (copy_id) REFERENCES book_copies(id) ON DELETE CASCADE,
+        FOREIGN KEY (from_branch_id) REFERENCES branches(id),
+        FOREIGN KEY (to_branch_id) REFERENCES branches(id),
+        FOREIGN KEY (requested_by) REFERENCES staff_users(id) ON DELETE SET NULL,
+        FOREIGN KEY (sent_by) REFERENCES staff_users(id) ON DELETE SET NULL,
+        FOREIGN KEY (received_by) REFERENCES staff_users(id) ON DELETE SET NULL
+      )
+    `);
+
+    console.log('✅ Migration complete');
+  } catch (error) {
+    console.error('❌ Migration failed:', error.message);
+    process.exitCode = 1;
+  } finally {
+    connection.release();
+    await pool.end();
+  }
+}
+
+migrate();
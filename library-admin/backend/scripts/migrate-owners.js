@@ -0,0 +1,72 @@
+import mysql from 'mysql2/promise';
+import { dbConfig } from '../config.js';
+
+/**
+ * Script to add book ownership and reclaims to an existing database
+ * Usage: node scripts/migrate-owners.js
+ * (run after migrate-acquisitions.js)
+ *
+ * Adds books.ownership and books.donated_at - every book with an owner
+ * starts out as lent, so staff mark the donated ones - and creates the
+ * copy_reclaims table. Safe to re-run.
+ */
+
+const pool = mysql.createPool(dbConfig);
+
+async function columnExists(connection, table, column) {
+  const [rows] = await connection.query(
+    `SELECT 1 FROM information_schema.columns
+     WHERE table_schema = DATABASE() AND table_name = ? AND column_name = ?`,
+    [table, column]
+  );
+  return rows.length > 0;
+}
+
+async function migrate() {
+  const connection = await pool.getConnection();
+  try {
+    if (!(await columnExists(connection, 'books', 'ownership'))) {
+      await connection.query(`
+        ALTER TABLE books
+          ADD COLUMN ownership ENUM('lent', 'donated') NOT NULL DEFAULT 'lent' AFTER owner_id,
+          ADD COLUMN donated_at DATE AFTER ownership
+      `);
+      console.log('Added the book ownership columns');
+    }
+
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS copy_reclaims (
+        id BIGINT UNSIGNED NOT NULL AUTO_INCREMENT,
+        copy_id BIGINT UNSIGNED NOT NULL,
+        owner_id BIGINT UNSIGNED,
+        status ENUM('open', 'completed', 'cancelled') NOT NULL DEFAULT 'open',
+        reason VARCHAR(500),
+        requested_by BIGINT UNSIGNED,
+        requested_by_owner TINYINT(1) NOT NULL DEFAULT 0,
+        borrower_notified_at TIMESTAMP NULL,
+        closed_by BIGINT UNSIGNED,
+        closed_at TIMESTAMP NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+        PRIMARY KEY (id),
+        INDEX idx_copy_reclaims_copy_status (copy_id, status),
+        INDEX idx_copy_reclaims_owner_id (owner_id),
+        INDEX idx_copy_reclaims_status (status),
+        FOREIGN KEY (copy_id) REFERENCES book_copies(id) ON DELETE CASCADE,
+        FOREIGN KEY (owner_id) REFERENCES users(id) ON DELETE SET NULL,
+        FOREIGN KEY (requested_by) REFERENCES staff_users(id) ON DELETE SET NULL,
+        FOREIGN KEY (closed_by) REFERENCES staff_users(id) ON DELETE SET NULL
+      )
+    `);
+
+    console.log('✅ Migration complete');
+  } catch (error) {
+    console.error('❌ Migration failed:', error.message);
+    process.exitCode = 1;
+  } finally {
+    connection.release();
+    await pool.end();
+  }
+}
+
+migrate();
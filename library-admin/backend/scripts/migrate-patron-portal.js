@@ -0,0 +1,63 @@
+import mysql from 'mysql2/promise';
+import { dbConfig } from '../config.js';
+
+/**
+ * Script to set an existing database up for the patron portal
+ * Usage: node scripts/migrate-patron-portal.js
+ *
+ * Creates the patron_login_codes table and adds book_requests.user_id, so
+ * requests made from the portal belong to the patron. Existing requests stay
+ * anonymous. Safe to re-run.
+ */
+
+const pool = mysql.createPool(dbConfig);
+
+async function columnExists(connection, table, column) {
+  const [rows] = await connection.query(
+    `SELECT 1 FROM information_schema.columns
+     WHERE table_schema = DATABASE() AND table_name = ? AND column_name = ?`,
+    [table, column]
+  );
+  return rows.length > 0;
+}
+
+async function migrate() {
+  const connection = await pool.getConnection();
+  try {
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS patron_login_codes (
+        id BIGINT UNSIGNED NOT NULL AUTO_INCREMENT,
+        user_id BIGINT UNSIGNED NOT NULL,
+        code_hash CHAR(64) NOT NULL,
+        channel VARCHAR(20) NOT NULL,
+        attempts INT NOT NULL DEFAULT 0,
+        expires_at TIMESTAMP NOT NULL,
+        used_at TIMESTAMP NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (id),
+        INDEX idx_patron_login_codes_user_id (user_id, created_at),
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+      )
+    `);
+
+    if (!(await columnExists(connection, 'book_requests', 'user_id'))) {
+      await connection.query(`
+        ALTER TABLE book_requests
+          ADD COLUMN user_id BIGINT UNSIGNED AFTER status,
+          ADD INDEX idx_book_requests_user_id (user_id),
+          ADD FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE SET NULL
+      `);
+      console.log('Added book_requests.user_id');
+    }
+
+    console.log('✅ Migration complete');
+  } catch (error) {
+    console.error('❌ Migration failed:', error.message);
+    process.exitCode = 1;
+  } finally {
+    connection.release();
+    await pool.end();
+  }
+}
+
+migrate();
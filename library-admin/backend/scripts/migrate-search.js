@@ -0,0 +1,52 @@
+import mysql from 'mysql2/promise';
+import { dbConfig } from '../config.js';
+
+/**
+ * Script to add the catalog search indexes to an existing database
+ * Usage: node scripts/migrate-search.js
+ *
+ * Adds a FULLTEXT index on book titles and descriptions, writer names and
+ * bios, and category names, for GET /api/search. Building them can take a
+ * while on a large catalog. Safe to re-run.
+ */
+
+const SEARCH_INDEXES = [
+  { table: 'books', name: 'ft_books_title', column: 'title' },
+  { table: 'books', name: 'ft_books_description', column: 'description' },
+  { table: 'writers', name: 'ft_writers_name', column: 'name' },
+  { table: 'writers', name: 'ft_writers_bio', column: 'bio' },
+  { table: 'categories', name: 'ft_categories_name', column: 'name' }
+];
+
+const pool = mysql.createPool(dbConfig);
+
+async function indexExists(connection, table, name) {
+  const [rows] = await connection.query(
+    `SELECT 1 FROM information_schema.statistics
+     WHERE table_schema = DATABASE() AND table_name = ? AND index_name = ?`,
+    [table, name]
+  );
+  return rows.length > 0;
+}
+
+async function migrate() {
+  const connection = await pool.getConnection();
+  try {
+    for (const { table, name, column } of SEARCH_INDEXES) {
+      if (!(await indexExists(connection, table, name))) {
+        await connection.query(`CREATE FULLTEXT INDEX ${name} ON ${table}(${column})`);
+        console.log(`Added ${name}`);
+      }
+    }
+
+    console.log('✅ Migration complete');
+  } catch (error) {
+    console.error('❌ Migration failed:', error.message);
+    process.exitCode = 1;
+  } finally {
+    connection.release();
+    await pool.end();
+  }
+}
+
+migrate();
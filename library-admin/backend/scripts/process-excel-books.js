@@ -719,6 +719,13 @@ async function processExcelBooks(limit = 0, batchSize = 50) {
           
           const bookId = bookResult.insertId;
           
+          // One physical copy at the first branch, with a placeholder barcode to relabel from the book's page
+          await connection.query(
+            `INSERT INTO book_copies (book_id, barcode, home_branch_id, current_branch_id)
+             SELECT ?, ?, id, id FROM branches ORDER BY id LIMIT 1`,
+            [bookId, `${bookId}-1`]
+          );
+          
           // Add category relationship
           await connection.query(
             'INSERT INTO book_categories (book_id, category_id) VALUES (?, ?)',
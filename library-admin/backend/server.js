@@ -1,8 +1,39 @@
 import express from 'express';
 import cors from 'cors';
 import pool from './db.js';
-import { adminCredentials, serverConfig } from './config.js';
+import { serverConfig, authConfig, mailConfig, reminderConfig, patronAuthConfig } from './config.js';
 import { getCache, CacheKeys } from './cache/index.js';
+import { recordAudit, snapshot, AUDIT_ENTITIES } from './audit/index.js';
+import { parseListQuery, toPage, contains, equals, oneOf, bound, flag } from './lists/index.js';
+import { BOOK_LIST, loadBookPage, loadBook, duplicateBookExists, parseSearchQuery, searchBooks } from './catalog/index.js';
+import { loadVocabulary, containsOrSpelledLike } from './matching/index.js';
+import {
+  getMailTransport, TEMPLATE_FIELDS, unknownFields, previewReminders, sendDueReminders, sendTestNotice,
+  sendRequestNotices, sendReclaimNotices
+} from './notifications/index.js';
+import {
+  getBalance, getFineSettings, saveFineSettings,
+  CirculationError, returnLoan, changeLoanStatus, getLossSettings, saveLossSettings, checkRenewal, renewLoan, getRenewalSettings, saveRenewalSettings,
+  ACTIVE_HOLD_STATUSES, getHoldSettings, saveHoldSettings, placeHold,
+  assignReturnedCopy, endHold, expireHolds, issueLoan, returnCopy,
+  syncCopyCounts, findCopyByBarcode, parseCopyInput, createCopy, updateCopy, deleteCopy, getBranchAvailability,
+  TRANSFER_STATUSES, findBranch, getDefaultBranch, requestTransfer, sendTransfer, receiveTransfer, cancelTransfer,
+  PATRON_TYPES, checkLoanPolicy,
+  WEEKDAYS, getOpeningHours, saveOpeningHours, getCalendarSettings, saveCalendarSettings,
+  requestTitleKey, changeRequestStatus,
+  LOAN_STATUSES, RECLAIM_STATUSES, BORROWER_VISIBILITY, getOwnerSettings, saveOwnerSettings, getOwnerSummaries, getOwnedBooks,
+  getDonations, openReclaim, reclaimBook, completeReclaim, cancelReclaim
+} from './circulation/index.js';
+import {
+  ORDER_STATUSES, parseOrderInput, parseOrderLineInput, createOrder, updateOrder, addOrderLines, addRequestLines,
+  updateOrderLine, removeOrderLine, placeOrder, cancelOrder, receiveOrder, parseQuoteSheet,
+  getAcquisitionSettings, saveAcquisitionSettings, fiscalYearOf, fiscalYearRange, getBudgetSummary
+} from './acquisitions/index.js';
+import {
+  hashPassword, verifyPassword, issueTokens, verifyToken, requireAuth, requirePermission,
+  issuePatronToken, requirePatron, requestLoginCode, verifyLoginCode,
+  Permissions, ROLES, ROLE_PERMISSIONS, permissionsForRole
+} from './auth/index.js';
 
 const app = express();
 const cache = getCache();
@@ -22,9 +53,10 @@ app.get('/api/cache/stats', async (req, res) => {
   }
 });
 
-app.post('/api/cache/clear', async (req, res) => {
+app.post('/api/cache/clear', requirePermission(Permissions.CACHE_CLEAR), async (req, res) => {
   try {
     await cache.clear();
+    await recordAudit(pool, req, { entity: 'cache', entityId: 'all', action: 'clear' });
     res.json({ success: true, message: 'Cache cleared' });
   } catch (error) {
     res.status(500).json({ error: error.message });
@@ -34,13 +66,245 @@ app.post('/api/cache/clear', async (req, res) => {
 // =============================================
 // AUTH ROUTES
 // =============================================
-app.post('/api/auth/login', (req, res) => {
-  const { username, password } = req.body;
-  
-  if (username === adminCredentials.username && password === adminCredentials.password) {
-    res.json({ success: true, token: 'admin-token' });
-  } else {
-    res.status(401).json({ error: 'Invalid credentials' });
+const toStaffResponse = (staff) => ({
+  id: String(staff.id),
+  username: staff.username,
+  name: staff.name,
+  role: staff.role,
+  permissions: permissionsForRole(staff.role)
+});
+
+// The signed-in staff member, with the branch they're working at
+const toSessionResponse = (staff, branch) => ({
+  ...toStaffResponse(staff),
+  branch: branch ? { id: String(branch.id), name: branch.name } : null
+});
+
+// The active branch staff asked to work at, or the default branch when they
+// didn't pick one (or the one they had has since closed)
+const resolveSessionBranch = async (branchId, { fallBack = true } = {}) => {
+  const branch = branchId ? await findBranch(pool, branchId) : null;
+  if (branch?.is_active) {
+    return branch;
+  }
+  return fallBack ? getDefaultBranch(pool) : null;
+};
+
+app.post('/api/auth/login', async (req, res) => {
+  try {
+    const { username, password, branchId } = req.body;
+
+    const [rows] = await pool.query(
+      'SELECT id, username, name, role, password_hash, is_active, token_version FROM staff_users WHERE username = ?',
+      [username || '']
+    );
+    const staff = rows[0];
+
+    // Always run the hash comparison so unknown usernames are not distinguishable by timing
+    const passwordMatches = await verifyPassword(password, staff?.password_hash || null);
+    if (!staff || !passwordMatches || !staff.is_active) {
+      return res.status(401).json({ error: 'Invalid credentials' });
+    }
+
+    const branch = await resolveSessionBranch(branchId, { fallBack: !branchId });
+    if (branchId && !branch) {
+      return res.status(400).json({ error: 'Branch not found or no longer active' });
+    }
+
+    await pool.query('UPDATE staff_users SET last_login_at = NOW() WHERE id = ?', [staff.id]);
+
+    res.json({ success: true, ...issueTokens(staff, branch), staff: toSessionResponse(staff, branch) });
+  } catch (error) {
+    console.error('Error logging in:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.post('/api/auth/refresh', async (req, res) => {
+  try {
+    const payload = verifyToken(req.body.refreshToken, 'refresh');
+    if (!payload) {
+      return res.status(401).json({ error: 'Session expired, please sign in again' });
+    }
+
+    const [rows] = await pool.query(
+      'SELECT id, username, name, role, is_active, token_version FROM staff_users WHERE id = ?',
+      [payload.sub]
+    );
+    const staff = rows[0];
+    if (!staff || !staff.is_active || staff.token_version !== payload.ver) {
+      return res.status(401).json({ error: 'Session expired, please sign in again' });
+    }
+
+    const branch = await resolveSessionBranch(payload.branchId);
+    res.json({ success: true, ...issueTokens(staff, branch), staff: toSessionResponse(staff, branch) });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.get('/api/auth/me', requireAuth, (req, res) => {
+  const branch = req.staff.branchId ? { id: req.staff.branchId, name: req.staff.branchName } : null;
+  res.json(toSessionResponse(req.staff, branch));
+});
+
+// Move to another branch without signing out: new tokens scoped to it
+app.post('/api/auth/branch', requireAuth, async (req, res) => {
+  try {
+    const branch = await resolveSessionBranch(req.body.branchId, { fallBack: false });
+    if (!branch) {
+      return res.status(400).json({ error: 'Branch not found or no longer active' });
+    }
+
+    const [rows] = await pool.query(
+      'SELECT id, username, name, role, is_active, token_version FROM staff_users WHERE id = ?',
+      [req.staff.id]
+    );
+    const staff = rows[0];
+    if (!staff || !staff.is_active) {
+      return res.status(401).json({ error: 'Session expired, please sign in again' });
+    }
+
+    res.json({ success: true, ...issueTokens(staff, branch), staff: toSessionResponse(staff, branch) });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.post('/api/auth/logout', requireAuth, async (req, res) => {
+  try {
+    // Revokes every refresh token issued to this account so far
+    await pool.query('UPDATE staff_users SET token_version = token_version + 1 WHERE id = ?', [req.staff.id]);
+    res.json({ success: true });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// =============================================
+// STAFF ROUTES (role management)
+// =============================================
+app.get('/api/roles', requireAuth, (req, res) => {
+  res.json(ROLES.map(role => ({ role, permissions: ROLE_PERMISSIONS[role] })));
+});
+
+app.get('/api/staff', requirePermission(Permissions.STAFF_MANAGE), async (req, res) => {
+  try {
+    const [rows] = await pool.query(
+      'SELECT id, username, name, role, is_active, last_login_at FROM staff_users ORDER BY name'
+    );
+    res.json(rows.map(row => ({
+      ...toStaffResponse(row),
+      isActive: Boolean(row.is_active),
+      lastLoginAt: row.last_login_at ? row.last_login_at.toISOString() : null
+    })));
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.post('/api/staff', requirePermission(Permissions.STAFF_MANAGE), async (req, res) => {
+  try {
+    const { username, name, password, role } = req.body;
+
+    if (typeof username !== 'string' || !username.trim()) {
+      return res.status(400).json({ error: 'Username is required' });
+    }
+    if (typeof name !== 'string' || !name.trim()) {
+      return res.status(400).json({ error: 'Name is required' });
+    }
+    if (!ROLES.includes(role)) {
+      return res.status(400).json({ error: `Unknown role "${role}"` });
+    }
+    if (typeof password !== 'string' || password.length < 8) {
+      return res.status(400).json({ error: 'Password must be at least 8 characters' });
+    }
+
+    const [existing] = await pool.query('SELECT id FROM staff_users WHERE username = ?', [username]);
+    if (existing.length > 0) {
+      return res.status(400).json({ error: `Username "${username}" is already taken` });
+    }
+
+    const passwordHash = await hashPassword(password);
+    const [result] = await pool.query(
+      'INSERT INTO staff_users (username, password_hash, name, role) VALUES (?, ?, ?, ?)',
+      [username, passwordHash, name, role]
+    );
+    await recordAudit(pool, req, {
+      entity: 'staff', entityId: result.insertId, action: 'create',
+      after: await snapshot(pool, 'staff', result.insertId)
+    });
+
+    res.json({
+      ...toStaffResponse({ id: result.insertId, username, name, role }),
+      isActive: true,
+      lastLoginAt: null
+    });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.put('/api/staff/:id', requirePermission(Permissions.STAFF_MANAGE), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { name, role, isActive, password } = req.body;
+
+    if (typeof name !== 'string' || !name.trim()) {
+      return res.status(400).json({ error: 'Name is required' });
+    }
+    if (!ROLES.includes(role)) {
+      return res.status(400).json({ error: `Unknown role "${role}"` });
+    }
+    if (isActive !== undefined && typeof isActive !== 'boolean') {
+      return res.status(400).json({ error: 'isActive must be true or false' });
+    }
+
+    const [rows] = await pool.query('SELECT id, username, role, is_active FROM staff_users WHERE id = ?', [id]);
+    if (rows.length === 0) {
+      return res.status(404).json({ error: 'Staff user not found' });
+    }
+    const current = rows[0];
+    // Left out, the account stays as active as it was
+    const active = isActive ?? Boolean(current.is_active);
+
+    // Stop admins from locking themselves (and possibly everyone) out
+    if (id === req.staff.id && (role !== 'admin' || !active)) {
+      return res.status(400).json({ error: 'You cannot remove your own admin role or deactivate yourself' });
+    }
+
+    // Changing role, deactivating or resetting the password revokes refresh tokens,
+    // so the account has to sign in again and picks up the new permissions
+    const revokeSessions = current.role !== role || Boolean(current.is_active) !== active || Boolean(password);
+
+    let query = 'UPDATE staff_users SET name = ?, role = ?, is_active = ?';
+    const params = [name, role, active ? 1 : 0];
+    if (password) {
+      if (typeof password !== 'string' || password.length < 8) {
+        return res.status(400).json({ error: 'Password must be at least 8 characters' });
+      }
+      query += ', password_hash = ?';
+      params.push(await hashPassword(password));
+    }
+    if (revokeSessions) {
+      query += ', token_version = token_version + 1';
+    }
+    query += ' WHERE id = ?';
+    params.push(id);
+
+    const before = await snapshot(pool, 'staff', id);
+    await pool.query(query, params);
+    await recordAudit(pool, req, {
+      entity: 'staff', entityId: id, action: password ? 'update_password' : 'update',
+      before, after: await snapshot(pool, 'staff', id)
+    });
+
+    res.json({
+      ...toStaffResponse({ id, username: current.username, name, role }),
+      isActive: active
+    });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
   }
 });
 
@@ -74,7 +338,7 @@ app.get('/api/categories', async (req, res) => {
   }
 });
 
-app.post('/api/categories', async (req, res) => {
+app.post('/api/categories', requirePermission(Permissions.CATALOG_WRITE), async (req, res) => {
   try {
     const { name, description, abbreviation } = req.body;
     
@@ -97,6 +361,10 @@ app.post('/api/categories', async (req, res) => {
     }
     
     const [result] = await pool.query(query, params);
+    await recordAudit(pool, req, {
+      entity: 'category', entityId: result.insertId, action: 'create',
+      after: await snapshot(pool, 'category', result.insertId)
+    });
     res.json({ 
       id: String(result.insertId), 
       name, 
@@ -109,7 +377,7 @@ app.post('/api/categories', async (req, res) => {
   }
 });
 
-app.put('/api/categories/:id', async (req, res) => {
+app.put('/api/categories/:id', requirePermission(Permissions.CATALOG_WRITE), async (req, res) => {
   try {
     const { id } = req.params;
     const { name, description, abbreviation } = req.body;
@@ -132,7 +400,14 @@ app.put('/api/categories/:id', async (req, res) => {
       params = [name, description, id];
     }
     
+    const before = await snapshot(pool, 'category', id);
     await pool.query(query, params);
+    await recordAudit(pool, req, {
+      entity: 'category', entityId: id, action: 'update',
+      before, after: await snapshot(pool, 'category', id)
+    });
+    // Book searches match categories' names
+    await cache.deletePattern(CacheKeys.patterns.allBooks);
     res.json({ 
       id, 
       name, 
@@ -145,10 +420,13 @@ app.put('/api/categories/:id', async (req, res) => {
   }
 });
 
-app.delete('/api/categories/:id', async (req, res) => {
+app.delete('/api/categories/:id', requirePermission(Permissions.CATALOG_DELETE), async (req, res) => {
   try {
     const { id } = req.params;
+    const before = await snapshot(pool, 'category', id);
     await pool.query('DELETE FROM categories WHERE id = ?', [id]);
+    await recordAudit(pool, req, { entity: 'category', entityId: id, action: 'delete', before });
+    await cache.deletePattern(CacheKeys.patterns.allBooks);
     res.json({ success: true });
   } catch (error) {
     res.status(500).json({ error: error.message });
@@ -158,10 +436,32 @@ app.delete('/api/categories/:id', async (req, res) => {
 // =============================================
 // WRITERS ROUTES
 // =============================================
+// What the writer list can be sorted and filtered by (see lists/index.js)
+const WRITER_LIST = {
+  sorts: { name: 'name', nationality: 'nationality' },
+  defaultSort: ['name'],
+  tiebreaker: 'id',
+  filters: {
+    q: contains('name', 'nationality', 'bio'),
+    id: oneOf('id'),
+    name: equals('name'),
+    nationality: equals('nationality')
+  }
+};
+
 app.get('/api/writers', async (req, res) => {
   try {
-    const [rows] = await pool.query('SELECT id, name, nationality, bio, image_url FROM writers ORDER BY name');
-    res.json(rows.map(row => {
+    const { values: list, error } = parseListQuery(req.query, WRITER_LIST);
+    if (error) {
+      return res.status(400).json({ error });
+    }
+
+    const [[{ total }]] = await pool.query(`SELECT COUNT(*) AS total FROM writers ${list.where}`, list.params);
+    const [rows] = await pool.query(
+      `SELECT id, name, nationality, bio, image_url FROM writers ${list.where} ORDER BY ${list.orderBy} LIMIT ? OFFSET ?`,
+      [...list.params, list.limit, list.offset]
+    );
+    res.json(toPage(rows.map(row => {
       const writer = {
         id: String(row.id),
         name: row.name,
@@ -173,13 +473,13 @@ app.get('/api/writers', async (req, res) => {
         writer.imageUrl = row.image_url;
       }
       return writer;
-    }));
+    }), total, list));
   } catch (error) {
     res.status(500).json({ error: error.message });
   }
 });
 
-app.post('/api/writers', async (req, res) => {
+app.post('/api/writers', requirePermission(Permissions.CATALOG_WRITE), async (req, res) => {
   try {
     const { name, nationality, bio, imageUrl } = req.body;
     
@@ -198,13 +498,17 @@ app.post('/api/writers', async (req, res) => {
       'INSERT INTO writers (name, nationality, bio, image_url) VALUES (?, ?, ?, ?)',
       [name, nationality, bio, imageUrl || null]
     );
+    await recordAudit(pool, req, {
+      entity: 'writer', entityId: result.insertId, action: 'create',
+      after: await snapshot(pool, 'writer', result.insertId)
+    });
     res.json({ id: String(result.insertId), name, nationality, bio, imageUrl: imageUrl || undefined });
   } catch (error) {
     res.status(500).json({ error: error.message });
   }
 });
 
-app.put('/api/writers/:id', async (req, res) => {
+app.put('/api/writers/:id', requirePermission(Permissions.CATALOG_WRITE), async (req, res) => {
   try {
     const { id } = req.params;
     const { name, nationality, bio, imageUrl } = req.body;
@@ -220,20 +524,30 @@ app.put('/api/writers/:id', async (req, res) => {
       });
     }
     
+    const before = await snapshot(pool, 'writer', id);
     await pool.query(
       'UPDATE writers SET name = ?, nationality = ?, bio = ?, image_url = ? WHERE id = ?',
       [name, nationality, bio, imageUrl || null, id]
     );
+    await recordAudit(pool, req, {
+      entity: 'writer', entityId: id, action: 'update',
+      before, after: await snapshot(pool, 'writer', id)
+    });
+    // Book searches match writers' names
+    await cache.deletePattern(CacheKeys.patterns.allBooks);
     res.json({ id, name, nationality, bio, imageUrl: imageUrl || undefined });
   } catch (error) {
     res.status(500).json({ error: error.message });
   }
 });
 
-app.delete('/api/writers/:id', async (req, res) => {
+app.delete('/api/writers/:id', requirePermission(Permissions.CATALOG_DELETE), async (req, res) => {
   try {
     const { id } = req.params;
+    const before = await snapshot(pool, 'writer', id);
     await pool.query('DELETE FROM writers WHERE id = ?', [id]);
+    await recordAudit(pool, req, { entity: 'writer', entityId: id, action: 'delete', before });
+    await cache.deletePattern(CacheKeys.patterns.allBooks);
     res.json({ success: true });
   } catch (error) {
     res.status(500).json({ error: error.message });
@@ -243,31 +557,137 @@ app.delete('/api/writers/:id', async (req, res) => {
 // =============================================
 // USERS ROUTES (with caching)
 // =============================================
-app.get('/api/users', async (req, res) => {
+const USER_FINE_BALANCE = `(
+  SELECT COALESCE(SUM(CASE WHEN fl.entry_type = 'fine' THEN fl.amount ELSE -fl.amount END), 0)
+  FROM fine_ledger fl WHERE fl.user_id = u.id
+)`;
+
+// Where the user list's q looks
+const USER_TEXT_COLUMNS = ['u.name', 'u.phone', 'u.email', 'u.card_number'];
+
+// What the user list can be sorted and filtered by (see lists/index.js)
+const USER_LIST = {
+  sorts: {
+    name: 'u.name',
+    email: 'u.email',
+    phone: 'u.phone',
+    patronType: 'u.patron_type',
+    cardNumber: 'u.card_number',
+    fineBalance: USER_FINE_BALANCE,
+    createdAt: 'u.created_at'
+  },
+  defaultSort: ['name'],
+  tiebreaker: 'u.id',
+  filters: {
+    q: contains(...USER_TEXT_COLUMNS),
+    id: oneOf('u.id'),
+    phone: equals('u.phone'),
+    email: equals('u.email'),
+    cardNumber: equals('u.card_number'),
+    patronType: oneOf('u.patron_type', PATRON_TYPES),
+    owesFines: flag(`${USER_FINE_BALANCE} > 0`, `${USER_FINE_BALANCE} <= 0`)
+  }
+};
+
+// The user list with q also finding names spelled a little differently,
+// e.g. without their accents or with a typo (see matching/)
+const userListMatching = (names) => ({
+  ...USER_LIST,
+  filters: { ...USER_LIST.filters, q: containsOrSpelledLike(names, 'u.name', ...USER_TEXT_COLUMNS) }
+});
+
+app.get('/api/users', requireAuth, async (req, res) => {
   try {
-    // Try cache first
-    const cacheKey = CacheKeys.allUsers();
+    const userList = req.query.q ? userListMatching(await loadVocabulary(pool, cache, 'users')) : USER_LIST;
+    const { values: list, error } = parseListQuery(req.query, userList);
+    if (error) {
+      return res.status(400).json({ error });
+    }
+
+    // Try cache first - each page is cached on its own
+    const cacheKey = CacheKeys.userList(JSON.stringify(list));
     const cached = await cache.get(cacheKey);
     if (cached) {
       return res.json(cached);
     }
 
     // Cache miss - fetch from DB
-    const [rows] = await pool.query('SELECT id, name, phone, email FROM users ORDER BY name');
-    const users = rows.map(row => ({ ...row, id: String(row.id) }));
-    
+    const [[{ total }]] = await pool.query(`SELECT COUNT(*) AS total FROM users u ${list.where}`, list.params);
+    const [rows] = await pool.query(`
+      SELECT u.id, u.name, u.phone, u.email, u.patron_type as patronType, u.card_number as cardNumber,
+             ${USER_FINE_BALANCE} as fineBalance
+      FROM users u
+      ${list.where}
+      ORDER BY ${list.orderBy}
+      LIMIT ? OFFSET ?
+    `, [...list.params, list.limit, list.offset]);
+    const page = toPage(
+      rows.map(row => ({ ...row, id: String(row.id), fineBalance: Number(row.fineBalance) })),
+      total,
+      list
+    );
+
     // Store in cache
-    await cache.set(cacheKey, users);
-    
-    res.json(users);
+    await cache.set(cacheKey, page);
+
+    res.json(page);
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Find the user holding a library card number, other than excludeId
+ */
+const findCardHolder = async (cardNumber, excludeId) => {
+  const [rows] = await pool.query(
+    'SELECT id FROM users WHERE card_number = ? AND id <> ?',
+    [cardNumber, excludeId || 0]
+  );
+  return rows[0] || null;
+};
+
+// Find a patron from a scanned library card, or a phone number or email typed at the desk
+app.get('/api/users/lookup', requirePermission(Permissions.CIRCULATION_ISSUE), async (req, res) => {
+  try {
+    const code = String(req.query.code || '').trim();
+    if (!code) {
+      return res.status(400).json({ error: 'Scan a library card or type a phone number or email' });
+    }
+    const [rows] = await pool.query(`
+      SELECT u.id, u.name, u.phone, u.email, u.patron_type as patronType, u.card_number as cardNumber,
+             (SELECT COALESCE(SUM(CASE WHEN fl.entry_type = 'fine' THEN fl.amount ELSE -fl.amount END), 0)
+              FROM fine_ledger fl WHERE fl.user_id = u.id) as fineBalance,
+             (SELECT COUNT(*) FROM books_circulation bc
+              WHERE bc.user_id = u.id AND bc.status = 'issued') as onLoan,
+             (SELECT COUNT(*) FROM books_circulation bc
+              WHERE bc.user_id = u.id AND bc.status = 'issued' AND bc.due_date < CURDATE()) as overdue,
+             (SELECT COUNT(*) FROM holds h WHERE h.user_id = u.id AND h.status = 'ready') as readyHolds
+      FROM users u
+      WHERE u.card_number = ? OR u.phone = ? OR u.email = ?
+      ORDER BY u.card_number = ? DESC
+      LIMIT 1
+    `, [code, code, code, code]);
+    if (rows.length === 0) {
+      return res.status(404).json({ error: `No patron found for ${code}` });
+    }
+    const [user] = rows;
+    res.json({ ...user, id: String(user.id), fineBalance: Number(user.fineBalance) });
   } catch (error) {
     res.status(500).json({ error: error.message });
   }
 });
 
-app.post('/api/users', async (req, res) => {
+app.post('/api/users', requirePermission(Permissions.USERS_WRITE), async (req, res) => {
   try {
-    const { name, phone, email } = req.body;
+    const { name, phone, email, patronType = 'adult' } = req.body;
+    const cardNumber = req.body.cardNumber?.trim() || null;
+    if (!PATRON_TYPES.includes(patronType)) {
+      return res.status(400).json({ error: `Patron type must be one of: ${PATRON_TYPES.join(', ')}` });
+    }
+    if (cardNumber && (await findCardHolder(cardNumber, null))) {
+      return res.status(400).json({ error: 'Library card number already belongs to another user' });
+    }
     
     // Check for duplicate phone
     const [phoneCheck] = await pool.query(
@@ -288,23 +708,34 @@ app.post('/api/users', async (req, res) => {
     }
     
     const [result] = await pool.query(
-      'INSERT INTO users (name, phone, email) VALUES (?, ?, ?)',
-      [name, phone, email]
+      'INSERT INTO users (name, phone, email, patron_type, card_number) VALUES (?, ?, ?, ?, ?)',
+      [name, phone, email, patronType, cardNumber]
     );
+    await recordAudit(pool, req, {
+      entity: 'user', entityId: result.insertId, action: 'create',
+      after: await snapshot(pool, 'user', result.insertId)
+    });
     
     // Invalidate users cache
     await cache.deletePattern(CacheKeys.patterns.allUsers);
     
-    res.json({ id: String(result.insertId), name, phone, email });
+    res.json({ id: String(result.insertId), name, phone, email, patronType, cardNumber });
   } catch (error) {
     res.status(500).json({ error: error.message });
   }
 });
 
-app.put('/api/users/:id', async (req, res) => {
+app.put('/api/users/:id', requirePermission(Permissions.USERS_WRITE), async (req, res) => {
   try {
     const { id } = req.params;
-    const { name, phone, email } = req.body;
+    const { name, phone, email, patronType = 'adult' } = req.body;
+    const cardNumber = req.body.cardNumber?.trim() || null;
+    if (!PATRON_TYPES.includes(patronType)) {
+      return res.status(400).json({ error: `Patron type must be one of: ${PATRON_TYPES.join(', ')}` });
+    }
+    if (cardNumber && (await findCardHolder(cardNumber, id))) {
+      return res.status(400).json({ error: 'Library card number already belongs to another user' });
+    }
     
     // Check for duplicate phone (excluding current user)
     const [phoneCheck] = await pool.query(
@@ -324,24 +755,31 @@ app.put('/api/users/:id', async (req, res) => {
       return res.status(400).json({ error: 'Email already registered to another user' });
     }
     
+    const before = await snapshot(pool, 'user', id);
     await pool.query(
-      'UPDATE users SET name = ?, phone = ?, email = ? WHERE id = ?',
-      [name, phone, email, id]
+      'UPDATE users SET name = ?, phone = ?, email = ?, patron_type = ?, card_number = ? WHERE id = ?',
+      [name, phone, email, patronType, cardNumber, id]
     );
+    await recordAudit(pool, req, {
+      entity: 'user', entityId: id, action: 'update',
+      before, after: await snapshot(pool, 'user', id)
+    });
     
     // Invalidate users cache
     await cache.deletePattern(CacheKeys.patterns.allUsers);
     
-    res.json({ id, name, phone, email });
+    res.json({ id, name, phone, email, patronType, cardNumber });
   } catch (error) {
     res.status(500).json({ error: error.message });
   }
 });
 
-app.delete('/api/users/:id', async (req, res) => {
+app.delete('/api/users/:id', requirePermission(Permissions.USERS_DELETE), async (req, res) => {
   try {
     const { id } = req.params;
+    const before = await snapshot(pool, 'user', id);
     await pool.query('DELETE FROM users WHERE id = ?', [id]);
+    await recordAudit(pool, req, { entity: 'user', entityId: id, action: 'delete', before });
     
     // Invalidate users cache
     await cache.deletePattern(CacheKeys.patterns.allUsers);
@@ -357,45 +795,25 @@ app.delete('/api/users/:id', async (req, res) => {
 // =============================================
 app.get('/api/books', async (req, res) => {
   try {
-    // Try cache first
-    const cacheKey = CacheKeys.allBooks();
+    const { values: list, error } = parseListQuery(req.query, BOOK_LIST);
+    if (error) {
+      return res.status(400).json({ error });
+    }
+
+    // Try cache first - each page is cached on its own
+    const cacheKey = CacheKeys.bookList(JSON.stringify(list));
     const cached = await cache.get(cacheKey);
     if (cached) {
       return res.json(cached);
     }
 
     // Cache miss - fetch from DB
-    const [books] = await pool.query(`
-      SELECT b.id, b.title, b.isbn, b.label_number as labelNumber, b.barcode,
-             b.publication_year as publicationYear, b.total_copies as totalCopies,
-             b.available_copies as availableCopies, b.image_url as imageUrl,
-             b.description, b.owner_id as ownerId, b.book_type as bookType,
-             u.name as ownerName, u.phone as ownerPhone, u.email as ownerEmail
-      FROM books b
-      LEFT JOIN users u ON b.owner_id = u.id
-      ORDER BY b.title
-    `);
-
-    // Get categories and writers for each book
-    for (const book of books) {
-      const [categories] = await pool.query(
-        'SELECT category_id FROM book_categories WHERE book_id = ?',
-        [book.id]
-      );
-      const [writers] = await pool.query(
-        'SELECT writer_id FROM book_writers WHERE book_id = ?',
-        [book.id]
-      );
-      book.id = String(book.id);
-      book.ownerId = book.ownerId ? String(book.ownerId) : null;
-      book.categoryIds = categories.map(c => String(c.category_id));
-      book.writerIds = writers.map(w => String(w.writer_id));
-    }
+    const page = await loadBookPage(pool, list);
 
     // Store in cache
-    await cache.set(cacheKey, books);
+    await cache.set(cacheKey, page);
 
-    res.json(books);
+    res.json(page);
   } catch (error) {
     res.status(500).json({ error: error.message });
   }
@@ -413,36 +831,11 @@ app.get('/api/books/:id', async (req, res) => {
     }
 
     // Cache miss - fetch from DB
-    const [books] = await pool.query(`
-      SELECT b.id, b.title, b.isbn, b.label_number as labelNumber, b.barcode,
-             b.publication_year as publicationYear, b.total_copies as totalCopies,
-             b.available_copies as availableCopies, b.image_url as imageUrl,
-             b.description, b.owner_id as ownerId, b.book_type as bookType,
-             u.name as ownerName, u.phone as ownerPhone, u.email as ownerEmail
-      FROM books b
-      LEFT JOIN users u ON b.owner_id = u.id
-      WHERE b.id = ?
-    `, [id]);
-
-    if (books.length === 0) {
+    const book = await loadBook(pool, id);
+    if (!book) {
       return res.status(404).json({ error: 'Book not found' });
     }
 
-    const book = books[0];
-    const [categories] = await pool.query(
-      'SELECT category_id FROM book_categories WHERE book_id = ?',
-      [id]
-    );
-    const [writers] = await pool.query(
-      'SELECT writer_id FROM book_writers WHERE book_id = ?',
-      [id]
-    );
-
-    book.id = String(book.id);
-    book.ownerId = book.ownerId ? String(book.ownerId) : null;
-    book.categoryIds = categories.map(c => String(c.category_id));
-    book.writerIds = writers.map(w => String(w.writer_id));
-
     // Store in cache
     await cache.set(cacheKey, book);
 
@@ -452,49 +845,33 @@ app.get('/api/books/:id', async (req, res) => {
   }
 });
 
-app.post('/api/books', async (req, res) => {
-  const connection = await pool.getConnection();
+app.post('/api/books', requirePermission(Permissions.CATALOG_WRITE), async (req, res) => {
+  let connection;
   try {
+    connection = await pool.getConnection();
     await connection.beginTransaction();
 
-    const { title, isbn, labelNumber, barcode, publicationYear, totalCopies, 
-            availableCopies, imageUrl, description, categoryIds, writerIds, ownerId, bookType } = req.body;
+    // Copy counts come from book_copies, so new books start with none
+    const { title, isbn, labelNumber, publicationYear, imageUrl, description,
+            categoryIds, writerIds, ownerId, bookType, language, ownership, donatedAt } = req.body;
+    // Books are lent unless the owner gave them; a donation is dated today unless given
+    const bookOwnership = ownership === 'donated' ? 'donated' : 'lent';
 
     // Check for duplicate title + writers combination
-    if (writerIds && writerIds.length > 0) {
-      const sortedWriterIds = [...writerIds].map(id => parseInt(id)).sort((a, b) => a - b);
-      
-      // Find books with the same title (case-insensitive)
-      const [booksWithSameTitle] = await connection.query(
-        'SELECT id FROM books WHERE LOWER(TRIM(title)) = LOWER(TRIM(?))',
-        [title]
-      );
-      
-      for (const book of booksWithSameTitle) {
-        // Get writers for this book
-        const [bookWriters] = await connection.query(
-          'SELECT writer_id FROM book_writers WHERE book_id = ? ORDER BY writer_id',
-          [book.id]
-        );
-        const bookWriterIds = bookWriters.map(w => w.writer_id).sort((a, b) => a - b);
-        
-        // Check if writers match
-        if (bookWriterIds.length === sortedWriterIds.length &&
-            bookWriterIds.every((id, i) => id === sortedWriterIds[i])) {
-          await connection.rollback();
-          return res.status(400).json({ 
-            error: 'A book with this title and writer(s) combination already exists' 
-          });
-        }
-      }
+    if (await duplicateBookExists(connection, title, writerIds)) {
+      await connection.rollback();
+      return res.status(400).json({
+        error: 'A book with this title and writer(s) combination already exists'
+      });
     }
 
     const [result] = await connection.query(
-      `INSERT INTO books (title, isbn, label_number, barcode, publication_year, 
-       total_copies, available_copies, image_url, description, owner_id, book_type) 
-       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-      [title, isbn, labelNumber, barcode, publicationYear, totalCopies, 
-       availableCopies, imageUrl, description, ownerId || null, bookType || 'Paperback']
+      `INSERT INTO books (title, isbn, label_number, publication_year, 
+       image_url, description, owner_id, book_type, language, ownership, donated_at) 
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, CASE WHEN ? = 'donated' THEN COALESCE(?, CURDATE()) END)`,
+      [title, isbn, labelNumber, publicationYear, 
+       imageUrl, description, ownerId || null, bookType || 'Paperback', language?.trim() || null,
+       bookOwnership, bookOwnership, donatedAt || null]
     );
 
     const bookId = result.insertId;
@@ -519,81 +896,55 @@ app.post('/api/books', async (req, res) => {
       }
     }
 
+    const created = await snapshot(connection, 'book', bookId);
+    await recordAudit(connection, req, {
+      entity: 'book', entityId: bookId, action: 'create',
+      after: created
+    });
+
     await connection.commit();
 
     // Invalidate books cache
     await cache.deletePattern(CacheKeys.patterns.allBooks);
 
-    // Fetch owner details if exists
-    let ownerName = null, ownerPhone = null, ownerEmail = null;
-    if (ownerId) {
-      const [owners] = await pool.query('SELECT name, phone, email FROM users WHERE id = ?', [ownerId]);
-      if (owners.length > 0) {
-        ownerName = owners[0].name;
-        ownerPhone = owners[0].phone;
-        ownerEmail = owners[0].email;
-      }
-    }
-
-    res.json({
-      id: String(bookId), title, isbn, labelNumber, barcode, publicationYear,
-      totalCopies, availableCopies, imageUrl, description,
-      categoryIds: categoryIds || [], writerIds: writerIds || [],
-      ownerId: ownerId ? String(ownerId) : null, ownerName, ownerPhone, ownerEmail,
-      bookType: bookType || 'Paperback'
-    });
+    res.json(await loadBook(pool, bookId));
   } catch (error) {
-    await connection.rollback();
+    await connection?.rollback();
     res.status(500).json({ error: error.message });
   } finally {
-    connection.release();
+    connection?.release();
   }
 });
 
-app.put('/api/books/:id', async (req, res) => {
-  const connection = await pool.getConnection();
+app.put('/api/books/:id', requirePermission(Permissions.CATALOG_WRITE), async (req, res) => {
+  let connection;
   try {
+    connection = await pool.getConnection();
     await connection.beginTransaction();
 
     const { id } = req.params;
-    const { title, isbn, labelNumber, barcode, publicationYear, totalCopies, 
-            availableCopies, imageUrl, description, categoryIds, writerIds, ownerId, bookType } = req.body;
+    const { title, isbn, labelNumber, publicationYear, imageUrl, description,
+            categoryIds, writerIds, ownerId, bookType, language, ownership, donatedAt } = req.body;
+    // Books are lent unless the owner gave them; a donation is dated today unless given
+    const bookOwnership = ownership === 'donated' ? 'donated' : 'lent';
 
     // Check for duplicate title + writers combination (excluding current book)
-    if (writerIds && writerIds.length > 0) {
-      const sortedWriterIds = [...writerIds].map(wid => parseInt(wid)).sort((a, b) => a - b);
-      
-      // Find books with the same title (case-insensitive), excluding current book
-      const [booksWithSameTitle] = await connection.query(
-        'SELECT id FROM books WHERE LOWER(TRIM(title)) = LOWER(TRIM(?)) AND id != ?',
-        [title, id]
-      );
-      
-      for (const book of booksWithSameTitle) {
-        // Get writers for this book
-        const [bookWriters] = await connection.query(
-          'SELECT writer_id FROM book_writers WHERE book_id = ? ORDER BY writer_id',
-          [book.id]
-        );
-        const bookWriterIds = bookWriters.map(w => w.writer_id).sort((a, b) => a - b);
-        
-        // Check if writers match
-        if (bookWriterIds.length === sortedWriterIds.length &&
-            bookWriterIds.every((wid, i) => wid === sortedWriterIds[i])) {
-          await connection.rollback();
-          return res.status(400).json({ 
-            error: 'A book with this title and writer(s) combination already exists' 
-          });
-        }
-      }
+    if (await duplicateBookExists(connection, title, writerIds, id)) {
+      await connection.rollback();
+      return res.status(400).json({
+        error: 'A book with this title and writer(s) combination already exists'
+      });
     }
 
+    const before = await snapshot(connection, 'book', id);
+
     await connection.query(
-      `UPDATE books SET title = ?, isbn = ?, label_number = ?, barcode = ?, 
-       publication_year = ?, total_copies = ?, available_copies = ?, 
-       image_url = ?, description = ?, owner_id = ?, book_type = ? WHERE id = ?`,
-      [title, isbn, labelNumber, barcode, publicationYear, totalCopies, 
-       availableCopies, imageUrl, description, ownerId || null, bookType || 'Paperback', id]
+      `UPDATE books SET title = ?, isbn = ?, label_number = ?, 
+       publication_year = ?, image_url = ?, description = ?, owner_id = ?, book_type = ?, language = ?, ownership = ?,
+       donated_at = CASE WHEN ? = 'donated' THEN COALESCE(?, donated_at, CURDATE()) END WHERE id = ?`,
+      [title, isbn, labelNumber, publicationYear, 
+       imageUrl, description, ownerId || null, bookType || 'Paperback', language?.trim() || null, bookOwnership,
+       bookOwnership, donatedAt || null, id]
     );
 
     // Update category relationships
@@ -618,41 +969,32 @@ app.put('/api/books/:id', async (req, res) => {
       }
     }
 
+    const after = await snapshot(connection, 'book', id);
+    await recordAudit(connection, req, {
+      entity: 'book', entityId: id, action: 'update',
+      before, after
+    });
+
     await connection.commit();
 
     // Invalidate books cache
     await cache.deletePattern(CacheKeys.patterns.allBooks);
 
-    // Fetch owner details if exists
-    let ownerName = null, ownerPhone = null, ownerEmail = null;
-    if (ownerId) {
-      const [owners] = await pool.query('SELECT name, phone, email FROM users WHERE id = ?', [ownerId]);
-      if (owners.length > 0) {
-        ownerName = owners[0].name;
-        ownerPhone = owners[0].phone;
-        ownerEmail = owners[0].email;
-      }
-    }
-
-    res.json({
-      id, title, isbn, labelNumber, barcode, publicationYear,
-      totalCopies, availableCopies, imageUrl, description,
-      categoryIds: categoryIds || [], writerIds: writerIds || [],
-      ownerId: ownerId ? String(ownerId) : null, ownerName, ownerPhone, ownerEmail,
-      bookType: bookType || 'Paperback'
-    });
+    res.json(await loadBook(pool, id));
   } catch (error) {
-    await connection.rollback();
+    await connection?.rollback();
     res.status(500).json({ error: error.message });
   } finally {
-    connection.release();
+    connection?.release();
   }
 });
 
-app.delete('/api/books/:id', async (req, res) => {
+app.delete('/api/books/:id', requirePermission(Permissions.CATALOG_DELETE), async (req, res) => {
   try {
     const { id } = req.params;
+    const before = await snapshot(pool, 'book', id);
     await pool.query('DELETE FROM books WHERE id = ?', [id]);
+    await recordAudit(pool, req, { entity: 'book', entityId: id, action: 'delete', before });
     
     // Invalidate books cache
     await cache.deletePattern(CacheKeys.patterns.allBooks);
@@ -664,232 +1006,2847 @@ app.delete('/api/books/:id', async (req, res) => {
 });
 
 // =============================================
-// BOOK CIRCULATION (ISSUES) ROUTES
+// SEARCH ROUTES (public catalog search, with caching)
 // =============================================
-app.get('/api/issues', async (req, res) => {
+// Ranked full-text search over titles, writers, categories, descriptions and
+// writers' bios, forgiving typos, accents and script in titles and writers'
+// names, with facet counts on request (see catalog/search.js)
+app.get('/api/search', async (req, res) => {
   try {
-    const [rows] = await pool.query(`
-      SELECT bc.id, bc.book_id as bookId, bc.user_id as userId,
-             bc.issue_date as issueDate, bc.due_date as dueDate,
-             bc.return_date as returnDate, bc.status,
-             u.name as userName, u.phone as userPhone, u.email as userEmail
-      FROM books_circulation bc
-      JOIN users u ON bc.user_id = u.id
-      ORDER BY bc.issue_date DESC
-    `);
-    res.json(rows.map(row => ({
-      ...row,
-      id: String(row.id),
-      bookId: String(row.bookId),
-      userId: String(row.userId),
-      issueDate: row.issueDate?.toISOString().split('T')[0],
-      dueDate: row.dueDate?.toISOString().split('T')[0],
-      returnDate: row.returnDate?.toISOString().split('T')[0] || null
-    })));
+    const vocabulary = req.query.q ? await loadVocabulary(pool, cache, 'catalog') : null;
+    const { values: search, error } = parseSearchQuery(req.query, vocabulary);
+    if (error) {
+      return res.status(400).json({ error });
+    }
+
+    const cacheKey = CacheKeys.bookSearch(JSON.stringify(search));
+    const cached = await cache.get(cacheKey);
+    if (cached) {
+      return res.json(cached);
+    }
+
+    const page = await searchBooks(pool, search);
+    await cache.set(cacheKey, page);
+
+    res.json(page);
   } catch (error) {
     res.status(500).json({ error: error.message });
   }
 });
 
-app.post('/api/issues', async (req, res) => {
-  const connection = await pool.getConnection();
+// =============================================
+// STATS ROUTES (dashboard totals)
+// =============================================
+// The list routes only count titles; copies are summed here
+app.get('/api/stats', async (req, res) => {
   try {
-    await connection.beginTransaction();
-
-    const { bookId, userId, issueDate, dueDate } = req.body;
-
-    // Insert circulation record
-    const [result] = await connection.query(
-      `INSERT INTO books_circulation (book_id, user_id, issue_date, due_date, status) 
-       VALUES (?, ?, ?, ?, 'issued')`,
-      [bookId, userId, issueDate, dueDate]
-    );
-
-    // Decrement available copies
-    await connection.query(
-      'UPDATE books SET available_copies = available_copies - 1 WHERE id = ? AND available_copies > 0',
-      [bookId]
-    );
-
-    await connection.commit();
-
-    // Get user details
-    const [users] = await pool.query('SELECT name, phone, email FROM users WHERE id = ?', [userId]);
-    const user = users[0] || {};
-
-    res.json({
-      id: String(result.insertId),
-      bookId: String(bookId),
-      userId: String(userId),
-      userName: user.name,
-      userPhone: user.phone,
-      userEmail: user.email,
-      issueDate,
-      dueDate,
-      returnDate: null,
-      status: 'issued'
-    });
+    const [[row]] = await pool.query(`
+      SELECT (SELECT COUNT(*) FROM books) AS totalBooks,
+             (SELECT COALESCE(SUM(total_copies), 0) FROM books) AS totalCopies,
+             (SELECT COALESCE(SUM(available_copies), 0) FROM books) AS availableCopies,
+             (SELECT COUNT(*) FROM books_circulation WHERE status = 'issued') AS issuedLoans,
+             (SELECT COUNT(*) FROM categories) AS totalCategories,
+             (SELECT COUNT(*) FROM writers) AS totalWriters
+    `);
+    res.json(Object.fromEntries(Object.entries(row).map(([key, value]) => [key, Number(value)])));
   } catch (error) {
-    await connection.rollback();
     res.status(500).json({ error: error.message });
-  } finally {
-    connection.release();
   }
 });
 
-app.put('/api/issues/:id', async (req, res) => {
-  const connection = await pool.getConnection();
+// =============================================
+// BOOK COPIES ROUTES
+// =============================================
+/**
+ * Run a circulation change in a transaction, then respond with what it
+ * returned once it's committed. CirculationErrors become 4xx responses with
+ * their details and anything else - getting a connection, the change, or
+ * reloading rows and clearing caches after it - a 500.
+ * @param {object} res
+ * @param {Function} action - (connection) => result
+ * @param {Function} respond - (result) => sends the response
+ */
+const withCirculationTransaction = async (res, action, respond) => {
   try {
-    await connection.beginTransaction();
-
-    const { id } = req.params;
-    const { returnDate, status, bookId } = req.body;
-
-    await connection.query(
-      'UPDATE books_circulation SET return_date = ?, status = ? WHERE id = ?',
-      [returnDate, status, id]
-    );
-
-    // If returning, increment available copies
-    if (status === 'returned' && bookId) {
-      await connection.query(
-        'UPDATE books SET available_copies = available_copies + 1 WHERE id = ?',
-        [bookId]
-      );
+    const connection = await pool.getConnection();
+    let result;
+    try {
+      await connection.beginTransaction();
+      result = await action(connection);
+      await connection.commit();
+    } catch (error) {
+      await connection.rollback();
+      throw error;
+    } finally {
+      connection.release();
     }
+    await respond(result);
+  } catch (error) {
+    if (error instanceof CirculationError) {
+      res.status(error.status).json({ error: error.message, code: error.code, ...error.details });
+    } else {
+      res.status(500).json({ error: error.message });
+    }
+  }
+};
+
+/**
+ * An optional text field from a request body, trimmed: null when it's
+ * missing or blank, undefined when it isn't text (for the route to refuse)
+ */
+const optionalText = (value) => {
+  if (value === undefined || value === null) {
+    return null;
+  }
+  return typeof value === 'string' ? value.trim() || null : undefined;
+};
+
+/**
+ * A loan insert that failed because a concurrent request with the same
+ * Idempotency-Key got there first, as a 409 (anything else as it was)
+ */
+const idempotencyKeyReused = (error) =>
+  error.code === 'ER_DUP_ENTRY' && error.message.includes('idempotency_key')
+    ? new CirculationError('This Idempotency-Key was already used', 'IDEMPOTENCY_KEY_REUSED', 409)
+    : error;
+
+const COPY_SELECT = `
+  SELECT c.id, c.book_id as bookId, c.barcode, c.accession_number as accessionNumber,
+         c.shelf_location as shelfLocation, c.\`condition\`, c.status,
+         c.home_branch_id as homeBranchId, hb.name as homeBranchName,
+         c.current_branch_id as currentBranchId, cb.name as currentBranchName,
+         EXISTS (SELECT 1 FROM holds h WHERE h.copy_id = c.id AND h.status = 'ready') as onHoldShelf,
+         (SELECT bc.due_date FROM books_circulation bc
+          WHERE bc.copy_id = c.id AND bc.status = 'issued' LIMIT 1) as dueDate,
+         (SELECT t.id FROM branch_transfers t
+          WHERE t.copy_id = c.id AND t.status IN ('requested', 'in_transit') LIMIT 1) as transferId,
+         (SELECT r.id FROM copy_reclaims r WHERE r.copy_id = c.id AND r.status = 'open' LIMIT 1) as reclaimId
+  FROM book_copies c
+  JOIN branches hb ON c.home_branch_id = hb.id
+  JOIN branches cb ON c.current_branch_id = cb.id
+`;
+
+const toCopyResponse = (row) => ({
+  ...row,
+  id: String(row.id),
+  bookId: String(row.bookId),
+  homeBranchId: String(row.homeBranchId),
+  currentBranchId: String(row.currentBranchId),
+  transferId: row.transferId ? String(row.transferId) : null,
+  reclaimId: row.reclaimId ? String(row.reclaimId) : null,
+  onHoldShelf: Boolean(row.onHoldShelf),
+  dueDate: row.dueDate?.toISOString().split('T')[0] || null
+});
 
-    await connection.commit();
-
-    // Get full issue details
-    const [issues] = await pool.query(`
-      SELECT bc.id, bc.book_id as bookId, bc.user_id as userId,
-             bc.issue_date as issueDate, bc.due_date as dueDate,
-             bc.return_date as returnDate, bc.status,
-             u.name as userName, u.phone as userPhone, u.email as userEmail
-      FROM books_circulation bc
-      JOIN users u ON bc.user_id = u.id
-      WHERE bc.id = ?
-    `, [id]);
-
-    const issue = issues[0];
-    res.json({
-      id: String(issue.id),
-      bookId: String(issue.bookId),
-      userId: String(issue.userId),
-      userName: issue.userName,
-      userPhone: issue.userPhone,
-      userEmail: issue.userEmail,
-      issueDate: issue.issueDate?.toISOString().split('T')[0],
-      dueDate: issue.dueDate?.toISOString().split('T')[0],
-      returnDate: issue.returnDate?.toISOString().split('T')[0] || null,
-      status: issue.status
-    });
+// Copy changes alter the title's derived copy counts
+const recordCopyChange = async (connection, req, { copyId, bookId, action, before, bookBefore }) => {
+  await recordAudit(connection, req, {
+    entity: 'copy', entityId: copyId, action,
+    before, after: await snapshot(connection, 'copy', copyId)
+  });
+  await recordAudit(connection, req, {
+    entity: 'book', entityId: bookId, action: 'copies',
+    before: bookBefore, after: await snapshot(connection, 'book', bookId)
+  });
+};
+
+app.get('/api/books/:id/copies', async (req, res) => {
+  try {
+    const [rows] = await pool.query(`${COPY_SELECT} WHERE c.book_id = ? ORDER BY c.id`, [req.params.id]);
+    res.json(rows.map(toCopyResponse));
   } catch (error) {
-    await connection.rollback();
     res.status(500).json({ error: error.message });
-  } finally {
-    connection.release();
   }
 });
 
-// =============================================
+app.post('/api/books/:id/copies', requirePermission(Permissions.CATALOG_WRITE), async (req, res) => {
+  const bookId = req.params.id;
+  const { values, error } = parseCopyInput(req.body);
+  if (error) {
+    return res.status(400).json({ error });
+  }
+
+  await withCirculationTransaction(res, async (connection) => {
+    const bookBefore = await snapshot(connection, 'book', bookId);
+    if (!bookBefore) {
+      throw new CirculationError('Book not found', 'NOT_FOUND', 404);
+    }
+    const id = await createCopy(connection, bookId, values);
+    // A new copy on the shelf goes to the first patron waiting for the title
+    let readyHold = null;
+    if (values.status === 'available') {
+      readyHold = await assignReturnedCopy(connection, { id, book_id: bookId });
+    } else {
+      await syncCopyCounts(connection, bookId);
+    }
+    await recordCopyChange(connection, req, { copyId: id, bookId, action: 'create', bookBefore });
+    if (readyHold) {
+      await recordAudit(connection, req, {
+        entity: 'hold', entityId: readyHold.id, action: 'ready',
+        after: await snapshot(connection, 'hold', readyHold.id)
+      });
+    }
+    return id;
+  }, async (copyId) => {
+    await cache.deletePattern(CacheKeys.patterns.allBooks);
+    const [rows] = await pool.query(`${COPY_SELECT} WHERE c.id = ?`, [copyId]);
+    res.json(toCopyResponse(rows[0]));
+  });
+});
+
+// Look up a scanned copy, with the title it belongs to
+app.get('/api/copies/lookup', requireAuth, async (req, res) => {
+  try {
+    const barcode = String(req.query.barcode || '').trim();
+    const [rows] = await pool.query(`${COPY_SELECT} WHERE c.barcode = ?`, [barcode]);
+    if (rows.length === 0) {
+      return res.status(404).json({ error: `No copy has the barcode ${barcode}`, code: 'COPY_NOT_FOUND' });
+    }
+    const copy = toCopyResponse(rows[0]);
+    const [[book]] = await pool.query('SELECT title FROM books WHERE id = ?', [copy.bookId]);
+    res.json({ ...copy, bookTitle: book.title });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.put('/api/copies/:id', requirePermission(Permissions.CATALOG_WRITE), async (req, res) => {
+  const { id } = req.params;
+  const { values, error } = parseCopyInput(req.body);
+  if (error) {
+    return res.status(400).json({ error });
+  }
+
+  await withCirculationTransaction(res, async (connection) => {
+    const before = await updateCopy(connection, id, values);
+    const bookBefore = await snapshot(connection, 'book', before.book_id);
+    // A copy coming back from repair (or found) goes to the first patron waiting
+    let readyHold = null;
+    if (values.status === 'available' && before.status !== 'available') {
+      readyHold = await assignReturnedCopy(connection, before);
+    } else {
+      await syncCopyCounts(connection, before.book_id);
+    }
+    delete before.unreserved;
+    await recordCopyChange(connection, req, {
+      copyId: id, bookId: before.book_id, action: 'update', before, bookBefore
+    });
+    if (readyHold) {
+      await recordAudit(connection, req, {
+        entity: 'hold', entityId: readyHold.id, action: 'ready',
+        after: await snapshot(connection, 'hold', readyHold.id)
+      });
+    }
+  }, async () => {
+    await cache.deletePattern(CacheKeys.patterns.allBooks);
+    const [rows] = await pool.query(`${COPY_SELECT} WHERE c.id = ?`, [id]);
+    res.json(toCopyResponse(rows[0]));
+  });
+});
+
+app.delete('/api/copies/:id', requirePermission(Permissions.CATALOG_DELETE), async (req, res) => {
+  const { id } = req.params;
+  await withCirculationTransaction(res, async (connection) => {
+    const before = await deleteCopy(connection, id);
+    const bookBefore = await snapshot(connection, 'book', before.book_id);
+    await syncCopyCounts(connection, before.book_id);
+    await recordAudit(connection, req, { entity: 'copy', entityId: id, action: 'delete', before });
+    await recordAudit(connection, req, {
+      entity: 'book', entityId: before.book_id, action: 'copies',
+      before: bookBefore, after: await snapshot(connection, 'book', before.book_id)
+    });
+  }, async () => {
+    await cache.deletePattern(CacheKeys.patterns.allBooks);
+    res.json({ success: true });
+  });
+});
+
+// =============================================
+// BOOK CIRCULATION (ISSUES) ROUTES
+// =============================================
+const ISSUE_SELECT = `
+  SELECT bc.id, bc.book_id as bookId, b.title as bookTitle, b.isbn as bookIsbn, b.label_number as bookLabelNumber,
+         bc.copy_id as copyId, c.barcode as copyBarcode,
+         bc.user_id as userId,
+         bc.issue_date as issueDate, bc.due_date as dueDate,
+         bc.return_date as returnDate, bc.status,
+         bc.status_note as statusNote, bc.status_changed_at as statusChangedAt,
+         bc.renewal_count as renewalCount, bc.last_renewed_at as lastRenewedAt,
+         bc.branch_id as branchId, br.name as branchName,
+         u.name as userName, u.phone as userPhone, u.email as userEmail
+  FROM books_circulation bc
+  JOIN books b ON bc.book_id = b.id
+  JOIN users u ON bc.user_id = u.id
+  LEFT JOIN book_copies c ON bc.copy_id = c.id
+  LEFT JOIN branches br ON bc.branch_id = br.id
+`;
+
+const toIssueResponse = (row) => ({
+  ...row,
+  id: String(row.id),
+  bookId: String(row.bookId),
+  copyId: row.copyId ? String(row.copyId) : null,
+  userId: String(row.userId),
+  branchId: row.branchId ? String(row.branchId) : null,
+  issueDate: row.issueDate?.toISOString().split('T')[0],
+  dueDate: row.dueDate?.toISOString().split('T')[0],
+  returnDate: row.returnDate?.toISOString().split('T')[0] || null,
+  statusChangedAt: row.statusChangedAt?.toISOString() || null,
+  lastRenewedAt: row.lastRenewedAt?.toISOString() || null
+});
+
+// What the loan list can be sorted and filtered by (see lists/index.js)
+const ISSUE_LIST = {
+  sorts: {
+    issueDate: 'bc.issue_date',
+    dueDate: 'bc.due_date',
+    returnDate: 'bc.return_date',
+    status: 'bc.status',
+    bookTitle: 'b.title',
+    userName: 'u.name'
+  },
+  defaultSort: ['-issueDate'],
+  tiebreaker: 'bc.id DESC',
+  filters: {
+    // Title, ISBN, label or copy barcode, or the borrower's name, phone or email
+    q: contains('b.title', 'b.isbn', 'b.label_number', 'c.barcode', 'u.name', 'u.phone', 'u.email'),
+    status: oneOf('bc.status', LOAN_STATUSES),
+    bookId: oneOf('bc.book_id'),
+    userId: oneOf('bc.user_id'),
+    branchId: oneOf('bc.branch_id'),
+    overdue: flag(
+      "bc.status = 'issued' AND bc.due_date < CURDATE()",
+      "NOT (bc.status = 'issued' AND bc.due_date < CURDATE())"
+    ),
+    issuedFrom: bound('bc.issue_date', 'from'),
+    issuedTo: bound('bc.issue_date', 'to'),
+    dueFrom: bound('bc.due_date', 'from'),
+    dueTo: bound('bc.due_date', 'to')
+  }
+};
+
+app.get('/api/issues', async (req, res) => {
+  try {
+    const { values: list, error } = parseListQuery(req.query, ISSUE_LIST);
+    if (error) {
+      return res.status(400).json({ error });
+    }
+
+    const [[{ total }]] = await pool.query(`
+      SELECT COUNT(*) AS total
+      FROM books_circulation bc
+      JOIN books b ON bc.book_id = b.id
+      JOIN users u ON bc.user_id = u.id
+      LEFT JOIN book_copies c ON bc.copy_id = c.id
+      ${list.where}
+    `, list.params);
+    const [rows] = await pool.query(
+      `${ISSUE_SELECT} ${list.where} ORDER BY ${list.orderBy} LIMIT ? OFFSET ?`,
+      [...list.params, list.limit, list.offset]
+    );
+    res.json(toPage(rows.map(toIssueResponse), total, list));
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Preview of POST /api/issues: whether the loan is allowed and its due date
+app.get('/api/issues/check', requirePermission(Permissions.CIRCULATION_ISSUE), async (req, res) => {
+  try {
+    const { userId, bookId } = req.query;
+    const { policy, issueDate, dueDate, errors } = await checkLoanPolicy(pool, { userId, bookId });
+    res.json({ allowed: errors.length === 0, policy, issueDate, dueDate, errors });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * A loan as issuing and returning respond with it: the hold it fulfilled, if
+ * any, and the title's copy counts (overall and per branch) after the change
+ * for clients to cache
+ */
+const loadIssueResponse = async (db, id) => {
+  const [rows] = await db.query(`${ISSUE_SELECT} WHERE bc.id = ?`, [id]);
+  const issue = toIssueResponse(rows[0]);
+  const [holds] = await db.query('SELECT id FROM holds WHERE issue_id = ?', [id]);
+  const [[book]] = await db.query(
+    'SELECT title, total_copies, available_copies FROM books WHERE id = ?',
+    [issue.bookId]
+  );
+  const branchAvailability = (await getBranchAvailability(db, [issue.bookId])).get(issue.bookId) || [];
+  return {
+    ...issue,
+    bookTitle: book.title,
+    holdId: holds[0] ? String(holds[0].id) : null,
+    book: {
+      id: issue.bookId, totalCopies: book.total_copies, availableCopies: book.available_copies, branchAvailability
+    }
+  };
+};
+
+// Clients send a fresh Idempotency-Key with each Issue click; a retry or
+// double-click with the same key gets the original loan back instead of a second one
+app.post('/api/issues', requirePermission(Permissions.CIRCULATION_ISSUE), async (req, res) => {
+  const idempotencyKey = req.get('Idempotency-Key')?.trim() || null;
+  if (idempotencyKey && idempotencyKey.length > 64) {
+    return res.status(400).json({ error: 'Idempotency-Key must be at most 64 characters', code: 'INVALID_IDEMPOTENCY_KEY' });
+  }
+
+  const { bookId, copyId, userId } = req.body;
+  await withCirculationTransaction(
+    res,
+    async (connection) => {
+      // Lock the borrower so their loan count, fines and any earlier request
+      // with this key are settled before we look at them
+      await connection.query('SELECT id FROM users WHERE id = ? FOR UPDATE', [userId]);
+
+      if (idempotencyKey) {
+        const [previous] = await connection.query(
+          'SELECT id, book_id, user_id FROM books_circulation WHERE idempotency_key = ? FOR UPDATE',
+          [idempotencyKey]
+        );
+        if (previous.length > 0) {
+          const [loan] = previous;
+          if (String(loan.book_id) !== String(bookId) || String(loan.user_id) !== String(userId)) {
+            throw new CirculationError(
+              'This Idempotency-Key was already used for a different loan', 'IDEMPOTENCY_KEY_REUSED', 409
+            );
+          }
+          return { id: loan.id, replayed: true };
+        }
+      }
+
+      const loan = await issueLoan(connection, req, { userId, bookId, copyId, idempotencyKey })
+        .catch(error => { throw idempotencyKeyReused(error); });
+      return { id: loan.id, replayed: false };
+    },
+    async ({ id, replayed }) => {
+      if (replayed) {
+        res.set('Idempotent-Replayed', 'true');
+      } else {
+        // Book lists carry available counts
+        await cache.deletePattern(CacheKeys.patterns.allBooks);
+      }
+      res.json(await loadIssueResponse(pool, id));
+    }
+  );
+});
+
+/**
+ * Respond to a return: the loan, what was charged or reversed and where the copy goes
+ * Also clears the cached lists the return changed
+ */
+const loadReturnResponse = async (id, { fine, reversal, hold, transferId, reclaimId }) => {
+  // Book lists carry available counts; balances are part of the cached user list
+  await cache.deletePattern(CacheKeys.patterns.allBooks);
+  if (fine || reversal) {
+    await cache.deletePattern(CacheKeys.patterns.allUsers);
+  }
+
+  return {
+    ...(await loadIssueResponse(pool, id)),
+    fine,
+    reversal,
+    hold: hold && {
+      id: String(hold.id),
+      userId: String(hold.user_id),
+      userName: hold.user_name,
+      copyBarcode: hold.copy_barcode,
+      expiresAt: hold.expires_at?.toISOString()
+    },
+    transfer: transferId ? await loadTransfer(pool, transferId) : null,
+    reclaim: reclaimId ? await loadReclaim(pool, reclaimId) : null
+  };
+};
+
+// Issue a scanned stack of books to one patron: all of them or, if any
+// can't be lent, none. Idempotency-Key works as for a single issue.
+app.post('/api/issues/batch', requirePermission(Permissions.CIRCULATION_ISSUE), async (req, res) => {
+  const idempotencyKey = req.get('Idempotency-Key')?.trim() || null;
+  if (idempotencyKey && idempotencyKey.length > 56) {
+    return res.status(400).json({ error: 'Idempotency-Key must be at most 56 characters', code: 'INVALID_IDEMPOTENCY_KEY' });
+  }
+  const { userId } = req.body;
+  const barcodes = Array.isArray(req.body.barcodes) ? req.body.barcodes.map(code => String(code).trim()) : [];
+  if (!userId || barcodes.length === 0) {
+    return res.status(400).json({ error: 'A user and at least one barcode are required', code: 'INVALID_BATCH' });
+  }
+  if (barcodes.length > 50) {
+    return res.status(400).json({ error: 'Issue at most 50 books at a time', code: 'INVALID_BATCH' });
+  }
+  if (new Set(barcodes).size !== barcodes.length) {
+    return res.status(400).json({ error: 'The same copy was scanned twice', code: 'DUPLICATE_BARCODE' });
+  }
+
+  await withCirculationTransaction(
+    res,
+    async (connection) => {
+      await connection.query('SELECT id FROM users WHERE id = ? FOR UPDATE', [userId]);
+
+      // Each loan in the batch is keyed "<key>:<position>"
+      if (idempotencyKey) {
+        const [previous] = await connection.query(
+          `SELECT id FROM books_circulation WHERE idempotency_key LIKE ? AND user_id = ? ORDER BY id`,
+          [`${idempotencyKey.replace(/[\\%_]/g, '\\$&')}:%`, userId]
+        );
+        if (previous.length > 0) {
+          return { loanIds: previous.map(loan => loan.id), replayed: true };
+        }
+      }
+
+      const loanIds = [];
+      for (const [index, barcode] of barcodes.entries()) {
+        try {
+          const copy = await findCopyByBarcode(connection, barcode);
+          if (!copy) {
+            throw new CirculationError(`No copy has the barcode ${barcode}`, 'COPY_NOT_FOUND', 404);
+          }
+          const loan = await issueLoan(connection, req, {
+            userId,
+            bookId: copy.book_id,
+            copyId: copy.id,
+            idempotencyKey: idempotencyKey && `${idempotencyKey}:${index}`
+          });
+          loanIds.push(loan.id);
+        } catch (error) {
+          // Say which scan stopped the batch
+          const refused = idempotencyKeyReused(error);
+          if (refused instanceof CirculationError) {
+            throw new CirculationError(
+              `${barcode}: ${refused.message}`, refused.code, refused.status, { barcode, ...refused.details }
+            );
+          }
+          throw error;
+        }
+      }
+      return { loanIds, replayed: false };
+    },
+    async ({ loanIds, replayed }) => {
+      if (replayed) {
+        res.set('Idempotent-Replayed', 'true');
+      } else {
+        // Book lists carry available counts
+        await cache.deletePattern(CacheKeys.patterns.allBooks);
+      }
+      res.json({ loans: await Promise.all(loanIds.map(id => loadIssueResponse(pool, id))) });
+    }
+  );
+});
+
+// Return whatever loan a scanned copy is out on (the circulation station's return mode)
+app.post('/api/returns', requirePermission(Permissions.CIRCULATION_RECEIVE), async (req, res) => {
+  const barcode = String(req.body.barcode || '').trim();
+  if (!barcode) {
+    return res.status(400).json({ error: 'Scan or type a barcode', code: 'INVALID_BARCODE' });
+  }
+
+  await withCirculationTransaction(
+    res,
+    (connection) => returnCopy(connection, req, barcode),
+    async ({ issueId, ...returned }) => {
+      res.json(await loadReturnResponse(issueId, returned));
+    }
+  );
+});
+
+// The only way a loan becomes returned; returning it again is a 409
+app.post('/api/issues/:id/return', requirePermission(Permissions.CIRCULATION_RECEIVE), async (req, res) => {
+  const { id } = req.params;
+  await withCirculationTransaction(
+    res,
+    (connection) => returnLoan(connection, req, id),
+    async (returned) => {
+      res.json(await loadReturnResponse(id, returned));
+    }
+  );
+});
+
+// Lost, damaged, claimed returned or written off - see circulation/losses.js
+app.post('/api/issues/:id/status', requirePermission(Permissions.CIRCULATION_RECEIVE), async (req, res) => {
+  const { status } = req.body;
+  const note = optionalText(req.body.note);
+  if (note === undefined) {
+    return res.status(400).json({ error: 'Note must be text', code: 'INVALID_NOTE' });
+  }
+  const amount = req.body.amount === null || req.body.amount === undefined || req.body.amount === ''
+    ? null
+    : Number(req.body.amount);
+  if (amount !== null && !(amount >= 0)) {
+    return res.status(400).json({ error: 'Charge must be zero or more', code: 'INVALID_AMOUNT' });
+  }
+  if (status === 'claimed_returned' && !note) {
+    return res.status(400).json({ error: 'Note what the patron said about returning it', code: 'NOTE_REQUIRED' });
+  }
+
+  const { id } = req.params;
+  await withCirculationTransaction(
+    res,
+    (connection) => changeLoanStatus(connection, req, id, { status, amount, note }),
+    async ({ charges, reversal }) => {
+      // Book lists carry copy counts; balances are part of the cached user list
+      await cache.deletePattern(CacheKeys.patterns.allBooks);
+      if (charges.length > 0 || reversal) {
+        await cache.deletePattern(CacheKeys.patterns.allUsers);
+      }
+      res.json({ ...(await loadIssueResponse(pool, id)), charges, reversal });
+    }
+  );
+});
+
+app.post('/api/issues/:id/renew', requirePermission(Permissions.CIRCULATION_ISSUE), async (req, res) => {
+  const { id } = req.params;
+  await withCirculationTransaction(
+    res,
+    async (connection) => {
+      const before = await snapshot(connection, 'issue', id);
+      const { fine } = await renewLoan(connection, req, id);
+      await recordAudit(connection, req, {
+        entity: 'issue', entityId: id, action: 'renew',
+        before, after: await snapshot(connection, 'issue', id)
+      });
+      return fine;
+    },
+    async (fine) => {
+      // An overdue loan's late fine is part of the cached user list's balances
+      if (fine) {
+        await cache.deletePattern(CacheKeys.patterns.allUsers);
+      }
+      const [issues] = await pool.query(`${ISSUE_SELECT} WHERE bc.id = ?`, [id]);
+      res.json({ ...toIssueResponse(issues[0]), fine });
+    }
+  );
+});
+
+app.get('/api/renewal-settings', requireAuth, async (req, res) => {
+  try {
+    res.json(await getRenewalSettings(pool));
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.put('/api/renewal-settings', requirePermission(Permissions.CIRCULATION_CONFIGURE), async (req, res) => {
+  try {
+    const values = {
+      maxRenewals: Number(req.body.maxRenewals),
+      maxOverdueDays: Number(req.body.maxOverdueDays)
+    };
+    if (!Number.isInteger(values.maxRenewals) || values.maxRenewals < 0) {
+      return res.status(400).json({ error: 'Maximum renewals must be a whole number' });
+    }
+    if (!Number.isInteger(values.maxOverdueDays) || values.maxOverdueDays < 0) {
+      return res.status(400).json({ error: 'Overdue limit must be a whole number of days' });
+    }
+
+    const before = await getRenewalSettings(pool);
+    await saveRenewalSettings(pool, values);
+    const after = await getRenewalSettings(pool);
+    await recordAudit(pool, req, { entity: 'settings', entityId: 'renewals', action: 'update', before, after });
+    res.json(after);
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.get('/api/loss-settings', requireAuth, async (req, res) => {
+  try {
+    res.json(await getLossSettings(pool));
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.put('/api/loss-settings', requirePermission(Permissions.CIRCULATION_CONFIGURE), async (req, res) => {
+  try {
+    const values = {
+      replacementCharge: Number(req.body.replacementCharge),
+      damageCharge: Number(req.body.damageCharge)
+    };
+    if (!(values.replacementCharge >= 0) || !(values.damageCharge >= 0)) {
+      return res.status(400).json({ error: 'Charges must be zero or more' });
+    }
+
+    const before = await getLossSettings(pool);
+    await saveLossSettings(pool, values);
+    const after = await getLossSettings(pool);
+    await recordAudit(pool, req, { entity: 'settings', entityId: 'losses', action: 'update', before, after });
+    res.json(after);
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// =============================================
+// HOLDS ROUTES
+// =============================================
+const HOLD_SELECT = `
+  SELECT h.id, h.book_id as bookId, h.user_id as userId, h.status,
+         h.ready_at as readyAt, h.expires_at as expiresAt, h.created_at as createdAt,
+         b.title as bookTitle, c.barcode as copyBarcode,
+         u.name as userName, u.phone as userPhone, u.email as userEmail,
+         CASE WHEN h.status = 'waiting' THEN
+           (SELECT COUNT(*) FROM holds q
+            WHERE q.book_id = h.book_id AND q.status = 'waiting'
+              AND (q.created_at < h.created_at OR (q.created_at = h.created_at AND q.id <= h.id)))
+         ELSE 0 END as position
+  FROM holds h
+  JOIN books b ON h.book_id = b.id
+  JOIN users u ON h.user_id = u.id
+  LEFT JOIN book_copies c ON h.copy_id = c.id
+`;
+
+const toHoldResponse = (row) => ({
+  ...row,
+  id: String(row.id),
+  bookId: String(row.bookId),
+  userId: String(row.userId),
+  position: Number(row.position),
+  readyAt: row.readyAt?.toISOString() || null,
+  expiresAt: row.expiresAt?.toISOString() || null,
+  createdAt: row.createdAt?.toISOString()
+});
+
+app.get('/api/holds', requireAuth, async (req, res) => {
+  try {
+    const { bookId, userId, status } = req.query;
+    const conditions = ['h.status IN (?)'];
+    const params = [status ? [status] : ACTIVE_HOLD_STATUSES];
+    if (bookId) { conditions.push('h.book_id = ?'); params.push(bookId); }
+    if (userId) { conditions.push('h.user_id = ?'); params.push(userId); }
+
+    const [rows] = await pool.query(
+      `${HOLD_SELECT} WHERE ${conditions.join(' AND ')} ORDER BY h.book_id, h.status = 'waiting', h.created_at, h.id`,
+      params
+    );
+    res.json(rows.map(toHoldResponse));
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Public: queue length per title, for the search page and book detail
+app.get('/api/holds/counts', async (req, res) => {
+  try {
+    const [rows] = await pool.query(`
+      SELECT book_id as bookId, COUNT(*) as waiting
+      FROM holds WHERE status = 'waiting' GROUP BY book_id
+    `);
+    res.json(Object.fromEntries(rows.map(row => [String(row.bookId), Number(row.waiting)])));
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.post('/api/holds', requirePermission(Permissions.CIRCULATION_ISSUE), async (req, res) => {
+  const { bookId, userId } = req.body;
+  await withCirculationTransaction(res, async (connection) => {
+    const placed = await placeHold(connection, req, { bookId, userId });
+    await recordAudit(connection, req, {
+      entity: 'hold', entityId: placed.id, action: 'place',
+      after: await snapshot(connection, 'hold', placed.id)
+    });
+    return placed;
+  }, async (hold) => {
+    const [rows] = await pool.query(`${HOLD_SELECT} WHERE h.id = ?`, [hold.id]);
+    res.json(toHoldResponse(rows[0]));
+  });
+});
+
+app.delete('/api/holds/:id', requirePermission(Permissions.CIRCULATION_ISSUE), async (req, res) => {
+  const { id } = req.params;
+  await withCirculationTransaction(res, async (connection) => {
+    const before = await snapshot(connection, 'hold', id);
+    await endHold(connection, id, 'cancelled');
+    await recordAudit(connection, req, {
+      entity: 'hold', entityId: id, action: 'cancel',
+      before, after: await snapshot(connection, 'hold', id)
+    });
+  }, async () => {
+    // A ready hold's copy may have gone back on the shelf
+    await cache.deletePattern(CacheKeys.patterns.allBooks);
+    res.json({ success: true });
+  });
+});
+
+app.get('/api/hold-settings', requireAuth, async (req, res) => {
+  try {
+    res.json(await getHoldSettings(pool));
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.put('/api/hold-settings', requirePermission(Permissions.CIRCULATION_CONFIGURE), async (req, res) => {
+  try {
+    const pickupDays = Number(req.body.pickupDays);
+    if (!Number.isInteger(pickupDays) || pickupDays < 1) {
+      return res.status(400).json({ error: 'Pickup window must be at least 1 day' });
+    }
+
+    const before = await getHoldSettings(pool);
+    await saveHoldSettings(pool, { pickupDays });
+    const after = await getHoldSettings(pool);
+    await recordAudit(pool, req, { entity: 'settings', entityId: 'holds', action: 'update', before, after });
+    res.json(after);
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// =============================================
+// BORROWING POLICY ROUTES
+// =============================================
+app.get('/api/patron-types', requireAuth, (req, res) => {
+  res.json(PATRON_TYPES);
+});
+
+const toLoanPolicyResponse = (row) => ({
+  id: String(row.id),
+  patronType: row.patron_type,
+  categoryId: row.category_id ? String(row.category_id) : null,
+  categoryName: row.category_name || null,
+  bookType: row.book_type,
+  loanDays: row.loan_days,
+  maxLoans: row.max_loans,
+  maxRenewals: row.max_renewals,
+  circulates: row.circulates === null ? null : Boolean(row.circulates)
+});
+
+// Blank policy fields are stored as NULL so a broader policy (or the default) applies
+const optionalValue = (value) => (value === null || value === undefined || value === '' ? null : value);
+
+/**
+ * Validate a borrowing policy payload; returns an error message or null
+ */
+const validateLoanPolicy = ({ patronType, loanDays, maxLoans, maxRenewals, circulates }) => {
+  if (optionalValue(patronType) !== null && !PATRON_TYPES.includes(patronType)) {
+    return `Patron type must be one of: ${PATRON_TYPES.join(', ')}`;
+  }
+  if (optionalValue(loanDays) !== null && (!Number.isInteger(Number(loanDays)) || Number(loanDays) < 1)) {
+    return 'Loan period must be a whole number of days, at least 1';
+  }
+  for (const [label, value] of [['Loan limit', maxLoans], ['Renewal limit', maxRenewals]]) {
+    if (optionalValue(value) !== null && (!Number.isInteger(Number(value)) || Number(value) < 0)) {
+      return `${label} must be a whole number, zero or more`;
+    }
+  }
+  if (optionalValue(circulates) !== null && typeof circulates !== 'boolean') {
+    return 'Circulates must be true, false or blank';
+  }
+  return null;
+};
+
+const LOAN_POLICIES_QUERY = `
+  SELECT lp.*, c.name as category_name
+  FROM loan_policies lp
+  LEFT JOIN categories c ON lp.category_id = c.id
+`;
+
+app.get('/api/loan-policies', requireAuth, async (req, res) => {
+  try {
+    const [rows] = await pool.query(`${LOAN_POLICIES_QUERY}
+      ORDER BY lp.book_type IS NOT NULL, lp.category_id IS NOT NULL, lp.patron_type IS NOT NULL,
+               lp.book_type, c.name, lp.patron_type`);
+    res.json(rows.map(toLoanPolicyResponse));
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Create or update a borrowing policy (id null = create); responds with the saved policy
+ */
+const saveLoanPolicy = async (req, res, id) => {
+  const { patronType, categoryId, bookType, loanDays, maxLoans, maxRenewals, circulates } = req.body;
+  const validationError = validateLoanPolicy(req.body);
+  if (validationError) {
+    return res.status(400).json({ error: validationError });
+  }
+
+  // One policy per scope - NULL-safe comparison so the catch-all policy is unique too
+  const [duplicates] = await pool.query(
+    `SELECT id FROM loan_policies
+     WHERE patron_type <=> ? AND category_id <=> ? AND book_type <=> ? AND id <> ?`,
+    [patronType || null, categoryId || null, bookType || null, id || 0]
+  );
+  if (duplicates.length > 0) {
+    return res.status(400).json({ error: 'A borrowing policy for this patron type, category and book type already exists' });
+  }
+
+  const toInteger = (value) => (optionalValue(value) === null ? null : Number(value));
+  const values = [
+    patronType || null,
+    categoryId || null,
+    bookType || null,
+    toInteger(loanDays),
+    toInteger(maxLoans),
+    toInteger(maxRenewals),
+    optionalValue(circulates)
+  ];
+
+  const before = id ? await snapshot(pool, 'loan_policy', id) : null;
+  if (id) {
+    await pool.query(
+      `UPDATE loan_policies SET patron_type = ?, category_id = ?, book_type = ?,
+         loan_days = ?, max_loans = ?, max_renewals = ?, circulates = ?
+       WHERE id = ?`,
+      [...values, id]
+    );
+  } else {
+    const [result] = await pool.query(
+      `INSERT INTO loan_policies (patron_type, category_id, book_type, loan_days, max_loans, max_renewals, circulates)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      values
+    );
+    id = result.insertId;
+  }
+  await recordAudit(pool, req, {
+    entity: 'loan_policy', entityId: id, action: before ? 'update' : 'create',
+    before, after: await snapshot(pool, 'loan_policy', id)
+  });
+
+  const [rows] = await pool.query(`${LOAN_POLICIES_QUERY} WHERE lp.id = ?`, [id]);
+  res.json(toLoanPolicyResponse(rows[0]));
+};
+
+app.post('/api/loan-policies', requirePermission(Permissions.CIRCULATION_CONFIGURE), async (req, res) => {
+  try {
+    await saveLoanPolicy(req, res, null);
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.put('/api/loan-policies/:id', requirePermission(Permissions.CIRCULATION_CONFIGURE), async (req, res) => {
+  try {
+    await saveLoanPolicy(req, res, req.params.id);
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.delete('/api/loan-policies/:id', requirePermission(Permissions.CIRCULATION_CONFIGURE), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const before = await snapshot(pool, 'loan_policy', id);
+    await pool.query('DELETE FROM loan_policies WHERE id = ?', [id]);
+    await recordAudit(pool, req, { entity: 'loan_policy', entityId: id, action: 'delete', before });
+    res.json({ success: true });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// =============================================
+// FINES ROUTES
+// =============================================
+const toFineRuleResponse = (row) => ({
+  id: String(row.id),
+  bookType: row.book_type,
+  categoryId: row.category_id ? String(row.category_id) : null,
+  categoryName: row.category_name || null,
+  dailyRate: Number(row.daily_rate),
+  graceDays: row.grace_days,
+  maxAmount: row.max_amount !== null ? Number(row.max_amount) : null
+});
+
+/**
+ * Validate a fine rule payload; returns an error message or null
+ */
+const validateFineRule = ({ bookType, categoryId, dailyRate, graceDays, maxAmount }) => {
+  if (bookType && categoryId) {
+    return 'A rule can target a book type or a category, not both';
+  }
+  if (!(Number(dailyRate) >= 0)) {
+    return 'Daily rate must be zero or more';
+  }
+  if (!Number.isInteger(Number(graceDays)) || Number(graceDays) < 0) {
+    return 'Grace period must be a whole number of days';
+  }
+  if (maxAmount !== null && maxAmount !== undefined && maxAmount !== '' && !(Number(maxAmount) >= 0)) {
+    return 'Maximum fine must be zero or more';
+  }
+  return null;
+};
+
+const FINE_RULES_QUERY = `
+  SELECT fr.*, c.name as category_name
+  FROM fine_rules fr
+  LEFT JOIN categories c ON fr.category_id = c.id
+`;
+
+app.get('/api/fine-rules', requireAuth, async (req, res) => {
+  try {
+    const [rows] = await pool.query(`${FINE_RULES_QUERY}
+      ORDER BY fr.book_type IS NOT NULL, fr.category_id IS NOT NULL, fr.book_type, c.name`);
+    res.json(rows.map(toFineRuleResponse));
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Create or update a fine rule (id null = create); responds with the saved rule
+ */
+const saveFineRule = async (req, res, id) => {
+  const { bookType, categoryId, dailyRate, graceDays, maxAmount } = req.body;
+  const validationError = validateFineRule(req.body);
+  if (validationError) {
+    return res.status(400).json({ error: validationError });
+  }
+
+  // One rule per scope - NULL-safe comparison so the default rule is unique too
+  const [duplicates] = await pool.query(
+    'SELECT id FROM fine_rules WHERE book_type <=> ? AND category_id <=> ? AND id <> ?',
+    [bookType || null, categoryId || null, id || 0]
+  );
+  if (duplicates.length > 0) {
+    return res.status(400).json({ error: 'A fine rule for this book type or category already exists' });
+  }
+
+  const values = [
+    bookType || null,
+    categoryId || null,
+    Number(dailyRate),
+    Number(graceDays),
+    maxAmount === null || maxAmount === undefined || maxAmount === '' ? null : Number(maxAmount)
+  ];
+
+  const before = id ? await snapshot(pool, 'fine_rule', id) : null;
+  if (id) {
+    await pool.query(
+      `UPDATE fine_rules SET book_type = ?, category_id = ?, daily_rate = ?, grace_days = ?, max_amount = ?
+       WHERE id = ?`,
+      [...values, id]
+    );
+  } else {
+    const [result] = await pool.query(
+      `INSERT INTO fine_rules (book_type, category_id, daily_rate, grace_days, max_amount)
+       VALUES (?, ?, ?, ?, ?)`,
+      values
+    );
+    id = result.insertId;
+  }
+  await recordAudit(pool, req, {
+    entity: 'fine_rule', entityId: id, action: before ? 'update' : 'create',
+    before, after: await snapshot(pool, 'fine_rule', id)
+  });
+
+  const [rows] = await pool.query(`${FINE_RULES_QUERY} WHERE fr.id = ?`, [id]);
+  res.json(toFineRuleResponse(rows[0]));
+};
+
+app.post('/api/fine-rules', requirePermission(Permissions.CIRCULATION_CONFIGURE), async (req, res) => {
+  try {
+    await saveFineRule(req, res, null);
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.put('/api/fine-rules/:id', requirePermission(Permissions.CIRCULATION_CONFIGURE), async (req, res) => {
+  try {
+    await saveFineRule(req, res, req.params.id);
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.delete('/api/fine-rules/:id', requirePermission(Permissions.CIRCULATION_CONFIGURE), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const before = await snapshot(pool, 'fine_rule', id);
+    await pool.query('DELETE FROM fine_rules WHERE id = ?', [id]);
+    await recordAudit(pool, req, { entity: 'fine_rule', entityId: id, action: 'delete', before });
+    res.json({ success: true });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.get('/api/fine-settings', requireAuth, async (req, res) => {
+  try {
+    res.json(await getFineSettings(pool));
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.put('/api/fine-settings', requirePermission(Permissions.CIRCULATION_CONFIGURE), async (req, res) => {
+  try {
+    const { blockThreshold } = req.body;
+    const threshold = blockThreshold === null || blockThreshold === undefined || blockThreshold === ''
+      ? null
+      : Number(blockThreshold);
+    if (threshold !== null && !(threshold >= 0)) {
+      return res.status(400).json({ error: 'Block threshold must be zero or more' });
+    }
+
+    const before = await getFineSettings(pool);
+    await saveFineSettings(pool, { blockThreshold: threshold });
+    const after = await getFineSettings(pool);
+    await recordAudit(pool, req, { entity: 'settings', entityId: 'fines', action: 'update', before, after });
+    res.json(after);
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.get('/api/users/:id/fines', requireAuth, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const [rows] = await pool.query(`
+      SELECT fl.id, fl.issue_id as issueId, fl.entry_type as type, fl.charge_type as chargeType, fl.amount, fl.note,
+             fl.created_at as createdAt, s.name as createdByName, b.title as bookTitle
+      FROM fine_ledger fl
+      LEFT JOIN staff_users s ON fl.created_by = s.id
+      LEFT JOIN books_circulation bc ON fl.issue_id = bc.id
+      LEFT JOIN books b ON bc.book_id = b.id
+      WHERE fl.user_id = ?
+      ORDER BY fl.created_at DESC, fl.id DESC
+    `, [id]);
+    res.json({
+      balance: await getBalance(pool, id),
+      entries: rows.map(row => ({
+        ...row,
+        id: String(row.id),
+        issueId: row.issueId ? String(row.issueId) : null,
+        amount: Number(row.amount),
+        createdAt: row.createdAt?.toISOString()
+      }))
+    });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Record a payment or waiver against a user's balance
+ */
+const creditFines = async (req, res, entryType) => {
+  const { id } = req.params;
+  const amount = Math.round(Number(req.body.amount) * 100) / 100;
+  const note = optionalText(req.body.note);
+  if (note === undefined) {
+    return res.status(400).json({ error: 'Note must be text' });
+  }
+
+  if (!(amount > 0)) {
+    return res.status(400).json({ error: 'Amount must be greater than zero' });
+  }
+  if (entryType === 'waiver' && !note) {
+    return res.status(400).json({ error: 'A reason is required to waive fines' });
+  }
+
+  await withCirculationTransaction(
+    res,
+    async (connection) => {
+      // Lock the user's ledger rows so two payments can't both pass the balance check
+      await connection.query('SELECT id FROM fine_ledger WHERE user_id = ? FOR UPDATE', [id]);
+      const balance = await getBalance(connection, id);
+      if (amount > balance) {
+        throw new CirculationError(
+          `Amount exceeds the outstanding balance of ${balance.toFixed(2)}`, 'AMOUNT_EXCEEDS_BALANCE', 400
+        );
+      }
+
+      const [result] = await connection.query(
+        `INSERT INTO fine_ledger (user_id, entry_type, amount, note, created_by) VALUES (?, ?, ?, ?, ?)`,
+        [id, entryType, amount, note, req.staff.id]
+      );
+      await recordAudit(connection, req, {
+        entity: 'fine', entityId: result.insertId, action: entryType,
+        after: await snapshot(connection, 'fine', result.insertId)
+      });
+      return { entryId: result.insertId, balance };
+    },
+    async ({ entryId, balance }) => {
+      await cache.deletePattern(CacheKeys.patterns.allUsers);
+      res.json({ id: String(entryId), type: entryType, amount, note, balance: balance - amount });
+    }
+  );
+};
+
+app.post('/api/users/:id/fines/payments', requirePermission(Permissions.FINES_COLLECT), (req, res) =>
+  creditFines(req, res, 'payment')
+);
+
+app.post('/api/users/:id/fines/waivers', requirePermission(Permissions.FINES_WAIVE), (req, res) =>
+  creditFines(req, res, 'waiver')
+);
+
+// =============================================
+// REMINDER ROUTES
+// =============================================
+const toReminderNoticeResponse = (row) => ({
+  id: String(row.id),
+  name: row.name,
+  offsetDays: row.offset_days,
+  subject: row.subject,
+  body: row.body,
+  active: Boolean(row.active),
+  sentCount: Number(row.sent_count || 0)
+});
+
+const REMINDER_NOTICES_QUERY = `
+  SELECT n.*, (SELECT COUNT(*) FROM reminder_log l WHERE l.notice_id = n.id AND l.status = 'sent') as sent_count
+  FROM reminder_notices n
+`;
+
+/**
+ * Validate a reminder notice payload; returns an error message or null
+ */
+const validateReminderNotice = ({ name, offsetDays, subject, body }) => {
+  if (!name?.trim() || !subject?.trim() || !body?.trim()) {
+    return 'Name, subject and message are required';
+  }
+  if (!Number.isInteger(Number(offsetDays)) || offsetDays === '' || offsetDays === null) {
+    return 'Days from the due date must be a whole number';
+  }
+  const unknown = unknownFields(`${subject} ${body}`);
+  if (unknown.length > 0) {
+    return `Unknown placeholder(s): ${unknown.map(field => `{{${field}}}`).join(', ')}. ` +
+      `Use any of: ${Object.keys(TEMPLATE_FIELDS).map(field => `{{${field}}}`).join(', ')}`;
+  }
+  return null;
+};
+
+app.get('/api/reminder-notices', requirePermission(Permissions.CIRCULATION_CONFIGURE), async (req, res) => {
+  try {
+    const [rows] = await pool.query(`${REMINDER_NOTICES_QUERY} ORDER BY n.offset_days`);
+    res.json({
+      notices: rows.map(toReminderNoticeResponse),
+      fields: TEMPLATE_FIELDS,
+      transport: { type: mailConfig.type, from: mailConfig.from }
+    });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Create or update a reminder notice (id null = create); responds with the saved notice
+ */
+const saveReminderNotice = async (req, res, id) => {
+  const { name, offsetDays, subject, body, active } = req.body;
+  const validationError = validateReminderNotice(req.body);
+  if (validationError) {
+    return res.status(400).json({ error: validationError });
+  }
+
+  // One notice per day, so there's never a question of which one a loan gets
+  const [duplicates] = await pool.query(
+    'SELECT id FROM reminder_notices WHERE offset_days = ? AND id <> ?',
+    [Number(offsetDays), id || 0]
+  );
+  if (duplicates.length > 0) {
+    return res.status(400).json({ error: 'Another notice is already sent on that day' });
+  }
+
+  const values = [name.trim(), Number(offsetDays), subject.trim(), body.trim(), active !== false];
+  const before = id ? await snapshot(pool, 'reminder_notice', id) : null;
+  if (id) {
+    if (!before) {
+      return res.status(404).json({ error: 'Notice not found' });
+    }
+    await pool.query(
+      'UPDATE reminder_notices SET name = ?, offset_days = ?, subject = ?, body = ?, active = ? WHERE id = ?',
+      [...values, id]
+    );
+  } else {
+    const [result] = await pool.query(
+      'INSERT INTO reminder_notices (name, offset_days, subject, body, active) VALUES (?, ?, ?, ?, ?)',
+      values
+    );
+    id = result.insertId;
+  }
+  await recordAudit(pool, req, {
+    entity: 'reminder_notice', entityId: id, action: before ? 'update' : 'create',
+    before, after: await snapshot(pool, 'reminder_notice', id)
+  });
+
+  const [rows] = await pool.query(`${REMINDER_NOTICES_QUERY} WHERE n.id = ?`, [id]);
+  res.json(toReminderNoticeResponse(rows[0]));
+};
+
+app.post('/api/reminder-notices', requirePermission(Permissions.CIRCULATION_CONFIGURE), async (req, res) => {
+  try {
+    await saveReminderNotice(req, res, null);
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.put('/api/reminder-notices/:id', requirePermission(Permissions.CIRCULATION_CONFIGURE), async (req, res) => {
+  try {
+    await saveReminderNotice(req, res, req.params.id);
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.delete('/api/reminder-notices/:id', requirePermission(Permissions.CIRCULATION_CONFIGURE), async (req, res) => {
+  try {
+    const { id } = req.params;
+    // The send log keeps pointing at notices that were used
+    const [[{ logged }]] = await pool.query('SELECT COUNT(*) as logged FROM reminder_log WHERE notice_id = ?', [id]);
+    if (logged > 0) {
+      return res.status(409).json({
+        error: 'This notice has already been sent to patrons - switch it off instead of deleting it',
+        code: 'NOTICE_IN_USE'
+      });
+    }
+    const before = await snapshot(pool, 'reminder_notice', id);
+    await pool.query('DELETE FROM reminder_notices WHERE id = ?', [id]);
+    await recordAudit(pool, req, { entity: 'reminder_notice', entityId: id, action: 'delete', before });
+    res.json({ success: true });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Send a notice filled in with a sample loan to a staff address
+app.post('/api/reminder-notices/:id/test', requirePermission(Permissions.CIRCULATION_CONFIGURE), async (req, res) => {
+  try {
+    const to = String(req.body.to || '').trim();
+    if (!/^\S+@\S+$/.test(to)) {
+      return res.status(400).json({ error: 'Enter an email address to send the test to' });
+    }
+    const notice = await snapshot(pool, 'reminder_notice', req.params.id);
+    if (!notice) {
+      return res.status(404).json({ error: 'Notice not found' });
+    }
+    const { messageId } = await sendTestNotice(getMailTransport(), notice, to);
+    res.json({ success: true, messageId });
+  } catch (error) {
+    res.status(500).json({ error: `Sending failed: ${error.message}` });
+  }
+});
+
+// What the scheduler will send today (not sent yet) and over the next few days
+app.get('/api/reminders/preview', requirePermission(Permissions.CIRCULATION_CONFIGURE), async (req, res) => {
+  try {
+    const days = Math.min(Math.max(parseInt(req.query.days) || 7, 1), 60);
+    res.json(await previewReminders(pool, days));
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.get('/api/reminders/log', requirePermission(Permissions.CIRCULATION_CONFIGURE), async (req, res) => {
+  try {
+    const { status, userId } = req.query;
+    const limit = Math.min(Math.max(parseInt(req.query.limit) || 100, 1), 500);
+    const conditions = [];
+    const params = [];
+    if (status) {
+      conditions.push('l.status = ?');
+      params.push(status);
+    }
+    if (userId) {
+      conditions.push('l.user_id = ?');
+      params.push(userId);
+    }
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const [rows] = await pool.query(`
+      SELECT l.id, l.issue_id as issueId, l.notice_id as noticeId, n.name as noticeName,
+             DATE_FORMAT(l.due_date, '%Y-%m-%d') as dueDate, l.user_id as userId, u.name as userName,
+             l.email, l.subject, l.body, l.status, l.attempts, l.error, l.sent_at as sentAt, l.created_at as createdAt
+      FROM reminder_log l
+      JOIN reminder_notices n ON l.notice_id = n.id
+      JOIN users u ON l.user_id = u.id
+      ${where}
+      ORDER BY l.created_at DESC, l.id DESC
+      LIMIT ?
+    `, [...params, limit]);
+    res.json(rows.map(row => ({
+      ...row,
+      id: String(row.id),
+      issueId: String(row.issueId),
+      noticeId: String(row.noticeId),
+      userId: String(row.userId)
+    })));
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Run the scheduler now instead of waiting for the next interval
+app.post('/api/reminders/send', requirePermission(Permissions.CIRCULATION_CONFIGURE), async (req, res) => {
+  try {
+    res.json(await sendDueReminders(pool, getMailTransport()));
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// =============================================
+// CALENDAR ROUTES
+// =============================================
+const toClosureResponse = (row) => ({
+  id: String(row.id),
+  date: row.closed_on,
+  reason: row.reason,
+  createdByName: row.created_by_name || null
+});
+
+const CLOSURES_QUERY = `
+  SELECT lc.id, DATE_FORMAT(lc.closed_on, '%Y-%m-%d') as closed_on, lc.reason, s.name as created_by_name
+  FROM library_closures lc
+  LEFT JOIN staff_users s ON lc.created_by = s.id
+`;
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Opening hours, closed days and whether closed days count towards fines
+app.get('/api/calendar', requireAuth, async (req, res) => {
+  try {
+    const [closures] = await pool.query(`${CLOSURES_QUERY} ORDER BY lc.closed_on`);
+    res.json({
+      hours: await getOpeningHours(pool),
+      closures: closures.map(toClosureResponse),
+      settings: await getCalendarSettings(pool)
+    });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.put('/api/calendar/hours', requirePermission(Permissions.CALENDAR_MANAGE), async (req, res) => {
+  try {
+    const hours = Array.isArray(req.body.hours) ? req.body.hours : [];
+    if (hours.length !== WEEKDAYS.length || !WEEKDAYS.every((_, weekday) => hours.some(day => day.weekday === weekday))) {
+      return res.status(400).json({ error: 'Opening hours are needed for every day of the week' });
+    }
+    for (const day of hours) {
+      if (!day.isOpen) continue;
+      if (!TIME_PATTERN.test(day.opensAt || '') || !TIME_PATTERN.test(day.closesAt || '')) {
+        return res.status(400).json({ error: `${WEEKDAYS[day.weekday]}: opening and closing times must be HH:MM` });
+      }
+      if (day.opensAt >= day.closesAt) {
+        return res.status(400).json({ error: `${WEEKDAYS[day.weekday]}: the library must close after it opens` });
+      }
+    }
+    if (!hours.some(day => day.isOpen)) {
+      return res.status(400).json({ error: 'The library must be open on at least one day of the week' });
+    }
+
+    const before = await getOpeningHours(pool);
+    await saveOpeningHours(pool, hours.map(day => ({
+      weekday: day.weekday, isOpen: Boolean(day.isOpen), opensAt: day.opensAt || null, closesAt: day.closesAt || null
+    })));
+    const after = await getOpeningHours(pool);
+    await recordAudit(pool, req, { entity: 'settings', entityId: 'opening_hours', action: 'update', before, after });
+    res.json(after);
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.put('/api/calendar/settings', requirePermission(Permissions.CALENDAR_MANAGE), async (req, res) => {
+  try {
+    const before = await getCalendarSettings(pool);
+    await saveCalendarSettings(pool, { skipClosedDays: Boolean(req.body.skipClosedDays) });
+    const after = await getCalendarSettings(pool);
+    await recordAudit(pool, req, { entity: 'settings', entityId: 'calendar', action: 'update', before, after });
+    res.json(after);
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Loans already out keep their due dates; only new loans and renewals move past a new closure
+app.post('/api/calendar/closures', requirePermission(Permissions.CALENDAR_MANAGE), async (req, res) => {
+  try {
+    const date = String(req.body.date || '');
+    const reason = req.body.reason?.trim() || null;
+    if (!DATE_PATTERN.test(date) || Number.isNaN(Date.parse(date))) {
+      return res.status(400).json({ error: 'Date must be YYYY-MM-DD' });
+    }
+    const [existing] = await pool.query('SELECT id FROM library_closures WHERE closed_on = ?', [date]);
+    if (existing.length > 0) {
+      return res.status(400).json({ error: 'The library is already closed on that day' });
+    }
+
+    const [result] = await pool.query(
+      'INSERT INTO library_closures (closed_on, reason, created_by) VALUES (?, ?, ?)',
+      [date, reason, req.staff.id]
+    );
+    await recordAudit(pool, req, {
+      entity: 'closure', entityId: result.insertId, action: 'create',
+      after: await snapshot(pool, 'closure', result.insertId)
+    });
+
+    const [rows] = await pool.query(`${CLOSURES_QUERY} WHERE lc.id = ?`, [result.insertId]);
+    res.json(toClosureResponse(rows[0]));
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.delete('/api/calendar/closures/:id', requirePermission(Permissions.CALENDAR_MANAGE), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const before = await snapshot(pool, 'closure', id);
+    if (!before) {
+      return res.status(404).json({ error: 'Closed day not found' });
+    }
+    await pool.query('DELETE FROM library_closures WHERE id = ?', [id]);
+    await recordAudit(pool, req, { entity: 'closure', entityId: id, action: 'delete', before });
+    res.json({ success: true });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// =============================================
+// BRANCHES ROUTES
+// =============================================
+const toBranchResponse = (row) => ({
+  id: String(row.id),
+  name: row.name,
+  code: row.code,
+  address: row.address,
+  isActive: Boolean(row.is_active)
+});
+
+const parseBranchInput = (body) => {
+  const values = {
+    name: body.name?.trim() || '',
+    code: body.code?.trim().toUpperCase() || '',
+    address: body.address?.trim() || null,
+    isActive: body.isActive === undefined ? true : Boolean(body.isActive)
+  };
+  if (!values.name || !values.code) {
+    return { values, error: 'Every branch needs a name and a code' };
+  }
+  return { values, error: null };
+};
+
+const toBranchDuplicateError = (error) => {
+  if (error.code !== 'ER_DUP_ENTRY') {
+    return null;
+  }
+  return error.message.includes('idx_branches_code')
+    ? 'Another branch already has that code'
+    : 'Another branch already has that name';
+};
+
+// Public: the sign-in page lists active branches to work at
+app.get('/api/branches', async (req, res) => {
+  try {
+    const includeInactive = req.query.includeInactive === 'true';
+    const [rows] = await pool.query(
+      `SELECT * FROM branches ${includeInactive ? '' : 'WHERE is_active = 1'} ORDER BY name`
+    );
+    res.json(rows.map(toBranchResponse));
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.post('/api/branches', requirePermission(Permissions.BRANCHES_MANAGE), async (req, res) => {
+  const { values, error } = parseBranchInput(req.body);
+  if (error) {
+    return res.status(400).json({ error });
+  }
+  try {
+    const [result] = await pool.query(
+      'INSERT INTO branches (name, code, address, is_active) VALUES (?, ?, ?, ?)',
+      [values.name, values.code, values.address, values.isActive]
+    );
+    const after = await snapshot(pool, 'branch', result.insertId);
+    await recordAudit(pool, req, { entity: 'branch', entityId: result.insertId, action: 'create', after });
+    res.json(toBranchResponse(after));
+  } catch (error) {
+    const duplicate = toBranchDuplicateError(error);
+    if (duplicate) {
+      return res.status(400).json({ error: duplicate });
+    }
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Branches are closed (isActive: false) rather than deleted - copies and loans point at them
+app.put('/api/branches/:id', requirePermission(Permissions.BRANCHES_MANAGE), async (req, res) => {
+  const { id } = req.params;
+  const { values, error } = parseBranchInput(req.body);
+  if (error) {
+    return res.status(400).json({ error });
+  }
+  try {
+    const before = await snapshot(pool, 'branch', id);
+    if (!before) {
+      return res.status(404).json({ error: 'Branch not found' });
+    }
+    if (before.is_active && !values.isActive) {
+      const [[{ active }]] = await pool.query(
+        'SELECT COUNT(*) AS active FROM branches WHERE is_active = 1 AND id <> ?',
+        [id]
+      );
+      if (active === 0) {
+        return res.status(400).json({ error: 'At least one branch must stay open' });
+      }
+    }
+
+    await pool.query(
+      'UPDATE branches SET name = ?, code = ?, address = ?, is_active = ? WHERE id = ?',
+      [values.name, values.code, values.address, values.isActive, id]
+    );
+    const after = await snapshot(pool, 'branch', id);
+    await recordAudit(pool, req, { entity: 'branch', entityId: id, action: 'update', before, after });
+
+    // Book lists carry per-branch availability by name
+    await cache.deletePattern(CacheKeys.patterns.allBooks);
+    res.json(toBranchResponse(after));
+  } catch (error) {
+    const duplicate = toBranchDuplicateError(error);
+    if (duplicate) {
+      return res.status(400).json({ error: duplicate });
+    }
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// =============================================
+// BRANCH TRANSFERS ROUTES
+// =============================================
+const TRANSFER_SELECT = `
+  SELECT t.id, t.copy_id as copyId, c.barcode as copyBarcode, c.book_id as bookId, b.title as bookTitle,
+         t.from_branch_id as fromBranchId, fb.name as fromBranchName,
+         t.to_branch_id as toBranchId, tb.name as toBranchName,
+         t.status, t.reason,
+         rs.name as requestedByName, t.requested_at as requestedAt, t.sent_at as sentAt, t.received_at as receivedAt
+  FROM branch_transfers t
+  JOIN book_copies c ON t.copy_id = c.id
+  JOIN books b ON c.book_id = b.id
+  JOIN branches fb ON t.from_branch_id = fb.id
+  JOIN branches tb ON t.to_branch_id = tb.id
+  LEFT JOIN staff_users rs ON t.requested_by = rs.id
+`;
+
+const toTransferResponse = (row) => ({
+  ...row,
+  id: String(row.id),
+  copyId: String(row.copyId),
+  bookId: String(row.bookId),
+  fromBranchId: String(row.fromBranchId),
+  toBranchId: String(row.toBranchId),
+  requestedAt: row.requestedAt?.toISOString() || null,
+  sentAt: row.sentAt?.toISOString() || null,
+  receivedAt: row.receivedAt?.toISOString() || null
+});
+
+const loadTransfer = async (db, id) => {
+  const [rows] = await db.query(`${TRANSFER_SELECT} WHERE t.id = ?`, [id]);
+  return rows[0] ? toTransferResponse(rows[0]) : null;
+};
+
+// Transfers to or from a branch (?branchId=), optionally by status (?status=requested)
+app.get('/api/transfers', requireAuth, async (req, res) => {
+  try {
+    const { branchId, status } = req.query;
+    const conditions = [];
+    const params = [];
+    if (branchId) {
+      conditions.push('(t.from_branch_id = ? OR t.to_branch_id = ?)');
+      params.push(branchId, branchId);
+    }
+    if (status) {
+      if (!TRANSFER_STATUSES.includes(status)) {
+        return res.status(400).json({ error: `Unknown transfer status: ${status}` });
+      }
+      conditions.push('t.status = ?');
+      params.push(status);
+    }
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const [rows] = await pool.query(`${TRANSFER_SELECT} ${where} ORDER BY t.requested_at DESC, t.id DESC LIMIT 500`, params);
+    res.json(rows.map(toTransferResponse));
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.post('/api/transfers', requirePermission(Permissions.CIRCULATION_ISSUE), async (req, res) => {
+  const { copyId, toBranchId } = req.body;
+  if (!copyId || !toBranchId) {
+    return res.status(400).json({ error: 'Choose a copy and the branch it should go to' });
+  }
+  const reason = optionalText(req.body.reason);
+  if (reason === undefined) {
+    return res.status(400).json({ error: 'Reason must be text' });
+  }
+  await withCirculationTransaction(
+    res,
+    (connection) => requestTransfer(connection, req, { copyId, toBranchId, reason }),
+    async (id) => {
+      res.json(await loadTransfer(pool, id));
+    }
+  );
+});
+
+// Sending and receiving change what's on the shelf, so book lists are refreshed
+const transferAction = (permission, action) => [
+  ...requirePermission(permission),
+  async (req, res) => {
+    const { id } = req.params;
+    await withCirculationTransaction(res, async (connection) => {
+      await action(connection, req, id);
+    }, async () => {
+      await cache.deletePattern(CacheKeys.patterns.allBooks);
+      res.json(await loadTransfer(pool, id));
+    });
+  }
+];
+
+app.post('/api/transfers/:id/send', transferAction(Permissions.CIRCULATION_ISSUE, sendTransfer));
+app.post('/api/transfers/:id/receive', transferAction(Permissions.CIRCULATION_RECEIVE, receiveTransfer));
+app.post('/api/transfers/:id/cancel', transferAction(Permissions.CIRCULATION_ISSUE, cancelTransfer));
+
+// =============================================
 // BOOK REQUESTS ROUTES
 // =============================================
-app.get('/api/book-requests', async (req, res) => {
+const REQUEST_SELECT = `
+  SELECT br.id, br.book_name as bookName, br.title_key as groupKey, br.category_id as categoryId,
+         br.author_name as authorName, br.request_date as requestDate, br.status,
+         c.name as categoryName, br.user_id as userId, u.name as userName,
+         u.email as userEmail, u.phone as userPhone,
+         br.book_id as bookId, b.title as bookTitle, br.rejection_reason as rejectionReason,
+         br.status_changed_at as statusChangedAt, s.name as statusChangedByName,
+         br.notified_at as notifiedAt
+  FROM book_requests br
+  LEFT JOIN categories c ON br.category_id = c.id
+  LEFT JOIN users u ON br.user_id = u.id
+  LEFT JOIN books b ON br.book_id = b.id
+  LEFT JOIN staff_users s ON br.status_changed_by = s.id
+`;
+
+const toRequestResponse = (row) => ({
+  ...row,
+  id: String(row.id),
+  categoryId: row.categoryId ? String(row.categoryId) : null,
+  userId: row.userId ? String(row.userId) : null,
+  bookId: row.bookId ? String(row.bookId) : null,
+  requestDate: row.requestDate?.toISOString().split('T')[0],
+  statusChangedAt: row.statusChangedAt?.toISOString() || null,
+  notifiedAt: row.notifiedAt?.toISOString() || null
+});
+
+// The review queue, newest first; requests for the same title share a groupKey
+app.get('/api/book-requests', requirePermission(Permissions.REQUESTS_MANAGE), async (req, res) => {
+  try {
+    const { status, categoryId, userId, q, from, to } = req.query;
+    const conditions = [];
+    const params = [];
+    if (status) { conditions.push('br.status = ?'); params.push(status); }
+    if (categoryId) { conditions.push('br.category_id = ?'); params.push(categoryId); }
+    if (userId) { conditions.push('br.user_id = ?'); params.push(userId); }
+    if (typeof q === 'string' && q.trim()) {
+      conditions.push('(br.book_name LIKE ? OR br.author_name LIKE ? OR u.name LIKE ?)');
+      params.push(`%${q.trim()}%`, `%${q.trim()}%`, `%${q.trim()}%`);
+    }
+    if (from) { conditions.push('br.request_date >= ?'); params.push(from); }
+    if (to) { conditions.push('br.request_date <= ?'); params.push(to); }
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    const [rows] = await pool.query(`${REQUEST_SELECT} ${where} ORDER BY br.request_date DESC, br.id DESC`, params);
+    res.json(rows.map(toRequestResponse));
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * A book request's title, category and author from a request body, checked
+ * the same way wherever a request is made or corrected
+ */
+const parseRequestInput = (body) => {
+  const { bookName, categoryId, authorName } = body;
+  if (typeof bookName !== 'string' || !bookName.trim()) {
+    return { values: null, error: 'Enter the title of the book you would like' };
+  }
+  const author = optionalText(authorName);
+  if (author === undefined) {
+    return { values: null, error: 'Author must be text' };
+  }
+  return { values: { bookName: bookName.trim(), categoryId: categoryId || null, authorName: author }, error: null };
+};
+
+// Public and anonymous: patrons who want to hear back ask from the portal
+// (POST /api/patron/requests), so their request is on their account
+app.post('/api/book-requests', async (req, res) => {
+  try {
+    const { values, error } = parseRequestInput(req.body);
+    if (error) {
+      return res.status(400).json({ error });
+    }
+
+    const [result] = await pool.query(
+      `INSERT INTO book_requests (book_name, title_key, category_id, author_name, request_date, status)
+       VALUES (?, ?, ?, ?, ?, 'pending')`,
+      [values.bookName, requestTitleKey(values.bookName), values.categoryId, values.authorName, req.body.requestDate]
+    );
+    await recordAudit(pool, req, {
+      entity: 'book_request', entityId: result.insertId, action: 'create',
+      after: await snapshot(pool, 'book_request', result.insertId)
+    });
+
+    const [rows] = await pool.query(`${REQUEST_SELECT} WHERE br.id = ?`, [result.insertId]);
+    res.json(toRequestResponse(rows[0]));
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Corrects a request's details; its status only changes through fulfil,
+// reject and reopen below
+app.put('/api/book-requests/:id', requirePermission(Permissions.REQUESTS_MANAGE), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { values, error } = parseRequestInput(req.body);
+    if (error) {
+      return res.status(400).json({ error });
+    }
+
+    const before = await snapshot(pool, 'book_request', id);
+    if (!before) {
+      return res.status(404).json({ error: 'Request not found' });
+    }
+    await pool.query(
+      `UPDATE book_requests SET book_name = ?, title_key = ?, category_id = ?, author_name = ?,
+       request_date = ? WHERE id = ?`,
+      [values.bookName, requestTitleKey(values.bookName), values.categoryId, values.authorName, req.body.requestDate, id]
+    );
+    await recordAudit(pool, req, {
+      entity: 'book_request', entityId: id, action: 'update',
+      before, after: await snapshot(pool, 'book_request', id)
+    });
+
+    const [rows] = await pool.query(`${REQUEST_SELECT} WHERE br.id = ?`, [id]);
+    res.json(toRequestResponse(rows[0]));
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Change a request's status (and, with includeDuplicates, every other
+ * pending request for the title), then email the requesters
+ */
+const decideRequest = async (req, res, change) => {
+  await withCirculationTransaction(
+    res,
+    (connection) =>
+      changeRequestStatus(connection, req, req.params.id, {
+        ...change, includeDuplicates: Boolean(req.body.includeDuplicates)
+      }),
+    async (changedIds) => {
+      const notices = await sendRequestNotices(pool, getMailTransport(), changedIds)
+        .catch(error => {
+          console.error('Error notifying requesters:', error);
+          return { sent: 0, failed: changedIds.length };
+        });
+      const [rows] = await pool.query(`${REQUEST_SELECT} WHERE br.id IN (?) ORDER BY br.id`, [changedIds]);
+      res.json({ requests: rows.map(toRequestResponse), notified: notices.sent, notifyFailed: notices.failed });
+    }
+  );
+};
+
+app.post('/api/book-requests/:id/fulfil', requirePermission(Permissions.REQUESTS_MANAGE), (req, res) =>
+  decideRequest(req, res, { status: 'fulfilled', bookId: req.body.bookId })
+);
+
+app.post('/api/book-requests/:id/reject', requirePermission(Permissions.REQUESTS_MANAGE), (req, res) => {
+  const reason = optionalText(req.body.reason);
+  if (reason === undefined) {
+    return res.status(400).json({ error: 'Reason must be text' });
+  }
+  return decideRequest(req, res, { status: 'rejected', reason });
+});
+
+app.post('/api/book-requests/:id/reopen', requirePermission(Permissions.REQUESTS_MANAGE), (req, res) =>
+  decideRequest(req, res, { status: 'pending' })
+);
+
+app.delete('/api/book-requests/:id', requirePermission(Permissions.REQUESTS_MANAGE), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const before = await snapshot(pool, 'book_request', id);
+    await pool.query('DELETE FROM book_requests WHERE id = ?', [id]);
+    await recordAudit(pool, req, { entity: 'book_request', entityId: id, action: 'delete', before });
+    res.json({ success: true });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// =============================================
+// OWNERS ROUTES (books lent or donated by patrons, and reclaims)
+// =============================================
+const RECLAIM_SELECT = `
+  SELECT r.id, r.copy_id as copyId, c.barcode as copyBarcode, c.status as copyStatus,
+         c.book_id as bookId, b.title as bookTitle, cb.name as branchName,
+         r.owner_id as ownerId, o.name as ownerName, o.email as ownerEmail, o.phone as ownerPhone,
+         r.status, r.reason, r.requested_by_owner as requestedByOwner, rs.name as requestedByName,
+         r.borrower_notified_at as borrowerNotifiedAt, r.created_at as createdAt, r.closed_at as closedAt,
+         bc.due_date as dueDate, u.name as borrowerName
+  FROM copy_reclaims r
+  JOIN book_copies c ON r.copy_id = c.id
+  JOIN books b ON c.book_id = b.id
+  JOIN branches cb ON c.current_branch_id = cb.id
+  LEFT JOIN users o ON r.owner_id = o.id
+  LEFT JOIN staff_users rs ON r.requested_by = rs.id
+  LEFT JOIN books_circulation bc ON bc.copy_id = c.id AND bc.status = 'issued'
+  LEFT JOIN users u ON bc.user_id = u.id
+`;
+
+const toReclaimResponse = (row) => ({
+  ...row,
+  id: String(row.id),
+  copyId: String(row.copyId),
+  bookId: String(row.bookId),
+  ownerId: row.ownerId ? String(row.ownerId) : null,
+  requestedByOwner: Boolean(row.requestedByOwner),
+  borrowerNotifiedAt: row.borrowerNotifiedAt?.toISOString() || null,
+  createdAt: row.createdAt?.toISOString(),
+  closedAt: row.closedAt?.toISOString() || null,
+  dueDate: row.dueDate?.toISOString().split('T')[0] || null
+});
+
+const loadReclaim = async (db, id) => {
+  const [rows] = await db.query(`${RECLAIM_SELECT} WHERE r.id = ?`, [id]);
+  return rows[0] ? toReclaimResponse(rows[0]) : null;
+};
+
+// Reclaims change what can be lent, so book lists are refreshed; borrowers of
+// reclaimed copies are asked to bring them back
+const afterReclaim = async (reclaimIds) => {
+  await cache.deletePattern(CacheKeys.patterns.allBooks);
+  return sendReclaimNotices(pool, getMailTransport(), reclaimIds);
+};
+
+// What a donor gave over a period (?from=&to=, inclusive dates), for their
+// donation receipt; null when there's no such patron
+const loadDonationReceipt = async (donorId, query) => {
+  const [users] = await pool.query('SELECT id, name, email, phone FROM users WHERE id = ?', [donorId]);
+  if (users.length === 0) {
+    return null;
+  }
+  const isDate = (value) => /^\d{4}-\d{2}-\d{2}$/.test(value || '');
+  const period = { from: isDate(query.from) ? query.from : null, to: isDate(query.to) ? query.to : null };
+  return {
+    libraryName: reminderConfig.libraryName,
+    donor: { ...users[0], id: String(users[0].id) },
+    ...period,
+    items: await getDonations(pool, donorId, period)
+  };
+};
+
+app.get('/api/owner-settings', requireAuth, async (req, res) => {
+  try {
+    res.json(await getOwnerSettings(pool));
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.put('/api/owner-settings', requirePermission(Permissions.CIRCULATION_CONFIGURE), async (req, res) => {
+  try {
+    const { borrowerVisibility } = req.body;
+    if (!BORROWER_VISIBILITY.includes(borrowerVisibility)) {
+      return res.status(400).json({ error: `Borrower visibility must be one of: ${BORROWER_VISIBILITY.join(', ')}` });
+    }
+
+    const before = await getOwnerSettings(pool);
+    await saveOwnerSettings(pool, { borrowerVisibility });
+    const after = await getOwnerSettings(pool);
+    await recordAudit(pool, req, { entity: 'settings', entityId: 'owners', action: 'update', before, after });
+    res.json(after);
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Patrons who have lent or given books, with how much their books are borrowed
+app.get('/api/owners', requireAuth, async (req, res) => {
+  try {
+    res.json(await getOwnerSummaries(pool));
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// An owner's books, with every copy's whereabouts and borrower
+app.get('/api/owners/:id', requireAuth, async (req, res) => {
+  try {
+    const [users] = await pool.query('SELECT id, name, email, phone FROM users WHERE id = ?', [req.params.id]);
+    if (users.length === 0) {
+      return res.status(404).json({ error: 'Owner not found' });
+    }
+    res.json({
+      owner: { ...users[0], id: String(users[0].id) },
+      books: await getOwnedBooks(pool, req.params.id)
+    });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.get('/api/owners/:id/donations', requireAuth, async (req, res) => {
+  try {
+    const receipt = await loadDonationReceipt(req.params.id, req.query);
+    if (!receipt) {
+      return res.status(404).json({ error: 'Donor not found' });
+    }
+    res.json(receipt);
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Reclaims, newest first, optionally by status (?status=open)
+app.get('/api/reclaims', requireAuth, async (req, res) => {
+  try {
+    const { status } = req.query;
+    if (status && !RECLAIM_STATUSES.includes(status)) {
+      return res.status(400).json({ error: `Unknown reclaim status: ${status}` });
+    }
+    const [rows] = await pool.query(
+      `${RECLAIM_SELECT} ${status ? 'WHERE r.status = ?' : ''} ORDER BY r.created_at DESC, r.id DESC LIMIT 500`,
+      status ? [status] : []
+    );
+    res.json(rows.map(toReclaimResponse));
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Start handing a lent copy back to its owner
+app.post('/api/copies/:id/reclaim', requirePermission(Permissions.CATALOG_WRITE), async (req, res) => {
+  const reason = optionalText(req.body.reason);
+  if (reason === undefined) {
+    return res.status(400).json({ error: 'Reason must be text' });
+  }
+  await withCirculationTransaction(
+    res,
+    (connection) => openReclaim(connection, req, req.params.id, { reason }),
+    async (id) => {
+      const { sent } = await afterReclaim([id]);
+      res.json({ ...(await loadReclaim(pool, id)), borrowerNotified: sent > 0 });
+    }
+  );
+});
+
+// The owner collected it: the copy is withdrawn
+app.post('/api/reclaims/:id/complete', requirePermission(Permissions.CIRCULATION_RECEIVE), async (req, res) => {
+  const { id } = req.params;
+  await withCirculationTransaction(res, async (connection) => {
+    await completeReclaim(connection, req, id);
+  }, async () => {
+    await cache.deletePattern(CacheKeys.patterns.allBooks);
+    res.json(await loadReclaim(pool, id));
+  });
+});
+
+app.post('/api/reclaims/:id/cancel', requirePermission(Permissions.CATALOG_WRITE), async (req, res) => {
+  const { id } = req.params;
+  await withCirculationTransaction(res, async (connection) => {
+    await cancelReclaim(connection, req, id);
+  }, async () => {
+    await cache.deletePattern(CacheKeys.patterns.allBooks);
+    res.json(await loadReclaim(pool, id));
+  });
+});
+
+// Ask the borrower again to bring a reclaimed copy back
+app.post('/api/reclaims/:id/notify', requirePermission(Permissions.CATALOG_WRITE), async (req, res) => {
+  try {
+    const reclaim = await loadReclaim(pool, req.params.id);
+    if (!reclaim) {
+      return res.status(404).json({ error: 'Reclaim not found' });
+    }
+    if (reclaim.status !== 'open' || reclaim.copyStatus !== 'on_loan') {
+      return res.status(400).json({ error: 'Only copies still out on loan have a borrower to ask' });
+    }
+    const { sent } = await sendReclaimNotices(pool, getMailTransport(), [reclaim.id]);
+    if (sent === 0) {
+      return res.status(400).json({ error: 'The borrower has no email address, or the email could not be sent' });
+    }
+    res.json(await loadReclaim(pool, reclaim.id));
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// =============================================
+// ACQUISITIONS ROUTES (vendors, purchase orders and budgets)
+// =============================================
+const toVendorResponse = (row) => ({
+  id: String(row.id),
+  name: row.name,
+  contactName: row.contact_name,
+  email: row.email,
+  phone: row.phone,
+  address: row.address,
+  notes: row.notes,
+  isActive: Boolean(row.is_active)
+});
+
+const parseVendorInput = (body) => {
+  const values = {
+    name: body.name?.trim() || '',
+    contactName: body.contactName?.trim() || null,
+    email: body.email?.trim() || null,
+    phone: body.phone?.trim() || null,
+    address: body.address?.trim() || null,
+    notes: body.notes?.trim() || null,
+    isActive: body.isActive === undefined ? true : Boolean(body.isActive)
+  };
+  if (!values.name) {
+    return { values, error: 'Every vendor needs a name' };
+  }
+  return { values, error: null };
+};
+
+app.get('/api/vendors', requireAuth, async (req, res) => {
   try {
-    const [rows] = await pool.query(`
-      SELECT br.id, br.book_name as bookName, br.category_id as categoryId,
-             br.author_name as authorName, br.request_date as requestDate, br.status,
-             c.name as categoryName
-      FROM book_requests br
-      LEFT JOIN categories c ON br.category_id = c.id
-      ORDER BY br.request_date DESC
-    `);
-    res.json(rows.map(row => ({
-      ...row,
-      id: String(row.id),
-      categoryId: row.categoryId ? String(row.categoryId) : null,
-      requestDate: row.requestDate?.toISOString().split('T')[0]
-    })));
+    const includeInactive = req.query.includeInactive === 'true';
+    const [rows] = await pool.query(
+      `SELECT * FROM vendors ${includeInactive ? '' : 'WHERE is_active = 1'} ORDER BY name`
+    );
+    res.json(rows.map(toVendorResponse));
   } catch (error) {
     res.status(500).json({ error: error.message });
   }
 });
 
-app.post('/api/book-requests', async (req, res) => {
+app.post('/api/vendors', requirePermission(Permissions.ACQUISITIONS_MANAGE), async (req, res) => {
+  const { values, error } = parseVendorInput(req.body);
+  if (error) {
+    return res.status(400).json({ error });
+  }
   try {
-    const { bookName, categoryId, authorName, requestDate } = req.body;
     const [result] = await pool.query(
-      `INSERT INTO book_requests (book_name, category_id, author_name, request_date, status) 
-       VALUES (?, ?, ?, ?, 'pending')`,
-      [bookName, categoryId || null, authorName || null, requestDate]
+      `INSERT INTO vendors (name, contact_name, email, phone, address, notes, is_active)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [values.name, values.contactName, values.email, values.phone, values.address, values.notes, values.isActive]
+    );
+    const after = await snapshot(pool, 'vendor', result.insertId);
+    await recordAudit(pool, req, { entity: 'vendor', entityId: result.insertId, action: 'create', after });
+    res.json(toVendorResponse(after));
+  } catch (error) {
+    if (error.code === 'ER_DUP_ENTRY') {
+      return res.status(400).json({ error: 'Another vendor already has that name' });
+    }
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Vendors are deactivated (isActive: false) rather than deleted - orders point at them
+app.put('/api/vendors/:id', requirePermission(Permissions.ACQUISITIONS_MANAGE), async (req, res) => {
+  const { id } = req.params;
+  const { values, error } = parseVendorInput(req.body);
+  if (error) {
+    return res.status(400).json({ error });
+  }
+  try {
+    const before = await snapshot(pool, 'vendor', id);
+    if (!before) {
+      return res.status(404).json({ error: 'Vendor not found' });
+    }
+    await pool.query(
+      `UPDATE vendors SET name = ?, contact_name = ?, email = ?, phone = ?, address = ?, notes = ?, is_active = ?
+       WHERE id = ?`,
+      [values.name, values.contactName, values.email, values.phone, values.address, values.notes, values.isActive, id]
+    );
+    const after = await snapshot(pool, 'vendor', id);
+    await recordAudit(pool, req, { entity: 'vendor', entityId: id, action: 'update', before, after });
+    res.json(toVendorResponse(after));
+  } catch (error) {
+    if (error.code === 'ER_DUP_ENTRY') {
+      return res.status(400).json({ error: 'Another vendor already has that name' });
+    }
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// The fiscal year start month, and the fiscal year today falls in
+app.get('/api/acquisitions/settings', requireAuth, async (req, res) => {
+  try {
+    const settings = await getAcquisitionSettings(pool);
+    res.json({ ...settings, currentFiscalYear: fiscalYearOf(new Date(), settings.fiscalYearStartMonth) });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.put('/api/acquisitions/settings', requirePermission(Permissions.ACQUISITIONS_MANAGE), async (req, res) => {
+  await withCirculationTransaction(res, async (connection) => {
+    const before = await getAcquisitionSettings(connection);
+    await saveAcquisitionSettings(connection, { fiscalYearStartMonth: req.body.fiscalYearStartMonth });
+    const saved = await getAcquisitionSettings(connection);
+    await recordAudit(connection, req, { entity: 'settings', entityId: 'acquisitions', action: 'update', before, after: saved });
+    return saved;
+  }, async (after) => {
+    res.json({ ...after, currentFiscalYear: fiscalYearOf(new Date(), after.fiscalYearStartMonth) });
+  });
+});
+
+const ORDER_SELECT = `
+  SELECT o.id, o.vendor_id as vendorId, v.name as vendorName, o.branch_id as branchId, br.name as branchName,
+         o.fiscal_year as fiscalYear, o.status, o.vendor_reference as vendorReference, o.notes,
+         cs.name as createdByName, os.name as orderedByName,
+         o.created_at as createdAt, o.ordered_at as orderedAt, o.received_at as receivedAt,
+         (SELECT COUNT(*) FROM purchase_order_lines l WHERE l.order_id = o.id) as lineCount,
+         (SELECT COALESCE(SUM(l.quantity), 0) FROM purchase_order_lines l WHERE l.order_id = o.id) as quantity,
+         (SELECT COALESCE(SUM(l.quantity_received), 0) FROM purchase_order_lines l WHERE l.order_id = o.id) as quantityReceived,
+         (SELECT COALESCE(SUM(l.unit_price * l.quantity), 0) FROM purchase_order_lines l WHERE l.order_id = o.id) as total
+  FROM purchase_orders o
+  JOIN vendors v ON o.vendor_id = v.id
+  JOIN branches br ON o.branch_id = br.id
+  LEFT JOIN staff_users cs ON o.created_by = cs.id
+  LEFT JOIN staff_users os ON o.ordered_by = os.id
+`;
+
+const ORDER_LINE_SELECT = `
+  SELECT l.id, l.title, l.isbn, l.author_name as authorName, l.category_id as categoryId, c.name as categoryName,
+         l.book_type as bookType, l.unit_price as unitPrice, l.quantity, l.quantity_received as quantityReceived,
+         l.book_id as bookId, b.title as bookTitle, l.request_id as requestId, r.book_name as requestTitle
+  FROM purchase_order_lines l
+  LEFT JOIN categories c ON l.category_id = c.id
+  LEFT JOIN books b ON l.book_id = b.id
+  LEFT JOIN book_requests r ON l.request_id = r.id
+`;
+
+const toOrderResponse = (row) => ({
+  ...row,
+  id: String(row.id),
+  vendorId: String(row.vendorId),
+  branchId: String(row.branchId),
+  quantity: Number(row.quantity),
+  quantityReceived: Number(row.quantityReceived),
+  total: Number(row.total),
+  createdAt: row.createdAt?.toISOString() || null,
+  orderedAt: row.orderedAt?.toISOString() || null,
+  receivedAt: row.receivedAt?.toISOString() || null
+});
+
+const toOrderLineResponse = (row) => ({
+  ...row,
+  id: String(row.id),
+  categoryId: row.categoryId ? String(row.categoryId) : null,
+  unitPrice: Number(row.unitPrice),
+  bookId: row.bookId ? String(row.bookId) : null,
+  requestId: row.requestId ? String(row.requestId) : null
+});
+
+// An order with its lines
+const loadOrder = async (db, id) => {
+  const [orders] = await db.query(`${ORDER_SELECT} WHERE o.id = ?`, [id]);
+  if (!orders[0]) {
+    return null;
+  }
+  const [lines] = await db.query(`${ORDER_LINE_SELECT} WHERE l.order_id = ? ORDER BY l.id`, [id]);
+  return { ...toOrderResponse(orders[0]), lines: lines.map(toOrderLineResponse) };
+};
+
+// Orders, newest first, by status (?status=ordered), vendor and fiscal year
+app.get('/api/purchase-orders', requirePermission(Permissions.ACQUISITIONS_MANAGE), async (req, res) => {
+  try {
+    const { status, vendorId, fiscalYear } = req.query;
+    const conditions = [];
+    const params = [];
+    if (status) {
+      if (!ORDER_STATUSES.includes(status)) {
+        return res.status(400).json({ error: `Unknown order status: ${status}` });
+      }
+      conditions.push('o.status = ?');
+      params.push(status);
+    }
+    if (vendorId) { conditions.push('o.vendor_id = ?'); params.push(vendorId); }
+    if (fiscalYear) { conditions.push('o.fiscal_year = ?'); params.push(fiscalYear); }
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const [rows] = await pool.query(`${ORDER_SELECT} ${where} ORDER BY o.created_at DESC, o.id DESC LIMIT 500`, params);
+    res.json(rows.map(toOrderResponse));
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.get('/api/purchase-orders/:id', requirePermission(Permissions.ACQUISITIONS_MANAGE), async (req, res) => {
+  try {
+    const order = await loadOrder(pool, req.params.id);
+    if (!order) {
+      return res.status(404).json({ error: 'Order not found' });
+    }
+    res.json(order);
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Start a draft, optionally with a line for each of the given book requests (requestIds)
+app.post('/api/purchase-orders', requirePermission(Permissions.ACQUISITIONS_MANAGE), async (req, res) => {
+  const { values, error } = parseOrderInput(req.body);
+  if (error) {
+    return res.status(400).json({ error });
+  }
+  await withCirculationTransaction(res, async (connection) => {
+    const orderId = await createOrder(connection, req, values);
+    if (req.body.requestIds?.length > 0) {
+      await addRequestLines(connection, req, orderId, req.body.requestIds);
+    }
+    return orderId;
+  }, async (id) => {
+    res.json(await loadOrder(pool, id));
+  });
+});
+
+app.put('/api/purchase-orders/:id', requirePermission(Permissions.ACQUISITIONS_MANAGE), async (req, res) => {
+  const { values, error } = parseOrderInput(req.body);
+  if (error) {
+    return res.status(400).json({ error });
+  }
+  await withCirculationTransaction(res, async (connection) => {
+    await updateOrder(connection, req, req.params.id, values);
+  }, async () => {
+    res.json(await loadOrder(pool, req.params.id));
+  });
+});
+
+app.post('/api/purchase-orders/:id/lines', requirePermission(Permissions.ACQUISITIONS_MANAGE), async (req, res) => {
+  const { values, error } = parseOrderLineInput(req.body);
+  if (error) {
+    return res.status(400).json({ error });
+  }
+  await withCirculationTransaction(
+    res,
+    (connection) => addOrderLines(connection, req, req.params.id, [values]),
+    async () => {
+      res.json(await loadOrder(pool, req.params.id));
+    }
+  );
+});
+
+app.post('/api/purchase-orders/:id/lines/from-requests', requirePermission(Permissions.ACQUISITIONS_MANAGE), async (req, res) => {
+  await withCirculationTransaction(
+    res,
+    (connection) => addRequestLines(connection, req, req.params.id, req.body.requestIds),
+    async () => {
+      res.json(await loadOrder(pool, req.params.id));
+    }
+  );
+});
+
+// The vendor's quote spreadsheet is the request body itself (not JSON);
+// ?recommendedOnly=true keeps only the rows the vendor marked recommended
+app.post(
+  '/api/purchase-orders/:id/lines/import',
+  requirePermission(Permissions.ACQUISITIONS_MANAGE),
+  express.raw({ type: () => true, limit: '10mb' }),
+  async (req, res) => {
+    if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+      return res.status(400).json({ error: 'Choose the quote spreadsheet to import' });
+    }
+    let quote;
+    try {
+      quote = parseQuoteSheet(req.body, { recommendedOnly: req.query.recommendedOnly === 'true' });
+    } catch (error) {
+      return res.status(error.status || 400).json({ error: error.message, code: error.code });
+    }
+    if (quote.lines.length === 0) {
+      return res.status(400).json({ error: 'No titles found in the spreadsheet' });
+    }
+    await withCirculationTransaction(
+      res,
+      (connection) => addOrderLines(connection, req, req.params.id, quote.lines),
+      async (added) => {
+        res.json({ order: await loadOrder(pool, req.params.id), imported: added, skipped: quote.skipped });
+      }
     );
+  }
+);
+
+app.put('/api/purchase-orders/:id/lines/:lineId', requirePermission(Permissions.ACQUISITIONS_MANAGE), async (req, res) => {
+  const { values, error } = parseOrderLineInput(req.body);
+  if (error) {
+    return res.status(400).json({ error });
+  }
+  await withCirculationTransaction(res, async (connection) => {
+    await updateOrderLine(connection, req, req.params.id, req.params.lineId, values);
+  }, async () => {
+    res.json(await loadOrder(pool, req.params.id));
+  });
+});
+
+app.delete('/api/purchase-orders/:id/lines/:lineId', requirePermission(Permissions.ACQUISITIONS_MANAGE), async (req, res) => {
+  await withCirculationTransaction(res, async (connection) => {
+    await removeOrderLine(connection, req, req.params.id, req.params.lineId);
+  }, async () => {
+    res.json(await loadOrder(pool, req.params.id));
+  });
+});
 
-    // Get category name if exists
-    let categoryName = null;
-    if (categoryId) {
-      const [categories] = await pool.query('SELECT name FROM categories WHERE id = ?', [categoryId]);
-      categoryName = categories[0]?.name || null;
+const orderAction = (action) => async (req, res) => {
+  await withCirculationTransaction(res, async (connection) => {
+    await action(connection, req, req.params.id);
+  }, async () => {
+    res.json(await loadOrder(pool, req.params.id));
+  });
+};
+
+app.post('/api/purchase-orders/:id/place', requirePermission(Permissions.ACQUISITIONS_MANAGE), orderAction(placeOrder));
+app.post('/api/purchase-orders/:id/cancel', requirePermission(Permissions.ACQUISITIONS_MANAGE), orderAction(cancelOrder));
+
+// Receive a delivery: { receipts: [{ lineId, quantity }] }. New copies change
+// the book lists, and patrons whose requests it fulfils are emailed
+app.post('/api/purchase-orders/:id/receive', requirePermission(Permissions.ACQUISITIONS_MANAGE), async (req, res) => {
+  await withCirculationTransaction(
+    res,
+    (connection) => receiveOrder(connection, req, req.params.id, req.body.receipts),
+    async (received) => {
+      await cache.deletePattern(CacheKeys.patterns.allBooks);
+      const notices = received.requestIds.length === 0
+        ? { sent: 0, failed: 0 }
+        : await sendRequestNotices(pool, getMailTransport(), received.requestIds).catch(error => {
+          console.error('Error notifying requesters:', error);
+          return { sent: 0, failed: received.requestIds.length };
+        });
+      res.json({
+        order: await loadOrder(pool, req.params.id),
+        copiesAdded: received.copyIds.length,
+        holdsReady: received.readyHoldIds.length,
+        requestsFulfilled: received.requestIds.length,
+        notified: notices.sent,
+        notifyFailed: notices.failed
+      });
     }
+  );
+});
 
+// Budget against spend to date per category (?fiscalYear=, default the current one)
+app.get('/api/budgets', requirePermission(Permissions.ACQUISITIONS_MANAGE), async (req, res) => {
+  try {
+    const { fiscalYearStartMonth } = await getAcquisitionSettings(pool);
+    const fiscalYear = Number(req.query.fiscalYear) || fiscalYearOf(new Date(), fiscalYearStartMonth);
+    const categories = await getBudgetSummary(pool, fiscalYear);
+    const sum = (field) => categories.reduce((total, row) => total + (row[field] || 0), 0);
     res.json({
-      id: String(result.insertId),
-      bookName,
-      categoryId: categoryId ? String(categoryId) : null,
-      categoryName,
-      authorName: authorName || null,
-      requestDate,
-      status: 'pending'
+      fiscalYear,
+      ...fiscalYearRange(fiscalYear, fiscalYearStartMonth),
+      categories,
+      totals: {
+        budget: sum('budget'),
+        spent: sum('spent'),
+        onOrder: sum('onOrder'),
+        inDraft: sum('inDraft')
+      }
     });
   } catch (error) {
     res.status(500).json({ error: error.message });
   }
 });
 
-app.put('/api/book-requests/:id', async (req, res) => {
+// Set a category's budget for a fiscal year; an empty amount removes it
+app.put('/api/budgets', requirePermission(Permissions.ACQUISITIONS_MANAGE), async (req, res) => {
   try {
-    const { id } = req.params;
-    const { bookName, categoryId, authorName, requestDate, status } = req.body;
-    
-    await pool.query(
-      `UPDATE book_requests SET book_name = ?, category_id = ?, author_name = ?, 
-       request_date = ?, status = ? WHERE id = ?`,
-      [bookName, categoryId || null, authorName || null, requestDate, status, id]
+    const fiscalYear = Number(req.body.fiscalYear);
+    const { categoryId } = req.body;
+    const clearing = req.body.amount === null || req.body.amount === '';
+    const amount = Number(req.body.amount);
+    if (!Number.isInteger(fiscalYear) || !categoryId) {
+      return res.status(400).json({ error: 'Choose the fiscal year and category' });
+    }
+    if (!clearing && (!Number.isFinite(amount) || amount < 0)) {
+      return res.status(400).json({ error: 'Budget must be zero or more' });
+    }
+
+    const [existing] = await pool.query(
+      'SELECT id FROM budgets WHERE fiscal_year = ? AND category_id = ?',
+      [fiscalYear, categoryId]
     );
+    const budgetId = existing[0]?.id;
+    const before = budgetId ? await snapshot(pool, 'budget', budgetId) : null;
+    if (clearing) {
+      if (budgetId) {
+        await pool.query('DELETE FROM budgets WHERE id = ?', [budgetId]);
+        await recordAudit(pool, req, { entity: 'budget', entityId: budgetId, action: 'delete', before });
+      }
+    } else if (budgetId) {
+      await pool.query('UPDATE budgets SET amount = ? WHERE id = ?', [amount, budgetId]);
+      await recordAudit(pool, req, {
+        entity: 'budget', entityId: budgetId, action: 'update',
+        before, after: await snapshot(pool, 'budget', budgetId)
+      });
+    } else {
+      const [result] = await pool.query(
+        'INSERT INTO budgets (fiscal_year, category_id, amount) VALUES (?, ?, ?)',
+        [fiscalYear, categoryId, amount]
+      );
+      await recordAudit(pool, req, {
+        entity: 'budget', entityId: result.insertId, action: 'create',
+        after: await snapshot(pool, 'budget', result.insertId)
+      });
+    }
+    res.json({ success: true });
+  } catch (error) {
+    if (error.code === 'ER_NO_REFERENCED_ROW_2') {
+      return res.status(400).json({ error: 'Category not found' });
+    }
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// =============================================
+// PATRON PORTAL ROUTES (patrons signed in with a one-time code)
+// =============================================
+app.post('/api/patron/login/code', async (req, res) => {
+  try {
+    const { contact } = req.body;
+    if (typeof contact !== 'string' || !contact.trim()) {
+      return res.status(400).json({ error: 'Enter the email or phone number on your library account' });
+    }
+    // Same answer whether or not the contact is on record
+    await requestLoginCode(pool, contact);
+    res.json({
+      success: true,
+      message: 'If that email or phone number is on a library account, a sign-in code is on its way',
+      codeLength: patronAuthConfig.codeLength,
+      expiresInMinutes: patronAuthConfig.codeTTLMinutes
+    });
+  } catch (error) {
+    console.error('Error sending patron sign-in code:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
 
-    // Get category name if exists
-    let categoryName = null;
-    if (categoryId) {
-      const [categories] = await pool.query('SELECT name FROM categories WHERE id = ?', [categoryId]);
-      categoryName = categories[0]?.name || null;
+app.post('/api/patron/login', async (req, res) => {
+  try {
+    const { contact, code } = req.body;
+    if (typeof contact !== 'string') {
+      return res.status(400).json({ error: 'Enter the email or phone number on your library account' });
+    }
+    const patron = await verifyLoginCode(pool, contact, code);
+    if (!patron) {
+      return res.status(401).json({ error: 'That code is wrong or has expired' });
+    }
+    res.json({ success: true, ...issuePatronToken(patron), patron: { id: String(patron.id), name: patron.name } });
+  } catch (error) {
+    console.error('Error signing patron in:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.get('/api/patron/me', requirePatron, async (req, res) => {
+  try {
+    const [users] = await pool.query(
+      'SELECT id, name, email, phone, card_number as cardNumber FROM users WHERE id = ?',
+      [req.patron.id]
+    );
+    if (users.length === 0) {
+      return res.status(401).json({ error: 'Session expired, please sign in again' });
     }
+    res.json({ ...users[0], id: String(users[0].id), fineBalance: await getBalance(pool, req.patron.id) });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
 
+const PATRON_LOAN_SELECT = `
+  SELECT bc.id, bc.book_id, bc.user_id, bc.status, bc.issue_date, bc.due_date, bc.return_date,
+         bc.renewal_count, b.title as bookTitle, c.barcode as copyBarcode, br.name as branchName,
+         DATE_FORMAT(CURDATE(), '%Y-%m-%d') AS today
+  FROM books_circulation bc
+  JOIN books b ON bc.book_id = b.id
+  LEFT JOIN book_copies c ON bc.copy_id = c.id
+  LEFT JOIN branches br ON bc.branch_id = br.id
+`;
+
+// A patron's loan, with whether they can renew it themselves and why not
+const toPatronLoanResponse = async (db, row) => {
+  const blocked = row.status === 'issued' ? await checkRenewal(db, row) : null;
+  const dueDate = row.due_date?.toISOString().split('T')[0];
+  return {
+    id: String(row.id),
+    bookId: String(row.book_id),
+    bookTitle: row.bookTitle,
+    copyBarcode: row.copyBarcode,
+    branchName: row.branchName,
+    status: row.status,
+    issueDate: row.issue_date?.toISOString().split('T')[0],
+    dueDate,
+    returnDate: row.return_date?.toISOString().split('T')[0] || null,
+    overdue: row.status === 'issued' && dueDate < row.today,
+    renewalCount: row.renewal_count,
+    canRenew: row.status === 'issued' && !blocked,
+    renewBlockedReason: blocked?.message || null
+  };
+};
+
+// Current loans (anything not returned yet) and the loan history
+app.get('/api/patron/loans', requirePatron, async (req, res) => {
+  try {
+    const [rows] = await pool.query(
+      `${PATRON_LOAN_SELECT} WHERE bc.user_id = ? ORDER BY bc.issue_date DESC, bc.id DESC`,
+      [req.patron.id]
+    );
+    const loans = [];
+    for (const row of rows) {
+      loans.push(await toPatronLoanResponse(pool, row));
+    }
     res.json({
-      id,
-      bookName,
-      categoryId: categoryId ? String(categoryId) : null,
-      categoryName,
-      authorName: authorName || null,
-      requestDate,
-      status
+      current: loans.filter(loan => loan.status === 'issued').sort((a, b) => a.dueDate.localeCompare(b.dueDate)),
+      history: loans.filter(loan => loan.status !== 'issued')
     });
   } catch (error) {
     res.status(500).json({ error: error.message });
   }
 });
 
-app.delete('/api/book-requests/:id', async (req, res) => {
+app.post('/api/patron/loans/:id/renew', requirePatron, async (req, res) => {
+  const { id } = req.params;
+  await withCirculationTransaction(res, async (connection) => {
+    // Someone else's loan looks the same as no loan at all
+    const [owned] = await connection.query(
+      'SELECT id FROM books_circulation WHERE id = ? AND user_id = ?',
+      [id, req.patron.id]
+    );
+    if (owned.length === 0) {
+      throw new CirculationError('Loan not found', 'NOT_FOUND', 404);
+    }
+
+    const before = await snapshot(connection, 'issue', id);
+    const { fine } = await renewLoan(connection, req, id);
+    await recordAudit(connection, req, {
+      entity: 'issue', entityId: id, action: 'renew',
+      before, after: await snapshot(connection, 'issue', id)
+    });
+    return fine;
+  }, async (fine) => {
+    if (fine) {
+      await cache.deletePattern(CacheKeys.patterns.allUsers);
+    }
+    const [rows] = await pool.query(`${PATRON_LOAN_SELECT} WHERE bc.id = ?`, [id]);
+    res.json(await toPatronLoanResponse(pool, rows[0]));
+  });
+});
+
+app.get('/api/patron/holds', requirePatron, async (req, res) => {
   try {
-    const { id } = req.params;
-    await pool.query('DELETE FROM book_requests WHERE id = ?', [id]);
+    const [rows] = await pool.query(
+      `${HOLD_SELECT} WHERE h.user_id = ? AND h.status IN (?) ORDER BY h.status = 'waiting', h.created_at`,
+      [req.patron.id, ACTIVE_HOLD_STATUSES]
+    );
+    res.json(rows.map(toHoldResponse));
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// A signed-in patron joins a title's waitlist themselves
+app.post('/api/patron/holds', requirePatron, async (req, res) => {
+  const { bookId } = req.body;
+  if (typeof bookId !== 'string' && typeof bookId !== 'number') {
+    return res.status(400).json({ error: 'bookId is required' });
+  }
+
+  await withCirculationTransaction(res, async (connection) => {
+    const placed = await placeHold(connection, req, { bookId, userId: req.patron.id });
+    await recordAudit(connection, req, {
+      entity: 'hold', entityId: placed.id, action: 'place',
+      after: await snapshot(connection, 'hold', placed.id)
+    });
+    return placed;
+  }, async (hold) => {
+    res.json({ success: true, position: hold.position });
+  });
+});
+
+app.get('/api/patron/requests', requirePatron, async (req, res) => {
+  try {
+    const [rows] = await pool.query(
+      `${REQUEST_SELECT} WHERE br.user_id = ? ORDER BY br.request_date DESC, br.id DESC`,
+      [req.patron.id]
+    );
+    res.json(rows.map(toRequestResponse));
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.post('/api/patron/requests', requirePatron, async (req, res) => {
+  try {
+    const { values, error } = parseRequestInput(req.body);
+    if (error) {
+      return res.status(400).json({ error });
+    }
+    const [result] = await pool.query(
+      `INSERT INTO book_requests (book_name, title_key, category_id, author_name, request_date, status, user_id)
+       VALUES (?, ?, ?, ?, CURDATE(), 'pending', ?)`,
+      [values.bookName, requestTitleKey(values.bookName), values.categoryId, values.authorName, req.patron.id]
+    );
+    await recordAudit(pool, req, {
+      entity: 'book_request', entityId: result.insertId, action: 'create',
+      after: await snapshot(pool, 'book_request', result.insertId)
+    });
+
+    const [rows] = await pool.query(`${REQUEST_SELECT} WHERE br.id = ?`, [result.insertId]);
+    res.json(toRequestResponse(rows[0]));
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// The patron's own lent and donated books; who has them out is shown as far
+// as the owner settings allow
+app.get('/api/patron/owned-books', requirePatron, async (req, res) => {
+  try {
+    const { borrowerVisibility } = await getOwnerSettings(pool);
+    res.json({ borrowerVisibility, books: await getOwnedBooks(pool, req.patron.id, { borrowerVisibility }) });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Ask for a lent book back: every copy the library still holds
+app.post('/api/patron/owned-books/:id/reclaim', requirePatron, async (req, res) => {
+  const reason = optionalText(req.body.reason);
+  if (reason === undefined) {
+    return res.status(400).json({ error: 'Reason must be text' });
+  }
+  await withCirculationTransaction(
+    res,
+    (connection) => reclaimBook(connection, req, req.params.id, req.patron.id, { reason }),
+    async (ids) => {
+      const { sent } = await afterReclaim(ids);
+      res.json({ reclaimed: ids.length, borrowersNotified: sent });
+    }
+  );
+});
+
+app.post('/api/patron/reclaims/:id/cancel', requirePatron, async (req, res) => {
+  await withCirculationTransaction(res, async (connection) => {
+    await cancelReclaim(connection, req, req.params.id, req.patron.id);
+  }, async () => {
+    await cache.deletePattern(CacheKeys.patterns.allBooks);
     res.json({ success: true });
+  });
+});
+
+app.get('/api/patron/donations', requirePatron, async (req, res) => {
+  try {
+    res.json(await loadDonationReceipt(req.patron.id, req.query));
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// =============================================
+// AUDIT LOG ROUTES (read-only - entries are append-only)
+// =============================================
+app.get('/api/audit', requirePermission(Permissions.AUDIT_READ), async (req, res) => {
+  try {
+    const { entity, entityId, actorId, action, from, to } = req.query;
+    const limit = Math.min(parseInt(req.query.limit) || 50, 200);
+    const offset = parseInt(req.query.offset) || 0;
+
+    const conditions = [];
+    const params = [];
+    if (entity) { conditions.push('entity_type = ?'); params.push(entity); }
+    if (entityId) { conditions.push('entity_id = ?'); params.push(String(entityId)); }
+    if (actorId) { conditions.push('actor_id = ?'); params.push(actorId); }
+    if (action) { conditions.push('action = ?'); params.push(action); }
+    if (from) { conditions.push('created_at >= ?'); params.push(from); }
+    // `to` is an inclusive date, so compare against the start of the following day
+    if (to) { conditions.push('created_at < DATE_ADD(?, INTERVAL 1 DAY)'); params.push(to); }
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    const [[{ total }]] = await pool.query(`SELECT COUNT(*) AS total FROM audit_log ${where}`, params);
+    const [rows] = await pool.query(`
+      SELECT id, actor_id as actorId, actor_name as actorName, entity_type as entityType,
+             entity_id as entityId, action, before_json as \`before\`, after_json as \`after\`,
+             created_at as createdAt
+      FROM audit_log ${where}
+      ORDER BY created_at DESC, id DESC
+      LIMIT ? OFFSET ?
+    `, [...params, limit, offset]);
+
+    res.json({
+      total,
+      items: rows.map(row => ({
+        ...row,
+        id: String(row.id),
+        actorId: row.actorId ? String(row.actorId) : null,
+        createdAt: row.createdAt?.toISOString()
+      }))
+    });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.get('/api/audit/filters', requirePermission(Permissions.AUDIT_READ), async (req, res) => {
+  try {
+    const [actors] = await pool.query(`
+      SELECT DISTINCT actor_id as id, actor_name as name
+      FROM audit_log WHERE actor_id IS NOT NULL ORDER BY actor_name
+    `);
+    const [actions] = await pool.query('SELECT DISTINCT action FROM audit_log ORDER BY action');
+    res.json({
+      entities: [...AUDIT_ENTITIES, 'cache', 'settings'],
+      actors: actors.map(actor => ({ id: String(actor.id), name: actor.name })),
+      actions: actions.map(row => row.action)
+    });
   } catch (error) {
     res.status(500).json({ error: error.message });
   }
 });
 
 // Start server - listen on all interfaces
+// Tokens signed with the fallback secret in config.js could be forged by anyone
+if (authConfig.usingDevelopmentSecret) {
+  if (process.env.NODE_ENV !== 'development') {
+    console.error('AUTH_TOKEN_SECRET is not set. Set it in backend/.env (or NODE_ENV=development on your own machine) and restart.');
+    process.exit(1);
+  }
+  console.warn('WARNING: AUTH_TOKEN_SECRET is not set - signing tokens with the development fallback. Never run like this outside your own machine.');
+}
+
+// Sign-in codes written to the log would let anyone reading it sign in as any patron
+const patronCodesLogged = patronAuthConfig.codeChannel === 'console'
+  || (patronAuthConfig.codeChannel === 'email' && mailConfig.type === 'console');
+if (patronCodesLogged) {
+  if (process.env.NODE_ENV !== 'development') {
+    console.error('Patron sign-in codes would only be logged. Set PATRON_CODE_CHANNEL=email and MAIL_TRANSPORT=smtp in backend/.env (or NODE_ENV=development on your own machine) and restart.');
+    process.exit(1);
+  }
+  console.warn('WARNING: patron sign-in codes are only logged, not sent. Never run like this outside your own machine.');
+}
+
 app.listen(serverConfig.port, '0.0.0.0', () => {
   console.log(`Server running on http://localhost:${serverConfig.port}`);
 });
 
+// Expire holds left uncollected past their pickup window
+const HOLD_EXPIRY_INTERVAL_MS = 15 * 60 * 1000;
+const runHoldExpiry = () => expireHolds(pool)
+  .then(async (count) => {
+    if (count > 0) {
+      // Their copies passed on to the next patron or went back on the shelf
+      await cache.deletePattern(CacheKeys.patterns.allBooks);
+      console.log(`Expired ${count} uncollected hold(s)`);
+    }
+  })
+  .catch(error => console.error('Hold expiry failed:', error.message));
+runHoldExpiry();
+setInterval(runHoldExpiry, HOLD_EXPIRY_INTERVAL_MS);
+
+// Email courtesy and overdue notices (see notifications/reminders.js)
+const runReminders = () => sendDueReminders(pool, getMailTransport())
+  .then(({ sent, failed }) => (sent > 0 || failed > 0) && console.log(`Sent ${sent} loan reminder(s), ${failed} failed`))
+  .catch(error => console.error('Loan reminders failed:', error.message));
+runReminders();
+setInterval(runReminders, reminderConfig.intervalMinutes * 60 * 1000);
+
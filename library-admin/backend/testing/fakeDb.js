@@ -0,0 +1,49 @@
+/**
+ * A stand-in for a mysql2 pool or transaction connection in tests
+ *
+ * Each query is answered by the first handler whose pattern matches its SQL,
+ * with rows (or a write's result) or a function of the params returning
+ * them. A SELECT nothing matches finds no rows and any other statement
+ * changes one. Every query is kept in `queries`, in order, for the test to
+ * check what was written.
+ * @param {Array<[RegExp, any]>} [handlers] - [pattern, result or (params, sql) => result]
+ */
+export function fakeDb(handlers = []) {
+  const queries = [];
+  const db = {
+    queries,
+    committed: false,
+    rolledBack: false,
+    released: false,
+
+    async query(sql, params = []) {
+      queries.push({ sql, params });
+      const handler = handlers.find(([pattern]) => pattern.test(sql));
+      if (handler) {
+        const [, result] = handler;
+        return [typeof result === 'function' ? await result(params, sql) : result, []];
+      }
+      return [/^\s*SELECT/i.test(sql) ? [] : { insertId: queries.length, affectedRows: 1 }, []];
+    },
+
+    // The statements run so far that match a pattern
+    queriesMatching(pattern) {
+      return queries.filter(({ sql }) => pattern.test(sql));
+    },
+
+    async getConnection() {
+      return db;
+    },
+    async beginTransaction() {},
+    async commit() {
+      db.committed = true;
+    },
+    async rollback() {
+      db.rolledBack = true;
+    },
+    release() {
+      db.released = true;
+    }
+  };
+  return db;
+}
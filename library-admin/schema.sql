@@ -9,12 +9,16 @@ USE `n_lib`;
 
 -- =============================================
 -- USERS TABLE
+-- card_number: barcode on the patron's library card, scanned at the
+-- circulation station (optional)
 -- =============================================
 CREATE TABLE users (
     id BIGINT UNSIGNED NOT NULL AUTO_INCREMENT,
     name VARCHAR(255) NOT NULL,
     phone VARCHAR(50) NOT NULL,
     email VARCHAR(255) NOT NULL,
+    patron_type VARCHAR(20) NOT NULL DEFAULT 'adult',
+    card_number VARCHAR(50),
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
     PRIMARY KEY (id)
@@ -22,8 +26,31 @@ CREATE TABLE users (
 
 CREATE UNIQUE INDEX idx_users_email ON users(email);
 CREATE UNIQUE INDEX idx_users_phone ON users(phone);
+CREATE UNIQUE INDEX idx_users_card_number ON users(card_number);
 CREATE INDEX idx_users_name ON users(name);
 
+-- =============================================
+-- STAFF_USERS TABLE
+-- Library staff who can sign in to the admin dashboard
+-- role decides permissions (see backend/auth/permissions.js)
+-- Create accounts with: node backend/scripts/create-staff-user.js
+-- =============================================
+CREATE TABLE staff_users (
+    id BIGINT UNSIGNED NOT NULL AUTO_INCREMENT,
+    username VARCHAR(100) NOT NULL,
+    password_hash VARCHAR(255) NOT NULL,
+    name VARCHAR(255) NOT NULL,
+    role ENUM('admin', 'librarian', 'volunteer', 'auditor') NOT NULL DEFAULT 'volunteer',
+    is_active TINYINT(1) NOT NULL DEFAULT 1,
+    token_version INT UNSIGNED NOT NULL DEFAULT 0,
+    last_login_at TIMESTAMP NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    PRIMARY KEY (id)
+);
+
+CREATE UNIQUE INDEX idx_staff_users_username ON staff_users(username);
+
 -- =============================================
 -- CATEGORIES TABLE
 -- =============================================
@@ -38,6 +65,7 @@ CREATE TABLE categories (
 );
 
 CREATE INDEX idx_categories_name ON categories(name);
+CREATE FULLTEXT INDEX ft_categories_name ON categories(name);
 
 -- =============================================
 -- WRITERS TABLE
@@ -55,25 +83,33 @@ CREATE TABLE writers (
 
 CREATE INDEX idx_writers_name ON writers(name);
 CREATE UNIQUE INDEX idx_writers_name_nationality ON writers(name, nationality);
+CREATE FULLTEXT INDEX ft_writers_name ON writers(name);
+CREATE FULLTEXT INDEX ft_writers_bio ON writers(bio);
 
 -- =============================================
 -- BOOKS TABLE
+-- total_copies/available_copies are derived from book_copies
+-- (see backend/circulation/copies.js), never edited directly
+-- owner_id: the patron who lent the book to the library (ownership 'lent',
+-- theirs to reclaim) or gave it (ownership 'donated' on donated_at)
 -- =============================================
 CREATE TABLE books (
     id BIGINT UNSIGNED NOT NULL AUTO_INCREMENT,
     title VARCHAR(500) NOT NULL,
     isbn VARCHAR(20) NOT NULL,
     label_number VARCHAR(50),
-    barcode VARCHAR(100),
     publication_year SMALLINT UNSIGNED,
-    total_copies INT UNSIGNED NOT NULL DEFAULT 1,
-    available_copies INT UNSIGNED NOT NULL DEFAULT 1,
+    total_copies INT UNSIGNED NOT NULL DEFAULT 0,
+    available_copies INT UNSIGNED NOT NULL DEFAULT 0,
     image_url VARCHAR(1000),
     description TEXT,
     owner_id BIGINT UNSIGNED,
+    ownership ENUM('lent', 'donated') NOT NULL DEFAULT 'lent',
+    donated_at DATE,
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
     book_type VARCHAR(45),
+    language VARCHAR(50),
     PRIMARY KEY (id),
     FOREIGN KEY (owner_id) REFERENCES users(id) ON DELETE SET NULL
 );
@@ -81,9 +117,67 @@ CREATE TABLE books (
 CREATE INDEX idx_books_title ON books(title);
 CREATE INDEX idx_books_isbn ON books(isbn);
 CREATE INDEX idx_books_label_number ON books(label_number);
-CREATE INDEX idx_books_barcode ON books(barcode);
 CREATE INDEX idx_books_owner_id ON books(owner_id);
 CREATE INDEX idx_books_publication_year ON books(publication_year);
+CREATE INDEX idx_books_language ON books(language);
+-- Catalog search (backend/catalog/search.js) weighs each field on its own,
+-- so each has its own FULLTEXT index
+CREATE FULLTEXT INDEX ft_books_title ON books(title);
+CREATE FULLTEXT INDEX ft_books_description ON books(description);
+
+-- =============================================
+-- BRANCHES TABLE
+-- The library's locations. Branches are deactivated rather than deleted,
+-- since copies and loans keep pointing at them
+-- =============================================
+CREATE TABLE branches (
+    id BIGINT UNSIGNED NOT NULL AUTO_INCREMENT,
+    name VARCHAR(100) NOT NULL,
+    code VARCHAR(20) NOT NULL,
+    address VARCHAR(255),
+    is_active TINYINT(1) NOT NULL DEFAULT 1,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    PRIMARY KEY (id)
+);
+
+CREATE UNIQUE INDEX idx_branches_code ON branches(code);
+CREATE UNIQUE INDEX idx_branches_name ON branches(name);
+
+INSERT INTO branches (name, code) VALUES ('Main Library', 'MAIN');
+
+-- =============================================
+-- BOOK_COPIES TABLE
+-- One row per physical item of a book
+-- home_branch_id: the branch whose collection it belongs to
+-- current_branch_id: where it is now (or was lent from, or is heading to
+-- while in_transit - see branch_transfers)
+-- Existing databases: cd backend && node scripts/migrate-book-copies.js,
+-- then node scripts/migrate-branches.js
+-- =============================================
+CREATE TABLE book_copies (
+    id BIGINT UNSIGNED NOT NULL AUTO_INCREMENT,
+    book_id BIGINT UNSIGNED NOT NULL,
+    barcode VARCHAR(100) NOT NULL,
+    accession_number VARCHAR(50),
+    shelf_location VARCHAR(100),
+    `condition` ENUM('new', 'good', 'fair', 'poor', 'damaged') NOT NULL DEFAULT 'good',
+    status ENUM('available', 'on_loan', 'lost', 'in_repair', 'withdrawn', 'in_transit') NOT NULL DEFAULT 'available',
+    home_branch_id BIGINT UNSIGNED NOT NULL,
+    current_branch_id BIGINT UNSIGNED NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    PRIMARY KEY (id),
+    FOREIGN KEY (book_id) REFERENCES books(id) ON DELETE CASCADE,
+    FOREIGN KEY (home_branch_id) REFERENCES branches(id),
+    FOREIGN KEY (current_branch_id) REFERENCES branches(id)
+);
+
+CREATE UNIQUE INDEX idx_book_copies_barcode ON book_copies(barcode);
+CREATE UNIQUE INDEX idx_book_copies_accession_number ON book_copies(accession_number);
+CREATE INDEX idx_book_copies_book_status ON book_copies(book_id, status);
+CREATE INDEX idx_book_copies_home_branch_id ON book_copies(home_branch_id);
+CREATE INDEX idx_book_copies_current_branch_id ON book_copies(current_branch_id);
 
 -- =============================================
 -- BOOK_CATEGORIES (Junction Table)
@@ -114,46 +208,539 @@ CREATE INDEX idx_book_writers_writer_id ON book_writers(writer_id);
 -- =============================================
 -- BOOKS_CIRCULATION TABLE
 -- Tracks book issues and returns
+-- status: issued -> returned, or lost / damaged / claimed_returned /
+-- written_off (see backend/circulation/losses.js for the allowed moves);
+-- status_note is staff's note on the last such change
+-- idempotency_key is the Idempotency-Key the issuing request carried, so a
+-- retried or double-clicked issue returns the same loan
+-- branch_id is the branch that issued it
 -- =============================================
 CREATE TABLE books_circulation (
     id BIGINT UNSIGNED NOT NULL AUTO_INCREMENT,
     book_id BIGINT UNSIGNED NOT NULL,
+    copy_id BIGINT UNSIGNED,
     user_id BIGINT UNSIGNED NOT NULL,
     issue_date DATE NOT NULL,
     due_date DATE NOT NULL,
     return_date DATE,
-    status ENUM('issued', 'returned') NOT NULL DEFAULT 'issued',
+    status ENUM('issued', 'returned', 'lost', 'damaged', 'claimed_returned', 'written_off') NOT NULL DEFAULT 'issued',
+    status_note VARCHAR(500),
+    status_changed_at TIMESTAMP NULL,
+    renewal_count INT UNSIGNED NOT NULL DEFAULT 0,
+    last_renewed_at TIMESTAMP NULL,
+    idempotency_key VARCHAR(64),
+    branch_id BIGINT UNSIGNED,
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
     PRIMARY KEY (id),
+    UNIQUE INDEX idx_books_circulation_idempotency_key (idempotency_key),
     FOREIGN KEY (book_id) REFERENCES books(id) ON DELETE CASCADE,
-    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+    FOREIGN KEY (copy_id) REFERENCES book_copies(id) ON DELETE SET NULL,
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+    FOREIGN KEY (branch_id) REFERENCES branches(id)
 );
 
 CREATE INDEX idx_books_circulation_book_id ON books_circulation(book_id);
+CREATE INDEX idx_books_circulation_copy_id ON books_circulation(copy_id);
 CREATE INDEX idx_books_circulation_user_id ON books_circulation(user_id);
 CREATE INDEX idx_books_circulation_status ON books_circulation(status);
 CREATE INDEX idx_books_circulation_issue_date ON books_circulation(issue_date);
 CREATE INDEX idx_books_circulation_due_date ON books_circulation(due_date);
+CREATE INDEX idx_books_circulation_branch_id ON books_circulation(branch_id);
+
+-- =============================================
+-- LOAN_RENEWALS TABLE
+-- One row per renewal of a books_circulation loan
+-- =============================================
+CREATE TABLE loan_renewals (
+    id BIGINT UNSIGNED NOT NULL AUTO_INCREMENT,
+    issue_id BIGINT UNSIGNED NOT NULL,
+    previous_due_date DATE NOT NULL,
+    new_due_date DATE NOT NULL,
+    renewed_by BIGINT UNSIGNED,
+    renewed_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (id),
+    FOREIGN KEY (issue_id) REFERENCES books_circulation(id) ON DELETE CASCADE,
+    FOREIGN KEY (renewed_by) REFERENCES staff_users(id) ON DELETE SET NULL
+);
+
+CREATE INDEX idx_loan_renewals_issue_id ON loan_renewals(issue_id);
 
 -- =============================================
 -- BOOK_REQUESTS TABLE
 -- Tracks user requests for new books
+-- user_id is the patron who asked (none for anonymous requests)
+-- title_key groups requests for the same title; book_id is the book added
+-- for a fulfilled request, rejection_reason why a rejected one was turned
+-- down (see backend/circulation/requests.js)
+-- notified_at: when the requester was emailed about the current status
 -- =============================================
 CREATE TABLE book_requests (
     id BIGINT UNSIGNED NOT NULL AUTO_INCREMENT,
     book_name VARCHAR(500) NOT NULL,
+    title_key VARCHAR(500) NOT NULL,
     category_id BIGINT UNSIGNED,
     author_name VARCHAR(255),
     request_date DATE NOT NULL,
     status ENUM('pending', 'fulfilled', 'rejected') NOT NULL DEFAULT 'pending',
+    user_id BIGINT UNSIGNED,
+    book_id BIGINT UNSIGNED,
+    rejection_reason VARCHAR(500),
+    status_changed_at TIMESTAMP NULL,
+    status_changed_by BIGINT UNSIGNED,
+    notified_at TIMESTAMP NULL,
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
     PRIMARY KEY (id),
-    FOREIGN KEY (category_id) REFERENCES categories(id) ON DELETE SET NULL
+    FOREIGN KEY (category_id) REFERENCES categories(id) ON DELETE SET NULL,
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE SET NULL,
+    FOREIGN KEY (book_id) REFERENCES books(id) ON DELETE SET NULL,
+    FOREIGN KEY (status_changed_by) REFERENCES staff_users(id) ON DELETE SET NULL
 );
 
 CREATE INDEX idx_book_requests_category_id ON book_requests(category_id);
+CREATE INDEX idx_book_requests_user_id ON book_requests(user_id);
+CREATE INDEX idx_book_requests_title_key ON book_requests(title_key, status);
 CREATE INDEX idx_book_requests_status ON book_requests(status);
 CREATE INDEX idx_book_requests_request_date ON book_requests(request_date);
 
+
+-- =============================================
+-- AUDIT_LOG TABLE
+-- Append-only record of every catalog, circulation and staff change
+-- before_json/after_json hold full snapshots of the affected row
+-- =============================================
+CREATE TABLE audit_log (
+    id BIGINT UNSIGNED NOT NULL AUTO_INCREMENT,
+    actor_id BIGINT UNSIGNED,
+    actor_name VARCHAR(255),
+    entity_type VARCHAR(50) NOT NULL,
+    entity_id VARCHAR(64) NOT NULL,
+    action VARCHAR(50) NOT NULL,
+    before_json JSON,
+    after_json JSON,
+    created_at TIMESTAMP(3) DEFAULT CURRENT_TIMESTAMP(3),
+    PRIMARY KEY (id)
+);
+
+CREATE INDEX idx_audit_log_entity ON audit_log(entity_type, entity_id);
+CREATE INDEX idx_audit_log_actor_id ON audit_log(actor_id);
+CREATE INDEX idx_audit_log_created_at ON audit_log(created_at);
+
+-- Entries can never be edited or removed, not even by the application user
+CREATE TRIGGER trg_audit_log_no_update BEFORE UPDATE ON audit_log
+FOR EACH ROW SIGNAL SQLSTATE '45000' SET MESSAGE_TEXT = 'audit_log is append-only';
+
+CREATE TRIGGER trg_audit_log_no_delete BEFORE DELETE ON audit_log
+FOR EACH ROW SIGNAL SQLSTATE '45000' SET MESSAGE_TEXT = 'audit_log is append-only';
+
+-- =============================================
+-- LIBRARY_SETTINGS TABLE
+-- Key/value settings editable from the admin dashboard
+-- (e.g. fines.block_threshold)
+-- =============================================
+CREATE TABLE library_settings (
+    setting_key VARCHAR(100) NOT NULL,
+    setting_value VARCHAR(255),
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    PRIMARY KEY (setting_key)
+);
+
+-- =============================================
+-- FINE_RULES TABLE
+-- Overdue fine rates. A rule with no book_type and no category_id is the
+-- library default; book_type rules override category rules, which override
+-- the default (see backend/circulation/fines.js)
+-- =============================================
+CREATE TABLE fine_rules (
+    id BIGINT UNSIGNED NOT NULL AUTO_INCREMENT,
+    book_type VARCHAR(45),
+    category_id BIGINT UNSIGNED,
+    daily_rate DECIMAL(10, 2) NOT NULL DEFAULT 0.00,
+    grace_days INT UNSIGNED NOT NULL DEFAULT 0,
+    max_amount DECIMAL(10, 2),
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    PRIMARY KEY (id),
+    FOREIGN KEY (category_id) REFERENCES categories(id) ON DELETE CASCADE
+);
+
+CREATE INDEX idx_fine_rules_book_type ON fine_rules(book_type);
+CREATE INDEX idx_fine_rules_category_id ON fine_rules(category_id);
+
+-- =============================================
+-- LOAN_POLICIES TABLE
+-- Borrowing rules scoped by patron type, category and book type (NULL = any).
+-- NULL fields are left to less specific policies, then to the defaults in
+-- backend/circulation/policies.js
+-- =============================================
+CREATE TABLE loan_policies (
+    id BIGINT UNSIGNED NOT NULL AUTO_INCREMENT,
+    patron_type VARCHAR(20),
+    category_id BIGINT UNSIGNED,
+    book_type VARCHAR(45),
+    loan_days INT UNSIGNED,
+    max_loans INT UNSIGNED,
+    max_renewals INT UNSIGNED,
+    circulates BOOLEAN,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    PRIMARY KEY (id),
+    FOREIGN KEY (category_id) REFERENCES categories(id) ON DELETE CASCADE
+);
+
+CREATE INDEX idx_loan_policies_patron_type ON loan_policies(patron_type);
+CREATE INDEX idx_loan_policies_category_id ON loan_policies(category_id);
+CREATE INDEX idx_loan_policies_book_type ON loan_policies(book_type);
+
+-- =============================================
+-- FINE_LEDGER TABLE
+-- Fines charged to users and the payments/waivers against them
+-- Balance = SUM(fine) - SUM(payment) - SUM(waiver)
+-- charge_type: what a fine is for (late return, lost book replacement,
+-- damage); on a waiver, which kind of charge it reverses
+-- =============================================
+CREATE TABLE fine_ledger (
+    id BIGINT UNSIGNED NOT NULL AUTO_INCREMENT,
+    user_id BIGINT UNSIGNED NOT NULL,
+    issue_id BIGINT UNSIGNED,
+    entry_type ENUM('fine', 'payment', 'waiver') NOT NULL,
+    charge_type ENUM('late', 'replacement', 'damage'),
+    amount DECIMAL(10, 2) NOT NULL,
+    note VARCHAR(500),
+    created_by BIGINT UNSIGNED,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (id),
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+    FOREIGN KEY (issue_id) REFERENCES books_circulation(id) ON DELETE SET NULL,
+    FOREIGN KEY (created_by) REFERENCES staff_users(id) ON DELETE SET NULL
+);
+
+CREATE INDEX idx_fine_ledger_user_id ON fine_ledger(user_id);
+CREATE INDEX idx_fine_ledger_issue_id ON fine_ledger(issue_id);
+
+-- =============================================
+-- HOLDS TABLE
+-- FIFO waitlist for titles with no available copies
+-- status: waiting (in the queue) -> ready (copy on the hold shelf until
+-- expires_at) -> fulfilled (issued), or cancelled/expired
+-- =============================================
+CREATE TABLE holds (
+    id BIGINT UNSIGNED NOT NULL AUTO_INCREMENT,
+    book_id BIGINT UNSIGNED NOT NULL,
+    user_id BIGINT UNSIGNED NOT NULL,
+    status ENUM('waiting', 'ready', 'fulfilled', 'cancelled', 'expired') NOT NULL DEFAULT 'waiting',
+    copy_id BIGINT UNSIGNED,
+    ready_at TIMESTAMP NULL,
+    expires_at TIMESTAMP NULL,
+    issue_id BIGINT UNSIGNED,
+    created_by BIGINT UNSIGNED,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    PRIMARY KEY (id),
+    FOREIGN KEY (book_id) REFERENCES books(id) ON DELETE CASCADE,
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+    FOREIGN KEY (copy_id) REFERENCES book_copies(id) ON DELETE SET NULL,
+    FOREIGN KEY (issue_id) REFERENCES books_circulation(id) ON DELETE SET NULL,
+    FOREIGN KEY (created_by) REFERENCES staff_users(id) ON DELETE SET NULL
+);
+
+CREATE INDEX idx_holds_book_queue ON holds(book_id, status, created_at);
+CREATE INDEX idx_holds_user_id ON holds(user_id);
+CREATE INDEX idx_holds_copy_id ON holds(copy_id);
+CREATE INDEX idx_holds_expires_at ON holds(status, expires_at);
+
+-- =============================================
+-- REMINDER_NOTICES TABLE
+-- Emails reminding patrons about their loans. offset_days is relative to the
+-- due date: negative for a courtesy notice before it, positive for overdue
+-- notices after it. subject and body are templates with {{placeholders}}
+-- (see backend/notifications/templates.js)
+-- =============================================
+CREATE TABLE reminder_notices (
+    id BIGINT UNSIGNED NOT NULL AUTO_INCREMENT,
+    name VARCHAR(100) NOT NULL,
+    offset_days INT NOT NULL,
+    subject VARCHAR(255) NOT NULL,
+    body TEXT NOT NULL,
+    active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    PRIMARY KEY (id)
+);
+
+CREATE UNIQUE INDEX idx_reminder_notices_offset_days ON reminder_notices(offset_days);
+
+INSERT INTO reminder_notices (name, offset_days, subject, body) VALUES
+('Courtesy notice', -3, '{{bookTitle}} is due back on {{dueDate}}',
+ 'Dear {{patronName}},\n\nThis is a friendly reminder that "{{bookTitle}}" is due back on {{dueDate}}, in {{daysUntilDue}} day(s).\n\nPlease return or renew it by then to avoid a late fine.\n\n{{libraryName}}'),
+('First overdue notice', 1, 'Overdue: {{bookTitle}}',
+ 'Dear {{patronName}},\n\n"{{bookTitle}}" was due back on {{dueDate}} and is now {{daysOverdue}} day(s) overdue. Late fines are being charged until it is returned.\n\nPlease return it as soon as you can.\n\n{{libraryName}}'),
+('Second overdue notice', 7, 'Second notice: {{bookTitle}} is {{daysOverdue}} days overdue',
+ 'Dear {{patronName}},\n\nOur records show "{{bookTitle}}" (copy {{copyBarcode}}) is still on loan to you, {{daysOverdue}} days after it was due on {{dueDate}}.\n\nPlease return it now. Late fines continue to be charged.\n\n{{libraryName}}'),
+('Final notice', 21, 'Final notice: {{bookTitle}}',
+ 'Dear {{patronName}},\n\n"{{bookTitle}}" is now {{daysOverdue}} days overdue. If it is not returned soon it will be declared lost and you will be charged for a replacement.\n\n{{libraryName}}');
+
+-- =============================================
+-- REMINDER_LOG TABLE
+-- Every reminder sent, one row per notice per loan per due date (so a
+-- renewal starts the notices over, but nothing is sent twice)
+-- status: sending (claimed, going out now) -> sent or failed; failed sends
+-- are retried (see backend/notifications/reminders.js). Notices that have
+-- been sent can be switched off but not deleted, so the log stays whole
+-- =============================================
+CREATE TABLE reminder_log (
+    id BIGINT UNSIGNED NOT NULL AUTO_INCREMENT,
+    issue_id BIGINT UNSIGNED NOT NULL,
+    notice_id BIGINT UNSIGNED NOT NULL,
+    due_date DATE NOT NULL,
+    user_id BIGINT UNSIGNED NOT NULL,
+    email VARCHAR(255) NOT NULL,
+    subject VARCHAR(255) NOT NULL,
+    body TEXT NOT NULL,
+    status ENUM('sending', 'sent', 'failed') NOT NULL DEFAULT 'sending',
+    attempts INT UNSIGNED NOT NULL DEFAULT 1,
+    error VARCHAR(500),
+    message_id VARCHAR(255),
+    sent_at TIMESTAMP NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    PRIMARY KEY (id),
+    FOREIGN KEY (issue_id) REFERENCES books_circulation(id) ON DELETE CASCADE,
+    FOREIGN KEY (notice_id) REFERENCES reminder_notices(id),
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+CREATE UNIQUE INDEX idx_reminder_log_send ON reminder_log(issue_id, notice_id, due_date);
+CREATE INDEX idx_reminder_log_notice_id ON reminder_log(notice_id);
+CREATE INDEX idx_reminder_log_user_id ON reminder_log(user_id);
+CREATE INDEX idx_reminder_log_created_at ON reminder_log(created_at);
+
+-- =============================================
+-- OPENING_HOURS TABLE
+-- The library's weekly hours, one row per weekday (0 = Sunday). A weekday
+-- with is_open false is closed every week; due dates roll forward past
+-- closed days (see backend/circulation/calendar.js)
+-- =============================================
+CREATE TABLE opening_hours (
+    weekday TINYINT UNSIGNED NOT NULL,
+    is_open BOOLEAN NOT NULL DEFAULT TRUE,
+    opens_at TIME,
+    closes_at TIME,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    PRIMARY KEY (weekday)
+);
+
+INSERT INTO opening_hours (weekday, is_open, opens_at, closes_at) VALUES
+(0, FALSE, NULL, NULL),
+(1, TRUE, '09:00', '18:00'),
+(2, TRUE, '09:00', '18:00'),
+(3, TRUE, '09:00', '18:00'),
+(4, TRUE, '09:00', '18:00'),
+(5, TRUE, '09:00', '18:00'),
+(6, TRUE, '10:00', '14:00');
+
+-- =============================================
+-- LIBRARY_CLOSURES TABLE
+-- One-off days the library is closed (holidays, stocktaking)
+-- =============================================
+CREATE TABLE library_closures (
+    id BIGINT UNSIGNED NOT NULL AUTO_INCREMENT,
+    closed_on DATE NOT NULL,
+    reason VARCHAR(255),
+    created_by BIGINT UNSIGNED,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (id),
+    FOREIGN KEY (created_by) REFERENCES staff_users(id) ON DELETE SET NULL
+);
+
+CREATE UNIQUE INDEX idx_library_closures_closed_on ON library_closures(closed_on);
+
+-- =============================================
+-- BRANCH_TRANSFERS TABLE
+-- Moving a copy between branches
+-- status: requested -> in_transit (sent; the copy is in_transit) ->
+-- received (the copy is on the shelf at to_branch_id), or cancelled
+-- before it is sent (see backend/circulation/branches.js)
+-- =============================================
+CREATE TABLE branch_transfers (
+    id BIGINT UNSIGNED NOT NULL AUTO_INCREMENT,
+    copy_id BIGINT UNSIGNED NOT NULL,
+    from_branch_id BIGINT UNSIGNED NOT NULL,
+    to_branch_id BIGINT UNSIGNED NOT NULL,
+    status ENUM('requested', 'in_transit', 'received', 'cancelled') NOT NULL DEFAULT 'requested',
+    reason VARCHAR(255),
+    requested_by BIGINT UNSIGNED,
+    sent_by BIGINT UNSIGNED,
+    received_by BIGINT UNSIGNED,
+    requested_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    sent_at TIMESTAMP NULL,
+    received_at TIMESTAMP NULL,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    PRIMARY KEY (id),
+    FOREIGN KEY (copy_id) REFERENCES book_copies(id) ON DELETE CASCADE,
+    FOREIGN KEY (from_branch_id) REFERENCES branches(id),
+    FOREIGN KEY (to_branch_id) REFERENCES branches(id),
+    FOREIGN KEY (requested_by) REFERENCES staff_users(id) ON DELETE SET NULL,
+    FOREIGN KEY (sent_by) REFERENCES staff_users(id) ON DELETE SET NULL,
+    FOREIGN KEY (received_by) REFERENCES staff_users(id) ON DELETE SET NULL
+);
+
+CREATE INDEX idx_branch_transfers_copy_status ON branch_transfers(copy_id, status);
+CREATE INDEX idx_branch_transfers_from_status ON branch_transfers(from_branch_id, status);
+CREATE INDEX idx_branch_transfers_to_status ON branch_transfers(to_branch_id, status);
+
+-- =============================================
+-- PATRON_LOGIN_CODES TABLE
+-- One-time codes patrons sign in to the portal with
+-- Only a hash of the code is kept; a code is spent once used_at is set,
+-- and dead once it expires or reaches the attempt limit
+-- (see backend/auth/patronCodes.js)
+-- =============================================
+CREATE TABLE patron_login_codes (
+    id BIGINT UNSIGNED NOT NULL AUTO_INCREMENT,
+    user_id BIGINT UNSIGNED NOT NULL,
+    code_hash CHAR(64) NOT NULL,
+    channel VARCHAR(20) NOT NULL,
+    attempts INT NOT NULL DEFAULT 0,
+    expires_at TIMESTAMP NOT NULL,
+    used_at TIMESTAMP NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (id),
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+CREATE INDEX idx_patron_login_codes_user_id ON patron_login_codes(user_id, created_at);
+
+-- =============================================
+-- VENDORS TABLE
+-- Booksellers and distributors the library orders from. Vendors are
+-- deactivated rather than deleted, since past orders point at them
+-- =============================================
+CREATE TABLE vendors (
+    id BIGINT UNSIGNED NOT NULL AUTO_INCREMENT,
+    name VARCHAR(255) NOT NULL,
+    contact_name VARCHAR(255),
+    email VARCHAR(255),
+    phone VARCHAR(50),
+    address VARCHAR(500),
+    notes TEXT,
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    PRIMARY KEY (id)
+);
+
+CREATE UNIQUE INDEX idx_vendors_name ON vendors(name);
+
+-- =============================================
+-- PURCHASE_ORDERS TABLE
+-- An order placed with a vendor, charged to a fiscal year's budgets
+-- status: draft -> ordered -> partially_received -> received, or
+-- cancelled before anything is received (see backend/acquisitions/orders.js)
+-- Copies received go to branch_id
+-- =============================================
+CREATE TABLE purchase_orders (
+    id BIGINT UNSIGNED NOT NULL AUTO_INCREMENT,
+    vendor_id BIGINT UNSIGNED NOT NULL,
+    branch_id BIGINT UNSIGNED NOT NULL,
+    fiscal_year SMALLINT UNSIGNED NOT NULL,
+    status ENUM('draft', 'ordered', 'partially_received', 'received', 'cancelled') NOT NULL DEFAULT 'draft',
+    vendor_reference VARCHAR(100),
+    notes TEXT,
+    created_by BIGINT UNSIGNED,
+    ordered_by BIGINT UNSIGNED,
+    ordered_at TIMESTAMP NULL,
+    received_at TIMESTAMP NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    PRIMARY KEY (id),
+    FOREIGN KEY (vendor_id) REFERENCES vendors(id),
+    FOREIGN KEY (branch_id) REFERENCES branches(id),
+    FOREIGN KEY (created_by) REFERENCES staff_users(id) ON DELETE SET NULL,
+    FOREIGN KEY (ordered_by) REFERENCES staff_users(id) ON DELETE SET NULL
+);
+
+CREATE INDEX idx_purchase_orders_status ON purchase_orders(status);
+CREATE INDEX idx_purchase_orders_fiscal_year ON purchase_orders(fiscal_year, status);
+
+-- =============================================
+-- PURCHASE_ORDER_LINES TABLE
+-- One title on an order. book_id is set once the title is in the catalog
+-- (linked when the line is added, or created when it is first received);
+-- request_id is the book request the line was ordered for
+-- =============================================
+CREATE TABLE purchase_order_lines (
+    id BIGINT UNSIGNED NOT NULL AUTO_INCREMENT,
+    order_id BIGINT UNSIGNED NOT NULL,
+    title VARCHAR(500) NOT NULL,
+    isbn VARCHAR(20),
+    author_name VARCHAR(255),
+    category_id BIGINT UNSIGNED,
+    book_type VARCHAR(45),
+    unit_price DECIMAL(10, 2) NOT NULL DEFAULT 0.00,
+    quantity INT UNSIGNED NOT NULL DEFAULT 1,
+    quantity_received INT UNSIGNED NOT NULL DEFAULT 0,
+    book_id BIGINT UNSIGNED,
+    request_id BIGINT UNSIGNED,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    PRIMARY KEY (id),
+    FOREIGN KEY (order_id) REFERENCES purchase_orders(id) ON DELETE CASCADE,
+    FOREIGN KEY (category_id) REFERENCES categories(id) ON DELETE SET NULL,
+    FOREIGN KEY (book_id) REFERENCES books(id) ON DELETE SET NULL,
+    FOREIGN KEY (request_id) REFERENCES book_requests(id) ON DELETE SET NULL
+);
+
+CREATE INDEX idx_purchase_order_lines_order_id ON purchase_order_lines(order_id);
+CREATE INDEX idx_purchase_order_lines_request_id ON purchase_order_lines(request_id);
+
+-- =============================================
+-- BUDGETS TABLE
+-- How much a fiscal year allows for buying each category's books
+-- (fiscal years start in the month set by acquisitions.fiscal_year_start_month)
+-- =============================================
+CREATE TABLE budgets (
+    id BIGINT UNSIGNED NOT NULL AUTO_INCREMENT,
+    fiscal_year SMALLINT UNSIGNED NOT NULL,
+    category_id BIGINT UNSIGNED NOT NULL,
+    amount DECIMAL(12, 2) NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    PRIMARY KEY (id),
+    FOREIGN KEY (category_id) REFERENCES categories(id) ON DELETE CASCADE
+);
+
+CREATE UNIQUE INDEX idx_budgets_year_category ON budgets(fiscal_year, category_id);
+
+-- =============================================
+-- COPY_RECLAIMS TABLE
+-- An owner taking back a copy of a book they lent the library
+-- status: open (the copy can't be issued or held; a borrower who has it is
+-- asked to return it) -> completed (handed back, the copy is withdrawn),
+-- or cancelled (see backend/circulation/owners.js)
+-- borrower_notified_at: when the borrower was last asked to return it
+-- =============================================
+CREATE TABLE copy_reclaims (
+    id BIGINT UNSIGNED NOT NULL AUTO_INCREMENT,
+    copy_id BIGINT UNSIGNED NOT NULL,
+    owner_id BIGINT UNSIGNED,
+    status ENUM('open', 'completed', 'cancelled') NOT NULL DEFAULT 'open',
+    reason VARCHAR(500),
+    requested_by BIGINT UNSIGNED,
+    requested_by_owner TINYINT(1) NOT NULL DEFAULT 0,
+    borrower_notified_at TIMESTAMP NULL,
+    closed_by BIGINT UNSIGNED,
+    closed_at TIMESTAMP NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    PRIMARY KEY (id),
+    FOREIGN KEY (copy_id) REFERENCES book_copies(id) ON DELETE CASCADE,
+    FOREIGN KEY (owner_id) REFERENCES users(id) ON DELETE SET NULL,
+    FOREIGN KEY (requested_by) REFERENCES staff_users(id) ON DELETE SET NULL,
+    FOREIGN KEY (closed_by) REFERENCES staff_users(id) ON DELETE SET NULL
+);
+
+CREATE INDEX idx_copy_reclaims_copy_status ON copy_reclaims(copy_id, status);
+CREATE INDEX idx_copy_reclaims_owner_id ON copy_reclaims(owner_id);
+CREATE INDEX idx_copy_reclaims_status ON copy_reclaims(status);
@@ -9,9 +9,53 @@ import { Books } from './components/Books';
 import { BookDetail } from './components/BookDetail';
 import { IssueBook } from './components/IssueBook';
 import { ReceiveBook } from './components/ReceiveBook';
+import { CirculationStation } from './components/CirculationStation';
 import { SearchBooks } from './components/SearchBooks';
-import { cacheUtils } from './utils/api';
-import { apiConfig } from './config';
+import { StaffUsers } from './components/StaffUsers';
+import { AuditLog } from './components/AuditLog';
+import { CirculationSettings } from './components/CirculationSettings';
+import { Reminders } from './components/Reminders';
+import { LibraryCalendar } from './components/LibraryCalendar';
+import { Branches } from './components/Branches';
+import { Transfers } from './components/Transfers';
+import { BookRequests } from './components/BookRequests';
+import { PatronLogin } from './components/PatronLogin';
+import { PatronPortal } from './components/PatronPortal';
+import { Acquisitions } from './components/Acquisitions';
+import { Owners } from './components/Owners';
+import { authApi, branchesApi, patronApi, cacheUtils } from './utils/api';
+import { readSearchUrl, type SearchFilters } from './utils/searchUrl';
+
+export type StaffRole = 'admin' | 'librarian' | 'volunteer' | 'auditor';
+
+export type Permission =
+  | 'catalog:write'
+  | 'catalog:delete'
+  | 'users:write'
+  | 'users:delete'
+  | 'circulation:issue'
+  | 'circulation:receive'
+  | 'circulation:configure'
+  | 'fines:collect'
+  | 'fines:waive'
+  | 'requests:manage'
+  | 'cache:clear'
+  | 'staff:manage'
+  | 'audit:read'
+  | 'calendar:manage'
+  | 'branches:manage'
+  | 'acquisitions:manage';
+
+export type StaffUser = {
+  id: string;
+  username: string;
+  name: string;
+  role: StaffRole;
+  permissions: Permission[];
+  branch?: { id: string; name: string } | null; // where they're working this session
+  isActive?: boolean;
+  lastLoginAt?: string | null;
+};
 
 export type Category = {
   id: string;
@@ -33,31 +77,114 @@ export type User = {
   name: string;
   phone: string;
   email: string;
+  patronType?: PatronType;
+  cardNumber?: string | null; // barcode on their library card
+  fineBalance?: number;
 };
 
+// A patron found at the circulation station, with what staff should know before lending
+export type PatronLookup = User & {
+  fineBalance: number;
+  onLoan: number;
+  overdue: number;
+  readyHolds: number;
+};
+
+export type PatronType = 'adult' | 'student' | 'junior' | 'senior';
+
 export type Book = {
   id: string;
   title: string;
   isbn: string;
   labelNumber: string;
-  barcode?: string;
   publicationYear: number;
-  totalCopies: number;
+  totalCopies: number; // derived from the book's copies
   availableCopies: number;
   imageUrl: string;
   description: string;
   categoryIds: string[];
+  categoryNames: string[]; // in the same order as categoryIds
   writerIds: string[];
+  writerNames: string[]; // in the same order as writerIds
   ownerId?: string;
   ownerName?: string;
   ownerPhone?: string;
   ownerEmail?: string;
+  ownership?: OwnershipType; // what the owner did with it, when there's an owner
+  donatedAt?: string | null;
   bookType?: string;
+  language?: string | null;
+  branchAvailability?: BranchAvailability[];
 };
 
+// A title's copies at one branch: held in its collection, and on its shelves now
+export type BranchAvailability = {
+  branchId: string;
+  branchName: string;
+  total: number;
+  available: number;
+};
+
+export type Branch = {
+  id: string;
+  name: string;
+  code: string;
+  address: string | null;
+  isActive: boolean;
+};
+
+export type TransferStatus = 'requested' | 'in_transit' | 'received' | 'cancelled';
+
+// A copy moving between branches
+export type BranchTransfer = {
+  id: string;
+  copyId: string;
+  copyBarcode: string;
+  bookId: string;
+  bookTitle: string;
+  fromBranchId: string;
+  fromBranchName: string;
+  toBranchId: string;
+  toBranchName: string;
+  status: TransferStatus;
+  reason: string | null;
+  requestedByName: string | null;
+  requestedAt: string;
+  sentAt: string | null;
+  receivedAt: string | null;
+};
+
+export type CopyStatus = 'available' | 'on_loan' | 'lost' | 'in_repair' | 'withdrawn' | 'in_transit';
+export type CopyCondition = 'new' | 'good' | 'fair' | 'poor' | 'damaged';
+
+export type BookCopy = {
+  id: string;
+  bookId: string;
+  barcode: string;
+  accessionNumber: string | null;
+  shelfLocation: string | null;
+  condition: CopyCondition;
+  status: CopyStatus;
+  homeBranchId: string; // the branch whose collection it belongs to
+  homeBranchName: string;
+  currentBranchId: string; // where it is now (or is heading, while in transit)
+  currentBranchName: string;
+  transferId: string | null; // a transfer under way
+  onHoldShelf: boolean; // set aside for a ready hold
+  dueDate: string | null; // while on loan
+  reclaimId: string | null; // being handed back to its owner
+};
+
+export type LoanStatus = 'issued' | 'returned' | 'lost' | 'damaged' | 'claimed_returned' | 'written_off';
+
 export type BookIssue = {
   id: string;
   bookId: string;
+  bookTitle: string;
+  bookIsbn: string;
+  bookLabelNumber?: string | null;
+  copyId?: string | null;
+  copyBarcode?: string | null;
   userId: string;
   userName: string;
   userPhone: string;
@@ -65,9 +192,177 @@ export type BookIssue = {
   issueDate: string;
   dueDate: string;
   returnDate?: string;
-  status: 'issued' | 'returned';
+  status: LoanStatus;
+  statusNote?: string | null; // staff's note when marked lost, damaged, etc.
+  statusChangedAt?: string | null;
+  renewalCount?: number;
+  lastRenewedAt?: string | null;
+  branchId?: string | null; // the branch that issued it
+  branchName?: string | null;
+};
+
+export type AuditEntry = {
+  id: string;
+  actorId: string | null;
+  actorName: string | null;
+  entityType: string;
+  entityId: string;
+  action: string;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  createdAt: string;
+};
+
+export type FineRule = {
+  id: string;
+  bookType: string | null;
+  categoryId: string | null;
+  categoryName?: string | null;
+  dailyRate: number;
+  graceDays: number;
+  maxAmount: number | null;
+};
+
+// Borrowing policy scoped by patron type, category and book type (null = any).
+// Null fields fall through to a broader policy, then to the built-in defaults.
+export type LoanPolicy = {
+  id: string;
+  patronType: PatronType | null;
+  categoryId: string | null;
+  categoryName?: string | null;
+  bookType: string | null;
+  loanDays: number | null;
+  maxLoans: number | null;
+  maxRenewals: number | null;
+  circulates: boolean | null;
 };
 
+// An email reminding patrons about a loan, sent offsetDays from the due date (negative = before)
+export type ReminderNotice = {
+  id: string;
+  name: string;
+  offsetDays: number;
+  subject: string;
+  body: string;
+  active: boolean;
+  sentCount: number;
+};
+
+// A reminder the scheduler will send (today's are due now and not sent yet)
+export type UpcomingReminder = {
+  issueId: string;
+  userId: string;
+  patronName: string;
+  email: string;
+  bookTitle: string;
+  copyBarcode: string | null;
+  dueDate: string;
+  noticeId: string;
+  noticeName: string;
+  offsetDays: number;
+  sendDate: string;
+  subject: string;
+  body: string;
+};
+
+export type ReminderLogEntry = {
+  id: string;
+  issueId: string;
+  noticeId: string;
+  noticeName: string;
+  dueDate: string;
+  userId: string;
+  userName: string;
+  email: string;
+  subject: string;
+  body: string;
+  status: 'sending' | 'sent' | 'failed';
+  attempts: number;
+  error: string | null;
+  sentAt: string | null;
+  createdAt: string;
+};
+
+// Server's answer to "may this user borrow this book, and until when?"
+export type LoanCheck = {
+  allowed: boolean;
+  policy: { loanDays: number; maxLoans: number | null; maxRenewals: number | null; circulates: boolean } | null;
+  issueDate: string | null;
+  dueDate: string | null;
+  errors: { code: string; message: string }[];
+};
+
+export type FineSettings = {
+  blockThreshold: number | null;
+};
+
+export type RenewalSettings = {
+  maxRenewals: number;
+  maxOverdueDays: number;
+};
+
+export type LossSettings = {
+  replacementCharge: number;
+  damageCharge: number;
+};
+
+// The library's hours on one day of the week (0 = Sunday)
+export type OpeningHours = {
+  weekday: number;
+  name: string;
+  isOpen: boolean;
+  opensAt: string | null; // HH:MM
+  closesAt: string | null;
+};
+
+// A one-off day the library is closed, e.g. a public holiday
+export type LibraryClosure = {
+  id: string;
+  date: string; // YYYY-MM-DD
+  reason: string | null;
+  createdByName: string | null;
+};
+
+export type CalendarSettings = {
+  skipClosedDays: boolean; // closed days don't count towards how late a loan is
+};
+
+export type HoldStatus = 'waiting' | 'ready' | 'fulfilled' | 'cancelled' | 'expired';
+
+export type Hold = {
+  id: string;
+  bookId: string;
+  userId: string;
+  status: HoldStatus;
+  position: number; // 1 = next in line; 0 once the copy is on the hold shelf
+  readyAt: string | null;
+  expiresAt: string | null;
+  createdAt: string;
+  bookTitle: string;
+  copyBarcode: string | null; // the copy set aside once ready
+  userName: string;
+  userPhone: string;
+  userEmail: string;
+};
+
+export type HoldSettings = {
+  pickupDays: number;
+};
+
+export type FineEntry = {
+  id: string;
+  issueId: string | null;
+  type: 'fine' | 'payment' | 'waiver';
+  chargeType: 'late' | 'replacement' | 'damage' | null;
+  amount: number;
+  note: string | null;
+  createdAt: string;
+  createdByName: string | null;
+  bookTitle: string | null;
+};
+
+export type RequestStatus = 'pending' | 'fulfilled' | 'rejected';
+
 export type BookRequest = {
   id: string;
   bookName: string;
@@ -75,7 +370,215 @@ export type BookRequest = {
   categoryName: string;
   authorName?: string;
   requestDate: string;
-  status: 'pending' | 'fulfilled' | 'rejected';
+  status: RequestStatus;
+  groupKey?: string; // shared by requests for the same title
+  userId?: string | null; // the patron who asked; none for anonymous requests
+  userName?: string | null;
+  userEmail?: string | null;
+  userPhone?: string | null;
+  bookId?: string | null; // the book added for a fulfilled request
+  bookTitle?: string | null;
+  rejectionReason?: string | null;
+  statusChangedAt?: string | null;
+  statusChangedByName?: string | null;
+  notifiedAt?: string | null; // when the requester was emailed about the current status
+};
+
+// The patron signed in to the portal
+export type Patron = {
+  id: string;
+  name: string;
+};
+
+export type PatronProfile = Patron & {
+  email: string;
+  phone: string;
+  cardNumber: string | null;
+  fineBalance: number;
+};
+
+// A loan as the patron who has it sees it
+export type PatronLoan = {
+  id: string;
+  bookId: string;
+  bookTitle: string;
+  copyBarcode: string | null;
+  branchName: string | null;
+  status: LoanStatus;
+  issueDate: string;
+  dueDate: string;
+  returnDate: string | null;
+  overdue: boolean;
+  renewalCount: number;
+  canRenew: boolean;
+  renewBlockedReason: string | null;
+};
+
+export type Vendor = {
+  id: string;
+  name: string;
+  contactName: string | null;
+  email: string | null;
+  phone: string | null;
+  address: string | null;
+  notes: string | null;
+  isActive: boolean;
+};
+
+export type OrderStatus = 'draft' | 'ordered' | 'partially_received' | 'received' | 'cancelled';
+
+export type PurchaseOrderLine = {
+  id: string;
+  title: string;
+  isbn: string | null;
+  authorName: string | null;
+  categoryId: string | null;
+  categoryName: string | null;
+  bookType: string | null;
+  unitPrice: number;
+  quantity: number;
+  quantityReceived: number;
+  bookId: string | null; // the catalog book, once linked or received
+  bookTitle: string | null;
+  requestId: string | null; // the book request it was ordered for
+  requestTitle: string | null;
+};
+
+export type PurchaseOrder = {
+  id: string;
+  vendorId: string;
+  vendorName: string;
+  branchId: string; // where received copies go
+  branchName: string;
+  fiscalYear: number;
+  status: OrderStatus;
+  vendorReference: string | null;
+  notes: string | null;
+  createdByName: string | null;
+  orderedByName: string | null;
+  createdAt: string;
+  orderedAt: string | null;
+  receivedAt: string | null;
+  lineCount: number;
+  quantity: number;
+  quantityReceived: number;
+  total: number;
+  lines?: PurchaseOrderLine[]; // only when loaded on its own
+};
+
+// A category's budget against spending for the fiscal year
+export type BudgetLine = {
+  budgetId: string | null;
+  categoryId: string | null; // null totals the lines without a category
+  categoryName: string | null;
+  budget: number | null;
+  spent: number;     // received, at the ordered price
+  onOrder: number;   // ordered, still to arrive
+  inDraft: number;   // on orders not placed yet
+  remaining: number | null;
+};
+
+export type BudgetSummary = {
+  fiscalYear: number;
+  startsOn: string;
+  endsOn: string;
+  categories: BudgetLine[];
+  totals: { budget: number; spent: number; onOrder: number; inDraft: number };
+};
+
+export type AcquisitionSettings = {
+  fiscalYearStartMonth: number; // 1-12
+  currentFiscalYear: number;
+};
+
+export type OwnershipType = 'lent' | 'donated';
+export type ReclaimStatus = 'open' | 'completed' | 'cancelled';
+export type BorrowerVisibility = 'none' | 'name' | 'contact';
+
+// A patron who has lent or given books to the library
+export type OwnerSummary = {
+  id: string;
+  name: string;
+  email: string;
+  phone: string;
+  lentBooks: number;
+  donatedBooks: number;
+  loans: number;
+  copiesOut: number;
+  openReclaims: number;
+};
+
+// A copy of an owned book, as its owner sees it
+export type OwnedCopy = {
+  id: string;
+  barcode: string;
+  status: CopyStatus;
+  branchName: string;
+  dueDate: string | null;
+  overdue: boolean;
+  borrower: { name: string; email: string | null; phone: string | null } | null; // as far as visibility allows
+  reclaim: {
+    id: string;
+    status: ReclaimStatus;
+    requestedAt: string;
+    borrowerNotifiedAt: string | null;
+    handedBackAt: string | null;
+  } | null;
+};
+
+export type OwnedBook = {
+  id: string;
+  title: string;
+  isbn: string;
+  ownership: OwnershipType;
+  donatedAt: string | null;
+  loans: number;
+  loansLastYear: number;
+  lastIssuedAt: string | null;
+  copies: OwnedCopy[];
+};
+
+// A lent copy being handed back to its owner
+export type Reclaim = {
+  id: string;
+  copyId: string;
+  copyBarcode: string;
+  copyStatus: CopyStatus;
+  bookId: string;
+  bookTitle: string;
+  branchName: string;
+  ownerId: string | null;
+  ownerName: string | null;
+  ownerEmail: string | null;
+  ownerPhone: string | null;
+  status: ReclaimStatus;
+  reason: string | null;
+  requestedByOwner: boolean; // asked for in the portal rather than by staff
+  requestedByName: string | null;
+  borrowerNotifiedAt: string | null;
+  createdAt: string;
+  closedAt: string | null;
+  dueDate: string | null; // while the copy is still out
+  borrowerName: string | null;
+};
+
+export type DonationReceipt = {
+  libraryName: string;
+  donor: { id: string; name: string; email: string; phone: string };
+  from: string | null;
+  to: string | null;
+  items: {
+    bookId: string;
+    title: string;
+    isbn: string;
+    authors: string | null;
+    copies: number;
+    donatedAt: string | null;
+  }[];
+};
+
+export type OwnerSettings = {
+  borrowerVisibility: BorrowerVisibility; // what owners see of who has their books
 };
 
 type Page = 
@@ -83,64 +586,113 @@ type Page =
   | { type: 'dashboard' }
   | { type: 'categories' }
   | { type: 'writers' }
-  | { type: 'users' }
-  | { type: 'books' }
+  | { type: 'users'; search?: string }
+  | { type: 'books'; fulfilRequest?: BookRequest }
+  | { type: 'book-requests' }
   | { type: 'book-detail'; bookId: string }
   | { type: 'issue-book' }
   | { type: 'receive-book' }
-  | { type: 'search'; writerId?: string; categoryId?: string };
+  | { type: 'circulation-station' }
+  | { type: 'staff' }
+  | { type: 'audit' }
+  | { type: 'circulation-settings' }
+  | { type: 'reminders' }
+  | { type: 'calendar' }
+  | { type: 'branches' }
+  | { type: 'transfers' }
+  | { type: 'acquisitions' }
+  | { type: 'owners' }
+  | { type: 'patron' }
+  | { type: 'search'; filters?: SearchFilters };
 
 export default function App() {
   const [isAuthenticated, setIsAuthenticated] = useState(false);
-  const [currentPage, setCurrentPage] = useState<Page>({ type: 'search' });
+  // A shared search link opens on the search page with its filters
+  const [currentPage, setCurrentPage] = useState<Page>(() => ({ type: 'search', filters: readSearchUrl() || undefined }));
+  const [branches, setBranches] = useState<Branch[]>([]);
+  // Pages reload when staff move to another branch
+  const [branchId, setBranchId] = useState(authApi.getCurrentStaff()?.branch?.id || null);
+  // Patrons signed in to their own account (separate from staff sign-in)
+  const [patron, setPatron] = useState<Patron | null>(patronApi.getCurrentPatron());
 
   useEffect(() => {
-    const auth = localStorage.getItem('libraryAdminAuth');
-    if (auth === 'true') {
+    if (isAuthenticated) {
+      branchesApi.getAll().then(setBranches).catch(error => console.error('Error loading branches:', error));
+    }
+  }, [isAuthenticated]);
+
+  useEffect(() => {
+    // Drop back to the public pages whenever the session can't be refreshed
+    authApi.onSessionExpired(() => {
+      setIsAuthenticated(false);
+      setCurrentPage({ type: 'login' });
+    });
+
+    if (authApi.getCurrentStaff()) {
       setIsAuthenticated(true);
-      setCurrentPage({ type: 'dashboard' });
+      if (!readSearchUrl()) {
+        setCurrentPage({ type: 'dashboard' });
+      }
+      // Validate the stored session with the server (refreshes it if needed)
+      authApi.me().catch(() => {
+        setIsAuthenticated(false);
+        setCurrentPage({ type: 'search' });
+      });
     }
+
+    patronApi.onSessionExpired(() => setPatron(null));
+
+    return () => {
+      authApi.onSessionExpired(null);
+      patronApi.onSessionExpired(null);
+    };
   }, []);
 
   const handleLogin = () => {
+    setBranchId(authApi.getCurrentStaff()?.branch?.id || null);
     setIsAuthenticated(true);
-    localStorage.setItem('libraryAdminAuth', 'true');
     setCurrentPage({ type: 'dashboard' });
   };
 
-  const handleLogout = () => {
+  const handleLogout = async () => {
+    await authApi.logout();
     setIsAuthenticated(false);
-    localStorage.removeItem('libraryAdminAuth');
     setCurrentPage({ type: 'search' });
   };
 
+  const handlePatronLogout = () => {
+    patronApi.logout();
+    setPatron(null);
+  };
+
+  const handleSwitchBranch = async (id: string) => {
+    try {
+      const staff = await authApi.switchBranch(id);
+      setBranchId(staff.branch?.id || null);
+    } catch (error: any) {
+      console.error('Error switching branch:', error);
+      alert(error.message || 'Failed to switch branch. Please try again.');
+    }
+  };
+
   const handleRefreshCache = async () => {
     try {
       // Clear frontend cache
       cacheUtils.clearAll();
       
       // Clear backend cache
-      const response = await fetch(`${apiConfig.baseUrl}/cache/clear`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-      });
-      
-      if (response.ok) {
-        // Reload the page to refresh all data
-        window.location.reload();
-      } else {
-        alert('Failed to clear cache. Please try again.');
-      }
+      await cacheUtils.clearServer();
+
+      // Reload the page to refresh all data
+      window.location.reload();
     } catch (error) {
       console.error('Error clearing cache:', error);
       alert('Error clearing cache. Please try again.');
     }
   };
 
-  // Allow public access to search and book-detail pages
-  const isPublicPage = currentPage.type === 'search' || currentPage.type === 'book-detail';
+  // Allow public access to search, book-detail and the patron portal
+  const isPublicPage = currentPage.type === 'search' || currentPage.type === 'book-detail' || currentPage.type === 'patron';
 
   if (!isAuthenticated && !isPublicPage) {
     return <LoginPage onLogin={handleLogin} />;
@@ -196,6 +748,82 @@ export default function App() {
                   >
                     Search
                   </button>
+                  {authApi.can('requests:manage') && (
+                    <button
+                      onClick={() => setCurrentPage({ type: 'book-requests' })}
+                      className={currentPage.type === 'book-requests' ? 'text-blue-600' : 'text-gray-600 hover:text-gray-900'}
+                    >
+                      Requests
+                    </button>
+                  )}
+                  <button
+                    onClick={() => setCurrentPage({ type: 'owners' })}
+                    className={currentPage.type === 'owners' ? 'text-blue-600' : 'text-gray-600 hover:text-gray-900'}
+                  >
+                    Lenders & Donors
+                  </button>
+                  {authApi.can('acquisitions:manage') && (
+                    <button
+                      onClick={() => setCurrentPage({ type: 'acquisitions' })}
+                      className={currentPage.type === 'acquisitions' ? 'text-blue-600' : 'text-gray-600 hover:text-gray-900'}
+                    >
+                      Acquisitions
+                    </button>
+                  )}
+                  {authApi.can('staff:manage') && (
+                    <button
+                      onClick={() => setCurrentPage({ type: 'staff' })}
+                      className={currentPage.type === 'staff' ? 'text-blue-600' : 'text-gray-600 hover:text-gray-900'}
+                    >
+                      Staff
+                    </button>
+                  )}
+                  {authApi.can('circulation:configure') && (
+                    <button
+                      onClick={() => setCurrentPage({ type: 'circulation-settings' })}
+                      className={currentPage.type === 'circulation-settings' ? 'text-blue-600' : 'text-gray-600 hover:text-gray-900'}
+                    >
+                      Circulation
+                    </button>
+                  )}
+                  {authApi.can('circulation:configure') && (
+                    <button
+                      onClick={() => setCurrentPage({ type: 'reminders' })}
+                      className={currentPage.type === 'reminders' ? 'text-blue-600' : 'text-gray-600 hover:text-gray-900'}
+                    >
+                      Reminders
+                    </button>
+                  )}
+                  <button
+                    onClick={() => setCurrentPage({ type: 'calendar' })}
+                    className={currentPage.type === 'calendar' ? 'text-blue-600' : 'text-gray-600 hover:text-gray-900'}
+                  >
+                    Calendar
+                  </button>
+                  {authApi.can('circulation:issue') && (
+                    <button
+                      onClick={() => setCurrentPage({ type: 'transfers' })}
+                      className={currentPage.type === 'transfers' ? 'text-blue-600' : 'text-gray-600 hover:text-gray-900'}
+                    >
+                      Transfers
+                    </button>
+                  )}
+                  {authApi.can('branches:manage') && (
+                    <button
+                      onClick={() => setCurrentPage({ type: 'branches' })}
+                      className={currentPage.type === 'branches' ? 'text-blue-600' : 'text-gray-600 hover:text-gray-900'}
+                    >
+                      Branches
+                    </button>
+                  )}
+                  {authApi.can('audit:read') && (
+                    <button
+                      onClick={() => setCurrentPage({ type: 'audit' })}
+                      className={currentPage.type === 'audit' ? 'text-blue-600' : 'text-gray-600 hover:text-gray-900'}
+                    >
+                      Audit Log
+                    </button>
+                  )}
                 </div>
               ) : (
                 <div className="flex gap-4">
@@ -205,20 +833,42 @@ export default function App() {
                   >
                     Search Books
                   </button>
+                  <button
+                    onClick={() => setCurrentPage({ type: 'patron' })}
+                    className={currentPage.type === 'patron' ? 'text-blue-600' : 'text-gray-600 hover:text-gray-900'}
+                  >
+                    My Account
+                  </button>
                 </div>
               )}
             </div>
             <div className="flex items-center gap-4">
               {isAuthenticated ? (
                 <>
-                  <button
-                    onClick={handleRefreshCache}
-                    className="flex items-center gap-2 text-gray-600 hover:text-gray-900"
-                    title="Refresh Cache"
-                  >
-                    <RefreshCw className="w-4 h-4" />
-                    Refresh
-                  </button>
+                  {branches.length > 1 ? (
+                    <select
+                      value={branchId || ''}
+                      onChange={(e) => handleSwitchBranch(e.target.value)}
+                      className="px-3 py-1 border border-gray-300 rounded-lg text-gray-700"
+                      title="Branch you're working at"
+                    >
+                      {branches.map(branch => (
+                        <option key={branch.id} value={branch.id}>{branch.name}</option>
+                      ))}
+                    </select>
+                  ) : (
+                    branchId && <span className="text-gray-600">{authApi.getCurrentStaff()?.branch?.name}</span>
+                  )}
+                  {authApi.can('cache:clear') && (
+                    <button
+                      onClick={handleRefreshCache}
+                      className="flex items-center gap-2 text-gray-600 hover:text-gray-900"
+                      title="Refresh Cache"
+                    >
+                      <RefreshCw className="w-4 h-4" />
+                      Refresh
+                    </button>
+                  )}
                   <button
                     onClick={handleLogout}
                     className="text-gray-600 hover:text-gray-900"
@@ -239,26 +889,40 @@ export default function App() {
         </div>
       </nav>
 
-      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <main key={branchId || 'no-branch'} className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
         {currentPage.type === 'dashboard' && (
           <Dashboard onNavigate={setCurrentPage} />
         )}
         {currentPage.type === 'categories' && (
           <Categories 
-            onNavigateToCategory={(categoryId) => setCurrentPage({ type: 'search', categoryId })}
+            onNavigateToCategory={(categoryId) => setCurrentPage({ type: 'search', filters: { categoryId: [categoryId] } })}
           />
         )}
         {currentPage.type === 'writers' && <Writers />}
-        {currentPage.type === 'users' && <Users />}
+        {currentPage.type === 'users' && <Users key={currentPage.search} initialSearch={currentPage.search} />}
         {currentPage.type === 'books' && (
-          <Books onViewBook={(bookId) => setCurrentPage({ type: 'book-detail', bookId })} />
+          <Books
+            onViewBook={(bookId) => setCurrentPage({ type: 'book-detail', bookId })}
+            fulfilRequest={currentPage.fulfilRequest}
+            onRequestFulfilled={() => setCurrentPage({ type: 'book-requests' })}
+          />
+        )}
+        {currentPage.type === 'book-requests' && (
+          <BookRequests
+            onFulfil={(request) => setCurrentPage({ type: 'books', fulfilRequest: request })}
+            onViewBook={(bookId) => setCurrentPage({ type: 'book-detail', bookId })}
+            onViewUser={(search) => setCurrentPage({ type: 'users', search })}
+          />
         )}
         {currentPage.type === 'book-detail' && (
           <BookDetail
             bookId={currentPage.bookId}
             onBack={() => setCurrentPage(isAuthenticated ? { type: 'books' } : { type: 'search' })}
             onNavigateToSearch={(writerId, categoryId) => 
-              setCurrentPage({ type: 'search', writerId, categoryId })
+              setCurrentPage({
+                type: 'search',
+                filters: { writerId: writerId ? [writerId] : undefined, categoryId: categoryId ? [categoryId] : undefined },
+              })
             }
           />
         )}
@@ -268,16 +932,37 @@ export default function App() {
         {currentPage.type === 'receive-book' && (
           <ReceiveBook onBack={() => setCurrentPage({ type: 'dashboard' })} />
         )}
+        {currentPage.type === 'circulation-station' && (
+          <CirculationStation onBack={() => setCurrentPage({ type: 'dashboard' })} />
+        )}
+        {currentPage.type === 'staff' && <StaffUsers />}
+        {currentPage.type === 'audit' && <AuditLog />}
+        {currentPage.type === 'circulation-settings' && <CirculationSettings />}
+        {currentPage.type === 'reminders' && <Reminders />}
+        {currentPage.type === 'calendar' && <LibraryCalendar />}
+        {currentPage.type === 'branches' && <Branches />}
+        {currentPage.type === 'transfers' && <Transfers />}
+        {currentPage.type === 'acquisitions' && (
+          <Acquisitions onViewBook={(bookId) => setCurrentPage({ type: 'book-detail', bookId })} />
+        )}
+        {currentPage.type === 'owners' && (
+          <Owners onViewBook={(bookId) => setCurrentPage({ type: 'book-detail', bookId })} />
+        )}
+        {currentPage.type === 'patron' && (
+          patron
+            ? <PatronPortal onLogout={handlePatronLogout} />
+            : <PatronLogin onLogin={() => setPatron(patronApi.getCurrentPatron())} />
+        )}
         {currentPage.type === 'search' && (
           <SearchBooks 
+            key={JSON.stringify(currentPage.filters || {})}
             onViewBook={(bookId) => setCurrentPage({ type: 'book-detail', bookId })} 
-            writerId={currentPage.writerId}
-            categoryId={currentPage.categoryId}
+            initialFilters={currentPage.filters}
             onNavigateToCategory={(categoryId) => 
-              setCurrentPage({ type: 'search', categoryId })
+              setCurrentPage({ type: 'search', filters: { categoryId: [categoryId] } })
             }
             onNavigateToWriter={(writerId) => 
-              setCurrentPage({ type: 'search', writerId })
+              setCurrentPage({ type: 'search', filters: { writerId: [writerId] } })
             }
           />
         )}
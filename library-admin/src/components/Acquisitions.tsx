@@ -0,0 +1,48 @@
+import { useState } from 'react';
+import { ClipboardList, PiggyBank, Store } from 'lucide-react';
+import { PurchaseOrders } from './PurchaseOrders';
+import { Budgets } from './Budgets';
+import { Vendors } from './Vendors';
+
+type Section = 'orders' | 'budgets' | 'vendors';
+
+type AcquisitionsProps = {
+  onViewBook: (bookId: string) => void;
+};
+
+const SECTIONS: { id: Section; label: string; icon: typeof Store }[] = [
+  { id: 'orders', label: 'Purchase Orders', icon: ClipboardList },
+  { id: 'budgets', label: 'Budgets', icon: PiggyBank },
+  { id: 'vendors', label: 'Vendors', icon: Store },
+];
+
+/**
+ * Buying books: orders placed with vendors and received into the catalog,
+ * the vendors themselves, and each fiscal year's budgets.
+ */
+export function Acquisitions({ onViewBook }: AcquisitionsProps) {
+  const [section, setSection] = useState<Section>('orders');
+
+  return (
+    <div>
+      <div className="flex gap-2 mb-6">
+        {SECTIONS.map(({ id, label, icon: Icon }) => (
+          <button
+            key={id}
+            onClick={() => setSection(id)}
+            className={`px-4 py-2 rounded-lg flex items-center gap-2 ${
+              section === id ? 'bg-blue-600 text-white' : 'bg-white border border-gray-300 text-gray-700 hover:bg-gray-50'
+            }`}
+          >
+            <Icon className="w-5 h-5" />
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {section === 'orders' && <PurchaseOrders onViewBook={onViewBook} />}
+      {section === 'budgets' && <Budgets />}
+      {section === 'vendors' && <Vendors />}
+    </div>
+  );
+}
@@ -0,0 +1,243 @@
+import { useState, useEffect } from 'react';
+import { History, Filter } from 'lucide-react';
+import type { AuditEntry } from '../App';
+import { auditApi, type AuditFilters } from '../utils/api';
+
+const PAGE_SIZE = 50;
+
+// Bookkeeping columns that change on every write and only add noise to a diff
+const IGNORED_FIELDS = new Set(['created_at', 'updated_at']);
+
+const ENTITY_LABELS: Record<string, string> = {
+  book: 'Book',
+  copy: 'Copy',
+  category: 'Category',
+  writer: 'Writer',
+  user: 'User',
+  issue: 'Issue',
+  book_request: 'Book Request',
+  loan_policy: 'Borrowing Policy',
+  reminder_notice: 'Reminder Notice',
+  closure: 'Closed Day',
+  branch: 'Branch',
+  transfer: 'Transfer',
+  staff: 'Staff',
+  cache: 'Cache',
+};
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+const formatDateTime = (dateString: string) =>
+  new Date(dateString).toLocaleString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  });
+
+/**
+ * List the fields whose values differ between the before and after snapshots
+ */
+const changedFields = (entry: AuditEntry) => {
+  const before = entry.before || {};
+  const after = entry.after || {};
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+  return [...keys]
+    .filter(key => !IGNORED_FIELDS.has(key))
+    .filter(key => formatValue(before[key]) !== formatValue(after[key]))
+    .map(key => ({ field: key, from: before[key], to: after[key] }));
+};
+
+type AuditEntryListProps = {
+  entries: AuditEntry[];
+  showEntity?: boolean;
+};
+
+/**
+ * Audit entries with who/when/what and a field-by-field diff.
+ * Shared by the Audit Log page and the history section on Book Detail.
+ */
+export function AuditEntryList({ entries, showEntity = true }: AuditEntryListProps) {
+  if (entries.length === 0) {
+    return <p className="text-gray-500">No recorded changes</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {entries.map((entry) => {
+        const changes = changedFields(entry);
+        return (
+          <div key={entry.id} className="border border-gray-200 rounded-lg p-4">
+            <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+              <div className="flex items-center gap-2">
+                <span className="px-2 py-1 rounded-full text-xs font-medium bg-blue-100 text-blue-700">
+                  {entry.action}
+                </span>
+                {showEntity && (
+                  <span className="text-gray-900">
+                    {ENTITY_LABELS[entry.entityType] || entry.entityType} #{entry.entityId}
+                  </span>
+                )}
+              </div>
+              <span className="text-gray-600 text-sm">
+                {entry.actorName || 'Public'} · {formatDateTime(entry.createdAt)}
+              </span>
+            </div>
+            {changes.length > 0 && (
+              <table className="w-full text-sm">
+                <tbody>
+                  {changes.map(change => (
+                    <tr key={change.field} className="border-t border-gray-100">
+                      <td className="py-1 pr-4 text-gray-600 w-1/4">{change.field}</td>
+                      <td className="py-1 pr-4 text-red-700 line-through break-all">
+                        {entry.before ? formatValue(change.from) : ''}
+                      </td>
+                      <td className="py-1 text-green-700 break-all">
+                        {entry.after ? formatValue(change.to) : ''}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+export function AuditLog() {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [filters, setFilters] = useState<AuditFilters>({});
+  const [options, setOptions] = useState<{
+    entities: string[];
+    actors: { id: string; name: string }[];
+    actions: string[];
+  }>({ entities: [], actors: [], actions: [] });
+
+  useEffect(() => {
+    auditApi.getFilters()
+      .then(setOptions)
+      .catch(error => console.error('Error loading audit filters:', error));
+  }, []);
+
+  useEffect(() => {
+    loadEntries(0);
+  }, [filters]);
+
+  const loadEntries = async (offset: number) => {
+    try {
+      setLoading(true);
+      const data = await auditApi.list({ ...filters, limit: PAGE_SIZE, offset });
+      setEntries(prev => (offset === 0 ? data.items : [...prev, ...data.items]));
+      setTotal(data.total);
+    } catch (error) {
+      console.error('Error loading audit log:', error);
+      alert('Failed to load audit log. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateFilter = (key: keyof AuditFilters, value: string) => {
+    setFilters(prev => ({ ...prev, [key]: value || undefined }));
+  };
+
+  const selectClass =
+    'px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-gray-900 flex items-center gap-2">
+          <History className="w-6 h-6" />
+          Audit Log
+        </h1>
+        <span className="text-gray-600">{total} entries</span>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 mb-6">
+        <div className="flex flex-wrap items-center gap-3">
+          <Filter className="w-5 h-5 text-gray-400" />
+          <select
+            value={filters.entity || ''}
+            onChange={(e) => updateFilter('entity', e.target.value)}
+            className={selectClass}
+          >
+            <option value="">All records</option>
+            {options.entities.map(entity => (
+              <option key={entity} value={entity}>{ENTITY_LABELS[entity] || entity}</option>
+            ))}
+          </select>
+          <input
+            type="text"
+            value={filters.entityId || ''}
+            onChange={(e) => updateFilter('entityId', e.target.value)}
+            placeholder="Record ID"
+            className={`${selectClass} w-32`}
+          />
+          <select
+            value={filters.actorId || ''}
+            onChange={(e) => updateFilter('actorId', e.target.value)}
+            className={selectClass}
+          >
+            <option value="">All staff</option>
+            {options.actors.map(actor => (
+              <option key={actor.id} value={actor.id}>{actor.name}</option>
+            ))}
+          </select>
+          <select
+            value={filters.action || ''}
+            onChange={(e) => updateFilter('action', e.target.value)}
+            className={selectClass}
+          >
+            <option value="">All actions</option>
+            {options.actions.map(action => (
+              <option key={action} value={action}>{action}</option>
+            ))}
+          </select>
+          <input
+            type="date"
+            value={filters.from || ''}
+            onChange={(e) => updateFilter('from', e.target.value)}
+            className={selectClass}
+            title="From"
+          />
+          <input
+            type="date"
+            value={filters.to || ''}
+            onChange={(e) => updateFilter('to', e.target.value)}
+            className={selectClass}
+            title="To"
+          />
+        </div>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+        {loading && entries.length === 0 ? (
+          <p className="text-gray-500">Loading audit log...</p>
+        ) : (
+          <AuditEntryList entries={entries} />
+        )}
+        {entries.length < total && (
+          <button
+            onClick={() => loadEntries(entries.length)}
+            disabled={loading}
+            className="mt-4 w-full bg-gray-200 text-gray-700 py-2 rounded-lg hover:bg-gray-300 disabled:opacity-50"
+          >
+            {loading ? 'Loading...' : 'Load more'}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
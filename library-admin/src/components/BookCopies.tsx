@@ -0,0 +1,420 @@
+import { useState, useEffect } from 'react';
+import { Plus, Edit2, Trash2, X, Hash, Truck } from 'lucide-react';
+import type { BookCopy, CopyCondition, CopyStatus, Branch } from '../App';
+import { copiesApi, branchesApi, transfersApi, authApi } from '../utils/api';
+import { COPY_STATUS_LABELS, COPY_STATUS_STYLES } from '../utils/format';
+
+type BookCopiesProps = {
+  bookId: string;
+  onChange: () => void;
+};
+
+const CONDITIONS: CopyCondition[] = ['new', 'good', 'fair', 'poor', 'damaged'];
+
+// on_loan is set by issuing and cleared by returning, and in_transit by
+// sending and receiving transfers - never picked by hand
+const MANUAL_STATUSES: CopyStatus[] = ['available', 'lost', 'in_repair', 'withdrawn'];
+
+const emptyCopyForm = {
+  barcode: '',
+  accessionNumber: '',
+  shelfLocation: '',
+  condition: 'good' as CopyCondition,
+  status: 'available' as CopyStatus,
+  homeBranchId: '',
+};
+
+/**
+ * The physical copies of a book. The book's total and available counts are
+ * derived from these, so adding a copy or changing its status is how stock
+ * is changed. Copies move between branches by transfer.
+ */
+export function BookCopies({ bookId, onChange }: BookCopiesProps) {
+  const [copies, setCopies] = useState<BookCopy[]>([]);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingCopy, setEditingCopy] = useState<BookCopy | null>(null);
+  const [formData, setFormData] = useState(emptyCopyForm);
+  const [error, setError] = useState('');
+  const [branches, setBranches] = useState<Branch[]>([]);
+  const [transferCopy, setTransferCopy] = useState<BookCopy | null>(null);
+  const [transferForm, setTransferForm] = useState({ toBranchId: '', reason: '' });
+
+  const canEdit = authApi.can('catalog:write');
+  const canDelete = authApi.can('catalog:delete');
+  const canTransfer = authApi.can('circulation:issue');
+  const staffBranchId = authApi.getCurrentStaff()?.branch?.id || '';
+
+  useEffect(() => {
+    loadCopies();
+  }, [bookId]);
+
+  useEffect(() => {
+    branchesApi.getAll().then(setBranches).catch(error => console.error('Error loading branches:', error));
+  }, []);
+
+  const loadCopies = async () => {
+    try {
+      setCopies(await copiesApi.getByBook(bookId));
+    } catch (error) {
+      console.error('Error loading copies:', error);
+    }
+  };
+
+  const openForm = (copy: BookCopy | null) => {
+    setEditingCopy(copy);
+    setFormData(copy ? {
+      barcode: copy.barcode,
+      accessionNumber: copy.accessionNumber || '',
+      shelfLocation: copy.shelfLocation || '',
+      condition: copy.condition,
+      status: copy.status,
+      homeBranchId: copy.homeBranchId,
+    } : { ...emptyCopyForm, homeBranchId: staffBranchId || branches[0]?.id || '' });
+    setError('');
+    setIsFormOpen(true);
+  };
+
+  const closeForm = () => {
+    setIsFormOpen(false);
+    setEditingCopy(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    try {
+      if (editingCopy) {
+        await copiesApi.update(editingCopy.id, formData);
+      } else {
+        await copiesApi.create(bookId, formData);
+      }
+      closeForm();
+      await loadCopies();
+      onChange();
+    } catch (error: any) {
+      console.error('Error saving copy:', error);
+      setError(error.message || 'Failed to save copy. Please try again.');
+    }
+  };
+
+  const openTransfer = (copy: BookCopy) => {
+    const destination = copy.currentBranchId !== copy.homeBranchId
+      ? copy.homeBranchId
+      : branches.find(branch => branch.id !== copy.currentBranchId)?.id || '';
+    setTransferForm({ toBranchId: destination, reason: '' });
+    setError('');
+    setTransferCopy(copy);
+  };
+
+  const handleTransfer = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!transferCopy) return;
+    setError('');
+    try {
+      await transfersApi.request(transferCopy.id, transferForm.toBranchId, transferForm.reason);
+      setTransferCopy(null);
+      await loadCopies();
+    } catch (error: any) {
+      console.error('Error requesting transfer:', error);
+      setError(error.message || 'Failed to request the transfer. Please try again.');
+    }
+  };
+
+  const handleDelete = async (copy: BookCopy) => {
+    if (!confirm(`Delete copy ${copy.barcode}?`)) return;
+    try {
+      await copiesApi.delete(copy.id);
+      await loadCopies();
+      onChange();
+    } catch (error: any) {
+      console.error('Error deleting copy:', error);
+      alert(error.message || 'Failed to delete copy. Please try again.');
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+    });
+  };
+
+  const inputClass = 'w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+  return (
+    <div className="border-t border-gray-200 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-gray-900 flex items-center gap-2">
+          <Hash className="w-5 h-5 text-gray-400" />
+          Copies
+        </h2>
+        {canEdit && (
+          <button
+            onClick={() => openForm(null)}
+            className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 flex items-center gap-2"
+          >
+            <Plus className="w-4 h-4" />
+            Add Copy
+          </button>
+        )}
+      </div>
+
+      {copies.length === 0 ? (
+        <p className="text-gray-600">
+          No copies yet.{canEdit && ' Add one for each physical book so it can be issued.'}
+        </p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="px-4 py-2 text-left text-gray-700">Barcode</th>
+                <th className="px-4 py-2 text-left text-gray-700">Accession No.</th>
+                <th className="px-4 py-2 text-left text-gray-700">Branch</th>
+                <th className="px-4 py-2 text-left text-gray-700">Shelf</th>
+                <th className="px-4 py-2 text-left text-gray-700">Condition</th>
+                <th className="px-4 py-2 text-left text-gray-700">Status</th>
+                {(canEdit || canDelete || canTransfer) && <th className="px-4 py-2 text-right text-gray-700">Actions</th>}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {copies.map((copy) => (
+                <tr key={copy.id}>
+                  <td className="px-4 py-2 text-gray-900">{copy.barcode}</td>
+                  <td className="px-4 py-2 text-gray-600">{copy.accessionNumber || '-'}</td>
+                  <td className="px-4 py-2 text-gray-600">
+                    {copy.status === 'in_transit' ? `To ${copy.currentBranchName}` : copy.currentBranchName}
+                    {copy.currentBranchId !== copy.homeBranchId && (
+                      <span className="block text-sm text-gray-500">Home: {copy.homeBranchName}</span>
+                    )}
+                  </td>
+                  <td className="px-4 py-2 text-gray-600">{copy.shelfLocation || '-'}</td>
+                  <td className="px-4 py-2 text-gray-600 capitalize">{copy.condition}</td>
+                  <td className="px-4 py-2">
+                    <span className={`px-2 py-1 rounded ${COPY_STATUS_STYLES[copy.status]}`}>
+                      {copy.onHoldShelf ? 'On hold shelf' : COPY_STATUS_LABELS[copy.status]}
+                    </span>
+                    {copy.dueDate && (
+                      <span className="text-gray-600 ml-2">due {formatDate(copy.dueDate)}</span>
+                    )}
+                    {copy.transferId && copy.status === 'available' && (
+                      <span className="text-gray-600 ml-2">transfer requested</span>
+                    )}
+                    {copy.reclaimId && (
+                      <span className="text-orange-600 ml-2">going back to its owner</span>
+                    )}
+                  </td>
+                  {(canEdit || canDelete || canTransfer) && (
+                    <td className="px-4 py-2 text-right whitespace-nowrap">
+                      {canTransfer && branches.length > 1 && copy.status === 'available' && !copy.onHoldShelf && !copy.transferId && !copy.reclaimId && (
+                        <button
+                          onClick={() => openTransfer(copy)}
+                          className="p-2 text-purple-600 hover:bg-purple-50 rounded-lg"
+                          title="Transfer to Another Branch"
+                        >
+                          <Truck className="w-4 h-4" />
+                        </button>
+                      )}
+                      {canEdit && (
+                        <button
+                          onClick={() => openForm(copy)}
+                          className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg"
+                          title="Edit Copy"
+                        >
+                          <Edit2 className="w-4 h-4" />
+                        </button>
+                      )}
+                      {canDelete && (
+                        <button
+                          onClick={() => handleDelete(copy)}
+                          className="p-2 text-red-600 hover:bg-red-50 rounded-lg"
+                          title="Delete Copy"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      )}
+                    </td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Add/Edit Copy Modal */}
+      {isFormOpen && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-lg max-w-lg w-full">
+            <div className="flex justify-between items-center p-6 border-b border-gray-200">
+              <h2 className="text-gray-900">{editingCopy ? 'Edit Copy' : 'Add Copy'}</h2>
+              <button onClick={closeForm} className="text-gray-400 hover:text-gray-600">
+                <X className="w-6 h-6" />
+              </button>
+            </div>
+            <form onSubmit={handleSubmit} className="p-6 space-y-4">
+              <div>
+                <label className="block text-gray-700 mb-2">Barcode</label>
+                <input
+                  type="text"
+                  value={formData.barcode}
+                  onChange={(e) => setFormData({ ...formData, barcode: e.target.value })}
+                  className={inputClass}
+                  required
+                  autoFocus
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-gray-700 mb-2">Accession Number</label>
+                  <input
+                    type="text"
+                    value={formData.accessionNumber}
+                    onChange={(e) => setFormData({ ...formData, accessionNumber: e.target.value })}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className="block text-gray-700 mb-2">Shelf Location</label>
+                  <input
+                    type="text"
+                    value={formData.shelfLocation}
+                    onChange={(e) => setFormData({ ...formData, shelfLocation: e.target.value })}
+                    className={inputClass}
+                  />
+                </div>
+              </div>
+              <div>
+                <label className="block text-gray-700 mb-2">Home Branch</label>
+                <select
+                  value={formData.homeBranchId}
+                  onChange={(e) => setFormData({ ...formData, homeBranchId: e.target.value })}
+                  className={inputClass}
+                  required
+                >
+                  <option value="">Select a branch</option>
+                  {branches.map((branch) => (
+                    <option key={branch.id} value={branch.id}>{branch.name}</option>
+                  ))}
+                </select>
+                {editingCopy && editingCopy.currentBranchId !== formData.homeBranchId && (
+                  <p className="text-sm text-gray-600 mt-1">
+                    The copy is at {editingCopy.currentBranchName} - transfer it to move it there.
+                  </p>
+                )}
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-gray-700 mb-2">Condition</label>
+                  <select
+                    value={formData.condition}
+                    onChange={(e) => setFormData({ ...formData, condition: e.target.value as CopyCondition })}
+                    className={inputClass}
+                  >
+                    {CONDITIONS.map((condition) => (
+                      <option key={condition} value={condition} className="capitalize">{condition}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-gray-700 mb-2">Status</label>
+                  {formData.status === 'on_loan' ? (
+                    <p className="py-2 text-gray-600">On loan - changes when returned</p>
+                  ) : formData.status === 'in_transit' ? (
+                    <p className="py-2 text-gray-600">In transit - changes when received</p>
+                  ) : (
+                    <select
+                      value={formData.status}
+                      onChange={(e) => setFormData({ ...formData, status: e.target.value as CopyStatus })}
+                      className={inputClass}
+                    >
+                      {MANUAL_STATUSES.map((status) => (
+                        <option key={status} value={status}>{COPY_STATUS_LABELS[status]}</option>
+                      ))}
+                    </select>
+                  )}
+                </div>
+              </div>
+              {error && <p className="text-red-600">{error}</p>}
+              <div className="flex justify-end gap-3 pt-2">
+                <button
+                  type="button"
+                  onClick={closeForm}
+                  className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700"
+                >
+                  {editingCopy ? 'Save' : 'Add Copy'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {/* Transfer Modal */}
+      {transferCopy && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-lg max-w-lg w-full">
+            <div className="flex justify-between items-center p-6 border-b border-gray-200">
+              <h2 className="text-gray-900">Transfer Copy {transferCopy.barcode}</h2>
+              <button onClick={() => setTransferCopy(null)} className="text-gray-400 hover:text-gray-600">
+                <X className="w-6 h-6" />
+              </button>
+            </div>
+            <form onSubmit={handleTransfer} className="p-6 space-y-4">
+              <p className="text-gray-600">
+                Now at {transferCopy.currentBranchName}. It stays on the shelf there until it's sent.
+              </p>
+              <div>
+                <label className="block text-gray-700 mb-2">Send To</label>
+                <select
+                  value={transferForm.toBranchId}
+                  onChange={(e) => setTransferForm({ ...transferForm, toBranchId: e.target.value })}
+                  className={inputClass}
+                  required
+                >
+                  <option value="">Select a branch</option>
+                  {branches.filter(branch => branch.id !== transferCopy.currentBranchId).map((branch) => (
+                    <option key={branch.id} value={branch.id}>{branch.name}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-gray-700 mb-2">Reason</label>
+                <input
+                  type="text"
+                  value={transferForm.reason}
+                  onChange={(e) => setTransferForm({ ...transferForm, reason: e.target.value })}
+                  className={inputClass}
+                  placeholder="Optional, e.g. patron request"
+                />
+              </div>
+              {error && <p className="text-red-600">{error}</p>}
+              <div className="flex justify-end gap-3 pt-2">
+                <button
+                  type="button"
+                  onClick={() => setTransferCopy(null)}
+                  className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700"
+                >
+                  Request Transfer
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,9 +1,16 @@
 import { useState, useEffect } from 'react';
-import { ArrowLeft, BookOpen, Calendar, Hash, Users, FolderTree, CheckCircle, Tag } from 'lucide-react';
+import { ArrowLeft, BookOpen, Calendar, Hash, Users, FolderTree, CheckCircle, Tag, RefreshCw } from 'lucide-react';
 import { ImageWithFallback } from './figma/ImageWithFallback';
 import { MarkdownContent } from './MarkdownContent';
-import type { Book, Category, Writer, BookIssue } from '../App';
-import { booksApi, categoriesApi, writersApi, issuesApi } from '../utils/api';
+import { AuditEntryList } from './AuditLog';
+import { HoldQueue } from './HoldQueue';
+import { BookCopies } from './BookCopies';
+import type { Book, BookIssue, AuditEntry } from '../App';
+import { booksApi, issuesApi, authApi, auditApi, holdsApi } from '../utils/api';
+import { LOAN_STATUS_LABELS, LOAN_STATUS_STYLES } from '../utils/format';
+
+// Loans shown in the issue history, most recent first
+const HISTORY_LIMIT = 100;
 
 type BookDetailProps = {
   bookId: string;
@@ -13,34 +20,37 @@ type BookDetailProps = {
 
 export function BookDetail({ bookId, onBack, onNavigateToSearch }: BookDetailProps) {
   const [book, setBook] = useState<Book | null>(null);
-  const [categories, setCategories] = useState<Category[]>([]);
-  const [writers, setWriters] = useState<Writer[]>([]);
   const [issueHistory, setIssueHistory] = useState<BookIssue[]>([]);
+  const [issueHistoryTotal, setIssueHistoryTotal] = useState(0);
+  const [changeHistory, setChangeHistory] = useState<AuditEntry[]>([]);
+  const [waitingCount, setWaitingCount] = useState(0);
   const [loading, setLoading] = useState(true);
 
+  const canReadAudit = authApi.can('audit:read');
+
   useEffect(() => {
     loadBookData();
+    if (canReadAudit) {
+      auditApi.list({ entity: 'book', entityId: bookId })
+        .then(data => setChangeHistory(data.items))
+        .catch(error => console.error('Error loading book change history:', error));
+    }
   }, [bookId]);
 
   const loadBookData = async () => {
     try {
       setLoading(true);
-      const [booksData, categoriesData, writersData, issuesData] = await Promise.all([
-        booksApi.getAll(),
-        categoriesApi.getAll(),
-        writersApi.getAll(),
-        issuesApi.getAll(),
+      const [foundBook, issuesPage, holdCounts] = await Promise.all([
+        // A deleted book (or a mistyped link) is "not found" rather than an error
+        booksApi.getById(bookId).catch(() => null),
+        issuesApi.list({ bookId, sort: ['-issueDate'], limit: HISTORY_LIMIT }),
+        holdsApi.getCounts(),
       ]);
 
-      const foundBook = booksData.find(b => b.id === bookId);
-      setBook(foundBook || null);
-      setCategories(categoriesData);
-      setWriters(writersData);
-
-      const bookIssues = issuesData
-        .filter(issue => issue.bookId === bookId)
-        .sort((a, b) => new Date(b.issueDate).getTime() - new Date(a.issueDate).getTime());
-      setIssueHistory(bookIssues);
+      setBook(foundBook);
+      setWaitingCount(holdCounts[bookId] || 0);
+      setIssueHistory(issuesPage.items);
+      setIssueHistoryTotal(issuesPage.total);
     } catch (error) {
       console.error('Error loading book details:', error);
       alert('Failed to load book details. Please try again.');
@@ -49,41 +59,30 @@ export function BookDetail({ bookId, onBack, onNavigateToSearch }: BookDetailPro
     }
   };
 
-  const handleReceiveBook = async (issueId: string) => {
+  const handleRenewBook = async (issueId: string) => {
     try {
-      // Get all issues and books
-      const [issues, books] = await Promise.all([
-        issuesApi.getAll(),
-        booksApi.getAll(),
-      ]);
-
-      // Update issue status
-      const issueToUpdate = issues.find(issue => issue.id === issueId);
-      if (issueToUpdate) {
-        const updatedIssue = {
-          ...issueToUpdate,
-          status: 'returned' as const,
-          returnDate: new Date().toISOString(),
-        };
-        await issuesApi.update(issueId, updatedIssue);
-      }
+      await issuesApi.renew(issueId);
+      await loadBookData();
+    } catch (error: any) {
+      console.error('Error renewing book:', error);
+      alert(error.message || 'Failed to renew book. Please try again.');
+    }
+  };
 
-      // Update book available copies
-      const bookToUpdate = books.find(b => b.id === bookId);
-      if (bookToUpdate) {
-        const updatedBook = {
-          ...bookToUpdate,
-          availableCopies: bookToUpdate.availableCopies + 1,
-        };
-        await booksApi.update(bookId, updatedBook);
+  const handleReceiveBook = async (issueId: string) => {
+    try {
+      // Backend records the return and recounts the book's copies
+      const returned = await issuesApi.return(issueId);
+      if (returned.hold) {
+        alert(
+          `Put ${returned.hold.copyBarcode ? `copy ${returned.hold.copyBarcode}` : 'the book'} on the hold shelf for ${returned.hold.userName}`
+        );
       }
-
-      // Reload data
-      await loadBookData();
-    } catch (error) {
+    } catch (error: any) {
       console.error('Error receiving book:', error);
-      alert('Failed to process book return. Please try again.');
+      alert(error.message || 'Failed to process book return. Please try again.');
     }
+    await loadBookData();
   };
 
   const isOverdue = (dueDate: string) => {
@@ -101,13 +100,9 @@ export function BookDetail({ bookId, onBack, onNavigateToSearch }: BookDetailPro
     );
   }
 
-  const bookCategories = book.categoryIds
-    .map(id => categories.find(c => c.id === id))
-    .filter(Boolean) as Category[];
+  const bookCategories = book.categoryIds.map((id, index) => ({ id, name: book.categoryNames[index] }));
 
-  const bookWriters = book.writerIds
-    .map(id => writers.find(w => w.id === id))
-    .filter(Boolean) as Writer[];
+  const bookWriters = book.writerIds.map((id, index) => ({ id, name: book.writerNames[index] }));
 
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('en-US', {
@@ -174,16 +169,6 @@ export function BookDetail({ bookId, onBack, onNavigateToSearch }: BookDetailPro
                 </div>
               )}
 
-              {book.barcode && (
-                <div className="flex items-start gap-3">
-                  <Hash className="w-5 h-5 text-gray-400 mt-0.5" />
-                  <div>
-                    <p className="text-gray-600">Chip ID</p>
-                    <p className="text-gray-900">{book.barcode}</p>
-                  </div>
-                </div>
-              )}
-
               <div className="flex items-start gap-3">
                 <Calendar className="w-5 h-5 text-gray-400 mt-0.5" />
                 <div>
@@ -262,6 +247,9 @@ export function BookDetail({ bookId, onBack, onNavigateToSearch }: BookDetailPro
         {/* Issue History */}
         <div className="border-t border-gray-200 p-6">
           <h2 className="text-gray-900 mb-4">Issue History</h2>
+          {issueHistoryTotal > issueHistory.length && (
+            <p className="text-gray-500 mb-3">Latest {issueHistory.length} of {issueHistoryTotal} loans</p>
+          )}
           {issueHistory.length === 0 ? (
             <p className="text-gray-500">No issue history for this book</p>
           ) : (
@@ -294,19 +282,24 @@ export function BookDetail({ bookId, onBack, onNavigateToSearch }: BookDetailPro
                         {issue.returnDate && (
                           <span>Returned: {formatDate(issue.returnDate)}</span>
                         )}
+                        {!!issue.renewalCount && (
+                          <span>
+                            Renewed {issue.renewalCount}×
+                            {issue.lastRenewedAt && ` (last ${formatDate(issue.lastRenewedAt)})`}
+                          </span>
+                        )}
                       </div>
                     </div>
                     <div className="flex flex-col gap-2 items-end">
                       <span
-                        className={`px-3 py-1 rounded-full ${
-                          issue.status === 'issued'
-                            ? 'bg-orange-100 text-orange-700'
-                            : 'bg-green-100 text-green-700'
-                        }`}
+                        className={`px-3 py-1 rounded-full ${LOAN_STATUS_STYLES[issue.status]}`}
                       >
-                        {issue.status === 'issued' ? 'Issued' : 'Returned'}
+                        {LOAN_STATUS_LABELS[issue.status]}
                       </span>
-                      {issue.status === 'issued' && (
+                      {issue.statusNote && (
+                        <span className="text-gray-500 text-sm">{issue.statusNote}</span>
+                      )}
+                      {issue.status === 'issued' && authApi.can('circulation:receive') && (
                         <button
                           onClick={() => handleReceiveBook(issue.id)}
                           className="bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 flex items-center gap-2"
@@ -315,6 +308,15 @@ export function BookDetail({ bookId, onBack, onNavigateToSearch }: BookDetailPro
                           Receive
                         </button>
                       )}
+                      {issue.status === 'issued' && authApi.can('circulation:issue') && (
+                        <button
+                          onClick={() => handleRenewBook(issue.id)}
+                          className="bg-white text-blue-600 border border-blue-200 px-4 py-2 rounded-lg hover:bg-blue-50 flex items-center gap-2"
+                        >
+                          <RefreshCw className="w-4 h-4" />
+                          Renew
+                        </button>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -322,7 +324,19 @@ export function BookDetail({ bookId, onBack, onNavigateToSearch }: BookDetailPro
             </div>
           )}
         </div>
+
+        <BookCopies bookId={book.id} onChange={loadBookData} />
+
+        <HoldQueue book={book} waitingCount={waitingCount} onChange={loadBookData} />
+
+        {/* Change History (audit trail) */}
+        {canReadAudit && (
+          <div className="border-t border-gray-200 p-6">
+            <h2 className="text-gray-900 mb-4">Change History</h2>
+            <AuditEntryList entries={changeHistory} showEntity={false} />
+          </div>
+        )}
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,373 @@
+import { useState, useEffect } from 'react';
+import { BookPlus, XCircle, RotateCcw, Mail, X } from 'lucide-react';
+import type { BookRequest, Category, RequestStatus } from '../App';
+import { bookRequestsApi, categoriesApi, type BookRequestFilters, type RequestDecision } from '../utils/api';
+
+type BookRequestsProps = {
+  onFulfil: (request: BookRequest) => void;
+  onViewBook: (bookId: string) => void;
+  onViewUser: (search: string) => void;
+};
+
+const STATUS_STYLES: Record<RequestStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-700',
+  fulfilled: 'bg-green-100 text-green-700',
+  rejected: 'bg-red-100 text-red-700',
+};
+
+const REJECTION_REASONS = [
+  'Out of print',
+  'Outside our collection policy',
+  'Already in the library',
+  'Not available from our suppliers',
+];
+
+// Requests for the same title, newest first
+type RequestGroup = {
+  key: string;
+  requests: BookRequest[];
+  pending: BookRequest[];
+};
+
+const groupRequests = (requests: BookRequest[]): RequestGroup[] => {
+  const groups = new Map<string, BookRequest[]>();
+  for (const request of requests) {
+    const key = request.groupKey || request.id;
+    groups.set(key, [...(groups.get(key) || []), request]);
+  }
+  return [...groups.entries()].map(([key, grouped]) => ({
+    key,
+    requests: grouped,
+    pending: grouped.filter(request => request.status === 'pending'),
+  }));
+};
+
+/**
+ * The queue of books patrons have asked for. Requests for the same title are
+ * shown together and settled together: fulfilling adds the book to the
+ * catalogue and links it, rejecting needs a reason. Requesters on record are
+ * emailed either way.
+ */
+export function BookRequests({ onFulfil, onViewBook, onViewUser }: BookRequestsProps) {
+  const [requests, setRequests] = useState<BookRequest[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [filters, setFilters] = useState<BookRequestFilters>({ status: 'pending' });
+  const [search, setSearch] = useState('');
+  const [rejecting, setRejecting] = useState<RequestGroup | null>(null);
+  const [reason, setReason] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [successMessage, setSuccessMessage] = useState('');
+
+  useEffect(() => {
+    categoriesApi.getAll().then(setCategories).catch(error => console.error('Error loading categories:', error));
+  }, []);
+
+  useEffect(() => {
+    loadRequests();
+  }, [filters]);
+
+  const loadRequests = async () => {
+    try {
+      setLoading(true);
+      setRequests(await bookRequestsApi.getAll(filters));
+    } catch (error) {
+      console.error('Error loading book requests:', error);
+      alert('Failed to load book requests. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const showDecision = (decision: RequestDecision, verb: string) => {
+    const count = decision.requests.length;
+    const parts = [`${count} request${count === 1 ? '' : 's'} ${verb}`];
+    if (decision.notified > 0) parts.push(`${decision.notified} requester(s) emailed`);
+    if (decision.notifyFailed > 0) parts.push(`${decision.notifyFailed} email(s) could not be sent`);
+    setSuccessMessage(parts.join(' - '));
+    setTimeout(() => setSuccessMessage(''), 4000);
+  };
+
+  const handleReject = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!rejecting) return;
+    try {
+      const decision = await bookRequestsApi.reject(rejecting.pending[0].id, reason, rejecting.pending.length > 1);
+      showDecision(decision, 'rejected');
+      setRejecting(null);
+      setReason('');
+      await loadRequests();
+    } catch (error: any) {
+      console.error('Error rejecting request:', error);
+      alert(error.message || 'Failed to reject the request. Please try again.');
+    }
+  };
+
+  const handleReopen = async (request: BookRequest) => {
+    try {
+      showDecision(await bookRequestsApi.reopen(request.id), 'reopened');
+      await loadRequests();
+    } catch (error: any) {
+      console.error('Error reopening request:', error);
+      alert(error.message || 'Failed to reopen the request. Please try again.');
+    }
+  };
+
+  const formatDate = (dateString: string | null | undefined) => {
+    if (!dateString) return '-';
+    return new Date(dateString).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+    });
+  };
+
+  const groups = groupRequests(requests);
+  const inputClass = 'px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-gray-900">Book Requests</h1>
+      </div>
+
+      {/* Filters */}
+      <form
+        onSubmit={(e) => { e.preventDefault(); setFilters({ ...filters, q: search.trim() || undefined }); }}
+        className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 mb-6 flex flex-wrap gap-3 items-end"
+      >
+        <div>
+          <label className="block text-gray-700 text-sm mb-1">Status</label>
+          <select
+            value={filters.status || ''}
+            onChange={(e) => setFilters({ ...filters, status: (e.target.value || undefined) as RequestStatus | undefined })}
+            className={inputClass}
+          >
+            <option value="pending">Pending</option>
+            <option value="fulfilled">Fulfilled</option>
+            <option value="rejected">Rejected</option>
+            <option value="">All</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-gray-700 text-sm mb-1">Category</label>
+          <select
+            value={filters.categoryId || ''}
+            onChange={(e) => setFilters({ ...filters, categoryId: e.target.value || undefined })}
+            className={inputClass}
+          >
+            <option value="">All categories</option>
+            {categories.map(category => (
+              <option key={category.id} value={category.id}>{category.name}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-gray-700 text-sm mb-1">From</label>
+          <input
+            type="date"
+            value={filters.from || ''}
+            onChange={(e) => setFilters({ ...filters, from: e.target.value || undefined })}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-gray-700 text-sm mb-1">To</label>
+          <input
+            type="date"
+            value={filters.to || ''}
+            onChange={(e) => setFilters({ ...filters, to: e.target.value || undefined })}
+            className={inputClass}
+          />
+        </div>
+        <div className="flex-1 min-w-48">
+          <label className="block text-gray-700 text-sm mb-1">Search</label>
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            className={`w-full ${inputClass}`}
+            placeholder="Title, author or requester"
+          />
+        </div>
+        <button type="submit" className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700">
+          Filter
+        </button>
+      </form>
+
+      {successMessage && (
+        <div className="bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded-lg mb-6">
+          {successMessage}
+        </div>
+      )}
+
+      {/* Reject Modal */}
+      {rejecting && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-lg shadow-xl w-full max-w-md">
+            <form onSubmit={handleReject}>
+              <div className="flex justify-between items-center p-6 border-b border-gray-200">
+                <h2 className="text-gray-900">Reject "{rejecting.pending[0].bookName}"</h2>
+                <button type="button" onClick={() => setRejecting(null)} className="text-gray-400 hover:text-gray-600">
+                  <X className="w-6 h-6" />
+                </button>
+              </div>
+              <div className="p-6 space-y-4">
+                {rejecting.pending.length > 1 && (
+                  <p className="text-gray-600">All {rejecting.pending.length} pending requests for this title will be rejected.</p>
+                )}
+                <div>
+                  <label className="block text-gray-700 mb-2">Reason *</label>
+                  <textarea
+                    value={reason}
+                    onChange={(e) => setReason(e.target.value)}
+                    className={`w-full ${inputClass}`}
+                    rows={3}
+                    placeholder="Shown to the requester"
+                    maxLength={500}
+                    required
+                  />
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  {REJECTION_REASONS.map(preset => (
+                    <button
+                      key={preset}
+                      type="button"
+                      onClick={() => setReason(preset)}
+                      className="px-2 py-1 bg-gray-100 text-gray-700 rounded text-sm hover:bg-gray-200"
+                    >
+                      {preset}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <div className="flex gap-2 p-6 border-t border-gray-200">
+                <button
+                  type="submit"
+                  disabled={!reason.trim()}
+                  className="flex-1 bg-red-600 text-white py-2 rounded-lg hover:bg-red-700 disabled:opacity-50"
+                >
+                  Reject
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setRejecting(null)}
+                  className="flex-1 bg-gray-200 text-gray-700 py-2 rounded-lg hover:bg-gray-300"
+                >
+                  Cancel
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {/* Request groups */}
+      {groups.length === 0 ? (
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 px-6 py-8 text-center text-gray-500">
+          {loading ? 'Loading requests...' : 'No requests'}
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {groups.map(group => {
+            const first = group.requests[0];
+            const authors = [...new Set(group.requests.map(request => request.authorName).filter(Boolean))];
+            return (
+              <div key={group.key} className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+                <div className="flex justify-between items-start gap-4 mb-4">
+                  <div>
+                    <h2 className="text-gray-900">{first.bookName}</h2>
+                    <p className="text-gray-600">
+                      {authors.length > 0 ? authors.join(' / ') : 'Author not given'}
+                      {first.categoryName && ` · ${first.categoryName}`}
+                    </p>
+                    {group.requests.length > 1 && (
+                      <span className="inline-block mt-1 px-2 py-1 rounded text-sm bg-blue-100 text-blue-700">
+                        Requested {group.requests.length} times
+                      </span>
+                    )}
+                  </div>
+                  {group.pending.length > 0 && (
+                    <div className="flex gap-2 shrink-0">
+                      <button
+                        onClick={() => onFulfil(group.pending[0])}
+                        className="flex items-center gap-2 px-3 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700"
+                        title="Add the book to the catalogue and fulfil the request"
+                      >
+                        <BookPlus className="w-4 h-4" />
+                        Fulfil
+                      </button>
+                      <button
+                        onClick={() => { setRejecting(group); setReason(''); }}
+                        className="flex items-center gap-2 px-3 py-2 text-red-600 hover:bg-red-50 rounded-lg"
+                      >
+                        <XCircle className="w-4 h-4" />
+                        Reject
+                      </button>
+                    </div>
+                  )}
+                </div>
+
+                <ul className="divide-y border-t border-gray-200">
+                  {group.requests.map(request => (
+                    <li key={request.id} className="py-3 flex justify-between items-center gap-4">
+                      <div>
+                        {request.userId ? (
+                          <button
+                            onClick={() => onViewUser(request.userPhone || request.userName || '')}
+                            className="text-blue-600 hover:underline"
+                            title="Show in Users"
+                          >
+                            {request.userName}
+                          </button>
+                        ) : (
+                          <span className="text-gray-500">Anonymous</span>
+                        )}
+                        <span className="text-gray-600"> · asked {formatDate(request.requestDate)}</span>
+                        {request.status === 'fulfilled' && request.bookId && (
+                          <span className="block text-sm text-gray-600">
+                            Added as{' '}
+                            <button onClick={() => onViewBook(request.bookId!)} className="text-blue-600 hover:underline">
+                              {request.bookTitle}
+                            </button>
+                          </span>
+                        )}
+                        {request.status === 'rejected' && request.rejectionReason && (
+                          <span className="block text-sm text-gray-600">Reason: {request.rejectionReason}</span>
+                        )}
+                        {request.status !== 'pending' && request.statusChangedAt && (
+                          <span className="block text-sm text-gray-500">
+                            {formatDate(request.statusChangedAt)}
+                            {request.statusChangedByName && ` by ${request.statusChangedByName}`}
+                          </span>
+                        )}
+                      </div>
+                      <div className="flex items-center gap-2 shrink-0">
+                        {request.notifiedAt && (
+                          <span title={`Requester emailed ${formatDate(request.notifiedAt)}`}>
+                            <Mail className="w-4 h-4 text-gray-400" />
+                          </span>
+                        )}
+                        <span className={`px-2 py-1 rounded text-sm capitalize ${STATUS_STYLES[request.status]}`}>
+                          {request.status}
+                        </span>
+                        {request.status !== 'pending' && (
+                          <button
+                            onClick={() => handleReopen(request)}
+                            className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg"
+                            title="Reopen"
+                          >
+                            <RotateCcw className="w-4 h-4" />
+                          </button>
+                        )}
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,18 +1,36 @@
-import { useState, useEffect, useMemo } from 'react';
-import { Plus, Edit2, Trash2, X, BookOpen, User, ChevronLeft, ChevronRight, ChevronsLeft, ChevronsRight } from 'lucide-react';
+import { useState, useEffect } from 'react';
+import { Plus, Edit2, Trash2, X, BookOpen, User, Search } from 'lucide-react';
 import { ImageWithFallback } from './figma/ImageWithFallback';
-import type { Book, Category, Writer, User as UserType } from '../App';
-import { booksApi, categoriesApi, writersApi, usersApi } from '../utils/api';
+import { Pagination } from './Pagination';
+import { QuerySyntaxHelp } from './QuerySyntaxHelp';
+import type { Book, BookRequest, Category, OwnershipType, Writer, User as UserType } from '../App';
+import { booksApi, categoriesApi, writersApi, usersApi, authApi, bookRequestsApi } from '../utils/api';
+import { useDebounce, useListSearch } from '../utils/hooks';
+
+const PAGE_SIZE = 100;
+
+const SORT_OPTIONS = [
+  { value: 'title', label: 'Title (A-Z)' },
+  { value: '-createdAt', label: 'Recently added' },
+  { value: '-publicationYear', label: 'Newest publication' },
+  { value: '-availableCopies', label: 'Most available' },
+];
 
 type BooksProps = {
   onViewBook: (bookId: string) => void;
+  // Open the add form filled in from a book request; the new book fulfils it
+  // (and the other pending requests for the title)
+  fulfilRequest?: BookRequest;
+  onRequestFulfilled?: () => void;
 };
 
-export function Books({ onViewBook }: BooksProps) {
+export function Books({ onViewBook, fulfilRequest, onRequestFulfilled }: BooksProps) {
   const [books, setBooks] = useState<Book[]>([]);
+  const [totalBooks, setTotalBooks] = useState(0);
+  const [sort, setSort] = useState('title');
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchError, setSearchError] = useState<string>(); // e.g. a query that can't be read
   const [categories, setCategories] = useState<Category[]>([]);
-  const [writers, setWriters] = useState<Writer[]>([]);
-  const [users, setUsers] = useState<UserType[]>([]);
   const [isFormOpen, setIsFormOpen] = useState(false);
   const [editingBook, setEditingBook] = useState<Book | null>(null);
   const [loading, setLoading] = useState(false);
@@ -21,15 +39,12 @@ export function Books({ onViewBook }: BooksProps) {
   const [selectedOwner, setSelectedOwner] = useState<UserType | null>(null);
   const [writerSearchQuery, setWriterSearchQuery] = useState('');
   const [showWriterDropdown, setShowWriterDropdown] = useState(false);
-  const [selectedWriters, setSelectedWriters] = useState<Writer[]>([]);
+  const [selectedWriters, setSelectedWriters] = useState<Pick<Writer, 'id' | 'name'>[]>([]);
   const [formData, setFormData] = useState({
     title: '',
     isbn: '',
     labelNumber: '',
-    barcode: '',
     publicationYear: new Date().getFullYear(),
-    totalCopies: 1,
-    availableCopies: 1,
     imageUrl: '',
     description: '',
     categoryIds: [] as string[],
@@ -38,42 +53,72 @@ export function Books({ onViewBook }: BooksProps) {
     ownerName: '',
     ownerPhone: '',
     ownerEmail: '',
+    ownership: 'lent' as OwnershipType,
+    donatedAt: '',
     bookType: 'Paperback',
+    language: '',
   });
   const [errors, setErrors] = useState({ titleWriter: '' });
   const [currentPage, setCurrentPage] = useState(1);
-  const itemsPerPage = 100;
 
-  // Calculate pagination
-  const totalPages = useMemo(() => Math.ceil(books.length / itemsPerPage), [books.length]);
-  const paginatedBooks = useMemo(() => {
-    const startIndex = (currentPage - 1) * itemsPerPage;
-    const endIndex = startIndex + itemsPerPage;
-    return books.slice(startIndex, endIndex);
-  }, [books, currentPage]);
+  const matchingOwners = useListSearch(ownerSearchQuery, async (q) =>
+    (await usersApi.list({ q, limit: 20 })).items
+  );
+  const matchingWriters = useListSearch(writerSearchQuery, async (q) =>
+    (await writersApi.list({ q, limit: 20 })).items
+  );
 
-  // Reset to page 1 when books change (e.g., after delete)
   useEffect(() => {
-    if (currentPage > totalPages && totalPages > 0) {
-      setCurrentPage(1);
-    }
-  }, [totalPages, currentPage]);
+    loadCategories();
+  }, []);
+
+  // Words, or a fielded query such as author:Christie year:1930.. (see QuerySyntaxHelp)
+  const query = useDebounce(searchQuery.trim(), 300);
 
   useEffect(() => {
     loadBooks();
-    loadCategories();
-    loadWriters();
-    loadUsers();
-  }, []);
+  }, [currentPage, sort, query]);
+
+  useEffect(() => {
+    if (fulfilRequest) {
+      setFormData(data => ({
+        ...data,
+        title: fulfilRequest.bookName,
+        categoryIds: fulfilRequest.categoryId ? [fulfilRequest.categoryId] : [],
+      }));
+      // Requests name the author as free text - search for the writer to pick
+      setWriterSearchQuery(fulfilRequest.authorName || '');
+      setShowWriterDropdown(Boolean(fulfilRequest.authorName));
+      setIsFormOpen(true);
+    }
+  }, [fulfilRequest]);
 
   const loadBooks = async () => {
     try {
       setLoading(true);
-      const data = await booksApi.getAll();
-      setBooks(data);
+      const page = await booksApi.list({
+        q: query || undefined,
+        sort: [sort],
+        limit: PAGE_SIZE,
+        offset: (currentPage - 1) * PAGE_SIZE,
+      });
+      // Past the end, e.g. after deleting the last book on the last page
+      if (page.items.length === 0 && currentPage > 1) {
+        setCurrentPage(1);
+        return;
+      }
+      setBooks(page.items);
+      setTotalBooks(page.total);
+      setSearchError(undefined);
     } catch (error) {
       console.error('Error loading books:', error);
-      alert('Failed to load books. Please try again.');
+      if (query) {
+        setBooks([]);
+        setTotalBooks(0);
+        setSearchError(error instanceof Error ? error.message : 'Search failed. Please try again.');
+      } else {
+        alert('Failed to load books. Please try again.');
+      }
     } finally {
       setLoading(false);
     }
@@ -88,24 +133,6 @@ export function Books({ onViewBook }: BooksProps) {
     }
   };
 
-  const loadWriters = async () => {
-    try {
-      const data = await writersApi.getAll();
-      setWriters(data);
-    } catch (error) {
-      console.error('Error loading writers:', error);
-    }
-  };
-
-  const loadUsers = async () => {
-    try {
-      const data = await usersApi.getAll();
-      setUsers(data);
-    } catch (error) {
-      console.error('Error loading users:', error);
-    }
-  };
-
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -128,17 +155,22 @@ export function Books({ onViewBook }: BooksProps) {
       return;
     }
     
-    // Check for duplicate title + writers combination (case-insensitive title)
-    const normalizedTitle = formData.title.trim().toLowerCase();
+    // Check for duplicate title + writers combination (the server matches
+    // titles case-insensitively)
     const sortedWriterIds = [...formData.writerIds].sort();
-    
-    const duplicateBook = books.find(book => {
+    let sameTitle: Book[];
+    try {
+      sameTitle = (await booksApi.list({ title: formData.title.trim(), limit: 500 })).items;
+    } catch (error) {
+      console.error('Error checking for duplicate books:', error);
+      alert('Failed to save book. Please try again.');
+      return;
+    }
+
+    const duplicateBook = sameTitle.find(book => {
       // Skip the book being edited
       if (editingBook && book.id === editingBook.id) return false;
-      
-      // Check if title matches (case-insensitive)
-      if (book.title.trim().toLowerCase() !== normalizedTitle) return false;
-      
+
       // Check if writers match (same set of writers)
       const bookWriterIds = [...book.writerIds].sort();
       if (bookWriterIds.length !== sortedWriterIds.length) return false;
@@ -160,7 +192,20 @@ export function Books({ onViewBook }: BooksProps) {
           ...formData,
           id: Date.now().toString(),
         };
-        await booksApi.create(newBook);
+        const created = await booksApi.create(newBook);
+        if (fulfilRequest) {
+          try {
+            const decision = await bookRequestsApi.fulfil(fulfilRequest.id, created.id, true);
+            alert(`"${created.title}" added and ${decision.requests.length} request(s) fulfilled`
+              + (decision.notified > 0 ? ` - ${decision.notified} requester(s) emailed` : ''));
+          } catch (error: any) {
+            console.error('Error fulfilling book request:', error);
+            alert(`"${created.title}" was added, but the request could not be marked fulfilled: ${error.message}`);
+          }
+          resetForm();
+          onRequestFulfilled?.();
+          return;
+        }
       }
       resetForm();
       await loadBooks();
@@ -179,28 +224,24 @@ export function Books({ onViewBook }: BooksProps) {
     
     // If book has an owner, set the selected owner
     if (book.ownerId) {
-      const owner = users.find(u => u.id === book.ownerId);
-      if (owner) {
-        setSelectedOwner(owner);
-      }
+      setSelectedOwner({
+        id: book.ownerId,
+        name: book.ownerName || '',
+        phone: book.ownerPhone || '',
+        email: book.ownerEmail || '',
+      });
     } else {
       setSelectedOwner(null);
     }
     
     // Load selected writers
-    const bookWriters = book.writerIds
-      .map(id => writers.find(w => w.id === id))
-      .filter((w): w is Writer => w !== undefined);
-    setSelectedWriters(bookWriters);
+    setSelectedWriters(book.writerIds.map((id, index) => ({ id, name: book.writerNames[index] })));
     
     setFormData({
       title: book.title,
       isbn: book.isbn,
       labelNumber: book.labelNumber || '',
-      barcode: book.barcode || '',
       publicationYear: book.publicationYear,
-      totalCopies: book.totalCopies,
-      availableCopies: book.availableCopies,
       imageUrl: book.imageUrl,
       description: book.description,
       categoryIds: book.categoryIds,
@@ -209,7 +250,10 @@ export function Books({ onViewBook }: BooksProps) {
       ownerName: book.ownerName || '',
       ownerPhone: book.ownerPhone || '',
       ownerEmail: book.ownerEmail || '',
+      ownership: book.ownership || 'lent',
+      donatedAt: book.donatedAt || '',
       bookType: book.bookType || 'Paperback',
+      language: book.language || '',
     });
     setIsFormOpen(true);
   };
@@ -231,10 +275,7 @@ export function Books({ onViewBook }: BooksProps) {
       title: '',
       isbn: '',
       labelNumber: '',
-      barcode: '',
       publicationYear: new Date().getFullYear(),
-      totalCopies: 1,
-      availableCopies: 1,
       imageUrl: '',
       description: '',
       categoryIds: [],
@@ -243,7 +284,10 @@ export function Books({ onViewBook }: BooksProps) {
       ownerName: '',
       ownerPhone: '',
       ownerEmail: '',
+      ownership: 'lent',
+      donatedAt: '',
       bookType: 'Paperback',
+      language: '',
     });
     setEditingBook(null);
     setSelectedOwner(null);
@@ -256,20 +300,6 @@ export function Books({ onViewBook }: BooksProps) {
     setIsFormOpen(false);
   };
 
-  const getCategoryNames = (categoryIds: string[]) => {
-    return categoryIds
-      .map(id => categories.find(c => c.id === id)?.name)
-      .filter(Boolean)
-      .join(', ');
-  };
-
-  const getWriterNames = (writerIds: string[]) => {
-    return writerIds
-      .map(id => writers.find(w => w.id === id)?.name)
-      .filter(Boolean)
-      .join(', ');
-  };
-
   const handleOwnerSearch = (e: React.ChangeEvent<HTMLInputElement>) => {
     const query = e.target.value;
     setOwnerSearchQuery(query);
@@ -293,17 +323,6 @@ export function Books({ onViewBook }: BooksProps) {
     setShowOwnerDropdown(false);
   };
 
-  const filteredOwners = users.filter(user => {
-    const query = ownerSearchQuery.toLowerCase().trim();
-    if (!query) return false;
-    
-    return (
-      user.name.toLowerCase().includes(query) ||
-      user.phone.includes(query) ||
-      user.email.toLowerCase().includes(query)
-    );
-  });
-
   const handleWriterSearch = (e: React.ChangeEvent<HTMLInputElement>) => {
     const query = e.target.value;
     setWriterSearchQuery(query);
@@ -339,15 +358,6 @@ export function Books({ onViewBook }: BooksProps) {
     });
   };
 
-  const filteredWriters = writers.filter(writer => {
-    const query = writerSearchQuery.toLowerCase().trim();
-    if (!query) return false;
-    
-    return (
-      writer.name.toLowerCase().includes(query)
-    );
-  });
-
   return (
     <div>
       <div className="flex justify-between items-center mb-6">
@@ -355,19 +365,56 @@ export function Books({ onViewBook }: BooksProps) {
           <h1 className="text-gray-900">Books</h1>
           {books.length > 0 && (
             <span className="text-gray-600 text-sm font-normal">
-              (Showing {books.length <= itemsPerPage 
-                ? `1-${books.length}` 
-                : `${(currentPage - 1) * itemsPerPage + 1}-${Math.min(currentPage * itemsPerPage, books.length)}`} of {books.length})
+              (Showing {(currentPage - 1) * PAGE_SIZE + 1}-{(currentPage - 1) * PAGE_SIZE + books.length} of {totalBooks})
             </span>
           )}
         </div>
-        <button
-          onClick={() => setIsFormOpen(true)}
-          className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 flex items-center gap-2"
-        >
-          <Plus className="w-5 h-5" />
-          Add Book
-        </button>
+        <div className="flex items-center gap-3">
+          <select
+            value={sort}
+            onChange={(e) => {
+              setSort(e.target.value);
+              setCurrentPage(1);
+            }}
+            className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            {SORT_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+          {authApi.can('catalog:write') && (
+            <button
+              onClick={() => setIsFormOpen(true)}
+              className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 flex items-center gap-2"
+            >
+              <Plus className="w-5 h-5" />
+              Add Book
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* Search */}
+      <div className="mb-6">
+        <div className="relative">
+          <div className="absolute inset-y-0 left-0 pl-4 flex items-center pointer-events-none">
+            <Search className="w-5 h-5 text-gray-400" />
+          </div>
+          <input
+            type="text"
+            value={searchQuery}
+            onChange={(e) => {
+              setSearchQuery(e.target.value);
+              setCurrentPage(1);
+            }}
+            placeholder='Search by title, ISBN, label, writer or category, or e.g. author:"Agatha Christie" available:yes'
+            className={`w-full pl-12 pr-4 py-3 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent ${searchError ? 'border-red-400' : 'border-gray-300'}`}
+          />
+        </div>
+        {searchError && (
+          <p className="text-red-600 mt-2">{searchError}</p>
+        )}
+        <QuerySyntaxHelp />
       </div>
 
       {/* Book Form Modal */}
@@ -376,7 +423,7 @@ export function Books({ onViewBook }: BooksProps) {
           <div className="bg-white rounded-lg w-full max-w-2xl max-h-[90vh] flex flex-col">
             <div className="flex justify-between items-center p-6 border-b border-gray-200">
               <h2 className="text-gray-900">
-                {editingBook ? 'Edit Book' : 'Add Book'}
+                {editingBook ? 'Edit Book' : fulfilRequest ? 'Add Requested Book' : 'Add Book'}
               </h2>
               <button onClick={resetForm} className="text-gray-500 hover:text-gray-700">
                 <X className="w-5 h-5" />
@@ -415,7 +462,7 @@ export function Books({ onViewBook }: BooksProps) {
                   </div>
                 </div>
 
-                <div className="grid grid-cols-3 gap-4">
+                <div className="grid grid-cols-2 gap-4">
                   <div>
                     <label className="block text-gray-700 mb-2">Publication Year</label>
                     <input
@@ -428,49 +475,19 @@ export function Books({ onViewBook }: BooksProps) {
                   </div>
 
                   <div>
-                    <label className="block text-gray-700 mb-2">Total Copies</label>
-                    <input
-                      type="number"
-                      min="1"
-                      value={formData.totalCopies}
-                      onChange={(e) => setFormData({ ...formData, totalCopies: parseInt(e.target.value) })}
-                      className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                      required
-                    />
-                  </div>
-
-                  <div>
-                    <label className="block text-gray-700 mb-2">Available Copies</label>
+                    <label className="block text-gray-700 mb-2">Rack Label</label>
                     <input
-                      type="number"
-                      min="0"
-                      value={formData.availableCopies}
-                      onChange={(e) => setFormData({ ...formData, availableCopies: parseInt(e.target.value) })}
+                      type="text"
+                      value={formData.labelNumber}
+                      onChange={(e) => setFormData({ ...formData, labelNumber: e.target.value })}
                       className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                      required
                     />
                   </div>
                 </div>
 
-                <div>
-                  <label className="block text-gray-700 mb-2">Rack Label</label>
-                  <input
-                    type="text"
-                    value={formData.labelNumber}
-                    onChange={(e) => setFormData({ ...formData, labelNumber: e.target.value })}
-                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                  />
-                </div>
-
-                <div>
-                  <label className="block text-gray-700 mb-2">Chip ID</label>
-                  <input
-                    type="text"
-                    value={formData.barcode}
-                    onChange={(e) => setFormData({ ...formData, barcode: e.target.value })}
-                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                  />
-                </div>
+                <p className="text-gray-600">
+                  Physical copies, with their barcodes and shelf locations, are added from the book's page.
+                </p>
 
                 <div>
                   <label className="block text-gray-700 mb-2">Book Type</label>
@@ -484,6 +501,18 @@ export function Books({ onViewBook }: BooksProps) {
                   </select>
                 </div>
 
+                <div>
+                  <label className="block text-gray-700 mb-2">Language</label>
+                  <input
+                    type="text"
+                    value={formData.language}
+                    onChange={(e) => setFormData({ ...formData, language: e.target.value })}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    placeholder="e.g. English"
+                  />
+                  <p className="text-gray-600 mt-1">Lets readers narrow the search page by language</p>
+                </div>
+
                 <div>
                   <label className="block text-gray-700 mb-2">Image URL</label>
                   <input
@@ -549,9 +578,9 @@ export function Books({ onViewBook }: BooksProps) {
                       className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                       placeholder="Search by name..."
                     />
-                    {showWriterDropdown && filteredWriters.length > 0 && (
+                    {showWriterDropdown && matchingWriters.length > 0 && (
                       <div className="absolute z-10 w-full mt-1 bg-white border border-gray-300 rounded-lg shadow-lg max-h-60 overflow-y-auto">
-                        {filteredWriters.map((writer) => (
+                        {matchingWriters.map((writer) => (
                           <button
                             key={writer.id}
                             type="button"
@@ -600,9 +629,9 @@ export function Books({ onViewBook }: BooksProps) {
                       className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                       placeholder="Search by name, phone, or email..."
                     />
-                    {showOwnerDropdown && filteredOwners.length > 0 && (
+                    {showOwnerDropdown && matchingOwners.length > 0 && (
                       <div className="absolute z-10 w-full mt-1 bg-white border border-gray-300 rounded-lg shadow-lg max-h-60 overflow-y-auto">
-                        {filteredOwners.map((user) => (
+                        {matchingOwners.map((user) => (
                           <button
                             key={user.id}
                             type="button"
@@ -635,6 +664,26 @@ export function Books({ onViewBook }: BooksProps) {
                       </div>
                     </div>
                   )}
+
+                  <div className="grid grid-cols-2 gap-4 mt-3">
+                    <select
+                      value={formData.ownership}
+                      onChange={(e) => setFormData({ ...formData, ownership: e.target.value as OwnershipType })}
+                      className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    >
+                      <option value="lent">Lent - the owner can ask for it back</option>
+                      <option value="donated">Donated to the library</option>
+                    </select>
+                    {formData.ownership === 'donated' && (
+                      <input
+                        type="date"
+                        value={formData.donatedAt}
+                        onChange={(e) => setFormData({ ...formData, donatedAt: e.target.value })}
+                        className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        title="Donated on (today if left empty)"
+                      />
+                    )}
+                  </div>
                 </div>
               </div>
 
@@ -666,10 +715,10 @@ export function Books({ onViewBook }: BooksProps) {
           </div>
         ) : books.length === 0 ? (
           <div className="col-span-full p-8 text-center text-gray-500 bg-white rounded-lg">
-            No books yet. Click "Add Book" to create one.
+            {query ? `No books match "${query}"` : 'No books yet. Click "Add Book" to create one.'}
           </div>
         ) : (
-          paginatedBooks.map((book) => (
+          books.map((book) => (
             <div key={book.id} className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden hover:shadow-md transition-shadow">
               <div className="aspect-[3/4] bg-gray-100 relative">
                 {book.imageUrl ? (
@@ -686,8 +735,8 @@ export function Books({ onViewBook }: BooksProps) {
               </div>
               <div className="p-4">
                 <h3 className="text-gray-900 mb-1 line-clamp-2">{book.title}</h3>
-                <p className="text-gray-600 mb-2">{getWriterNames(book.writerIds) || 'Unknown author'}</p>
-                <p className="text-gray-500 mb-2">{getCategoryNames(book.categoryIds)}</p>
+                <p className="text-gray-600 mb-2">{book.writerNames.join(', ') || 'Unknown author'}</p>
+                <p className="text-gray-500 mb-2">{book.categoryNames.join(', ')}</p>
                 <div className="flex flex-wrap gap-2 text-gray-600 mb-3">
                   <span>ISBN: {book.isbn}</span>
                   {book.labelNumber && <span>Label: {book.labelNumber}</span>}
@@ -702,18 +751,22 @@ export function Books({ onViewBook }: BooksProps) {
                   >
                     View
                   </button>
-                  <button
-                    onClick={() => handleEdit(book)}
-                    className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg border border-blue-600"
-                  >
-                    <Edit2 className="w-4 h-4" />
-                  </button>
-                  <button
-                    onClick={() => handleDelete(book.id)}
-                    className="p-2 text-red-600 hover:bg-red-50 rounded-lg border border-red-600"
-                  >
-                    <Trash2 className="w-4 h-4" />
-                  </button>
+                  {authApi.can('catalog:write') && (
+                    <button
+                      onClick={() => handleEdit(book)}
+                      className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg border border-blue-600"
+                    >
+                      <Edit2 className="w-4 h-4" />
+                    </button>
+                  )}
+                  {authApi.can('catalog:delete') && (
+                    <button
+                      onClick={() => handleDelete(book.id)}
+                      className="p-2 text-red-600 hover:bg-red-50 rounded-lg border border-red-600"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  )}
                 </div>
               </div>
             </div>
@@ -721,88 +774,13 @@ export function Books({ onViewBook }: BooksProps) {
         )}
       </div>
 
-      {/* Pagination */}
-      {books.length > itemsPerPage && (
-        <div className="mt-8 flex items-center justify-between bg-white rounded-lg shadow-sm border border-gray-200 p-4">
-          <div className="flex items-center gap-2 text-gray-600">
-            <span className="text-sm">
-              Showing {(currentPage - 1) * itemsPerPage + 1} to {Math.min(currentPage * itemsPerPage, books.length)} of {books.length} books
-            </span>
-          </div>
-          
-          <div className="flex items-center gap-2">
-            {/* First Page Button */}
-            <button
-              onClick={() => setCurrentPage(1)}
-              disabled={currentPage === 1}
-              className="p-2 rounded-lg border border-gray-300 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
-              title="First page"
-            >
-              <ChevronsLeft className="w-5 h-5" />
-            </button>
-            
-            {/* Previous Page Button */}
-            <button
-              onClick={() => setCurrentPage(prev => Math.max(1, prev - 1))}
-              disabled={currentPage === 1}
-              className="p-2 rounded-lg border border-gray-300 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
-              title="Previous page"
-            >
-              <ChevronLeft className="w-5 h-5" />
-            </button>
-            
-            {/* Page Numbers */}
-            <div className="flex items-center gap-1">
-              {Array.from({ length: Math.min(5, totalPages) }, (_, i) => {
-                let pageNum: number;
-                if (totalPages <= 5) {
-                  pageNum = i + 1;
-                } else if (currentPage <= 3) {
-                  pageNum = i + 1;
-                } else if (currentPage >= totalPages - 2) {
-                  pageNum = totalPages - 4 + i;
-                } else {
-                  pageNum = currentPage - 2 + i;
-                }
-                
-                return (
-                  <button
-                    key={pageNum}
-                    onClick={() => setCurrentPage(pageNum)}
-                    className={`px-3 py-1 rounded-lg text-sm font-medium transition-colors ${
-                      currentPage === pageNum
-                        ? 'bg-blue-600 text-white'
-                        : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
-                    }`}
-                  >
-                    {pageNum}
-                  </button>
-                );
-              })}
-            </div>
-            
-            {/* Next Page Button */}
-            <button
-              onClick={() => setCurrentPage(prev => Math.min(totalPages, prev + 1))}
-              disabled={currentPage === totalPages}
-              className="p-2 rounded-lg border border-gray-300 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
-              title="Next page"
-            >
-              <ChevronRight className="w-5 h-5" />
-            </button>
-            
-            {/* Last Page Button */}
-            <button
-              onClick={() => setCurrentPage(totalPages)}
-              disabled={currentPage === totalPages}
-              className="p-2 rounded-lg border border-gray-300 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
-              title="Last page"
-            >
-              <ChevronsRight className="w-5 h-5" />
-            </button>
-          </div>
-        </div>
-      )}
+      <Pagination
+        page={currentPage}
+        pageSize={PAGE_SIZE}
+        total={totalBooks}
+        noun="books"
+        onPageChange={setCurrentPage}
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,245 @@
+import { useState, useEffect } from 'react';
+import { Plus, Edit2, X, Building2 } from 'lucide-react';
+import type { Branch } from '../App';
+import { branchesApi, type BranchInput } from '../utils/api';
+
+const emptyBranchForm: BranchInput = {
+  name: '',
+  code: '',
+  address: '',
+  isActive: true,
+};
+
+/**
+ * The library's branches. A branch that closes is marked inactive rather
+ * than deleted, since its copies and past loans still point at it.
+ */
+export function Branches() {
+  const [branches, setBranches] = useState<Branch[]>([]);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingBranch, setEditingBranch] = useState<Branch | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [formData, setFormData] = useState<BranchInput>(emptyBranchForm);
+
+  useEffect(() => {
+    loadBranches();
+  }, []);
+
+  const loadBranches = async () => {
+    try {
+      setLoading(true);
+      setBranches(await branchesApi.getAll(true));
+    } catch (error) {
+      console.error('Error loading branches:', error);
+      alert('Failed to load branches. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    try {
+      setLoading(true);
+      if (editingBranch) {
+        await branchesApi.update(editingBranch.id, formData);
+      } else {
+        await branchesApi.create(formData);
+      }
+      await loadBranches();
+      resetForm();
+    } catch (error: any) {
+      console.error('Error saving branch:', error);
+      setError(error.message || 'Failed to save branch. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleEdit = (branch: Branch) => {
+    setEditingBranch(branch);
+    setFormData({
+      name: branch.name,
+      code: branch.code,
+      address: branch.address || '',
+      isActive: branch.isActive,
+    });
+    setError('');
+    setIsFormOpen(true);
+  };
+
+  const resetForm = () => {
+    setFormData(emptyBranchForm);
+    setEditingBranch(null);
+    setError('');
+    setIsFormOpen(false);
+  };
+
+  const inputClass = 'w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-gray-900">Branches</h1>
+        <button
+          onClick={() => setIsFormOpen(true)}
+          className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 flex items-center gap-2"
+        >
+          <Plus className="w-5 h-5" />
+          Add Branch
+        </button>
+      </div>
+
+      {/* Form Modal */}
+      {isFormOpen && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-lg shadow-xl w-full max-w-md">
+            <form onSubmit={handleSubmit}>
+              <div className="flex justify-between items-center p-6 border-b border-gray-200">
+                <h2 className="text-gray-900">
+                  {editingBranch ? 'Edit Branch' : 'Add Branch'}
+                </h2>
+                <button
+                  type="button"
+                  onClick={resetForm}
+                  className="text-gray-400 hover:text-gray-600"
+                >
+                  <X className="w-6 h-6" />
+                </button>
+              </div>
+
+              <div className="p-6 space-y-4">
+                {error && (
+                  <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+                    <p className="text-red-600">{error}</p>
+                  </div>
+                )}
+
+                <div>
+                  <label className="block text-gray-700 mb-2">Name *</label>
+                  <input
+                    type="text"
+                    value={formData.name}
+                    onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                    className={inputClass}
+                    required
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-gray-700 mb-2">Code *</label>
+                  <input
+                    type="text"
+                    value={formData.code}
+                    onChange={(e) => setFormData({ ...formData, code: e.target.value.toUpperCase() })}
+                    className={inputClass}
+                    placeholder="Short code, e.g. NORTH"
+                    maxLength={20}
+                    required
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-gray-700 mb-2">Address</label>
+                  <input
+                    type="text"
+                    value={formData.address || ''}
+                    onChange={(e) => setFormData({ ...formData, address: e.target.value })}
+                    className={inputClass}
+                  />
+                </div>
+
+                {editingBranch && (
+                  <label className="flex items-center gap-2 text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={formData.isActive}
+                      onChange={(e) => setFormData({ ...formData, isActive: e.target.checked })}
+                    />
+                    Branch open
+                  </label>
+                )}
+              </div>
+
+              <div className="flex gap-2 p-6 border-t border-gray-200">
+                <button
+                  type="submit"
+                  disabled={loading}
+                  className="flex-1 bg-blue-600 text-white py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {editingBranch ? 'Update' : 'Create'}
+                </button>
+                <button
+                  type="button"
+                  onClick={resetForm}
+                  className="flex-1 bg-gray-200 text-gray-700 py-2 rounded-lg hover:bg-gray-300"
+                >
+                  Cancel
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {/* Branch List */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-gray-700">Name</th>
+                <th className="px-6 py-3 text-left text-gray-700">Code</th>
+                <th className="px-6 py-3 text-left text-gray-700">Address</th>
+                <th className="px-6 py-3 text-right text-gray-700">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {branches.length === 0 ? (
+                <tr>
+                  <td colSpan={4} className="px-6 py-8 text-center text-gray-500">
+                    {loading ? 'Loading branches...' : 'No branches yet'}
+                  </td>
+                </tr>
+              ) : (
+                branches.map((branch) => (
+                  <tr key={branch.id} className={`hover:bg-gray-50 ${branch.isActive ? '' : 'opacity-50'}`}>
+                    <td className="px-6 py-4">
+                      <div className="flex items-center gap-3">
+                        <div className="w-10 h-10 bg-blue-100 rounded-full flex items-center justify-center">
+                          <Building2 className="w-5 h-5 text-blue-600" />
+                        </div>
+                        <span className="text-gray-900">{branch.name}</span>
+                        {!branch.isActive && (
+                          <span className="px-2 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-700">
+                            Closed
+                          </span>
+                        )}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 text-gray-600">{branch.code}</td>
+                    <td className="px-6 py-4 text-gray-600">{branch.address || '-'}</td>
+                    <td className="px-6 py-4">
+                      <div className="flex justify-end gap-2">
+                        <button
+                          onClick={() => handleEdit(branch)}
+                          className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg"
+                          title="Edit Branch"
+                        >
+                          <Edit2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
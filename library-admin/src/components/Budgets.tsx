@@ -0,0 +1,280 @@
+import { useState, useEffect } from 'react';
+import { Plus } from 'lucide-react';
+import type { AcquisitionSettings, BudgetLine, BudgetSummary, Category } from '../App';
+import { budgetsApi, categoriesApi } from '../utils/api';
+import { formatMoney } from '../utils/format';
+
+const MONTHS = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+];
+
+/**
+ * Each category's budget for a fiscal year against what's been spent on it:
+ * received (spent), ordered but not arrived (on order), and still on draft
+ * orders, which don't count yet.
+ */
+export function Budgets() {
+  const [settings, setSettings] = useState<AcquisitionSettings | null>(null);
+  const [fiscalYear, setFiscalYear] = useState<number | null>(null);
+  const [summary, setSummary] = useState<BudgetSummary | null>(null);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [amounts, setAmounts] = useState<Record<string, string>>({});
+  const [newBudget, setNewBudget] = useState({ categoryId: '', amount: '' });
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    budgetsApi.getSettings()
+      .then(loaded => {
+        setSettings(loaded);
+        setFiscalYear(loaded.currentFiscalYear);
+      })
+      .catch(error => console.error('Error loading acquisition settings:', error));
+    categoriesApi.getAll().then(setCategories).catch(error => console.error('Error loading categories:', error));
+  }, []);
+
+  useEffect(() => {
+    if (fiscalYear !== null) {
+      loadSummary();
+    }
+  }, [fiscalYear]);
+
+  const loadSummary = async () => {
+    if (fiscalYear === null) return;
+    try {
+      setLoading(true);
+      const loaded = await budgetsApi.getSummary(fiscalYear);
+      setSummary(loaded);
+      setAmounts(Object.fromEntries(
+        loaded.categories
+          .filter(row => row.categoryId)
+          .map(row => [row.categoryId as string, row.budget === null ? '' : String(row.budget)])
+      ));
+    } catch (error) {
+      console.error('Error loading budgets:', error);
+      alert('Failed to load budgets. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const saveBudget = async (categoryId: string, amount: string) => {
+    if (fiscalYear === null) return;
+    try {
+      await budgetsApi.set(fiscalYear, categoryId, amount.trim() === '' ? null : Number(amount));
+      await loadSummary();
+    } catch (error: any) {
+      console.error('Error saving budget:', error);
+      alert(error.message || 'Failed to save the budget. Please try again.');
+    }
+  };
+
+  const handleBudgetBlur = (row: BudgetLine) => {
+    if (!row.categoryId) return;
+    const amount = amounts[row.categoryId] ?? '';
+    if (amount === (row.budget === null ? '' : String(row.budget))) return;
+    saveBudget(row.categoryId, amount);
+  };
+
+  const handleAddBudget = async (e: React.FormEvent) => {
+    e.preventDefault();
+    await saveBudget(newBudget.categoryId, newBudget.amount);
+    setNewBudget({ categoryId: '', amount: '' });
+  };
+
+  const handleStartMonthChange = async (month: number) => {
+    try {
+      const saved = await budgetsApi.saveSettings(month);
+      setSettings(saved);
+      // The year's dates move with its start; a different year reloads by itself
+      if (saved.currentFiscalYear === fiscalYear) {
+        await loadSummary();
+      } else {
+        setFiscalYear(saved.currentFiscalYear);
+      }
+    } catch (error: any) {
+      console.error('Error saving acquisition settings:', error);
+      alert(error.message || 'Failed to save the setting. Please try again.');
+    }
+  };
+
+  const formatDate = (dateString: string) =>
+    new Date(`${dateString}T00:00:00`).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+    });
+
+  const inputClass = 'w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+  if (!settings || fiscalYear === null) {
+    return <p className="text-gray-500">Loading budgets...</p>;
+  }
+
+  const years = [settings.currentFiscalYear - 2, settings.currentFiscalYear - 1, settings.currentFiscalYear, settings.currentFiscalYear + 1];
+  const budgeted = new Set(summary?.categories.filter(row => row.budget !== null).map(row => row.categoryId));
+  const totals = summary?.totals;
+  const totalRemaining = totals ? totals.budget - totals.spent - totals.onOrder : 0;
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h1 className="text-gray-900">Budgets</h1>
+          {summary && (
+            <p className="text-gray-600">{formatDate(summary.startsOn)} to {formatDate(summary.endsOn)}</p>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          <select
+            value={fiscalYear}
+            onChange={(e) => setFiscalYear(Number(e.target.value))}
+            className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            {years.map(year => (
+              <option key={year} value={year}>
+                Fiscal year {year}{year === settings.currentFiscalYear ? ' (current)' : ''}
+              </option>
+            ))}
+          </select>
+          <select
+            value={settings.fiscalYearStartMonth}
+            onChange={(e) => handleStartMonthChange(Number(e.target.value))}
+            className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            title="Month the fiscal year starts in"
+          >
+            {MONTHS.map((month, index) => (
+              <option key={month} value={index + 1}>Starts in {month}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {/* Totals */}
+      {totals && (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+            <p className="text-gray-600">Budget</p>
+            <p className="text-gray-900 text-xl">{formatMoney(totals.budget)}</p>
+          </div>
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+            <p className="text-gray-600">Spent</p>
+            <p className="text-gray-900 text-xl">{formatMoney(totals.spent)}</p>
+          </div>
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+            <p className="text-gray-600">On order</p>
+            <p className="text-gray-900 text-xl">{formatMoney(totals.onOrder)}</p>
+            {totals.inDraft > 0 && <p className="text-gray-500 text-sm">{formatMoney(totals.inDraft)} more in drafts</p>}
+          </div>
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+            <p className="text-gray-600">Remaining</p>
+            <p className={`text-xl ${totalRemaining < 0 ? 'text-red-600' : 'text-green-700'}`}>{formatMoney(totalRemaining)}</p>
+          </div>
+        </div>
+      )}
+
+      {/* Per category */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-gray-700">Category</th>
+                <th className="px-6 py-3 text-left text-gray-700">Budget</th>
+                <th className="px-6 py-3 text-right text-gray-700">Spent</th>
+                <th className="px-6 py-3 text-right text-gray-700">On Order</th>
+                <th className="px-6 py-3 text-right text-gray-700">In Drafts</th>
+                <th className="px-6 py-3 text-right text-gray-700">Remaining</th>
+                <th className="px-6 py-3 text-left text-gray-700">Used</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {!summary || summary.categories.length === 0 ? (
+                <tr>
+                  <td colSpan={7} className="px-6 py-8 text-center text-gray-500">
+                    {loading ? 'Loading budgets...' : 'No budgets or orders for this fiscal year yet'}
+                  </td>
+                </tr>
+              ) : (
+                summary.categories.map((row) => {
+                  const used = row.budget ? Math.min(100, ((row.spent + row.onOrder) / row.budget) * 100) : 0;
+                  const over = row.remaining !== null && row.remaining < 0;
+                  return (
+                    <tr key={row.categoryId || 'none'} className="hover:bg-gray-50">
+                      <td className="px-6 py-4 text-gray-900">{row.categoryName || 'No category'}</td>
+                      <td className="px-6 py-4">
+                        {row.categoryId ? (
+                          <input
+                            type="number"
+                            min="0"
+                            step="0.01"
+                            value={amounts[row.categoryId] ?? ''}
+                            onChange={(e) => setAmounts({ ...amounts, [row.categoryId as string]: e.target.value })}
+                            onBlur={() => handleBudgetBlur(row)}
+                            onKeyDown={(e) => e.key === 'Enter' && (e.target as HTMLInputElement).blur()}
+                            className="w-32 px-3 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                            placeholder="No budget"
+                          />
+                        ) : (
+                          <span className="text-gray-500">-</span>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 text-right text-gray-900">{formatMoney(row.spent)}</td>
+                      <td className="px-6 py-4 text-right text-gray-600">{formatMoney(row.onOrder)}</td>
+                      <td className="px-6 py-4 text-right text-gray-500">{formatMoney(row.inDraft)}</td>
+                      <td className={`px-6 py-4 text-right ${over ? 'text-red-600' : 'text-gray-900'}`}>
+                        {row.remaining === null ? '-' : formatMoney(row.remaining)}
+                      </td>
+                      <td className="px-6 py-4">
+                        {row.budget !== null && (
+                          <div className="w-32 h-2 bg-gray-100 rounded-full overflow-hidden">
+                            <div
+                              className={`h-2 ${over ? 'bg-red-500' : used > 90 ? 'bg-yellow-500' : 'bg-green-500'}`}
+                              style={{ width: `${used}%` }}
+                            />
+                          </div>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        {/* Add a budget for another category */}
+        <form onSubmit={handleAddBudget} className="flex gap-2 p-6 border-t border-gray-200">
+          <select
+            value={newBudget.categoryId}
+            onChange={(e) => setNewBudget({ ...newBudget, categoryId: e.target.value })}
+            className={inputClass}
+            required
+          >
+            <option value="">Set a budget for a category...</option>
+            {categories.filter(category => !budgeted.has(category.id)).map(category => (
+              <option key={category.id} value={category.id}>{category.name}</option>
+            ))}
+          </select>
+          <input
+            type="number"
+            min="0"
+            step="0.01"
+            value={newBudget.amount}
+            onChange={(e) => setNewBudget({ ...newBudget, amount: e.target.value })}
+            className={inputClass}
+            placeholder="Amount"
+            required
+          />
+          <button
+            type="submit"
+            className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 flex items-center gap-2 whitespace-nowrap"
+          >
+            <Plus className="w-4 h-4" />
+            Add Budget
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+}
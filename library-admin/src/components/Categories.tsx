@@ -1,7 +1,7 @@
 import { useState, useEffect } from 'react';
 import { Plus, Edit2, Trash2, X } from 'lucide-react';
 import type { Category } from '../App';
-import { categoriesApi } from '../utils/api';
+import { categoriesApi, authApi } from '../utils/api';
 
 type CategoriesProps = {
   onNavigateToCategory?: (categoryId: string) => void;
@@ -97,13 +97,15 @@ export function Categories({ onNavigateToCategory }: CategoriesProps) {
     <div>
       <div className="flex justify-between items-center mb-6">
         <h1 className="text-gray-900">Book Categories</h1>
-        <button
-          onClick={() => setIsFormOpen(true)}
-          className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 flex items-center gap-2"
-        >
-          <Plus className="w-5 h-5" />
-          Add Category
-        </button>
+        {authApi.can('catalog:write') && (
+          <button
+            onClick={() => setIsFormOpen(true)}
+            className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 flex items-center gap-2"
+          >
+            <Plus className="w-5 h-5" />
+            Add Category
+          </button>
+        )}
       </div>
 
       {/* Category Form Modal */}
@@ -202,18 +204,22 @@ export function Categories({ onNavigateToCategory }: CategoriesProps) {
                   <p className="text-gray-600">{category.description}</p>
                 </div>
                 <div className="flex gap-2 ml-4">
-                  <button
-                    onClick={() => handleEdit(category)}
-                    className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg"
-                  >
-                    <Edit2 className="w-4 h-4" />
-                  </button>
-                  <button
-                    onClick={() => handleDelete(category.id)}
-                    className="p-2 text-red-600 hover:bg-red-50 rounded-lg"
-                  >
-                    <Trash2 className="w-4 h-4" />
-                  </button>
+                  {authApi.can('catalog:write') && (
+                    <button
+                      onClick={() => handleEdit(category)}
+                      className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg"
+                    >
+                      <Edit2 className="w-4 h-4" />
+                    </button>
+                  )}
+                  {authApi.can('catalog:delete') && (
+                    <button
+                      onClick={() => handleDelete(category.id)}
+                      className="p-2 text-red-600 hover:bg-red-50 rounded-lg"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  )}
                 </div>
               </div>
             ))}
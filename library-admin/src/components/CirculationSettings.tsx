@@ -0,0 +1,556 @@
+import { useState, useEffect } from 'react';
+import { Plus, Edit2, Trash2, X, Coins } from 'lucide-react';
+import type { Category, FineRule, RenewalSettings, HoldSettings, LossSettings } from '../App';
+import { finesApi, categoriesApi, issuesApi, holdsApi } from '../utils/api';
+import { formatMoney } from '../utils/format';
+import { LoanPolicies } from './LoanPolicies';
+
+type RuleScope = 'default' | 'bookType' | 'category';
+
+const emptyRuleForm = {
+  scope: 'default' as RuleScope,
+  bookType: 'Paperback',
+  categoryId: '',
+  dailyRate: '0.25',
+  graceDays: '0',
+  maxAmount: '',
+};
+
+export function CirculationSettings() {
+  const [rules, setRules] = useState<FineRule[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [blockThreshold, setBlockThreshold] = useState('');
+  const [renewalSettings, setRenewalSettings] = useState<RenewalSettings>({
+    maxRenewals: 2,
+    maxOverdueDays: 7,
+  });
+  const [holdSettings, setHoldSettings] = useState<HoldSettings>({ pickupDays: 3 });
+  const [lossSettings, setLossSettings] = useState<LossSettings>({ replacementCharge: 25, damageCharge: 5 });
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingRule, setEditingRule] = useState<FineRule | null>(null);
+  const [formData, setFormData] = useState(emptyRuleForm);
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [savedMessage, setSavedMessage] = useState('');
+
+  useEffect(() => {
+    loadSettings();
+  }, []);
+
+  const loadSettings = async () => {
+    try {
+      setLoading(true);
+      const [rulesData, settings, categoriesData, renewals, holds, losses] = await Promise.all([
+        finesApi.getRules(),
+        finesApi.getSettings(),
+        categoriesApi.getAll(),
+        issuesApi.getRenewalSettings(),
+        holdsApi.getSettings(),
+        issuesApi.getLossSettings(),
+      ]);
+      setRules(rulesData);
+      setRenewalSettings(renewals);
+      setHoldSettings(holds);
+      setLossSettings(losses);
+      setBlockThreshold(settings.blockThreshold !== null ? String(settings.blockThreshold) : '');
+      setCategories(categoriesData);
+    } catch (error) {
+      console.error('Error loading circulation settings:', error);
+      alert('Failed to load circulation settings. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSaveThreshold = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const saved = await finesApi.updateSettings({
+        blockThreshold: blockThreshold.trim() === '' ? null : Number(blockThreshold),
+      });
+      setBlockThreshold(saved.blockThreshold !== null ? String(saved.blockThreshold) : '');
+      setSavedMessage('Fine settings saved');
+      setTimeout(() => setSavedMessage(''), 3000);
+    } catch (error: any) {
+      console.error('Error saving fine settings:', error);
+      alert(error.message || 'Failed to save fine settings. Please try again.');
+    }
+  };
+
+  const handleSaveRenewals = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setRenewalSettings(await issuesApi.updateRenewalSettings(renewalSettings));
+      setSavedMessage('Renewal settings saved');
+      setTimeout(() => setSavedMessage(''), 3000);
+    } catch (error: any) {
+      console.error('Error saving renewal settings:', error);
+      alert(error.message || 'Failed to save renewal settings. Please try again.');
+    }
+  };
+
+  const handleSaveHolds = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setHoldSettings(await holdsApi.updateSettings(holdSettings));
+      setSavedMessage('Hold settings saved');
+      setTimeout(() => setSavedMessage(''), 3000);
+    } catch (error: any) {
+      console.error('Error saving hold settings:', error);
+      alert(error.message || 'Failed to save hold settings. Please try again.');
+    }
+  };
+
+  const handleSaveLosses = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setLossSettings(await issuesApi.updateLossSettings(lossSettings));
+      setSavedMessage('Lost and damaged book charges saved');
+      setTimeout(() => setSavedMessage(''), 3000);
+    } catch (error: any) {
+      console.error('Error saving loss settings:', error);
+      alert(error.message || 'Failed to save lost and damaged book charges. Please try again.');
+    }
+  };
+
+  const handleSubmitRule = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    const rule = {
+      bookType: formData.scope === 'bookType' ? formData.bookType : null,
+      categoryId: formData.scope === 'category' ? formData.categoryId : null,
+      dailyRate: Number(formData.dailyRate),
+      graceDays: Number(formData.graceDays),
+      maxAmount: formData.maxAmount.trim() === '' ? null : Number(formData.maxAmount),
+    };
+
+    try {
+      setLoading(true);
+      if (editingRule) {
+        await finesApi.updateRule(editingRule.id, rule);
+      } else {
+        await finesApi.createRule(rule);
+      }
+      setRules(await finesApi.getRules());
+      resetForm();
+    } catch (error: any) {
+      console.error('Error saving fine rule:', error);
+      setError(error.message || 'Failed to save fine rule. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleEdit = (rule: FineRule) => {
+    setEditingRule(rule);
+    setFormData({
+      scope: rule.bookType ? 'bookType' : rule.categoryId ? 'category' : 'default',
+      bookType: rule.bookType || 'Paperback',
+      categoryId: rule.categoryId || '',
+      dailyRate: String(rule.dailyRate),
+      graceDays: String(rule.graceDays),
+      maxAmount: rule.maxAmount !== null ? String(rule.maxAmount) : '',
+    });
+    setError('');
+    setIsFormOpen(true);
+  };
+
+  const handleDelete = async (rule: FineRule) => {
+    if (!confirm(`Delete the fine rule for ${describeScope(rule)}?`)) return;
+    try {
+      await finesApi.deleteRule(rule.id);
+      setRules(rules.filter(r => r.id !== rule.id));
+    } catch (error) {
+      console.error('Error deleting fine rule:', error);
+      alert('Failed to delete fine rule. Please try again.');
+    }
+  };
+
+  const resetForm = () => {
+    setFormData(emptyRuleForm);
+    setEditingRule(null);
+    setError('');
+    setIsFormOpen(false);
+  };
+
+  const describeScope = (rule: FineRule) => {
+    if (rule.bookType) return `Book type: ${rule.bookType}`;
+    if (rule.categoryId) return `Category: ${rule.categoryName || rule.categoryId}`;
+    return 'All books (default)';
+  };
+
+  const inputClass =
+    'w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+  return (
+    <div>
+      <h1 className="text-gray-900 mb-6">Circulation Settings</h1>
+
+      {savedMessage && (
+        <div className="bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded-lg mb-6">
+          {savedMessage}
+        </div>
+      )}
+
+      {/* Borrowing block */}
+      <form
+        onSubmit={handleSaveThreshold}
+        className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 mb-6"
+      >
+        <h2 className="text-gray-900 mb-2">Unpaid Fines</h2>
+        <p className="text-gray-600 mb-4">
+          Users who owe more than this amount cannot borrow until they pay. Leave empty to never block.
+        </p>
+        <div className="flex gap-2 max-w-md">
+          <input
+            type="number"
+            min="0"
+            step="0.01"
+            value={blockThreshold}
+            onChange={(e) => setBlockThreshold(e.target.value)}
+            className={inputClass}
+            placeholder="No limit"
+          />
+          <button
+            type="submit"
+            className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700"
+          >
+            Save
+          </button>
+        </div>
+      </form>
+
+      {/* Renewals */}
+      <form
+        onSubmit={handleSaveRenewals}
+        className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 mb-6"
+      >
+        <h2 className="text-gray-900 mb-2">Renewals</h2>
+        <p className="text-gray-600 mb-4">
+          Renewing a loan moves its due date forward by its borrowing policy's loan period,
+          without returning the book. An overdue loan is fined for the days it's late and
+          renewed from today. A borrowing policy's renewal limit overrides the default below.
+        </p>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+          <div>
+            <label className="block text-gray-700 mb-2">Renewals Per Loan (default)</label>
+            <input
+              type="number"
+              min="0"
+              step="1"
+              value={renewalSettings.maxRenewals}
+              onChange={(e) => setRenewalSettings({ ...renewalSettings, maxRenewals: Number(e.target.value) })}
+              className={inputClass}
+              required
+            />
+          </div>
+          <div>
+            <label className="block text-gray-700 mb-2">Refuse If Overdue By (days)</label>
+            <input
+              type="number"
+              min="0"
+              step="1"
+              value={renewalSettings.maxOverdueDays}
+              onChange={(e) => setRenewalSettings({ ...renewalSettings, maxOverdueDays: Number(e.target.value) })}
+              className={inputClass}
+              required
+            />
+          </div>
+        </div>
+        <button
+          type="submit"
+          className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700"
+        >
+          Save
+        </button>
+      </form>
+
+      {/* Holds */}
+      <form
+        onSubmit={handleSaveHolds}
+        className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 mb-6"
+      >
+        <h2 className="text-gray-900 mb-2">Holds</h2>
+        <p className="text-gray-600 mb-4">
+          A returned copy is kept on the hold shelf for the next patron in the queue for this many days.
+          Uncollected holds expire and the copy passes to the next patron.
+        </p>
+        <div className="flex gap-4 items-end">
+          <div className="flex-1 max-w-xs">
+            <label className="block text-gray-700 mb-2">Pickup Window (days)</label>
+            <input
+              type="number"
+              min="1"
+              step="1"
+              value={holdSettings.pickupDays}
+              onChange={(e) => setHoldSettings({ pickupDays: Number(e.target.value) })}
+              className={inputClass}
+              required
+            />
+          </div>
+          <button
+            type="submit"
+            className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700"
+          >
+            Save
+          </button>
+        </div>
+      </form>
+
+      {/* Lost and damaged books */}
+      <form
+        onSubmit={handleSaveLosses}
+        className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 mb-6"
+      >
+        <h2 className="text-gray-900 mb-2">Lost &amp; Damaged Books</h2>
+        <p className="text-gray-600 mb-4">
+          Charged when a loan is marked lost or returned damaged. Staff can change the amount for each loan.
+          A lost book's charge is reversed if it is returned or written off.
+        </p>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4 max-w-xl">
+          <div>
+            <label className="block text-gray-700 mb-2">Replacement Charge</label>
+            <input
+              type="number"
+              min="0"
+              step="0.01"
+              value={lossSettings.replacementCharge}
+              onChange={(e) => setLossSettings({ ...lossSettings, replacementCharge: Number(e.target.value) })}
+              className={inputClass}
+              required
+            />
+          </div>
+          <div>
+            <label className="block text-gray-700 mb-2">Damage Charge</label>
+            <input
+              type="number"
+              min="0"
+              step="0.01"
+              value={lossSettings.damageCharge}
+              onChange={(e) => setLossSettings({ ...lossSettings, damageCharge: Number(e.target.value) })}
+              className={inputClass}
+              required
+            />
+          </div>
+        </div>
+        <button
+          type="submit"
+          className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700"
+        >
+          Save
+        </button>
+      </form>
+
+      <LoanPolicies categories={categories} />
+
+      {/* Fine rules */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+        <div className="flex justify-between items-center p-6 border-b border-gray-200">
+          <div>
+            <h2 className="text-gray-900">Fine Rules</h2>
+            <p className="text-gray-600">
+              Book type rules take precedence over category rules, which take precedence over the default.
+            </p>
+          </div>
+          <button
+            onClick={() => setIsFormOpen(true)}
+            className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 flex items-center gap-2"
+          >
+            <Plus className="w-5 h-5" />
+            Add Rule
+          </button>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-gray-700">Applies To</th>
+                <th className="px-6 py-3 text-left text-gray-700">Per Day</th>
+                <th className="px-6 py-3 text-left text-gray-700">Grace Period</th>
+                <th className="px-6 py-3 text-left text-gray-700">Maximum</th>
+                <th className="px-6 py-3 text-right text-gray-700">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {rules.length === 0 ? (
+                <tr>
+                  <td colSpan={5} className="px-6 py-8 text-center text-gray-500">
+                    {loading ? 'Loading fine rules...' : 'No fine rules yet - late returns are not fined'}
+                  </td>
+                </tr>
+              ) : (
+                rules.map((rule) => (
+                  <tr key={rule.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4">
+                      <div className="flex items-center gap-3">
+                        <Coins className="w-5 h-5 text-amber-600" />
+                        <span className="text-gray-900">{describeScope(rule)}</span>
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 text-gray-600">{formatMoney(rule.dailyRate)}</td>
+                    <td className="px-6 py-4 text-gray-600">
+                      {rule.graceDays} {rule.graceDays === 1 ? 'day' : 'days'}
+                    </td>
+                    <td className="px-6 py-4 text-gray-600">
+                      {rule.maxAmount !== null ? formatMoney(rule.maxAmount) : 'No cap'}
+                    </td>
+                    <td className="px-6 py-4">
+                      <div className="flex justify-end gap-2">
+                        <button
+                          onClick={() => handleEdit(rule)}
+                          className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg"
+                          title="Edit Rule"
+                        >
+                          <Edit2 className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => handleDelete(rule)}
+                          className="p-2 text-red-600 hover:bg-red-50 rounded-lg"
+                          title="Delete Rule"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Rule Form Modal */}
+      {isFormOpen && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-lg shadow-xl w-full max-w-md">
+            <form onSubmit={handleSubmitRule}>
+              <div className="flex justify-between items-center p-6 border-b border-gray-200">
+                <h2 className="text-gray-900">{editingRule ? 'Edit Fine Rule' : 'Add Fine Rule'}</h2>
+                <button
+                  type="button"
+                  onClick={resetForm}
+                  className="text-gray-400 hover:text-gray-600"
+                >
+                  <X className="w-6 h-6" />
+                </button>
+              </div>
+
+              <div className="p-6 space-y-4">
+                {error && (
+                  <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+                    <p className="text-red-600">{error}</p>
+                  </div>
+                )}
+
+                <div>
+                  <label className="block text-gray-700 mb-2">Applies To</label>
+                  <select
+                    value={formData.scope}
+                    onChange={(e) => setFormData({ ...formData, scope: e.target.value as RuleScope })}
+                    className={inputClass}
+                  >
+                    <option value="default">All books (default)</option>
+                    <option value="bookType">A book type</option>
+                    <option value="category">A category</option>
+                  </select>
+                </div>
+
+                {formData.scope === 'bookType' && (
+                  <div>
+                    <label className="block text-gray-700 mb-2">Book Type</label>
+                    <select
+                      value={formData.bookType}
+                      onChange={(e) => setFormData({ ...formData, bookType: e.target.value })}
+                      className={inputClass}
+                    >
+                      <option value="Paperback">Paperback</option>
+                      <option value="Hardcover">Hardcover</option>
+                    </select>
+                  </div>
+                )}
+
+                {formData.scope === 'category' && (
+                  <div>
+                    <label className="block text-gray-700 mb-2">Category *</label>
+                    <select
+                      value={formData.categoryId}
+                      onChange={(e) => setFormData({ ...formData, categoryId: e.target.value })}
+                      className={inputClass}
+                      required
+                    >
+                      <option value="">Select a category</option>
+                      {categories.map(category => (
+                        <option key={category.id} value={category.id}>{category.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+
+                <div>
+                  <label className="block text-gray-700 mb-2">Fine Per Day *</label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={formData.dailyRate}
+                    onChange={(e) => setFormData({ ...formData, dailyRate: e.target.value })}
+                    className={inputClass}
+                    required
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-gray-700 mb-2">Grace Period (days)</label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="1"
+                    value={formData.graceDays}
+                    onChange={(e) => setFormData({ ...formData, graceDays: e.target.value })}
+                    className={inputClass}
+                    required
+                  />
+                  <p className="text-gray-600 mt-1 text-sm">
+                    Returns within the grace period are not fined; after it, only the extra days are charged.
+                  </p>
+                </div>
+
+                <div>
+                  <label className="block text-gray-700 mb-2">Maximum Fine</label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={formData.maxAmount}
+                    onChange={(e) => setFormData({ ...formData, maxAmount: e.target.value })}
+                    className={inputClass}
+                    placeholder="No cap"
+                  />
+                </div>
+              </div>
+
+              <div className="flex gap-2 p-6 border-t border-gray-200">
+                <button
+                  type="submit"
+                  disabled={loading}
+                  className="flex-1 bg-blue-600 text-white py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {editingRule ? 'Update' : 'Create'}
+                </button>
+                <button
+                  type="button"
+                  onClick={resetForm}
+                  className="flex-1 bg-gray-200 text-gray-700 py-2 rounded-lg hover:bg-gray-300"
+                >
+                  Cancel
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
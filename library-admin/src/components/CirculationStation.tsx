@@ -0,0 +1,466 @@
+import { useState, useEffect, useRef } from 'react';
+import { ArrowLeft, ScanBarcode, Upload, Download, X, CheckCircle, AlertTriangle, User as UserIcon } from 'lucide-react';
+import type { PatronLookup } from '../App';
+import { usersApi, copiesApi, issuesApi, authApi } from '../utils/api';
+import type { IssueResult } from '../utils/api';
+import { formatMoney } from '../utils/format';
+
+type CirculationStationProps = {
+  onBack: () => void;
+};
+
+type Mode = 'checkout' | 'return';
+
+type CartItem = {
+  barcode: string;
+  bookTitle: string;
+  dueDate: string | null;
+};
+
+type ReceiptLine = {
+  id: number;
+  barcode: string;
+  ok: boolean;
+  title: string;
+  detail: string;
+  fine: number;
+};
+
+type Feedback = { ok: boolean; message: string };
+
+let audioContext: AudioContext | null = null;
+
+/**
+ * Beep through the speakers so staff don't have to watch the screen while
+ * scanning: one high tone for a good scan, two low buzzes for a problem, a
+ * rising pair when a returned book has to go to the hold shelf
+ */
+const playTone = (kind: 'ok' | 'error' | 'attention') => {
+  try {
+    audioContext = audioContext || new AudioContext();
+    const tones = {
+      ok: [[880, 0, 0.12]],
+      error: [[220, 0, 0.15], [220, 0.2, 0.15]],
+      attention: [[660, 0, 0.12], [990, 0.15, 0.2]],
+    }[kind];
+    for (const [frequency, start, duration] of tones) {
+      const oscillator = audioContext.createOscillator();
+      const gain = audioContext.createGain();
+      oscillator.type = kind === 'error' ? 'square' : 'sine';
+      oscillator.frequency.value = frequency;
+      gain.gain.value = 0.15;
+      oscillator.connect(gain).connect(audioContext.destination);
+      oscillator.start(audioContext.currentTime + start);
+      oscillator.stop(audioContext.currentTime + start + duration);
+    }
+  } catch (error) {
+    // No audio device - the screen still shows what happened
+  }
+};
+
+const newBatchKey = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+
+/**
+ * Circulation station for USB barcode scanners (which type the code and
+ * press Enter). Checkout: scan a library card, then any number of copies,
+ * then press Enter on an empty scan (or Complete Checkout) to lend them all
+ * at once. Return: scan copies one after another; each is returned straight
+ * away and added to the receipt.
+ */
+export function CirculationStation({ onBack }: CirculationStationProps) {
+  const canIssue = authApi.can('circulation:issue');
+  const canReceive = authApi.can('circulation:receive');
+  const [mode, setMode] = useState<Mode>(canIssue ? 'checkout' : 'return');
+  const [scan, setScan] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [feedback, setFeedback] = useState<Feedback | null>(null);
+  const [patron, setPatron] = useState<PatronLookup | null>(null);
+  const [cart, setCart] = useState<CartItem[]>([]);
+  const [issued, setIssued] = useState<IssueResult[]>([]);
+  const [batchKey, setBatchKey] = useState(newBatchKey);
+  const [receipt, setReceipt] = useState<ReceiptLine[]>([]);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const receiptLineId = useRef(0);
+
+  // Keep the scan box focused so the scanner's keystrokes always land in it
+  useEffect(() => {
+    if (!busy) {
+      inputRef.current?.focus();
+    }
+  }, [busy, mode, patron]);
+
+  const signal = (ok: boolean, message: string, tone: 'ok' | 'error' | 'attention' = ok ? 'ok' : 'error') => {
+    playTone(tone);
+    setFeedback({ ok, message });
+  };
+
+  const switchMode = (next: Mode) => {
+    setMode(next);
+    setFeedback(null);
+    resetCheckout();
+  };
+
+  const resetCheckout = () => {
+    setPatron(null);
+    setCart([]);
+    setBatchKey(newBatchKey());
+  };
+
+  const handleScan = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const code = scan.trim();
+    setScan('');
+    if (busy) return;
+
+    try {
+      setBusy(true);
+      if (mode === 'return') {
+        if (code) await returnCopy(code);
+      } else if (!code) {
+        if (patron && cart.length > 0) await completeCheckout();
+      } else if (!patron) {
+        await scanPatron(code);
+      } else {
+        await scanItem(code);
+      }
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const scanPatron = async (code: string) => {
+    try {
+      const found = await usersApi.lookup(code);
+      setPatron(found);
+      setIssued([]);
+      const warnings = [
+        found.overdue > 0 && `${found.overdue} overdue`,
+        found.fineBalance > 0 && `owes ${formatMoney(found.fineBalance)}`,
+        found.readyHolds > 0 && `${found.readyHolds} hold(s) waiting on the hold shelf`,
+      ].filter(Boolean);
+      signal(
+        true,
+        `${found.name} - scan the books to lend` + (warnings.length > 0 ? ` (${warnings.join(', ')})` : ''),
+        warnings.length > 0 ? 'attention' : 'ok'
+      );
+    } catch (error: any) {
+      signal(false, error.message || `No patron found for ${code}`);
+    }
+  };
+
+  const scanItem = async (code: string) => {
+    if (cart.some(item => item.barcode === code)) {
+      signal(false, `${code} is already in this checkout`);
+      return;
+    }
+
+    let copy;
+    try {
+      copy = await copiesApi.lookup(code);
+    } catch (error: any) {
+      // Another library card means the next patron is at the desk
+      if (cart.length === 0) {
+        try {
+          await usersApi.lookup(code);
+          await scanPatron(code);
+          return;
+        } catch {
+          // Neither a copy nor a card - report the copy lookup error
+        }
+      }
+      signal(false, error.message || `No copy has the barcode ${code}`);
+      return;
+    }
+
+    if (copy.status !== 'available') {
+      signal(false, `${code} "${copy.bookTitle}" is ${copy.status.replace('_', ' ')}`);
+      return;
+    }
+
+    // Borrowing policy check; the server checks again when the batch is issued
+    try {
+      const check = await issuesApi.check(patron!.id, copy.bookId);
+      if (check.errors.length > 0) {
+        signal(false, `"${copy.bookTitle}": ${check.errors[0].message}`);
+        return;
+      }
+      setCart([...cart, { barcode: code, bookTitle: copy.bookTitle, dueDate: check.dueDate }]);
+      signal(true, `Added "${copy.bookTitle}"${check.dueDate ? ` - due ${formatDay(check.dueDate)}` : ''}`);
+    } catch (error: any) {
+      signal(false, error.message || 'Could not check this book. Please try again.');
+    }
+  };
+
+  const completeCheckout = async () => {
+    if (!patron || cart.length === 0) return;
+    try {
+      setBusy(true);
+      const loans = await issuesApi.issueBatch(patron.id, cart.map(item => item.barcode), batchKey);
+      setIssued(loans);
+      signal(true, `Issued ${loans.length} book(s) to ${patron.name}`);
+      resetCheckout();
+    } catch (error: any) {
+      // Nothing was issued - drop the problem copy and let staff try again
+      // The server names the copy that failed at the start of the message
+      const failed = cart.find(item => String(error.message).startsWith(`${item.barcode}:`));
+      if (failed) {
+        setCart(cart.filter(item => item !== failed));
+      }
+      setBatchKey(newBatchKey());
+      signal(false, `Nothing was issued. ${error.message}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const returnCopy = async (code: string) => {
+    const id = ++receiptLineId.current;
+    try {
+      const returned = await issuesApi.returnByBarcode(code);
+      const details = [
+        `from ${returned.userName}`,
+        returned.fine && `${returned.fine.daysLate} day(s) late, fined ${formatMoney(returned.fine.amount)}`,
+        returned.reversal && `${formatMoney(returned.reversal.amount)} replacement charge reversed`,
+        returned.hold && `HOLD SHELF for ${returned.hold.userName}`,
+        returned.transfer && `SEND TO ${returned.transfer.toBranchName}`,
+        returned.reclaim && `HAND BACK TO ${returned.reclaim.ownerName || 'its owner'}`,
+      ].filter(Boolean);
+      setReceipt(lines => [{
+        id,
+        barcode: code,
+        ok: true,
+        title: returned.bookTitle || code,
+        detail: details.join(' · '),
+        fine: returned.fine?.amount || 0,
+      }, ...lines]);
+      if (returned.reclaim) {
+        signal(true, `Set "${returned.bookTitle}" aside for its owner, ${returned.reclaim.ownerName || 'who asked for it back'}`, 'attention');
+      } else if (returned.hold) {
+        signal(true, `Put "${returned.bookTitle}" on the hold shelf for ${returned.hold.userName}`, 'attention');
+      } else if (returned.transfer) {
+        signal(true, `Set "${returned.bookTitle}" aside to go back to ${returned.transfer.toBranchName}`, 'attention');
+      } else {
+        signal(true, `Returned "${returned.bookTitle}"`);
+      }
+    } catch (error: any) {
+      setReceipt(lines => [{ id, barcode: code, ok: false, title: code, detail: error.message, fine: 0 }, ...lines]);
+      signal(false, error.message || `Could not return ${code}`);
+    }
+  };
+
+  const formatDay = (date: string) => {
+    const [year, month, day] = date.slice(0, 10).split('-').map(Number);
+    return new Date(year, month - 1, day).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+    });
+  };
+
+  const returnedLines = receipt.filter(line => line.ok);
+  const finesCharged = returnedLines.reduce((sum, line) => sum + line.fine, 0);
+
+  const prompt = mode === 'return'
+    ? 'Scan a book to return it'
+    : patron
+      ? 'Scan a book to add it, or press Enter to finish'
+      : 'Scan a library card (or type a phone number or email)';
+
+  return (
+    <div onClick={() => inputRef.current?.focus()}>
+      <button
+        onClick={onBack}
+        className="flex items-center gap-2 text-blue-600 hover:underline mb-6"
+      >
+        <ArrowLeft className="w-5 h-5" />
+        Back to Dashboard
+      </button>
+
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-gray-900">Circulation Station</h1>
+        <div className="flex gap-2">
+          {canIssue && (
+            <button
+              onClick={() => switchMode('checkout')}
+              className={`px-4 py-2 rounded-lg flex items-center gap-2 ${
+                mode === 'checkout' ? 'bg-green-600 text-white' : 'bg-white border border-gray-300 text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              <Upload className="w-5 h-5" />
+              Checkout
+            </button>
+          )}
+          {canReceive && (
+            <button
+              onClick={() => switchMode('return')}
+              className={`px-4 py-2 rounded-lg flex items-center gap-2 ${
+                mode === 'return' ? 'bg-blue-600 text-white' : 'bg-white border border-gray-300 text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              <Download className="w-5 h-5" />
+              Return
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* Scan box */}
+      <form
+        onSubmit={handleScan}
+        className={`rounded-lg border-2 p-6 mb-6 transition-colors ${
+          !feedback ? 'bg-white border-gray-200'
+            : feedback.ok ? 'bg-green-50 border-green-400' : 'bg-red-50 border-red-400'
+        }`}
+      >
+        <label className="block text-gray-700 mb-2">{prompt}</label>
+        <div className="relative">
+          <ScanBarcode className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-6 h-6" />
+          <input
+            ref={inputRef}
+            type="text"
+            value={scan}
+            onChange={(e) => setScan(e.target.value)}
+            className="w-full pl-12 pr-4 py-3 text-lg border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent font-mono"
+            autoComplete="off"
+            autoFocus
+          />
+        </div>
+        {feedback && (
+          <p className={`mt-3 flex items-center gap-2 ${feedback.ok ? 'text-green-700' : 'text-red-700'}`}>
+            {feedback.ok ? <CheckCircle className="w-5 h-5" /> : <AlertTriangle className="w-5 h-5" />}
+            {feedback.message}
+          </p>
+        )}
+      </form>
+
+      {mode === 'checkout' ? (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+            <h2 className="text-gray-900 mb-4">Patron</h2>
+            {patron ? (
+              <div>
+                <div className="flex items-center gap-3 mb-3">
+                  <div className="bg-blue-100 p-2 rounded-full">
+                    <UserIcon className="w-5 h-5 text-blue-600" />
+                  </div>
+                  <div>
+                    <p className="text-gray-900">{patron.name}</p>
+                    <p className="text-gray-600 text-sm">{patron.cardNumber || patron.phone}</p>
+                  </div>
+                </div>
+                <div className="space-y-1 text-gray-600">
+                  <p>On loan: {patron.onLoan}</p>
+                  <p className={patron.overdue > 0 ? 'text-red-600' : ''}>Overdue: {patron.overdue}</p>
+                  <p className={patron.fineBalance > 0 ? 'text-red-600' : ''}>Fines: {formatMoney(patron.fineBalance)}</p>
+                  {patron.readyHolds > 0 && (
+                    <p className="text-orange-600">{patron.readyHolds} hold(s) ready to collect</p>
+                  )}
+                </div>
+                <button
+                  onClick={resetCheckout}
+                  className="mt-4 text-gray-600 hover:text-gray-900 flex items-center gap-1"
+                >
+                  <X className="w-4 h-4" />
+                  Cancel checkout
+                </button>
+              </div>
+            ) : (
+              <p className="text-gray-500">Scan a library card to start</p>
+            )}
+          </div>
+
+          <div className="lg:col-span-2 bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+            {issued.length > 0 && cart.length === 0 ? (
+              <>
+                <h2 className="text-gray-900 mb-4">Issued</h2>
+                <ul className="divide-y mb-4">
+                  {issued.map(loan => (
+                    <li key={loan.id} className="py-2 flex justify-between">
+                      <span className="text-gray-900">{loan.bookTitle} <span className="text-gray-500 font-mono text-sm">{loan.copyBarcode}</span></span>
+                      <span className="text-gray-600">Due {formatDay(loan.dueDate)}</span>
+                    </li>
+                  ))}
+                </ul>
+                <p className="text-gray-500">Scan the next library card</p>
+              </>
+            ) : (
+              <>
+                <h2 className="text-gray-900 mb-4">Books to Issue ({cart.length})</h2>
+                {cart.length === 0 ? (
+                  <p className="text-gray-500">{patron ? 'Scan each book' : 'No books scanned yet'}</p>
+                ) : (
+                  <ul className="divide-y mb-4">
+                    {cart.map(item => (
+                      <li key={item.barcode} className="py-2 flex justify-between items-center">
+                        <span className="text-gray-900">
+                          {item.bookTitle} <span className="text-gray-500 font-mono text-sm">{item.barcode}</span>
+                        </span>
+                        <span className="flex items-center gap-3 text-gray-600">
+                          {item.dueDate && `Due ${formatDay(item.dueDate)}`}
+                          <button
+                            onClick={() => setCart(cart.filter(i => i.barcode !== item.barcode))}
+                            className="p-1 text-red-600 hover:bg-red-50 rounded"
+                            title="Remove"
+                          >
+                            <X className="w-4 h-4" />
+                          </button>
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                <button
+                  onClick={completeCheckout}
+                  disabled={!patron || cart.length === 0 || busy}
+                  className="w-full bg-green-600 text-white py-3 rounded-lg hover:bg-green-700 disabled:opacity-50"
+                >
+                  Complete Checkout
+                </button>
+              </>
+            )}
+          </div>
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+          <div className="flex justify-between items-center p-6 border-b border-gray-200">
+            <div>
+              <h2 className="text-gray-900">Receipt</h2>
+              <p className="text-gray-600">
+                {returnedLines.length} returned
+                {finesCharged > 0 && ` · ${formatMoney(finesCharged)} in late fines`}
+                {receipt.length > returnedLines.length && ` · ${receipt.length - returnedLines.length} problem(s)`}
+              </p>
+            </div>
+            {receipt.length > 0 && (
+              <button onClick={() => setReceipt([])} className="text-gray-600 hover:text-gray-900">
+                Clear
+              </button>
+            )}
+          </div>
+          {receipt.length === 0 ? (
+            <p className="p-8 text-center text-gray-500">Returned books will be listed here</p>
+          ) : (
+            <ul className="divide-y">
+              {receipt.map(line => (
+                <li key={line.id} className={`px-6 py-3 flex items-start gap-3 ${line.ok ? '' : 'bg-red-50'}`}>
+                  {line.ok
+                    ? <CheckCircle className="w-5 h-5 text-green-600 mt-0.5" />
+                    : <AlertTriangle className="w-5 h-5 text-red-600 mt-0.5" />}
+                  <div>
+                    <p className="text-gray-900">
+                      {line.title} {line.ok && <span className="text-gray-500 font-mono text-sm">{line.barcode}</span>}
+                    </p>
+                    <p className={line.ok ? 'text-gray-600' : 'text-red-700'}>{line.detail}</p>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
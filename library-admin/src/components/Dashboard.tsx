@@ -1,7 +1,6 @@
 import { useEffect, useState } from 'react';
-import { BookOpen, Users, FolderTree, Upload, Download, Search } from 'lucide-react';
-import type { Book, Writer, Category, BookIssue } from '../App';
-import { booksApi, categoriesApi, writersApi, issuesApi } from '../utils/api';
+import { BookOpen, Users, FolderTree, Upload, Download, Search, ScanBarcode } from 'lucide-react';
+import { statsApi, authApi } from '../utils/api';
 
 type DashboardProps = {
   onNavigate: (page: any) => void;
@@ -24,23 +23,14 @@ export function Dashboard({ onNavigate }: DashboardProps) {
   const loadStats = async () => {
     try {
       setLoading(true);
-      const [books, categories, writers, issues] = await Promise.all([
-        booksApi.getAll(),
-        categoriesApi.getAll(),
-        writersApi.getAll(),
-        issuesApi.getAll(),
-      ]);
-
-      const totalCopies = books.reduce((sum, book) => sum + book.totalCopies, 0);
-      const availableCopies = books.reduce((sum, book) => sum + book.availableCopies, 0);
-      const issuedCount = issues.filter(issue => issue.status === 'issued').length;
+      const totals = await statsApi.get();
 
       setStats({
-        totalBooks: books.length,
-        availableBooks: availableCopies,
-        issuedBooks: issuedCount,
-        totalCategories: categories.length,
-        totalWriters: writers.length,
+        totalBooks: totals.totalBooks,
+        availableBooks: totals.availableCopies,
+        issuedBooks: totals.issuedLoans,
+        totalCategories: totals.totalCategories,
+        totalWriters: totals.totalWriters,
       });
     } catch (error) {
       console.error('Error loading dashboard stats:', error);
@@ -50,10 +40,11 @@ export function Dashboard({ onNavigate }: DashboardProps) {
   };
 
   const quickActions = [
-    { icon: Upload, label: 'Issue Book', color: 'bg-green-500', onClick: () => onNavigate({ type: 'issue-book' }) },
-    { icon: Download, label: 'Receive Book', color: 'bg-blue-500', onClick: () => onNavigate({ type: 'receive-book' }) },
-    { icon: Search, label: 'Search Books', color: 'bg-purple-500', onClick: () => onNavigate({ type: 'search' }) },
-  ];
+    { icon: Upload, label: 'Issue Book', color: 'bg-green-500', onClick: () => onNavigate({ type: 'issue-book' }), visible: authApi.can('circulation:issue') },
+    { icon: Download, label: 'Receive Book', color: 'bg-blue-500', onClick: () => onNavigate({ type: 'receive-book' }), visible: authApi.can('circulation:receive') },
+    { icon: ScanBarcode, label: 'Circulation Station', color: 'bg-orange-500', onClick: () => onNavigate({ type: 'circulation-station' }), visible: authApi.can('circulation:issue') || authApi.can('circulation:receive') },
+    { icon: Search, label: 'Search Books', color: 'bg-purple-500', onClick: () => onNavigate({ type: 'search' }), visible: true },
+  ].filter(action => action.visible);
 
   return (
     <div>
@@ -115,7 +106,7 @@ export function Dashboard({ onNavigate }: DashboardProps) {
       {/* Quick Actions */}
       <div>
         <h2 className="text-gray-900 mb-4">Quick Actions</h2>
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
           {quickActions.map((action, index) => (
             <button
               key={index}
@@ -0,0 +1,204 @@
+import { useState, useEffect } from 'react';
+import { X, Receipt } from 'lucide-react';
+import type { User, FineEntry } from '../App';
+import { finesApi, authApi } from '../utils/api';
+import { formatMoney } from '../utils/format';
+
+type FinesLedgerProps = {
+  user: User;
+  onClose: () => void;
+  onBalanceChange?: (balance: number) => void;
+};
+
+const ENTRY_LABELS: Record<FineEntry['type'], string> = {
+  fine: 'Fine',
+  payment: 'Payment',
+  waiver: 'Waiver',
+};
+
+const CHARGE_LABELS: Record<NonNullable<FineEntry['chargeType']>, string> = {
+  late: 'Late fine',
+  replacement: 'Replacement',
+  damage: 'Damage',
+};
+
+/**
+ * Modal with a user's fines ledger, plus forms to take a payment or waive fines
+ */
+export function FinesLedger({ user, onClose, onBalanceChange }: FinesLedgerProps) {
+  const [entries, setEntries] = useState<FineEntry[]>([]);
+  const [balance, setBalance] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [mode, setMode] = useState<'payment' | 'waiver'>('payment');
+  const [amount, setAmount] = useState('');
+  const [note, setNote] = useState('');
+  const [error, setError] = useState('');
+
+  const canCollect = authApi.can('fines:collect');
+  const canWaive = authApi.can('fines:waive');
+
+  useEffect(() => {
+    loadLedger();
+  }, [user.id]);
+
+  const loadLedger = async () => {
+    try {
+      setLoading(true);
+      const data = await finesApi.getLedger(user.id);
+      setEntries(data.entries);
+      setBalance(data.balance);
+      setAmount(data.balance > 0 ? data.balance.toFixed(2) : '');
+    } catch (error) {
+      console.error('Error loading fines:', error);
+      alert('Failed to load fines. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    try {
+      const result = mode === 'payment'
+        ? await finesApi.recordPayment(user.id, Number(amount), note)
+        : await finesApi.waive(user.id, Number(amount), note);
+      setNote('');
+      onBalanceChange?.(result.balance);
+      await loadLedger();
+    } catch (error: any) {
+      console.error('Error recording fine credit:', error);
+      setError(error.message || 'Failed to record. Please try again.');
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl max-h-[90vh] flex flex-col">
+        <div className="flex justify-between items-center p-6 border-b border-gray-200">
+          <div>
+            <h2 className="text-gray-900 text-xl font-semibold">Fines</h2>
+            <p className="text-gray-600 text-sm mt-1">{user.name}</p>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6">
+          <div className={`p-4 rounded-lg mb-6 border ${
+            balance > 0 ? 'bg-red-50 border-red-200' : 'bg-green-50 border-green-200'
+          }`}>
+            <p className={balance > 0 ? 'text-red-900' : 'text-green-900'}>
+              Outstanding balance: {formatMoney(balance)}
+            </p>
+          </div>
+
+          {balance > 0 && (canCollect || canWaive) && (
+            <form onSubmit={handleSubmit} className="border border-gray-200 rounded-lg p-4 mb-6 space-y-3">
+              <div className="flex gap-2">
+                {canCollect && (
+                  <button
+                    type="button"
+                    onClick={() => setMode('payment')}
+                    className={`px-3 py-1 rounded-lg ${mode === 'payment' ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700'}`}
+                  >
+                    Take Payment
+                  </button>
+                )}
+                {canWaive && (
+                  <button
+                    type="button"
+                    onClick={() => setMode('waiver')}
+                    className={`px-3 py-1 rounded-lg ${mode === 'waiver' ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700'}`}
+                  >
+                    Waive
+                  </button>
+                )}
+              </div>
+              {error && <p className="text-red-600">{error}</p>}
+              <div className="flex gap-2">
+                <input
+                  type="number"
+                  min="0.01"
+                  max={balance}
+                  step="0.01"
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                  className="w-32 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  required
+                />
+                <input
+                  type="text"
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  placeholder={mode === 'waiver' ? 'Reason for waiving (required)' : 'Note (optional)'}
+                  required={mode === 'waiver'}
+                />
+                <button
+                  type="submit"
+                  className="bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700"
+                >
+                  {mode === 'payment' ? 'Record Payment' : 'Waive'}
+                </button>
+              </div>
+            </form>
+          )}
+
+          {loading ? (
+            <div className="text-center py-12">
+              <p className="text-gray-600">Loading fines...</p>
+            </div>
+          ) : entries.length === 0 ? (
+            <div className="text-center py-12">
+              <Receipt className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+              <p className="text-gray-600">No fines recorded for this user</p>
+            </div>
+          ) : (
+            <table className="w-full">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-left text-gray-700 font-semibold">Date</th>
+                  <th className="px-4 py-3 text-left text-gray-700 font-semibold">Type</th>
+                  <th className="px-4 py-3 text-left text-gray-700 font-semibold">Details</th>
+                  <th className="px-4 py-3 text-right text-gray-700 font-semibold">Amount</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {entries.map((entry) => (
+                  <tr key={entry.id} className="hover:bg-gray-50">
+                    <td className="px-4 py-3 text-gray-600">{formatDate(entry.createdAt)}</td>
+                    <td className="px-4 py-3 text-gray-900">
+                      {entry.type === 'fine' && entry.chargeType ? CHARGE_LABELS[entry.chargeType] : ENTRY_LABELS[entry.type]}
+                    </td>
+                    <td className="px-4 py-3 text-gray-600">
+                      {[entry.bookTitle, entry.note, entry.createdByName && `by ${entry.createdByName}`]
+                        .filter(Boolean)
+                        .join(' · ')}
+                    </td>
+                    <td className={`px-4 py-3 text-right ${entry.type === 'fine' ? 'text-red-600' : 'text-green-600'}`}>
+                      {entry.type === 'fine' ? '' : '-'}{formatMoney(entry.amount)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,143 @@
+import { useState, useEffect } from 'react';
+import { Clock, X } from 'lucide-react';
+import type { Book, Hold } from '../App';
+import { holdsApi, authApi, patronApi } from '../utils/api';
+
+type HoldQueueProps = {
+  book: Book;
+  waitingCount: number;
+  onChange: () => void;
+};
+
+/**
+ * Waitlist for a title: queue length and a hold button for signed-in
+ * patrons, plus the full queue with cancel buttons for circulation staff.
+ */
+export function HoldQueue({ book, waitingCount, onChange }: HoldQueueProps) {
+  const [holds, setHolds] = useState<Hold[]>([]);
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const canManage = authApi.can('circulation:issue');
+  // Patrons place holds on their own account, so only once signed in
+  const patron = patronApi.getCurrentPatron();
+
+  useEffect(() => {
+    loadHolds();
+  }, [book.id, waitingCount]);
+
+  const loadHolds = async () => {
+    if (!canManage) return;
+    try {
+      setHolds(await holdsApi.getAll({ bookId: book.id }));
+    } catch (error) {
+      console.error('Error loading holds:', error);
+    }
+  };
+
+  const handlePlaceHold = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setMessage('');
+    try {
+      setSubmitting(true);
+      const result = await patronApi.placeHold(book.id);
+      setMessage(`Hold placed - you are number ${result.position} in the queue`);
+      loadHolds();
+      onChange();
+    } catch (error: any) {
+      console.error('Error placing hold:', error);
+      setError(error.message || 'Failed to place hold. Please try again.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleCancel = async (hold: Hold) => {
+    if (!confirm(`Cancel ${hold.userName}'s hold?`)) return;
+    try {
+      await holdsApi.cancel(hold.id);
+      loadHolds();
+      onChange();
+    } catch (error: any) {
+      console.error('Error cancelling hold:', error);
+      alert(error.message || 'Failed to cancel hold. Please try again.');
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+    });
+  };
+
+  if (book.availableCopies > 0 && holds.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="border-t border-gray-200 p-6">
+      <h2 className="text-gray-900 mb-2 flex items-center gap-2">
+        <Clock className="w-5 h-5 text-gray-400" />
+        Waitlist
+      </h2>
+      <p className="text-gray-600 mb-4">
+        {waitingCount === 0
+          ? 'Nobody is waiting for this book.'
+          : `${waitingCount} ${waitingCount === 1 ? 'person is' : 'people are'} waiting for this book.`}
+      </p>
+
+      {book.availableCopies === 0 && (
+        <form onSubmit={handlePlaceHold} className="mb-4">
+          <p className="text-gray-700 mb-2">
+            Place a hold - we'll keep the next returned copy for you
+          </p>
+          {patron ? (
+            <button
+              type="submit"
+              disabled={submitting}
+              className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50"
+            >
+              Place Hold as {patron.name}
+            </button>
+          ) : (
+            <p className="text-gray-600">Sign in under My Account to place a hold.</p>
+          )}
+          {message && <p className="text-green-700 mt-2">{message}</p>}
+          {error && <p className="text-red-600 mt-2">{error}</p>}
+        </form>
+      )}
+
+      {canManage && holds.length > 0 && (
+        <div className="space-y-2">
+          {holds.map((hold) => (
+            <div
+              key={hold.id}
+              className="border border-gray-200 rounded-lg p-3 flex items-center justify-between"
+            >
+              <div>
+                <p className="text-gray-900">
+                  {hold.status === 'ready' ? 'On hold shelf' : `#${hold.position}`} · {hold.userName}
+                </p>
+                <p className="text-gray-600 text-sm">
+                  {hold.userPhone} · placed {formatDate(hold.createdAt)}
+                  {hold.expiresAt && ` · collect by ${formatDate(hold.expiresAt)}`}
+                </p>
+              </div>
+              <button
+                onClick={() => handleCancel(hold)}
+                className="p-2 text-red-600 hover:bg-red-50 rounded-lg"
+                title="Cancel Hold"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,15 +1,29 @@
 import { useState, useEffect } from 'react';
 import { ArrowLeft, Search, User } from 'lucide-react';
-import type { Book, BookIssue, User as UserType } from '../App';
-import { booksApi, usersApi, issuesApi } from '../utils/api';
+import type { Book, Hold, LoanCheck, User as UserType } from '../App';
+import { booksApi, usersApi, issuesApi, holdsApi, authApi, searchApi } from '../utils/api';
+import { formatMoney } from '../utils/format';
+import { useListSearch } from '../utils/hooks';
 
 type IssueBookProps = {
   onBack: () => void;
 };
 
+// Copies on the shelf at the branch staff are working at - the only ones they
+// can lend. Sessions without a branch lend from anywhere.
+const availableAtBranch = (book: Book, branchId: string | undefined) =>
+  branchId
+    ? book.branchAvailability?.find(entry => entry.branchId === branchId)?.available || 0
+    : book.availableCopies;
+
+// Identifies one Issue click so a retry can't create a second loan
+const newIssueKey = () =>
+  typeof crypto.randomUUID === 'function'
+    ? crypto.randomUUID()
+    : `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+
 export function IssueBook({ onBack }: IssueBookProps) {
-  const [books, setBooks] = useState<Book[]>([]);
-  const [localUsers, setLocalUsers] = useState<UserType[]>([]);
+  const branch = authApi.getCurrentStaff()?.branch;
   const [selectedBook, setSelectedBook] = useState<Book | null>(null);
   const [bookSearchQuery, setBookSearchQuery] = useState('');
   const [showBookDropdown, setShowBookDropdown] = useState(false);
@@ -20,43 +34,39 @@ export function IssueBook({ onBack }: IssueBookProps) {
     name: string;
     phone: string;
     email: string;
+    fineBalance: number;
   } | null>(null);
-  const [dueDate, setDueDate] = useState('');
+  const [userHolds, setUserHolds] = useState<Hold[]>([]);
+  const [loanCheck, setLoanCheck] = useState<LoanCheck | null>(null);
+  const [issueKey, setIssueKey] = useState(newIssueKey);
+  const [issuing, setIssuing] = useState(false);
   const [successMessage, setSuccessMessage] = useState('');
-  const [loading, setLoading] = useState(true);
-
-  useEffect(() => {
-    loadBooks();
-    loadLocalUsers();
-    // Set default due date to 2 weeks from now
-    const twoWeeksFromNow = new Date();
-    twoWeeksFromNow.setDate(twoWeeksFromNow.getDate() + 14);
-    setDueDate(twoWeeksFromNow.toISOString().split('T')[0]);
-  }, []);
 
-  const loadBooks = async () => {
-    try {
-      setLoading(true);
-      const allBooks = await booksApi.getAll();
-      // Only show books with available copies
-      const availableBooks = allBooks.filter(book => book.availableCopies > 0);
-      setBooks(availableBooks);
-    } catch (error) {
-      console.error('Error loading books:', error);
-      alert('Failed to load books. Please try again.');
-    } finally {
-      setLoading(false);
-    }
-  };
+  // Books with no copies left are still listed: they can be issued to the
+  // patron whose hold is on the hold shelf, or held for the selected user
+  // Both forgive typos and accents in titles, writers' and patrons' names
+  const filteredBooks = useListSearch(bookSearchQuery, (q) => searchApi.pickBooks(q));
+  const filteredLocalUsers = useListSearch(userSearchQuery, async (q) =>
+    (await usersApi.list({ q, limit: 20 })).items);
 
-  const loadLocalUsers = async () => {
-    try {
-      const allUsers = await usersApi.getAll();
-      setLocalUsers(allUsers);
-    } catch (error) {
-      console.error('Error loading users:', error);
+  // The borrowing policy for this user and book decides the due date and
+  // whether the loan is allowed at all (loan limits, fines, reference-only)
+  useEffect(() => {
+    setLoanCheck(null);
+    setIssueKey(newIssueKey());
+    if (!selectedBook || !userDetails) {
+      return;
     }
-  };
+    let cancelled = false;
+    issuesApi.check(userDetails.userId, selectedBook.id)
+      .then(check => {
+        if (!cancelled) setLoanCheck(check);
+      })
+      .catch(error => console.error('Error checking borrowing policy:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedBook?.id, userDetails?.userId]);
 
   const handleSelectLocalUser = (user: UserType) => {
     setUserDetails({
@@ -64,32 +74,21 @@ export function IssueBook({ onBack }: IssueBookProps) {
       name: user.name,
       phone: user.phone,
       email: user.email,
+      fineBalance: user.fineBalance || 0,
     });
     setUserSearchQuery('');
     setShowUserDropdown(false);
+    loadUserHolds(user.id);
   };
 
-  const filteredLocalUsers = localUsers.filter(user => {
-    const query = userSearchQuery.toLowerCase().trim();
-    if (query.length < 3) return false;
-    
-    return (
-      user.name.toLowerCase().includes(query) ||
-      user.phone.toLowerCase().includes(query) ||
-      user.email.toLowerCase().includes(query)
-    );
-  });
-
-  const filteredBooks = books.filter(book => {
-    const query = bookSearchQuery.toLowerCase().trim();
-    if (query.length < 3) return false;
-    
-    return (
-      book.title.toLowerCase().includes(query) ||
-      book.isbn.toLowerCase().includes(query) ||
-      (book.labelNumber && book.labelNumber.toLowerCase().includes(query))
-    );
-  });
+  const loadUserHolds = async (userId: string) => {
+    try {
+      setUserHolds(await holdsApi.getAll({ userId }));
+    } catch (error) {
+      console.error('Error loading holds:', error);
+      setUserHolds([]);
+    }
+  };
 
   const handleSelectBook = (book: Book) => {
     setSelectedBook(book);
@@ -97,44 +96,76 @@ export function IssueBook({ onBack }: IssueBookProps) {
     setShowBookDropdown(false);
   };
 
-  const handleIssueBook = async () => {
+  const isBlockedByPolicy = !loanCheck || !loanCheck.allowed;
+
+  const selectedBookHold = selectedBook
+    ? userHolds.find(hold => hold.bookId === selectedBook.id)
+    : undefined;
+  // A book with no copies on the shelf here can only go to the patron whose hold is ready
+  const canIssueSelectedBook = !!selectedBook
+    && (availableAtBranch(selectedBook, branch?.id) > 0 || selectedBookHold?.status === 'ready');
+
+  const handlePlaceHold = async () => {
     if (!selectedBook || !userDetails) {
       return;
     }
 
     try {
-      // Create new issue - backend handles availableCopies decrement
-      const newIssue: BookIssue = {
-        id: Date.now().toString(),
+      const hold = await holdsApi.place(selectedBook.id, userDetails.userId);
+      setSuccessMessage(`${userDetails.name} is number ${hold.position} in the queue for "${selectedBook.title}"`);
+      await loadUserHolds(userDetails.userId);
+
+      setTimeout(() => {
+        setSuccessMessage('');
+      }, 3000);
+    } catch (error: any) {
+      console.error('Error placing hold:', error);
+      alert(error.message || 'Failed to place hold. Please try again.');
+    }
+  };
+
+  const handleIssueBook = async () => {
+    if (!selectedBook || !userDetails || isBlockedByPolicy || !canIssueSelectedBook || issuing) {
+      return;
+    }
+
+    try {
+      setIssuing(true);
+      // Backend sets the dates from the borrowing policy and handles availableCopies
+      const issued = await issuesApi.create({
         bookId: selectedBook.id,
         userId: userDetails.userId,
-        userName: userDetails.name,
-        userPhone: userDetails.phone,
-        userEmail: userDetails.email,
-        issueDate: new Date().toISOString().split('T')[0],
-        dueDate: dueDate,
-        status: 'issued',
-      };
-
-      await issuesApi.create(newIssue);
+      }, issueKey);
 
       // Show success message and reset
-      setSuccessMessage(`Book "${selectedBook.title}" issued to ${userDetails.name}`);
+      setSuccessMessage(`Book "${selectedBook.title}" issued to ${userDetails.name}, due ${formatDate(issued.dueDate)}`);
       setSelectedBook(null);
       setUserDetails(null);
+      setUserHolds([]);
       setUserSearchQuery('');
       setBookSearchQuery('');
-      await loadBooks();
 
       setTimeout(() => {
         setSuccessMessage('');
       }, 3000);
-    } catch (error) {
+    } catch (error: any) {
       console.error('Error issuing book:', error);
-      alert('Failed to issue book. Please try again.');
+      alert(error.message || 'Failed to issue book. Please try again.');
+      // Someone else may have just taken the last copy - show current availability
+      setSelectedBook(await booksApi.getById(selectedBook.id).catch(() => null));
+    } finally {
+      setIssuing(false);
     }
   };
 
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+    });
+  };
+
   return (
     <div>
       <button
@@ -193,9 +224,7 @@ export function IssueBook({ onBack }: IssueBookProps) {
                 </div>
               </div>
               <p className="text-gray-600 mt-1">
-                {userSearchQuery.trim().length > 0 && userSearchQuery.trim().length < 3 
-                  ? 'Type at least 3 characters to search' 
-                  : 'Search and select a user from the database'}
+                Search and select a user from the database
               </p>
             </div>
 
@@ -213,19 +242,23 @@ export function IssueBook({ onBack }: IssueBookProps) {
                 <div className="space-y-1 text-gray-600">
                   <p>Phone: {userDetails.phone}</p>
                   <p>Email: {userDetails.email}</p>
+                  <p className={userDetails.fineBalance > 0 ? 'text-red-600' : ''}>
+                    Fines due: {formatMoney(userDetails.fineBalance)}
+                  </p>
                 </div>
               </div>
             )}
 
             <div>
               <label className="block text-gray-700 mb-2">Due Date</label>
-              <input
-                type="date"
-                value={dueDate}
-                onChange={(e) => setDueDate(e.target.value)}
-                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-              />
-              <p className="text-gray-600 mt-1">Default: 2 weeks from today</p>
+              <p className="text-gray-900">
+                {loanCheck?.dueDate ? formatDate(loanCheck.dueDate) : '-'}
+              </p>
+              <p className="text-gray-600 mt-1">
+                {loanCheck?.policy
+                  ? `${loanCheck.policy.loanDays}-day loan under the borrowing policy`
+                  : 'Set by the borrowing policy once a user and book are selected'}
+              </p>
             </div>
           </div>
         </div>
@@ -261,7 +294,7 @@ export function IssueBook({ onBack }: IssueBookProps) {
                           >
                             <p className="text-gray-900">{book.title}</p>
                             <p className="text-gray-600">
-                              ISBN: {book.isbn} {book.labelNumber && `| Label: ${book.labelNumber}`} | Available: {book.availableCopies}
+                              ISBN: {book.isbn} {book.labelNumber && `| Label: ${book.labelNumber}`} | Available{branch ? ' here' : ''}: {availableAtBranch(book, branch?.id)}
                             </p>
                           </button>
                         ))}
@@ -271,9 +304,7 @@ export function IssueBook({ onBack }: IssueBookProps) {
                 </div>
               </div>
               <p className="text-gray-600 mt-1">
-                {bookSearchQuery.trim().length > 0 && bookSearchQuery.trim().length < 3 
-                  ? 'Type at least 3 characters to search' 
-                  : 'Search and select a book from the database'}
+                Search and select a book from the database
               </p>
             </div>
 
@@ -290,19 +321,63 @@ export function IssueBook({ onBack }: IssueBookProps) {
                 </div>
                 <div className="space-y-1 text-gray-600">
                   <p>Label: {selectedBook.labelNumber}</p>
-                  <p>Available Copies: {selectedBook.availableCopies}</p>
+                  <p>Available Copies{branch ? ` at ${branch.name}` : ''}: {availableAtBranch(selectedBook, branch?.id)}</p>
+                  {branch && selectedBook.availableCopies > availableAtBranch(selectedBook, branch.id) && (
+                    <p>
+                      Also on the shelf at{' '}
+                      {selectedBook.branchAvailability
+                        ?.filter(entry => entry.branchId !== branch.id && entry.available > 0)
+                        .map(entry => `${entry.branchName} (${entry.available})`)
+                        .join(', ')}
+                      {' '}- transfer a copy from its page to lend it here
+                    </p>
+                  )}
                 </div>
+                {selectedBookHold?.status === 'ready' && (
+                  <p className="mt-3 text-green-700">
+                    Reserved for this user on the hold shelf
+                  </p>
+                )}
+                {selectedBookHold?.status === 'waiting' && (
+                  <p className="mt-3 text-gray-700">
+                    This user is number {selectedBookHold.position} in the queue
+                  </p>
+                )}
+                {userDetails && !canIssueSelectedBook && !selectedBookHold && (
+                  <p className="mt-3 text-red-600">
+                    No copies available - place a hold to join the waitlist
+                  </p>
+                )}
               </div>
             )}
           </div>
         </div>
       </div>
 
+      {loanCheck && loanCheck.errors.length > 0 && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg mt-6">
+          <p>This loan isn't allowed:</p>
+          <ul className="list-disc list-inside">
+            {loanCheck.errors.map((error) => (
+              <li key={error.code}>{error.message}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* Issue Button */}
-      <div className="mt-6 flex justify-end">
+      <div className="mt-6 flex justify-end gap-3">
+        {selectedBook && userDetails && !canIssueSelectedBook && !selectedBookHold && (
+          <button
+            onClick={handlePlaceHold}
+            className="bg-blue-600 text-white px-6 py-3 rounded-lg hover:bg-blue-700"
+          >
+            Place Hold
+          </button>
+        )}
         <button
           onClick={handleIssueBook}
-          disabled={!selectedBook || !userDetails}
+          disabled={!selectedBook || !userDetails || isBlockedByPolicy || !canIssueSelectedBook || issuing}
           className="bg-green-600 text-white px-6 py-3 rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed"
         >
           Issue Book
@@ -0,0 +1,309 @@
+import { useState, useEffect } from 'react';
+import { CalendarX, Trash2 } from 'lucide-react';
+import type { OpeningHours, LibraryClosure, CalendarSettings } from '../App';
+import { calendarApi, authApi } from '../utils/api';
+import { Calendar } from './ui/calendar';
+
+// Calendar days are local dates; the server works in YYYY-MM-DD
+const toDateKey = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const fromDateKey = (key: string) => {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+const formatDay = (key: string) =>
+  fromDateKey(key).toLocaleDateString('en-US', { weekday: 'long', year: 'numeric', month: 'short', day: 'numeric' });
+
+/**
+ * Opening hours and closed days. Due dates roll forward past every closed
+ * day; only staff who can manage the calendar may change it.
+ */
+export function LibraryCalendar() {
+  const canManage = authApi.can('calendar:manage');
+  const [hours, setHours] = useState<OpeningHours[]>([]);
+  const [closures, setClosures] = useState<LibraryClosure[]>([]);
+  const [settings, setSettings] = useState<CalendarSettings>({ skipClosedDays: false });
+  const [selectedDay, setSelectedDay] = useState<Date | undefined>(new Date());
+  const [reason, setReason] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [savedMessage, setSavedMessage] = useState('');
+
+  useEffect(() => {
+    loadCalendar();
+  }, []);
+
+  const loadCalendar = async () => {
+    try {
+      setLoading(true);
+      const data = await calendarApi.get();
+      setHours(data.hours);
+      setClosures(data.closures);
+      setSettings(data.settings);
+    } catch (error) {
+      console.error('Error loading library calendar:', error);
+      alert('Failed to load the library calendar. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const showSaved = (message: string) => {
+    setSavedMessage(message);
+    setTimeout(() => setSavedMessage(''), 3000);
+  };
+
+  const updateDay = (weekday: number, changes: Partial<OpeningHours>) => {
+    setHours(hours.map(day => (day.weekday === weekday ? { ...day, ...changes } : day)));
+  };
+
+  const handleSaveHours = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setHours(await calendarApi.saveHours(hours));
+      showSaved('Opening hours saved');
+    } catch (error: any) {
+      console.error('Error saving opening hours:', error);
+      alert(error.message || 'Failed to save opening hours. Please try again.');
+    }
+  };
+
+  const handleSaveSettings = async (skipClosedDays: boolean) => {
+    try {
+      setSettings(await calendarApi.saveSettings({ skipClosedDays }));
+      showSaved('Fine setting saved');
+    } catch (error: any) {
+      console.error('Error saving calendar settings:', error);
+      alert(error.message || 'Failed to save the setting. Please try again.');
+    }
+  };
+
+  const handleAddClosure = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedDay) return;
+    try {
+      const closure = await calendarApi.addClosure(toDateKey(selectedDay), reason);
+      setClosures([...closures, closure].sort((a, b) => a.date.localeCompare(b.date)));
+      setReason('');
+      showSaved(`The library is closed on ${formatDay(closure.date)}`);
+    } catch (error: any) {
+      console.error('Error adding closed day:', error);
+      alert(error.message || 'Failed to add the closed day. Please try again.');
+    }
+  };
+
+  const handleRemoveClosure = async (closure: LibraryClosure) => {
+    if (!confirm(`Open the library again on ${formatDay(closure.date)}?`)) return;
+    try {
+      await calendarApi.removeClosure(closure.id);
+      setClosures(closures.filter(c => c.id !== closure.id));
+    } catch (error) {
+      console.error('Error removing closed day:', error);
+      alert('Failed to remove the closed day. Please try again.');
+    }
+  };
+
+  const closedWeekdays = hours.filter(day => !day.isOpen).map(day => day.weekday);
+  const selectedKey = selectedDay ? toDateKey(selectedDay) : null;
+  const selectedClosure = closures.find(closure => closure.date === selectedKey);
+  const selectedWeekday = selectedDay ? hours.find(day => day.weekday === selectedDay.getDay()) : undefined;
+  const upcomingClosures = closures.filter(closure => closure.date >= toDateKey(new Date()));
+
+  const inputClass =
+    'px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-100';
+
+  return (
+    <div>
+      <h1 className="text-gray-900 mb-6">Library Calendar</h1>
+
+      {savedMessage && (
+        <div className="bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded-lg mb-6">
+          {savedMessage}
+        </div>
+      )}
+
+      {loading && hours.length === 0 ? (
+        <p className="text-gray-500">Loading...</p>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {/* Closed days */}
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+            <h2 className="text-gray-900 mb-2">Closed Days</h2>
+            <p className="text-gray-600 mb-4">
+              Books never fall due on a closed day - the due date moves to the next day the library is open.
+            </p>
+            <Calendar
+              mode="single"
+              selected={selectedDay}
+              onSelect={setSelectedDay}
+              numberOfMonths={2}
+              modifiers={{
+                holiday: closures.map(closure => fromDateKey(closure.date)),
+                weeklyClosed: { dayOfWeek: closedWeekdays },
+              }}
+              modifiersClassNames={{
+                holiday: 'bg-red-100 text-red-700',
+                weeklyClosed: 'text-gray-400 line-through',
+              }}
+            />
+            <div className="flex gap-4 text-sm text-gray-600 mt-2 mb-4">
+              <span className="flex items-center gap-1"><span className="w-3 h-3 rounded bg-red-100 inline-block" /> Holiday</span>
+              <span className="flex items-center gap-1"><span className="line-through text-gray-400">12</span> Closed every week</span>
+            </div>
+
+            {selectedDay && selectedKey && (
+              <div className="border-t border-gray-200 pt-4">
+                <p className="text-gray-900 mb-2">{formatDay(selectedKey)}</p>
+                {selectedClosure ? (
+                  <div className="flex justify-between items-center">
+                    <p className="text-red-700">Closed{selectedClosure.reason ? `: ${selectedClosure.reason}` : ''}</p>
+                    {canManage && (
+                      <button
+                        onClick={() => handleRemoveClosure(selectedClosure)}
+                        className="p-2 text-red-600 hover:bg-red-50 rounded"
+                        title="Remove closed day"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    )}
+                  </div>
+                ) : selectedWeekday && !selectedWeekday.isOpen ? (
+                  <p className="text-gray-600">Closed every {selectedWeekday.name}</p>
+                ) : canManage ? (
+                  <form onSubmit={handleAddClosure} className="flex gap-2">
+                    <input
+                      type="text"
+                      value={reason}
+                      onChange={(e) => setReason(e.target.value)}
+                      className={`flex-1 ${inputClass}`}
+                      placeholder="Reason, e.g. New Year's Day"
+                    />
+                    <button
+                      type="submit"
+                      className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 flex items-center gap-2"
+                    >
+                      <CalendarX className="w-4 h-4" />
+                      Close
+                    </button>
+                  </form>
+                ) : (
+                  <p className="text-gray-600">Open</p>
+                )}
+              </div>
+            )}
+
+            <h3 className="text-gray-900 mt-6 mb-2">Upcoming Closures</h3>
+            {upcomingClosures.length === 0 ? (
+              <p className="text-gray-500">No closed days planned</p>
+            ) : (
+              <ul className="divide-y">
+                {upcomingClosures.map(closure => (
+                  <li key={closure.id} className="py-2 flex justify-between items-center">
+                    <button
+                      onClick={() => setSelectedDay(fromDateKey(closure.date))}
+                      className="text-left hover:underline"
+                    >
+                      <span className="text-gray-900">{formatDay(closure.date)}</span>
+                      {closure.reason && <span className="text-gray-600"> - {closure.reason}</span>}
+                    </button>
+                    {canManage && (
+                      <button
+                        onClick={() => handleRemoveClosure(closure)}
+                        className="p-2 text-red-600 hover:bg-red-50 rounded"
+                        title="Remove closed day"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          <div className="space-y-6">
+            {/* Weekly hours */}
+            <form
+              onSubmit={handleSaveHours}
+              className="bg-white rounded-lg shadow-sm border border-gray-200 p-6"
+            >
+              <h2 className="text-gray-900 mb-4">Opening Hours</h2>
+              <div className="space-y-3">
+                {hours.map(day => (
+                  <div key={day.weekday} className="flex items-center gap-3">
+                    <label className="w-36 flex items-center gap-2 text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={day.isOpen}
+                        disabled={!canManage}
+                        onChange={(e) => updateDay(day.weekday, {
+                          isOpen: e.target.checked,
+                          opensAt: day.opensAt || '09:00',
+                          closesAt: day.closesAt || '17:00',
+                        })}
+                        className="w-4 h-4"
+                      />
+                      {day.name}
+                    </label>
+                    {day.isOpen ? (
+                      <>
+                        <input
+                          type="time"
+                          value={day.opensAt || ''}
+                          disabled={!canManage}
+                          onChange={(e) => updateDay(day.weekday, { opensAt: e.target.value })}
+                          className={inputClass}
+                          required
+                        />
+                        <span className="text-gray-600">to</span>
+                        <input
+                          type="time"
+                          value={day.closesAt || ''}
+                          disabled={!canManage}
+                          onChange={(e) => updateDay(day.weekday, { closesAt: e.target.value })}
+                          className={inputClass}
+                          required
+                        />
+                      </>
+                    ) : (
+                      <span className="text-gray-500">Closed</span>
+                    )}
+                  </div>
+                ))}
+              </div>
+              {canManage && (
+                <button
+                  type="submit"
+                  className="mt-4 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700"
+                >
+                  Save Hours
+                </button>
+              )}
+            </form>
+
+            {/* Fines */}
+            <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+              <h2 className="text-gray-900 mb-2">Late Days</h2>
+              <label className="flex items-start gap-3 text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={settings.skipClosedDays}
+                  disabled={!canManage}
+                  onChange={(e) => handleSaveSettings(e.target.checked)}
+                  className="w-4 h-4 mt-1"
+                />
+                <span>
+                  Don't count closed days when working out how late a book is
+                  <span className="block text-gray-600 text-sm">
+                    Applies to late fines and to the overdue limit for renewals
+                  </span>
+                </span>
+              </label>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
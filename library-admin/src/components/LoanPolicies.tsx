@@ -0,0 +1,357 @@
+import { useState, useEffect } from 'react';
+import { Plus, Edit2, Trash2, X, BookMarked } from 'lucide-react';
+import type { Category, LoanPolicy, PatronType } from '../App';
+import { loanPoliciesApi } from '../utils/api';
+
+type LoanPoliciesProps = {
+  categories: Category[];
+};
+
+const emptyPolicyForm = {
+  patronType: '',
+  categoryId: '',
+  bookType: '',
+  loanDays: '',
+  maxLoans: '',
+  maxRenewals: '',
+  circulates: '',
+};
+
+const toFormValue = (value: number | null) => (value !== null ? String(value) : '');
+const toPolicyValue = (value: string) => (value.trim() === '' ? null : Number(value));
+
+/**
+ * Borrowing policies: loan period, loan limit, renewal limit and whether
+ * books circulate at all, by patron type, category and book type. Blank
+ * fields are left to broader policies.
+ */
+export function LoanPolicies({ categories }: LoanPoliciesProps) {
+  const [policies, setPolicies] = useState<LoanPolicy[]>([]);
+  const [patronTypes, setPatronTypes] = useState<PatronType[]>([]);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingPolicy, setEditingPolicy] = useState<LoanPolicy | null>(null);
+  const [formData, setFormData] = useState(emptyPolicyForm);
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    loadPolicies();
+  }, []);
+
+  const loadPolicies = async () => {
+    try {
+      setLoading(true);
+      const [policiesData, types] = await Promise.all([
+        loanPoliciesApi.getAll(),
+        loanPoliciesApi.getPatronTypes(),
+      ]);
+      setPolicies(policiesData);
+      setPatronTypes(types);
+    } catch (error) {
+      console.error('Error loading borrowing policies:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    const policy = {
+      patronType: (formData.patronType || null) as PatronType | null,
+      categoryId: formData.categoryId || null,
+      bookType: formData.bookType || null,
+      loanDays: toPolicyValue(formData.loanDays),
+      maxLoans: toPolicyValue(formData.maxLoans),
+      maxRenewals: toPolicyValue(formData.maxRenewals),
+      circulates: formData.circulates === '' ? null : formData.circulates === 'yes',
+    };
+
+    try {
+      setLoading(true);
+      if (editingPolicy) {
+        await loanPoliciesApi.update(editingPolicy.id, policy);
+      } else {
+        await loanPoliciesApi.create(policy);
+      }
+      setPolicies(await loanPoliciesApi.getAll());
+      resetForm();
+    } catch (error: any) {
+      console.error('Error saving borrowing policy:', error);
+      setError(error.message || 'Failed to save borrowing policy. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleEdit = (policy: LoanPolicy) => {
+    setEditingPolicy(policy);
+    setFormData({
+      patronType: policy.patronType || '',
+      categoryId: policy.categoryId || '',
+      bookType: policy.bookType || '',
+      loanDays: toFormValue(policy.loanDays),
+      maxLoans: toFormValue(policy.maxLoans),
+      maxRenewals: toFormValue(policy.maxRenewals),
+      circulates: policy.circulates === null ? '' : policy.circulates ? 'yes' : 'no',
+    });
+    setError('');
+    setIsFormOpen(true);
+  };
+
+  const handleDelete = async (policy: LoanPolicy) => {
+    if (!confirm(`Delete the borrowing policy for ${describeScope(policy)}?`)) return;
+    try {
+      await loanPoliciesApi.delete(policy.id);
+      setPolicies(policies.filter(p => p.id !== policy.id));
+    } catch (error) {
+      console.error('Error deleting borrowing policy:', error);
+      alert('Failed to delete borrowing policy. Please try again.');
+    }
+  };
+
+  const resetForm = () => {
+    setFormData(emptyPolicyForm);
+    setEditingPolicy(null);
+    setError('');
+    setIsFormOpen(false);
+  };
+
+  const describeScope = (policy: LoanPolicy) => {
+    const parts = [
+      policy.patronType && `${policy.patronType} patrons`,
+      policy.categoryId && `Category: ${policy.categoryName || policy.categoryId}`,
+      policy.bookType && `Book type: ${policy.bookType}`,
+    ].filter(Boolean);
+    return parts.length > 0 ? parts.join(' · ') : 'Everyone, all books';
+  };
+
+  const describeValue = (value: number | null, unit: string) =>
+    value === null ? <span className="text-gray-400">-</span> : `${value} ${unit}`;
+
+  const inputClass =
+    'w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden mb-6">
+      <div className="flex justify-between items-center p-6 border-b border-gray-200">
+        <div>
+          <h2 className="text-gray-900">Borrowing Policies</h2>
+          <p className="text-gray-600">
+            For each setting, a book type policy beats a category policy, which beats a patron type policy.
+            Blank settings fall through to broader policies; with none, loans last 14 days with no loan limit.
+          </p>
+        </div>
+        <button
+          onClick={() => setIsFormOpen(true)}
+          className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 flex items-center gap-2 shrink-0"
+        >
+          <Plus className="w-5 h-5" />
+          Add Policy
+        </button>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="w-full">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-gray-700">Applies To</th>
+              <th className="px-6 py-3 text-left text-gray-700">Loan Period</th>
+              <th className="px-6 py-3 text-left text-gray-700">Loan Limit</th>
+              <th className="px-6 py-3 text-left text-gray-700">Renewals</th>
+              <th className="px-6 py-3 text-left text-gray-700">Circulates</th>
+              <th className="px-6 py-3 text-right text-gray-700">Actions</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {policies.length === 0 ? (
+              <tr>
+                <td colSpan={6} className="px-6 py-8 text-center text-gray-500">
+                  {loading ? 'Loading borrowing policies...' : 'No borrowing policies yet - every loan uses the defaults'}
+                </td>
+              </tr>
+            ) : (
+              policies.map((policy) => (
+                <tr key={policy.id} className="hover:bg-gray-50">
+                  <td className="px-6 py-4">
+                    <div className="flex items-center gap-3">
+                      <BookMarked className="w-5 h-5 text-blue-600" />
+                      <span className="text-gray-900 capitalize">{describeScope(policy)}</span>
+                    </div>
+                  </td>
+                  <td className="px-6 py-4 text-gray-600">{describeValue(policy.loanDays, 'days')}</td>
+                  <td className="px-6 py-4 text-gray-600">{describeValue(policy.maxLoans, 'books')}</td>
+                  <td className="px-6 py-4 text-gray-600">{describeValue(policy.maxRenewals, 'per loan')}</td>
+                  <td className="px-6 py-4 text-gray-600">
+                    {policy.circulates === null
+                      ? <span className="text-gray-400">-</span>
+                      : policy.circulates ? 'Yes' : 'Library use only'}
+                  </td>
+                  <td className="px-6 py-4">
+                    <div className="flex justify-end gap-2">
+                      <button
+                        onClick={() => handleEdit(policy)}
+                        className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg"
+                        title="Edit Policy"
+                      >
+                        <Edit2 className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(policy)}
+                        className="p-2 text-red-600 hover:bg-red-50 rounded-lg"
+                        title="Delete Policy"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Policy Form Modal */}
+      {isFormOpen && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-lg shadow-xl w-full max-w-lg">
+            <form onSubmit={handleSubmit}>
+              <div className="flex justify-between items-center p-6 border-b border-gray-200">
+                <h2 className="text-gray-900">{editingPolicy ? 'Edit Borrowing Policy' : 'Add Borrowing Policy'}</h2>
+                <button
+                  type="button"
+                  onClick={resetForm}
+                  className="text-gray-400 hover:text-gray-600"
+                >
+                  <X className="w-6 h-6" />
+                </button>
+              </div>
+
+              <div className="p-6 space-y-4">
+                {error && (
+                  <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+                    <p className="text-red-600">{error}</p>
+                  </div>
+                )}
+
+                <p className="text-gray-600">Applies to (leave as "Any" to match everything):</p>
+                <div className="grid grid-cols-3 gap-4">
+                  <div>
+                    <label className="block text-gray-700 mb-2">Patron Type</label>
+                    <select
+                      value={formData.patronType}
+                      onChange={(e) => setFormData({ ...formData, patronType: e.target.value })}
+                      className={`${inputClass} capitalize`}
+                    >
+                      <option value="">Any</option>
+                      {patronTypes.map(type => (
+                        <option key={type} value={type}>{type}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-gray-700 mb-2">Category</label>
+                    <select
+                      value={formData.categoryId}
+                      onChange={(e) => setFormData({ ...formData, categoryId: e.target.value })}
+                      className={inputClass}
+                    >
+                      <option value="">Any</option>
+                      {categories.map(category => (
+                        <option key={category.id} value={category.id}>{category.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-gray-700 mb-2">Book Type</label>
+                    <select
+                      value={formData.bookType}
+                      onChange={(e) => setFormData({ ...formData, bookType: e.target.value })}
+                      className={inputClass}
+                    >
+                      <option value="">Any</option>
+                      <option value="Paperback">Paperback</option>
+                      <option value="Hardcover">Hardcover</option>
+                    </select>
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-gray-700 mb-2">Loan Period (days)</label>
+                    <input
+                      type="number"
+                      min="1"
+                      step="1"
+                      value={formData.loanDays}
+                      onChange={(e) => setFormData({ ...formData, loanDays: e.target.value })}
+                      className={inputClass}
+                      placeholder="Not set"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-gray-700 mb-2">Loan Limit (books)</label>
+                    <input
+                      type="number"
+                      min="0"
+                      step="1"
+                      value={formData.maxLoans}
+                      onChange={(e) => setFormData({ ...formData, maxLoans: e.target.value })}
+                      className={inputClass}
+                      placeholder="Not set"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-gray-700 mb-2">Renewals Per Loan</label>
+                    <input
+                      type="number"
+                      min="0"
+                      step="1"
+                      value={formData.maxRenewals}
+                      onChange={(e) => setFormData({ ...formData, maxRenewals: e.target.value })}
+                      className={inputClass}
+                      placeholder="Not set"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-gray-700 mb-2">Can Be Borrowed</label>
+                    <select
+                      value={formData.circulates}
+                      onChange={(e) => setFormData({ ...formData, circulates: e.target.value })}
+                      className={inputClass}
+                    >
+                      <option value="">Not set</option>
+                      <option value="yes">Yes</option>
+                      <option value="no">No - library use only</option>
+                    </select>
+                  </div>
+                </div>
+                <p className="text-gray-600 text-sm">
+                  The loan limit counts every book the patron has out, not just books this policy covers.
+                </p>
+              </div>
+
+              <div className="flex gap-2 p-6 border-t border-gray-200">
+                <button
+                  type="submit"
+                  disabled={loading}
+                  className="flex-1 bg-blue-600 text-white py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {editingPolicy ? 'Update' : 'Create'}
+                </button>
+                <button
+                  type="button"
+                  onClick={resetForm}
+                  className="flex-1 bg-gray-200 text-gray-700 py-2 rounded-lg hover:bg-gray-300"
+                >
+                  Cancel
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,171 @@
+import { useState, useEffect } from 'react';
+import { X } from 'lucide-react';
+import type { BookIssue, LoanStatus, LossSettings } from '../App';
+import { issuesApi } from '../utils/api';
+import { formatMoney, LOAN_STATUS_LABELS } from '../utils/format';
+
+type MarkableStatus = Exclude<LoanStatus, 'issued' | 'returned'>;
+
+type LoanStatusDialogProps = {
+  issue: BookIssue & { bookTitle: string };
+  onClose: () => void;
+  onSaved: (message: string) => void;
+};
+
+// Mirrors LOAN_TRANSITIONS in backend/circulation/losses.js ('returned' is the Receive button)
+const NEXT_STATUSES: Record<LoanStatus, MarkableStatus[]> = {
+  issued: ['lost', 'damaged', 'claimed_returned', 'written_off'],
+  claimed_returned: ['lost', 'written_off'],
+  lost: ['written_off'],
+  written_off: [],
+  damaged: [],
+  returned: [],
+};
+
+const STATUS_HELP: Record<MarkableStatus, string> = {
+  lost: 'The copy is marked lost and the patron is charged for a replacement. The charge is reversed if the book is returned later.',
+  damaged: 'The book is back but damaged: the copy goes in for repair and the patron is charged for the damage, plus any late fine.',
+  claimed_returned: "The patron says they returned it but it isn't on the shelf. No more late fines while you look for it.",
+  written_off: 'Stop chasing this book: the copy is withdrawn and any replacement charge is reversed.',
+};
+
+/**
+ * Mark a loan lost, damaged, claimed returned or written off
+ */
+export function LoanStatusDialog({ issue, onClose, onSaved }: LoanStatusDialogProps) {
+  const options = NEXT_STATUSES[issue.status];
+  const [status, setStatus] = useState<MarkableStatus>(options[0]);
+  const [amount, setAmount] = useState('');
+  const [note, setNote] = useState('');
+  const [lossSettings, setLossSettings] = useState<LossSettings | null>(null);
+  const [error, setError] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    issuesApi.getLossSettings()
+      .then(setLossSettings)
+      .catch(error => console.error('Error loading loss settings:', error));
+  }, []);
+
+  const defaultCharge = status === 'lost'
+    ? lossSettings?.replacementCharge
+    : status === 'damaged' ? lossSettings?.damageCharge : undefined;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    try {
+      setSaving(true);
+      const updated = await issuesApi.setStatus(issue.id, {
+        status,
+        amount: amount.trim() === '' ? null : Number(amount),
+        note: note.trim() || undefined,
+      });
+      const charged = updated.charges.reduce((sum, charge) => sum + charge.amount, 0);
+      onSaved(
+        `"${issue.bookTitle}" marked ${LOAN_STATUS_LABELS[status].toLowerCase()}` +
+        (charged > 0 ? ` - ${formatMoney(charged)} charged to ${issue.userName}` : '') +
+        (updated.reversal ? ` - ${formatMoney(updated.reversal.amount)} replacement charge reversed` : '')
+      );
+    } catch (error: any) {
+      console.error('Error updating loan status:', error);
+      setError(error.message || 'Failed to update the loan. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass =
+    'w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-md">
+        <form onSubmit={handleSubmit}>
+          <div className="flex justify-between items-center p-6 border-b border-gray-200">
+            <div>
+              <h2 className="text-gray-900">Update Loan</h2>
+              <p className="text-gray-600">{issue.bookTitle} · {issue.userName}</p>
+            </div>
+            <button type="button" onClick={onClose} className="text-gray-400 hover:text-gray-600">
+              <X className="w-6 h-6" />
+            </button>
+          </div>
+
+          <div className="p-6 space-y-4">
+            {error && (
+              <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+                <p className="text-red-600">{error}</p>
+              </div>
+            )}
+
+            <div>
+              <label className="block text-gray-700 mb-2">Mark As</label>
+              <select
+                value={status}
+                onChange={(e) => {
+                  setStatus(e.target.value as MarkableStatus);
+                  setAmount('');
+                }}
+                className={inputClass}
+              >
+                {options.map(option => (
+                  <option key={option} value={option}>{LOAN_STATUS_LABELS[option]}</option>
+                ))}
+              </select>
+              <p className="text-gray-600 text-sm mt-1">{STATUS_HELP[status]}</p>
+            </div>
+
+            {defaultCharge !== undefined && (
+              <div>
+                <label className="block text-gray-700 mb-2">
+                  {status === 'lost' ? 'Replacement Charge' : 'Damage Charge'}
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                  className={inputClass}
+                  placeholder={`${formatMoney(defaultCharge)} (library default)`}
+                />
+              </div>
+            )}
+
+            <div>
+              <label className="block text-gray-700 mb-2">
+                Note{status === 'claimed_returned' && ' *'}
+              </label>
+              <textarea
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                className={inputClass}
+                rows={2}
+                placeholder={status === 'claimed_returned' ? 'e.g. Says they used the book drop on 3 May' : 'Optional'}
+                required={status === 'claimed_returned'}
+              />
+            </div>
+          </div>
+
+          <div className="flex gap-2 p-6 border-t border-gray-200">
+            <button
+              type="submit"
+              disabled={saving}
+              className="flex-1 bg-blue-600 text-white py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50"
+            >
+              Save
+            </button>
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 bg-gray-200 text-gray-700 py-2 rounded-lg hover:bg-gray-300"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
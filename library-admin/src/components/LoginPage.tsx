@@ -1,23 +1,49 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { Lock, BookOpen } from 'lucide-react';
+import type { Branch } from '../App';
+import { authApi, branchesApi } from '../utils/api';
 
 type LoginPageProps = {
   onLogin: () => void;
 };
 
+// This desk's branch, offered again at the next sign-in
+const LAST_BRANCH_STORAGE_KEY = 'libraryAdminLastBranch';
+
 export function LoginPage({ onLogin }: LoginPageProps) {
   const [username, setUsername] = useState('');
   const [password, setPassword] = useState('');
+  const [branches, setBranches] = useState<Branch[]>([]);
+  const [branchId, setBranchId] = useState(() => localStorage.getItem(LAST_BRANCH_STORAGE_KEY) || '');
   const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    branchesApi.getAll()
+      .then(active => {
+        setBranches(active);
+        if (!active.some(branch => branch.id === branchId)) {
+          setBranchId(active[0]?.id || '');
+        }
+      })
+      .catch(error => console.error('Error loading branches:', error));
+  }, []);
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    
-    // Simple mock authentication
-    if (username === 'admin' && password === 'admin123') {
+    setError('');
+
+    try {
+      setLoading(true);
+      await authApi.login(username.trim(), password, branchId || undefined);
+      if (branchId) {
+        localStorage.setItem(LAST_BRANCH_STORAGE_KEY, branchId);
+      }
       onLogin();
-    } else {
-      setError('Invalid credentials. Use admin/admin123');
+    } catch (error: any) {
+      setError(error.message || 'Failed to sign in. Please try again.');
+    } finally {
+      setLoading(false);
     }
   };
 
@@ -64,6 +90,24 @@ export function LoginPage({ onLogin }: LoginPageProps) {
             />
           </div>
 
+          {branches.length > 1 && (
+            <div>
+              <label htmlFor="branch" className="block text-gray-700 mb-2">
+                Branch
+              </label>
+              <select
+                id="branch"
+                value={branchId}
+                onChange={(e) => setBranchId(e.target.value)}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                {branches.map(branch => (
+                  <option key={branch.id} value={branch.id}>{branch.name}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
           {error && (
             <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
               {error}
@@ -72,10 +116,11 @@ export function LoginPage({ onLogin }: LoginPageProps) {
 
           <button
             type="submit"
-            className="w-full bg-blue-600 text-white py-3 rounded-lg hover:bg-blue-700 transition-colors flex items-center justify-center gap-2"
+            disabled={loading}
+            className="w-full bg-blue-600 text-white py-3 rounded-lg hover:bg-blue-700 transition-colors flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
           >
             <Lock className="w-5 h-5" />
-            Sign In
+            {loading ? 'Signing In...' : 'Sign In'}
           </button>
         </form>
       </div>
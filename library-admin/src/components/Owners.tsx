@@ -0,0 +1,414 @@
+import { useState, useEffect } from 'react';
+import { ArrowLeft, Download, Undo2, PackageCheck, Mail, X, HandHeart } from 'lucide-react';
+import type { OwnerSummary, OwnedBook, OwnedCopy, Reclaim, BorrowerVisibility, User } from '../App';
+import { ownersApi, reclaimsApi, authApi } from '../utils/api';
+import { COPY_STATUS_LABELS, COPY_STATUS_STYLES } from '../utils/format';
+import { downloadDonationReceipt } from '../utils/export';
+
+const VISIBILITY_LABELS: Record<BorrowerVisibility, string> = {
+  none: 'Owners see nothing of borrowers',
+  name: 'Owners see borrower names',
+  contact: 'Owners see borrower names and contacts',
+};
+
+// Copies the library still has, which can be handed back
+const RECLAIMABLE_STATUSES = ['available', 'on_loan', 'in_repair', 'in_transit'];
+
+interface OwnersProps {
+  onViewBook: (bookId: string) => void;
+}
+
+/**
+ * Patrons who lent or gave books to the library: how much their books are
+ * borrowed, where every copy is, and lent copies being handed back to them.
+ */
+export function Owners({ onViewBook }: OwnersProps) {
+  const [owners, setOwners] = useState<OwnerSummary[]>([]);
+  const [reclaims, setReclaims] = useState<Reclaim[]>([]);
+  const [visibility, setVisibility] = useState<BorrowerVisibility | null>(null);
+  const [selected, setSelected] = useState<{ owner: Pick<User, 'id' | 'name' | 'email' | 'phone'>; books: OwnedBook[] } | null>(null);
+  const [period, setPeriod] = useState({ from: '', to: '' });
+  const [loading, setLoading] = useState(false);
+  const [successMessage, setSuccessMessage] = useState('');
+
+  const canConfigure = authApi.can('circulation:configure');
+  const canReclaim = authApi.can('catalog:write');
+  const canHandBack = authApi.can('circulation:receive');
+
+  useEffect(() => {
+    loadOwners();
+    ownersApi.getSettings()
+      .then(settings => setVisibility(settings.borrowerVisibility))
+      .catch(error => console.error('Error loading owner settings:', error));
+  }, []);
+
+  const loadOwners = async () => {
+    try {
+      setLoading(true);
+      const [loadedOwners, openReclaims] = await Promise.all([ownersApi.getAll(), reclaimsApi.getAll('open')]);
+      setOwners(loadedOwners);
+      setReclaims(openReclaims);
+    } catch (error) {
+      console.error('Error loading owners:', error);
+      alert('Failed to load lenders and donors. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadOwner = async (ownerId: string) => {
+    try {
+      setSelected(await ownersApi.getById(ownerId));
+    } catch (error) {
+      console.error('Error loading owner:', error);
+      alert('Failed to load the owner\'s books. Please try again.');
+    }
+  };
+
+  const refresh = async () => {
+    await loadOwners();
+    if (selected) {
+      await loadOwner(selected.owner.id);
+    }
+  };
+
+  const showSuccess = (message: string) => {
+    setSuccessMessage(message);
+    setTimeout(() => setSuccessMessage(''), 3000);
+  };
+
+  const handleVisibilityChange = async (borrowerVisibility: BorrowerVisibility) => {
+    try {
+      const saved = await ownersApi.saveSettings(borrowerVisibility);
+      setVisibility(saved.borrowerVisibility);
+    } catch (error: any) {
+      console.error('Error saving owner settings:', error);
+      alert(error.message || 'Failed to save the setting. Please try again.');
+    }
+  };
+
+  const handleReclaim = async (book: OwnedBook, copy: OwnedCopy) => {
+    const reason = prompt(`Hand copy ${copy.barcode} of "${book.title}" back to its owner? Add a note if you like:`, '');
+    if (reason === null) return;
+    try {
+      const reclaim = await reclaimsApi.open(copy.id, reason);
+      showSuccess(reclaim.borrowerNotified
+        ? `Copy ${copy.barcode} is being handed back - its borrower was asked to return it`
+        : `Copy ${copy.barcode} is being handed back`);
+      await refresh();
+    } catch (error: any) {
+      console.error('Error reclaiming copy:', error);
+      alert(error.message || 'Failed to reclaim the copy. Please try again.');
+    }
+  };
+
+  const runAction = async (reclaimId: string, action: 'complete' | 'cancel' | 'notify', message: string) => {
+    try {
+      await reclaimsApi[action](reclaimId);
+      showSuccess(message);
+      await refresh();
+    } catch (error: any) {
+      console.error(`Error on reclaim ${action}:`, error);
+      alert(error.message || 'Failed to update the reclaim. Please try again.');
+      await refresh();
+    }
+  };
+
+  const handleExportReceipt = async () => {
+    if (!selected) return;
+    try {
+      const receipt = await ownersApi.getDonations(selected.owner.id, period.from || undefined, period.to || undefined);
+      if (receipt.items.length === 0) {
+        alert('No donations in this period');
+        return;
+      }
+      downloadDonationReceipt(receipt);
+    } catch (error: any) {
+      console.error('Error exporting donation receipt:', error);
+      alert(error.message || 'Failed to export the receipt. Please try again.');
+    }
+  };
+
+  const formatDate = (dateString: string | null) => {
+    if (!dateString) return '-';
+    return new Date(dateString.length === 10 ? `${dateString}T00:00:00` : dateString).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+    });
+  };
+
+  const reclaimActions = (reclaimId: string, copyStatus: string, barcode: string) => (
+    <>
+      {copyStatus === 'on_loan' && canReclaim && (
+        <button
+          onClick={() => runAction(reclaimId, 'notify', `Borrower of copy ${barcode} asked again`)}
+          className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg"
+          title="Ask the Borrower Again"
+        >
+          <Mail className="w-4 h-4" />
+        </button>
+      )}
+      {(copyStatus === 'available' || copyStatus === 'in_repair') && canHandBack && (
+        <button
+          onClick={() => runAction(reclaimId, 'complete', `Copy ${barcode} handed back and withdrawn`)}
+          className="p-2 text-green-600 hover:bg-green-50 rounded-lg"
+          title="Handed Back to Owner"
+        >
+          <PackageCheck className="w-4 h-4" />
+        </button>
+      )}
+      {canReclaim && (
+        <button
+          onClick={() => runAction(reclaimId, 'cancel', `Copy ${barcode} stays in the collection`)}
+          className="p-2 text-red-600 hover:bg-red-50 rounded-lg"
+          title="Cancel Reclaim"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      )}
+    </>
+  );
+
+  const successBanner = successMessage && (
+    <div className="mb-4 p-3 bg-green-50 border border-green-200 rounded-lg">
+      <p className="text-green-600">{successMessage}</p>
+    </div>
+  );
+
+  if (selected) {
+    const { owner, books } = selected;
+    const hasDonations = books.some(book => book.ownership === 'donated');
+    return (
+      <div>
+        <button
+          onClick={() => setSelected(null)}
+          className="flex items-center gap-2 text-gray-600 hover:text-gray-900 mb-4"
+        >
+          <ArrowLeft className="w-4 h-4" />
+          Back to Lenders & Donors
+        </button>
+        <div className="flex justify-between items-start mb-6">
+          <div>
+            <h1 className="text-gray-900">{owner.name}</h1>
+            <p className="text-gray-600">{[owner.email, owner.phone].filter(Boolean).join(' - ')}</p>
+          </div>
+          {hasDonations && (
+            <div className="flex items-center gap-2">
+              <input
+                type="date"
+                value={period.from}
+                onChange={(e) => setPeriod({ ...period, from: e.target.value })}
+                className="px-3 py-2 border border-gray-300 rounded-lg"
+                title="Donated from"
+              />
+              <input
+                type="date"
+                value={period.to}
+                onChange={(e) => setPeriod({ ...period, to: e.target.value })}
+                className="px-3 py-2 border border-gray-300 rounded-lg"
+                title="Donated until"
+              />
+              <button
+                onClick={handleExportReceipt}
+                className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 flex items-center gap-2 whitespace-nowrap"
+              >
+                <Download className="w-4 h-4" />
+                Donation Receipt
+              </button>
+            </div>
+          )}
+        </div>
+
+        {successBanner}
+
+        <div className="space-y-4">
+          {books.map(book => (
+            <div key={book.id} className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+              <div className="flex justify-between items-start mb-3">
+                <div>
+                  <button onClick={() => onViewBook(book.id)} className="text-gray-900 hover:text-blue-600 text-left">
+                    {book.title}
+                  </button>
+                  <p className="text-gray-600 text-sm">
+                    {book.ownership === 'donated' ? `Donated ${formatDate(book.donatedAt)}` : 'Lent'}
+                    {book.isbn && ` - ISBN ${book.isbn}`}
+                  </p>
+                </div>
+                <div className="text-right text-gray-600 text-sm">
+                  <p>{book.loans} loans, {book.loansLastYear} in the last year</p>
+                  <p>Last borrowed {formatDate(book.lastIssuedAt)}</p>
+                </div>
+              </div>
+              {book.copies.length === 0 ? (
+                <p className="text-gray-500">No copies</p>
+              ) : (
+                <table className="w-full">
+                  <tbody className="divide-y divide-gray-100">
+                    {book.copies.map(copy => (
+                      <tr key={copy.id}>
+                        <td className="py-2 text-gray-900">{copy.barcode}</td>
+                        <td className="py-2">
+                          <span className={`px-2 py-1 rounded ${COPY_STATUS_STYLES[copy.status]}`}>
+                            {copy.reclaim?.status === 'completed' ? 'Handed back' : COPY_STATUS_LABELS[copy.status]}
+                          </span>
+                          <span className="text-gray-600 ml-2">{copy.branchName}</span>
+                        </td>
+                        <td className="py-2 text-gray-600">
+                          {copy.borrower ? (
+                            <>
+                              <span className="text-gray-900">{copy.borrower.name}</span>
+                              {copy.borrower.email && <span className="ml-2">{copy.borrower.email}</span>}
+                              {copy.borrower.phone && <span className="ml-2">{copy.borrower.phone}</span>}
+                              <span className={`ml-2 ${copy.overdue ? 'text-red-600' : ''}`}>due {formatDate(copy.dueDate)}</span>
+                            </>
+                          ) : copy.reclaim?.status === 'completed' ? (
+                            `on ${formatDate(copy.reclaim.handedBackAt)}`
+                          ) : '-'}
+                        </td>
+                        <td className="py-2 text-right whitespace-nowrap">
+                          {copy.reclaim?.status === 'open' ? (
+                            <>
+                              <span className="text-orange-600 mr-2">Being handed back</span>
+                              {reclaimActions(copy.reclaim.id, copy.status, copy.barcode)}
+                            </>
+                          ) : book.ownership === 'lent' && !copy.reclaim && canReclaim && RECLAIMABLE_STATUSES.includes(copy.status) && (
+                            <button
+                              onClick={() => handleReclaim(book, copy)}
+                              className="p-2 text-orange-600 hover:bg-orange-50 rounded-lg"
+                              title="Hand Back to Owner"
+                            >
+                              <Undo2 className="w-4 h-4" />
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-gray-900">Lenders & Donors</h1>
+        {visibility && (
+          <select
+            value={visibility}
+            onChange={(e) => handleVisibilityChange(e.target.value as BorrowerVisibility)}
+            disabled={!canConfigure}
+            className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            title="What owners see of who has their books, in the patron portal"
+          >
+            {(Object.keys(VISIBILITY_LABELS) as BorrowerVisibility[]).map(option => (
+              <option key={option} value={option}>{VISIBILITY_LABELS[option]}</option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      {successBanner}
+
+      {/* Copies going back to their owners */}
+      {reclaims.length > 0 && (
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden mb-6">
+          <h2 className="text-gray-900 px-6 pt-6">Being Handed Back</h2>
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-gray-700">Copy</th>
+                  <th className="px-6 py-3 text-left text-gray-700">Owner</th>
+                  <th className="px-6 py-3 text-left text-gray-700">Where</th>
+                  <th className="px-6 py-3 text-left text-gray-700">Asked For</th>
+                  <th className="px-6 py-3 text-right text-gray-700">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {reclaims.map(reclaim => (
+                  <tr key={reclaim.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4">
+                      <span className="block text-gray-900">{reclaim.bookTitle}</span>
+                      <span className="text-gray-600">{reclaim.copyBarcode}</span>
+                    </td>
+                    <td className="px-6 py-4 text-gray-900">{reclaim.ownerName || '-'}</td>
+                    <td className="px-6 py-4 text-gray-600">
+                      {reclaim.copyStatus === 'on_loan'
+                        ? `With ${reclaim.borrowerName}, due ${formatDate(reclaim.dueDate)}${reclaim.borrowerNotifiedAt ? '' : ' (not emailed)'}`
+                        : `${COPY_STATUS_LABELS[reclaim.copyStatus]} at ${reclaim.branchName}`}
+                    </td>
+                    <td className="px-6 py-4 text-gray-600">
+                      {formatDate(reclaim.createdAt)}
+                      <span className="block text-sm">
+                        {reclaim.requestedByOwner ? 'by the owner' : reclaim.requestedByName ? `by ${reclaim.requestedByName}` : ''}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4">
+                      <div className="flex justify-end gap-2">
+                        {reclaimActions(reclaim.id, reclaim.copyStatus, reclaim.copyBarcode)}
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {/* Owners */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-gray-700">Owner</th>
+                <th className="px-6 py-3 text-right text-gray-700">Lent</th>
+                <th className="px-6 py-3 text-right text-gray-700">Donated</th>
+                <th className="px-6 py-3 text-right text-gray-700">Loans</th>
+                <th className="px-6 py-3 text-right text-gray-700">Out Now</th>
+                <th className="px-6 py-3 text-right text-gray-700">Handing Back</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {owners.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="px-6 py-8 text-center text-gray-500">
+                    {loading ? 'Loading lenders and donors...' : 'No books have an owner yet'}
+                  </td>
+                </tr>
+              ) : (
+                owners.map(owner => (
+                  <tr key={owner.id} onClick={() => loadOwner(owner.id)} className="hover:bg-gray-50 cursor-pointer">
+                    <td className="px-6 py-4">
+                      <div className="flex items-center gap-3">
+                        <div className="w-10 h-10 bg-blue-100 rounded-full flex items-center justify-center">
+                          <HandHeart className="w-5 h-5 text-blue-600" />
+                        </div>
+                        <div>
+                          <span className="block text-gray-900">{owner.name}</span>
+                          <span className="text-gray-600">{owner.email || owner.phone}</span>
+                        </div>
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 text-right text-gray-900">{owner.lentBooks}</td>
+                    <td className="px-6 py-4 text-right text-gray-900">{owner.donatedBooks}</td>
+                    <td className="px-6 py-4 text-right text-gray-900">{owner.loans}</td>
+                    <td className="px-6 py-4 text-right text-gray-600">{owner.copiesOut}</td>
+                    <td className="px-6 py-4 text-right text-gray-600">{owner.openReclaims || '-'}</td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+import { ChevronLeft, ChevronRight, ChevronsLeft, ChevronsRight } from 'lucide-react';
+
+type PaginationProps = {
+  page: number; // 1-based
+  pageSize: number;
+  total: number;
+  noun: string; // what's being counted, e.g. "books"
+  onPageChange: (page: number) => void;
+};
+
+/**
+ * Pager under a server-paged list; hidden while everything fits on one page
+ */
+export function Pagination({ page, pageSize, total, noun, onPageChange }: PaginationProps) {
+  const totalPages = Math.ceil(total / pageSize);
+  if (totalPages <= 1) {
+    return null;
+  }
+
+  return (
+    <div className="mt-8 flex items-center justify-between bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+      <div className="flex items-center gap-2 text-gray-600">
+        <span className="text-sm">
+          Showing {(page - 1) * pageSize + 1} to {Math.min(page * pageSize, total)} of {total} {noun}
+        </span>
+      </div>
+
+      <div className="flex items-center gap-2">
+        {/* First Page Button */}
+        <button
+          onClick={() => onPageChange(1)}
+          disabled={page === 1}
+          className="p-2 rounded-lg border border-gray-300 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          title="First page"
+        >
+          <ChevronsLeft className="w-5 h-5" />
+        </button>
+
+        {/* Previous Page Button */}
+        <button
+          onClick={() => onPageChange(Math.max(1, page - 1))}
+          disabled={page === 1}
+          className="p-2 rounded-lg border border-gray-300 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          title="Previous page"
+        >
+          <ChevronLeft className="w-5 h-5" />
+        </button>
+
+        {/* Page Numbers */}
+        <div className="flex items-center gap-1">
+          {Array.from({ length: Math.min(5, totalPages) }, (_, i) => {
+            let pageNum: number;
+            if (totalPages <= 5) {
+              pageNum = i + 1;
+            } else if (page <= 3) {
+              pageNum = i + 1;
+            } else if (page >= totalPages - 2) {
+              pageNum = totalPages - 4 + i;
+            } else {
+              pageNum = page - 2 + i;
+            }
+
+            return (
+              <button
+                key={pageNum}
+                onClick={() => onPageChange(pageNum)}
+                className={`px-3 py-1 rounded-lg text-sm font-medium transition-colors ${
+                  page === pageNum
+                    ? 'bg-blue-600 text-white'
+                    : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                }`}
+              >
+                {pageNum}
+              </button>
+            );
+          })}
+        </div>
+
+        {/* Next Page Button */}
+        <button
+          onClick={() => onPageChange(Math.min(totalPages, page + 1))}
+          disabled={page === totalPages}
+          className="p-2 rounded-lg border border-gray-300 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          title="Next page"
+        >
+          <ChevronRight className="w-5 h-5" />
+        </button>
+
+        {/* Last Page Button */}
+        <button
+          onClick={() => onPageChange(totalPages)}
+          disabled={page === totalPages}
+          className="p-2 rounded-lg border border-gray-300 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          title="Last page"
+        >
+          <ChevronsRight className="w-5 h-5" />
+        </button>
+      </div>
+    </div>
+  );
+}
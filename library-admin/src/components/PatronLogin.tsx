@@ -0,0 +1,141 @@
+import { useState } from 'react';
+import { KeyRound } from 'lucide-react';
+import { patronApi } from '../utils/api';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from './ui/input-otp';
+
+type PatronLoginProps = {
+  onLogin: () => void;
+};
+
+/**
+ * Patron sign-in: the email or phone on their library account, then the
+ * one-time code sent to them.
+ */
+export function PatronLogin({ onLogin }: PatronLoginProps) {
+  const [contact, setContact] = useState('');
+  const [code, setCode] = useState('');
+  const [codeLength, setCodeLength] = useState<number | null>(null);
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const handleRequestCode = async (e?: React.FormEvent) => {
+    e?.preventDefault();
+    setError('');
+
+    try {
+      setLoading(true);
+      const sent = await patronApi.requestCode(contact.trim());
+      setCodeLength(sent.codeLength);
+      setMessage(`${sent.message}. It can be used for ${sent.expiresInMinutes} minutes.`);
+      setCode('');
+    } catch (error: any) {
+      setError(error.message || 'Failed to send a code. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSignIn = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    try {
+      setLoading(true);
+      await patronApi.login(contact.trim(), code);
+      onLogin();
+    } catch (error: any) {
+      setError(error.message || 'Failed to sign in. Please try again.');
+      setCode('');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const startOver = () => {
+    setCodeLength(null);
+    setCode('');
+    setMessage('');
+    setError('');
+  };
+
+  return (
+    <div className="flex justify-center">
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-8 w-full max-w-md">
+        <div className="flex items-center justify-center mb-6">
+          <div className="bg-blue-600 p-3 rounded-full">
+            <KeyRound className="w-8 h-8 text-white" />
+          </div>
+        </div>
+
+        <h2 className="text-center text-gray-900 mb-2">My Account</h2>
+        <p className="text-center text-gray-600 mb-6">
+          See your loans and holds, renew books and follow your requests
+        </p>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-red-600">{error}</p>
+          </div>
+        )}
+
+        {codeLength === null ? (
+          <form onSubmit={handleRequestCode} className="space-y-4">
+            <div>
+              <label className="block text-gray-700 mb-2">Email or phone number</label>
+              <input
+                type="text"
+                value={contact}
+                onChange={(e) => setContact(e.target.value)}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                placeholder="As on your library account"
+                autoFocus
+                required
+              />
+            </div>
+            <button
+              type="submit"
+              disabled={loading || !contact.trim()}
+              className="w-full bg-blue-600 text-white py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50"
+            >
+              {loading ? 'Sending...' : 'Send me a sign-in code'}
+            </button>
+          </form>
+        ) : (
+          <form onSubmit={handleSignIn} className="space-y-4">
+            <p className="text-gray-600">{message}</p>
+            <div className="flex justify-center">
+              <InputOTP maxLength={codeLength} value={code} onChange={setCode} autoFocus>
+                <InputOTPGroup>
+                  {Array.from({ length: codeLength }, (_, index) => (
+                    <InputOTPSlot key={index} index={index} />
+                  ))}
+                </InputOTPGroup>
+              </InputOTP>
+            </div>
+            <button
+              type="submit"
+              disabled={loading || code.length < codeLength}
+              className="w-full bg-blue-600 text-white py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50"
+            >
+              {loading ? 'Signing in...' : 'Sign In'}
+            </button>
+            <div className="flex justify-between text-sm">
+              <button type="button" onClick={startOver} className="text-gray-600 hover:text-gray-900">
+                Use a different email or phone
+              </button>
+              <button
+                type="button"
+                onClick={() => handleRequestCode()}
+                disabled={loading}
+                className="text-blue-600 hover:text-blue-700"
+              >
+                Send a new code
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
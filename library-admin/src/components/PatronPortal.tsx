@@ -0,0 +1,428 @@
+import { useState, useEffect } from 'react';
+import { RotateCw, BookPlus, LogOut, Undo2, Download } from 'lucide-react';
+import type { Category, BookRequest, Hold, PatronLoan, PatronProfile, OwnedBook, BorrowerVisibility } from '../App';
+import { patronApi, categoriesApi } from '../utils/api';
+import { formatMoney, LOAN_STATUS_LABELS, LOAN_STATUS_STYLES, COPY_STATUS_LABELS } from '../utils/format';
+import { downloadDonationReceipt } from '../utils/export';
+
+type PatronPortalProps = {
+  onLogout: () => void;
+};
+
+const REQUEST_STATUS_STYLES: Record<BookRequest['status'], string> = {
+  pending: 'bg-yellow-100 text-yellow-700',
+  fulfilled: 'bg-green-100 text-green-700',
+  rejected: 'bg-red-100 text-red-700',
+};
+
+/**
+ * A signed-in patron's own account: loans with their due dates (renewable
+ * ones can be renewed here), past loans, holds, the books they've asked
+ * the library to get, and books they've lent or given to it.
+ */
+export function PatronPortal({ onLogout }: PatronPortalProps) {
+  const [profile, setProfile] = useState<PatronProfile | null>(null);
+  const [currentLoans, setCurrentLoans] = useState<PatronLoan[]>([]);
+  const [history, setHistory] = useState<PatronLoan[]>([]);
+  const [holds, setHolds] = useState<Hold[]>([]);
+  const [requests, setRequests] = useState<BookRequest[]>([]);
+  const [ownedBooks, setOwnedBooks] = useState<OwnedBook[]>([]);
+  const [borrowerVisibility, setBorrowerVisibility] = useState<BorrowerVisibility>('none');
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [requestForm, setRequestForm] = useState({ bookName: '', authorName: '', categoryId: '' });
+  const [loading, setLoading] = useState(false);
+  const [successMessage, setSuccessMessage] = useState('');
+
+  useEffect(() => {
+    loadAccount();
+    categoriesApi.getAll().then(setCategories).catch(error => console.error('Error loading categories:', error));
+  }, []);
+
+  const loadAccount = async () => {
+    try {
+      setLoading(true);
+      const [me, loans, myHolds, myRequests, owned] = await Promise.all([
+        patronApi.me(),
+        patronApi.getLoans(),
+        patronApi.getHolds(),
+        patronApi.getRequests(),
+        patronApi.getOwnedBooks(),
+      ]);
+      setProfile(me);
+      setCurrentLoans(loans.current);
+      setHistory(loans.history);
+      setHolds(myHolds);
+      setRequests(myRequests);
+      setOwnedBooks(owned.books);
+      setBorrowerVisibility(owned.borrowerVisibility);
+    } catch (error) {
+      console.error('Error loading patron account:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const showSuccess = (message: string) => {
+    setSuccessMessage(message);
+    setTimeout(() => setSuccessMessage(''), 3000);
+  };
+
+  const handleRenew = async (loan: PatronLoan) => {
+    try {
+      const renewed = await patronApi.renew(loan.id);
+      setCurrentLoans(currentLoans.map(l => (l.id === renewed.id ? renewed : l)));
+      showSuccess(`"${renewed.bookTitle}" is now due ${formatDate(renewed.dueDate)}`);
+    } catch (error: any) {
+      console.error('Error renewing loan:', error);
+      alert(error.message || 'Failed to renew. Please try again.');
+      await loadAccount();
+    }
+  };
+
+  const handleRequest = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const created = await patronApi.createRequest({
+        bookName: requestForm.bookName,
+        authorName: requestForm.authorName,
+        categoryId: requestForm.categoryId || null,
+      });
+      setRequests([created, ...requests]);
+      setRequestForm({ bookName: '', authorName: '', categoryId: '' });
+      showSuccess(`Asked the library for "${created.bookName}"`);
+    } catch (error: any) {
+      console.error('Error requesting book:', error);
+      alert(error.message || 'Failed to send the request. Please try again.');
+    }
+  };
+
+  const handleReclaim = async (book: OwnedBook) => {
+    if (!confirm(`Ask for "${book.title}" back? It won't be lent out again, and anyone who has it will be asked to return it.`)) return;
+    try {
+      const { reclaimed, borrowersNotified } = await patronApi.reclaimBook(book.id);
+      showSuccess(`${reclaimed} ${reclaimed === 1 ? 'copy' : 'copies'} of "${book.title}" will be handed back to you`
+        + (borrowersNotified > 0 ? ` - ${borrowersNotified} borrower(s) asked to return it` : ''));
+      await loadAccount();
+    } catch (error: any) {
+      console.error('Error reclaiming book:', error);
+      alert(error.message || 'Failed to ask for the book back. Please try again.');
+    }
+  };
+
+  const handleCancelReclaim = async (reclaimId: string) => {
+    try {
+      await patronApi.cancelReclaim(reclaimId);
+      showSuccess('The copy stays with the library');
+      await loadAccount();
+    } catch (error: any) {
+      console.error('Error cancelling reclaim:', error);
+      alert(error.message || 'Failed to cancel. Please try again.');
+      await loadAccount();
+    }
+  };
+
+  const handleDonationReceipt = async () => {
+    try {
+      downloadDonationReceipt(await patronApi.getDonations());
+    } catch (error: any) {
+      console.error('Error loading donation receipt:', error);
+      alert(error.message || 'Failed to get your donation receipt. Please try again.');
+    }
+  };
+
+  const formatDate = (dateString: string | null) => {
+    if (!dateString) return '-';
+    return new Date(dateString).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+    });
+  };
+
+  const inputClass = 'w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+  if (!profile) {
+    return <p className="text-gray-500">{loading ? 'Loading your account...' : 'Failed to load your account. Please try again.'}</p>;
+  }
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h1 className="text-gray-900">Hello, {profile.name}</h1>
+          <p className="text-gray-600">
+            {profile.cardNumber ? `Card ${profile.cardNumber} · ` : ''}
+            {profile.fineBalance > 0 ? `You owe ${formatMoney(profile.fineBalance)} in fines` : 'No fines owing'}
+          </p>
+        </div>
+        <button
+          onClick={onLogout}
+          className="flex items-center gap-2 text-gray-600 hover:text-gray-900"
+        >
+          <LogOut className="w-4 h-4" />
+          Sign Out
+        </button>
+      </div>
+
+      {successMessage && (
+        <div className="bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded-lg mb-6">
+          {successMessage}
+        </div>
+      )}
+
+      {/* Current loans */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden mb-6">
+        <h2 className="text-gray-900 px-6 pt-6 pb-4">On Loan</h2>
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-gray-700">Book</th>
+                <th className="px-6 py-3 text-left text-gray-700">Borrowed</th>
+                <th className="px-6 py-3 text-left text-gray-700">Due</th>
+                <th className="px-6 py-3 text-right text-gray-700">Renew</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {currentLoans.length === 0 ? (
+                <tr>
+                  <td colSpan={4} className="px-6 py-8 text-center text-gray-500">No books on loan</td>
+                </tr>
+              ) : (
+                currentLoans.map((loan) => (
+                  <tr key={loan.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4">
+                      <span className="block text-gray-900">{loan.bookTitle}</span>
+                      {loan.branchName && <span className="block text-gray-600 text-sm">from {loan.branchName}</span>}
+                    </td>
+                    <td className="px-6 py-4 text-gray-600">{formatDate(loan.issueDate)}</td>
+                    <td className="px-6 py-4">
+                      <span className={loan.overdue ? 'text-red-600' : 'text-gray-900'}>{formatDate(loan.dueDate)}</span>
+                      {loan.overdue && <span className="block text-red-600 text-sm">Overdue</span>}
+                      {loan.renewalCount > 0 && (
+                        <span className="block text-gray-500 text-sm">Renewed {loan.renewalCount} time(s)</span>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 text-right">
+                      {loan.canRenew ? (
+                        <button
+                          onClick={() => handleRenew(loan)}
+                          className="inline-flex items-center gap-2 px-3 py-1 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+                        >
+                          <RotateCw className="w-4 h-4" />
+                          Renew
+                        </button>
+                      ) : (
+                        <span className="text-gray-500 text-sm">{loan.renewBlockedReason}</span>
+                      )}
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
+        {/* Holds */}
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+          <h2 className="text-gray-900 mb-4">Holds</h2>
+          {holds.length === 0 ? (
+            <p className="text-gray-500">No holds</p>
+          ) : (
+            <ul className="divide-y">
+              {holds.map(hold => (
+                <li key={hold.id} className="py-2">
+                  <span className="block text-gray-900">{hold.bookTitle}</span>
+                  {hold.status === 'ready' ? (
+                    <span className="text-green-700">
+                      Ready to collect{hold.expiresAt ? ` until ${formatDate(hold.expiresAt)}` : ''}
+                    </span>
+                  ) : (
+                    <span className="text-gray-600">Number {hold.position} in line</span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {/* Book requests */}
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+          <h2 className="text-gray-900 mb-4">My Requests</h2>
+          <form onSubmit={handleRequest} className="space-y-3 mb-4">
+            <input
+              type="text"
+              value={requestForm.bookName}
+              onChange={(e) => setRequestForm({ ...requestForm, bookName: e.target.value })}
+              className={inputClass}
+              placeholder="Title of a book you'd like the library to get"
+              required
+            />
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={requestForm.authorName}
+                onChange={(e) => setRequestForm({ ...requestForm, authorName: e.target.value })}
+                className={inputClass}
+                placeholder="Author (optional)"
+              />
+              <select
+                value={requestForm.categoryId}
+                onChange={(e) => setRequestForm({ ...requestForm, categoryId: e.target.value })}
+                className={inputClass}
+              >
+                <option value="">Category (optional)</option>
+                {categories.map(category => (
+                  <option key={category.id} value={category.id}>{category.name}</option>
+                ))}
+              </select>
+            </div>
+            <button
+              type="submit"
+              className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 flex items-center gap-2"
+            >
+              <BookPlus className="w-4 h-4" />
+              Request Book
+            </button>
+          </form>
+          {requests.length === 0 ? (
+            <p className="text-gray-500">No requests yet</p>
+          ) : (
+            <ul className="divide-y">
+              {requests.map(request => (
+                <li key={request.id} className="py-2 flex justify-between items-center gap-4">
+                  <span>
+                    <span className="block text-gray-900">{request.bookName}</span>
+                    <span className="block text-gray-600 text-sm">
+                      {request.authorName ? `${request.authorName} · ` : ''}asked {formatDate(request.requestDate)}
+                    </span>
+                    {request.status === 'fulfilled' && request.bookTitle && (
+                      <span className="block text-green-700 text-sm">Now in the library as "{request.bookTitle}"</span>
+                    )}
+                    {request.status === 'rejected' && request.rejectionReason && (
+                      <span className="block text-gray-600 text-sm">{request.rejectionReason}</span>
+                    )}
+                  </span>
+                  <span className={`px-2 py-1 rounded text-sm capitalize ${REQUEST_STATUS_STYLES[request.status]}`}>
+                    {request.status}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+
+      {/* Books the patron lent or gave */}
+      {ownedBooks.length > 0 && (
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 mb-6">
+          <div className="flex justify-between items-center mb-4">
+            <h2 className="text-gray-900">Books You've Lent or Given</h2>
+            {ownedBooks.some(book => book.ownership === 'donated') && (
+              <button
+                onClick={handleDonationReceipt}
+                className="flex items-center gap-2 text-blue-600 hover:text-blue-700"
+              >
+                <Download className="w-4 h-4" />
+                Donation Receipt
+              </button>
+            )}
+          </div>
+          <ul className="divide-y">
+            {ownedBooks.map(book => {
+              const canReclaim = book.ownership === 'lent'
+                && book.copies.some(copy => copy.status !== 'withdrawn' && copy.status !== 'lost' && !copy.reclaim);
+              return (
+                <li key={book.id} className="py-3">
+                  <div className="flex justify-between items-start gap-4">
+                    <span>
+                      <span className="block text-gray-900">{book.title}</span>
+                      <span className="block text-gray-600 text-sm">
+                        {book.ownership === 'donated' ? `Given ${formatDate(book.donatedAt)}` : 'Lent'}
+                        {` · borrowed ${book.loans} time(s), ${book.loansLastYear} in the last year`}
+                        {book.lastIssuedAt ? ` · last ${formatDate(book.lastIssuedAt)}` : ''}
+                      </span>
+                    </span>
+                    {canReclaim && (
+                      <button
+                        onClick={() => handleReclaim(book)}
+                        className="inline-flex items-center gap-2 px-3 py-1 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 whitespace-nowrap"
+                      >
+                        <Undo2 className="w-4 h-4" />
+                        Ask for It Back
+                      </button>
+                    )}
+                  </div>
+                  {book.ownership === 'lent' && book.copies.map(copy => (
+                    <div key={copy.id} className="flex justify-between items-center text-sm mt-1">
+                      <span className="text-gray-600">
+                        Copy {copy.barcode}: {copy.reclaim?.status === 'completed'
+                          ? `handed back ${formatDate(copy.reclaim.handedBackAt)}`
+                          : COPY_STATUS_LABELS[copy.status].toLowerCase()}
+                        {copy.status === 'on_loan' && (copy.borrower
+                          ? ` to ${copy.borrower.name}${copy.borrower.email ? ` (${copy.borrower.email})` : ''}${copy.borrower.phone ? ` (${copy.borrower.phone})` : ''}`
+                          : '')}
+                        {copy.status === 'on_loan' && ` until ${formatDate(copy.dueDate)}`}
+                        {copy.reclaim?.status === 'open' && ' · coming back to you'}
+                      </span>
+                      {copy.reclaim?.status === 'open' && (
+                        <button
+                          onClick={() => handleCancelReclaim(copy.reclaim!.id)}
+                          className="text-gray-600 hover:text-gray-900"
+                        >
+                          Let the library keep it
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                </li>
+              );
+            })}
+          </ul>
+          {borrowerVisibility === 'none' && (
+            <p className="text-gray-500 text-sm mt-2">The library doesn't share who has your books.</p>
+          )}
+        </div>
+      )}
+
+      {/* Loan history */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+        <h2 className="text-gray-900 px-6 pt-6 pb-4">Borrowing History</h2>
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-gray-700">Book</th>
+                <th className="px-6 py-3 text-left text-gray-700">Borrowed</th>
+                <th className="px-6 py-3 text-left text-gray-700">Returned</th>
+                <th className="px-6 py-3 text-left text-gray-700">Status</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {history.length === 0 ? (
+                <tr>
+                  <td colSpan={4} className="px-6 py-8 text-center text-gray-500">No past loans</td>
+                </tr>
+              ) : (
+                history.map((loan) => (
+                  <tr key={loan.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 text-gray-900">{loan.bookTitle}</td>
+                    <td className="px-6 py-4 text-gray-600">{formatDate(loan.issueDate)}</td>
+                    <td className="px-6 py-4 text-gray-600">{formatDate(loan.returnDate)}</td>
+                    <td className="px-6 py-4">
+                      <span className={`px-2 py-1 rounded ${LOAN_STATUS_STYLES[loan.status]}`}>
+                        {LOAN_STATUS_LABELS[loan.status]}
+                      </span>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,912 @@
+import { useState, useEffect } from 'react';
+import { Plus, Edit2, Trash2, X, ArrowLeft, Send, PackageCheck, FileSpreadsheet, BookPlus, Ban } from 'lucide-react';
+import type { Branch, BookRequest, Category, OrderStatus, PurchaseOrder, PurchaseOrderLine, Vendor } from '../App';
+import {
+  purchaseOrdersApi, vendorsApi, branchesApi, categoriesApi, budgetsApi, bookRequestsApi, authApi,
+  type PurchaseOrderInput, type PurchaseOrderLineInput,
+} from '../utils/api';
+import { formatMoney } from '../utils/format';
+
+type PurchaseOrdersProps = {
+  onViewBook: (bookId: string) => void;
+};
+
+type Modal = 'order' | 'line' | 'requests' | 'import' | 'receive' | null;
+
+const STATUS_LABELS: Record<OrderStatus, string> = {
+  draft: 'Draft',
+  ordered: 'Ordered',
+  partially_received: 'Partly received',
+  received: 'Received',
+  cancelled: 'Cancelled',
+};
+
+const STATUS_STYLES: Record<OrderStatus, string> = {
+  draft: 'bg-gray-100 text-gray-700',
+  ordered: 'bg-blue-100 text-blue-700',
+  partially_received: 'bg-yellow-100 text-yellow-700',
+  received: 'bg-green-100 text-green-700',
+  cancelled: 'bg-red-100 text-red-700',
+};
+
+const emptyLineForm = {
+  title: '',
+  isbn: '',
+  authorName: '',
+  categoryId: '',
+  bookType: '',
+  unitPrice: '0',
+  quantity: '1',
+};
+
+/**
+ * Purchase orders: drafted from typed-in titles, pending book requests or a
+ * vendor's quote spreadsheet, placed with the vendor, then received. Each
+ * delivery received puts new copies on the shelf at the order's branch.
+ */
+export function PurchaseOrders({ onViewBook }: PurchaseOrdersProps) {
+  const [orders, setOrders] = useState<PurchaseOrder[]>([]);
+  const [order, setOrder] = useState<PurchaseOrder | null>(null);
+  const [statusFilter, setStatusFilter] = useState<OrderStatus | ''>('');
+  const [vendors, setVendors] = useState<Vendor[]>([]);
+  const [branches, setBranches] = useState<Branch[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [currentFiscalYear, setCurrentFiscalYear] = useState(new Date().getFullYear());
+  const [modal, setModal] = useState<Modal>(null);
+  const [orderForm, setOrderForm] = useState({ vendorId: '', branchId: '', fiscalYear: '', vendorReference: '', notes: '' });
+  const [lineForm, setLineForm] = useState(emptyLineForm);
+  const [editingLine, setEditingLine] = useState<PurchaseOrderLine | null>(null);
+  const [pendingRequests, setPendingRequests] = useState<BookRequest[]>([]);
+  const [selectedRequestIds, setSelectedRequestIds] = useState<string[]>([]);
+  const [quoteFile, setQuoteFile] = useState<File | null>(null);
+  const [recommendedOnly, setRecommendedOnly] = useState(false);
+  const [receiveQuantities, setReceiveQuantities] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [successMessage, setSuccessMessage] = useState('');
+
+  useEffect(() => {
+    vendorsApi.getAll().then(setVendors).catch(error => console.error('Error loading vendors:', error));
+    branchesApi.getAll().then(setBranches).catch(error => console.error('Error loading branches:', error));
+    categoriesApi.getAll().then(setCategories).catch(error => console.error('Error loading categories:', error));
+    budgetsApi.getSettings()
+      .then(settings => setCurrentFiscalYear(settings.currentFiscalYear))
+      .catch(error => console.error('Error loading acquisition settings:', error));
+  }, []);
+
+  useEffect(() => {
+    loadOrders();
+  }, [statusFilter]);
+
+  const loadOrders = async () => {
+    try {
+      setLoading(true);
+      setOrders(await purchaseOrdersApi.getAll({ status: statusFilter || undefined }));
+    } catch (error) {
+      console.error('Error loading orders:', error);
+      alert('Failed to load orders. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openOrder = async (id: string) => {
+    try {
+      setOrder(await purchaseOrdersApi.getById(id));
+    } catch (error: any) {
+      console.error('Error loading order:', error);
+      alert(error.message || 'Failed to load the order. Please try again.');
+    }
+  };
+
+  const closeOrder = async () => {
+    setOrder(null);
+    await loadOrders();
+  };
+
+  const showSuccess = (message: string) => {
+    setSuccessMessage(message);
+    setTimeout(() => setSuccessMessage(''), 4000);
+  };
+
+  const closeModal = () => {
+    setModal(null);
+    setError('');
+    setEditingLine(null);
+  };
+
+  // Runs a change from a modal, keeping the modal open with the error if it fails
+  const submitChange = async (change: () => Promise<PurchaseOrder>, message?: string) => {
+    try {
+      setLoading(true);
+      setError('');
+      setOrder(await change());
+      closeModal();
+      if (message) showSuccess(message);
+    } catch (error: any) {
+      console.error('Error updating order:', error);
+      setError(error.message || 'Failed to update the order. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // ----- Order details -----
+  const openOrderForm = (editing: boolean) => {
+    setOrderForm(editing && order ? {
+      vendorId: order.vendorId,
+      branchId: order.branchId,
+      fiscalYear: String(order.fiscalYear),
+      vendorReference: order.vendorReference || '',
+      notes: order.notes || '',
+    } : {
+      vendorId: '',
+      branchId: authApi.getCurrentStaff()?.branch?.id || '',
+      fiscalYear: String(currentFiscalYear),
+      vendorReference: '',
+      notes: '',
+    });
+    setError('');
+    setModal('order');
+  };
+
+  const handleOrderSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const input: PurchaseOrderInput = { ...orderForm, fiscalYear: Number(orderForm.fiscalYear) };
+    submitChange(() => (order ? purchaseOrdersApi.update(order.id, input) : purchaseOrdersApi.create(input)));
+  };
+
+  // ----- Lines -----
+  const openLineForm = (line: PurchaseOrderLine | null) => {
+    setEditingLine(line);
+    setLineForm(line ? {
+      title: line.title,
+      isbn: line.isbn || '',
+      authorName: line.authorName || '',
+      categoryId: line.categoryId || '',
+      bookType: line.bookType || '',
+      unitPrice: String(line.unitPrice),
+      quantity: String(line.quantity),
+    } : emptyLineForm);
+    setError('');
+    setModal('line');
+  };
+
+  const handleLineSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!order) return;
+    const input: PurchaseOrderLineInput = {
+      ...lineForm,
+      categoryId: lineForm.categoryId || null,
+      unitPrice: Number(lineForm.unitPrice),
+      quantity: Number(lineForm.quantity),
+      bookId: editingLine?.bookId || null,
+    };
+    submitChange(() => (editingLine
+      ? purchaseOrdersApi.updateLine(order.id, editingLine.id, input)
+      : purchaseOrdersApi.addLine(order.id, input)));
+  };
+
+  const handleRemoveLine = async (line: PurchaseOrderLine) => {
+    if (!order || !confirm(`Take "${line.title}" off this order?`)) return;
+    try {
+      setOrder(await purchaseOrdersApi.removeLine(order.id, line.id));
+    } catch (error: any) {
+      console.error('Error removing line:', error);
+      alert(error.message || 'Failed to remove the line. Please try again.');
+    }
+  };
+
+  // ----- From book requests -----
+  const openRequests = async () => {
+    setSelectedRequestIds([]);
+    setError('');
+    setModal('requests');
+    try {
+      setPendingRequests(await bookRequestsApi.getAll({ status: 'pending' }));
+    } catch (error: any) {
+      console.error('Error loading requests:', error);
+      setError(error.message || 'Failed to load the requests. Please try again.');
+    }
+  };
+
+  const toggleRequest = (id: string) => {
+    setSelectedRequestIds(selectedRequestIds.includes(id)
+      ? selectedRequestIds.filter(selected => selected !== id)
+      : [...selectedRequestIds, id]);
+  };
+
+  // ----- Quote import -----
+  const handleImport = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!order || !quoteFile) return;
+    try {
+      setLoading(true);
+      setError('');
+      const result = await purchaseOrdersApi.importQuote(order.id, quoteFile, recommendedOnly);
+      setOrder(result.order);
+      closeModal();
+      setQuoteFile(null);
+      showSuccess(`Imported ${result.imported} title(s)${result.skipped > 0 ? `, skipped ${result.skipped} row(s)` : ''}`);
+    } catch (error: any) {
+      console.error('Error importing quote:', error);
+      setError(error.message || 'Failed to import the quote. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // ----- Placing, cancelling and receiving -----
+  const runAction = async (action: 'place' | 'cancel', message: string) => {
+    if (!order) return;
+    if (action === 'cancel' && !confirm(order.quantityReceived > 0
+      ? 'Cancel the rest of this order? Copies already received stay in the catalog.'
+      : 'Cancel this order?')) return;
+    try {
+      setOrder(await purchaseOrdersApi[action](order.id));
+      showSuccess(message);
+    } catch (error: any) {
+      console.error(`Error on order ${action}:`, error);
+      alert(error.message || 'Failed to update the order. Please try again.');
+    }
+  };
+
+  const openReceive = () => {
+    if (!order?.lines) return;
+    setReceiveQuantities(Object.fromEntries(
+      order.lines.map(line => [line.id, String(line.quantity - line.quantityReceived)])
+    ));
+    setError('');
+    setModal('receive');
+  };
+
+  const handleReceive = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!order) return;
+    try {
+      setLoading(true);
+      setError('');
+      const receipts = Object.entries(receiveQuantities)
+        .map(([lineId, quantity]) => ({ lineId, quantity: Number(quantity) || 0 }))
+        .filter(receipt => receipt.quantity > 0);
+      const result = await purchaseOrdersApi.receive(order.id, receipts);
+      setOrder(result.order);
+      closeModal();
+      const notes = [`${result.copiesAdded} copies added to the catalog`];
+      if (result.holdsReady > 0) notes.push(`${result.holdsReady} set aside for holds`);
+      if (result.requestsFulfilled > 0) notes.push(`${result.requestsFulfilled} request(s) fulfilled`);
+      if (result.notifyFailed > 0) notes.push(`${result.notifyFailed} requester email(s) could not be sent`);
+      showSuccess(notes.join(', '));
+    } catch (error: any) {
+      console.error('Error receiving order:', error);
+      setError(error.message || 'Failed to receive the delivery. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const formatDate = (dateString: string | null) => {
+    if (!dateString) return '-';
+    return new Date(dateString).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+    });
+  };
+
+  const inputClass = 'w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+  const modalHeader = (title: string) => (
+    <div className="flex justify-between items-center p-6 border-b border-gray-200">
+      <h2 className="text-gray-900">{title}</h2>
+      <button type="button" onClick={closeModal} className="text-gray-400 hover:text-gray-600">
+        <X className="w-6 h-6" />
+      </button>
+    </div>
+  );
+
+  const modalFooter = (label: string, disabled = false) => (
+    <div className="flex gap-2 p-6 border-t border-gray-200">
+      <button
+        type="submit"
+        disabled={loading || disabled}
+        className="flex-1 bg-blue-600 text-white py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50"
+      >
+        {label}
+      </button>
+      <button
+        type="button"
+        onClick={closeModal}
+        className="flex-1 bg-gray-200 text-gray-700 py-2 rounded-lg hover:bg-gray-300"
+      >
+        Cancel
+      </button>
+    </div>
+  );
+
+  const errorBox = error && (
+    <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+      <p className="text-red-600">{error}</p>
+    </div>
+  );
+
+  const modals = (
+    <>
+      {/* Order details */}
+      {modal === 'order' && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-lg shadow-xl w-full max-w-md">
+            <form onSubmit={handleOrderSubmit}>
+              {modalHeader(order ? `Edit Order #${order.id}` : 'New Purchase Order')}
+              <div className="p-6 space-y-4">
+                {errorBox}
+                {(!order || order.status === 'draft') && (
+                  <>
+                    <div>
+                      <label className="block text-gray-700 mb-2">Vendor *</label>
+                      <select
+                        value={orderForm.vendorId}
+                        onChange={(e) => setOrderForm({ ...orderForm, vendorId: e.target.value })}
+                        className={inputClass}
+                        required
+                      >
+                        <option value="">Choose a vendor</option>
+                        {vendors.map(vendor => (
+                          <option key={vendor.id} value={vendor.id}>{vendor.name}</option>
+                        ))}
+                      </select>
+                      {vendors.length === 0 && (
+                        <p className="text-gray-500 text-sm mt-1">Add the vendor under Vendors first</p>
+                      )}
+                    </div>
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <label className="block text-gray-700 mb-2">Deliver to *</label>
+                        <select
+                          value={orderForm.branchId}
+                          onChange={(e) => setOrderForm({ ...orderForm, branchId: e.target.value })}
+                          className={inputClass}
+                          required
+                        >
+                          <option value="">Choose a branch</option>
+                          {branches.map(branch => (
+                            <option key={branch.id} value={branch.id}>{branch.name}</option>
+                          ))}
+                        </select>
+                      </div>
+                      <div>
+                        <label className="block text-gray-700 mb-2">Fiscal year *</label>
+                        <input
+                          type="number"
+                          value={orderForm.fiscalYear}
+                          onChange={(e) => setOrderForm({ ...orderForm, fiscalYear: e.target.value })}
+                          className={inputClass}
+                          required
+                        />
+                      </div>
+                    </div>
+                  </>
+                )}
+                <div>
+                  <label className="block text-gray-700 mb-2">Vendor's reference</label>
+                  <input
+                    type="text"
+                    value={orderForm.vendorReference}
+                    onChange={(e) => setOrderForm({ ...orderForm, vendorReference: e.target.value })}
+                    className={inputClass}
+                    placeholder="Quote or invoice number"
+                  />
+                </div>
+                <div>
+                  <label className="block text-gray-700 mb-2">Notes</label>
+                  <textarea
+                    value={orderForm.notes}
+                    onChange={(e) => setOrderForm({ ...orderForm, notes: e.target.value })}
+                    className={inputClass}
+                    rows={2}
+                  />
+                </div>
+              </div>
+              {modalFooter(order ? 'Update' : 'Create Draft')}
+            </form>
+          </div>
+        </div>
+      )}
+
+      {/* Add or edit a line */}
+      {modal === 'line' && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-lg shadow-xl w-full max-w-md">
+            <form onSubmit={handleLineSubmit}>
+              {modalHeader(editingLine ? 'Edit Line' : 'Add Line')}
+              <div className="p-6 space-y-4">
+                {errorBox}
+                <div>
+                  <label className="block text-gray-700 mb-2">Title *</label>
+                  <input
+                    type="text"
+                    value={lineForm.title}
+                    onChange={(e) => setLineForm({ ...lineForm, title: e.target.value })}
+                    className={inputClass}
+                    required
+                  />
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-gray-700 mb-2">Author</label>
+                    <input
+                      type="text"
+                      value={lineForm.authorName}
+                      onChange={(e) => setLineForm({ ...lineForm, authorName: e.target.value })}
+                      className={inputClass}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-gray-700 mb-2">ISBN</label>
+                    <input
+                      type="text"
+                      value={lineForm.isbn}
+                      onChange={(e) => setLineForm({ ...lineForm, isbn: e.target.value })}
+                      className={inputClass}
+                      placeholder="Needed to receive it"
+                    />
+                  </div>
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-gray-700 mb-2">Category</label>
+                    <select
+                      value={lineForm.categoryId}
+                      onChange={(e) => setLineForm({ ...lineForm, categoryId: e.target.value })}
+                      className={inputClass}
+                    >
+                      <option value="">No category</option>
+                      {categories.map(category => (
+                        <option key={category.id} value={category.id}>{category.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-gray-700 mb-2">Binding</label>
+                    <select
+                      value={lineForm.bookType}
+                      onChange={(e) => setLineForm({ ...lineForm, bookType: e.target.value })}
+                      className={inputClass}
+                    >
+                      <option value="">Paperback</option>
+                      <option value="Hardcover">Hardcover</option>
+                    </select>
+                  </div>
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-gray-700 mb-2">Unit price *</label>
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={lineForm.unitPrice}
+                      onChange={(e) => setLineForm({ ...lineForm, unitPrice: e.target.value })}
+                      className={inputClass}
+                      required
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-gray-700 mb-2">Quantity *</label>
+                    <input
+                      type="number"
+                      min="1"
+                      value={lineForm.quantity}
+                      onChange={(e) => setLineForm({ ...lineForm, quantity: e.target.value })}
+                      className={inputClass}
+                      required
+                    />
+                  </div>
+                </div>
+              </div>
+              {modalFooter(editingLine ? 'Update' : 'Add')}
+            </form>
+          </div>
+        </div>
+      )}
+
+      {/* Lines from pending book requests */}
+      {modal === 'requests' && order && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-lg shadow-xl w-full max-w-lg">
+            <form onSubmit={(e) => {
+              e.preventDefault();
+              submitChange(() => purchaseOrdersApi.addRequests(order.id, selectedRequestIds),
+                `Added ${selectedRequestIds.length} requested title(s)`);
+            }}>
+              {modalHeader('Order Requested Books')}
+              <div className="p-6 space-y-4">
+                {errorBox}
+                <p className="text-gray-600">
+                  Receiving a requested title fulfils its request, and every other pending request for the same title.
+                </p>
+                <div className="max-h-80 overflow-y-auto border border-gray-200 rounded-lg divide-y">
+                  {pendingRequests.length === 0 ? (
+                    <p className="p-4 text-center text-gray-500">No pending requests</p>
+                  ) : (
+                    pendingRequests.map(request => (
+                      <label key={request.id} className="flex items-start gap-3 p-3 hover:bg-gray-50">
+                        <input
+                          type="checkbox"
+                          checked={selectedRequestIds.includes(request.id)}
+                          onChange={() => toggleRequest(request.id)}
+                          className="mt-1"
+                        />
+                        <span>
+                          <span className="block text-gray-900">{request.bookName}</span>
+                          <span className="block text-gray-600 text-sm">
+                            {[request.authorName, request.categoryName, request.userName].filter(Boolean).join(' · ') || 'No details'}
+                          </span>
+                        </span>
+                      </label>
+                    ))
+                  )}
+                </div>
+              </div>
+              {modalFooter(`Add ${selectedRequestIds.length || ''} to Order`, selectedRequestIds.length === 0)}
+            </form>
+          </div>
+        </div>
+      )}
+
+      {/* Quote spreadsheet */}
+      {modal === 'import' && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-lg shadow-xl w-full max-w-md">
+            <form onSubmit={handleImport}>
+              {modalHeader('Import Vendor Quote')}
+              <div className="p-6 space-y-4">
+                {errorBox}
+                <p className="text-gray-600">
+                  The sheet needs a header row with ISBN and Title columns. Author, binding, price (net price if given),
+                  quantity and category columns are used when present.
+                </p>
+                <input
+                  type="file"
+                  accept=".xlsx,.xls,.csv"
+                  onChange={(e) => setQuoteFile(e.target.files?.[0] || null)}
+                  className={inputClass}
+                  required
+                />
+                <label className="flex items-center gap-2 text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={recommendedOnly}
+                    onChange={(e) => setRecommendedOnly(e.target.checked)}
+                  />
+                  Only rows the vendor marked as recommended
+                </label>
+              </div>
+              {modalFooter('Import', !quoteFile)}
+            </form>
+          </div>
+        </div>
+      )}
+
+      {/* Receive a delivery */}
+      {modal === 'receive' && order?.lines && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+            <form onSubmit={handleReceive}>
+              {modalHeader('Receive Delivery')}
+              <div className="p-6 space-y-4">
+                {errorBox}
+                <p className="text-gray-600">
+                  Copies go on the shelf at {order.branchName}. Titles not yet in the catalog are added from their line.
+                </p>
+                <table className="w-full">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-4 py-2 text-left text-gray-700">Title</th>
+                      <th className="px-4 py-2 text-right text-gray-700">Still to come</th>
+                      <th className="px-4 py-2 text-right text-gray-700">Arrived</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {order.lines.filter(line => line.quantityReceived < line.quantity).map(line => (
+                      <tr key={line.id}>
+                        <td className="px-4 py-2">
+                          <span className="block text-gray-900">{line.title}</span>
+                          {!line.bookId && !line.isbn && (
+                            <span className="block text-red-600 text-sm">Needs an ISBN before it can be received</span>
+                          )}
+                        </td>
+                        <td className="px-4 py-2 text-right text-gray-600">{line.quantity - line.quantityReceived}</td>
+                        <td className="px-4 py-2 text-right">
+                          <input
+                            type="number"
+                            min="0"
+                            max={line.quantity - line.quantityReceived}
+                            value={receiveQuantities[line.id] ?? ''}
+                            onChange={(e) => setReceiveQuantities({ ...receiveQuantities, [line.id]: e.target.value })}
+                            className="w-20 px-3 py-1 border border-gray-300 rounded-lg text-right"
+                          />
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              {modalFooter('Receive')}
+            </form>
+          </div>
+        </div>
+      )}
+    </>
+  );
+
+  // ===== One order =====
+  if (order) {
+    const lines = order.lines || [];
+    const isDraft = order.status === 'draft';
+    const isOpen = order.status === 'ordered' || order.status === 'partially_received';
+
+    return (
+      <div>
+        <button onClick={closeOrder} className="flex items-center gap-2 text-gray-600 hover:text-gray-900 mb-4">
+          <ArrowLeft className="w-4 h-4" />
+          All Orders
+        </button>
+
+        <div className="flex justify-between items-start mb-6">
+          <div>
+            <h1 className="text-gray-900 flex items-center gap-3">
+              Order #{order.id} · {order.vendorName}
+              <span className={`px-2 py-1 rounded text-sm ${STATUS_STYLES[order.status]}`}>{STATUS_LABELS[order.status]}</span>
+            </h1>
+            <p className="text-gray-600">
+              For {order.branchName} · Fiscal year {order.fiscalYear}
+              {order.vendorReference ? ` · Ref ${order.vendorReference}` : ''}
+            </p>
+            <p className="text-gray-500 text-sm">
+              Drafted {formatDate(order.createdAt)}{order.createdByName ? ` by ${order.createdByName}` : ''}
+              {order.orderedAt && ` · Ordered ${formatDate(order.orderedAt)}${order.orderedByName ? ` by ${order.orderedByName}` : ''}`}
+              {order.receivedAt && ` · Received ${formatDate(order.receivedAt)}`}
+            </p>
+            {order.notes && <p className="text-gray-600 mt-1">{order.notes}</p>}
+          </div>
+          <div className="flex flex-wrap justify-end gap-2">
+            {(isDraft || isOpen) && (
+              <button
+                onClick={() => openOrderForm(true)}
+                className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 flex items-center gap-2"
+              >
+                <Edit2 className="w-4 h-4" />
+                Edit
+              </button>
+            )}
+            {isDraft && (
+              <button
+                onClick={() => runAction('place', `Order #${order.id} placed with ${order.vendorName}`)}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 flex items-center gap-2"
+              >
+                <Send className="w-4 h-4" />
+                Place Order
+              </button>
+            )}
+            {isOpen && (
+              <button
+                onClick={openReceive}
+                className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 flex items-center gap-2"
+              >
+                <PackageCheck className="w-4 h-4" />
+                Receive
+              </button>
+            )}
+            {(isDraft || isOpen) && (
+              <button
+                onClick={() => runAction('cancel', `Order #${order.id} cancelled`)}
+                className="px-4 py-2 bg-white border border-red-300 text-red-600 rounded-lg hover:bg-red-50 flex items-center gap-2"
+              >
+                <Ban className="w-4 h-4" />
+                {order.quantityReceived > 0 ? 'Cancel the Rest' : 'Cancel Order'}
+              </button>
+            )}
+          </div>
+        </div>
+
+        {successMessage && (
+          <div className="bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded-lg mb-6">
+            {successMessage}
+          </div>
+        )}
+
+        {isDraft && (
+          <div className="flex gap-2 mb-4">
+            <button
+              onClick={() => openLineForm(null)}
+              className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 flex items-center gap-2"
+            >
+              <Plus className="w-4 h-4" />
+              Add Line
+            </button>
+            <button
+              onClick={openRequests}
+              className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 flex items-center gap-2"
+            >
+              <BookPlus className="w-4 h-4" />
+              From Requests
+            </button>
+            <button
+              onClick={() => { setError(''); setModal('import'); }}
+              className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 flex items-center gap-2"
+            >
+              <FileSpreadsheet className="w-4 h-4" />
+              Import Quote
+            </button>
+          </div>
+        )}
+
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-gray-700">Title</th>
+                  <th className="px-6 py-3 text-left text-gray-700">Category</th>
+                  <th className="px-6 py-3 text-right text-gray-700">Price</th>
+                  <th className="px-6 py-3 text-right text-gray-700">Qty</th>
+                  <th className="px-6 py-3 text-right text-gray-700">Received</th>
+                  <th className="px-6 py-3 text-right text-gray-700">Total</th>
+                  {isDraft && <th className="px-6 py-3 text-right text-gray-700">Actions</th>}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {lines.length === 0 ? (
+                  <tr>
+                    <td colSpan={isDraft ? 7 : 6} className="px-6 py-8 text-center text-gray-500">
+                      No lines yet - add titles, requested books or a vendor's quote
+                    </td>
+                  </tr>
+                ) : (
+                  lines.map((line) => (
+                    <tr key={line.id} className="hover:bg-gray-50">
+                      <td className="px-6 py-4">
+                        {line.bookId ? (
+                          <button onClick={() => onViewBook(line.bookId as string)} className="block text-blue-600 hover:underline text-left">
+                            {line.title}
+                          </button>
+                        ) : (
+                          <span className="block text-gray-900">{line.title}</span>
+                        )}
+                        <span className="block text-gray-600 text-sm">
+                          {[line.authorName, line.isbn, line.bookType].filter(Boolean).join(' · ')}
+                        </span>
+                        {line.requestId && <span className="block text-purple-700 text-sm">Requested by a patron</span>}
+                      </td>
+                      <td className="px-6 py-4 text-gray-600">{line.categoryName || '-'}</td>
+                      <td className="px-6 py-4 text-right text-gray-900">{formatMoney(line.unitPrice)}</td>
+                      <td className="px-6 py-4 text-right text-gray-900">{line.quantity}</td>
+                      <td className={`px-6 py-4 text-right ${line.quantityReceived >= line.quantity ? 'text-green-700' : 'text-gray-600'}`}>
+                        {line.quantityReceived}
+                      </td>
+                      <td className="px-6 py-4 text-right text-gray-900">{formatMoney(line.unitPrice * line.quantity)}</td>
+                      {isDraft && (
+                        <td className="px-6 py-4">
+                          <div className="flex justify-end gap-2">
+                            <button
+                              onClick={() => openLineForm(line)}
+                              className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg"
+                              title="Edit Line"
+                            >
+                              <Edit2 className="w-4 h-4" />
+                            </button>
+                            <button
+                              onClick={() => handleRemoveLine(line)}
+                              className="p-2 text-red-600 hover:bg-red-50 rounded-lg"
+                              title="Remove Line"
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </button>
+                          </div>
+                        </td>
+                      )}
+                    </tr>
+                  ))
+                )}
+              </tbody>
+              {lines.length > 0 && (
+                <tfoot className="bg-gray-50">
+                  <tr>
+                    <td colSpan={3} className="px-6 py-3 text-gray-700">{order.lineCount} title(s)</td>
+                    <td className="px-6 py-3 text-right text-gray-900">{order.quantity}</td>
+                    <td className="px-6 py-3 text-right text-gray-900">{order.quantityReceived}</td>
+                    <td className="px-6 py-3 text-right text-gray-900">{formatMoney(order.total)}</td>
+                    {isDraft && <td />}
+                  </tr>
+                </tfoot>
+              )}
+            </table>
+          </div>
+        </div>
+
+        {modals}
+      </div>
+    );
+  }
+
+  // ===== All orders =====
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-gray-900">Purchase Orders</h1>
+        <div className="flex gap-2">
+          <select
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value as OrderStatus | '')}
+            className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            <option value="">All orders</option>
+            {(Object.keys(STATUS_LABELS) as OrderStatus[]).map(status => (
+              <option key={status} value={status}>{STATUS_LABELS[status]}</option>
+            ))}
+          </select>
+          <button
+            onClick={() => openOrderForm(false)}
+            className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 flex items-center gap-2"
+          >
+            <Plus className="w-5 h-5" />
+            New Order
+          </button>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-gray-700">Order</th>
+                <th className="px-6 py-3 text-left text-gray-700">Vendor</th>
+                <th className="px-6 py-3 text-left text-gray-700">For</th>
+                <th className="px-6 py-3 text-left text-gray-700">Status</th>
+                <th className="px-6 py-3 text-right text-gray-700">Received</th>
+                <th className="px-6 py-3 text-right text-gray-700">Total</th>
+                <th className="px-6 py-3 text-left text-gray-700">Drafted</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {orders.length === 0 ? (
+                <tr>
+                  <td colSpan={7} className="px-6 py-8 text-center text-gray-500">
+                    {loading ? 'Loading orders...' : 'No orders'}
+                  </td>
+                </tr>
+              ) : (
+                orders.map((row) => (
+                  <tr key={row.id} onClick={() => openOrder(row.id)} className="hover:bg-gray-50 cursor-pointer">
+                    <td className="px-6 py-4">
+                      <span className="block text-blue-600">#{row.id}</span>
+                      <span className="block text-gray-600 text-sm">FY {row.fiscalYear}</span>
+                    </td>
+                    <td className="px-6 py-4 text-gray-900">
+                      {row.vendorName}
+                      {row.vendorReference && <span className="block text-gray-600 text-sm">Ref {row.vendorReference}</span>}
+                    </td>
+                    <td className="px-6 py-4 text-gray-600">{row.branchName}</td>
+                    <td className="px-6 py-4">
+                      <span className={`px-2 py-1 rounded ${STATUS_STYLES[row.status]}`}>{STATUS_LABELS[row.status]}</span>
+                    </td>
+                    <td className="px-6 py-4 text-right text-gray-600">{row.quantityReceived} / {row.quantity}</td>
+                    <td className="px-6 py-4 text-right text-gray-900">{formatMoney(row.total)}</td>
+                    <td className="px-6 py-4 text-gray-600">
+                      {formatDate(row.createdAt)}
+                      {row.createdByName && <span className="block text-sm">by {row.createdByName}</span>}
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {modals}
+    </div>
+  );
+}
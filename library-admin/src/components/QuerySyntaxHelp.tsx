@@ -0,0 +1,62 @@
+import { useState } from 'react';
+
+// What a book search box takes besides words (see backend/lists/query.js)
+const EXAMPLES = [
+  { query: 'author:"Agatha Christie" year:1930..1940', meaning: 'Christie books from the 1930s' },
+  { query: 'type:Hardcover available:yes', meaning: 'hardcovers with a copy on the shelf' },
+  { query: '"murder on the" -category:Romance', meaning: 'the phrase, outside Romance' },
+  { query: '(title:garden OR title:river) language:English', meaning: 'either word in the title, in English' },
+  { query: 'borrowed:20.. holds:1..', meaning: 'lent 20+ times, with someone waiting' },
+];
+
+const FIELD_GROUPS = [
+  { label: 'Book', fields: 'title, isbn, label, description, type, language, year, copies, available, source, added' },
+  { label: 'Writer and category', fields: 'author (or writer), category' },
+  { label: 'Circulation', fields: 'borrowed, onloan, overdue, holds' },
+];
+
+/**
+ * "Search tips" under a book search box, listing the fields and operators
+ * a query can use
+ */
+export function QuerySyntaxHelp() {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <div className="mt-2">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        className="text-blue-600 hover:underline"
+      >
+        {open ? 'Hide search tips' : 'Search tips'}
+      </button>
+      {open && (
+        <div className="mt-2 p-4 bg-gray-50 border border-gray-200 rounded-lg text-gray-700 space-y-3">
+          <p>
+            Narrow a search with <code>field:value</code>, quote <code>"whole phrases"</code>, give ranges
+            as <code>1930..1940</code>, <code>1930..</code> or <code>..1940</code>, and put <code>-</code> or{' '}
+            <code>NOT</code> before anything to leave it out. Terms must all match unless joined
+            with <code>OR</code>; group them with brackets. Yes/no fields take <code>yes</code> or <code>no</code>,
+            and <code>source</code> takes <code>library</code>, <code>lent</code> or <code>donated</code>.
+          </p>
+          <ul className="space-y-1">
+            {EXAMPLES.map(example => (
+              <li key={example.query}>
+                <code className="bg-white border border-gray-200 rounded px-1">{example.query}</code>
+                <span className="text-gray-600"> - {example.meaning}</span>
+              </li>
+            ))}
+          </ul>
+          <div className="space-y-1">
+            {FIELD_GROUPS.map(group => (
+              <p key={group.label}>
+                <span className="text-gray-900">{group.label}:</span> {group.fields}
+              </p>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,43 +1,63 @@
 import { useState, useEffect } from 'react';
-import { ArrowLeft, CheckCircle } from 'lucide-react';
-import type { BookIssue } from '../App';
-import { booksApi, issuesApi } from '../utils/api';
+import { ArrowLeft, CheckCircle, RefreshCw, AlertTriangle, Search } from 'lucide-react';
+import type { BookIssue, LoanStatus } from '../App';
+import { issuesApi, authApi } from '../utils/api';
+import { formatMoney, LOAN_STATUS_LABELS, LOAN_STATUS_STYLES } from '../utils/format';
+import { useDebounce } from '../utils/hooks';
+import { LoanStatusDialog } from './LoanStatusDialog';
+import { Pagination } from './Pagination';
 
 type ReceiveBookProps = {
   onBack: () => void;
 };
 
+// Loans still waiting for the book to come back
+const OUTSTANDING_STATUSES: LoanStatus[] = ['issued', 'claimed_returned', 'lost'];
+
+const PAGE_SIZE = 50;
+
 export function ReceiveBook({ onBack }: ReceiveBookProps) {
-  const [issuedBooks, setIssuedBooks] = useState<(BookIssue & { bookTitle: string, bookIsbn: string, bookLabelNumber: string })[]>([]);
+  const branch = authApi.getCurrentStaff()?.branch;
+  const [issuedBooks, setIssuedBooks] = useState<BookIssue[]>([]);
+  const [totals, setTotals] = useState({ outstanding: 0, overdue: 0 });
+  const [currentPage, setCurrentPage] = useState(1);
+  const [searchQuery, setSearchQuery] = useState('');
+  // Loans issued at this branch by default; a book can be returned at any branch
+  const [allBranches, setAllBranches] = useState(!branch);
   const [successMessage, setSuccessMessage] = useState('');
   const [loading, setLoading] = useState(true);
+  const [statusIssue, setStatusIssue] = useState<BookIssue | null>(null);
+  const debouncedQuery = useDebounce(searchQuery.trim(), 300);
 
   useEffect(() => {
     loadIssuedBooks();
-  }, []);
+  }, [allBranches, debouncedQuery, currentPage]);
 
   const loadIssuedBooks = async () => {
     try {
       setLoading(true);
-      const [issues, books] = await Promise.all([
-        issuesApi.getAll(),
-        booksApi.getAll(),
+      const filters = {
+        q: debouncedQuery,
+        branchId: allBranches ? undefined : branch?.id,
+      };
+      const [page, overdue] = await Promise.all([
+        issuesApi.list({
+          ...filters,
+          status: OUTSTANDING_STATUSES,
+          sort: ['-issueDate'],
+          limit: PAGE_SIZE,
+          offset: (currentPage - 1) * PAGE_SIZE,
+        }),
+        issuesApi.list({ ...filters, overdue: true, limit: 1 }),
       ]);
 
-      const issued = issues
-        .filter(issue => issue.status === 'issued')
-        .map(issue => {
-          const book = books.find(b => b.id === issue.bookId);
-          return {
-            ...issue,
-            bookTitle: book?.title || 'Unknown Book',
-            bookIsbn: book?.isbn || '',
-            bookLabelNumber: book?.labelNumber || '',
-          };
-        })
-        .sort((a, b) => new Date(b.issueDate).getTime() - new Date(a.issueDate).getTime());
-
-      setIssuedBooks(issued);
+      // Past the end, e.g. after receiving the last book on the last page
+      if (page.items.length === 0 && currentPage > 1) {
+        setCurrentPage(1);
+        return;
+      }
+      setIssuedBooks(page.items);
+      setTotals({ outstanding: page.total, overdue: overdue.total });
     } catch (error) {
       console.error('Error loading issued books:', error);
       alert('Failed to load issued books. Please try again.');
@@ -46,30 +66,66 @@ export function ReceiveBook({ onBack }: ReceiveBookProps) {
     }
   };
 
-  const handleReceiveBook = async (issueId: string, bookId: string) => {
+  const handleReceiveBook = async (issueId: string) => {
     try {
       const returnedBook = issuedBooks.find(b => b.id === issueId);
       
-      // Update issue status - backend handles availableCopies increment
-      await issuesApi.update(issueId, {
-        status: 'returned',
-        returnDate: new Date().toISOString().split('T')[0],
-        bookId: bookId, // Backend needs this to update availableCopies
-      });
+      // Backend records the return date, fine, copy and hold shelf in one go
+      const updated = await issuesApi.return(issueId);
 
       // Show success message and reload
-      setSuccessMessage(`"${returnedBook?.bookTitle}" has been marked as returned`);
+      setSuccessMessage(
+        `"${returnedBook?.bookTitle}" has been marked as returned` +
+        (updated.fine ? ` - ${updated.fine.daysLate} day(s) late, fine of ${formatMoney(updated.fine.amount)} charged` : '') +
+        (updated.reversal ? ` - ${formatMoney(updated.reversal.amount)} replacement charge reversed` : '') +
+        (updated.hold
+          ? `. Put ${updated.hold.copyBarcode ? `copy ${updated.hold.copyBarcode}` : 'it'} on the hold shelf for ${updated.hold.userName} until ${formatDate(updated.hold.expiresAt)}`
+          : '') +
+        (updated.transfer ? `. Set it aside to go back to ${updated.transfer.toBranchName}` : '') +
+        (updated.reclaim ? `. Set it aside to hand back to its owner, ${updated.reclaim.ownerName}` : '')
+      );
+      await loadIssuedBooks();
+
+      // Leave hold shelf, transfer and hand-back instructions up until the next action
+      if (!updated.hold && !updated.transfer && !updated.reclaim) {
+        setTimeout(() => {
+          setSuccessMessage('');
+        }, 3000);
+      }
+    } catch (error: any) {
+      console.error('Error receiving book:', error);
+      alert(error.message || 'Failed to process book return. Please try again.');
+      await loadIssuedBooks();
+    }
+  };
+
+  const handleRenewBook = async (issueId: string) => {
+    try {
+      const renewedBook = issuedBooks.find(b => b.id === issueId);
+      const renewed = await issuesApi.renew(issueId);
+
+      setSuccessMessage(`"${renewedBook?.bookTitle}" renewed - now due ${formatDate(renewed.dueDate)}`);
       await loadIssuedBooks();
 
       setTimeout(() => {
         setSuccessMessage('');
       }, 3000);
-    } catch (error) {
-      console.error('Error receiving book:', error);
-      alert('Failed to process book return. Please try again.');
+    } catch (error: any) {
+      console.error('Error renewing book:', error);
+      alert(error.message || 'Failed to renew book. Please try again.');
     }
   };
 
+  const handleStatusSaved = async (message: string) => {
+    setStatusIssue(null);
+    setSuccessMessage(message);
+    await loadIssuedBooks();
+
+    setTimeout(() => {
+      setSuccessMessage('');
+    }, 3000);
+  };
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('en-US', {
       year: 'numeric',
@@ -92,7 +148,38 @@ export function ReceiveBook({ onBack }: ReceiveBookProps) {
         Back to Dashboard
       </button>
 
-      <h1 className="text-gray-900 mb-6">Receive Book</h1>
+      <div className="flex items-center justify-between mb-6">
+        <h1 className="text-gray-900">Receive Book</h1>
+        {branch && (
+          <select
+            value={allBranches ? 'all' : 'here'}
+            onChange={(e) => {
+              setAllBranches(e.target.value === 'all');
+              setCurrentPage(1);
+            }}
+            className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            <option value="here">Issued at {branch.name}</option>
+            <option value="all">Issued at any branch</option>
+          </select>
+        )}
+      </div>
+
+      <div className="relative mb-6">
+        <div className="absolute inset-y-0 left-0 pl-4 flex items-center pointer-events-none">
+          <Search className="w-5 h-5 text-gray-400" />
+        </div>
+        <input
+          type="text"
+          value={searchQuery}
+          onChange={(e) => {
+            setSearchQuery(e.target.value);
+            setCurrentPage(1);
+          }}
+          placeholder="Search by title, ISBN, copy barcode or borrower..."
+          className="w-full pl-12 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        />
+      </div>
 
       {successMessage && (
         <div className="bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded-lg mb-6 flex items-center gap-2">
@@ -108,7 +195,9 @@ export function ReceiveBook({ onBack }: ReceiveBookProps) {
           </div>
         ) : issuedBooks.length === 0 ? (
           <div className="p-8 text-center text-gray-500">
-            No books currently issued
+            {debouncedQuery
+              ? 'No issued books match your search'
+              : allBranches ? 'No books currently issued' : `No books currently issued at ${branch?.name}`}
           </div>
         ) : (
           <div className="divide-y">
@@ -118,10 +207,19 @@ export function ReceiveBook({ onBack }: ReceiveBookProps) {
                 className="p-4 hover:bg-gray-50 flex items-start justify-between"
               >
                 <div className="flex-1">
-                  <h3 className="text-gray-900 mb-2">{issue.bookTitle}</h3>
+                  <div className="flex items-center gap-2 mb-2">
+                    <h3 className="text-gray-900">{issue.bookTitle}</h3>
+                    {issue.status !== 'issued' && (
+                      <span className={`px-2 py-1 rounded text-sm ${LOAN_STATUS_STYLES[issue.status]}`}>
+                        {LOAN_STATUS_LABELS[issue.status]}
+                      </span>
+                    )}
+                  </div>
                   <div className="flex flex-wrap gap-4 text-gray-600 mb-2">
                     <span>ISBN: {issue.bookIsbn}</span>
                     {issue.bookLabelNumber && <span>Label: {issue.bookLabelNumber}</span>}
+                    {issue.copyBarcode && <span>Copy: {issue.copyBarcode}</span>}
+                    {allBranches && issue.branchName && <span>Issued at: {issue.branchName}</span>}
                   </div>
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-2 text-gray-600 mb-2">
                     <div>
@@ -139,31 +237,71 @@ export function ReceiveBook({ onBack }: ReceiveBookProps) {
                       Due: {formatDate(issue.dueDate)}
                       {isOverdue(issue.dueDate) && ' (Overdue)'}
                     </span>
+                    {!!issue.renewalCount && (
+                      <span>Renewed {issue.renewalCount}×</span>
+                    )}
                   </div>
+                  {issue.statusNote && (
+                    <p className="text-gray-500 mt-2">Note: {issue.statusNote}</p>
+                  )}
+                </div>
+                <div className="ml-4 flex flex-col gap-2">
+                  <button
+                    onClick={() => handleReceiveBook(issue.id)}
+                    className="bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 flex items-center gap-2"
+                  >
+                    <CheckCircle className="w-5 h-5" />
+                    {issue.status === 'issued' ? 'Receive' : 'Found'}
+                  </button>
+                  {issue.status === 'issued' && authApi.can('circulation:issue') && (
+                    <button
+                      onClick={() => handleRenewBook(issue.id)}
+                      className="bg-white text-blue-600 border border-blue-200 px-4 py-2 rounded-lg hover:bg-blue-50 flex items-center gap-2"
+                    >
+                      <RefreshCw className="w-5 h-5" />
+                      Renew
+                    </button>
+                  )}
+                  <button
+                    onClick={() => setStatusIssue(issue)}
+                    className="bg-white text-orange-600 border border-orange-200 px-4 py-2 rounded-lg hover:bg-orange-50 flex items-center gap-2"
+                  >
+                    <AlertTriangle className="w-5 h-5" />
+                    {issue.status === 'issued' ? 'Lost / Damaged' : 'Update'}
+                  </button>
                 </div>
-                <button
-                  onClick={() => handleReceiveBook(issue.id, issue.bookId)}
-                  className="ml-4 bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 flex items-center gap-2"
-                >
-                  <CheckCircle className="w-5 h-5" />
-                  Receive
-                </button>
               </div>
             ))}
           </div>
         )}
       </div>
 
+      <Pagination
+        page={currentPage}
+        pageSize={PAGE_SIZE}
+        total={totals.outstanding}
+        noun="loans"
+        onPageChange={setCurrentPage}
+      />
+
       {issuedBooks.length > 0 && (
         <div className="mt-6 p-4 bg-blue-50 border border-blue-200 rounded-lg">
           <p className="text-blue-900">
-            Total Issued Books: {issuedBooks.length}
+            Total Issued Books: {totals.outstanding}
           </p>
           <p className="text-blue-700">
-            Overdue Books: {issuedBooks.filter(b => isOverdue(b.dueDate)).length}
+            Overdue Books: {totals.overdue}
           </p>
         </div>
       )}
+
+      {statusIssue && (
+        <LoanStatusDialog
+          issue={statusIssue}
+          onClose={() => setStatusIssue(null)}
+          onSaved={handleStatusSaved}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,313 @@
+import { useState } from 'react';
+import { Plus, Edit2, Trash2, X, Mail, Send } from 'lucide-react';
+import type { ReminderNotice } from '../App';
+import { remindersApi } from '../utils/api';
+
+type ReminderNoticesProps = {
+  notices: ReminderNotice[];
+  fields: Record<string, string>;
+  loading: boolean;
+  onChange: () => void;
+};
+
+const emptyNoticeForm = {
+  name: '',
+  offsetDays: '',
+  subject: '',
+  body: '',
+  active: true,
+};
+
+/**
+ * Describe when a notice goes out, e.g. "3 days before due"
+ */
+export const describeOffset = (offsetDays: number) => {
+  if (offsetDays === 0) return 'On the due date';
+  const days = `${Math.abs(offsetDays)} day${Math.abs(offsetDays) === 1 ? '' : 's'}`;
+  return offsetDays < 0 ? `${days} before due` : `${days} overdue`;
+};
+
+/**
+ * The courtesy and overdue notices: when each is sent and its editable
+ * subject and message templates
+ */
+export function ReminderNotices({ notices, fields, loading, onChange }: ReminderNoticesProps) {
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingNotice, setEditingNotice] = useState<ReminderNotice | null>(null);
+  const [formData, setFormData] = useState(emptyNoticeForm);
+  const [error, setError] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    const notice = {
+      name: formData.name,
+      offsetDays: Number(formData.offsetDays),
+      subject: formData.subject,
+      body: formData.body,
+      active: formData.active,
+    };
+
+    try {
+      setSaving(true);
+      if (editingNotice) {
+        await remindersApi.updateNotice(editingNotice.id, notice);
+      } else {
+        await remindersApi.createNotice(notice);
+      }
+      onChange();
+      resetForm();
+    } catch (error: any) {
+      console.error('Error saving reminder notice:', error);
+      setError(error.message || 'Failed to save notice. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleEdit = (notice: ReminderNotice) => {
+    setEditingNotice(notice);
+    setFormData({
+      name: notice.name,
+      offsetDays: String(notice.offsetDays),
+      subject: notice.subject,
+      body: notice.body,
+      active: notice.active,
+    });
+    setError('');
+    setIsFormOpen(true);
+  };
+
+  const handleDelete = async (notice: ReminderNotice) => {
+    if (!confirm(`Delete the "${notice.name}" notice?`)) return;
+    try {
+      await remindersApi.deleteNotice(notice.id);
+      onChange();
+    } catch (error: any) {
+      console.error('Error deleting reminder notice:', error);
+      alert(error.message || 'Failed to delete notice. Please try again.');
+    }
+  };
+
+  const handleSendTest = async (notice: ReminderNotice) => {
+    const to = prompt(`Send a test of "${notice.name}" (filled in with a sample loan) to:`);
+    if (!to) return;
+    try {
+      await remindersApi.sendTest(notice.id, to);
+      alert(`Test sent to ${to}`);
+    } catch (error: any) {
+      console.error('Error sending test notice:', error);
+      alert(error.message || 'Failed to send the test. Please try again.');
+    }
+  };
+
+  const resetForm = () => {
+    setFormData(emptyNoticeForm);
+    setEditingNotice(null);
+    setError('');
+    setIsFormOpen(false);
+  };
+
+  const inputClass =
+    'w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden mb-6">
+      <div className="flex justify-between items-center p-6 border-b border-gray-200">
+        <div>
+          <h2 className="text-gray-900">Notices</h2>
+          <p className="text-gray-600">
+            Each loan gets the latest notice it has reached, once per due date - renewing a loan starts them over.
+            Patrons without an email address are skipped.
+          </p>
+        </div>
+        <button
+          onClick={() => setIsFormOpen(true)}
+          className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 flex items-center gap-2 shrink-0"
+        >
+          <Plus className="w-5 h-5" />
+          Add Notice
+        </button>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="w-full">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-gray-700">Notice</th>
+              <th className="px-6 py-3 text-left text-gray-700">Sent</th>
+              <th className="px-6 py-3 text-left text-gray-700">Subject</th>
+              <th className="px-6 py-3 text-left text-gray-700">Times Sent</th>
+              <th className="px-6 py-3 text-right text-gray-700">Actions</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {notices.length === 0 ? (
+              <tr>
+                <td colSpan={5} className="px-6 py-8 text-center text-gray-500">
+                  {loading ? 'Loading notices...' : 'No notices yet - patrons get no reminders'}
+                </td>
+              </tr>
+            ) : (
+              notices.map((notice) => (
+                <tr key={notice.id} className={`hover:bg-gray-50 ${notice.active ? '' : 'opacity-60'}`}>
+                  <td className="px-6 py-4">
+                    <div className="flex items-center gap-3">
+                      <Mail className="w-5 h-5 text-blue-600" />
+                      <span className="text-gray-900">{notice.name}</span>
+                      {!notice.active && (
+                        <span className="px-2 py-1 rounded text-sm bg-gray-100 text-gray-600">Off</span>
+                      )}
+                    </div>
+                  </td>
+                  <td className="px-6 py-4 text-gray-600">{describeOffset(notice.offsetDays)}</td>
+                  <td className="px-6 py-4 text-gray-600">{notice.subject}</td>
+                  <td className="px-6 py-4 text-gray-600">{notice.sentCount}</td>
+                  <td className="px-6 py-4">
+                    <div className="flex justify-end gap-2">
+                      <button
+                        onClick={() => handleSendTest(notice)}
+                        className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg"
+                        title="Send Test"
+                      >
+                        <Send className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => handleEdit(notice)}
+                        className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg"
+                        title="Edit Notice"
+                      >
+                        <Edit2 className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(notice)}
+                        className="p-2 text-red-600 hover:bg-red-50 rounded-lg"
+                        title="Delete Notice"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {isFormOpen && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+            <form onSubmit={handleSubmit}>
+              <div className="flex justify-between items-center p-6 border-b border-gray-200">
+                <h2 className="text-gray-900">{editingNotice ? 'Edit Notice' : 'Add Notice'}</h2>
+                <button type="button" onClick={resetForm} className="text-gray-400 hover:text-gray-600">
+                  <X className="w-6 h-6" />
+                </button>
+              </div>
+
+              <div className="p-6 space-y-4">
+                {error && (
+                  <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+                    <p className="text-red-600">{error}</p>
+                  </div>
+                )}
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-gray-700 mb-2">Name *</label>
+                    <input
+                      type="text"
+                      value={formData.name}
+                      onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                      className={inputClass}
+                      placeholder="e.g. Second overdue notice"
+                      required
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-gray-700 mb-2">Days From Due Date *</label>
+                    <input
+                      type="number"
+                      step="1"
+                      value={formData.offsetDays}
+                      onChange={(e) => setFormData({ ...formData, offsetDays: e.target.value })}
+                      className={inputClass}
+                      required
+                    />
+                    <p className="text-gray-600 text-sm mt-1">
+                      {formData.offsetDays.trim() === ''
+                        ? 'Negative for before the due date, e.g. -3'
+                        : describeOffset(Number(formData.offsetDays))}
+                    </p>
+                  </div>
+                </div>
+
+                <div>
+                  <label className="block text-gray-700 mb-2">Subject *</label>
+                  <input
+                    type="text"
+                    value={formData.subject}
+                    onChange={(e) => setFormData({ ...formData, subject: e.target.value })}
+                    className={inputClass}
+                    required
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-gray-700 mb-2">Message *</label>
+                  <textarea
+                    value={formData.body}
+                    onChange={(e) => setFormData({ ...formData, body: e.target.value })}
+                    className={`${inputClass} font-mono text-sm`}
+                    rows={10}
+                    required
+                  />
+                </div>
+
+                <div className="p-3 bg-gray-50 border border-gray-200 rounded-lg">
+                  <p className="text-gray-700 mb-2">Placeholders</p>
+                  <dl className="grid grid-cols-1 md:grid-cols-2 gap-x-4 gap-y-1 text-sm">
+                    {Object.entries(fields).map(([name, description]) => (
+                      <div key={name}>
+                        <dt className="inline font-mono text-blue-700">{`{{${name}}}`}</dt>
+                        <dd className="inline text-gray-600"> - {description}</dd>
+                      </div>
+                    ))}
+                  </dl>
+                </div>
+
+                <label className="flex items-center gap-2 text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={formData.active}
+                    onChange={(e) => setFormData({ ...formData, active: e.target.checked })}
+                  />
+                  Send this notice
+                </label>
+              </div>
+
+              <div className="flex gap-2 p-6 border-t border-gray-200">
+                <button
+                  type="submit"
+                  disabled={saving}
+                  className="flex-1 bg-blue-600 text-white py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {editingNotice ? 'Update' : 'Create'}
+                </button>
+                <button
+                  type="button"
+                  onClick={resetForm}
+                  className="flex-1 bg-gray-200 text-gray-700 py-2 rounded-lg hover:bg-gray-300"
+                >
+                  Cancel
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,300 @@
+import { useState, useEffect } from 'react';
+import { Send, ChevronDown, ChevronRight } from 'lucide-react';
+import type { ReminderNotice, UpcomingReminder, ReminderLogEntry } from '../App';
+import { remindersApi } from '../utils/api';
+import { ReminderNotices, describeOffset } from './ReminderNotices';
+
+const LOG_STATUS_STYLES: Record<ReminderLogEntry['status'], string> = {
+  sending: 'bg-yellow-100 text-yellow-700',
+  sent: 'bg-green-100 text-green-700',
+  failed: 'bg-red-100 text-red-700',
+};
+
+/**
+ * Loan reminders: the notices, what's going out over the next few days and
+ * the log of everything sent
+ */
+export function Reminders() {
+  const [notices, setNotices] = useState<ReminderNotice[]>([]);
+  const [fields, setFields] = useState<Record<string, string>>({});
+  const [transport, setTransport] = useState<{ type: string; from: string } | null>(null);
+  const [upcoming, setUpcoming] = useState<UpcomingReminder[]>([]);
+  const [log, setLog] = useState<ReminderLogEntry[]>([]);
+  const [days, setDays] = useState(7);
+  const [logStatus, setLogStatus] = useState('');
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [sending, setSending] = useState(false);
+  const [message, setMessage] = useState('');
+
+  useEffect(() => {
+    loadNotices();
+  }, []);
+
+  useEffect(() => {
+    loadUpcoming();
+  }, [days]);
+
+  useEffect(() => {
+    loadLog();
+  }, [logStatus]);
+
+  const loadNotices = async () => {
+    try {
+      setLoading(true);
+      const data = await remindersApi.getNotices();
+      setNotices(data.notices);
+      setFields(data.fields);
+      setTransport(data.transport);
+    } catch (error) {
+      console.error('Error loading reminder notices:', error);
+      alert('Failed to load reminder notices. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadUpcoming = async () => {
+    try {
+      setUpcoming(await remindersApi.getUpcoming(days));
+    } catch (error) {
+      console.error('Error loading upcoming reminders:', error);
+    }
+  };
+
+  const loadLog = async () => {
+    try {
+      setLog(await remindersApi.getLog({ status: logStatus }));
+    } catch (error) {
+      console.error('Error loading reminder log:', error);
+    }
+  };
+
+  const handleNoticesChanged = () => {
+    loadNotices();
+    loadUpcoming();
+  };
+
+  const handleSendNow = async () => {
+    const dueNow = upcoming.filter(reminder => reminder.sendDate <= today).length;
+    if (!confirm(`Send ${dueNow} reminder(s) due today now?`)) return;
+    try {
+      setSending(true);
+      const result = await remindersApi.sendNow();
+      setMessage(`Sent ${result.sent} reminder(s)` + (result.failed > 0 ? `, ${result.failed} failed - see the log below` : ''));
+      setTimeout(() => setMessage(''), 5000);
+      await Promise.all([loadUpcoming(), loadLog(), loadNotices()]);
+    } catch (error: any) {
+      console.error('Error sending reminders:', error);
+      alert(error.message || 'Failed to send reminders. Please try again.');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+    });
+  };
+
+  // Send and due dates are YYYY-MM-DD in the library's time zone
+  const formatDay = (date: string) => {
+    const [year, month, day] = date.split('-').map(Number);
+    return new Date(year, month - 1, day).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+    });
+  };
+
+  const now = new Date();
+  const today = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+
+  return (
+    <div>
+      <div className="flex justify-between items-start mb-6">
+        <div>
+          <h1 className="text-gray-900">Loan Reminders</h1>
+          {transport && (
+            <p className="text-gray-600">
+              Sent automatically from {transport.from}
+              {transport.type === 'console' && ' - the server is set to only log emails, not send them'}
+            </p>
+          )}
+        </div>
+        <button
+          onClick={handleSendNow}
+          disabled={sending}
+          className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 flex items-center gap-2 disabled:opacity-50"
+        >
+          <Send className="w-5 h-5" />
+          Send Due Now
+        </button>
+      </div>
+
+      {message && (
+        <div className="bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded-lg mb-6">
+          {message}
+        </div>
+      )}
+
+      {/* Upcoming sends */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden mb-6">
+        <div className="flex justify-between items-center p-6 border-b border-gray-200">
+          <div>
+            <h2 className="text-gray-900">Upcoming</h2>
+            <p className="text-gray-600">
+              Assumes nothing is returned or renewed in the meantime. Click a row to see the email.
+            </p>
+          </div>
+          <select
+            value={days}
+            onChange={(e) => setDays(Number(e.target.value))}
+            className="px-4 py-2 border border-gray-300 rounded-lg"
+          >
+            <option value={7}>Next 7 days</option>
+            <option value={14}>Next 14 days</option>
+            <option value={30}>Next 30 days</option>
+          </select>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-gray-700">Send</th>
+                <th className="px-6 py-3 text-left text-gray-700">Notice</th>
+                <th className="px-6 py-3 text-left text-gray-700">Patron</th>
+                <th className="px-6 py-3 text-left text-gray-700">Book</th>
+                <th className="px-6 py-3 text-left text-gray-700">Due</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {upcoming.length === 0 ? (
+                <tr>
+                  <td colSpan={5} className="px-6 py-8 text-center text-gray-500">
+                    No reminders to send in the next {days} days
+                  </td>
+                </tr>
+              ) : (
+                upcoming.map((reminder) => {
+                  const key = `${reminder.issueId}-${reminder.noticeId}`;
+                  return [
+                    <tr
+                      key={key}
+                      onClick={() => setExpanded(expanded === key ? null : key)}
+                      className="hover:bg-gray-50 cursor-pointer"
+                    >
+                      <td className="px-6 py-4 text-gray-900">
+                        <div className="flex items-center gap-2">
+                          {expanded === key
+                            ? <ChevronDown className="w-4 h-4 text-gray-400" />
+                            : <ChevronRight className="w-4 h-4 text-gray-400" />}
+                          {reminder.sendDate <= today
+                            ? <span className="px-2 py-1 rounded text-sm bg-blue-100 text-blue-700">Today</span>
+                            : formatDay(reminder.sendDate)}
+                        </div>
+                      </td>
+                      <td className="px-6 py-4 text-gray-600">
+                        {reminder.noticeName}
+                        <span className="block text-sm text-gray-500">{describeOffset(reminder.offsetDays)}</span>
+                      </td>
+                      <td className="px-6 py-4 text-gray-600">
+                        {reminder.patronName}
+                        <span className="block text-sm text-gray-500">{reminder.email}</span>
+                      </td>
+                      <td className="px-6 py-4 text-gray-600">{reminder.bookTitle}</td>
+                      <td className="px-6 py-4 text-gray-600">{formatDay(reminder.dueDate)}</td>
+                    </tr>,
+                    expanded === key && (
+                      <tr key={`${key}-preview`} className="bg-gray-50">
+                        <td colSpan={5} className="px-6 py-4">
+                          <p className="text-gray-900 mb-2">Subject: {reminder.subject}</p>
+                          <pre className="whitespace-pre-wrap font-sans text-gray-700">{reminder.body}</pre>
+                        </td>
+                      </tr>
+                    ),
+                  ];
+                })
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <ReminderNotices
+        notices={notices}
+        fields={fields}
+        loading={loading}
+        onChange={handleNoticesChanged}
+      />
+
+      {/* Send log */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+        <div className="flex justify-between items-center p-6 border-b border-gray-200">
+          <div>
+            <h2 className="text-gray-900">Send Log</h2>
+            <p className="text-gray-600">The latest reminders sent. Failed sends are tried again up to 3 times.</p>
+          </div>
+          <select
+            value={logStatus}
+            onChange={(e) => setLogStatus(e.target.value)}
+            className="px-4 py-2 border border-gray-300 rounded-lg"
+          >
+            <option value="">All</option>
+            <option value="sent">Sent</option>
+            <option value="failed">Failed</option>
+            <option value="sending">Sending</option>
+          </select>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-gray-700">Date</th>
+                <th className="px-6 py-3 text-left text-gray-700">Notice</th>
+                <th className="px-6 py-3 text-left text-gray-700">Patron</th>
+                <th className="px-6 py-3 text-left text-gray-700">Subject</th>
+                <th className="px-6 py-3 text-left text-gray-700">Status</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {log.length === 0 ? (
+                <tr>
+                  <td colSpan={5} className="px-6 py-8 text-center text-gray-500">
+                    Nothing sent yet
+                  </td>
+                </tr>
+              ) : (
+                log.map((entry) => (
+                  <tr key={entry.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 text-gray-600">{formatDate(entry.sentAt || entry.createdAt)}</td>
+                    <td className="px-6 py-4 text-gray-600">{entry.noticeName}</td>
+                    <td className="px-6 py-4 text-gray-600">
+                      {entry.userName}
+                      <span className="block text-sm text-gray-500">{entry.email}</span>
+                    </td>
+                    <td className="px-6 py-4 text-gray-600">{entry.subject}</td>
+                    <td className="px-6 py-4">
+                      <span className={`px-2 py-1 rounded-full text-xs font-medium ${LOG_STATUS_STYLES[entry.status]}`}>
+                        {entry.status}
+                      </span>
+                      {entry.attempts > 1 && (
+                        <span className="block text-gray-500 text-xs mt-1">{entry.attempts} attempts</span>
+                      )}
+                      {entry.error && (
+                        <span className="block text-red-600 text-xs mt-1">{entry.error}</span>
+                      )}
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
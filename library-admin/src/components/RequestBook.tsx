@@ -1,7 +1,7 @@
 import { useState, useEffect } from 'react';
 import { X, BookPlus } from 'lucide-react';
 import type { Category, BookRequest } from '../App';
-import { categoriesApi, bookRequestsApi } from '../utils/api';
+import { categoriesApi, bookRequestsApi, patronApi } from '../utils/api';
 
 type RequestBookProps = {
   onClose: () => void;
@@ -12,6 +12,9 @@ export function RequestBook({ onClose }: RequestBookProps) {
   const [bookName, setBookName] = useState('');
   const [categoryId, setCategoryId] = useState('');
   const [authorName, setAuthorName] = useState('');
+  // Signed-in patrons' requests go on their account, so they hear back;
+  // anyone else's are anonymous
+  const patron = patronApi.getCurrentPatron();
   const [loading, setLoading] = useState(false);
   const [submitStatus, setSubmitStatus] = useState<'idle' | 'success' | 'error'>('idle');
   const [errorMessage, setErrorMessage] = useState('');
@@ -60,17 +63,25 @@ export function RequestBook({ onClose }: RequestBookProps) {
         status: 'pending',
       };
 
-      await bookRequestsApi.create(newRequest);
+      if (patron) {
+        await patronApi.createRequest({
+          bookName: newRequest.bookName,
+          categoryId: newRequest.categoryId,
+          authorName: newRequest.authorName,
+        });
+      } else {
+        await bookRequestsApi.create(newRequest);
+      }
       
       setSubmitStatus('success');
       // Close modal after showing success message
       setTimeout(() => {
         onClose();
       }, 2000);
-    } catch (error) {
+    } catch (error: any) {
       console.error('Error submitting book request:', error);
       setSubmitStatus('error');
-      setErrorMessage('Failed to submit request. Please try again.');
+      setErrorMessage(error.message || 'Failed to submit request. Please try again.');
     } finally {
       setLoading(false);
     }
@@ -96,7 +107,10 @@ export function RequestBook({ onClose }: RequestBookProps) {
           {submitStatus === 'success' && (
             <div className="p-4 bg-green-50 border border-green-200 rounded-lg text-center">
               <p className="text-green-700 font-medium">Request submitted successfully!</p>
-              <p className="text-green-600 text-sm mt-1">The library admin will review your request.</p>
+              <p className="text-green-600 text-sm mt-1">
+                The library admin will review your request.
+                {patron && " We'll email you when it's decided."}
+              </p>
             </div>
           )}
 
@@ -153,6 +167,16 @@ export function RequestBook({ onClose }: RequestBookProps) {
             />
           </div>
 
+          {patron ? (
+            <p className="text-gray-600 text-sm">
+              Requesting as {patron.name} - follow it under My Account.
+            </p>
+          ) : (
+            <p className="text-gray-600 text-sm">
+              Sign in under My Account first to hear back about your request.
+            </p>
+          )}
+
           {submitStatus !== 'success' && (
             <div className="flex gap-4">
               <button
@@ -1,172 +1,252 @@
-import { useState, useEffect, useMemo, useCallback } from 'react';
-import { Search, BookOpen, BookPlus } from 'lucide-react';
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { Search, BookOpen, BookPlus, X } from 'lucide-react';
 import { ImageWithFallback } from './figma/ImageWithFallback';
 import { MarkdownContent } from './MarkdownContent';
 import { RequestBook } from './RequestBook';
-import type { Book, Category, Writer } from '../App';
-import { booksApi, categoriesApi, writersApi } from '../utils/api';
+import type { Category } from '../App';
+import {
+  booksApi,
+  categoriesApi,
+  writersApi,
+  holdsApi,
+  searchApi,
+  BOOK_CODE_PATTERN,
+  type FacetValue,
+  type MatchMode,
+  type SearchHighlight,
+  type SearchPage,
+  type SearchResult,
+} from '../utils/api';
+import { useDebounce } from '../utils/hooks';
+import { clearSearchUrl, writeSearchUrl, type SearchFilters } from '../utils/searchUrl';
+import { Pagination } from './Pagination';
+import { QuerySyntaxHelp } from './QuerySyntaxHelp';
 
 type SearchBooksProps = {
   onViewBook: (bookId: string) => void;
-  writerId?: string;
-  categoryId?: string;
+  initialFilters?: SearchFilters; // e.g. from a shared link, or a writer or category link
   onNavigateToCategory?: (categoryId: string) => void;
   onNavigateToWriter?: (writerId: string) => void;
 };
 
-// Debounce hook
-function useDebounce<T>(value: T, delay: number): T {
-  const [debouncedValue, setDebouncedValue] = useState<T>(value);
+const PAGE_SIZE = 50;
+
+// Relevance only means something with words to rank by; without, books list by title
+const SORT_OPTIONS = [
+  { value: '-relevance', label: 'Best match', needsQuery: true },
+  { value: 'title', label: 'Title', needsQuery: false },
+  { value: '-publicationYear', label: 'Newest', needsQuery: false },
+  { value: '-borrowCount', label: 'Most borrowed', needsQuery: false },
+];
+
+// Filters picked from facets, each holding a list of values
+type ListFilter = 'categoryId' | 'writerId' | 'bookType' | 'language' | 'source';
+
+/**
+ * A matched field's text with the matching words marked, or the text as is
+ */
+function HighlightedText({ highlight, text = '' }: { highlight?: SearchHighlight; text?: string }) {
+  if (!highlight) {
+    return <>{text}</>;
+  }
+  return (
+    <>
+      {highlight.segments.map((segment, index) =>
+        segment.match ? (
+          <mark key={index} className="bg-yellow-100 text-inherit rounded px-0.5">{segment.text}</mark>
+        ) : (
+          <span key={index}>{segment.text}</span>
+        )
+      )}
+    </>
+  );
+}
 
-  useEffect(() => {
-    const timer = setTimeout(() => setDebouncedValue(value), delay);
-    return () => clearTimeout(timer);
-  }, [value, delay]);
+type FacetGroupProps = {
+  title: string;
+  values: FacetValue[];
+  selected: string[];
+  labelFor?: (value: string) => string; // for selected values the counts left out
+  onToggle: (value: string) => void;
+  match?: MatchMode;
+  onMatchChange?: (match: MatchMode) => void; // offered once two or more are selected
+};
+
+/**
+ * One facet's values with their counts, ticked when selected
+ */
+function FacetGroup({ title, values, selected, labelFor, onToggle, match = 'any', onMatchChange }: FacetGroupProps) {
+  const missing = selected
+    .filter(value => !values.some(facet => facet.value === value))
+    .map(value => ({ value, label: labelFor?.(value) || value, count: 0 }));
+  const shown = [...values, ...missing];
+  if (shown.length === 0) {
+    return null;
+  }
 
-  return debouncedValue;
+  return (
+    <div className="mb-6">
+      <h3 className="text-gray-900 mb-2">{title}</h3>
+      {onMatchChange && selected.length > 1 && (
+        <div className="flex items-center gap-2 mb-2 text-gray-600">
+          <span>Match</span>
+          {(['any', 'all'] as MatchMode[]).map(mode => (
+            <button
+              key={mode}
+              onClick={() => onMatchChange(mode)}
+              className={`px-2 py-0.5 rounded ${match === mode ? 'bg-blue-600 text-white' : 'bg-gray-100 hover:bg-gray-200'}`}
+            >
+              {mode === 'any' ? 'Any' : 'All'}
+            </button>
+          ))}
+        </div>
+      )}
+      <div className="space-y-1">
+        {shown.map(facet => (
+          <label key={facet.value} className="flex items-center gap-2 text-gray-700 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={selected.includes(facet.value)}
+              onChange={() => onToggle(facet.value)}
+              className="rounded border-gray-300"
+            />
+            <span className="flex-1 truncate">{facet.label}</span>
+            <span className="text-gray-500">{facet.count}</span>
+          </label>
+        ))}
+      </div>
+    </div>
+  );
 }
 
-export function SearchBooks({ onViewBook, writerId, categoryId, onNavigateToCategory, onNavigateToWriter }: SearchBooksProps) {
-  const [books, setBooks] = useState<Book[]>([]);
+export function SearchBooks({ onViewBook, initialFilters, onNavigateToCategory, onNavigateToWriter }: SearchBooksProps) {
+  const [searchResults, setSearchResults] = useState<SearchResult[]>([]);
+  const [totalResults, setTotalResults] = useState(0);
+  const [facets, setFacets] = useState<SearchPage['facets']>();
+  const [suggestion, setSuggestion] = useState<string>();
+  const [searchError, setSearchError] = useState<string>(); // e.g. a query that can't be read
+  const [currentPage, setCurrentPage] = useState(initialFilters?.page || 1);
+  const [filters, setFilters] = useState<SearchFilters>(() => {
+    const { q: _q, page: _page, ...rest } = initialFilters || {};
+    return rest;
+  });
   const [categories, setCategories] = useState<Category[]>([]);
-  const [writers, setWriters] = useState<Writer[]>([]);
-  const [searchQuery, setSearchQuery] = useState('');
-  const [loading, setLoading] = useState(true);
+  const [writerNames, setWriterNames] = useState<Record<string, string>>({}); // of writers filtered by
+  const [holdCounts, setHoldCounts] = useState<Record<string, number>>({});
+  const [searchQuery, setSearchQuery] = useState(initialFilters?.q || '');
+  const [loading, setLoading] = useState(false);
   const [showRequestModal, setShowRequestModal] = useState(false);
+  const latestSearch = useRef(0);
 
-  // Set search query to category name when categoryId is provided (only on initial load)
-  useEffect(() => {
-    if (categoryId && categories.length > 0) {
-      const category = categories.find(c => c.id === categoryId);
-      if (category && searchQuery === '') {
-        setSearchQuery(category.name);
-      }
-    }
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [categoryId, categories]);
-
-  // Clear category filter if user changes the search query
   const handleSearchChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const newQuery = e.target.value;
-    setSearchQuery(newQuery);
-    // If user clears or changes the search, we'll let them search freely
-    // The category filter will still apply if categoryId exists, but search will work within it
+    setSearchQuery(e.target.value);
+    setCurrentPage(1);
   };
 
   // Debounce search query - wait 300ms after user stops typing
   const debouncedQuery = useDebounce(searchQuery, 300);
+  const query = debouncedQuery.trim();
 
-  // Create lookup maps for O(1) access instead of O(n) array.find()
-  const writersMap = useMemo(() => {
-    const map = new Map<string, Writer>();
-    writers.forEach(w => map.set(w.id, w));
-    return map;
-  }, [writers]);
-
+  // Create lookup map for O(1) access instead of O(n) array.find()
   const categoriesMap = useMemo(() => {
     const map = new Map<string, Category>();
     categories.forEach(c => map.set(c.id, c));
     return map;
   }, [categories]);
 
-  // Pre-build search index for faster searching
-  const searchIndex = useMemo(() => {
-    return books.map(book => {
-      const writerNames = book.writerIds
-        .map(id => writersMap.get(id)?.name?.toLowerCase() || '')
-        .join(' ');
-      const categoryNames = book.categoryIds
-        .map(id => categoriesMap.get(id)?.name?.toLowerCase() || '')
-        .join(' ');
-      
-      return {
-        book,
-        searchText: `${book.title.toLowerCase()} ${book.isbn.toLowerCase()} ${writerNames} ${categoryNames}`
-      };
-    });
-  }, [books, writersMap, categoriesMap]);
-
   useEffect(() => {
     loadData();
+    // Writers filtered by from a link need their names until the facets have them
+    if (filters.writerId?.length) {
+      writersApi.getByIds(filters.writerId)
+        .then(writers => setWriterNames(Object.fromEntries(writers.map(w => [w.id, w.name]))))
+        .catch(error => console.error('Error loading writers:', error));
+    }
+    return clearSearchUrl;
   }, []);
 
+  useEffect(() => {
+    searchBooks();
+    writeSearchUrl({ q: query || undefined, ...filters, page: currentPage > 1 ? currentPage : undefined });
+  }, [query, filters, currentPage]);
+
   const loadData = async () => {
     try {
-      setLoading(true);
-      const [booksData, categoriesData, writersData] = await Promise.all([
-        booksApi.getAll(),
+      const [categoriesData, holdCountsData] = await Promise.all([
         categoriesApi.getAll(),
-        writersApi.getAll(),
+        holdsApi.getCounts(),
       ]);
 
-      setBooks(booksData);
       setCategories(categoriesData);
-      setWriters(writersData);
+      setHoldCounts(holdCountsData);
     } catch (error) {
       console.error('Error loading search data:', error);
       alert('Failed to load data. Please try again.');
-    } finally {
-      setLoading(false);
     }
   };
 
-  // Memoized search results
-  const searchResults = useMemo(() => {
-    let filteredBooks = books;
-
-    // Apply category filter if active
-    if (categoryId) {
-      filteredBooks = filteredBooks.filter(book => book.categoryIds.includes(categoryId));
-    }
-
-    // Apply writer filter if active
-    if (writerId) {
-      filteredBooks = filteredBooks.filter(book => book.writerIds.includes(writerId));
+  // Words are searched for in titles, writers, categories, descriptions and
+  // writers' bios, best matches first, with facet counts to narrow the
+  // results by; without words, the filters list the books by title. Fields
+  // such as author:Christie narrow it too (see QuerySyntaxHelp). An ISBN or
+  // rack label is looked up in the book list instead.
+  const searchBooks = async () => {
+    // Only the latest search shows, however the answers arrive
+    const search = ++latestSearch.current;
+    try {
+      setLoading(true);
+      const { sort, ...facetFilters } = filters;
+      const params = {
+        ...facetFilters,
+        limit: PAGE_SIZE,
+        offset: (currentPage - 1) * PAGE_SIZE,
+      };
+      const page: SearchPage = BOOK_CODE_PATTERN.test(query)
+        ? await booksApi.list({ ...params, q: query })
+            .then(books => ({ ...books, items: books.items.map(book => ({ book, relevance: 0, highlights: [] })) }))
+        : await searchApi.books({
+            ...params,
+            q: query || undefined,
+            sort: sort && (query || sort !== '-relevance') ? [sort] : undefined,
+            facets: true,
+          });
+      if (search !== latestSearch.current) return;
+
+      setSearchResults(page.items);
+      setTotalResults(page.total);
+      setFacets(page.facets);
+      setSuggestion(page.suggestion);
+      setSearchError(undefined);
+    } catch (error) {
+      console.error('Error searching books:', error);
+      if (search !== latestSearch.current) return;
+      setSearchResults([]);
+      setTotalResults(0);
+      setSearchError(error instanceof Error ? error.message : 'Search failed. Please try again.');
+    } finally {
+      setLoading(false);
     }
+  };
 
-    // Apply search query if provided (3+ characters)
-    const query = debouncedQuery.toLowerCase().trim();
-    if (query.length >= 3) {
-      // Filter within already filtered books
-      const queryLower = query.toLowerCase();
-      return filteredBooks.filter(book => {
-        const writerNames = book.writerIds
-          .map(id => writersMap.get(id)?.name?.toLowerCase() || '')
-          .join(' ');
-        const categoryNames = book.categoryIds
-          .map(id => categoriesMap.get(id)?.name?.toLowerCase() || '')
-          .join(' ');
-        const searchText = `${book.title.toLowerCase()} ${book.isbn.toLowerCase()} ${writerNames} ${categoryNames}`;
-        return searchText.includes(queryLower);
-      });
-    }
+  // Any change of filter starts from the first page
+  const updateFilters = (change: Partial<SearchFilters>) => {
+    setFilters(current => ({ ...current, ...change }));
+    setCurrentPage(1);
+  };
 
-    // If no search query but filters are active, return filtered books
-    if (categoryId || writerId) {
-      return filteredBooks;
+  const toggleValue = (name: ListFilter, value: string, label?: string) => {
+    const values: string[] = filters[name] || [];
+    const next = values.includes(value) ? values.filter(v => v !== value) : [...values, value];
+    if (name === 'writerId' && label) {
+      setWriterNames(current => ({ ...current, [value]: label }));
     }
+    updateFilters({ [name]: next.length > 0 ? next : undefined });
+  };
 
-    // No filters and no search query
-    return [];
-  }, [books, writerId, categoryId, debouncedQuery, writersMap, categoriesMap]);
-
-  // Memoized helper functions using the lookup maps
-  const getWriter = useCallback((id: string) => writersMap.get(id), [writersMap]);
-  const getCategory = useCallback((id: string) => categoriesMap.get(id), [categoriesMap]);
-
-  const getCategoryNames = useCallback((categoryIds: string[]) => {
-    return categoryIds
-      .map(id => categoriesMap.get(id)?.name)
-      .filter(Boolean)
-      .join(', ');
-  }, [categoriesMap]);
-
-  const getWriterNames = useCallback((writerIds: string[]) => {
-    return writerIds
-      .map(id => writersMap.get(id)?.name)
-      .filter(Boolean)
-      .join(', ');
-  }, [writersMap]);
+  const facetValues = (name: keyof NonNullable<SearchPage['facets']>) => facets?.[name] || [];
+  const selectedDecade = filters.publishedFrom !== undefined ? String(filters.publishedFrom) : null;
+  const hasFilters = Object.entries(filters).some(([name, value]) => name !== 'sort' && value !== undefined);
+  const sortValue = filters.sort && (query || filters.sort !== '-relevance') ? filters.sort : query ? '-relevance' : 'title';
 
   return (
     <div>
@@ -181,16 +261,6 @@ export function SearchBooks({ onViewBook, writerId, categoryId, onNavigateToCate
         </button>
       </div>
 
-      {/* Show filter info if active */}
-      {(writerId || categoryId) && (
-        <div className="mb-4 p-4 bg-blue-50 border border-blue-200 rounded-lg">
-          <p className="text-blue-900">
-            {writerId && `Showing books by writer: ${writersMap.get(writerId)?.name || 'Unknown'}`}
-            {categoryId && `Showing books in category: ${categoriesMap.get(categoryId)?.name || 'Unknown'}`}
-          </p>
-        </div>
-      )}
-
       {/* Search Input */}
       <div className="mb-6">
         <div className="relative">
@@ -201,151 +271,270 @@ export function SearchBooks({ onViewBook, writerId, categoryId, onNavigateToCate
             type="text"
             value={searchQuery}
             onChange={handleSearchChange}
-            placeholder="Search by book title, writer, category, or ISBN..."
-            className="w-full pl-12 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            placeholder='Search by title, writer, category, description or ISBN, or e.g. author:"Agatha Christie" year:1930..1940'
+            className={`w-full pl-12 pr-4 py-3 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent ${searchError ? 'border-red-400' : 'border-gray-300'}`}
           />
         </div>
-        {searchQuery && searchQuery.trim().length >= 3 && (
-          <p className="text-gray-600 mt-2">
-            Found {searchResults.length} {searchResults.length === 1 ? 'result' : 'results'}
-            {searchQuery !== debouncedQuery && ' (searching...)'}
-            {(writerId || categoryId) && ' (filtered)'}
-          </p>
-        )}
-        {searchQuery && searchQuery.trim().length > 0 && searchQuery.trim().length < 3 && (
-          <p className="text-orange-600 mt-2">
-            Please enter at least 3 characters to search
-          </p>
-        )}
-        {!searchQuery && (writerId || categoryId) && (
-          <p className="text-gray-600 mt-2">
-            Found {searchResults.length} {searchResults.length === 1 ? 'book' : 'books'}
-          </p>
+        {searchError && (
+          <p className="text-red-600 mt-2">{searchError}</p>
         )}
+        <QuerySyntaxHelp />
       </div>
 
-      {/* Search Results */}
-      {!writerId && !categoryId && searchQuery.trim() === '' ? (
-        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-8 text-center">
-          <Search className="w-16 h-16 text-gray-300 mx-auto mb-4" />
-          <p className="text-gray-600">
-            Enter a search term to find books by title, writer, category, or ISBN
-          </p>
-        </div>
-      ) : searchQuery.trim().length > 0 && searchQuery.trim().length < 3 ? (
-        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-8 text-center">
-          <Search className="w-16 h-16 text-orange-300 mx-auto mb-4" />
-          <p className="text-gray-600">
-            Please enter at least 3 characters to search
-          </p>
-        </div>
-      ) : searchResults.length === 0 ? (
-        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-8 text-center">
-          <p className="text-gray-600">
-            {writerId || categoryId 
-              ? `No books found${searchQuery.trim().length >= 3 ? ` matching "${debouncedQuery}"` : ''} with this filter` 
-              : `No books found matching "${debouncedQuery}"`}
-          </p>
-        </div>
-      ) : (
-        <div className="space-y-4">
-          {searchResults.map((book) => (
-            <div
-              key={book.id}
-              className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 hover:shadow-md transition-shadow cursor-pointer"
-              onClick={() => onViewBook(book.id)}
-            >
-              <div className="flex gap-4">
-                {/* Book Cover Thumbnail */}
-                <div className="w-24 h-32 bg-gray-100 rounded overflow-hidden flex-shrink-0">
-                  {book.imageUrl ? (
-                    <ImageWithFallback
-                      src={book.imageUrl}
-                      alt={book.title}
-                      className="w-full h-full object-cover"
-                    />
-                  ) : (
-                    <div className="w-full h-full flex items-center justify-center">
-                      <BookOpen className="w-8 h-8 text-gray-300" />
-                    </div>
-                  )}
-                </div>
+      <div className="flex gap-6">
+        {/* Facets, to narrow the results */}
+        {facets && (
+          <aside className="w-64 flex-shrink-0">
+            {hasFilters && (
+              <button
+                onClick={() => updateFilters({
+                  categoryId: undefined, categoryIdMatch: undefined, writerId: undefined, writerIdMatch: undefined,
+                  bookType: undefined, language: undefined, publishedFrom: undefined, publishedTo: undefined,
+                  available: undefined, source: undefined,
+                })}
+                className="flex items-center gap-1 mb-4 text-blue-600 hover:underline"
+              >
+                <X className="w-4 h-4" />
+                Clear filters
+              </button>
+            )}
+            <FacetGroup
+              title="Availability"
+              values={facetValues('availability').filter(facet => facet.value === 'true')}
+              selected={filters.available ? ['true'] : []}
+              labelFor={() => 'Available now'}
+              onToggle={() => updateFilters({ available: filters.available ? undefined : true })}
+            />
+            <FacetGroup
+              title="Categories"
+              values={facetValues('categories')}
+              selected={filters.categoryId || []}
+              labelFor={(id) => categoriesMap.get(id)?.name || 'Unknown'}
+              onToggle={(id) => toggleValue('categoryId', id)}
+              match={filters.categoryIdMatch}
+              onMatchChange={(match) => updateFilters({ categoryIdMatch: match === 'all' ? 'all' : undefined })}
+            />
+            <FacetGroup
+              title="Writers"
+              values={facetValues('writers')}
+              selected={filters.writerId || []}
+              labelFor={(id) => writerNames[id] || 'Unknown'}
+              onToggle={(id) => toggleValue('writerId', id, facetValues('writers').find(w => w.value === id)?.label)}
+              match={filters.writerIdMatch}
+              onMatchChange={(match) => updateFilters({ writerIdMatch: match === 'all' ? 'all' : undefined })}
+            />
+            <FacetGroup
+              title="Type"
+              values={facetValues('bookTypes')}
+              selected={filters.bookType || []}
+              onToggle={(type) => toggleValue('bookType', type)}
+            />
+            <FacetGroup
+              title="Language"
+              values={facetValues('languages')}
+              selected={filters.language || []}
+              onToggle={(language) => toggleValue('language', language)}
+            />
+            <FacetGroup
+              title="Published"
+              values={facetValues('decades')}
+              selected={selectedDecade ? [selectedDecade] : []}
+              labelFor={(decade) => `${decade}s`}
+              onToggle={(decade) => updateFilters(
+                decade === selectedDecade
+                  ? { publishedFrom: undefined, publishedTo: undefined }
+                  : { publishedFrom: Number(decade), publishedTo: Number(decade) + 9 }
+              )}
+            />
+            <FacetGroup
+              title="From"
+              values={facetValues('sources')}
+              selected={filters.source || []}
+              onToggle={(source) => toggleValue('source', source)}
+            />
+          </aside>
+        )}
 
-                {/* Book Details */}
-                <div className="flex-1 min-w-0">
-                  <h3 className="text-gray-900 mb-1">{book.title}</h3>
-                  <div className="flex flex-wrap gap-2 mb-2">
-                    {book.writerIds.map(wId => {
-                      const writer = getWriter(wId);
-                      return writer ? (
-                        <button
-                          key={wId}
-                          className="text-blue-600 hover:text-blue-700 hover:underline"
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            onNavigateToWriter?.(wId);
-                          }}
-                        >
-                          {writer.name}
-                        </button>
-                      ) : null;
-                    })}
-                    {book.writerIds.length === 0 && <span className="text-gray-600">Unknown author</span>}
-                  </div>
-                  
-                  <div className="flex flex-wrap gap-4 text-gray-600 mb-2">
-                    <span>ISBN: {book.isbn}</span>
-                    {book.labelNumber && <span>Rack: {book.labelNumber}</span>}
-                    {book.barcode && <span>Chip ID: {book.barcode}</span>}
-                    <span>Year: {book.publicationYear}</span>
-                    <span>Type: {book.bookType || 'Paperback'}</span>
-                    <span>
-                      Available: {book.availableCopies}/{book.totalCopies}
-                    </span>
-                  </div>
+        {/* Search Results */}
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center justify-between mb-4">
+            <p className="text-gray-600">
+              {loading ? 'Searching...' : `Found ${totalResults} ${totalResults === 1 ? 'book' : 'books'}`}
+            </p>
+            {!BOOK_CODE_PATTERN.test(query) && (
+              <label className="flex items-center gap-2 text-gray-600">
+                Sort by
+                <select
+                  value={sortValue}
+                  onChange={(e) => updateFilters({ sort: e.target.value })}
+                  className="px-3 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  {SORT_OPTIONS.filter(option => query || !option.needsQuery).map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </label>
+            )}
+          </div>
+
+          {searchResults.length === 0 ? (
+            <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-8 text-center">
+              <p className="text-gray-600">
+                {query ? `No books found matching "${query}"` : 'No books found'}
+                {hasFilters && ' with these filters'}
+              </p>
+              {suggestion && (
+                <p className="text-gray-600 mt-2">
+                  Did you mean{' '}
+                  <button
+                    onClick={() => {
+                      setSearchQuery(suggestion);
+                      setCurrentPage(1);
+                    }}
+                    className="text-blue-600 hover:underline"
+                  >
+                    {suggestion}
+                  </button>
+                  ?
+                </p>
+              )}
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {searchResults.map(({ book, highlights }) => (
+                <div
+                  key={book.id}
+                  className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 hover:shadow-md transition-shadow cursor-pointer"
+                  onClick={() => onViewBook(book.id)}
+                >
+                  <div className="flex gap-4">
+                    {/* Book Cover Thumbnail */}
+                    <div className="w-24 h-32 bg-gray-100 rounded overflow-hidden flex-shrink-0">
+                      {book.imageUrl ? (
+                        <ImageWithFallback
+                          src={book.imageUrl}
+                          alt={book.title}
+                          className="w-full h-full object-cover"
+                        />
+                      ) : (
+                        <div className="w-full h-full flex items-center justify-center">
+                          <BookOpen className="w-8 h-8 text-gray-300" />
+                        </div>
+                      )}
+                    </div>
 
-                  {book.categoryIds.length > 0 && (
-                    <div className="flex flex-wrap gap-2 mt-2">
-                      {book.categoryIds.map(catId => {
-                        const category = getCategory(catId);
-                        return category ? (
+                    {/* Book Details */}
+                    <div className="flex-1 min-w-0">
+                      <h3 className="text-gray-900 mb-1">
+                        <HighlightedText highlight={highlights.find(h => h.field === 'title')} text={book.title} />
+                      </h3>
+                      <div className="flex flex-wrap gap-2 mb-2">
+                        {book.writerIds.map((wId, index) => (
                           <button
-                            key={catId}
-                            className="px-2 py-1 bg-purple-100 text-purple-700 rounded-full hover:bg-purple-200 transition-colors"
+                            key={wId}
+                            className="text-blue-600 hover:text-blue-700 hover:underline"
                             onClick={(e) => {
                               e.stopPropagation();
-                              onNavigateToCategory?.(catId);
+                              onNavigateToWriter?.(wId);
                             }}
                           >
-                            {category.name}
+                            {book.writerNames[index]}
                           </button>
-                        ) : null;
-                      })}
+                        ))}
+                        {book.writerIds.length === 0 && <span className="text-gray-600">Unknown author</span>}
+                      </div>
+                  
+                      <div className="flex flex-wrap gap-4 text-gray-600 mb-2">
+                        <span>ISBN: {book.isbn}</span>
+                        {book.labelNumber && <span>Rack: {book.labelNumber}</span>}
+                        <span>Year: {book.publicationYear}</span>
+                        <span>Type: {book.bookType || 'Paperback'}</span>
+                        {book.language && <span>Language: {book.language}</span>}
+                        <span>
+                          Available: {book.availableCopies}/{book.totalCopies}
+                        </span>
+                        {book.availableCopies === 0 && (
+                          <span>Waitlist: {holdCounts[book.id] || 0}</span>
+                        )}
+                      </div>
+
+                      {/* Where the copies are, once the library has more than one branch */}
+                      {(book.branchAvailability?.length || 0) > 1 && (
+                        <div className="flex flex-wrap gap-2 mb-2">
+                          {book.branchAvailability!.map(entry => (
+                            <span
+                              key={entry.branchId}
+                              className={`px-2 py-1 rounded ${
+                                entry.available > 0 ? 'bg-green-50 text-green-700' : 'bg-gray-100 text-gray-600'
+                              }`}
+                            >
+                              {entry.branchName}: {entry.available}/{entry.total}
+                            </span>
+                          ))}
+                        </div>
+                      )}
+
+                      {book.categoryIds.length > 0 && (
+                        <div className="flex flex-wrap gap-2 mt-2">
+                          {book.categoryIds.map((catId, index) => (
+                            <button
+                              key={catId}
+                              className="px-2 py-1 bg-purple-100 text-purple-700 rounded-full hover:bg-purple-200 transition-colors"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                onNavigateToCategory?.(catId);
+                              }}
+                            >
+                              {book.categoryNames[index]}
+                            </button>
+                          ))}
+                        </div>
+                      )}
+
+                      {/* Where the description or a writer's bio matched, or else the start of the description */}
+                      {highlights.some(h => h.field === 'description' || h.field === 'bio') ? (
+                        highlights
+                          .filter(h => h.field === 'description' || h.field === 'bio')
+                          .map(h => (
+                            <p key={h.field} className="text-gray-600 mt-2">
+                              {h.field === 'bio' && <span className="text-gray-500">About the writer: </span>}
+                              <HighlightedText highlight={h} />
+                            </p>
+                          ))
+                      ) : (
+                        <div className="text-gray-600 mt-2">
+                          <MarkdownContent content={book.description} maxLines={2} />
+                        </div>
+                      )}
                     </div>
-                  )}
 
-                  <div className="text-gray-600 mt-2">
-                    <MarkdownContent content={book.description} maxLines={2} />
+                    {/* Status Badge */}
+                    <div className="flex-shrink-0">
+                      <span
+                        className={`px-3 py-1 rounded-full ${
+                          book.availableCopies > 0
+                            ? 'bg-green-100 text-green-700'
+                            : 'bg-red-100 text-red-700'
+                        }`}
+                      >
+                        {book.availableCopies > 0 ? 'Available' : 'Unavailable'}
+                      </span>
+                    </div>
                   </div>
                 </div>
-
-                {/* Status Badge */}
-                <div className="flex-shrink-0">
-                  <span
-                    className={`px-3 py-1 rounded-full ${
-                      book.availableCopies > 0
-                        ? 'bg-green-100 text-green-700'
-                        : 'bg-red-100 text-red-700'
-                    }`}
-                  >
-                    {book.availableCopies > 0 ? 'Available' : 'Unavailable'}
-                  </span>
-                </div>
-              </div>
+              ))}
             </div>
-          ))}
+          )}
+
+          <Pagination
+            page={currentPage}
+            pageSize={PAGE_SIZE}
+            total={totalResults}
+            noun="books"
+            onPageChange={setCurrentPage}
+          />
         </div>
-      )}
+      </div>
 
       {/* Request Book Modal */}
       {showRequestModal && (
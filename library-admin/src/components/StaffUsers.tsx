@@ -0,0 +1,301 @@
+import { useState, useEffect } from 'react';
+import { Plus, Edit2, X, ShieldCheck } from 'lucide-react';
+import type { StaffUser, StaffRole, Permission } from '../App';
+import { staffApi, authApi } from '../utils/api';
+
+const ROLE_LABELS: Record<StaffRole, string> = {
+  admin: 'Admin',
+  librarian: 'Librarian',
+  volunteer: 'Volunteer',
+  auditor: 'Auditor (read-only)',
+};
+
+export function StaffUsers() {
+  const [staff, setStaff] = useState<StaffUser[]>([]);
+  const [roles, setRoles] = useState<{ role: StaffRole; permissions: Permission[] }[]>([]);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingStaff, setEditingStaff] = useState<StaffUser | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [formData, setFormData] = useState({
+    username: '',
+    name: '',
+    role: 'volunteer' as StaffRole,
+    isActive: true,
+    password: '',
+  });
+
+  const currentStaffId = authApi.getCurrentStaff()?.id;
+
+  useEffect(() => {
+    loadStaff();
+    loadRoles();
+  }, []);
+
+  const loadStaff = async () => {
+    try {
+      setLoading(true);
+      const data = await staffApi.getAll();
+      setStaff(data);
+    } catch (error) {
+      console.error('Error loading staff:', error);
+      alert('Failed to load staff. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadRoles = async () => {
+    try {
+      const data = await staffApi.getRoles();
+      setRoles(data);
+    } catch (error) {
+      console.error('Error loading roles:', error);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    try {
+      setLoading(true);
+      if (editingStaff) {
+        await staffApi.update(editingStaff.id, {
+          ...formData,
+          password: formData.password || undefined,
+        });
+      } else {
+        await staffApi.create(formData);
+      }
+      await loadStaff();
+      resetForm();
+    } catch (error: any) {
+      console.error('Error saving staff user:', error);
+      setError(error.message || 'Failed to save staff user. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleEdit = (member: StaffUser) => {
+    setEditingStaff(member);
+    setFormData({
+      username: member.username,
+      name: member.name,
+      role: member.role,
+      isActive: member.isActive ?? true,
+      password: '',
+    });
+    setError('');
+    setIsFormOpen(true);
+  };
+
+  const resetForm = () => {
+    setFormData({ username: '', name: '', role: 'volunteer', isActive: true, password: '' });
+    setEditingStaff(null);
+    setError('');
+    setIsFormOpen(false);
+  };
+
+  const formatDate = (dateString?: string | null) => {
+    if (!dateString) return 'Never';
+    return new Date(dateString).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+    });
+  };
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-gray-900">Staff</h1>
+        <button
+          onClick={() => setIsFormOpen(true)}
+          className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 flex items-center gap-2"
+        >
+          <Plus className="w-5 h-5" />
+          Add Staff
+        </button>
+      </div>
+
+      {/* Form Modal */}
+      {isFormOpen && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-lg shadow-xl w-full max-w-md">
+            <form onSubmit={handleSubmit}>
+              <div className="flex justify-between items-center p-6 border-b border-gray-200">
+                <h2 className="text-gray-900">
+                  {editingStaff ? 'Edit Staff' : 'Add Staff'}
+                </h2>
+                <button
+                  type="button"
+                  onClick={resetForm}
+                  className="text-gray-400 hover:text-gray-600"
+                >
+                  <X className="w-6 h-6" />
+                </button>
+              </div>
+
+              <div className="p-6 space-y-4">
+                {error && (
+                  <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+                    <p className="text-red-600">{error}</p>
+                  </div>
+                )}
+
+                <div>
+                  <label className="block text-gray-700 mb-2">Username *</label>
+                  <input
+                    type="text"
+                    value={formData.username}
+                    onChange={(e) => setFormData({ ...formData, username: e.target.value })}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-100"
+                    disabled={!!editingStaff}
+                    required
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-gray-700 mb-2">Name *</label>
+                  <input
+                    type="text"
+                    value={formData.name}
+                    onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    required
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-gray-700 mb-2">Role *</label>
+                  <select
+                    value={formData.role}
+                    onChange={(e) => setFormData({ ...formData, role: e.target.value as StaffRole })}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    {(Object.keys(ROLE_LABELS) as StaffRole[]).map(role => (
+                      <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                    ))}
+                  </select>
+                  <p className="text-gray-600 mt-1 text-sm">
+                    {roles.find(r => r.role === formData.role)?.permissions.join(', ') || 'Read-only access'}
+                  </p>
+                </div>
+
+                <div>
+                  <label className="block text-gray-700 mb-2">
+                    {editingStaff ? 'New Password' : 'Password *'}
+                  </label>
+                  <input
+                    type="password"
+                    value={formData.password}
+                    onChange={(e) => setFormData({ ...formData, password: e.target.value })}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    placeholder={editingStaff ? 'Leave blank to keep current password' : 'At least 8 characters'}
+                    minLength={8}
+                    required={!editingStaff}
+                  />
+                </div>
+
+                {editingStaff && (
+                  <label className="flex items-center gap-2 text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={formData.isActive}
+                      onChange={(e) => setFormData({ ...formData, isActive: e.target.checked })}
+                    />
+                    Account active
+                  </label>
+                )}
+              </div>
+
+              <div className="flex gap-2 p-6 border-t border-gray-200">
+                <button
+                  type="submit"
+                  disabled={loading}
+                  className="flex-1 bg-blue-600 text-white py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {editingStaff ? 'Update' : 'Create'}
+                </button>
+                <button
+                  type="button"
+                  onClick={resetForm}
+                  className="flex-1 bg-gray-200 text-gray-700 py-2 rounded-lg hover:bg-gray-300"
+                >
+                  Cancel
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {/* Staff List */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-gray-700">Name</th>
+                <th className="px-6 py-3 text-left text-gray-700">Username</th>
+                <th className="px-6 py-3 text-left text-gray-700">Role</th>
+                <th className="px-6 py-3 text-left text-gray-700">Last Login</th>
+                <th className="px-6 py-3 text-right text-gray-700">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {staff.length === 0 ? (
+                <tr>
+                  <td colSpan={5} className="px-6 py-8 text-center text-gray-500">
+                    {loading ? 'Loading staff...' : 'No staff accounts yet'}
+                  </td>
+                </tr>
+              ) : (
+                staff.map((member) => (
+                  <tr key={member.id} className={`hover:bg-gray-50 ${member.isActive ? '' : 'opacity-50'}`}>
+                    <td className="px-6 py-4">
+                      <div className="flex items-center gap-3">
+                        <div className="w-10 h-10 bg-blue-100 rounded-full flex items-center justify-center">
+                          <ShieldCheck className="w-5 h-5 text-blue-600" />
+                        </div>
+                        <span className="text-gray-900">
+                          {member.name}
+                          {member.id === currentStaffId && <span className="text-gray-500"> (you)</span>}
+                        </span>
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 text-gray-600">{member.username}</td>
+                    <td className="px-6 py-4">
+                      <span className="px-2 py-1 rounded-full text-xs font-medium bg-blue-100 text-blue-700">
+                        {ROLE_LABELS[member.role]}
+                      </span>
+                      {!member.isActive && (
+                        <span className="ml-2 px-2 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-700">
+                          Inactive
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 text-gray-600">{formatDate(member.lastLoginAt)}</td>
+                    <td className="px-6 py-4">
+                      <div className="flex justify-end gap-2">
+                        <button
+                          onClick={() => handleEdit(member)}
+                          className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg"
+                          title="Edit Staff"
+                        >
+                          <Edit2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,177 @@
+import { useState, useEffect } from 'react';
+import { Send, PackageCheck, X } from 'lucide-react';
+import type { BranchTransfer, TransferStatus } from '../App';
+import { transfersApi, authApi } from '../utils/api';
+
+const STATUS_LABELS: Record<TransferStatus, string> = {
+  requested: 'Requested',
+  in_transit: 'In transit',
+  received: 'Received',
+  cancelled: 'Cancelled',
+};
+
+const STATUS_STYLES: Record<TransferStatus, string> = {
+  requested: 'bg-yellow-100 text-yellow-700',
+  in_transit: 'bg-purple-100 text-purple-700',
+  received: 'bg-green-100 text-green-700',
+  cancelled: 'bg-gray-100 text-gray-700',
+};
+
+/**
+ * Copies moving to and from the branch staff are working at: requested
+ * transfers to pull off the shelf and send, and copies in transit to receive.
+ */
+export function Transfers() {
+  const branch = authApi.getCurrentStaff()?.branch;
+  const [transfers, setTransfers] = useState<BranchTransfer[]>([]);
+  const [statusFilter, setStatusFilter] = useState<TransferStatus | ''>('requested');
+  const [loading, setLoading] = useState(false);
+  const [successMessage, setSuccessMessage] = useState('');
+
+  const canReceive = authApi.can('circulation:receive');
+
+  useEffect(() => {
+    loadTransfers();
+  }, [statusFilter]);
+
+  const loadTransfers = async () => {
+    try {
+      setLoading(true);
+      setTransfers(await transfersApi.getAll({ branchId: branch?.id, status: statusFilter || undefined }));
+    } catch (error) {
+      console.error('Error loading transfers:', error);
+      alert('Failed to load transfers. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const runAction = async (transfer: BranchTransfer, action: 'send' | 'receive' | 'cancel', message: string) => {
+    try {
+      await transfersApi[action](transfer.id);
+      setSuccessMessage(message);
+      await loadTransfers();
+      setTimeout(() => setSuccessMessage(''), 3000);
+    } catch (error: any) {
+      console.error(`Error on transfer ${action}:`, error);
+      alert(error.message || 'Failed to update the transfer. Please try again.');
+      await loadTransfers();
+    }
+  };
+
+  const formatDate = (dateString: string | null) => {
+    if (!dateString) return '-';
+    return new Date(dateString).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+    });
+  };
+
+  // Staff without a branch can act for any branch
+  const isFromHere = (transfer: BranchTransfer) => !branch || transfer.fromBranchId === branch.id;
+  const isToHere = (transfer: BranchTransfer) => !branch || transfer.toBranchId === branch.id;
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-gray-900">Transfers{branch ? ` - ${branch.name}` : ''}</h1>
+        <select
+          value={statusFilter}
+          onChange={(e) => setStatusFilter(e.target.value as TransferStatus | '')}
+          className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        >
+          <option value="requested">To send</option>
+          <option value="in_transit">In transit</option>
+          <option value="received">Received</option>
+          <option value="cancelled">Cancelled</option>
+          <option value="">All</option>
+        </select>
+      </div>
+
+      {successMessage && (
+        <div className="bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded-lg mb-6">
+          {successMessage}
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-gray-700">Copy</th>
+                <th className="px-6 py-3 text-left text-gray-700">From</th>
+                <th className="px-6 py-3 text-left text-gray-700">To</th>
+                <th className="px-6 py-3 text-left text-gray-700">Status</th>
+                <th className="px-6 py-3 text-left text-gray-700">Requested</th>
+                <th className="px-6 py-3 text-right text-gray-700">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {transfers.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="px-6 py-8 text-center text-gray-500">
+                    {loading ? 'Loading transfers...' : 'No transfers'}
+                  </td>
+                </tr>
+              ) : (
+                transfers.map((transfer) => (
+                  <tr key={transfer.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4">
+                      <span className="block text-gray-900">{transfer.bookTitle}</span>
+                      <span className="block text-gray-600">{transfer.copyBarcode}</span>
+                    </td>
+                    <td className="px-6 py-4 text-gray-600">{transfer.fromBranchName}</td>
+                    <td className="px-6 py-4 text-gray-600">{transfer.toBranchName}</td>
+                    <td className="px-6 py-4">
+                      <span className={`px-2 py-1 rounded ${STATUS_STYLES[transfer.status]}`}>
+                        {STATUS_LABELS[transfer.status]}
+                      </span>
+                      {transfer.reason && <span className="block text-gray-500 text-sm mt-1">{transfer.reason}</span>}
+                    </td>
+                    <td className="px-6 py-4 text-gray-600">
+                      {formatDate(transfer.requestedAt)}
+                      {transfer.requestedByName && <span className="block text-sm">by {transfer.requestedByName}</span>}
+                    </td>
+                    <td className="px-6 py-4">
+                      <div className="flex justify-end gap-2">
+                        {transfer.status === 'requested' && isFromHere(transfer) && (
+                          <button
+                            onClick={() => runAction(transfer, 'send', `Copy ${transfer.copyBarcode} sent to ${transfer.toBranchName}`)}
+                            className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg"
+                            title="Send"
+                          >
+                            <Send className="w-4 h-4" />
+                          </button>
+                        )}
+                        {transfer.status === 'in_transit' && isToHere(transfer) && canReceive && (
+                          <button
+                            onClick={() => runAction(transfer, 'receive', `Copy ${transfer.copyBarcode} received at ${transfer.toBranchName}`)}
+                            className="p-2 text-green-600 hover:bg-green-50 rounded-lg"
+                            title="Receive"
+                          >
+                            <PackageCheck className="w-4 h-4" />
+                          </button>
+                        )}
+                        {transfer.status === 'requested' && (
+                          <button
+                            onClick={() => runAction(transfer, 'cancel', `Transfer of copy ${transfer.copyBarcode} cancelled`)}
+                            className="p-2 text-red-600 hover:bg-red-50 rounded-lg"
+                            title="Cancel Transfer"
+                          >
+                            <X className="w-4 h-4" />
+                          </button>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,34 +1,73 @@
 import { useState, useEffect } from 'react';
-import { Plus, Edit2, X, User as UserIcon, Search, History, BookOpen } from 'lucide-react';
-import type { User, BookIssue, Book } from '../App';
-import { usersApi, issuesApi, booksApi } from '../utils/api';
+import { Plus, Edit2, X, User as UserIcon, Search, History, BookOpen, Coins, RefreshCw } from 'lucide-react';
+import type { User, BookIssue, PatronType } from '../App';
+import { usersApi, issuesApi, authApi, loanPoliciesApi } from '../utils/api';
+import { formatMoney, LOAN_STATUS_LABELS, LOAN_STATUS_STYLES } from '../utils/format';
+import { useDebounce } from '../utils/hooks';
+import { FinesLedger } from './FinesLedger';
+import { Pagination } from './Pagination';
 
-export function Users() {
+const PAGE_SIZE = 50;
+
+// Loans shown in a user's history, most recent first
+const HISTORY_LIMIT = 200;
+
+type UsersProps = {
+  initialSearch?: string; // e.g. a requester's phone number from Book Requests
+};
+
+export function Users({ initialSearch = '' }: UsersProps) {
   const [users, setUsers] = useState<User[]>([]);
+  const [totalUsers, setTotalUsers] = useState(0);
+  const [currentPage, setCurrentPage] = useState(1);
+  const [sort, setSort] = useState('name');
   const [isFormOpen, setIsFormOpen] = useState(false);
   const [editingUser, setEditingUser] = useState<User | null>(null);
-  const [searchQuery, setSearchQuery] = useState('');
+  const [searchQuery, setSearchQuery] = useState(initialSearch);
   const [loading, setLoading] = useState(false);
-  const [errors, setErrors] = useState({ phone: '', email: '' });
+  const [errors, setErrors] = useState({ phone: '', email: '', cardNumber: '' });
   const [formData, setFormData] = useState({
     name: '',
     phone: '',
     email: '',
+    patronType: 'adult' as PatronType,
+    cardNumber: '',
   });
+  const [patronTypes, setPatronTypes] = useState<PatronType[]>(['adult']);
   const [isIssueHistoryOpen, setIsIssueHistoryOpen] = useState(false);
   const [selectedUser, setSelectedUser] = useState<User | null>(null);
-  const [issueHistory, setIssueHistory] = useState<(BookIssue & { bookTitle: string })[]>([]);
+  const [issueHistory, setIssueHistory] = useState<BookIssue[]>([]);
+  const [issueHistoryTotal, setIssueHistoryTotal] = useState(0);
   const [issueHistoryLoading, setIssueHistoryLoading] = useState(false);
+  const [finesUser, setFinesUser] = useState<User | null>(null);
+  const debouncedQuery = useDebounce(searchQuery.trim(), 300);
 
   useEffect(() => {
-    loadUsers();
+    loanPoliciesApi.getPatronTypes()
+      .then(setPatronTypes)
+      .catch(error => console.error('Error loading patron types:', error));
   }, []);
 
+  useEffect(() => {
+    loadUsers();
+  }, [debouncedQuery, sort, currentPage]);
+
   const loadUsers = async () => {
+    if (debouncedQuery.length < 3) {
+      setUsers([]);
+      setTotalUsers(0);
+      return;
+    }
     try {
       setLoading(true);
-      const data = await usersApi.getAll();
-      setUsers(data);
+      const page = await usersApi.list({
+        q: debouncedQuery,
+        sort: [sort],
+        limit: PAGE_SIZE,
+        offset: (currentPage - 1) * PAGE_SIZE,
+      });
+      setUsers(page.items);
+      setTotalUsers(page.total);
     } catch (error) {
       console.error('Error loading users:', error);
       alert('Failed to load users. Please try again.');
@@ -41,23 +80,33 @@ export function Users() {
     e.preventDefault();
     
     // Clear previous errors
-    setErrors({ phone: '', email: '' });
+    setErrors({ phone: '', email: '', cardNumber: '' });
     
-    // Check for duplicate phone (excluding current user when editing)
-    const phoneExists = users.find(
-      user => user.phone === formData.phone && user.id !== editingUser?.id
-    );
-    
-    // Check for duplicate email (excluding current user when editing)
-    const emailExists = users.find(
-      user => user.email === formData.email && user.id !== editingUser?.id
-    );
+    // Check for duplicate phone, email and library card (excluding current
+    // user when editing)
+    const takenByOther = async (filters: { phone?: string; email?: string; cardNumber?: string }) => {
+      const { items } = await usersApi.list({ ...filters, limit: 2 });
+      return items.some(user => user.id !== editingUser?.id);
+    };
+    let phoneExists: boolean, emailExists: boolean, cardExists: boolean;
+    try {
+      [phoneExists, emailExists, cardExists] = await Promise.all([
+        takenByOther({ phone: formData.phone }),
+        takenByOther({ email: formData.email }),
+        formData.cardNumber.trim() ? takenByOther({ cardNumber: formData.cardNumber.trim() }) : Promise.resolve(false),
+      ]);
+    } catch (error) {
+      console.error('Error checking for duplicate users:', error);
+      alert('Failed to save user. Please try again.');
+      return;
+    }
     
     // Set errors if duplicates found
-    if (phoneExists || emailExists) {
+    if (phoneExists || emailExists || cardExists) {
       setErrors({
         phone: phoneExists ? 'This phone number is already registered to another user' : '',
         email: emailExists ? 'This email is already registered to another user' : '',
+        cardNumber: cardExists ? 'This library card is already registered to another user' : '',
       });
       return; // Don't submit if there are errors
     }
@@ -90,6 +139,8 @@ export function Users() {
       name: user.name,
       phone: user.phone,
       email: user.email,
+      patronType: user.patronType || 'adult',
+      cardNumber: user.cardNumber || '',
     });
     setIsFormOpen(true);
   };
@@ -99,43 +150,20 @@ export function Users() {
       name: '',
       phone: '',
       email: '',
+      patronType: 'adult',
+      cardNumber: '',
     });
     setEditingUser(null);
-    setErrors({ phone: '', email: '' });
+    setErrors({ phone: '', email: '', cardNumber: '' });
     setIsFormOpen(false);
   };
 
-  const filteredUsers = users.filter(user => {
-    const query = searchQuery.toLowerCase().trim();
-    if (!query || query.length < 3) return false;
-    
-    return (
-      user.name.toLowerCase().includes(query) ||
-      user.phone.toLowerCase().includes(query) ||
-      user.email.toLowerCase().includes(query)
-    );
-  });
-
   const loadUserIssueHistory = async (userId: string) => {
     try {
       setIssueHistoryLoading(true);
-      const [issues, books] = await Promise.all([
-        issuesApi.getAll(),
-        booksApi.getAll(),
-      ]);
-
-      const userIssues = issues
-        .filter(issue => issue.userId === userId)
-        .map(issue => {
-          const book = books.find(b => b.id === issue.bookId);
-          return {
-            ...issue,
-            bookTitle: book?.title || 'Unknown Book',
-          };
-        })
-        .sort((a, b) => new Date(b.issueDate).getTime() - new Date(a.issueDate).getTime());
-
-      setIssueHistory(userIssues);
+      const page = await issuesApi.list({ userId, sort: ['-issueDate'], limit: HISTORY_LIMIT });
+      setIssueHistory(page.items);
+      setIssueHistoryTotal(page.total);
     } catch (error) {
       console.error('Error loading issue history:', error);
       alert('Failed to load issue history. Please try again.');
@@ -150,6 +178,16 @@ export function Users() {
     await loadUserIssueHistory(user.id);
   };
 
+  const handleRenewIssue = async (issueId: string) => {
+    try {
+      const renewed = await issuesApi.renew(issueId);
+      setIssueHistory(issueHistory.map(issue => (issue.id === issueId ? { ...issue, ...renewed } : issue)));
+    } catch (error: any) {
+      console.error('Error renewing loan:', error);
+      alert(error.message || 'Failed to renew loan. Please try again.');
+    }
+  };
+
   const closeIssueHistory = () => {
     setIsIssueHistoryOpen(false);
     setSelectedUser(null);
@@ -168,13 +206,29 @@ export function Users() {
     <div>
       <div className="flex justify-between items-center mb-6">
         <h1 className="text-gray-900">Users</h1>
-        <button
-          onClick={() => setIsFormOpen(true)}
-          className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 flex items-center gap-2"
-        >
-          <Plus className="w-5 h-5" />
-          Add User
-        </button>
+        <div className="flex items-center gap-3">
+          <select
+            value={sort}
+            onChange={(e) => {
+              setSort(e.target.value);
+              setCurrentPage(1);
+            }}
+            className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            <option value="name">Name (A-Z)</option>
+            <option value="-fineBalance">Most fines due</option>
+            <option value="-createdAt">Recently registered</option>
+          </select>
+          {authApi.can('users:write') && (
+            <button
+              onClick={() => setIsFormOpen(true)}
+              className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 flex items-center gap-2"
+            >
+              <Plus className="w-5 h-5" />
+              Add User
+            </button>
+          )}
+        </div>
       </div>
 
       {/* Search Bar */}
@@ -186,14 +240,17 @@ export function Users() {
           <input
             type="text"
             value={searchQuery}
-            onChange={(e) => setSearchQuery(e.target.value)}
+            onChange={(e) => {
+              setSearchQuery(e.target.value);
+              setCurrentPage(1);
+            }}
             placeholder="Search by name, phone, or email (min 3 characters)..."
             className="w-full pl-12 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
           />
         </div>
         {searchQuery && searchQuery.trim().length >= 3 && (
           <p className="text-gray-600 mt-2">
-            Found {filteredUsers.length} {filteredUsers.length === 1 ? 'user' : 'users'}
+            Found {totalUsers} {totalUsers === 1 ? 'user' : 'users'}
           </p>
         )}
         {searchQuery && searchQuery.trim().length > 0 && searchQuery.trim().length < 3 && (
@@ -258,6 +315,33 @@ export function Users() {
                   />
                   {errors.email && <p className="text-red-500 text-sm mt-1">{errors.email}</p>}
                 </div>
+
+                <div>
+                  <label className="block text-gray-700 mb-2">Patron Type</label>
+                  <select
+                    value={formData.patronType}
+                    onChange={(e) => setFormData({ ...formData, patronType: e.target.value as PatronType })}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent capitalize"
+                  >
+                    {patronTypes.map((type) => (
+                      <option key={type} value={type}>{type}</option>
+                    ))}
+                  </select>
+                  <p className="text-gray-600 text-sm mt-1">Decides which borrowing policies apply</p>
+                </div>
+
+                <div>
+                  <label className="block text-gray-700 mb-2">Library Card Number</label>
+                  <input
+                    type="text"
+                    value={formData.cardNumber}
+                    onChange={(e) => setFormData({ ...formData, cardNumber: e.target.value })}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent font-mono"
+                    placeholder="Scan or type the card's barcode"
+                  />
+                  {errors.cardNumber && <p className="text-red-500 text-sm mt-1">{errors.cardNumber}</p>}
+                  <p className="text-gray-600 text-sm mt-1">Scanned at the Circulation Station to find this user</p>
+                </div>
               </div>
 
               <div className="flex gap-2 p-6 border-t border-gray-200">
@@ -289,44 +373,59 @@ export function Users() {
                 <th className="px-6 py-3 text-left text-gray-700">Name</th>
                 <th className="px-6 py-3 text-left text-gray-700">Phone</th>
                 <th className="px-6 py-3 text-left text-gray-700">Email</th>
+                <th className="px-6 py-3 text-left text-gray-700">Fines Due</th>
                 <th className="px-6 py-3 text-right text-gray-700">Actions</th>
               </tr>
             </thead>
             <tbody className="divide-y divide-gray-200">
               {searchQuery.trim().length === 0 ? (
                 <tr>
-                  <td colSpan={4} className="px-6 py-12 text-center text-gray-500">
+                  <td colSpan={5} className="px-6 py-12 text-center text-gray-500">
                     <Search className="w-12 h-12 text-gray-300 mx-auto mb-4" />
                     <p>Enter at least 3 characters to search for users</p>
                   </td>
                 </tr>
               ) : searchQuery.trim().length < 3 ? (
                 <tr>
-                  <td colSpan={4} className="px-6 py-12 text-center text-gray-500">
+                  <td colSpan={5} className="px-6 py-12 text-center text-gray-500">
                     <p>Please enter at least 3 characters to search</p>
                   </td>
                 </tr>
-              ) : filteredUsers.length === 0 ? (
+              ) : users.length === 0 ? (
                 <tr>
-                  <td colSpan={4} className="px-6 py-8 text-center text-gray-500">
+                  <td colSpan={5} className="px-6 py-8 text-center text-gray-500">
                     No users found matching your search
                   </td>
                 </tr>
               ) : (
-                filteredUsers.map((user) => (
+                users.map((user) => (
                   <tr key={user.id} className="hover:bg-gray-50">
                     <td className="px-6 py-4">
                       <div className="flex items-center gap-3">
                         <div className="w-10 h-10 bg-blue-100 rounded-full flex items-center justify-center">
                           <UserIcon className="w-5 h-5 text-blue-600" />
                         </div>
-                        <span className="text-gray-900">{user.name}</span>
+                        <div>
+                          <p className="text-gray-900">{user.name}</p>
+                          <p className="text-gray-600 text-sm capitalize">{user.patronType || 'adult'}</p>
+                        </div>
                       </div>
                     </td>
                     <td className="px-6 py-4 text-gray-600">{user.phone}</td>
                     <td className="px-6 py-4 text-gray-600">{user.email}</td>
+                    <td className={`px-6 py-4 ${user.fineBalance ? 'text-red-600' : 'text-gray-600'}`}>
+                      {formatMoney(user.fineBalance || 0)}
+                    </td>
                     <td className="px-6 py-4">
                       <div className="flex justify-end gap-2">
+                        <button
+                          onClick={() => setFinesUser(user)}
+                          className="px-3 py-2 text-amber-600 hover:bg-amber-50 rounded-lg flex items-center gap-2 border border-amber-200"
+                          title="View Fines"
+                        >
+                          <Coins className="w-4 h-4" />
+                          <span>Fines</span>
+                        </button>
                         <button
                           onClick={() => handleViewIssueHistory(user)}
                           className="px-3 py-2 text-green-600 hover:bg-green-50 rounded-lg flex items-center gap-2 border border-green-200"
@@ -335,13 +434,15 @@ export function Users() {
                           <History className="w-4 h-4" />
                           <span>History</span>
                         </button>
-                        <button
-                          onClick={() => handleEdit(user)}
-                          className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg"
-                          title="Edit User"
-                        >
-                          <Edit2 className="w-4 h-4" />
-                        </button>
+                        {authApi.can('users:write') && (
+                          <button
+                            onClick={() => handleEdit(user)}
+                            className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg"
+                            title="Edit User"
+                          >
+                            <Edit2 className="w-4 h-4" />
+                          </button>
+                        )}
                       </div>
                     </td>
                   </tr>
@@ -352,16 +453,23 @@ export function Users() {
         </div>
       </div>
 
-      {/* Stats */}
-      {users.length > 0 && searchQuery.trim().length >= 3 && (
-        <div className="mt-6 p-4 bg-blue-50 border border-blue-200 rounded-lg">
-          <p className="text-blue-900">
-            Total Users: {users.length}
-          </p>
-          <p className="text-blue-700">
-            Showing: {filteredUsers.length} of {users.length}
-          </p>
-        </div>
+      <Pagination
+        page={currentPage}
+        pageSize={PAGE_SIZE}
+        total={totalUsers}
+        noun="users"
+        onPageChange={setCurrentPage}
+      />
+
+      {/* Fines Ledger Modal */}
+      {finesUser && (
+        <FinesLedger
+          user={finesUser}
+          onClose={() => setFinesUser(null)}
+          onBalanceChange={(fineBalance) =>
+            setUsers(users.map(u => (u.id === finesUser.id ? { ...u, fineBalance } : u)))
+          }
+        />
       )}
 
       {/* Issue History Modal */}
@@ -371,7 +479,10 @@ export function Users() {
             <div className="flex justify-between items-center p-6 border-b border-gray-200">
               <div>
                 <h2 className="text-gray-900 text-xl font-semibold">Issue History</h2>
-                <p className="text-gray-600 text-sm mt-1">{selectedUser.name}</p>
+                <p className="text-gray-600 text-sm mt-1">
+                  {selectedUser.name}
+                  {issueHistoryTotal > issueHistory.length && ` - latest ${issueHistory.length} of ${issueHistoryTotal} loans`}
+                </p>
               </div>
               <button
                 type="button"
@@ -402,6 +513,7 @@ export function Users() {
                         <th className="px-4 py-3 text-left text-gray-700 font-semibold">Due Date</th>
                         <th className="px-4 py-3 text-left text-gray-700 font-semibold">Return Date</th>
                         <th className="px-4 py-3 text-left text-gray-700 font-semibold">Status</th>
+                        <th className="px-4 py-3"></th>
                       </tr>
                     </thead>
                     <tbody className="divide-y divide-gray-200">
@@ -415,14 +527,30 @@ export function Users() {
                           </td>
                           <td className="px-4 py-3">
                             <span
-                              className={`px-2 py-1 rounded-full text-xs font-medium ${
-                                issue.status === 'returned'
-                                  ? 'bg-green-100 text-green-700'
-                                  : 'bg-blue-100 text-blue-700'
-                              }`}
+                              className={`px-2 py-1 rounded-full text-xs font-medium ${LOAN_STATUS_STYLES[issue.status]}`}
                             >
-                              {issue.status === 'returned' ? 'Returned' : 'Issued'}
+                              {LOAN_STATUS_LABELS[issue.status]}
                             </span>
+                            {issue.statusNote && (
+                              <span className="block text-gray-500 text-xs mt-1">{issue.statusNote}</span>
+                            )}
+                            {!!issue.renewalCount && (
+                              <span className="block text-gray-500 text-xs mt-1">
+                                Renewed {issue.renewalCount}×
+                              </span>
+                            )}
+                          </td>
+                          <td className="px-4 py-3 text-right">
+                            {issue.status === 'issued' && authApi.can('circulation:issue') && (
+                              <button
+                                onClick={() => handleRenewIssue(issue.id)}
+                                className="px-3 py-1 text-blue-600 hover:bg-blue-50 rounded-lg flex items-center gap-1 border border-blue-200"
+                                title="Renew Loan"
+                              >
+                                <RefreshCw className="w-4 h-4" />
+                                Renew
+                              </button>
+                            )}
                           </td>
                         </tr>
                       ))}
@@ -0,0 +1,285 @@
+import { useState, useEffect } from 'react';
+import { Plus, Edit2, X, Store } from 'lucide-react';
+import type { Vendor } from '../App';
+import { vendorsApi, type VendorInput } from '../utils/api';
+
+const emptyVendorForm: VendorInput = {
+  name: '',
+  contactName: '',
+  email: '',
+  phone: '',
+  address: '',
+  notes: '',
+  isActive: true,
+};
+
+/**
+ * The booksellers and distributors the library orders from. A vendor the
+ * library stops using is marked inactive, since past orders still point at it.
+ */
+export function Vendors() {
+  const [vendors, setVendors] = useState<Vendor[]>([]);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingVendor, setEditingVendor] = useState<Vendor | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [formData, setFormData] = useState<VendorInput>(emptyVendorForm);
+
+  useEffect(() => {
+    loadVendors();
+  }, []);
+
+  const loadVendors = async () => {
+    try {
+      setLoading(true);
+      setVendors(await vendorsApi.getAll(true));
+    } catch (error) {
+      console.error('Error loading vendors:', error);
+      alert('Failed to load vendors. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    try {
+      setLoading(true);
+      if (editingVendor) {
+        await vendorsApi.update(editingVendor.id, formData);
+      } else {
+        await vendorsApi.create(formData);
+      }
+      await loadVendors();
+      resetForm();
+    } catch (error: any) {
+      console.error('Error saving vendor:', error);
+      setError(error.message || 'Failed to save vendor. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleEdit = (vendor: Vendor) => {
+    setEditingVendor(vendor);
+    setFormData({
+      name: vendor.name,
+      contactName: vendor.contactName || '',
+      email: vendor.email || '',
+      phone: vendor.phone || '',
+      address: vendor.address || '',
+      notes: vendor.notes || '',
+      isActive: vendor.isActive,
+    });
+    setError('');
+    setIsFormOpen(true);
+  };
+
+  const resetForm = () => {
+    setFormData(emptyVendorForm);
+    setEditingVendor(null);
+    setError('');
+    setIsFormOpen(false);
+  };
+
+  const inputClass = 'w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-gray-900">Vendors</h1>
+        <button
+          onClick={() => setIsFormOpen(true)}
+          className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 flex items-center gap-2"
+        >
+          <Plus className="w-5 h-5" />
+          Add Vendor
+        </button>
+      </div>
+
+      {/* Form Modal */}
+      {isFormOpen && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-lg shadow-xl w-full max-w-md max-h-[90vh] overflow-y-auto">
+            <form onSubmit={handleSubmit}>
+              <div className="flex justify-between items-center p-6 border-b border-gray-200">
+                <h2 className="text-gray-900">
+                  {editingVendor ? 'Edit Vendor' : 'Add Vendor'}
+                </h2>
+                <button
+                  type="button"
+                  onClick={resetForm}
+                  className="text-gray-400 hover:text-gray-600"
+                >
+                  <X className="w-6 h-6" />
+                </button>
+              </div>
+
+              <div className="p-6 space-y-4">
+                {error && (
+                  <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+                    <p className="text-red-600">{error}</p>
+                  </div>
+                )}
+
+                <div>
+                  <label className="block text-gray-700 mb-2">Name *</label>
+                  <input
+                    type="text"
+                    value={formData.name}
+                    onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                    className={inputClass}
+                    required
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-gray-700 mb-2">Contact Person</label>
+                  <input
+                    type="text"
+                    value={formData.contactName || ''}
+                    onChange={(e) => setFormData({ ...formData, contactName: e.target.value })}
+                    className={inputClass}
+                  />
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-gray-700 mb-2">Email</label>
+                    <input
+                      type="email"
+                      value={formData.email || ''}
+                      onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+                      className={inputClass}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-gray-700 mb-2">Phone</label>
+                    <input
+                      type="text"
+                      value={formData.phone || ''}
+                      onChange={(e) => setFormData({ ...formData, phone: e.target.value })}
+                      className={inputClass}
+                    />
+                  </div>
+                </div>
+
+                <div>
+                  <label className="block text-gray-700 mb-2">Address</label>
+                  <input
+                    type="text"
+                    value={formData.address || ''}
+                    onChange={(e) => setFormData({ ...formData, address: e.target.value })}
+                    className={inputClass}
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-gray-700 mb-2">Notes</label>
+                  <textarea
+                    value={formData.notes || ''}
+                    onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                    className={inputClass}
+                    rows={3}
+                    placeholder="Discount terms, account number..."
+                  />
+                </div>
+
+                {editingVendor && (
+                  <label className="flex items-center gap-2 text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={formData.isActive}
+                      onChange={(e) => setFormData({ ...formData, isActive: e.target.checked })}
+                    />
+                    Still ordering from this vendor
+                  </label>
+                )}
+              </div>
+
+              <div className="flex gap-2 p-6 border-t border-gray-200">
+                <button
+                  type="submit"
+                  disabled={loading}
+                  className="flex-1 bg-blue-600 text-white py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {editingVendor ? 'Update' : 'Create'}
+                </button>
+                <button
+                  type="button"
+                  onClick={resetForm}
+                  className="flex-1 bg-gray-200 text-gray-700 py-2 rounded-lg hover:bg-gray-300"
+                >
+                  Cancel
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {/* Vendor List */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-gray-700">Name</th>
+                <th className="px-6 py-3 text-left text-gray-700">Contact</th>
+                <th className="px-6 py-3 text-left text-gray-700">Notes</th>
+                <th className="px-6 py-3 text-right text-gray-700">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {vendors.length === 0 ? (
+                <tr>
+                  <td colSpan={4} className="px-6 py-8 text-center text-gray-500">
+                    {loading ? 'Loading vendors...' : 'No vendors yet'}
+                  </td>
+                </tr>
+              ) : (
+                vendors.map((vendor) => (
+                  <tr key={vendor.id} className={`hover:bg-gray-50 ${vendor.isActive ? '' : 'opacity-50'}`}>
+                    <td className="px-6 py-4">
+                      <div className="flex items-center gap-3">
+                        <div className="w-10 h-10 bg-blue-100 rounded-full flex items-center justify-center">
+                          <Store className="w-5 h-5 text-blue-600" />
+                        </div>
+                        <span className="text-gray-900">{vendor.name}</span>
+                        {!vendor.isActive && (
+                          <span className="px-2 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-700">
+                            Inactive
+                          </span>
+                        )}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 text-gray-600">
+                      {vendor.contactName && <span className="block text-gray-900">{vendor.contactName}</span>}
+                      {vendor.email && <span className="block">{vendor.email}</span>}
+                      {vendor.phone && <span className="block">{vendor.phone}</span>}
+                      {!vendor.contactName && !vendor.email && !vendor.phone && '-'}
+                    </td>
+                    <td className="px-6 py-4 text-gray-600">{vendor.notes || '-'}</td>
+                    <td className="px-6 py-4">
+                      <div className="flex justify-end gap-2">
+                        <button
+                          onClick={() => handleEdit(vendor)}
+                          className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg"
+                          title="Edit Vendor"
+                        >
+                          <Edit2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -2,11 +2,20 @@ import { useState, useEffect } from 'react';
 import { Plus, Edit2, X, Search, BookOpen, User } from 'lucide-react';
 import { ImageWithFallback } from './figma/ImageWithFallback';
 import { MarkdownContent } from './MarkdownContent';
-import type { Writer, Book, Category } from '../App';
-import { writersApi, booksApi, categoriesApi } from '../utils/api';
+import type { Writer, Book } from '../App';
+import { writersApi, booksApi, authApi } from '../utils/api';
+import { useDebounce } from '../utils/hooks';
+import { Pagination } from './Pagination';
+
+const PAGE_SIZE = 50;
+
+// Books listed on a writer's page
+const WRITER_BOOKS_LIMIT = 200;
 
 export function Writers() {
   const [writers, setWriters] = useState<Writer[]>([]);
+  const [totalWriters, setTotalWriters] = useState(0);
+  const [currentPage, setCurrentPage] = useState(1);
   const [isFormOpen, setIsFormOpen] = useState(false);
   const [editingWriter, setEditingWriter] = useState<Writer | null>(null);
   const [loading, setLoading] = useState(false);
@@ -21,28 +30,29 @@ export function Writers() {
   const [isDetailOpen, setIsDetailOpen] = useState(false);
   const [selectedWriter, setSelectedWriter] = useState<Writer | null>(null);
   const [writerBooks, setWriterBooks] = useState<Book[]>([]);
-  const [categories, setCategories] = useState<Category[]>([]);
+  const [writerBooksTotal, setWriterBooksTotal] = useState(0);
   const [detailLoading, setDetailLoading] = useState(false);
+  const debouncedQuery = useDebounce(searchQuery.trim(), 300);
 
   useEffect(() => {
     loadWriters();
-    loadCategories();
-  }, []);
-
-  const loadCategories = async () => {
-    try {
-      const data = await categoriesApi.getAll();
-      setCategories(data);
-    } catch (error) {
-      console.error('Error loading categories:', error);
-    }
-  };
+  }, [debouncedQuery, currentPage]);
 
   const loadWriters = async () => {
+    if (debouncedQuery.length < 3) {
+      setWriters([]);
+      setTotalWriters(0);
+      return;
+    }
     try {
       setLoading(true);
-      const data = await writersApi.getAll();
-      setWriters(data);
+      const page = await writersApi.list({
+        q: debouncedQuery,
+        limit: PAGE_SIZE,
+        offset: (currentPage - 1) * PAGE_SIZE,
+      });
+      setWriters(page.items);
+      setTotalWriters(page.total);
     } catch (error) {
       console.error('Error loading writers:', error);
       alert('Failed to load writers. Please try again.');
@@ -55,14 +65,16 @@ export function Writers() {
     e.preventDefault();
     setError('');
     
-    // Frontend validation: Check for duplicate name + nationality
-    const duplicate = writers.find(
-      writer => 
-        writer.name.toLowerCase() === formData.name.toLowerCase() &&
-        writer.nationality.toLowerCase() === formData.nationality.toLowerCase() &&
-        writer.id !== editingWriter?.id
-    );
-    
+    // Frontend validation: Check for duplicate name + nationality (the server
+    // matches both case-insensitively)
+    let duplicate: Writer | undefined;
+    try {
+      const { items } = await writersApi.list({ name: formData.name, nationality: formData.nationality, limit: 2 });
+      duplicate = items.find(writer => writer.id !== editingWriter?.id);
+    } catch (error) {
+      console.error('Error checking for duplicate writers:', error);
+    }
+
     if (duplicate) {
       setError(`A writer named "${formData.name}" from "${formData.nationality}" already exists`);
       return;
@@ -110,17 +122,6 @@ export function Writers() {
     setIsFormOpen(false);
   };
 
-  const filteredWriters = writers.filter(writer => {
-    const query = searchQuery.toLowerCase().trim();
-    if (!query || query.length < 3) return false;
-    
-    return (
-      writer.name.toLowerCase().includes(query) ||
-      writer.nationality.toLowerCase().includes(query) ||
-      writer.bio.toLowerCase().includes(query)
-    );
-  });
-
   const handleViewWriter = async (writer: Writer) => {
     setSelectedWriter(writer);
     setIsDetailOpen(true);
@@ -130,9 +131,9 @@ export function Writers() {
   const loadWriterBooks = async (writerId: string) => {
     try {
       setDetailLoading(true);
-      const allBooks = await booksApi.getAll();
-      const books = allBooks.filter(book => book.writerIds.includes(writerId));
-      setWriterBooks(books);
+      const page = await booksApi.list({ writerId: [writerId], limit: WRITER_BOOKS_LIMIT });
+      setWriterBooks(page.items);
+      setWriterBooksTotal(page.total);
     } catch (error) {
       console.error('Error loading writer books:', error);
       alert('Failed to load books. Please try again.');
@@ -147,24 +148,19 @@ export function Writers() {
     setWriterBooks([]);
   };
 
-  const getCategoryNames = (categoryIds: string[]) => {
-    return categoryIds
-      .map(id => categories.find(c => c.id === id)?.name)
-      .filter(Boolean)
-      .join(', ');
-  };
-
   return (
     <div>
       <div className="flex justify-between items-center mb-6">
         <h1 className="text-gray-900">Writers</h1>
-        <button
-          onClick={() => setIsFormOpen(true)}
-          className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 flex items-center gap-2"
-        >
-          <Plus className="w-5 h-5" />
-          Add Writer
-        </button>
+        {authApi.can('catalog:write') && (
+          <button
+            onClick={() => setIsFormOpen(true)}
+            className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 flex items-center gap-2"
+          >
+            <Plus className="w-5 h-5" />
+            Add Writer
+          </button>
+        )}
       </div>
 
       {/* Search Bar */}
@@ -176,14 +172,17 @@ export function Writers() {
           <input
             type="text"
             value={searchQuery}
-            onChange={(e) => setSearchQuery(e.target.value)}
+            onChange={(e) => {
+              setSearchQuery(e.target.value);
+              setCurrentPage(1);
+            }}
             placeholder="Search by name, nationality, or bio (min 3 characters)..."
             className="w-full pl-12 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
           />
         </div>
         {searchQuery && searchQuery.trim().length >= 3 && (
           <p className="text-gray-600 mt-2">
-            Found {filteredWriters.length} {filteredWriters.length === 1 ? 'writer' : 'writers'}
+            Found {totalWriters} {totalWriters === 1 ? 'writer' : 'writers'}
           </p>
         )}
         {searchQuery && searchQuery.trim().length > 0 && searchQuery.trim().length < 3 && (
@@ -289,17 +288,17 @@ export function Writers() {
           <div className="p-12 text-center text-gray-500">
             <p>Please enter at least 3 characters to search</p>
           </div>
-        ) : loading && filteredWriters.length === 0 ? (
+        ) : loading && writers.length === 0 ? (
           <div className="p-8 text-center text-gray-500">
             Loading writers...
           </div>
-        ) : filteredWriters.length === 0 ? (
+        ) : writers.length === 0 ? (
           <div className="p-8 text-center text-gray-500">
             No writers found matching your search
           </div>
         ) : (
           <div className="divide-y">
-            {filteredWriters.map((writer) => (
+            {writers.map((writer) => (
               <div 
                 key={writer.id} 
                 className="p-4 hover:bg-gray-50 flex justify-between items-start cursor-pointer"
@@ -327,13 +326,15 @@ export function Writers() {
                   </div>
                 </div>
                 <div className="flex gap-2 ml-4" onClick={(e) => e.stopPropagation()}>
-                  <button
-                    onClick={() => handleEdit(writer)}
-                    className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg"
-                    title="Edit writer"
-                  >
-                    <Edit2 className="w-4 h-4" />
-                  </button>
+                  {authApi.can('catalog:write') && (
+                    <button
+                      onClick={() => handleEdit(writer)}
+                      className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg"
+                      title="Edit writer"
+                    >
+                      <Edit2 className="w-4 h-4" />
+                    </button>
+                  )}
                 </div>
               </div>
             ))}
@@ -341,6 +342,14 @@ export function Writers() {
         )}
       </div>
 
+      <Pagination
+        page={currentPage}
+        pageSize={PAGE_SIZE}
+        total={totalWriters}
+        noun="writers"
+        onPageChange={setCurrentPage}
+      />
+
       {/* Writer Detail Modal */}
       {isDetailOpen && selectedWriter && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
@@ -397,7 +406,7 @@ export function Writers() {
                   <span className="w-1 h-5 bg-blue-600 rounded-full"></span>
                   Books
                   <span className="ml-2 px-2.5 py-0.5 bg-blue-100 text-blue-700 rounded-full text-sm font-medium">
-                    {writerBooks.length}
+                    {writerBooksTotal}
                   </span>
                 </h3>
                 {detailLoading ? (
@@ -464,17 +473,14 @@ export function Writers() {
 
                             {book.categoryIds.length > 0 && (
                               <div className="flex flex-wrap gap-2 mb-3">
-                                {book.categoryIds.slice(0, 3).map(catId => {
-                                  const category = categories.find(c => c.id === catId);
-                                  return category ? (
-                                    <span
-                                      key={catId}
-                                      className="text-purple-700 text-xs font-bold"
-                                    >
-                                      {category.name}
-                                    </span>
-                                  ) : null;
-                                })}
+                                {book.categoryIds.slice(0, 3).map((catId, index) => (
+                                  <span
+                                    key={catId}
+                                    className="text-purple-700 text-xs font-bold"
+                                  >
+                                    {book.categoryNames[index]}
+                                  </span>
+                                ))}
                                 {book.categoryIds.length > 3 && (
                                   <span className="text-gray-500 text-xs font-medium">
                                     +{book.categoryIds.length - 3} more
@@ -12,3 +12,7 @@ export const cacheConfig = {
   }
 };
 
+// Display Configuration
+export const displayConfig = {
+  currencySymbol: '$',
+};
@@ -1,4 +1,4 @@
-import type { Book, Category, Writer, User, BookIssue, BookRequest } from '../App';
+import type { Book, Category, Writer, User, BookIssue, BookRequest, StaffUser, StaffRole, Permission, AuditEntry, FineRule, FineSettings, FineEntry, RenewalSettings, Hold, HoldStatus, HoldSettings, BookCopy, LoanPolicy, LoanCheck, PatronType, LoanStatus, LossSettings, ReminderNotice, UpcomingReminder, ReminderLogEntry, PatronLookup, OpeningHours, LibraryClosure, CalendarSettings, Branch, BranchTransfer, TransferStatus, Patron, PatronProfile, PatronLoan, RequestStatus, Vendor, OrderStatus, PurchaseOrder, BudgetSummary, AcquisitionSettings, OwnerSummary, OwnershipType, OwnedBook, Reclaim, ReclaimStatus, DonationReceipt, OwnerSettings, BorrowerVisibility } from '../App';
 import { getCache, CacheKeys } from './cache';
 import { apiConfig } from '../config';
 
@@ -7,15 +7,83 @@ const API_BASE_URL = apiConfig.baseUrl;
 // Get cache instance
 const cache = getCache();
 
-const fetchWithAuth = async (url: string, options: RequestInit = {}) => {
+// ===== AUTH SESSION =====
+const SESSION_STORAGE_KEY = 'libraryAdminSession';
+
+type StaffSession = {
+  token: string;
+  refreshToken: string;
+  staff: StaffUser;
+};
+
+let refreshInFlight: Promise<boolean> | null = null;
+let sessionExpiredHandler: (() => void) | null = null;
+
+const getSession = (): StaffSession | null => {
+  try {
+    const stored = localStorage.getItem(SESSION_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : null;
+  } catch {
+    return null;
+  }
+};
+
+const saveSession = (session: StaffSession) => {
+  localStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(session));
+};
+
+const clearSession = () => {
+  localStorage.removeItem(SESSION_STORAGE_KEY);
+};
+
+/**
+ * Exchange the refresh token for a new token pair.
+ * Concurrent callers share one request so parallel 401s only refresh once.
+ */
+const refreshSession = (): Promise<boolean> => {
+  if (!refreshInFlight) {
+    refreshInFlight = (async () => {
+      const session = getSession();
+      if (!session) return false;
+
+      const response = await fetch(`${API_BASE_URL}/auth/refresh`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ refreshToken: session.refreshToken }),
+      }).catch(() => null);
+
+      if (!response?.ok) return false;
+
+      const { token, refreshToken, staff } = await response.json();
+      saveSession({ token, refreshToken, staff });
+      return true;
+    })().finally(() => {
+      refreshInFlight = null;
+    });
+  }
+  return refreshInFlight;
+};
+
+const fetchWithAuth = async (url: string, options: RequestInit = {}, canRetry = true): Promise<any> => {
+  const session = getSession();
   const response = await fetch(url, {
     ...options,
     headers: {
       'Content-Type': 'application/json',
+      ...(session ? { Authorization: `Bearer ${session.token}` } : {}),
       ...options.headers,
     },
   });
 
+  // Access token expired - refresh once and replay the request
+  if (response.status === 401 && session && canRetry) {
+    if (await refreshSession()) {
+      return fetchWithAuth(url, options, false);
+    }
+    clearSession();
+    sessionExpiredHandler?.();
+  }
+
   if (!response.ok) {
     const error = await response.json().catch(() => ({ error: 'Request failed' }));
     throw new Error(error.error || `HTTP ${response.status}`);
@@ -24,19 +92,238 @@ const fetchWithAuth = async (url: string, options: RequestInit = {}) => {
   return response.json();
 };
 
-// ===== BOOKS API =====
-export const booksApi = {
-  getAll: async (): Promise<Book[]> => {
-    const cacheKey = CacheKeys.allBooks();
-    const cached = cache.get<Book[]>(cacheKey);
-    if (cached) {
-      return cached;
+// ===== AUTH API =====
+export const authApi = {
+  /**
+   * Sign in to work at a branch (the library's first branch when none is given)
+   */
+  login: async (username: string, password: string, branchId?: string): Promise<StaffUser> => {
+    const { token, refreshToken, staff } = await fetchWithAuth(`${API_BASE_URL}/auth/login`, {
+      method: 'POST',
+      body: JSON.stringify({ username, password, branchId }),
+    }, false);
+    saveSession({ token, refreshToken, staff });
+    return staff;
+  },
+
+  /**
+   * Move the session to another branch; lists scoped to the old one are dropped
+   */
+  switchBranch: async (branchId: string): Promise<StaffUser> => {
+    const { token, refreshToken, staff } = await fetchWithAuth(`${API_BASE_URL}/auth/branch`, {
+      method: 'POST',
+      body: JSON.stringify({ branchId }),
+    });
+    saveSession({ token, refreshToken, staff });
+    cache.clear();
+    return staff;
+  },
+
+  logout: async (): Promise<void> => {
+    try {
+      await fetchWithAuth(`${API_BASE_URL}/auth/logout`, { method: 'POST' }, false);
+    } catch (error) {
+      // Session may already be invalid server-side; clearing locally is enough
+    } finally {
+      clearSession();
+      cache.clear();
     }
+  },
 
-    const books = await fetchWithAuth(`${API_BASE_URL}/books`);
-    cache.set(cacheKey, books);
-    return books;
+  me: (): Promise<StaffUser> => fetchWithAuth(`${API_BASE_URL}/auth/me`),
+
+  getCurrentStaff: (): StaffUser | null => getSession()?.staff ?? null,
+
+  /**
+   * Whether the signed-in staff member's role grants a permission.
+   * Only hides UI - the server enforces the same matrix on every route.
+   */
+  can: (permission: Permission): boolean =>
+    getSession()?.staff.permissions?.includes(permission) ?? false,
+
+  /**
+   * Register a callback for when the session can no longer be refreshed
+   */
+  onSessionExpired: (handler: (() => void) | null) => {
+    sessionExpiredHandler = handler;
   },
+};
+
+// ===== STAFF API =====
+export type StaffInput = {
+  username: string;
+  name: string;
+  role: StaffRole;
+  isActive: boolean;
+  password?: string;
+};
+
+export const staffApi = {
+  getAll: (): Promise<StaffUser[]> => fetchWithAuth(`${API_BASE_URL}/staff`),
+
+  getRoles: (): Promise<{ role: StaffRole; permissions: Permission[] }[]> =>
+    fetchWithAuth(`${API_BASE_URL}/roles`),
+
+  create: (staff: StaffInput): Promise<StaffUser> =>
+    fetchWithAuth(`${API_BASE_URL}/staff`, {
+      method: 'POST',
+      body: JSON.stringify(staff),
+    }),
+
+  update: (id: string, staff: StaffInput): Promise<StaffUser> =>
+    fetchWithAuth(`${API_BASE_URL}/staff/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(staff),
+    }),
+};
+
+// ===== AUDIT API =====
+// Not cached: the log changes with every write and is always read fresh
+export type AuditFilters = {
+  entity?: string;
+  entityId?: string;
+  actorId?: string;
+  action?: string;
+  from?: string;
+  to?: string;
+  limit?: number;
+  offset?: number;
+};
+
+export const auditApi = {
+  list: (filters: AuditFilters = {}): Promise<{ items: AuditEntry[]; total: number }> => {
+    const params = new URLSearchParams();
+    Object.entries(filters).forEach(([key, value]) => {
+      if (value !== undefined && value !== '') {
+        params.set(key, String(value));
+      }
+    });
+    return fetchWithAuth(`${API_BASE_URL}/audit?${params.toString()}`);
+  },
+
+  getFilters: (): Promise<{
+    entities: string[];
+    actors: { id: string; name: string }[];
+    actions: string[];
+  }> => fetchWithAuth(`${API_BASE_URL}/audit/filters`),
+};
+
+// ===== LISTS =====
+// One page of a list route's matches; total counts every match
+export type Page<T> = {
+  items: T[];
+  total: number;
+  limit: number;
+  offset: number;
+};
+
+// Sort fields in order, '-' in front for descending, e.g. ['title', '-publicationYear']
+export type ListParams = {
+  limit?: number;
+  offset?: number;
+  sort?: string[];
+};
+
+// Whether a book must be linked to any or all of the ids asked for
+export type MatchMode = 'any' | 'all';
+
+// Where a book came from: the library's own, or lent or given by a patron
+export type BookSource = 'library' | 'lent' | 'donated';
+
+export type BookFilters = ListParams & {
+  q?: string;
+  id?: string[];
+  title?: string;
+  isbn?: string;
+  categoryId?: string[];
+  categoryIdMatch?: MatchMode;
+  writerId?: string[];
+  writerIdMatch?: MatchMode;
+  ownerId?: string;
+  ownership?: OwnershipType;
+  source?: BookSource[];
+  bookType?: string[];
+  language?: string[];
+  available?: boolean;
+  publishedFrom?: number;
+  publishedTo?: number;
+};
+
+export type UserFilters = ListParams & {
+  q?: string;
+  id?: string[];
+  phone?: string;
+  email?: string;
+  cardNumber?: string;
+  patronType?: PatronType[];
+  owesFines?: boolean;
+};
+
+export type WriterFilters = ListParams & {
+  q?: string;
+  id?: string[];
+  name?: string;
+  nationality?: string;
+};
+
+export type IssueFilters = ListParams & {
+  q?: string;
+  status?: LoanStatus[];
+  bookId?: string;
+  userId?: string;
+  branchId?: string;
+  overdue?: boolean;
+  issuedFrom?: string;
+  issuedTo?: string;
+  dueFrom?: string;
+  dueTo?: string;
+};
+
+/**
+ * Query string for a list route: arrays become comma lists and empty values
+ * are left out, so the same filters always give the same string
+ */
+const toListQuery = (filters: Record<string, unknown>): string => {
+  const params = new URLSearchParams();
+  for (const [name, value] of Object.entries(filters)) {
+    if (value === undefined || value === null || value === '') continue;
+    if (Array.isArray(value)) {
+      if (value.length > 0) params.set(name, value.join(','));
+    } else {
+      params.set(name, String(value));
+    }
+  }
+  params.sort();
+  return params.toString();
+};
+
+/**
+ * Fetch one page of a list, cached under the list's key for that query
+ */
+const fetchPage = async <T, P extends Page<T> = Page<T>>(
+  path: string,
+  filters: Record<string, unknown>,
+  cacheKeyFor: (query: string) => string
+): Promise<P> => {
+  const query = toListQuery(filters);
+  const cacheKey = cacheKeyFor(query);
+  const cached = cache.get<P>(cacheKey);
+  if (cached) {
+    return cached;
+  }
+
+  const page = await fetchWithAuth(`${API_BASE_URL}/${path}?${query}`);
+  cache.set(cacheKey, page);
+  return page;
+};
+
+// ===== BOOKS API =====
+// Copy counts are derived from a book's copies on the server
+type BookInput = Omit<Book, 'totalCopies' | 'availableCopies' | 'writerNames' | 'categoryNames'>;
+
+export const booksApi = {
+  list: (filters: BookFilters = {}): Promise<Page<Book>> =>
+    fetchPage<Book>('books', filters, CacheKeys.bookList),
 
   getById: async (id: string): Promise<Book> => {
     const cacheKey = CacheKeys.book(id);
@@ -50,28 +337,28 @@ export const booksApi = {
     return book;
   },
 
-  create: async (book: Book): Promise<Book> => {
+  create: async (book: BookInput): Promise<Book> => {
     const created = await fetchWithAuth(`${API_BASE_URL}/books`, {
       method: 'POST',
       body: JSON.stringify(book),
     });
     
-    // Add to cached list
-    cache.addToArray(CacheKeys.allBooks(), created);
+    // Cached pages may now be out of order or count
+    cache.deletePattern(CacheKeys.patterns.allBooks);
     // Cache individual book
     cache.set(CacheKeys.book(created.id), created);
     
     return created;
   },
 
-  update: async (id: string, book: Book): Promise<Book> => {
+  update: async (id: string, book: BookInput): Promise<Book> => {
     const updated = await fetchWithAuth(`${API_BASE_URL}/books/${id}`, {
       method: 'PUT',
       body: JSON.stringify(book),
     });
     
-    // Update in cached list
-    cache.updateInArray(CacheKeys.allBooks(), updated);
+    // The change may move the book between cached pages
+    cache.deletePattern(CacheKeys.patterns.allBooks);
     // Update individual book cache
     cache.set(CacheKeys.book(id), updated);
     
@@ -83,15 +370,78 @@ export const booksApi = {
       method: 'DELETE',
     });
     
-    // Remove from cached list
-    cache.removeFromArray<Book>(CacheKeys.allBooks(), id);
-    // Remove individual book cache
-    cache.delete(CacheKeys.book(id));
+    cache.deletePattern(CacheKeys.patterns.allBooks);
     
     return result;
   },
 };
 
+// ===== SEARCH API =====
+// Fields a search looks in, from the most to the least weighty
+export type SearchField = 'title' | 'writers' | 'categories' | 'description' | 'bio';
+
+// A matched field's text (cut down around the match if long), split into
+// the words that matched and the text between them
+export type SearchHighlight = {
+  field: SearchField;
+  segments: { text: string; match: boolean }[];
+};
+
+export type SearchResult = {
+  book: Book;
+  relevance: number;
+  highlights: SearchHighlight[];
+};
+
+// Sorted by relevance unless sort says otherwise (by title without q);
+// narrowed by the book list's filters. Also sorts by createdAt and borrowCount.
+export type SearchParams = BookFilters & {
+  fields?: SearchField[];
+  facets?: boolean; // count them too
+};
+
+// What a search's books hold, for narrowing it: each value with its label
+// and how many books have it. A facet's counts ignore its own filter, unless
+// that filter must match all its values.
+export type SearchFacet = 'categories' | 'writers' | 'bookTypes' | 'languages' | 'decades' | 'availability' | 'sources';
+export type FacetValue = { value: string; label: string; count: number };
+
+export type SearchPage = Page<SearchResult> & {
+  facets?: Record<SearchFacet, FacetValue[]>;
+  suggestion?: string; // "did you mean", when nothing was found
+};
+
+// Looks like an ISBN or rack label (digits, dashes, maybe letters) rather than words
+export const BOOK_CODE_PATTERN = /^[\dA-Z]*\d[\dA-Z-]*$/i;
+
+// Titles and writers' names are matched forgiving typos, accents and script
+// (गोदान for godan); words of any length are searched for as word starts
+export const searchApi = {
+  books: (params: SearchParams): Promise<SearchPage> =>
+    fetchPage<SearchResult, SearchPage>('search', params, CacheKeys.bookSearch),
+
+  // Books for a picker: an ISBN or rack label is looked up in the book list,
+  // words are searched for in titles and writers' names
+  pickBooks: async (q: string, limit = 20): Promise<Book[]> =>
+    BOOK_CODE_PATTERN.test(q)
+      ? (await booksApi.list({ q, limit })).items
+      : (await searchApi.books({ q, fields: ['title', 'writers'], limit })).items.map(result => result.book),
+};
+
+// ===== STATS API =====
+export type LibraryStats = {
+  totalBooks: number;
+  totalCopies: number;
+  availableCopies: number;
+  issuedLoans: number;
+  totalCategories: number;
+  totalWriters: number;
+};
+
+export const statsApi = {
+  get: (): Promise<LibraryStats> => fetchWithAuth(`${API_BASE_URL}/stats`),
+};
+
 // ===== CATEGORIES API =====
 export const categoriesApi = {
   getAll: async (): Promise<Category[]> => {
@@ -147,16 +497,16 @@ export const categoriesApi = {
 
 // ===== WRITERS API =====
 export const writersApi = {
-  getAll: async (): Promise<Writer[]> => {
-    const cacheKey = CacheKeys.allWriters();
-    const cached = cache.get<Writer[]>(cacheKey);
-    if (cached) {
-      return cached;
-    }
+  list: (filters: WriterFilters = {}): Promise<Page<Writer>> =>
+    fetchPage<Writer>('writers', filters, CacheKeys.writerList),
 
-    const writers = await fetchWithAuth(`${API_BASE_URL}/writers`);
-    cache.set(cacheKey, writers);
-    return writers;
+  // The writers of a book, in the order of its writerIds
+  getByIds: async (ids: string[]): Promise<Writer[]> => {
+    if (ids.length === 0) {
+      return [];
+    }
+    const { items } = await writersApi.list({ id: ids, limit: ids.length });
+    return ids.map(id => items.find(writer => writer.id === id)).filter((writer): writer is Writer => !!writer);
   },
 
   create: async (writer: Writer): Promise<Writer> => {
@@ -165,8 +515,7 @@ export const writersApi = {
       body: JSON.stringify(writer),
     });
     
-    // Add to cached list
-    cache.addToArray(CacheKeys.allWriters(), created);
+    cache.deletePattern(CacheKeys.patterns.allWriters);
     cache.set(CacheKeys.writer(created.id), created);
     
     return created;
@@ -178,9 +527,10 @@ export const writersApi = {
       body: JSON.stringify(writer),
     });
     
-    // Update in cached list
-    cache.updateInArray(CacheKeys.allWriters(), updated);
+    cache.deletePattern(CacheKeys.patterns.allWriters);
     cache.set(CacheKeys.writer(id), updated);
+    // Book searches match writers' names
+    cache.deletePattern(CacheKeys.patterns.allBooks);
     
     return updated;
   },
@@ -190,9 +540,8 @@ export const writersApi = {
       method: 'DELETE',
     });
     
-    // Remove from cached list
-    cache.removeFromArray<Writer>(CacheKeys.allWriters(), id);
-    cache.delete(CacheKeys.writer(id));
+    cache.deletePattern(CacheKeys.patterns.allWriters);
+    cache.deletePattern(CacheKeys.patterns.allBooks);
     
     return result;
   },
@@ -200,17 +549,8 @@ export const writersApi = {
 
 // ===== USERS API =====
 export const usersApi = {
-  getAll: async (): Promise<User[]> => {
-    const cacheKey = CacheKeys.allUsers();
-    const cached = cache.get<User[]>(cacheKey);
-    if (cached) {
-      return cached;
-    }
-
-    const users = await fetchWithAuth(`${API_BASE_URL}/users`);
-    cache.set(cacheKey, users);
-    return users;
-  },
+  list: (filters: UserFilters = {}): Promise<Page<User>> =>
+    fetchPage<User>('users', filters, CacheKeys.userList),
 
   create: async (user: User): Promise<User> => {
     const created = await fetchWithAuth(`${API_BASE_URL}/users`, {
@@ -218,8 +558,7 @@ export const usersApi = {
       body: JSON.stringify(user),
     });
     
-    // Add to cached list
-    cache.addToArray(CacheKeys.allUsers(), created);
+    cache.deletePattern(CacheKeys.patterns.allUsers);
     cache.set(CacheKeys.user(created.id), created);
     
     return created;
@@ -231,149 +570,894 @@ export const usersApi = {
       body: JSON.stringify(user),
     });
     
-    // Update in cached list
-    cache.updateInArray(CacheKeys.allUsers(), updated);
+    cache.deletePattern(CacheKeys.patterns.allUsers);
     cache.set(CacheKeys.user(id), updated);
     
     return updated;
   },
 
+  // Scanned library card number, or a phone number or email
+  lookup: (code: string): Promise<PatronLookup> =>
+    fetchWithAuth(`${API_BASE_URL}/users/lookup?${new URLSearchParams({ code })}`),
+
   delete: async (id: string): Promise<{ success: boolean }> => {
     const result = await fetchWithAuth(`${API_BASE_URL}/users/${id}`, {
       method: 'DELETE',
     });
     
-    // Remove from cached list
-    cache.removeFromArray<User>(CacheKeys.allUsers(), id);
-    cache.delete(CacheKeys.user(id));
+    cache.deletePattern(CacheKeys.patterns.allUsers);
     
     return result;
   },
 };
 
 // ===== BOOK ISSUES API =====
+type BookCounts = Pick<Book, 'id' | 'totalCopies' | 'availableCopies' | 'branchAvailability'>;
+
+// A loan as the server returns it after issuing or returning
+export type IssueResult = BookIssue & {
+  holdId: string | null; // the hold this loan collected, if any
+  book: BookCounts;
+};
+
+export type ReturnResult = IssueResult & {
+  fine: FineCharge | null;
+  reversal: LedgerCharge | null; // replacement charge given back when a lost book turns up
+  hold: ReadyHold | null;
+  transfer: BranchTransfer | null; // requested to take the copy back to its home branch
+  reclaim: Reclaim | null; // the copy goes back to its owner
+};
+
+/**
+ * Bring the cached loans, book counts and fine balances in line with a return
+ */
+const applyReturn = async (request: Promise<ReturnResult>): Promise<ReturnResult> => {
+  const returned = await request.catch((error) => {
+    // Most often returned already from another screen - cached loans are stale
+    cache.deletePattern(CacheKeys.patterns.allIssues);
+    cache.deletePattern(CacheKeys.patterns.allBooks);
+    throw error;
+  });
+
+  // The loan may move between cached pages (e.g. off the open loans)
+  cache.deletePattern(CacheKeys.patterns.allIssues);
+  updateBookAvailableCopies(returned.book);
+
+  // A late return adds to the user's fine balance
+  const balanceChange = (returned.fine?.amount || 0) - (returned.reversal?.amount || 0);
+  if (balanceChange !== 0) {
+    cache.deletePattern(CacheKeys.patterns.allUsers);
+  }
+
+  return returned;
+};
+
 export const issuesApi = {
-  getAll: async (): Promise<BookIssue[]> => {
-    const cacheKey = CacheKeys.allIssues();
-    const cached = cache.get<BookIssue[]>(cacheKey);
-    if (cached) {
-      return cached;
-    }
+  list: (filters: IssueFilters = {}): Promise<Page<BookIssue>> =>
+    fetchPage<BookIssue>('issues', filters, CacheKeys.issueList),
 
-    const issues = await fetchWithAuth(`${API_BASE_URL}/issues`);
-    cache.set(cacheKey, issues);
-    return issues;
-  },
+  // Dry run of create: borrowing policy errors and the due date the loan would get
+  check: (userId: string, bookId: string): Promise<LoanCheck> =>
+    fetchWithAuth(`${API_BASE_URL}/issues/check?${new URLSearchParams({ userId, bookId })}`),
 
-  create: async (issue: BookIssue): Promise<BookIssue> => {
+  // Issue and due dates are set by the server from the borrowing policy.
+  // Reuse the same idempotencyKey when retrying one Issue click: the server
+  // then returns the loan it already made instead of lending a second copy.
+  create: async (
+    issue: Pick<BookIssue, 'bookId' | 'userId'> & { copyId?: string },
+    idempotencyKey: string
+  ): Promise<IssueResult> => {
     const created = await fetchWithAuth(`${API_BASE_URL}/issues`, {
       method: 'POST',
+      headers: { 'Idempotency-Key': idempotencyKey },
       body: JSON.stringify(issue),
+    }).catch((error) => {
+      // Typically another desk took the last copy - cached counts are stale
+      cache.deletePattern(CacheKeys.patterns.allBooks);
+      throw error;
     });
-    
-    // Add to cached issues list
-    cache.addToArray(CacheKeys.allIssues(), created);
-    
-    // Update only the specific book's availableCopies (decrement on issue)
-    updateBookAvailableCopies(created.bookId, -1);
+
+    cache.deletePattern(CacheKeys.patterns.allIssues);
+    updateBookAvailableCopies(created.book);
     
     return created;
   },
 
-  update: async (id: string, issue: BookIssue): Promise<BookIssue> => {
-    // Get current issue to check status change
-    const currentIssue = cache.get<BookIssue[]>(CacheKeys.allIssues())?.find(i => i.id === id);
-    
-    const updated = await fetchWithAuth(`${API_BASE_URL}/issues/${id}`, {
-      method: 'PUT',
-      body: JSON.stringify(issue),
+  // Issue several scanned copies to one patron in one go: either every copy
+  // is lent or, if one can't be, none are and the error names its barcode
+  issueBatch: async (userId: string, barcodes: string[], idempotencyKey: string): Promise<IssueResult[]> => {
+    const { loans } = await fetchWithAuth(`${API_BASE_URL}/issues/batch`, {
+      method: 'POST',
+      headers: { 'Idempotency-Key': idempotencyKey },
+      body: JSON.stringify({ userId, barcodes }),
+    }).catch((error) => {
+      cache.deletePattern(CacheKeys.patterns.allBooks);
+      throw error;
     });
-    
-    // Update in cached issues list
-    cache.updateInArray(CacheKeys.allIssues(), updated);
-    
-    // If status changed to 'returned', increment availableCopies
-    if (currentIssue?.status === 'issued' && updated.status === 'returned') {
-      updateBookAvailableCopies(updated.bookId, 1);
+
+    cache.deletePattern(CacheKeys.patterns.allIssues);
+    cache.deletePattern(CacheKeys.patterns.allBooks);
+
+    return loans;
+  },
+
+  // Returns are only ever made here: a loan that's already returned is
+  // refused, so retrying can't count the copy back twice
+  return: async (id: string): Promise<ReturnResult> =>
+    applyReturn(fetchWithAuth(`${API_BASE_URL}/issues/${id}/return`, { method: 'POST' })),
+
+  // Return whichever loan a scanned copy is out on
+  returnByBarcode: async (barcode: string): Promise<ReturnResult> =>
+    applyReturn(fetchWithAuth(`${API_BASE_URL}/returns`, {
+      method: 'POST',
+      body: JSON.stringify({ barcode }),
+    })),
+
+  renew: async (id: string): Promise<BookIssue> => {
+    const renewed = await fetchWithAuth(`${API_BASE_URL}/issues/${id}/renew`, {
+      method: 'POST',
+    });
+
+    // New due date and renewal count
+    cache.deletePattern(CacheKeys.patterns.allIssues);
+
+    return renewed;
+  },
+
+  // Mark a loan lost, damaged, claimed returned or written off. amount
+  // overrides the library's replacement or damage charge.
+  setStatus: async (
+    id: string,
+    change: { status: Exclude<LoanStatus, 'issued' | 'returned'>; amount?: number | null; note?: string }
+  ): Promise<IssueResult & { charges: LedgerCharge[]; reversal: LedgerCharge | null }> => {
+    const updated = await fetchWithAuth(`${API_BASE_URL}/issues/${id}/status`, {
+      method: 'POST',
+      body: JSON.stringify(change),
+    });
+
+    cache.deletePattern(CacheKeys.patterns.allIssues);
+    updateBookAvailableCopies(updated.book);
+
+    const balanceChange = updated.charges.reduce((sum: number, charge: LedgerCharge) => sum + charge.amount, 0)
+      - (updated.reversal?.amount || 0);
+    if (balanceChange !== 0) {
+      cache.deletePattern(CacheKeys.patterns.allUsers);
     }
-    
+
     return updated;
   },
+
+  getLossSettings: (): Promise<LossSettings> =>
+    fetchWithAuth(`${API_BASE_URL}/loss-settings`),
+
+  updateLossSettings: (settings: LossSettings): Promise<LossSettings> =>
+    fetchWithAuth(`${API_BASE_URL}/loss-settings`, {
+      method: 'PUT',
+      body: JSON.stringify(settings),
+    }),
+
+  getRenewalSettings: (): Promise<RenewalSettings> =>
+    fetchWithAuth(`${API_BASE_URL}/renewal-settings`),
+
+  updateRenewalSettings: (settings: RenewalSettings): Promise<RenewalSettings> =>
+    fetchWithAuth(`${API_BASE_URL}/renewal-settings`, {
+      method: 'PUT',
+      body: JSON.stringify(settings),
+    }),
 };
 
 /**
- * Helper to update a specific book's availableCopies in cache
+ * Helper to update a specific book's copy counts in cache, using the counts
+ * the server sent back after issuing or returning (never adjusted locally)
  */
-function updateBookAvailableCopies(bookId: string, delta: number): void {
-  // Update in all books list
-  const allBooks = cache.get<Book[]>(CacheKeys.allBooks());
-  if (allBooks) {
-    const updatedBooks = allBooks.map(book => {
-      if (book.id === bookId) {
-        return { ...book, availableCopies: book.availableCopies + delta };
-      }
-      return book;
-    });
-    cache.set(CacheKeys.allBooks(), updatedBooks);
-  }
-  
-  // Update individual book cache
+function updateBookAvailableCopies(counts: BookCounts): void {
+  const { id: bookId, ...copyCounts } = counts;
   const book = cache.get<Book>(CacheKeys.book(bookId));
+
+  // Cached pages may be sorted or filtered by availability
+  cache.deletePattern(CacheKeys.patterns.allBooks);
+
+  // Keep the individual book cache
   if (book) {
-    cache.set(CacheKeys.book(bookId), { ...book, availableCopies: book.availableCopies + delta });
+    cache.set(CacheKeys.book(bookId), { ...book, ...copyCounts });
   }
 }
 
-// ===== BOOK REQUESTS API =====
-export const bookRequestsApi = {
-  getAll: async (): Promise<BookRequest[]> => {
-    const cacheKey = CacheKeys.allBookRequests();
-    const cached = cache.get<BookRequest[]>(cacheKey);
-    if (cached) {
-      return cached;
-    }
+// ===== COPIES API =====
+export const copiesApi = {
+  getByBook: (bookId: string): Promise<BookCopy[]> => fetchWithAuth(`${API_BASE_URL}/books/${bookId}/copies`),
 
-    const requests = await fetchWithAuth(`${API_BASE_URL}/book-requests`);
-    cache.set(cacheKey, requests);
-    return requests;
-  },
+  lookup: (barcode: string): Promise<BookCopy & { bookTitle: string }> =>
+    fetchWithAuth(`${API_BASE_URL}/copies/lookup?${new URLSearchParams({ barcode })}`),
 
-  create: async (request: BookRequest): Promise<BookRequest> => {
-    const created = await fetchWithAuth(`${API_BASE_URL}/book-requests`, {
+  create: async (bookId: string, copy: Partial<BookCopy>): Promise<BookCopy> => {
+    const created = await fetchWithAuth(`${API_BASE_URL}/books/${bookId}/copies`, {
       method: 'POST',
-      body: JSON.stringify(request),
+      body: JSON.stringify(copy),
     });
-    
-    // Add to cached list
-    cache.addToArray(CacheKeys.allBookRequests(), created);
-    
+
+    // The book's copy counts are derived from its copies
+    cache.deletePattern(CacheKeys.patterns.allBooks);
+
     return created;
   },
 
-  update: async (id: string, request: BookRequest): Promise<BookRequest> => {
-    const updated = await fetchWithAuth(`${API_BASE_URL}/book-requests/${id}`, {
+  update: async (id: string, copy: Partial<BookCopy>): Promise<BookCopy> => {
+    const updated = await fetchWithAuth(`${API_BASE_URL}/copies/${id}`, {
       method: 'PUT',
-      body: JSON.stringify(request),
+      body: JSON.stringify(copy),
     });
-    
-    // Update in cached list
-    cache.updateInArray(CacheKeys.allBookRequests(), updated);
-    
+    cache.deletePattern(CacheKeys.patterns.allBooks);
     return updated;
   },
 
   delete: async (id: string): Promise<{ success: boolean }> => {
-    const result = await fetchWithAuth(`${API_BASE_URL}/book-requests/${id}`, {
-      method: 'DELETE',
+    const result = await fetchWithAuth(`${API_BASE_URL}/copies/${id}`, { method: 'DELETE' });
+    cache.deletePattern(CacheKeys.patterns.allBooks);
+    return result;
+  },
+};
+
+// ===== HOLDS API =====
+// Returned with a loan when the copy goes to the hold shelf
+export type ReadyHold = {
+  id: string;
+  userId: string;
+  userName: string;
+  copyBarcode: string | null;
+  expiresAt: string;
+};
+
+export const holdsApi = {
+  getAll: (filters: { bookId?: string; userId?: string; status?: HoldStatus } = {}): Promise<Hold[]> => {
+    const params = new URLSearchParams(
+      Object.entries(filters).filter(([, value]) => value) as [string, string][]
+    );
+    return fetchWithAuth(`${API_BASE_URL}/holds?${params.toString()}`);
+  },
+
+  // Waiting holds per book id (public)
+  getCounts: (): Promise<Record<string, number>> => fetchWithAuth(`${API_BASE_URL}/holds/counts`),
+
+  place: (bookId: string, userId: string): Promise<Hold> =>
+    fetchWithAuth(`${API_BASE_URL}/holds`, {
+      method: 'POST',
+      body: JSON.stringify({ bookId, userId }),
+    }),
+
+  cancel: async (id: string): Promise<{ success: boolean }> => {
+    const result = await fetchWithAuth(`${API_BASE_URL}/holds/${id}`, { method: 'DELETE' });
+
+    // Cancelling a ready hold can put its copy back on the shelf
+    cache.deletePattern(CacheKeys.patterns.allBooks);
+
+    return result;
+  },
+
+  getSettings: (): Promise<HoldSettings> => fetchWithAuth(`${API_BASE_URL}/hold-settings`),
+
+  updateSettings: (settings: HoldSettings): Promise<HoldSettings> =>
+    fetchWithAuth(`${API_BASE_URL}/hold-settings`, {
+      method: 'PUT',
+      body: JSON.stringify(settings),
+    }),
+};
+
+// ===== FINES API =====
+export type FineCharge = {
+  id: string;
+  amount: number;
+  daysLate: number;
+};
+
+// Charge or reversal added to the ledger when a loan is lost, damaged, etc.
+export type LedgerCharge = {
+  id: string;
+  amount: number;
+  chargeType: 'late' | 'replacement' | 'damage';
+  note: string;
+};
+
+export type FineRuleInput = Omit<FineRule, 'id' | 'categoryName'>;
+
+export const finesApi = {
+  getRules: (): Promise<FineRule[]> => fetchWithAuth(`${API_BASE_URL}/fine-rules`),
+
+  createRule: (rule: FineRuleInput): Promise<FineRule> =>
+    fetchWithAuth(`${API_BASE_URL}/fine-rules`, {
+      method: 'POST',
+      body: JSON.stringify(rule),
+    }),
+
+  updateRule: (id: string, rule: FineRuleInput): Promise<FineRule> =>
+    fetchWithAuth(`${API_BASE_URL}/fine-rules/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(rule),
+    }),
+
+  deleteRule: (id: string): Promise<{ success: boolean }> =>
+    fetchWithAuth(`${API_BASE_URL}/fine-rules/${id}`, { method: 'DELETE' }),
+
+  getSettings: (): Promise<FineSettings> => fetchWithAuth(`${API_BASE_URL}/fine-settings`),
+
+  updateSettings: (settings: FineSettings): Promise<FineSettings> =>
+    fetchWithAuth(`${API_BASE_URL}/fine-settings`, {
+      method: 'PUT',
+      body: JSON.stringify(settings),
+    }),
+
+  getLedger: (userId: string): Promise<{ balance: number; entries: FineEntry[] }> =>
+    fetchWithAuth(`${API_BASE_URL}/users/${userId}/fines`),
+
+  recordPayment: async (userId: string, amount: number, note?: string): Promise<{ balance: number }> => {
+    const result = await fetchWithAuth(`${API_BASE_URL}/users/${userId}/fines/payments`, {
+      method: 'POST',
+      body: JSON.stringify({ amount, note }),
     });
-    
-    // Remove from cached list
-    cache.removeFromArray<BookRequest>(CacheKeys.allBookRequests(), id);
-    
+    // Cached user pages show (and may be sorted by) the fine balance
+    cache.deletePattern(CacheKeys.patterns.allUsers);
+    return result;
+  },
+
+  waive: async (userId: string, amount: number, note: string): Promise<{ balance: number }> => {
+    const result = await fetchWithAuth(`${API_BASE_URL}/users/${userId}/fines/waivers`, {
+      method: 'POST',
+      body: JSON.stringify({ amount, note }),
+    });
+    cache.deletePattern(CacheKeys.patterns.allUsers);
     return result;
   },
 };
 
+// ===== BORROWING POLICIES API =====
+export type LoanPolicyInput = Omit<LoanPolicy, 'id' | 'categoryName'>;
+
+export const loanPoliciesApi = {
+  getAll: (): Promise<LoanPolicy[]> => fetchWithAuth(`${API_BASE_URL}/loan-policies`),
+
+  create: (policy: LoanPolicyInput): Promise<LoanPolicy> =>
+    fetchWithAuth(`${API_BASE_URL}/loan-policies`, {
+      method: 'POST',
+      body: JSON.stringify(policy),
+    }),
+
+  update: (id: string, policy: LoanPolicyInput): Promise<LoanPolicy> =>
+    fetchWithAuth(`${API_BASE_URL}/loan-policies/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(policy),
+    }),
+
+  delete: (id: string): Promise<{ success: boolean }> =>
+    fetchWithAuth(`${API_BASE_URL}/loan-policies/${id}`, { method: 'DELETE' }),
+
+  getPatronTypes: (): Promise<PatronType[]> => fetchWithAuth(`${API_BASE_URL}/patron-types`),
+};
+
+// ===== REMINDERS API =====
+export type ReminderNoticeInput = Omit<ReminderNotice, 'id' | 'sentCount'>;
+
+export const remindersApi = {
+  // Notices plus the placeholders their templates may use and where mail goes
+  getNotices: (): Promise<{
+    notices: ReminderNotice[];
+    fields: Record<string, string>;
+    transport: { type: string; from: string };
+  }> => fetchWithAuth(`${API_BASE_URL}/reminder-notices`),
+
+  createNotice: (notice: ReminderNoticeInput): Promise<ReminderNotice> =>
+    fetchWithAuth(`${API_BASE_URL}/reminder-notices`, {
+      method: 'POST',
+      body: JSON.stringify(notice),
+    }),
+
+  updateNotice: (id: string, notice: ReminderNoticeInput): Promise<ReminderNotice> =>
+    fetchWithAuth(`${API_BASE_URL}/reminder-notices/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(notice),
+    }),
+
+  deleteNotice: (id: string): Promise<{ success: boolean }> =>
+    fetchWithAuth(`${API_BASE_URL}/reminder-notices/${id}`, { method: 'DELETE' }),
+
+  sendTest: (id: string, to: string): Promise<{ success: boolean; messageId: string | null }> =>
+    fetchWithAuth(`${API_BASE_URL}/reminder-notices/${id}/test`, {
+      method: 'POST',
+      body: JSON.stringify({ to }),
+    }),
+
+  getUpcoming: (days = 7): Promise<UpcomingReminder[]> =>
+    fetchWithAuth(`${API_BASE_URL}/reminders/preview?days=${days}`),
+
+  getLog: (filters: { status?: string; userId?: string } = {}): Promise<ReminderLogEntry[]> => {
+    const params = new URLSearchParams(
+      Object.entries(filters).filter(([, value]) => value) as [string, string][]
+    );
+    return fetchWithAuth(`${API_BASE_URL}/reminders/log?${params.toString()}`);
+  },
+
+  sendNow: (): Promise<{ sent: number; failed: number }> =>
+    fetchWithAuth(`${API_BASE_URL}/reminders/send`, { method: 'POST' }),
+};
+
+// ===== CALENDAR API =====
+export const calendarApi = {
+  get: (): Promise<{ hours: OpeningHours[]; closures: LibraryClosure[]; settings: CalendarSettings }> =>
+    fetchWithAuth(`${API_BASE_URL}/calendar`),
+
+  saveHours: (hours: OpeningHours[]): Promise<OpeningHours[]> =>
+    fetchWithAuth(`${API_BASE_URL}/calendar/hours`, {
+      method: 'PUT',
+      body: JSON.stringify({ hours }),
+    }),
+
+  saveSettings: (settings: CalendarSettings): Promise<CalendarSettings> =>
+    fetchWithAuth(`${API_BASE_URL}/calendar/settings`, {
+      method: 'PUT',
+      body: JSON.stringify(settings),
+    }),
+
+  addClosure: (date: string, reason: string): Promise<LibraryClosure> =>
+    fetchWithAuth(`${API_BASE_URL}/calendar/closures`, {
+      method: 'POST',
+      body: JSON.stringify({ date, reason }),
+    }),
+
+  removeClosure: (id: string): Promise<{ success: boolean }> =>
+    fetchWithAuth(`${API_BASE_URL}/calendar/closures/${id}`, { method: 'DELETE' }),
+};
+
+// ===== BRANCHES API =====
+export type BranchInput = Omit<Branch, 'id'>;
+
+export const branchesApi = {
+  // Public, so the sign-in page can offer the active branches
+  getAll: (includeInactive = false): Promise<Branch[]> =>
+    fetchWithAuth(`${API_BASE_URL}/branches${includeInactive ? '?includeInactive=true' : ''}`),
+
+  create: (branch: BranchInput): Promise<Branch> =>
+    fetchWithAuth(`${API_BASE_URL}/branches`, {
+      method: 'POST',
+      body: JSON.stringify(branch),
+    }),
+
+  update: async (id: string, branch: BranchInput): Promise<Branch> => {
+    const updated = await fetchWithAuth(`${API_BASE_URL}/branches/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(branch),
+    });
+    // Book lists name the branches in their availability
+    cache.deletePattern(CacheKeys.patterns.allBooks);
+    return updated;
+  },
+};
+
+// ===== TRANSFERS API =====
+const transferAction = async (id: string, action: 'send' | 'receive' | 'cancel'): Promise<BranchTransfer> => {
+  const transfer = await fetchWithAuth(`${API_BASE_URL}/transfers/${id}/${action}`, { method: 'POST' });
+  // Sending and receiving change what's on each branch's shelves
+  cache.deletePattern(CacheKeys.patterns.allBooks);
+  return transfer;
+};
+
+export const transfersApi = {
+  getAll: (filters: { branchId?: string; status?: TransferStatus } = {}): Promise<BranchTransfer[]> => {
+    const params = new URLSearchParams();
+    if (filters.branchId) params.set('branchId', filters.branchId);
+    if (filters.status) params.set('status', filters.status);
+    return fetchWithAuth(`${API_BASE_URL}/transfers?${params}`);
+  },
+
+  request: (copyId: string, toBranchId: string, reason?: string): Promise<BranchTransfer> =>
+    fetchWithAuth(`${API_BASE_URL}/transfers`, {
+      method: 'POST',
+      body: JSON.stringify({ copyId, toBranchId, reason }),
+    }),
+
+  send: (id: string) => transferAction(id, 'send'),
+
+  receive: (id: string) => transferAction(id, 'receive'),
+
+  cancel: (id: string) => transferAction(id, 'cancel'),
+};
+
+// ===== BOOK REQUESTS API =====
+export type BookRequestFilters = {
+  status?: RequestStatus;
+  categoryId?: string;
+  userId?: string;
+  q?: string;
+  from?: string;
+  to?: string;
+};
+
+// A decision on a request and the pending requests for the same title
+export type RequestDecision = {
+  requests: BookRequest[];
+  notified: number;     // requesters emailed
+  notifyFailed: number; // emails that couldn't be sent
+};
+
+// Not cached: the queue changes as other staff work through it
+export const bookRequestsApi = {
+  getAll: (filters: BookRequestFilters = {}): Promise<BookRequest[]> => {
+    const params = new URLSearchParams(
+      Object.entries(filters).filter(([, value]) => value) as [string, string][]
+    );
+    return fetchWithAuth(`${API_BASE_URL}/book-requests?${params.toString()}`);
+  },
+
+  // Public request form; anonymous (signed-in patrons use patronApi.createRequest)
+  create: (request: BookRequest): Promise<BookRequest> =>
+    fetchWithAuth(`${API_BASE_URL}/book-requests`, {
+      method: 'POST',
+      body: JSON.stringify(request),
+    }),
+
+  update: (id: string, request: BookRequest): Promise<BookRequest> =>
+    fetchWithAuth(`${API_BASE_URL}/book-requests/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(request),
+    }),
+
+  fulfil: (id: string, bookId: string, includeDuplicates = false): Promise<RequestDecision> =>
+    fetchWithAuth(`${API_BASE_URL}/book-requests/${id}/fulfil`, {
+      method: 'POST',
+      body: JSON.stringify({ bookId, includeDuplicates }),
+    }),
+
+  reject: (id: string, reason: string, includeDuplicates = false): Promise<RequestDecision> =>
+    fetchWithAuth(`${API_BASE_URL}/book-requests/${id}/reject`, {
+      method: 'POST',
+      body: JSON.stringify({ reason, includeDuplicates }),
+    }),
+
+  reopen: (id: string): Promise<RequestDecision> =>
+    fetchWithAuth(`${API_BASE_URL}/book-requests/${id}/reopen`, { method: 'POST' }),
+
+  delete: (id: string): Promise<{ success: boolean }> =>
+    fetchWithAuth(`${API_BASE_URL}/book-requests/${id}`, { method: 'DELETE' }),
+};
+
+// ===== ACQUISITIONS API =====
+export type VendorInput = Omit<Vendor, 'id'>;
+
+export type PurchaseOrderInput = {
+  vendorId: string;
+  branchId: string;
+  fiscalYear: number;
+  vendorReference?: string | null;
+  notes?: string | null;
+};
+
+export type PurchaseOrderLineInput = {
+  title: string;
+  isbn?: string | null;
+  authorName?: string | null;
+  categoryId?: string | null;
+  bookType?: string | null;
+  unitPrice: number;
+  quantity: number;
+  bookId?: string | null;
+};
+
+export type QuoteImport = {
+  order: PurchaseOrder;
+  imported: number; // lines added
+  skipped: number;  // rows without a title, or not recommended
+};
+
+export type OrderReceipt = {
+  order: PurchaseOrder;
+  copiesAdded: number;
+  holdsReady: number;        // new copies set aside for patrons waiting
+  requestsFulfilled: number;
+  notified: number;          // requesters emailed
+  notifyFailed: number;
+};
+
+export const vendorsApi = {
+  getAll: (includeInactive = false): Promise<Vendor[]> =>
+    fetchWithAuth(`${API_BASE_URL}/vendors${includeInactive ? '?includeInactive=true' : ''}`),
+
+  create: (vendor: VendorInput): Promise<Vendor> =>
+    fetchWithAuth(`${API_BASE_URL}/vendors`, {
+      method: 'POST',
+      body: JSON.stringify(vendor),
+    }),
+
+  update: (id: string, vendor: VendorInput): Promise<Vendor> =>
+    fetchWithAuth(`${API_BASE_URL}/vendors/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(vendor),
+    }),
+};
+
+// Not cached: orders change as deliveries come in
+export const purchaseOrdersApi = {
+  getAll: (filters: { status?: OrderStatus; vendorId?: string; fiscalYear?: number } = {}): Promise<PurchaseOrder[]> => {
+    const params = new URLSearchParams();
+    if (filters.status) params.set('status', filters.status);
+    if (filters.vendorId) params.set('vendorId', filters.vendorId);
+    if (filters.fiscalYear) params.set('fiscalYear', String(filters.fiscalYear));
+    return fetchWithAuth(`${API_BASE_URL}/purchase-orders?${params}`);
+  },
+
+  getById: (id: string): Promise<PurchaseOrder> =>
+    fetchWithAuth(`${API_BASE_URL}/purchase-orders/${id}`),
+
+  /**
+   * Start a draft order, with a line for each of the book requests given
+   */
+  create: (order: PurchaseOrderInput, requestIds: string[] = []): Promise<PurchaseOrder> =>
+    fetchWithAuth(`${API_BASE_URL}/purchase-orders`, {
+      method: 'POST',
+      body: JSON.stringify({ ...order, requestIds }),
+    }),
+
+  update: (id: string, order: PurchaseOrderInput): Promise<PurchaseOrder> =>
+    fetchWithAuth(`${API_BASE_URL}/purchase-orders/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(order),
+    }),
+
+  addLine: (id: string, line: PurchaseOrderLineInput): Promise<PurchaseOrder> =>
+    fetchWithAuth(`${API_BASE_URL}/purchase-orders/${id}/lines`, {
+      method: 'POST',
+      body: JSON.stringify(line),
+    }),
+
+  addRequests: (id: string, requestIds: string[]): Promise<PurchaseOrder> =>
+    fetchWithAuth(`${API_BASE_URL}/purchase-orders/${id}/lines/from-requests`, {
+      method: 'POST',
+      body: JSON.stringify({ requestIds }),
+    }),
+
+  /**
+   * Add a line for each title in a vendor's quote spreadsheet
+   */
+  importQuote: (id: string, file: File, recommendedOnly = false): Promise<QuoteImport> =>
+    fetchWithAuth(`${API_BASE_URL}/purchase-orders/${id}/lines/import?recommendedOnly=${recommendedOnly}`, {
+      method: 'POST',
+      headers: { 'Content-Type': file.type || 'application/octet-stream' },
+      body: file,
+    }),
+
+  updateLine: (id: string, lineId: string, line: PurchaseOrderLineInput): Promise<PurchaseOrder> =>
+    fetchWithAuth(`${API_BASE_URL}/purchase-orders/${id}/lines/${lineId}`, {
+      method: 'PUT',
+      body: JSON.stringify(line),
+    }),
+
+  removeLine: (id: string, lineId: string): Promise<PurchaseOrder> =>
+    fetchWithAuth(`${API_BASE_URL}/purchase-orders/${id}/lines/${lineId}`, { method: 'DELETE' }),
+
+  place: (id: string): Promise<PurchaseOrder> =>
+    fetchWithAuth(`${API_BASE_URL}/purchase-orders/${id}/place`, { method: 'POST' }),
+
+  cancel: (id: string): Promise<PurchaseOrder> =>
+    fetchWithAuth(`${API_BASE_URL}/purchase-orders/${id}/cancel`, { method: 'POST' }),
+
+  receive: async (id: string, receipts: { lineId: string; quantity: number }[]): Promise<OrderReceipt> => {
+    const result = await fetchWithAuth(`${API_BASE_URL}/purchase-orders/${id}/receive`, {
+      method: 'POST',
+      body: JSON.stringify({ receipts }),
+    });
+    // Received copies are new stock on the shelf
+    cache.deletePattern(CacheKeys.patterns.allBooks);
+    return result;
+  },
+};
+
+export const budgetsApi = {
+  getSummary: (fiscalYear?: number): Promise<BudgetSummary> =>
+    fetchWithAuth(`${API_BASE_URL}/budgets${fiscalYear ? `?fiscalYear=${fiscalYear}` : ''}`),
+
+  /**
+   * Set a category's budget for a fiscal year; null removes it
+   */
+  set: (fiscalYear: number, categoryId: string, amount: number | null): Promise<{ success: boolean }> =>
+    fetchWithAuth(`${API_BASE_URL}/budgets`, {
+      method: 'PUT',
+      body: JSON.stringify({ fiscalYear, categoryId, amount }),
+    }),
+
+  getSettings: (): Promise<AcquisitionSettings> =>
+    fetchWithAuth(`${API_BASE_URL}/acquisitions/settings`),
+
+  saveSettings: (fiscalYearStartMonth: number): Promise<AcquisitionSettings> =>
+    fetchWithAuth(`${API_BASE_URL}/acquisitions/settings`, {
+      method: 'PUT',
+      body: JSON.stringify({ fiscalYearStartMonth }),
+    }),
+};
+
+// ===== OWNERS API =====
+// Donation receipts cover everything given unless a period is asked for
+const donationPeriod = (from?: string, to?: string) => {
+  const params = new URLSearchParams();
+  if (from) params.set('from', from);
+  if (to) params.set('to', to);
+  const query = params.toString();
+  return query ? `?${query}` : '';
+};
+
+export const ownersApi = {
+  getAll: (): Promise<OwnerSummary[]> => fetchWithAuth(`${API_BASE_URL}/owners`),
+
+  getById: (id: string): Promise<{ owner: Pick<User, 'id' | 'name' | 'email' | 'phone'>; books: OwnedBook[] }> =>
+    fetchWithAuth(`${API_BASE_URL}/owners/${id}`),
+
+  getDonations: (id: string, from?: string, to?: string): Promise<DonationReceipt> =>
+    fetchWithAuth(`${API_BASE_URL}/owners/${id}/donations${donationPeriod(from, to)}`),
+
+  getSettings: (): Promise<OwnerSettings> => fetchWithAuth(`${API_BASE_URL}/owner-settings`),
+
+  saveSettings: (borrowerVisibility: BorrowerVisibility): Promise<OwnerSettings> =>
+    fetchWithAuth(`${API_BASE_URL}/owner-settings`, {
+      method: 'PUT',
+      body: JSON.stringify({ borrowerVisibility }),
+    }),
+};
+
+/**
+ * Reclaims take copies out of circulation, so cached availability is dropped
+ */
+const reclaimAction = async (id: string, action: 'complete' | 'cancel'): Promise<Reclaim> => {
+  const reclaim = await fetchWithAuth(`${API_BASE_URL}/reclaims/${id}/${action}`, { method: 'POST' });
+  cache.deletePattern(CacheKeys.patterns.allBooks);
+  return reclaim;
+};
+
+export const reclaimsApi = {
+  getAll: (status?: ReclaimStatus): Promise<Reclaim[]> =>
+    fetchWithAuth(`${API_BASE_URL}/reclaims${status ? `?status=${status}` : ''}`),
+
+  /**
+   * Start handing a lent copy back to its owner; its borrower, if any, is
+   * emailed to return it
+   */
+  open: async (copyId: string, reason?: string): Promise<Reclaim & { borrowerNotified: boolean }> => {
+    const reclaim = await fetchWithAuth(`${API_BASE_URL}/copies/${copyId}/reclaim`, {
+      method: 'POST',
+      body: JSON.stringify({ reason }),
+    });
+    cache.deletePattern(CacheKeys.patterns.allBooks);
+    return reclaim;
+  },
+
+  complete: (id: string): Promise<Reclaim> => reclaimAction(id, 'complete'),
+
+  cancel: (id: string): Promise<Reclaim> => reclaimAction(id, 'cancel'),
+
+  notify: (id: string): Promise<Reclaim> =>
+    fetchWithAuth(`${API_BASE_URL}/reclaims/${id}/notify`, { method: 'POST' }),
+};
+
+// ===== PATRON PORTAL API =====
+// Patrons have their own session, separate from staff: one token, no refresh
+const PATRON_SESSION_STORAGE_KEY = 'libraryPatronSession';
+
+type PatronSession = {
+  token: string;
+  patron: Patron;
+};
+
+let patronSessionExpiredHandler: (() => void) | null = null;
+
+const getPatronSession = (): PatronSession | null => {
+  try {
+    const stored = localStorage.getItem(PATRON_SESSION_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : null;
+  } catch {
+    return null;
+  }
+};
+
+const fetchAsPatron = async (url: string, options: RequestInit = {}): Promise<any> => {
+  const session = getPatronSession();
+  const response = await fetch(url, {
+    ...options,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(session ? { Authorization: `Bearer ${session.token}` } : {}),
+      ...options.headers,
+    },
+  });
+
+  if (response.status === 401 && session) {
+    localStorage.removeItem(PATRON_SESSION_STORAGE_KEY);
+    patronSessionExpiredHandler?.();
+  }
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Request failed' }));
+    throw new Error(error.error || `HTTP ${response.status}`);
+  }
+
+  return response.json();
+};
+
+export type PatronRequestInput = {
+  bookName: string;
+  categoryId?: string | null;
+  authorName?: string;
+};
+
+export const patronApi = {
+  /**
+   * Ask for a sign-in code. The answer is the same whether or not the
+   * contact is on a library account.
+   */
+  requestCode: (contact: string): Promise<{ message: string; codeLength: number; expiresInMinutes: number }> =>
+    fetchAsPatron(`${API_BASE_URL}/patron/login/code`, {
+      method: 'POST',
+      body: JSON.stringify({ contact }),
+    }),
+
+  login: async (contact: string, code: string): Promise<Patron> => {
+    const { token, patron } = await fetchAsPatron(`${API_BASE_URL}/patron/login`, {
+      method: 'POST',
+      body: JSON.stringify({ contact, code }),
+    });
+    localStorage.setItem(PATRON_SESSION_STORAGE_KEY, JSON.stringify({ token, patron }));
+    return patron;
+  },
+
+  logout: () => localStorage.removeItem(PATRON_SESSION_STORAGE_KEY),
+
+  getCurrentPatron: (): Patron | null => getPatronSession()?.patron ?? null,
+
+  /**
+   * Register a callback for when the patron's session runs out
+   */
+  onSessionExpired: (handler: (() => void) | null) => {
+    patronSessionExpiredHandler = handler;
+  },
+
+  me: (): Promise<PatronProfile> => fetchAsPatron(`${API_BASE_URL}/patron/me`),
+
+  getLoans: (): Promise<{ current: PatronLoan[]; history: PatronLoan[] }> =>
+    fetchAsPatron(`${API_BASE_URL}/patron/loans`),
+
+  renew: (loanId: string): Promise<PatronLoan> =>
+    fetchAsPatron(`${API_BASE_URL}/patron/loans/${loanId}/renew`, { method: 'POST' }),
+
+  getHolds: (): Promise<Hold[]> => fetchAsPatron(`${API_BASE_URL}/patron/holds`),
+
+  // Join a title's waitlist
+  placeHold: (bookId: string): Promise<{ success: boolean; position: number }> =>
+    fetchAsPatron(`${API_BASE_URL}/patron/holds`, {
+      method: 'POST',
+      body: JSON.stringify({ bookId }),
+    }),
+
+  getRequests: (): Promise<BookRequest[]> => fetchAsPatron(`${API_BASE_URL}/patron/requests`),
+
+  createRequest: (request: PatronRequestInput): Promise<BookRequest> =>
+    fetchAsPatron(`${API_BASE_URL}/patron/requests`, {
+      method: 'POST',
+      body: JSON.stringify(request),
+    }),
+
+  getOwnedBooks: (): Promise<{ borrowerVisibility: BorrowerVisibility; books: OwnedBook[] }> =>
+    fetchAsPatron(`${API_BASE_URL}/patron/owned-books`),
+
+  /**
+   * Ask for a lent book back: every copy the library still holds
+   */
+  reclaimBook: (bookId: string, reason?: string): Promise<{ reclaimed: number; borrowersNotified: number }> =>
+    fetchAsPatron(`${API_BASE_URL}/patron/owned-books/${bookId}/reclaim`, {
+      method: 'POST',
+      body: JSON.stringify({ reason }),
+    }),
+
+  cancelReclaim: (reclaimId: string): Promise<{ success: boolean }> =>
+    fetchAsPatron(`${API_BASE_URL}/patron/reclaims/${reclaimId}/cancel`, { method: 'POST' }),
+
+  getDonations: (from?: string, to?: string): Promise<DonationReceipt> =>
+    fetchAsPatron(`${API_BASE_URL}/patron/donations${donationPeriod(from, to)}`),
+};
+
 // ===== CACHE UTILITIES =====
 export const cacheUtils = {
   getStats: () => cache.stats(),
@@ -384,4 +1468,6 @@ export const cacheUtils = {
   clearWriters: () => cache.deletePattern(CacheKeys.patterns.allWriters),
   clearIssues: () => cache.deletePattern(CacheKeys.patterns.allIssues),
   clearBookRequests: () => cache.deletePattern(CacheKeys.patterns.allBookRequests),
+  clearServer: (): Promise<{ success: boolean }> =>
+    fetchWithAuth(`${API_BASE_URL}/cache/clear`, { method: 'POST' }),
 };
@@ -21,12 +21,13 @@ export function getCache(): ICache {
  * Cache key generators for consistent naming
  */
 export const CacheKeys = {
-  // Books
-  allBooks: () => 'books:all',
+  // Books - one entry per page of the list asked for
+  bookList: (query: string) => `books:list:${query}`,
   book: (id: string) => `books:${id}`,
+  bookSearch: (query: string) => `books:search:${query}`,
   
   // Users
-  allUsers: () => 'users:all',
+  userList: (query: string) => `users:list:${query}`,
   user: (id: string) => `users:${id}`,
   
   // Categories
@@ -34,11 +35,11 @@ export const CacheKeys = {
   category: (id: string) => `categories:${id}`,
   
   // Writers
-  allWriters: () => 'writers:all',
+  writerList: (query: string) => `writers:list:${query}`,
   writer: (id: string) => `writers:${id}`,
 
   // Issues
-  allIssues: () => 'issues:all',
+  issueList: (query: string) => `issues:list:${query}`,
 
   // Book Requests
   allBookRequests: () => 'book-requests:all',
@@ -0,0 +1,40 @@
+import type { DonationReceipt } from '../App';
+
+const csvField = (value: string | number | null | undefined) => {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Save rows as a CSV file in the browser
+ */
+export const downloadCsv = (filename: string, rows: (string | number | null | undefined)[][]) => {
+  const csv = rows.map(row => row.map(csvField).join(',')).join('\r\n');
+  const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv;charset=utf-8' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Save a donor's receipt: who gave what and when, for the period asked for
+ */
+export const downloadDonationReceipt = (receipt: DonationReceipt) => {
+  const period = receipt.from || receipt.to
+    ? `${receipt.from || 'the start'} to ${receipt.to || 'today'}`
+    : 'All donations';
+  const copies = receipt.items.reduce((total, item) => total + item.copies, 0);
+  downloadCsv(`donations-${receipt.donor.name.replace(/\W+/g, '-').toLowerCase()}.csv`, [
+    [`${receipt.libraryName} - donation receipt`],
+    ['Donor', receipt.donor.name],
+    ['Contact', receipt.donor.email || receipt.donor.phone],
+    ['Period', period],
+    [],
+    ['Donated on', 'Title', 'Authors', 'ISBN', 'Copies'],
+    ...receipt.items.map(item => [item.donatedAt, item.title, item.authors, item.isbn, item.copies]),
+    [],
+    ['Total', `${receipt.items.length} titles`, '', '', copies],
+  ]);
+};
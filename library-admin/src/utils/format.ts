@@ -0,0 +1,44 @@
+import { displayConfig } from '../config';
+import type { CopyStatus, LoanStatus } from '../App';
+
+/**
+ * Format an amount of money for display, e.g. fines and balances
+ */
+export const formatMoney = (amount: number) =>
+  `${amount < 0 ? '-' : ''}${displayConfig.currencySymbol}${Math.abs(amount).toFixed(2)}`;
+
+export const LOAN_STATUS_LABELS: Record<LoanStatus, string> = {
+  issued: 'Issued',
+  returned: 'Returned',
+  lost: 'Lost',
+  damaged: 'Returned damaged',
+  claimed_returned: 'Claimed returned',
+  written_off: 'Written off',
+};
+
+export const LOAN_STATUS_STYLES: Record<LoanStatus, string> = {
+  issued: 'bg-blue-100 text-blue-700',
+  returned: 'bg-green-100 text-green-700',
+  lost: 'bg-red-100 text-red-700',
+  damaged: 'bg-orange-100 text-orange-700',
+  claimed_returned: 'bg-yellow-100 text-yellow-700',
+  written_off: 'bg-gray-100 text-gray-700',
+};
+
+export const COPY_STATUS_LABELS: Record<CopyStatus, string> = {
+  available: 'Available',
+  on_loan: 'On loan',
+  lost: 'Lost',
+  in_repair: 'In repair',
+  withdrawn: 'Withdrawn',
+  in_transit: 'In transit',
+};
+
+export const COPY_STATUS_STYLES: Record<CopyStatus, string> = {
+  available: 'bg-green-100 text-green-700',
+  on_loan: 'bg-blue-100 text-blue-700',
+  lost: 'bg-red-100 text-red-700',
+  in_repair: 'bg-yellow-100 text-yellow-700',
+  withdrawn: 'bg-gray-100 text-gray-700',
+  in_transit: 'bg-purple-100 text-purple-700',
+};
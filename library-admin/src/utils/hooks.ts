@@ -0,0 +1,51 @@
+import { useEffect, useRef, useState } from 'react';
+
+/**
+ * The value once it has stopped changing for delay ms
+ */
+export function useDebounce<T>(value: T, delay: number): T {
+  const [debouncedValue, setDebouncedValue] = useState<T>(value);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedValue(value), delay);
+    return () => clearTimeout(timer);
+  }, [value, delay]);
+
+  return debouncedValue;
+}
+
+/**
+ * Matches for a search-as-you-type picker, asked of the server once typing
+ * pauses; empty until the query is minLength characters long. Answers to
+ * earlier queries that arrive late are dropped.
+ */
+export function useListSearch<T>(
+  query: string,
+  search: (query: string) => Promise<T[]>,
+  minLength = 1
+): T[] {
+  const [results, setResults] = useState<T[]>([]);
+  const debouncedQuery = useDebounce(query.trim(), 300);
+  // search is usually a new inline arrow each render, so only a new query
+  // refetches - with whichever search is current then
+  const searchRef = useRef(search);
+  searchRef.current = search;
+
+  useEffect(() => {
+    if (debouncedQuery.length < minLength) {
+      setResults([]);
+      return;
+    }
+    let current = true;
+    searchRef.current(debouncedQuery)
+      .then(items => {
+        if (current) setResults(items);
+      })
+      .catch(error => console.error('Error searching:', error));
+    return () => {
+      current = false;
+    };
+  }, [debouncedQuery, minLength]);
+
+  return results;
+}
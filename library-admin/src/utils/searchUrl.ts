@@ -0,0 +1,82 @@
+import type { BookSource, MatchMode } from './api';
+
+/**
+ * What the search page is showing, kept in the address bar so a search can
+ * be bookmarked or shared. Names and values are the same as GET /api/search's,
+ * plus the page number.
+ */
+export type SearchFilters = {
+  q?: string;
+  categoryId?: string[];
+  categoryIdMatch?: MatchMode;
+  writerId?: string[];
+  writerIdMatch?: MatchMode;
+  bookType?: string[];
+  language?: string[];
+  publishedFrom?: number;
+  publishedTo?: number;
+  available?: boolean;
+  source?: BookSource[];
+  sort?: string; // e.g. '-borrowCount'
+  page?: number;
+};
+
+const LIST_PARAMS = ['categoryId', 'writerId', 'bookType', 'language', 'source'] as const;
+const NUMBER_PARAMS = ['publishedFrom', 'publishedTo', 'page'] as const;
+
+/**
+ * The search in the address bar, or null if there isn't one
+ */
+export function readSearchUrl(): SearchFilters | null {
+  const params = new URLSearchParams(window.location.search);
+  if ([...params.keys()].length === 0) {
+    return null;
+  }
+
+  const filters: SearchFilters = {};
+  const q = params.get('q')?.trim();
+  if (q) filters.q = q;
+  for (const name of LIST_PARAMS) {
+    const values = (params.get(name) || '').split(',').map(value => value.trim()).filter(Boolean);
+    if (values.length > 0) {
+      (filters as Record<string, string[]>)[name] = values;
+    }
+  }
+  for (const name of NUMBER_PARAMS) {
+    const value = parseInt(params.get(name) || '');
+    if (!isNaN(value)) filters[name] = value;
+  }
+  if (params.get('categoryIdMatch') === 'all') filters.categoryIdMatch = 'all';
+  if (params.get('writerIdMatch') === 'all') filters.writerIdMatch = 'all';
+  if (params.get('available') === 'true') filters.available = true;
+  const sort = params.get('sort');
+  if (sort) filters.sort = sort;
+  return filters;
+}
+
+/**
+ * Put the search in the address bar, replacing the one there (so Back
+ * leaves the page rather than stepping through every change)
+ */
+export function writeSearchUrl(filters: SearchFilters) {
+  const params = new URLSearchParams();
+  for (const [name, value] of Object.entries(filters)) {
+    if (value === undefined || value === '' || value === false) continue;
+    if (Array.isArray(value)) {
+      if (value.length > 0) params.set(name, value.join(','));
+    } else {
+      params.set(name, String(value));
+    }
+  }
+  const query = params.toString();
+  window.history.replaceState(null, '', `${window.location.pathname}${query ? `?${query}` : ''}`);
+}
+
+/**
+ * Take the search out of the address bar, on leaving the search page
+ */
+export function clearSearchUrl() {
+  if (window.location.search) {
+    window.history.replaceState(null, '', window.location.pathname);
+  }
+}